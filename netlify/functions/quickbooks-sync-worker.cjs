@@ -0,0 +1,428 @@
+const {
+  getSupabaseAdmin,
+  getCredentials,
+  qbRequest,
+  qbQuery
+} = require('./utils/qb-connection.cjs');
+
+// Scheduled every few minutes (see netlify.toml). Claims due jobs from
+// quickbooks_sync_jobs, runs them against QuickBooks and records the outcome;
+// finish_quickbooks_sync_job decides between retry with backoff and the
+// dead-letter list.
+
+const BATCH_SIZE = 10;
+
+const GENERIC_ITEM_REF = { value: '1', name: 'Services' };
+
+const TERMS_DAYS = {
+  due_on_receipt: 0,
+  net_15: 15,
+  net_30: 30,
+  net_45: 45,
+  net_60: 60,
+  net_90: 90
+};
+
+/**
+ * Outages, throttling and expired tokens are worth retrying. Any other 4xx
+ * means QuickBooks rejected the request itself, so it goes straight to the
+ * dead-letter list for an admin to fix.
+ */
+function isRetryable(error) {
+  const status = error.status;
+  return !status || status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+async function logSync(supabase, entityType, entityId, operation, status, quickbooksId, request, response, errorMessage) {
+  try {
+    await supabase.from('quickbooks_sync_log').insert({
+      entity_type: entityType,
+      entity_id: entityId,
+      quickbooks_id: quickbooksId,
+      operation,
+      status,
+      request_payload: request,
+      response_payload: response,
+      error_message: errorMessage,
+      created_at: new Date().toISOString()
+    });
+  } catch (logError) {
+    console.error('Failed to write QuickBooks sync log:', logError.message);
+  }
+}
+
+function qbAddress(address) {
+  if (!address) return undefined;
+  return {
+    Line1: address.address1,
+    Line2: address.address2,
+    City: address.city,
+    CountrySubDivisionCode: address.state_or_province,
+    PostalCode: address.postal_code,
+    Country: address.country_code || 'US'
+  };
+}
+
+async function syncCustomer(organizationId, { supabase, creds }) {
+  const { data: org, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error || !org) {
+    throw Object.assign(new Error('Organization not found'), { status: 404 });
+  }
+
+  const customer = {
+    DisplayName: org.name,
+    CompanyName: org.name,
+    PrimaryEmailAddr: org.contact_email ? { Address: org.contact_email } : undefined,
+    PrimaryPhone: org.contact_phone ? { FreeFormNumber: org.contact_phone } : undefined,
+    Notes: org.description || undefined,
+    Active: org.is_active,
+    BillAddr: qbAddress(org.billing_address)
+  };
+
+  let existingId = org.quickbooks_customer_id;
+  if (!existingId) {
+    // An earlier attempt may have created the customer before failing;
+    // link to it rather than creating a duplicate
+    const name = org.name.replace(/'/g, "''").replace(/[\\;]/g, '');
+    const matches = await qbQuery(creds, `SELECT * FROM Customer WHERE DisplayName = '${name}'`);
+    existingId = matches[0]?.Id || null;
+  }
+
+  if (existingId) {
+    const { Customer: existing } = await qbRequest(creds, `customer/${existingId}`);
+    customer.Id = existing.Id;
+    customer.SyncToken = existing.SyncToken;
+  }
+
+  const { Customer: saved } = await qbRequest(creds, 'customer', { method: 'POST', data: customer });
+
+  await supabase
+    .from('organizations')
+    .update({ quickbooks_customer_id: saved.Id, last_synced_at: new Date().toISOString() })
+    .eq('id', organizationId);
+
+  await logSync(supabase, 'customer', organizationId, existingId ? 'update' : 'create', 'success', saved.Id, customer, saved);
+  return saved.Id;
+}
+
+/**
+ * Same lines as buildInvoiceLines() in src/services/quickbooks/invoices.ts:
+ * items at their pre-discount price, then the discount code as one discount
+ * line so the invoice comes to what the customer owes.
+ */
+function buildInvoiceLines(items, itemIds, discountCode) {
+  const lines = items.map(item => {
+    const itemId = itemIds.get(Number(item.productId));
+    return {
+      DetailType: 'SalesItemLineDetail',
+      Amount: Number(item.subtotal || (item.quantity * item.price)),
+      SalesItemLineDetail: {
+        ItemRef: itemId ? { value: itemId } : GENERIC_ITEM_REF,
+        Qty: item.quantity,
+        UnitPrice: Number(item.price),
+        TaxCodeRef: { value: item.taxable ? 'TAX' : 'NON' }
+      },
+      Description: `${item.name}${item.sku ? ` (SKU: ${item.sku})` : ''}`
+    };
+  });
+
+  const discount = Math.round(items.reduce((sum, item) => sum + (Number(item.discount) || 0), 0) * 100) / 100;
+  if (discount > 0) {
+    lines.push({
+      DetailType: 'DiscountLineDetail',
+      Amount: discount,
+      DiscountLineDetail: { PercentBased: false },
+      Description: discountCode ? `Discount code ${discountCode}` : 'Discount'
+    });
+  }
+
+  return lines;
+}
+
+async function syncInvoice(orderId, requestId, context) {
+  const { supabase, creds } = context;
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error || !order) {
+    throw Object.assign(new Error('Order not found'), { status: 404 });
+  }
+  if (order.quickbooks_invoice_id) {
+    return order.quickbooks_invoice_id;
+  }
+  if (order.status === 'cancelled') {
+    throw Object.assign(new Error('Order was cancelled before it was invoiced'), { status: 409 });
+  }
+  if (!order.organization_id) {
+    throw Object.assign(new Error('Order must have an organization_id'), { status: 400 });
+  }
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('quickbooks_customer_id')
+    .eq('id', order.organization_id)
+    .maybeSingle();
+
+  const customerId = org?.quickbooks_customer_id || await syncCustomer(order.organization_id, context);
+
+  const items = Array.isArray(order.items) ? order.items : [];
+
+  // Products that have not been pushed as items yet fall back to the
+  // generic item; syncing them is left to the admin Products tab
+  const productIds = [...new Set(items.map(item => Number(item.productId)).filter(Number.isFinite))];
+  const itemIds = new Map();
+  if (productIds.length > 0) {
+    const { data: products } = await supabase
+      .from('products')
+      .select('id, quickbooks_item_id')
+      .in('id', productIds);
+    for (const product of products || []) {
+      if (product.quickbooks_item_id) itemIds.set(product.id, product.quickbooks_item_id);
+    }
+  }
+
+  const dueDate = order.invoice_due_date || (() => {
+    const due = new Date();
+    due.setDate(due.getDate() + (TERMS_DAYS[order.payment_terms] ?? 30));
+    return due.toISOString().split('T')[0];
+  })();
+
+  const invoice = {
+    CustomerRef: { value: customerId },
+    Line: buildInvoiceLines(items, itemIds, order.discount_code),
+    TxnDate: new Date().toISOString().split('T')[0],
+    DueDate: dueDate,
+    BillEmail: order.customer_email ? { Address: order.customer_email } : undefined,
+    BillAddr: qbAddress(order.billing_address),
+    PrivateNote: `Order ID: ${order.id}${order.order_number ? ` | Order #${order.order_number}` : ''}${order.po_number ? ` | PO #${order.po_number}` : ''}`
+  };
+
+  if (Number(order.tax) > 0) {
+    invoice.TxnTaxDetail = { TotalTax: Number(order.tax) };
+  }
+
+  const memo = [order.po_number ? `PO #${order.po_number}` : null, order.notes].filter(Boolean).join('\n');
+  if (memo) {
+    invoice.CustomerMemo = { value: memo };
+  }
+
+  // QuickBooks answers a repeated requestid with the invoice it already
+  // created, so a retry after the save below failed (or the run died) does
+  // not invoice the order twice
+  const { Invoice: saved } = await qbRequest(creds, `invoice?requestid=${encodeURIComponent(requestId)}`, { method: 'POST', data: invoice });
+
+  const { error: saveError } = await supabase
+    .from('orders')
+    .update({
+      quickbooks_invoice_id: saved.Id,
+      sync_status: 'synced',
+      last_synced_at: new Date().toISOString()
+    })
+    .eq('id', orderId);
+
+  if (saveError) {
+    throw new Error(`Invoice ${saved.Id} was created but could not be saved on the order: ${saveError.message}`);
+  }
+
+  await logSync(supabase, 'invoice', orderId, 'create', 'success', saved.Id, invoice, saved);
+  return saved.Id;
+}
+
+/**
+ * Apply a payment recorded in QuickBooks: every order on an invoice it
+ * settles in full is marked captured. Orders split off an invoiced order
+ * (backorder splits, vendor sub-orders) share its invoice and settle with it.
+ */
+async function applyPayment(paymentId, { supabase, creds }) {
+  const { Payment: payment } = await qbRequest(creds, `payment/${paymentId}`);
+
+  const invoiceIds = (payment.Line || [])
+    .flatMap(line => line.LinkedTxn || [])
+    .filter(txn => txn.TxnType === 'Invoice')
+    .map(txn => txn.TxnId);
+
+  const settled = [];
+  for (const invoiceId of [...new Set(invoiceIds)]) {
+    const { data: invoiceOrders, error } = await supabase
+      .from('orders')
+      .select('id, payment_status, total, is_sub_order')
+      .eq('quickbooks_invoice_id', invoiceId);
+
+    if (error) {
+      throw new Error(`Could not load the orders on invoice ${invoiceId}: ${error.message}`);
+    }
+
+    const open = (invoiceOrders || []).filter(order => !['captured', 'refunded', 'partially_refunded'].includes(order.payment_status));
+    if (open.length === 0) {
+      continue;
+    }
+
+    const { Invoice: invoice } = await qbRequest(creds, `invoice/${invoiceId}`);
+    if (Number(invoice.Balance) > 0) {
+      continue;
+    }
+
+    const billed = invoiceOrders.filter(order => !order.is_sub_order);
+    const now = new Date().toISOString();
+    for (const order of open) {
+      const { error: updateError } = await supabase
+        .from('orders')
+        .update({ payment_status: 'captured', payment_captured_at: now, updated_at: now })
+        .eq('id', order.id);
+
+      if (updateError) {
+        throw new Error(`Could not mark order ${order.id} paid: ${updateError.message}`);
+      }
+
+      // Vendor sub-orders repeat items of their parent, which keeps the full
+      // total, so the payment is recorded on the parent. Backorder splits
+      // each record their own share.
+      if (!order.is_sub_order) {
+        const { error: insertError } = await supabase.from('payment_transactions').insert({
+          order_id: order.id,
+          transaction_type: 'capture',
+          payment_method: 'invoice',
+          gateway_transaction_id: `qb_payment_${paymentId}`,
+          amount: billed.length === 1 ? Number(invoice.TotalAmt ?? order.total) : Number(order.total),
+          status: 'success',
+          metadata: { quickbooks_payment_id: paymentId, quickbooks_invoice_id: invoiceId, source: 'quickbooks_webhook' }
+        });
+
+        if (insertError) {
+          throw new Error(`Could not record the payment on order ${order.id}: ${insertError.message}`);
+        }
+      }
+
+      settled.push(order.id);
+    }
+  }
+
+  await logSync(supabase, 'payment', paymentId, 'update', 'success', paymentId, { invoiceIds }, { settledOrders: settled });
+  return paymentId;
+}
+
+async function retryRefund(orderId, payload, { supabase, creds }) {
+  const endpoint = payload.echeck
+    ? `payments/echecks/${payload.authorization_id}/refunds`
+    : `payments/charges/${payload.authorization_id}/refunds`;
+  const request = { amount: Number(payload.amount).toFixed(2) };
+
+  const refund = await qbRequest(creds, endpoint, {
+    method: 'POST',
+    data: request,
+    usePaymentsAPI: true,
+    requestId: payload.request_id
+  });
+
+  // Booked exactly as refundPayment books an inline refund: status,
+  // transaction, commission clawback and the return it settles
+  const { error } = await supabase.rpc('record_order_refund', {
+    p_order_id: orderId,
+    p_amount: Number(payload.amount),
+    p_authorization_id: payload.authorization_id,
+    p_options: {
+      ...(payload.record || {}),
+      request_id: payload.request_id,
+      quickbooks_refund_id: refund.id,
+      via: 'quickbooks_sync_queue'
+    }
+  });
+  if (error) {
+    throw new Error(`Refund ${refund.id} went through but could not be recorded: ${error.message}`);
+  }
+
+  await logSync(supabase, 'payment_refund', payload.authorization_id, 'create', 'success', refund.id, request, { id: refund.id, status: refund.status });
+  return refund.id;
+}
+
+const HANDLERS = {
+  customer: (job, context) => syncCustomer(job.entity_id, context),
+  invoice: (job, context) => syncInvoice(job.entity_id, job.idempotency_key, context),
+  payment: (job, context) => applyPayment(job.entity_id, context),
+  refund: (job, context) => retryRefund(job.entity_id, job.payload, context)
+};
+
+const LOG_ENTITY = {
+  customer: 'customer',
+  invoice: 'invoice',
+  payment: 'payment',
+  refund: 'payment_refund'
+};
+
+exports.handler = async () => {
+  const supabase = getSupabaseAdmin();
+
+  const { data: jobs, error } = await supabase.rpc('claim_quickbooks_sync_jobs', { p_limit: BATCH_SIZE });
+  if (error) {
+    console.error('Failed to claim QuickBooks sync jobs:', error.message);
+    return { statusCode: 500, body: JSON.stringify({ error: error.message }) };
+  }
+
+  const summary = { processed: 0, success: 0, retry: 0, failed: 0 };
+  if (!jobs || jobs.length === 0) {
+    return { statusCode: 200, body: JSON.stringify(summary) };
+  }
+
+  let creds = null;
+  let connectionError = null;
+  try {
+    creds = await getCredentials();
+  } catch (credError) {
+    connectionError = credError;
+  }
+
+  for (const job of jobs) {
+    summary.processed++;
+    let quickbooksId = null;
+    let failure = connectionError;
+
+    if (!failure) {
+      try {
+        quickbooksId = await HANDLERS[job.job_type](job, { supabase, creds });
+      } catch (jobError) {
+        failure = jobError;
+      }
+    }
+
+    const { data: status, error: finishError } = await supabase.rpc('finish_quickbooks_sync_job', {
+      p_job_id: job.id,
+      p_quickbooks_id: quickbooksId,
+      p_error: failure ? failure.message : null,
+      p_retryable: failure ? isRetryable(failure) : true
+    });
+
+    if (finishError) {
+      // The job stays locked and is reclaimed once the lock goes stale
+      console.error(`Failed to record QuickBooks sync job ${job.id}:`, finishError.message);
+      continue;
+    }
+
+    summary[status] = (summary[status] || 0) + 1;
+
+    if (failure) {
+      console.error(`QuickBooks ${job.job_type} job ${job.id} attempt ${job.attempts} failed:`, failure.message);
+      await logSync(
+        supabase,
+        LOG_ENTITY[job.job_type],
+        job.entity_id,
+        job.job_type === 'invoice' || job.job_type === 'refund' ? 'create' : 'update',
+        status,
+        undefined,
+        { jobId: job.id, attempt: job.attempts },
+        undefined,
+        failure.message
+      );
+    }
+  }
+
+  console.log('QuickBooks sync worker:', JSON.stringify(summary));
+  return { statusCode: 200, body: JSON.stringify(summary) };
+};
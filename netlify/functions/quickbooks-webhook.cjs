@@ -0,0 +1,98 @@
+const crypto = require('crypto');
+const { getSupabaseAdmin } = require('./utils/qb-connection.cjs');
+
+// Receives QuickBooks change notifications. Only payments are acted on: each
+// one is queued as a 'payment' sync job, and the sync worker marks the
+// orders whose invoices it settles as paid. Intuit expects a quick 200, so
+// nothing here calls back into QuickBooks.
+
+const headers = { 'Content-Type': 'application/json' };
+
+function verifySignature(rawBody, signature) {
+  const verifierToken = process.env.QB_WEBHOOK_VERIFIER_TOKEN;
+  if (!verifierToken || !signature) return false;
+
+  const expected = crypto.createHmac('sha256', verifierToken).update(rawBody).digest('base64');
+  const expectedBuffer = Buffer.from(expected);
+  const signatureBuffer = Buffer.from(signature);
+
+  return expectedBuffer.length === signatureBuffer.length
+    && crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+/**
+ * Payment changes from either notification format: the classic
+ * eventNotifications payload or the CloudEvents array.
+ */
+function paymentEvents(body) {
+  if (Array.isArray(body)) {
+    return body
+      .filter(event => /^qbo\.payment\.(created|updated)\./.test(event.type || ''))
+      .map(event => ({
+        realmId: event.intuitaccountid,
+        paymentId: event.intuitentityid,
+        changedAt: event.time
+      }));
+  }
+
+  return (body.eventNotifications || []).flatMap(notification =>
+    (notification.dataChangeEvent?.entities || [])
+      .filter(entity => entity.name === 'Payment' && ['Create', 'Update'].includes(entity.operation))
+      .map(entity => ({
+        realmId: notification.realmId,
+        paymentId: entity.id,
+        changedAt: entity.lastUpdated
+      }))
+  );
+}
+
+exports.handler = async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) };
+  }
+
+  const rawBody = event.isBase64Encoded
+    ? Buffer.from(event.body || '', 'base64').toString('utf8')
+    : event.body || '';
+
+  if (!verifySignature(rawBody, event.headers['intuit-signature'])) {
+    console.warn('Rejected QuickBooks webhook with an invalid signature');
+    return { statusCode: 401, headers, body: JSON.stringify({ error: 'Invalid signature' }) };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return { statusCode: 400, headers, body: JSON.stringify({ error: 'Invalid JSON body' }) };
+  }
+
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: creds } = await supabase
+      .from('quickbooks_credentials')
+      .select('realm_id')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    // Ignore companies other than the connected one
+    const events = paymentEvents(body).filter(e => e.paymentId && creds && String(e.realmId) === String(creds.realm_id));
+
+    for (const { paymentId, changedAt } of events) {
+      const { error } = await supabase.rpc('queue_quickbooks_sync_job', {
+        p_job_type: 'payment',
+        p_entity_id: String(paymentId),
+        p_idempotency_key: `payment:${paymentId}:${changedAt || ''}`,
+        p_payload: { realm_id: creds.realm_id, changed_at: changedAt || null }
+      });
+      if (error) throw error;
+    }
+
+    return { statusCode: 200, headers, body: JSON.stringify({ queued: events.length }) };
+  } catch (error) {
+    // A 500 makes Intuit redeliver the notification later
+    console.error('QuickBooks webhook error:', error.message);
+    return { statusCode: 500, headers, body: JSON.stringify({ error: 'Failed to queue notification' }) };
+  }
+};
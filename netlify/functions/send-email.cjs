@@ -279,6 +279,21 @@ function prepareTemplateData(emailType, data) {
       break;
     }
 
+    case 'quote_sent': {
+      vars.item_rows = buildOrderItemRows(data.items);
+      vars.formatted_total = Number(data.total || 0).toFixed(2);
+      break;
+    }
+
+    case 'contract_pricing_expiring': {
+      vars.product_rows = buildExpiringPriceRows(data.products);
+      break;
+    }
+    case 'low_stock_alert': {
+      vars.product_rows = buildLowStockRows(data.products);
+      break;
+    }
+
     case 'customer_invitation':
     case 'distributor_invitation':
     case 'sales_rep_invitation':
@@ -294,6 +309,22 @@ function prepareTemplateData(emailType, data) {
   return vars;
 }
 
+// Rows for the contract_pricing_expiring table (Product, Price, Expires)
+function buildExpiringPriceRows(products) {
+  if (!Array.isArray(products)) return '';
+  return products
+    .map((p) => `<tr><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;font-size:14px;">${p.name} <span style="color:#9ca3af;">(${p.quantity})</span></td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">$${Number(p.price || 0).toFixed(2)}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.expires_on}</td></tr>`)
+    .join('');
+}
+
+// Rows for the low_stock_alert table (Product, Available, Threshold)
+function buildLowStockRows(products) {
+  if (!Array.isArray(products)) return '';
+  return products
+    .map((p) => `<tr><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;font-size:14px;">${p.name}${p.sku ? ` <span style="color:#9ca3af;">(${p.sku})</span>` : ''}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.available}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.threshold}</td></tr>`)
+    .join('');
+}
+
 // ── Simple {{variable}} replacement ──
 
 function renderTemplate(html, vars) {
@@ -502,6 +533,97 @@ function buildFallbackHtml(emailType, data, headerHtml, footerHtml) {
       `);
     }
 
+    case 'return_status_update': {
+      const orderNumber = String(data.order_number || '');
+      const rmaNumber = String(data.rma_number || '');
+      const statusLabel = String(data.status_label || 'Updated');
+      const message = String(data.message || '');
+      return wrap(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Return ${statusLabel}</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Your return for order <strong>${orderNumber}</strong> has been updated.</p>
+        <div style="background:#f9fafb;border:1px solid #e5e7eb;border-radius:8px;padding:16px;margin-bottom:16px;">
+          ${rmaNumber ? `<p style="color:#111827;font-size:14px;font-weight:600;margin:0 0 4px 0;">${rmaNumber}</p>` : ''}
+          <p style="color:#374151;font-size:14px;margin:0;white-space:pre-wrap;">${message}</p>
+        </div>
+        <p style="color:#6b7280;font-size:14px;">You can follow your return under My Orders.</p>
+      `);
+    }
+
+    case 'quote_sent': {
+      const quoteNumber = String(data.quote_number || '');
+      const repName = String(data.rep_name || 'Your sales rep');
+      const orgName = String(data.organization_name || 'your organization');
+      const expiresOn = String(data.expires_on || '');
+      const notes = String(data.notes || '');
+      return wrap(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Quote ${quoteNumber}</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">${repName} has prepared a quote for <strong>${orgName}</strong>.${expiresOn ? ` These prices are available until <strong>${expiresOn}</strong>.` : ''}</p>
+        <table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="border:1px solid #e5e7eb;border-radius:8px;margin-bottom:16px;">
+          ${buildOrderItemRows(data.items)}
+        </table>
+        <p style="color:#111827;font-size:16px;font-weight:600;text-align:right;margin:0 0 16px 0;">Total $${Number(data.total || 0).toFixed(2)}</p>
+        ${notes ? `<p style="color:#374151;font-size:14px;white-space:pre-wrap;">${notes}</p>` : ''}
+        <div style="text-align:center;margin:24px 0;">
+          ${outlookButton(String(data.quote_url || getSiteUrl()), 'Review &amp; Accept')}
+        </div>
+        <p style="color:#6b7280;font-size:13px;">Shipping and tax are calculated at checkout.</p>
+      `);
+    }
+
+    case 'tax_exemption_expiring': {
+      const orgName = String(data.organization_name || 'your organization');
+      const expiresOn = String(data.expires_on || '');
+      const certificate = String(data.certificate_number || '');
+      const state = String(data.issuing_state || '');
+      return wrap(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Tax Exemption Certificate Expiring</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">The tax exemption certificate on file for <strong>${orgName}</strong> expires on <strong>${expiresOn}</strong>.</p>
+        <div style="background:#fef3c7;border:1px solid #fde68a;border-radius:8px;padding:16px;margin-bottom:16px;">
+          <p style="color:#92400e;font-size:14px;margin:0;">Certificate ${certificate}${state ? ` (${state})` : ''}</p>
+        </div>
+        <p style="color:#6b7280;font-size:14px;">Please send us a renewed certificate before then. Sales tax will be charged on orders placed after the certificate expires.</p>
+      `);
+    }
+
+    case 'low_stock_alert': {
+      const count = String(data.product_count || '');
+      const rows = buildLowStockRows(data.products);
+      return wrap(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Low Stock Alert</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">${count} product(s) have fallen to or below their low-stock threshold.</p>
+        <table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+          <tr>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Available</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Threshold</th>
+          </tr>
+          ${rows}
+        </table>
+        <p style="color:#6b7280;font-size:14px;">New orders for these products will be backordered once available stock runs out.</p>
+      `);
+    }
+
+    case 'contract_pricing_expiring': {
+      const orgName = String(data.organization_name || 'your organization');
+      const repName = String(data.rep_name || '');
+      const expiresOn = String(data.expires_on || '');
+      const count = String(data.product_count || '');
+      const rows = buildExpiringPriceRows(data.products);
+      return wrap(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Contract Pricing Expiring</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Hi ${repName}, ${count} contract price(s) for <strong>${orgName}</strong> expire starting <strong>${expiresOn}</strong>.</p>
+        <table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+          <tr>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Price</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Expires</th>
+          </tr>
+          ${rows}
+        </table>
+        <p style="color:#6b7280;font-size:14px;">Once these prices expire the customer pays retail. Ask an admin to extend them or schedule new pricing before then.</p>
+      `);
+    }
+
     case 'customer_invitation': {
       const fullName = String(data.full_name || '');
       const email = String(data.email || '');
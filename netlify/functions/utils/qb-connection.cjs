@@ -0,0 +1,244 @@
+const { createClient } = require('@supabase/supabase-js');
+const { encrypt, decrypt, isEncrypted } = require('./qb-token-encryption.cjs');
+
+const QB_TOKEN_URL = 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer';
+const QB_ENVIRONMENT = process.env.QB_ENVIRONMENT || process.env.VITE_QB_ENVIRONMENT || 'sandbox';
+
+const QB_API_BASE_URL = QB_ENVIRONMENT === 'production'
+  ? 'https://quickbooks.api.intuit.com'
+  : 'https://sandbox-quickbooks.api.intuit.com';
+
+const QB_PAYMENTS_BASE_URL = QB_ENVIRONMENT === 'production'
+  ? 'https://api.intuit.com/quickbooks/v4'
+  : 'https://sandbox.api.intuit.com/quickbooks/v4';
+
+function getSupabaseAdmin() {
+  const url = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    throw new Error('Supabase config missing. SUPABASE_SERVICE_ROLE_KEY is required.');
+  }
+
+  return createClient(url, key);
+}
+
+async function getCredentials() {
+  const supabase = getSupabaseAdmin();
+
+  const { data: creds } = await supabase
+    .from('quickbooks_credentials')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!creds) {
+    throw new Error('No active QuickBooks connection. Please connect QuickBooks first.');
+  }
+
+  // Decrypt tokens — they are only held in plain text in volatile function memory
+  let needsMigration = false;
+  try {
+    needsMigration = !isEncrypted(creds.access_token) || !isEncrypted(creds.refresh_token);
+    creds.access_token = isEncrypted(creds.access_token) ? decrypt(creds.access_token) : creds.access_token;
+    creds.refresh_token = isEncrypted(creds.refresh_token) ? decrypt(creds.refresh_token) : creds.refresh_token;
+  } catch (decryptError) {
+    console.error('Failed to decrypt QB tokens:', decryptError.message);
+    throw new Error('QuickBooks credentials are corrupted. Please reconnect.');
+  }
+
+  // Migrate legacy plain text tokens to encrypted format
+  if (needsMigration) {
+    try {
+      console.log('Migrating plain text QB tokens to encrypted format');
+      const encAccessToken = encrypt(creds.access_token);
+      const encRefreshToken = encrypt(creds.refresh_token);
+      await supabase
+        .from('quickbooks_credentials')
+        .update({
+          access_token: encAccessToken,
+          refresh_token: encRefreshToken,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', creds.id);
+    } catch (migrationError) {
+      // Log but don't fail — tokens are already decrypted in memory for this request
+      console.error('Token migration failed (will retry next request):', migrationError.message);
+    }
+  }
+
+  const expiresAt = new Date(creds.expires_at);
+  const now = new Date();
+  const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60 * 1000);
+
+  if (expiresAt <= fiveMinutesFromNow) {
+    return await refreshTokens(creds, supabase);
+  }
+
+  return creds;
+}
+
+async function refreshTokens(creds, supabase) {
+  const clientId = process.env.QB_CLIENT_ID || process.env.VITE_QB_CLIENT_ID;
+  const clientSecret = process.env.QB_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error('QuickBooks client credentials not configured');
+  }
+
+  const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+
+  const tokenResponse = await fetch(QB_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${basicAuth}`
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: creds.refresh_token
+    })
+  });
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+
+    // Detect invalid_grant (expired/revoked refresh token)
+    let isInvalidGrant = false;
+    let safeErrorMessage = `Token refresh failed (HTTP ${tokenResponse.status})`;
+    try {
+      const errorJson = JSON.parse(errorText);
+      isInvalidGrant = errorJson.error === 'invalid_grant';
+      // Use QB's error description if available, but never include raw token data
+      if (errorJson.error_description) {
+        safeErrorMessage = `Token refresh failed: ${errorJson.error_description}`;
+      }
+    } catch {
+      isInvalidGrant = errorText.includes('invalid_grant');
+    }
+
+    // Log refresh failure to audit trail (best-effort)
+    try {
+      await supabase.from('quickbooks_sync_log').insert({
+        entity_type: 'oauth',
+        entity_id: creds.realm_id,
+        operation: 'update',
+        status: 'failed',
+        error_message: isInvalidGrant
+          ? 'Refresh token expired or revoked - reconnection required'
+          : safeErrorMessage,
+        request_payload: { action: 'auto_refresh', grant_type: 'refresh_token' },
+        created_at: new Date().toISOString()
+      });
+    } catch (logError) {
+      console.error('Failed to log token refresh failure:', logError.message);
+    }
+
+    if (isInvalidGrant) {
+      // Deactivate stale credentials
+      await supabase
+        .from('quickbooks_credentials')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', creds.id);
+
+      const err = new Error('QuickBooks connection expired. Please reconnect.');
+      err.code = 'INVALID_GRANT';
+      throw err;
+    }
+
+    throw new Error(safeErrorMessage);
+  }
+
+  const tokenData = await tokenResponse.json();
+
+  const expiresAt = new Date();
+  expiresAt.setSeconds(expiresAt.getSeconds() + tokenData.expires_in);
+
+  const refreshExpiresAt = new Date();
+  refreshExpiresAt.setSeconds(refreshExpiresAt.getSeconds() + (tokenData.x_refresh_token_expires_in || 8726400));
+
+  const { data: updated, error: updateError } = await supabase
+    .from('quickbooks_credentials')
+    .update({
+      access_token: encrypt(tokenData.access_token),
+      refresh_token: encrypt(tokenData.refresh_token),
+      expires_at: expiresAt.toISOString(),
+      refresh_token_expires_at: refreshExpiresAt.toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', creds.id)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    throw new Error(`Failed to update credentials: ${updateError.message}`);
+  }
+
+  // Return plain text tokens in volatile memory for immediate use
+  updated.access_token = tokenData.access_token;
+  updated.refresh_token = tokenData.refresh_token;
+
+  return updated;
+}
+
+/**
+ * Call QuickBooks from a server-side function. Throws an Error carrying the
+ * HTTP status so callers can tell a rejected request (4xx) from an outage.
+ */
+async function qbRequest(creds, endpoint, { method = 'GET', data, usePaymentsAPI = false, requestId } = {}) {
+  const url = usePaymentsAPI
+    ? `${QB_PAYMENTS_BASE_URL}/${endpoint}`
+    : `${QB_API_BASE_URL}/v3/company/${creds.realm_id}/${endpoint}`;
+
+  const headers = {
+    'Authorization': `Bearer ${creds.access_token}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json'
+  };
+  if (usePaymentsAPI) {
+    headers['Request-Id'] = requestId || require('crypto').randomUUID();
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined
+  });
+
+  const text = await response.text();
+  let body;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = { raw: text.substring(0, 500) };
+  }
+
+  if (!response.ok) {
+    const err = new Error(
+      body?.Fault?.Error?.[0]?.Message
+        || body?.errors?.[0]?.message
+        || body?.message
+        || `QuickBooks API error: ${response.status}`
+    );
+    err.status = response.status;
+    throw err;
+  }
+
+  return body;
+}
+
+async function qbQuery(creds, query) {
+  const response = await qbRequest(creds, `query?query=${encodeURIComponent(query)}`);
+  const entity = Object.keys(response.QueryResponse || {}).find(key => Array.isArray(response.QueryResponse[key]));
+  return entity ? response.QueryResponse[entity] : [];
+}
+
+module.exports = {
+  QB_API_BASE_URL,
+  QB_PAYMENTS_BASE_URL,
+  getSupabaseAdmin,
+  getCredentials,
+  qbRequest,
+  qbQuery
+};
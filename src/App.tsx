@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { LayoutGrid, List } from 'lucide-react';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { FavoritesProvider } from '@/contexts/FavoritesContext';
@@ -21,20 +21,34 @@ import ImpersonationBanner from '@/components/ImpersonationBanner';
 import QuickBooksCallback from '@/components/QuickBooksCallback';
 import EULAPage from '@/components/legal/EULAPage';
 import PrivacyPolicyPage from '@/components/legal/PrivacyPolicyPage';
-import { productService, Product, Category } from '@/services/productService';
+import {
+  productService,
+  Product,
+  Category,
+  CatalogSearchResult,
+  PriceBand,
+  CATALOG_PAGE_SIZE,
+  categorySlug,
+  findCategoryByName,
+  findCategoryBySlug,
+  findProductBySlug,
+  productSlug,
+} from '@/services/productService';
+import { navigate, AppRoute } from '@/services/router';
+import { useRoute } from '@/hooks/useRoute';
 import { useErrorLogger } from '@/hooks/useErrorLogger';
 import { cacheService } from '@/services/cache';
 import { useAuth } from '@/contexts/AuthContext';
 import { useFavorites } from '@/contexts/FavoritesContext';
-import { contractPricingService } from '@/services/contractPricing';
 import { supabase } from '@/services/supabase';
-import { cartService } from '@/services/cartService';
+import { cartService, resolveCartPrice } from '@/services/cartService';
 
 interface CartItem {
   id: number;
   name: string;
   price: number;
   retailPrice?: number;
+  listPrice?: number;
   cost?: number;
   quantity: number;
   image: string;
@@ -50,20 +64,23 @@ function AppContent() {
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
-  const [isAdminOpen, setIsAdminOpen] = useState(false);
-  const [adminInitialTab, setAdminInitialTab] = useState<string | undefined>(undefined);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [categoryTree, setCategoryTree] = useState<Category[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 10000]);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [selectedBrandIds, setSelectedBrandIds] = useState<string[]>([]);
+  const [priceBand, setPriceBand] = useState<PriceBand | null>(null);
+  const [catalogPage, setCatalogPage] = useState(0);
+  const [searchResult, setSearchResult] = useState<CatalogSearchResult | null>(null);
+  const [searching, setSearching] = useState(false);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const { errors, logError, clearErrors } = useErrorLogger();
   const { user, profile, loading: authLoading, isPasswordRecovery, isImpersonating, effectiveUserId, effectiveProfile, stopImpersonation } = useAuth();
   const { toastMessage, toastType, clearToast } = useFavorites();
 
-  const [activeLegalPage, setActiveLegalPage] = useState<'eula' | 'privacy' | null>(null);
+  const route = useRoute();
+  // Catalog view to return to when a product, legal page or the dashboard is closed
+  const [lastCatalogRoute, setLastCatalogRoute] = useState<AppRoute>({ page: 'catalog' });
+  const catalogRoute = route.page === 'catalog' || route.page === 'category' ? route : lastCatalogRoute;
   const [isOrgSelectorOpen, setIsOrgSelectorOpen] = useState(false);
   const [selectedOrganization, setSelectedOrganization] = useState<{id: string; name: string} | null>(null);
   const [userHasMultipleOrgs, setUserHasMultipleOrgs] = useState(false);
@@ -71,7 +88,6 @@ function AppContent() {
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
     return (localStorage.getItem('productViewMode') as ViewMode) || 'grid';
   });
-  const [productsWithContractPricing, setProductsWithContractPricing] = useState<number[]>([]);
   const [needsOrganizationSetup, setNeedsOrganizationSetup] = useState(false);
   const [checkingOrganization, setCheckingOrganization] = useState(true);
   const prevEffectiveUserIdRef = useRef<string | undefined>();
@@ -208,32 +224,80 @@ function AppContent() {
     return () => clearTimeout(timeoutId);
   }, [cartItems, user?.id, selectedOrganization?.id, isImpersonating]);
 
-  // Fetch products with contract pricing when organization or user changes
+  // Contract pricing can only be filtered for a selected customer
   useEffect(() => {
-    const fetchContractPricingProducts = async () => {
-      if (!effectiveUserId) {
-        setProductsWithContractPricing([]);
-        return;
-      }
+    if (!selectedOrganization) {
+      setShowOnlyContractPricing(false);
+    }
+    setCatalogPage(0);
+  }, [selectedOrganization]);
 
-      try {
-        const productIds = await contractPricingService.getProductsWithContractPricing(
-          selectedOrganization ? undefined : effectiveUserId,
-          selectedOrganization?.id
-        );
-        setProductsWithContractPricing(productIds);
-      } catch (error) {
-        console.error('Error fetching contract pricing products:', error);
-        setProductsWithContractPricing([]);
-      }
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm.trim());
+      setCatalogPage(0);
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    if (route.page === 'catalog' || route.page === 'category') setLastCatalogRoute(route);
+  }, [route]);
+
+  const routeCategory = catalogRoute.page === 'category' ? findCategoryBySlug(categoryTree, catalogRoute.slug) : undefined;
+  const selectedCategory = routeCategory?.name || 'all';
+  const selectedCategoryId = routeCategory?.id;
+  const selectedProduct = route.page === 'product' ? findProductBySlug(products, route.slug) || null : null;
+
+  useEffect(() => {
+    setCatalogPage(0);
+  }, [selectedCategoryId]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    let cancelled = false;
+
+    const runSearch = async () => {
+      setSearching(true);
+      const result = await productService.searchProducts({
+        query: debouncedSearchTerm,
+        categoryId: selectedCategoryId,
+        brandIds: selectedBrandIds,
+        minPrice: priceBand?.min,
+        maxPrice: priceBand?.max,
+        contractOnly: showOnlyContractPricing,
+        organizationId: selectedOrganization?.id,
+        page: catalogPage,
+      });
+      if (cancelled) return;
+      setSearchResult(result);
+      setSearching(false);
     };
 
-    fetchContractPricingProducts();
+    runSearch();
+    return () => { cancelled = true; };
+  }, [authLoading, debouncedSearchTerm, selectedCategoryId, selectedBrandIds, priceBand, showOnlyContractPricing, selectedOrganization?.id, catalogPage]);
 
-    if (!selectedOrganization) {
-      setShowOnlyContractPricing(false);
-    }
-  }, [effectiveUserId, selectedOrganization]);
+  const handleCategoryChange = (categoryName: string) => {
+    const category = categoryName === 'all' ? undefined : findCategoryByName(categoryTree, categoryName);
+    navigate(category ? { page: 'category', slug: categorySlug(category) } : { page: 'catalog' });
+  };
+
+  const handleBrandToggle = (brandId: string) => {
+    setSelectedBrandIds(prev => (prev.includes(brandId) ? prev.filter(id => id !== brandId) : [...prev, brandId]));
+    setCatalogPage(0);
+  };
+
+  const handlePriceBandChange = (band: PriceBand | null) => {
+    setPriceBand(band);
+    setCatalogPage(0);
+  };
+
+  const handleContractOnlyChange = (contractOnly: boolean) => {
+    setShowOnlyContractPricing(contractOnly);
+    setCatalogPage(0);
+  };
   const addToCart = async (productId: number, quantity: number = 1) => {
     const product = products.find(p => p.id === productId);
     if (!product) return;
@@ -246,62 +310,19 @@ function AppContent() {
     }
 
     // Fetch the effective price (contract or regular)
-    let effectivePrice = product.price;
-    let retailPrice = product.price;
-    let hasMarkup = false;
-
-    if (effectiveUserId && (effectiveProfile || selectedOrganization)) {
-      try {
-        let priceResult;
-
-        if (selectedOrganization) {
-          const orgPricing = await contractPricingService.getOrganizationPricing(selectedOrganization.id);
-          const productPricing = orgPricing.find(p => p.product_id === productId);
-
-          if (productPricing &&
-              quantity >= (productPricing.min_quantity || 1) &&
-              (!productPricing.max_quantity || quantity <= productPricing.max_quantity)) {
-
-            if (productPricing.markup_price !== null && productPricing.markup_price !== undefined) {
-              effectivePrice = productPricing.markup_price;
-              retailPrice = productPricing.contract_price || product.price;
-              hasMarkup = true;
-            } else if (productPricing.contract_price !== null && productPricing.contract_price !== undefined) {
-              effectivePrice = productPricing.contract_price;
-              retailPrice = effectivePrice;
-              hasMarkup = false;
-            }
-
-            priceResult = {
-              price: effectivePrice,
-              source: 'organization' as const
-            };
-          }
-        } else if (effectiveProfile) {
-          priceResult = await contractPricingService.getEffectivePrice(
-            effectiveUserId,
-            productId,
-            effectiveProfile.role,
-            quantity
-          );
-
-          if (priceResult) {
-            effectivePrice = priceResult.price;
-            retailPrice = effectivePrice;
-            hasMarkup = false;
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching contract price for cart:', error);
-      }
-    }
+    const inCart = cartItems.find(item => item.id === productId)?.quantity || 0;
+    const { price: effectivePrice, retailPrice, hasMarkup } = await resolveCartPrice(product, inCart + quantity, {
+      userId: effectiveUserId,
+      role: effectiveProfile?.role,
+      organizationId: selectedOrganization?.id,
+    });
 
     setCartItems(prev => {
       const existingItem = prev.find(item => item.id === productId);
       if (existingItem) {
         return prev.map(item =>
           item.id === productId
-            ? { ...item, quantity: item.quantity + quantity }
+            ? { ...item, quantity: item.quantity + quantity, price: effectivePrice }
             : item
         );
       } else {
@@ -310,6 +331,7 @@ function AppContent() {
           name: product.name,
           price: effectivePrice,
           retailPrice: retailPrice,
+          listPrice: product.price,
           cost: product.cost,
           quantity: quantity,
           image: product.image,
@@ -322,13 +344,11 @@ function AppContent() {
   };
 
   const handleProductClick = (product: Product) => {
-    setSelectedProduct(product);
-    setIsProductModalOpen(true);
+    navigate({ page: 'product', slug: productSlug(product) });
   };
 
   const handleCloseProductModal = () => {
-    setIsProductModalOpen(false);
-    setSelectedProduct(null);
+    navigate(catalogRoute);
   };
 
 
@@ -344,6 +364,16 @@ function AppContent() {
     );
   };
 
+  // Called by the cart when a quantity change moves an item into a
+  // different price tier
+  const updateCartItemPrice = useCallback((id: number, price: number) => {
+    setCartItems(prev =>
+      prev.map(item =>
+        item.id === id && item.price !== price ? { ...item, price } : item
+      )
+    );
+  }, []);
+
   const removeFromCart = (id: number) => {
     setCartItems(prev => prev.filter(item => item.id !== id));
   };
@@ -354,40 +384,20 @@ function AppContent() {
 
   const cartCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
 
-  // Group products by category
-  const productsByCategory = products.reduce((acc, product) => {
-    const category = product.category;
-    if (!acc[category]) {
-      acc[category] = [];
-    }
-    acc[category].push(product);
-    return acc;
-  }, {} as { [key: string]: Product[] });
-  
-
-  // Filter products based on search and filters
-  const filteredProducts = products
-    .filter(product => {
-      const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           product.benefits.some(benefit => benefit.toLowerCase().includes(searchTerm.toLowerCase()));
-      const matchesCategory = selectedCategory === 'all' || product.category === selectedCategory ||
-        categoryTree.some(parent => parent.name === selectedCategory && parent.children?.some(child => child.name === product.category));
-      const matchesPrice = product.price >= priceRange[0] && product.price <= priceRange[1];
-      const matchesContractPricing = !showOnlyContractPricing || productsWithContractPricing.includes(product.id);
-      return matchesSearch && matchesCategory && matchesPrice && matchesContractPricing;
-    })
-    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+  const searchProducts = searchResult?.products || [];
+  const searchTotal = searchResult?.total || 0;
+  const pageCount = Math.ceil(searchTotal / CATALOG_PAGE_SIZE);
 
   if (isQuickBooksCallback) {
     return <QuickBooksCallback />;
   }
 
-  if (activeLegalPage === 'eula') {
-    return <EULAPage onBack={() => setActiveLegalPage(null)} />;
+  if (route.page === 'legal' && route.document === 'eula') {
+    return <EULAPage onBack={() => navigate(catalogRoute)} />;
   }
 
-  if (activeLegalPage === 'privacy') {
-    return <PrivacyPolicyPage onBack={() => setActiveLegalPage(null)} />;
+  if (route.page === 'legal' && route.document === 'privacy') {
+    return <PrivacyPolicyPage onBack={() => navigate(catalogRoute)} />;
   }
 
   // Show loading or auth gate
@@ -421,7 +431,7 @@ function AppContent() {
           onOrdersClick={() => {}}
           onUsersClick={() => {}}
           onSalesRepClick={() => {}}
-          onOrderHistoryClick={() => setIsAdminOpen(true)}
+          onOrderHistoryClick={() => navigate({ page: 'orders' })}
         />
 
         <div className="min-h-screen flex items-center justify-center px-4">
@@ -562,15 +572,22 @@ function AppContent() {
   }
 
   // ── Admin page (static, full-page) ──────────────────────────────────────
-  if (isAdminOpen) {
+  if (route.page === 'admin' || route.page === 'orders') {
     return (
       <AdminDashboard
         onClose={() => {
           sessionStorage.removeItem('admin_active_tab');
-          setIsAdminOpen(false);
-          setAdminInitialTab(undefined);
+          navigate(catalogRoute);
+        }}
+        initialTab={route.page === 'orders' ? 'orders' : route.tab}
+        orderId={route.page === 'orders' ? route.orderId : undefined}
+        onTabChange={(tab) => navigate({ page: 'admin', tab })}
+        onOrderChange={(orderId) => navigate({ page: 'orders', orderId: orderId || undefined })}
+        onReorder={(lines) => {
+          setCartItems(lines);
+          navigate(catalogRoute);
+          setIsCartOpen(true);
         }}
-        initialTab={adminInitialTab}
       />
     );
   }
@@ -583,23 +600,11 @@ function AppContent() {
           onCartClick={() => setIsCartOpen(true)}
           onAuthClick={() => setIsAuthModalOpen(true)}
           onProfileClick={() => setIsProfileOpen(true)}
-          onAdminClick={() => {
-            setAdminInitialTab(undefined);
-            setIsAdminOpen(true);
-          }}
-          onOrdersClick={() => {
-            setAdminInitialTab('orders');
-            setIsAdminOpen(true);
-          }}
-          onUsersClick={() => {
-            setAdminInitialTab('users');
-            setIsAdminOpen(true);
-          }}
+          onAdminClick={() => navigate({ page: 'admin' })}
+          onOrdersClick={() => navigate({ page: 'admin', tab: 'orders' })}
+          onUsersClick={() => navigate({ page: 'admin', tab: 'users' })}
           onSalesRepClick={() => setIsOrgSelectorOpen(true)}
-          onOrderHistoryClick={() => {
-            setAdminInitialTab('orders');
-            setIsAdminOpen(true);
-          }}
+          onOrderHistoryClick={() => navigate({ page: 'orders' })}
         />
 
         {/* Products Section */}
@@ -680,13 +685,17 @@ function AppContent() {
               <div className="flex flex-col lg:flex-row gap-8 mb-8">
                 <div className="lg:w-64 flex-shrink-0 space-y-6">
                   <ProductFilter
-                    categories={Object.keys(productsByCategory)}
                     categoryTree={categoryTree}
                     selectedCategory={selectedCategory}
-                    onCategoryChange={setSelectedCategory}
-                    priceRange={priceRange}
-                    onPriceRangeChange={setPriceRange}
-                    maxPrice={Math.ceil(Math.max(...products.map(p => p.price), 100))}
+                    onCategoryChange={handleCategoryChange}
+                    facets={searchResult?.facets || null}
+                    selectedBrandIds={selectedBrandIds}
+                    onBrandToggle={handleBrandToggle}
+                    priceBand={priceBand}
+                    onPriceBandChange={handlePriceBandChange}
+                    contractOnly={showOnlyContractPricing}
+                    onContractOnlyChange={handleContractOnlyChange}
+                    contractAvailable={!!selectedOrganization}
                     isOpen={isFilterOpen}
                     onToggle={() => setIsFilterOpen(!isFilterOpen)}
                   />
@@ -715,7 +724,7 @@ function AppContent() {
                         id="main-product-search"
                         name="main-product-search"
                         type="text"
-                        placeholder="Search products..."
+                        placeholder="Search by name, SKU, brand or description..."
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
                         className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent text-lg"
@@ -726,9 +735,13 @@ function AppContent() {
                   {/* Results Summary and Filters */}
                   <div className="mb-6 flex items-center justify-between flex-wrap gap-4">
                     <p className="text-gray-600">
-                      Showing {filteredProducts.length} of {products.length} products
+                      {!searchResult
+                        ? 'Searching products...'
+                        : searchTotal === 0
+                        ? 'No products found'
+                        : `Showing ${catalogPage * CATALOG_PAGE_SIZE + 1}–${catalogPage * CATALOG_PAGE_SIZE + searchProducts.length} of ${searchTotal} products`}
                       {selectedCategory !== 'all' && ` in ${selectedCategory}`}
-                      {searchTerm && ` matching "${searchTerm}"`}
+                      {debouncedSearchTerm && ` matching "${debouncedSearchTerm}"`}
                     </p>
 
                     <div className="flex items-center space-x-4">
@@ -768,31 +781,39 @@ function AppContent() {
                           </button>
                         </div>
                       )}
-
-                      <label className={`flex items-center space-x-2 ${selectedOrganization ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`}>
-                        <input
-                          type="checkbox"
-                          checked={showOnlyContractPricing}
-                          onChange={(e) => setShowOnlyContractPricing(e.target.checked)}
-                          disabled={!selectedOrganization}
-                          className="rounded border-gray-300 text-pink-600 focus:ring-pink-500 disabled:cursor-not-allowed"
-                        />
-                        <span className="text-sm text-gray-700">
-                          Only show contract pricing
-                          {!selectedOrganization && ' (select customer first)'}
-                        </span>
-                      </label>
                     </div>
                   </div>
 
                   {/* Product Grid */}
-                  <ProductGrid
-                    products={filteredProducts}
-                    onAddToCart={addToCart}
-                    onProductClick={handleProductClick}
-                    organizationId={selectedOrganization?.id}
-                    viewMode={viewMode}
-                  />
+                  <div className={searching ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                    <ProductGrid
+                      products={searchProducts}
+                      onAddToCart={addToCart}
+                      onProductClick={handleProductClick}
+                      organizationId={selectedOrganization?.id}
+                      viewMode={viewMode}
+                    />
+                  </div>
+
+                  {pageCount > 1 && (
+                    <div className="mt-8 flex items-center justify-center space-x-4">
+                      <button
+                        onClick={() => setCatalogPage(p => p - 1)}
+                        disabled={catalogPage === 0 || searching}
+                        className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Previous
+                      </button>
+                      <span className="text-sm text-gray-600">Page {catalogPage + 1} of {pageCount}</span>
+                      <button
+                        onClick={() => setCatalogPage(p => p + 1)}
+                        disabled={catalogPage + 1 >= pageCount || searching}
+                        className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Next
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -865,7 +886,7 @@ function AppContent() {
           </div>
         </section>
 
-        <Footer onNavigateToLegal={setActiveLegalPage} />
+        <Footer onNavigateToLegal={(document) => navigate({ page: 'legal', document })} />
 
         <Cart
           isOpen={isCartOpen}
@@ -874,6 +895,7 @@ function AppContent() {
           onUpdateQuantity={updateCartQuantity}
           onRemoveItem={removeFromCart}
           onClearCart={clearCart}
+          onUpdatePrice={updateCartItemPrice}
           organizationId={selectedOrganization?.id}
         />
 
@@ -884,7 +906,7 @@ function AppContent() {
 
         <ProductModal
           product={selectedProduct}
-          isOpen={isProductModalOpen}
+          isOpen={!!selectedProduct}
           onClose={handleCloseProductModal}
           onAddToCart={addToCart}
           organizationId={selectedOrganization?.id}
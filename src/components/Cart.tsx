@@ -10,6 +10,7 @@ interface CartItem {
   name: string;
   price: number;
   retailPrice?: number;
+  listPrice?: number;
   cost?: number;
   quantity: number;
   image: string;
@@ -24,6 +25,7 @@ interface CartProps {
   onUpdateQuantity: (id: number, quantity: number) => void;
   onRemoveItem: (id: number) => void;
   onClearCart: () => void;
+  onUpdatePrice?: (id: number, price: number) => void;
   organizationId?: string;
 }
 
@@ -33,7 +35,7 @@ const CartItemRow: React.FC<{
   onRemoveItem: (id: number) => void;
   organizationId?: string;
 }> = ({ item, onUpdateQuantity, onRemoveItem, organizationId }) => {
-  const { price } = useContractPricing(item.id, item.price, item.quantity, organizationId);
+  const { price } = useContractPricing(item.id, item.listPrice ?? item.price, item.quantity, organizationId);
   const itemTotal = price * item.quantity;
   const [quantityInput, setQuantityInput] = React.useState(item.quantity.toString());
 
@@ -71,7 +73,7 @@ const CartItemRow: React.FC<{
         <h3 className="font-medium text-gray-900 text-sm">{item.name}</h3>
         <PriceDisplay
           productId={item.id}
-          regularPrice={item.price}
+          regularPrice={item.listPrice ?? item.price}
           quantity={item.quantity}
           organizationId={organizationId}
           showSavings={false}
@@ -120,21 +122,31 @@ const CartItemPrice: React.FC<{
   item: CartItem;
   organizationId?: string;
   onPriceCalculated: (itemId: number, price: number, isContract: boolean) => void;
-}> = ({ item, organizationId, onPriceCalculated }) => {
-  const { price, source } = useContractPricing(item.id, item.price, item.quantity, organizationId);
+  onUpdatePrice?: (id: number, price: number) => void;
+}> = ({ item, organizationId, onPriceCalculated, onUpdatePrice }) => {
+  const { price, source, loading } = useContractPricing(item.id, item.listPrice ?? item.price, item.quantity, organizationId);
 
   React.useEffect(() => {
     const isContract = source !== 'regular';
     onPriceCalculated(item.id, price * item.quantity, isContract);
   }, [item.id, price, item.quantity, source, onPriceCalculated]);
 
+  // Write the tier price back to the cart when the quantity crosses a
+  // break, so checkout charges the same unit price shown here
+  React.useEffect(() => {
+    if (!loading && onUpdatePrice && price !== item.price) {
+      onUpdatePrice(item.id, price);
+    }
+  }, [item.id, item.price, price, loading, onUpdatePrice]);
+
   return null;
 };
 
 const CartTotal: React.FC<{
   items: CartItem[];
   organizationId?: string;
-}> = ({ items, organizationId }) => {
+  onUpdatePrice?: (id: number, price: number) => void;
+}> = ({ items, organizationId, onUpdatePrice }) => {
   const [itemPrices, setItemPrices] = React.useState<Record<number, { total: number; isContract: boolean }>>({});
 
   const handlePriceCalculated = React.useCallback((itemId: number, price: number, isContract: boolean) => {
@@ -155,6 +167,7 @@ const CartTotal: React.FC<{
           item={item}
           organizationId={organizationId}
           onPriceCalculated={handlePriceCalculated}
+          onUpdatePrice={onUpdatePrice}
         />
       ))}
       <div className="flex items-center justify-between mb-4">
@@ -178,6 +191,7 @@ const Cart: React.FC<CartProps> = ({
   onUpdateQuantity,
   onRemoveItem,
   onClearCart,
+  onUpdatePrice,
   organizationId,
 }) => {
   const [isCheckoutOpen, setIsCheckoutOpen] = React.useState(false);
@@ -272,7 +286,7 @@ const Cart: React.FC<CartProps> = ({
           {/* Footer */}
           {items.length > 0 && (
             <div className="border-t border-gray-200 p-6">
-              <CartTotal items={items} organizationId={organizationId} />
+              <CartTotal items={items} organizationId={organizationId} onUpdatePrice={onUpdatePrice} />
 
               <div className="space-y-3">
                 {showOrgWarning && !organizationId && (
@@ -0,0 +1,401 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Package, Truck, FileText, Download, RotateCcw, ExternalLink, ChevronLeft, CheckCircle, Circle,
+  AlertTriangle, Loader, X, Link2, Check,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { orderService } from '../services/orderService';
+import { routeUrl } from '../services/router';
+import type { CartItem } from '../services/cartService';
+import {
+  customerOrderService,
+  buildOrderTimeline,
+  renderInvoice,
+  ORDER_STATUS_LABELS,
+  type LogicalOrder,
+  type ReorderPlan,
+} from '../services/customerOrders';
+import { downloadTextFile, openHtmlDocument } from '../utils/download';
+import OrderReturns from './OrderReturns';
+
+interface MyOrdersProps {
+  /** Order to open from the URL; any part of a split order opens the whole order */
+  orderId?: string;
+  onOrderChange?: (orderId: string | null) => void;
+  /** Replaces the cart with the given lines */
+  onReorder?: (lines: CartItem[]) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  backorder: 'bg-orange-100 text-orange-800',
+  partially_shipped: 'bg-indigo-100 text-indigo-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-emerald-100 text-emerald-800',
+  cancelled: 'bg-red-100 text-red-800',
+  refunded: 'bg-purple-100 text-purple-800',
+};
+
+const SHIPMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString() : '';
+
+/** Customer order center: history, tracking, invoices and one-click reorder */
+const MyOrders: React.FC<MyOrdersProps> = ({ orderId, onOrderChange, onReorder }) => {
+  const { effectiveUserId: userId, effectiveProfile } = useAuth();
+  const [orders, setOrders] = useState<LogicalOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reorderPlan, setReorderPlan] = useState<ReorderPlan | null>(null);
+  const [busy, setBusy] = useState<'reorder' | 'invoice' | 'cancel' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!userId) return;
+    const load = async () => {
+      setLoading(true);
+      const result = await customerOrderService.getOrders(userId);
+      setOrders(result.orders);
+      setError(result.error || null);
+      setLoading(false);
+    };
+    load();
+  }, [userId, version]);
+
+  // Follow the URL, including browser back/forward
+  useEffect(() => {
+    setSelectedId(orderId || null);
+  }, [orderId]);
+
+  const selected = selectedId
+    ? orders.find(o => o.orders.some(part => part.id === selectedId)) || null
+    : null;
+
+  const openOrder = (id: string | null) => {
+    setSelectedId(id);
+    setReorderPlan(null);
+    setError(null);
+    onOrderChange?.(id);
+  };
+
+  const handleInvoice = async (order: LogicalOrder, mode: 'print' | 'download') => {
+    setBusy('invoice');
+    const html = renderInvoice(await customerOrderService.getInvoice(order));
+    setBusy(null);
+
+    if (mode === 'download') {
+      downloadTextFile(html, `invoice-${order.orderNumber}.html`, 'text/html');
+    } else if (!openHtmlDocument(html)) {
+      setError('Allow pop-ups to view the invoice');
+    }
+  };
+
+  const handlePlanReorder = async (order: LogicalOrder) => {
+    setBusy('reorder');
+    setError(null);
+    const result = await customerOrderService.planReorder(order, { userId, role: effectiveProfile?.role });
+    setBusy(null);
+    if (result.plan) setReorderPlan(result.plan);
+    else setError(result.error || 'Could not rebuild this order');
+  };
+
+  const handleConfirmReorder = () => {
+    if (!reorderPlan || reorderPlan.lines.length === 0) return;
+    onReorder?.(reorderPlan.lines);
+    setReorderPlan(null);
+  };
+
+  const handleCancel = async (partId: string) => {
+    if (!window.confirm('Cancel this order? This action cannot be undone.')) return;
+    setBusy('cancel');
+    const result = await orderService.cancelOrder(partId, false);
+    setBusy(null);
+    if (!result.success) setError(result.error || 'Failed to cancel order');
+    setVersion(v => v + 1);
+  };
+
+  const handleCopyLink = (order: LogicalOrder) => {
+    navigator.clipboard.writeText(routeUrl({ page: 'orders', orderId: order.id }));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const statusBadge = (status: string) => (
+    <span className={`px-2 py-1 text-xs rounded-full font-medium ${STATUS_STYLES[status] || 'bg-gray-100 text-gray-800'}`}>
+      {ORDER_STATUS_LABELS[status] || status}
+    </span>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (selected) {
+    const timeline = buildOrderTimeline(selected);
+    const isSplit = selected.orders.length > 1;
+
+    return (
+      <div className="p-6 space-y-6">
+        <button onClick={() => openOrder(null)} className="flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ChevronLeft className="h-4 w-4 mr-1" /> All orders
+        </button>
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h2 className="text-2xl font-bold text-gray-900">Order {selected.orderNumber}</h2>
+              {statusBadge(selected.status)}
+            </div>
+            <p className="text-sm text-gray-600 mt-1">
+              Placed {formatDate(selected.placedAt)} · ${selected.total.toFixed(2)}
+              {isSplit && ` · shipping in ${selected.orders.length} parts`}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleCopyLink(selected)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1"
+            >
+              {copied ? <Check className="h-4 w-4 text-green-600" /> : <Link2 className="h-4 w-4" />} Copy link
+            </button>
+            <button
+              onClick={() => handleInvoice(selected, 'print')}
+              disabled={busy === 'invoice'}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+            >
+              <FileText className="h-4 w-4" /> Invoice
+            </button>
+            <button
+              onClick={() => handleInvoice(selected, 'download')}
+              disabled={busy === 'invoice'}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+              title="Download invoice"
+            >
+              <Download className="h-4 w-4" />
+            </button>
+            {onReorder && (
+              <button
+                onClick={() => handlePlanReorder(selected)}
+                disabled={busy === 'reorder'}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1 disabled:opacity-50"
+              >
+                {busy === 'reorder' ? <Loader className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />} Reorder
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+        {reorderPlan && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <h3 className="font-semibold text-gray-900">Reorder at today's prices</h3>
+              <button onClick={() => setReorderPlan(null)} className="text-gray-500 hover:text-gray-700">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {reorderPlan.unavailable.length > 0 && (
+              <div className="text-sm text-red-700">
+                <p className="font-medium flex items-center gap-1"><AlertTriangle className="h-4 w-4" /> No longer available — left out:</p>
+                <ul className="list-disc ml-6">
+                  {reorderPlan.unavailable.map(item => <li key={item.productId}>{item.name} × {item.quantity}</li>)}
+                </ul>
+              </div>
+            )}
+            {reorderPlan.priceChanges.length > 0 && (
+              <div className="text-sm text-gray-700">
+                <p className="font-medium">Price changes since this order:</p>
+                <ul className="list-disc ml-6">
+                  {reorderPlan.priceChanges.map(change => (
+                    <li key={change.productId}>{change.name}: ${change.was.toFixed(2)} → ${change.now.toFixed(2)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {reorderPlan.outOfStock.length > 0 && (
+              <p className="text-sm text-orange-700">Currently out of stock and will ship as a backorder: {reorderPlan.outOfStock.join(', ')}</p>
+            )}
+            {reorderPlan.lines.length === 0 ? (
+              <p className="text-sm text-gray-700">None of the products on this order can be ordered any more.</p>
+            ) : (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-700">
+                  {reorderPlan.lines.length} item{reorderPlan.lines.length === 1 ? '' : 's'} · $
+                  {reorderPlan.lines.reduce((sum, line) => sum + line.price * line.quantity, 0).toFixed(2)}. This replaces what is in your cart.
+                </p>
+                <button onClick={handleConfirmReorder} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 whitespace-nowrap">
+                  Replace cart
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <ol className="flex flex-col md:flex-row md:items-start gap-4 md:gap-0">
+            {timeline.map((step, index) => (
+              <li key={step.key} className="flex-1 flex md:flex-col items-start md:items-center gap-3 md:gap-1 md:text-center relative">
+                {index > 0 && (
+                  <span className={`hidden md:block absolute top-2.5 right-1/2 w-full h-0.5 -z-0 ${step.done ? 'bg-emerald-500' : 'bg-gray-200'}`} />
+                )}
+                <span className="relative z-10 bg-white">
+                  {step.done
+                    ? <CheckCircle className={`h-5 w-5 ${step.key === 'cancelled' ? 'text-red-500' : 'text-emerald-500'}`} />
+                    : <Circle className="h-5 w-5 text-gray-300" />}
+                </span>
+                <div>
+                  <p className={`text-sm font-medium ${step.done ? 'text-gray-900' : 'text-gray-400'}`}>{step.label}</p>
+                  {step.at && <p className="text-xs text-gray-500">{formatDate(step.at)}</p>}
+                  {step.detail && <p className="text-xs text-gray-500">{step.detail}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+            <Truck className="h-5 w-5 text-gray-500" /> Shipments
+          </h3>
+          {selected.shipments.length === 0 ? (
+            <p className="text-sm text-gray-500">Tracking appears here once your order ships.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {selected.shipments.map((shipment, index) => (
+                <li key={`${shipment.orderId}-${index}`} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      {shipment.carrier} · <span className="font-mono">{shipment.tracking_number}</span>
+                    </p>
+                    <p className="text-gray-500">
+                      {SHIPMENT_STATUS_LABELS[shipment.status] || shipment.status}
+                      {shipment.shipped_date && ` · shipped ${formatDate(shipment.shipped_date)}`}
+                      {shipment.estimated_delivery && shipment.status !== 'delivered' && ` · expected ${formatDate(shipment.estimated_delivery)}`}
+                      {isSplit && ` · ${shipment.orderNumber}`}
+                    </p>
+                  </div>
+                  {shipment.trackingUrl && (
+                    <a
+                      href={shipment.trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                    >
+                      Track package <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl p-6">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+            <Package className="h-5 w-5 text-gray-500" /> Items
+          </h3>
+          {selected.orders.map(part => (
+            <div key={part.id} className="mb-4 last:mb-0">
+              {isSplit && (
+                <div className="flex items-center justify-between text-xs text-gray-500 uppercase tracking-wide mb-1">
+                  <span>
+                    {part.order_number || part.id.slice(0, 8)}
+                    {part.order_type === 'backorder' ? ' · Backorder' : part.vendor_brand ? ` · ${part.vendor_brand}` : ''}
+                  </span>
+                  {statusBadge(part.status)}
+                </div>
+              )}
+              <ul className="divide-y divide-gray-100">
+                {(part.items || []).map((item, index) => (
+                  <li key={`${item.productId}-${index}`} className="py-2 flex justify-between text-sm">
+                    <span className="text-gray-900">{item.name} <span className="text-gray-500">× {item.quantity}</span></span>
+                    <span className="text-gray-900">${(item.price * item.quantity).toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+              {part.status === 'pending' && (
+                <button
+                  onClick={() => handleCancel(part.id)}
+                  disabled={busy === 'cancel'}
+                  className="mt-1 text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Cancel {isSplit ? 'this part' : 'order'}
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="border-t border-gray-200 mt-4 pt-3 text-sm space-y-1">
+            <div className="flex justify-between"><span className="text-gray-600">Subtotal</span><span>${selected.subtotal.toFixed(2)}</span></div>
+            {selected.discount > 0 && (
+              <div className="flex justify-between"><span className="text-gray-600">Discount</span><span>-${selected.discount.toFixed(2)}</span></div>
+            )}
+            <div className="flex justify-between"><span className="text-gray-600">Shipping</span><span>${selected.shipping.toFixed(2)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-600">Tax</span><span>${selected.tax.toFixed(2)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Total</span><span>${selected.total.toFixed(2)}</span></div>
+          </div>
+        </div>
+
+        <OrderReturns order={selected} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">My Orders</h2>
+        <p className="text-gray-600">Track shipments, download invoices and reorder</p>
+      </div>
+
+      {error && <div className="mb-4 px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {orders.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-xl">
+          <Package className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No Orders Yet</h3>
+          <p className="text-gray-600">Orders you place will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {orders.map(order => (
+            <button
+              key={order.id}
+              onClick={() => openOrder(order.id)}
+              className="w-full text-left bg-white border border-gray-200 rounded-xl p-4 hover:shadow-md transition-shadow flex flex-wrap items-center justify-between gap-3"
+            >
+              <div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-gray-900">Order {order.orderNumber}</span>
+                  {statusBadge(order.status)}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {formatDate(order.placedAt)} · {order.items.reduce((sum, item) => sum + item.quantity, 0)} items
+                  {order.orders.length > 1 && ` · ${order.orders.length} parts`}
+                  {order.shipments.length > 0 && ` · ${order.shipments.length} shipment${order.shipments.length === 1 ? '' : 's'}`}
+                </p>
+              </div>
+              <span className="font-semibold text-gray-900">${order.total.toFixed(2)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyOrders;
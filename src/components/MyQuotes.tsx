@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Loader, CheckCircle, X } from 'lucide-react';
+import {
+  quoteService,
+  quoteTotal,
+  quoteDisplayStatus,
+  QUOTE_STATUS_LABELS,
+  type Quote,
+  type QuoteCheckoutItem,
+  type QuoteDisplayStatus,
+} from '../services/quotes';
+import { navigate } from '../services/router';
+import CheckoutModal from './checkout/CheckoutModal';
+
+const STATUS_STYLES: Record<QuoteDisplayStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Quotes sales reps have sent the customer's organization, to accept or decline */
+const MyQuotes: React.FC = () => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [checkout, setCheckout] = useState<{ quote: Quote; items: QuoteCheckoutItem[] } | null>(null);
+  const [preparingId, setPreparingId] = useState<string | null>(null);
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const result = await quoteService.getQuotes();
+      setQuotes(result.quotes);
+      setError(result.error || null);
+      setLoading(false);
+    };
+    load();
+  }, [version]);
+
+  const handleAccept = async (quote: Quote) => {
+    setPreparingId(quote.id);
+    setError(null);
+    const items = await quoteService.getCheckoutItems(quote);
+    setPreparingId(null);
+    if (items.length === 0) {
+      setError('This quote has no items that can be ordered. Contact your sales rep.');
+      return;
+    }
+    setCheckout({ quote, items });
+  };
+
+  const handleDecline = async (quote: Quote) => {
+    setBusy(true);
+    const result = await quoteService.declineQuote(quote.id, declineReason);
+    setBusy(false);
+    if (!result.success) {
+      setError(result.error || 'Could not decline the quote');
+      return;
+    }
+    setDecliningId(null);
+    setDeclineReason('');
+    setVersion(v => v + 1);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Quotes</h2>
+        <p className="text-gray-600 mt-1">Review quotes from your sales rep and order at the quoted prices</p>
+      </div>
+
+      {error && <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {quotes.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <FileText className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No quotes yet. Your sales rep can send you one for special pricing.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {quotes.map(quote => {
+            const status = quoteDisplayStatus(quote);
+            const lines = [...(quote.quote_lines || [])].sort((a, b) => a.sort_order - b.sort_order);
+
+            return (
+              <div key={quote.id} className="bg-white border border-gray-200 rounded-xl p-6 space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-gray-900">Quote {quote.quote_number}</span>
+                    <span className={`px-2 py-0.5 text-xs rounded-full font-medium ${STATUS_STYLES[status]}`}>
+                      {QUOTE_STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                  <span className="text-sm text-gray-500">
+                    {status === 'sent' ? `Valid until ${formatDate(quote.expires_at)}` : status === 'expired' ? `Expired ${formatDate(quote.expires_at)}` : ''}
+                  </span>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                  From {quote.sales_rep?.full_name || quote.sales_rep?.email || 'your sales rep'}
+                  {quote.organizations?.name && ` for ${quote.organizations.name}`}
+                </p>
+
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase border-b border-gray-200">
+                      <th className="py-2 text-left font-medium">Product</th>
+                      <th className="py-2 text-right font-medium">Qty</th>
+                      <th className="py-2 text-right font-medium">Price</th>
+                      <th className="py-2 text-right font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {lines.map(line => (
+                      <tr key={line.id}>
+                        <td className="py-2 text-gray-900">{line.product_name}</td>
+                        <td className="py-2 text-right">{line.quantity}</td>
+                        <td className="py-2 text-right">
+                          ${Number(line.unit_price).toFixed(2)}
+                          {Number(line.list_price) > Number(line.unit_price) && (
+                            <span className="ml-1 text-xs text-gray-400 line-through">${Number(line.list_price).toFixed(2)}</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">${(Number(line.unit_price) * line.quantity).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t border-gray-200">
+                      <td colSpan={3} className="py-2 text-right font-medium text-gray-700">Subtotal</td>
+                      <td className="py-2 text-right font-semibold text-gray-900">${quoteTotal(lines).toFixed(2)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+
+                {quote.notes && <p className="text-sm text-gray-700 whitespace-pre-wrap">{quote.notes}</p>}
+
+                {status === 'sent' && decliningId !== quote.id && (
+                  <div className="flex flex-wrap items-center justify-end gap-2">
+                    <span className="mr-auto text-xs text-gray-500">Shipping and tax are added at checkout.</span>
+                    <button
+                      onClick={() => { setDecliningId(quote.id); setDeclineReason(''); }}
+                      className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Decline
+                    </button>
+                    <button
+                      onClick={() => handleAccept(quote)}
+                      disabled={preparingId === quote.id}
+                      className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4" /> {preparingId === quote.id ? 'Preparing...' : 'Accept & check out'}
+                    </button>
+                  </div>
+                )}
+
+                {decliningId === quote.id && (
+                  <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                    <textarea
+                      value={declineReason}
+                      onChange={e => setDeclineReason(e.target.value)}
+                      placeholder="Let your sales rep know why (optional)"
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setDecliningId(null)} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+                        Back
+                      </button>
+                      <button
+                        onClick={() => handleDecline(quote)}
+                        disabled={busy}
+                        className="flex items-center gap-1 px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                      >
+                        <X className="h-4 w-4" /> {busy ? 'Declining...' : 'Decline quote'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {status === 'expired' && (
+                  <p className="text-sm text-yellow-800">This quote has expired. Contact your sales rep for an updated one.</p>
+                )}
+                {status === 'declined' && quote.decline_reason && (
+                  <p className="text-sm text-gray-600 italic">You declined: {quote.decline_reason}</p>
+                )}
+                {status === 'accepted' && quote.order_id && (
+                  <button
+                    onClick={() => navigate({ page: 'orders', orderId: quote.order_id || undefined })}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    View order
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {checkout && (
+        <CheckoutModal
+          isOpen
+          onClose={() => { setCheckout(null); setVersion(v => v + 1); }}
+          items={checkout.items}
+          organizationId={checkout.quote.organization_id}
+          quoteId={checkout.quote.id}
+          onOrderComplete={() => setVersion(v => v + 1)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MyQuotes;
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import { Undo2, ExternalLink, Loader } from 'lucide-react';
+import {
+  returnService,
+  canReturnOrder,
+  returnableQuantities,
+  RETURN_STATUS_LABELS,
+  RETURN_REASON_LABELS,
+  type ReturnReason,
+  type ReturnRequest,
+  type ReturnStatus,
+} from '../services/returns';
+import { carrierTrackingUrl, type LogicalOrder } from '../services/customerOrders';
+import type { Order } from './admin/orders/types';
+
+interface OrderReturnsProps {
+  order: LogicalOrder;
+}
+
+interface DraftLine {
+  quantity: number;
+  reason: ReturnReason;
+  note: string;
+}
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  received: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-emerald-100 text-emerald-800',
+  closed: 'bg-gray-100 text-gray-700',
+};
+
+/** Return requests for one order, and the form to start one */
+const OrderReturns: React.FC<OrderReturnsProps> = ({ order }) => {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const [formOrderId, setFormOrderId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<number, DraftLine>>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const orderIds = order.orders.map(part => part.id).join(',');
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const result = await returnService.getReturns({ orderIds: orderIds.split(',') });
+      setReturns(result.returns);
+      setLoading(false);
+    };
+    load();
+  }, [orderIds, version]);
+
+  const returnableParts = order.orders.filter(canReturnOrder);
+
+  const remainingFor = (part: Order) =>
+    returnableQuantities(part.items || [], returns.filter(ret => ret.order_id === part.id));
+
+  const openForm = (part: Order) => {
+    const remaining = remainingFor(part);
+    setFormOrderId(part.id);
+    setDraft(Object.fromEntries(
+      Object.keys(remaining).map(productId => [productId, { quantity: 0, reason: 'damaged' as ReturnReason, note: '' }])
+    ));
+    setNotes('');
+    setError(null);
+  };
+
+  const updateDraft = (productId: number, changes: Partial<DraftLine>) => {
+    setDraft(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+  };
+
+  const handleSubmit = async () => {
+    if (!formOrderId) return;
+    setSaving(true);
+    const result = await returnService.requestReturn(
+      formOrderId,
+      Object.entries(draft).map(([productId, line]) => ({ productId: Number(productId), ...line })),
+      notes
+    );
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Could not request the return');
+      return;
+    }
+    setFormOrderId(null);
+    setVersion(v => v + 1);
+  };
+
+  const handleCancel = async (ret: ReturnRequest) => {
+    if (!window.confirm('Cancel this return request?')) return;
+    const result = await returnService.cancelRequest(ret.id);
+    if (!result.success) setError(result.error || 'Could not cancel the request');
+    setVersion(v => v + 1);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-6 flex justify-center">
+        <Loader className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (returns.length === 0 && returnableParts.length === 0) return null;
+
+  const formPart = order.orders.find(part => part.id === formOrderId);
+  const formRemaining = formPart ? remainingFor(formPart) : {};
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Undo2 className="h-5 w-5 text-gray-500" /> Returns
+        </h3>
+        {!formPart && returnableParts.map(part => {
+          const hasRemaining = Object.values(remainingFor(part)).some(qty => qty > 0);
+          return hasRemaining && (
+            <button
+              key={part.id}
+              onClick={() => openForm(part)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Request a return{order.orders.length > 1 ? ` (${part.order_number || part.id.slice(0, 8)})` : ''}
+            </button>
+          );
+        })}
+      </div>
+
+      {error && <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {formPart && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-gray-600">Choose how many of each item you are sending back and why.</p>
+          {(formPart.items || [])
+            .filter((item, index, items) => items.findIndex(other => other.productId === item.productId) === index)
+            .map(item => {
+              const max = formRemaining[item.productId] || 0;
+              const line = draft[item.productId];
+              if (!line) return null;
+              return (
+                <div key={item.productId} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start">
+                  <div className="md:col-span-4 text-sm text-gray-900 pt-2">
+                    {item.name}
+                    <span className="block text-xs text-gray-500">{max} returnable</span>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={max}
+                    disabled={max === 0}
+                    value={line.quantity}
+                    onChange={e => updateDraft(item.productId, { quantity: Math.min(max, Math.max(0, Number(e.target.value) || 0)) })}
+                    className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                  />
+                  <select
+                    value={line.reason}
+                    disabled={line.quantity === 0}
+                    onChange={e => updateDraft(item.productId, { reason: e.target.value as ReturnReason })}
+                    className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                  >
+                    {Object.entries(RETURN_REASON_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder={line.reason === 'other' ? 'Describe the reason' : 'Details (optional)'}
+                    disabled={line.quantity === 0}
+                    value={line.note}
+                    onChange={e => updateDraft(item.productId, { note: e.target.value })}
+                    className="md:col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                  />
+                </div>
+              );
+            })}
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Anything else we should know (optional)"
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setFormOrderId(null)} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={saving || Object.values(draft).every(line => line.quantity === 0)}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Submitting...' : 'Submit request'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {returns.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {returns.map(ret => {
+            const trackingUrl = ret.return_carrier && ret.return_tracking_number
+              ? carrierTrackingUrl(ret.return_carrier, ret.return_tracking_number)
+              : null;
+            return (
+              <li key={ret.id} className="py-3 text-sm space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">{ret.rma_number || 'Return request'}</span>
+                  <span className={`px-2 py-0.5 text-xs rounded-full font-medium ${STATUS_STYLES[ret.status]}`}>
+                    {RETURN_STATUS_LABELS[ret.status]}
+                  </span>
+                  <span className="text-gray-500">requested {new Date(ret.created_at).toLocaleDateString()}</span>
+                  {ret.status === 'requested' && (
+                    <button onClick={() => handleCancel(ret)} className="ml-auto text-xs text-red-600 hover:text-red-800">
+                      Cancel request
+                    </button>
+                  )}
+                </div>
+                <ul className="text-gray-600">
+                  {(ret.return_request_lines || []).map(line => (
+                    <li key={line.id}>
+                      {line.product_name} × {line.quantity} · {RETURN_REASON_LABELS[line.reason_code]}
+                      {line.received_quantity != null && line.received_quantity !== line.quantity && ` · ${line.received_quantity} received`}
+                    </li>
+                  ))}
+                </ul>
+                {ret.status === 'approved' && (
+                  <p className="text-gray-700">
+                    Write <strong>{ret.rma_number}</strong> on the package.
+                    {ret.return_label_url && (
+                      <> <a href={ret.return_label_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 inline-flex items-center gap-1">
+                        Print return label <ExternalLink className="h-3 w-3" />
+                      </a></>
+                    )}
+                    {trackingUrl && (
+                      <> · <a href={trackingUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 inline-flex items-center gap-1">
+                        Track return <ExternalLink className="h-3 w-3" />
+                      </a></>
+                    )}
+                  </p>
+                )}
+                {ret.admin_notes && ret.status !== 'closed' && <p className="text-gray-600 italic">{ret.admin_notes}</p>}
+                {ret.status === 'rejected' && ret.rejection_reason && <p className="text-red-700">{ret.rejection_reason}</p>}
+                {ret.status === 'refunded' && ret.refund_amount != null && (
+                  <p className="text-emerald-700">Refunded ${Number(ret.refund_amount).toFixed(2)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OrderReturns;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Tag, Building2, MapPin, User } from 'lucide-react';
+import { Tag, Building2, MapPin, User, TrendingDown } from 'lucide-react';
 import { useContractPricing } from '../hooks/useContractPricing';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -11,6 +11,7 @@ interface PriceDisplayProps {
   showSavings?: boolean;
   quantity?: number;
   organizationId?: string; // For sales rep pricing
+  locationId?: string; // Shipping location chosen at checkout
 }
 
 const PriceDisplay: React.FC<PriceDisplayProps> = ({
@@ -19,10 +20,11 @@ const PriceDisplay: React.FC<PriceDisplayProps> = ({
   className = '',
   showSavings = true,
   quantity,
-  organizationId
+  organizationId,
+  locationId
 }) => {
   const { user, profile } = useAuth();
-  const { price, source, savings } = useContractPricing(productId, regularPrice, quantity, organizationId);
+  const { price, source, savings, nextBreak } = useContractPricing(productId, regularPrice, quantity, organizationId, locationId);
 
   // price is the effective selling price (either contract or default)
 
@@ -84,6 +86,16 @@ const PriceDisplay: React.FC<PriceDisplayProps> = ({
         </div>
       )}
 
+      {/* Next quantity break */}
+      {nextBreak && (
+        <div className="flex items-center space-x-1 text-xs text-blue-600">
+          <TrendingDown className="h-3 w-3" />
+          <span>
+            Buy {nextBreak.quantityNeeded} more to pay ${nextBreak.price.toFixed(2)} each
+          </span>
+        </div>
+      )}
+
       {/* Only show status messages if user doesn't have contract pricing */}
       {!isContractPrice && (
         <>
@@ -1,60 +1,53 @@
 import React from 'react';
 import { Filter, X, ChevronRight } from 'lucide-react';
-import { Category } from '../services/productService';
+import { Category, CatalogFacets, PriceBand, formatPriceBand, rollUpCategoryCounts } from '../services/productService';
 
 interface ProductFilterProps {
-  categories: string[];
   categoryTree?: Category[];
   selectedCategory: string;
   onCategoryChange: (category: string) => void;
-  priceRange: [number, number];
-  onPriceRangeChange: (range: [number, number]) => void;
-  maxPrice?: number;
+  /** Counts for the current search; null until the first search returns */
+  facets: CatalogFacets | null;
+  selectedBrandIds: string[];
+  onBrandToggle: (brandId: string) => void;
+  priceBand: PriceBand | null;
+  onPriceBandChange: (band: PriceBand | null) => void;
+  contractOnly: boolean;
+  onContractOnlyChange: (contractOnly: boolean) => void;
+  /** Contract pricing can only be filtered once a customer is selected */
+  contractAvailable: boolean;
   isOpen: boolean;
   onToggle: () => void;
 }
 
+const Count: React.FC<{ value?: number }> = ({ value }) =>
+  value === undefined ? null : <span className="text-xs text-gray-400 ml-2">{value}</span>;
+
 const ProductFilter: React.FC<ProductFilterProps> = ({
-  categories,
   categoryTree,
   selectedCategory,
   onCategoryChange,
-  priceRange,
-  onPriceRangeChange,
-  maxPrice = 10000,
+  facets,
+  selectedBrandIds,
+  onBrandToggle,
+  priceBand,
+  onPriceBandChange,
+  contractOnly,
+  onContractOnlyChange,
+  contractAvailable,
   isOpen,
   onToggle
 }) => {
-  // Build hierarchical display: group categories that have products
-  const availableCategories = new Set(categories);
+  const categoryCounts = facets ? rollUpCategoryCounts(categoryTree || [], facets.categories) : null;
+  // Before the first search every category is shown; afterwards only those with matches
+  const hasProducts = (category: Category) =>
+    !categoryCounts || (categoryCounts[category.id] || 0) > 0 || category.name === selectedCategory;
 
   const renderCategoryTree = () => {
-    if (!categoryTree || categoryTree.length === 0) {
-      // Fallback to flat list if no tree available
-      return categories.map(category => (
-        <button
-          key={category}
-          onClick={() => onCategoryChange(category)}
-          className={`block w-full text-left px-3 py-2 rounded-lg transition-colors ${
-            selectedCategory === category
-              ? 'bg-pink-100 text-pink-800'
-              : 'text-gray-700 hover:bg-gray-100'
-          }`}
-        >
-          {category}
-        </button>
-      ));
-    }
-
-    return categoryTree
-      .filter(parent => {
-        // Show parent if it has products or any of its children have products
-        const childNames = (parent.children || []).map(c => c.name);
-        return availableCategories.has(parent.name) || childNames.some(n => availableCategories.has(n));
-      })
+    return (categoryTree || [])
+      .filter(hasProducts)
       .map(parent => {
-        const childrenWithProducts = (parent.children || []).filter(c => availableCategories.has(c.name));
-        const parentHasProducts = availableCategories.has(parent.name);
+        const childrenWithProducts = (parent.children || []).filter(hasProducts);
         const hasChildren = childrenWithProducts.length > 0;
         const isParentSelected = selectedCategory === parent.name;
         const isChildSelected = childrenWithProducts.some(c => c.name === selectedCategory);
@@ -73,7 +66,7 @@ const ProductFilter: React.FC<ProductFilterProps> = ({
               }`}
             >
               <span className="flex items-center justify-between">
-                {parent.name}
+                <span>{parent.name}<Count value={categoryCounts?.[parent.id]} /></span>
                 {hasChildren && (
                   <ChevronRight className={`h-4 w-4 transition-transform ${isParentSelected || isChildSelected ? 'rotate-90' : ''}`} />
                 )}
@@ -93,7 +86,7 @@ const ProductFilter: React.FC<ProductFilterProps> = ({
                         : 'text-gray-600 hover:bg-gray-100'
                     }`}
                   >
-                    {child.name}
+                    {child.name}<Count value={categoryCounts?.[child.id]} />
                   </button>
                 ))}
               </div>
@@ -148,40 +141,76 @@ const ProductFilter: React.FC<ProductFilterProps> = ({
             </div>
           </div>
 
-          {/* Price Range */}
-          <div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Price Range</h3>
-            <div className="space-y-4">
-              <div className="flex items-center space-x-2">
-                <span className="text-sm text-gray-600">$</span>
-                <input
-                  type="number"
-                  min="0"
-                  max={maxPrice}
-                  value={priceRange[0]}
-                  onChange={(e) => onPriceRangeChange([parseInt(e.target.value), priceRange[1]])}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
-                />
-                <span className="text-gray-500">to</span>
-                <span className="text-sm text-gray-600">$</span>
-                <input
-                  type="number"
-                  min="0"
-                  max={maxPrice}
-                  value={priceRange[1]}
-                  onChange={(e) => onPriceRangeChange([priceRange[0], parseInt(e.target.value)])}
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
-                />
+          {/* Brands */}
+          {facets && facets.brands.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Brands</h3>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {facets.brands.map(brand => (
+                  <label key={brand.id} className="flex items-center px-3 cursor-pointer text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selectedBrandIds.includes(brand.id)}
+                      onChange={() => onBrandToggle(brand.id)}
+                      className="rounded border-gray-300 text-pink-600 focus:ring-pink-500 mr-2"
+                    />
+                    <span className="flex-1">{brand.name}</span>
+                    <Count value={brand.count} />
+                  </label>
+                ))}
               </div>
+            </div>
+          )}
+
+          {/* Price */}
+          {facets && facets.priceBands.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Price</h3>
+              <div className="space-y-2">
+                <button
+                  onClick={() => onPriceBandChange(null)}
+                  className={`block w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    !priceBand ? 'bg-pink-100 text-pink-800' : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Any Price
+                </button>
+                {facets.priceBands.map(band => {
+                  const isSelected = priceBand?.min === band.min && priceBand?.max === band.max;
+                  return (
+                    <button
+                      key={band.min}
+                      onClick={() => onPriceBandChange({ min: band.min, max: band.max })}
+                      disabled={band.count === 0 && !isSelected}
+                      className={`block w-full text-left px-3 py-2 rounded-lg transition-colors disabled:text-gray-300 disabled:hover:bg-transparent ${
+                        isSelected ? 'bg-pink-100 text-pink-800' : 'text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {formatPriceBand(band)}<Count value={band.count} />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Contract pricing */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Pricing</h3>
+            <label className={`flex items-center px-3 ${contractAvailable ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`}>
               <input
-                type="range"
-                min="0"
-                max={maxPrice}
-                value={priceRange[1]}
-                onChange={(e) => onPriceRangeChange([priceRange[0], parseInt(e.target.value)])}
-                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                type="checkbox"
+                checked={contractOnly}
+                onChange={(e) => onContractOnlyChange(e.target.checked)}
+                disabled={!contractAvailable}
+                className="rounded border-gray-300 text-pink-600 focus:ring-pink-500 disabled:cursor-not-allowed mr-2"
               />
-            </div>
+              <span className="flex-1 text-sm text-gray-700">
+                Contract priced
+                {!contractAvailable && ' (select customer first)'}
+              </span>
+              {contractAvailable && <Count value={facets?.contractPriced} />}
+            </label>
           </div>
 
         </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { X, ShoppingCart, Star, Tag, Plus, Minus, Heart, Repeat, Package, ExternalLink } from 'lucide-react';
-import { Product } from '../services/productService';
+import { X, ShoppingCart, Star, Tag, Plus, Minus, Heart, Repeat, Package, ExternalLink, Link2, Check } from 'lucide-react';
+import { Product, productSlug } from '../services/productService';
+import { routeUrl } from '../services/router';
 import PriceDisplay from './PriceDisplay';
 import { contractPricingService, ContractPrice } from '../services/contractPricing';
 import { useAuth } from '../contexts/AuthContext';
@@ -51,6 +52,7 @@ const ProductModal: React.FC<ProductModalProps> = ({
   const [contractPrices, setContractPrices] = useState<ContractPrice[]>([]);
   const [loadingPrices, setLoadingPrices] = useState(false);
   const [showRecurringOrderModal, setShowRecurringOrderModal] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const { user, profile } = useAuth();
   const { isFavorite, toggleFavorite } = useFavorites();
 
@@ -169,12 +171,25 @@ const ProductModal: React.FC<ProductModalProps> = ({
                 </span>
               )}
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
-            >
-              <X className="h-6 w-6" />
-            </button>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(routeUrl({ page: 'product', slug: productSlug(product) }));
+                  setLinkCopied(true);
+                  setTimeout(() => setLinkCopied(false), 2000);
+                }}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+                title={linkCopied ? 'Link copied' : 'Copy link to this product'}
+              >
+                {linkCopied ? <Check className="h-5 w-5 text-green-600" /> : <Link2 className="h-5 w-5" />}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
           </div>
 
           {/* Content */}
@@ -3,7 +3,8 @@ import {
   Users, Building2, MapPin, Settings, BarChart3, Package, ShoppingCart,
   TrendingUp, CreditCard, Repeat, Building, HelpCircle, PieChart,
   Shield, ChevronLeft, ChevronRight, DollarSign, FolderTree, MessageSquare, UserCheck,
-  LayoutDashboard, ArrowLeft, Eye, EyeOff, Menu, X, BookOpen, Mail
+  LayoutDashboard, ArrowLeft, Eye, EyeOff, Menu, X, BookOpen, Mail, Tag, Boxes, ClipboardList, Banknote, Receipt,
+  Map as MapIcon, Undo2, FileText
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../services/supabase';
@@ -14,17 +15,27 @@ import OrganizationManagement from './OrganizationManagement';
 import AddressManagement from './AddressManagement';
 import ProductsManagement from './products/ProductsManagement';
 import PricingManagement from './PricingManagement';
+import DiscountCodeManagement from './DiscountCodeManagement';
+import InventoryManagement from './InventoryManagement';
+import PurchaseOrderManagement from './PurchaseOrderManagement';
+import ReturnManagement from './ReturnManagement';
+import QuoteManagement from './QuoteManagement';
 import OrderManagement from './OrderManagement';
 import CommissionManagement from './CommissionManagement';
+import CommissionPayoutRuns from './CommissionPayoutRuns';
+import SalesTerritories from './SalesTerritories';
 import SalesRepDashboard from './SalesRepDashboard';
 import CustomerPaymentMethods from './CustomerPaymentMethods';
 import Analytics from './Analytics';
 import RecurringOrderManagement from './RecurringOrderManagement';
 import MyRecurringOrders from '../MyRecurringOrders';
+import MyOrders from '../MyOrders';
+import MyQuotes from '../MyQuotes';
 import DistributorManagement from './DistributorManagement';
 import DistributorPortal from './DistributorPortal';
 import HelpSection from './HelpSection';
 import ProfitReport from './ProfitReport';
+import Form1099Report from './Form1099Report';
 import CostAdminManagement from './CostAdminManagement';
 import QuickBooksManagement from './QuickBooksManagement';
 import CategoryManagement from './CategoryManagement';
@@ -32,10 +43,18 @@ import SiteSettingsManagement from './SiteSettingsManagement';
 import EmailTemplateManagement from './EmailTemplateManagement';
 import SupportTickets from '../SupportTickets';
 import SupportTicketManagement from './SupportTicketManagement';
+import type { CartItem } from '../../services/cartService';
 
 interface AdminDashboardProps {
   onClose: () => void;
+  /** Tab from the URL; followed when it changes, e.g. on browser back/forward */
   initialTab?: string;
+  /** Order to open from the URL (/account/orders/:id) */
+  orderId?: string;
+  onTabChange?: (tab: ActiveTab) => void;
+  onOrderChange?: (orderId: string | null) => void;
+  /** Customer reorder: replaces the storefront cart */
+  onReorder?: (lines: CartItem[]) => void;
 }
 
 const ROLE_LABELS: Record<string, string> = {
@@ -52,7 +71,7 @@ const ROLE_COLORS: Record<string, string> = {
   customer: 'bg-green-100 text-green-800',
 };
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab }) => {
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab, orderId, onTabChange, onOrderChange, onReorder }) => {
   const { profile, user, isImpersonating, effectiveProfile, impersonation, stopImpersonation } = useAuth();
   const displayRole = isImpersonating ? effectiveProfile?.role : profile?.role;
   const isAdmin = displayRole === 'admin';
@@ -66,8 +85,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
   const [pendingCount, setPendingCount] = useState(0);
   const [pendingUsers, setPendingUsers] = useState<PendingUser[]>([]);
 
+  const defaultTab = (): ActiveTab => {
+    if (isAdmin) return 'home';
+    if (isCustomer) return 'orders';
+    if (isSalesRep) return 'my-orgs';
+    if (isDistributor) return 'my-customers';
+    return 'home';
+  };
+
   const resolveInitialTab = (tab?: string): ActiveTab => {
-    // If an explicit tab was passed (e.g. from store navigation), use it
+    // If an explicit tab was passed (e.g. from the URL), use it
     if (tab) {
       if (tab === 'admin-settings') return 'organizations';
       return tab as ActiveTab;
@@ -77,12 +104,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
     const stored = sessionStorage.getItem('admin_active_tab');
     if (stored) return stored as ActiveTab;
 
-    // Role-based default
-    if (isAdmin) return 'home';
-    if (isCustomer) return 'orders';
-    if (isSalesRep) return 'my-orgs';
-    if (isDistributor) return 'my-customers';
-    return 'home';
+    return defaultTab();
   };
 
   const [activeTab, setActiveTabRaw] = useState<ActiveTab>(() => resolveInitialTab(initialTab));
@@ -91,8 +113,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
   const setActiveTab = (tab: ActiveTab) => {
     sessionStorage.setItem('admin_active_tab', tab);
     setActiveTabRaw(tab);
+    onTabChange?.(tab);
   };
 
+  useEffect(() => {
+    if (initialTab) setActiveTabRaw(initialTab === 'admin-settings' ? 'organizations' : initialTab as ActiveTab);
+  }, [initialTab]);
+
   useEffect(() => {
     if (isCustomer && user?.id) {
       const fetchUserOrg = async () => {
@@ -150,6 +177,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
       roles: ['customer', 'sales_rep', 'distributor'],
       items: [
         { id: 'orders', label: 'My Orders', icon: ShoppingCart, roles: ['customer'] },
+        { id: 'quotes', label: 'Quotes', icon: FileText, roles: ['customer'] },
         { id: 'my-recurring-orders', label: 'Recurring Orders', icon: Repeat, roles: ['customer'] },
         { id: 'addresses', label: 'Addresses', icon: MapPin, roles: ['customer'] },
         { id: 'payments', label: 'Payment Methods', icon: CreditCard, roles: ['customer'] },
@@ -168,9 +196,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
       items: [
         { id: 'organizations', label: 'Customers', icon: Building2, roles: ['admin'] },
         { id: 'orders', label: 'Orders', icon: ShoppingCart, roles: ['admin', 'sales_rep'] },
+        { id: 'quotes', label: 'Quotes', icon: FileText, roles: ['admin', 'sales_rep'] },
         { id: 'recurring-orders', label: 'Recurring Orders', icon: Repeat, roles: ['admin'] },
+        { id: 'inventory', label: 'Inventory', icon: Boxes, roles: ['admin'] },
+        { id: 'purchase-orders', label: 'Purchase Orders', icon: ClipboardList, roles: ['admin'] },
+        { id: 'returns', label: 'Returns', icon: Undo2, roles: ['admin'] },
         { id: 'commissions', label: 'Commissions', icon: TrendingUp, roles: ['admin', 'sales_rep'] },
+        { id: 'payouts', label: 'Payouts', icon: Banknote, roles: ['admin'] },
+        { id: 'territories', label: 'Territories', icon: MapIcon, roles: ['admin'] },
         { id: 'pricing', label: 'Pricing', icon: DollarSign, roles: ['admin'] },
+        { id: 'discounts', label: 'Discount Codes', icon: Tag, roles: ['admin'] },
         { id: 'support', label: 'Support', icon: MessageSquare, roles: ['admin'] },
       ],
     },
@@ -196,6 +231,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
       items: [
         { id: 'analytics', label: 'Analytics', icon: BarChart3, roles: ['admin'] },
         { id: 'profit-report', label: 'Profit Report', icon: PieChart, roles: ['admin'] },
+        { id: 'tax-1099', label: '1099-NEC', icon: Receipt, roles: ['admin'] },
       ],
     },
     // ── Support (customer) ──
@@ -224,10 +260,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
       items: g.items.filter(item => item.roles.includes(displayRole || '')),
     }))
     .filter(g => g.items.length > 0);
+  const visibleTabs = new Set<string>(visibleGroups.flatMap(g => g.items.map(item => item.id)));
 
   // ── Content renderer ────────────────────────────────────────────────────
   const renderContent = () => {
-    switch (activeTab) {
+    // A tab from the URL or session the current role has no access to falls back to the default
+    const tab = !displayRole || visibleTabs.has(activeTab) ? activeTab : defaultTab();
+    switch (tab) {
       case 'home':
         return (
           <AdminHome
@@ -241,15 +280,31 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
       case 'users':
         return <UserManagement onUserApproved={fetchPendingUsers} onClose={onClose} />;
       case 'orders':
-        return <OrderManagement />;
+        return isCustomer
+          ? <MyOrders orderId={orderId} onOrderChange={onOrderChange} onReorder={onReorder} />
+          : <OrderManagement orderId={orderId} onOrderChange={onOrderChange} />;
       case 'commissions':
         return <CommissionManagement onNavigate={setActiveTab} />;
+      case 'payouts':
+        return <CommissionPayoutRuns />;
+      case 'territories':
+        return <SalesTerritories />;
       case 'quickbooks':
         return <QuickBooksManagement />;
       case 'organizations':
         return <OrganizationManagement />;
       case 'pricing':
         return <PricingManagement />;
+      case 'discounts':
+        return <DiscountCodeManagement />;
+      case 'inventory':
+        return <InventoryManagement />;
+      case 'purchase-orders':
+        return <PurchaseOrderManagement />;
+      case 'returns':
+        return <ReturnManagement />;
+      case 'quotes':
+        return isCustomer ? <MyQuotes /> : <QuoteManagement />;
       case 'products':
         return <ProductsManagement />;
       case 'categories':
@@ -262,6 +317,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onClose, initialTab })
         return <Analytics />;
       case 'profit-report':
         return <ProfitReport />;
+      case 'tax-1099':
+        return <Form1099Report />;
       case 'cost-admins':
         return <CostAdminManagement />;
       case 'site-settings':
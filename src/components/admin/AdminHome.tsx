@@ -7,13 +7,13 @@ import {
 import { supabase } from '@/services/supabase';
 
 export type ActiveTab =
-  | 'home' | 'users' | 'orders' | 'commissions' | 'help'
+  | 'home' | 'users' | 'orders' | 'commissions' | 'payouts' | 'territories' | 'help'
   | 'my-orgs' | 'my-recurring-orders' | 'locations' | 'payments'
   | 'my-customers' | 'my-sales-reps' | 'my-delegates'
   | 'quickbooks' | 'support'
-  | 'organizations' | 'pricing' | 'products' | 'categories'
-  | 'recurring-orders' | 'distributors' | 'salesreps'
-  | 'analytics' | 'profit-report' | 'cost-admins' | 'login-audit' | 'site-settings' | 'email-templates';
+  | 'organizations' | 'pricing' | 'discounts' | 'products' | 'categories'
+  | 'recurring-orders' | 'inventory' | 'purchase-orders' | 'returns' | 'quotes' | 'distributors' | 'salesreps'
+  | 'analytics' | 'profit-report' | 'tax-1099' | 'cost-admins' | 'login-audit' | 'site-settings' | 'email-templates';
 
 export interface PendingUser {
   id: string;
@@ -0,0 +1,148 @@
+import React, { useState, useRef } from 'react';
+import { X, Paperclip, Flag } from 'lucide-react';
+import { commissionDisputeService, validateAttachments } from '@/services/commissionDisputes';
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+interface CommissionDisputeFormProps {
+  commissionId: string;
+  orderLabel: string;
+  /** Lines the payee can narrow the dispute to */
+  lineItems: Array<{ id: string; product_name?: string | null }>;
+  /** Line preselected when disputing from the line item table */
+  initialLineItemId?: string;
+  /** Payee the dispute is raised for, when an admin is viewing as them */
+  payeeId?: string;
+  onClose: () => void;
+  onOpened: () => void;
+}
+
+const CommissionDisputeForm: React.FC<CommissionDisputeFormProps> = ({
+  commissionId,
+  orderLabel,
+  lineItems,
+  initialLineItemId,
+  payeeId,
+  onClose,
+  onOpened,
+}) => {
+  const [lineItemId, setLineItemId] = useState(initialLineItemId || '');
+  const [reason, setReason] = useState('');
+  const [expected, setExpected] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = [...files, ...Array.from(e.target.files || [])];
+    const invalid = validateAttachments(selected);
+    if (invalid) setError(invalid);
+    else {
+      setError(null);
+      setFiles(selected);
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const result = await commissionDisputeService.openDispute({
+      commissionId,
+      lineItemId: lineItemId || undefined,
+      reason,
+      expectedAmount: expected ? Number(expected) : undefined,
+      files,
+      payeeId,
+    });
+    setSubmitting(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to open dispute');
+      return;
+    }
+    onOpened();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Flag className="h-5 w-5 text-orange-500" /> Dispute Commission
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">Order {orderLabel}</p>
+
+        {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+        {lineItems.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Disputing</label>
+            <select value={lineItemId} onChange={(e) => setLineItemId(e.target.value)} className={inputCls}>
+              <option value="">The whole commission</option>
+              {lineItems.map(item => (
+                <option key={item.id} value={item.id}>Line: {item.product_name || 'Product'}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">What's wrong?</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            className={inputCls}
+            placeholder="e.g. The customer's contract rate was 12%, not 10%"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount you expected (optional)</label>
+          <input type="number" min="0" step="0.01" value={expected} onChange={(e) => setExpected(e.target.value)} className={`${inputCls} w-40`} />
+        </div>
+
+        <div>
+          <input ref={fileInput} type="file" multiple onChange={handleFiles} className="hidden" />
+          <button type="button" onClick={() => fileInput.current?.click()} className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <Paperclip className="h-4 w-4" /> Attach invoices, contracts or screenshots
+          </button>
+          {files.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <span key={index} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">
+                  {file.name}
+                  <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600">
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+          <button
+            type="submit"
+            disabled={submitting || !reason.trim()}
+            className="px-4 py-2 text-sm bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50"
+          >
+            {submitting ? 'Submitting...' : 'Submit Dispute'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CommissionDisputeForm;
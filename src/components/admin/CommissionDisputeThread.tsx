@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Loader, Paperclip, Send, ShieldCheck, FileText } from 'lucide-react';
+import {
+  commissionDisputeService,
+  canRecalculate,
+  validateAttachments,
+  DISPUTE_RESOLUTION_LABELS,
+  DISPUTE_STATUS_LABELS,
+  type CommissionDispute,
+  type DisputeAttachment,
+  type DisputeMessage,
+  type DisputeResolution,
+} from '@/services/commissionDisputes';
+
+const DISPUTE_STATUS_STYLES: Record<CommissionDispute['status'], string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  withdrawn: 'bg-gray-100 text-gray-500',
+};
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const money = (amount: number | null | undefined) => (amount == null ? '—' : `$${Number(amount).toFixed(2)}`);
+
+interface CommissionDisputeThreadProps {
+  dispute: CommissionDispute;
+  isAdmin: boolean;
+  onClose: () => void;
+  /** Called after the dispute is replied to, resolved or withdrawn */
+  onChanged: () => void;
+}
+
+const CommissionDisputeThread: React.FC<CommissionDisputeThreadProps> = ({ dispute, isAdmin, onClose, onChanged }) => {
+  const [messages, setMessages] = useState<DisputeMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const [commissionState, setCommissionState] = useState<{ status: string; payout_run_id: string | null } | null>(null);
+  const [resolution, setResolution] = useState<DisputeResolution>('adjustment');
+  const [adjustmentAmount, setAdjustmentAmount] = useState(() =>
+    dispute.expected_amount != null && dispute.disputed_amount != null
+      ? (Number(dispute.expected_amount) - Number(dispute.disputed_amount)).toFixed(2)
+      : ''
+  );
+  const [notes, setNotes] = useState('');
+  const [messagesVersion, setMessagesVersion] = useState(0);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const isOpen = dispute.status === 'open';
+
+  useEffect(() => {
+    const load = async () => {
+      const { messages: data, error: fetchError } = await commissionDisputeService.getMessages(dispute.id);
+      setMessages(data);
+      if (fetchError) setError(fetchError);
+      setLoading(false);
+    };
+    load();
+  }, [dispute.id, messagesVersion]);
+
+  useEffect(() => {
+    if (isAdmin) commissionDisputeService.getCommissionState(dispute.commission_id).then(setCommissionState);
+  }, [isAdmin, dispute.commission_id]);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = [...files, ...Array.from(e.target.files || [])];
+    const invalid = validateAttachments(selected);
+    if (invalid) {
+      setError(invalid);
+    } else {
+      setError(null);
+      setFiles(selected);
+    }
+    e.target.value = '';
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSending(true);
+    setError(null);
+    const result = await commissionDisputeService.postMessage(dispute.id, body, files);
+    setSending(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to send message');
+      return;
+    }
+    setBody('');
+    setFiles([]);
+    setMessagesVersion(v => v + 1);
+    onChanged();
+  };
+
+  const openAttachment = async (attachment: DisputeAttachment) => {
+    const url = await commissionDisputeService.getAttachmentUrl(attachment.path);
+    if (url) window.open(url, '_blank', 'noopener');
+    else setError(`Could not open ${attachment.name}`);
+  };
+
+  const handleResolve = async () => {
+    const amount = resolution === 'adjustment' ? Number(adjustmentAmount) : undefined;
+    if (resolution === 'adjustment' && (!amount || Number.isNaN(amount))) {
+      setError('Enter the adjustment amount (negative to reduce the commission)');
+      return;
+    }
+    setSending(true);
+    setError(null);
+    const result = await commissionDisputeService.resolveDispute(dispute.id, resolution, notes, amount);
+    setSending(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to resolve dispute');
+      return;
+    }
+    onChanged();
+    onClose();
+  };
+
+  const handleWithdraw = async () => {
+    if (!window.confirm('Withdraw this dispute?')) return;
+    const result = await commissionDisputeService.withdrawDispute(dispute.id);
+    if (!result.success) {
+      setError(result.error || 'Failed to withdraw dispute');
+      return;
+    }
+    onChanged();
+    onClose();
+  };
+
+  const recalcAllowed = commissionState ? canRecalculate(commissionState) : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b flex items-start justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Dispute · Order {dispute.orders?.order_number || dispute.order_id.slice(0, 8)}
+              </h3>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${DISPUTE_STATUS_STYLES[dispute.status]}`}>
+                {DISPUTE_STATUS_LABELS[dispute.status]}
+              </span>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">
+              {dispute.product_name ? `Line: ${dispute.product_name}` : 'Whole commission'}
+              {' · '}Current {money(dispute.disputed_amount)}
+              {dispute.expected_amount != null && <> · Expected {money(dispute.expected_amount)}</>}
+              {isAdmin && dispute.profiles && <> · {dispute.profiles.full_name || dispute.profiles.email}</>}
+            </p>
+            {dispute.resolution && (
+              <p className="text-sm text-gray-700 mt-1">{DISPUTE_RESOLUTION_LABELS[dispute.resolution]}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3 bg-gray-50">
+          {loading ? (
+            <div className="flex justify-center py-8"><Loader className="h-5 w-5 animate-spin text-gray-400" /></div>
+          ) : messages.map(message => (
+            <div key={message.id} className={`flex ${message.author_is_admin ? 'justify-start' : 'justify-end'}`}>
+              <div className={`max-w-[85%] rounded-lg px-4 py-3 text-sm ${message.author_is_admin ? 'bg-white border border-gray-200' : 'bg-blue-600 text-white'}`}>
+                <div className={`text-xs mb-1 flex items-center gap-1 ${message.author_is_admin ? 'text-gray-500' : 'text-blue-100'}`}>
+                  {message.author_is_admin && <ShieldCheck className="h-3 w-3" />}
+                  {message.author_name || (message.author_is_admin ? 'Admin' : 'Payee')} · {new Date(message.created_at).toLocaleString()}
+                </div>
+                <p className="whitespace-pre-wrap">{message.body}</p>
+                {message.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {message.attachments.map(attachment => (
+                      <button
+                        key={attachment.path}
+                        onClick={() => openAttachment(attachment)}
+                        className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs ${message.author_is_admin ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-blue-500 text-white hover:bg-blue-400'}`}
+                      >
+                        <FileText className="h-3 w-3" /> {attachment.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="px-6 py-2 bg-red-50 text-sm text-red-700 border-t border-red-200">{error}</div>}
+
+        {isOpen && (
+          <form onSubmit={handleSend} className="px-6 py-3 border-t space-y-2">
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={2}
+              placeholder={isAdmin ? 'Reply to the payee...' : 'Add details or answer the admin...'}
+              className={inputCls}
+            />
+            {files.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {files.map((file, index) => (
+                  <span key={index} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">
+                    {file.name}
+                    <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <input ref={fileInput} type="file" multiple onChange={handleFiles} className="hidden" />
+                <button type="button" onClick={() => fileInput.current?.click()} className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+                  <Paperclip className="h-4 w-4" /> Attach
+                </button>
+                {!isAdmin && (
+                  <button type="button" onClick={handleWithdraw} className="text-sm text-gray-500 hover:text-red-600 ml-3">
+                    Withdraw dispute
+                  </button>
+                )}
+              </div>
+              <button
+                type="submit"
+                disabled={sending || !body.trim()}
+                className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Send className="h-4 w-4" /> Send
+              </button>
+            </div>
+          </form>
+        )}
+
+        {isOpen && isAdmin && (
+          <div className="px-6 py-4 border-t bg-gray-50 space-y-3 rounded-b-lg">
+            <h4 className="text-sm font-semibold text-gray-900">Resolve</h4>
+            <div className="flex flex-wrap gap-3 text-sm">
+              {(['adjustment', 'recalculated', 'rejected'] as DisputeResolution[]).map(option => (
+                <label key={option} className={`flex items-center gap-1 ${option === 'recalculated' && !recalcAllowed ? 'text-gray-400' : 'text-gray-700'}`}>
+                  <input
+                    type="radio"
+                    checked={resolution === option}
+                    disabled={option === 'recalculated' && !recalcAllowed}
+                    onChange={() => setResolution(option)}
+                  />
+                  {option === 'adjustment' ? 'Issue adjustment' : option === 'recalculated' ? 'Re-run calculation' : 'Reject (no change)'}
+                </label>
+              ))}
+            </div>
+            {commissionState && !recalcAllowed && (
+              <p className="text-xs text-gray-500">
+                This commission is {commissionState.payout_run_id ? 'in a payout run' : commissionState.status}; correct it with an adjustment instead of recalculating.
+              </p>
+            )}
+            {resolution === 'adjustment' && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">Amount $</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                  className={`${inputCls} w-32`}
+                />
+                <span className="text-xs text-gray-500">Positive adds to the payee's next payout, negative deducts.</span>
+              </div>
+            )}
+            <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Resolution note for the payee" className={inputCls} />
+            <div className="flex justify-end">
+              <button
+                onClick={handleResolve}
+                disabled={sending}
+                className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                Close Dispute
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommissionDisputeThread;
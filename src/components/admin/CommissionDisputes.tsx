@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Flag, Loader, MessageSquare } from 'lucide-react';
+import {
+  commissionDisputeService,
+  DISPUTE_RESOLUTION_LABELS,
+  DISPUTE_STATUS_LABELS,
+  type CommissionDispute,
+  type DisputeStatus,
+} from '@/services/commissionDisputes';
+import CommissionDisputeThread from './CommissionDisputeThread';
+
+const STATUS_STYLES: Record<DisputeStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  withdrawn: 'bg-gray-100 text-gray-500',
+};
+
+interface CommissionDisputesProps {
+  /** Payee whose disputes to list; omit for the admin queue of every dispute */
+  payeeId?: string;
+  isAdmin?: boolean;
+}
+
+/** Commission disputes for one payee, or the admin queue */
+const CommissionDisputes: React.FC<CommissionDisputesProps> = ({ payeeId, isAdmin = false }) => {
+  const [disputes, setDisputes] = useState<CommissionDispute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [selected, setSelected] = useState<CommissionDispute | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      const { disputes: data, error: fetchError } = await commissionDisputeService.getDisputes(
+        payeeId ? { raisedBy: payeeId } : undefined
+      );
+      setDisputes(data);
+      setError(fetchError || null);
+      setLoading(false);
+    };
+    load();
+  }, [payeeId, version]);
+
+  const visible = showClosed ? disputes : disputes.filter(d => d.status === 'open');
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex justify-center">
+        <Loader className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+          <Flag className="h-5 w-5 text-gray-500 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-900">{isAdmin ? 'Commission Disputes' : 'My Commission Disputes'}</h3>
+        </div>
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} className="rounded" />
+          Show closed
+        </label>
+      </div>
+
+      {error && <div className="px-6 py-3 bg-red-50 text-sm text-red-700 border-b border-red-200">{error}</div>}
+
+      {visible.length === 0 ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">
+          {isAdmin
+            ? 'No open disputes.'
+            : 'No open disputes. To challenge a commission, open it under Commissions and click Dispute.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                {isAdmin && <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee</th>}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current / Expected</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(dispute => (
+                <tr key={dispute.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3">
+                    <div className="font-medium text-gray-900">{dispute.orders?.order_number || dispute.order_id.slice(0, 8)}</div>
+                    <div className="text-xs text-gray-500">{dispute.product_name || 'Whole commission'}</div>
+                  </td>
+                  {isAdmin && (
+                    <td className="px-6 py-3 text-gray-700">
+                      {dispute.profiles?.full_name || dispute.profiles?.email}
+                      <div className="text-xs text-gray-500 capitalize">{dispute.payee_role.replace('_', ' ')}</div>
+                    </td>
+                  )}
+                  <td className="px-6 py-3 text-gray-600 max-w-xs truncate" title={dispute.reason}>{dispute.reason}</td>
+                  <td className="px-6 py-3 text-right text-gray-700">
+                    {dispute.disputed_amount != null ? `$${Number(dispute.disputed_amount).toFixed(2)}` : '—'}
+                    {dispute.expected_amount != null && <> / ${Number(dispute.expected_amount).toFixed(2)}</>}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[dispute.status]}`}>
+                      {DISPUTE_STATUS_LABELS[dispute.status]}
+                    </span>
+                    {dispute.resolution && (
+                      <div className="text-xs text-gray-500 mt-1">{DISPUTE_RESOLUTION_LABELS[dispute.resolution]}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => setSelected(dispute)}
+                      className="p-2 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                      title="Open conversation"
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <CommissionDisputeThread
+          dispute={selected}
+          isAdmin={isAdmin}
+          onClose={() => setSelected(null)}
+          onChanged={() => setVersion(v => v + 1)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CommissionDisputes;
@@ -1,10 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { DollarSign, TrendingUp, Clock, CheckCircle, XCircle, Eye, Search, Filter, AlertTriangle, ChevronDown, ChevronRight, Printer, ExternalLink, FileText, Loader, Ban, RotateCcw, Trash2 } from 'lucide-react';
+import { DollarSign, TrendingUp, Clock, CheckCircle, XCircle, Eye, Search, Filter, AlertTriangle, ChevronDown, ChevronRight, Printer, ExternalLink, FileText, Loader, Ban, RotateCcw, Trash2, Layers, Flag } from 'lucide-react';
 import { commissionService, Commission, CommissionLineItem } from '../../services/commissionService';
+import { commissionAdjustmentService, sumAdjustments, type CommissionAdjustment } from '../../services/commissionAdjustments';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../services/supabase';
 import { softDeleteService } from '../../services/softDeleteService';
 import ConfirmDeleteModal from './ConfirmDeleteModal';
+import CommissionPlans from './CommissionPlans';
+import CommissionPlanPreview from './CommissionPlanPreview';
+import type { PlanDetails } from '../../services/commissionPlans';
+import { commissionDisputeService, DISPUTE_STATUS_LABELS, type CommissionDispute } from '../../services/commissionDisputes';
+import CommissionDisputes from './CommissionDisputes';
+import CommissionDisputeForm from './CommissionDisputeForm';
+import CommissionDisputeThread from './CommissionDisputeThread';
 
 interface DiagnosticData {
   totalOrders: number;
@@ -43,12 +51,21 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
   const [batchProcessing, setBatchProcessing] = useState(false);
   const [diagnostics, setDiagnostics] = useState<DiagnosticData | null>(null);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showPlans, setShowPlans] = useState(false);
+  const [plansVersion, setPlansVersion] = useState(0);
+  const [showDisputes, setShowDisputes] = useState(false);
+  const [commissionDisputes, setCommissionDisputes] = useState<CommissionDispute[]>([]);
+  const [disputeForm, setDisputeForm] = useState<{ lineItemId?: string } | null>(null);
+  const [openThread, setOpenThread] = useState<CommissionDispute | null>(null);
+  const [disputesVersion, setDisputesVersion] = useState(0);
   const [lineItems, setLineItems] = useState<CommissionLineItem[]>([]);
   const [auditLogs, setAuditLogs] = useState<any[]>([]);
   const [loadingLineItems, setLoadingLineItems] = useState(false);
   const [showDeleteCommissionModal, setShowDeleteCommissionModal] = useState(false);
   const [deleteTargetCommission, setDeleteTargetCommission] = useState<any | null>(null);
   const [isDeletingCommission, setIsDeletingCommission] = useState(false);
+  const [adjustments, setAdjustments] = useState<CommissionAdjustment[]>([]);
+  const [showAdjustments, setShowAdjustments] = useState(false);
 
   // Use effective identity for data fetching & display (supports impersonation)
   // Use real profile for admin-only actions (approve, pay, diagnostics)
@@ -142,6 +159,13 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
       } else {
         setError('You do not have permission to view commissions');
       }
+
+      if (viewRole === 'admin' || viewRole === 'sales_rep' || viewRole === 'distributor') {
+        const { adjustments: adjustmentData } = await commissionAdjustmentService.getAdjustments(
+          viewRole === 'admin' ? undefined : { payeeId: viewUserId! }
+        );
+        setAdjustments(adjustmentData);
+      }
     } catch (error) {
       console.error('Error fetching commissions:', error);
       setError(error instanceof Error ? error.message : 'Failed to fetch commissions');
@@ -226,6 +250,19 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
     }
   };
 
+  const selectedCommissionId: string | undefined = selectedCommission?.id;
+
+  useEffect(() => {
+    if (!selectedCommissionId) {
+      setCommissionDisputes([]);
+      return;
+    }
+    commissionDisputeService.getDisputes({
+      commissionId: selectedCommissionId,
+      raisedBy: viewRole === 'admin' ? undefined : viewUserId,
+    }).then(({ disputes }) => setCommissionDisputes(disputes));
+  }, [selectedCommissionId, viewRole, viewUserId, disputesVersion]);
+
   useEffect(() => {
     if (selectedCommission?.order_id) {
       fetchOrderItems(selectedCommission.order_id);
@@ -267,9 +304,44 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
     }
   };
 
+  const pendingAdjustments = adjustments.filter(a => a.status === 'pending');
+  const pendingAdjustmentTotal = sumAdjustments(pendingAdjustments);
+
+  // Pending clawbacks are netted into the payout for every payee on the
+  // commissions being paid; spell out the deduction before confirming
+  const describeNetting = (commissionIds: string[]) => {
+    const paying = commissions.filter(c => commissionIds.includes(c.id));
+    const payees = new Set<string>();
+    paying.forEach(c => {
+      [c.sales_rep_id, c.company_rep_id, c.distributor?.profile_id].forEach(id => id && payees.add(id));
+    });
+    const netted = pendingAdjustments.filter(a => payees.has(a.payee_id));
+    if (netted.length === 0) return '';
+
+    const gross = paying.reduce(
+      (acc, c) => acc + Number(c.commission_amount || 0) + Number(c.company_rep_commission || 0),
+      0
+    );
+    const deduction = sumAdjustments(netted);
+    return `\n\n${netted.length} pending adjustment(s) totalling $${deduction.toFixed(2)} will be netted into this payout.` +
+      ` Gross $${gross.toFixed(2)}, net $${(gross + deduction).toFixed(2)}.`;
+  };
+
+  const handleCancelAdjustment = async (adjustmentId: string) => {
+    if (!canMarkPaid) return;
+    if (!confirm('Void this adjustment? It will no longer be deducted from a payout.')) return;
+
+    const result = await commissionAdjustmentService.cancelAdjustment(adjustmentId);
+    if (result.success) {
+      fetchCommissions();
+    } else {
+      alert(`Failed to cancel adjustment: ${result.error}`);
+    }
+  };
+
   const handleMarkPaid = async (commissionId: string) => {
     if (!canMarkPaid) return;
-    const paymentRef = prompt('Enter payment reference:');
+    const paymentRef = prompt(`Enter payment reference:${describeNetting([commissionId])}`);
     if (!paymentRef) return;
 
     const result = await commissionService.markCommissionPaid(commissionId, paymentRef);
@@ -312,13 +384,13 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
     if (!canMarkPaid || selectedIds.size === 0) return;
     const approvedIds = Array.from(selectedIds).filter(id => {
       const c = commissions.find(comm => comm.id === id);
-      return c?.status === 'approved';
+      return c?.status === 'approved' && !c.payout_run_id;
     });
     if (approvedIds.length === 0) {
       alert('No approved commissions selected.');
       return;
     }
-    const paymentRef = prompt(`Enter payment reference for ${approvedIds.length} commission(s):`);
+    const paymentRef = prompt(`Enter payment reference for ${approvedIds.length} commission(s):${describeNetting(approvedIds)}`);
     if (!paymentRef) return;
 
     setBatchProcessing(true);
@@ -605,6 +677,45 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
         </div>
       )}
 
+      {profile?.role === 'admin' && (
+        <div className="mb-4">
+          <button
+            onClick={() => setShowDisputes(!showDisputes)}
+            className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            {showDisputes ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <Flag className="h-4 w-4" />
+            Commission Disputes
+          </button>
+
+          {showDisputes && (
+            <div className="mt-3">
+              <CommissionDisputes isAdmin />
+            </div>
+          )}
+        </div>
+      )}
+
+      {profile?.role === 'admin' && (
+        <div className="mb-4">
+          <button
+            onClick={() => setShowPlans(!showPlans)}
+            className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            {showPlans ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <Layers className="h-4 w-4" />
+            Commission Plans &amp; What-If Preview
+          </button>
+
+          {showPlans && (
+            <div className="mt-3 space-y-6 bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <CommissionPlans onPlansChanged={() => setPlansVersion(v => v + 1)} />
+              <CommissionPlanPreview refreshKey={plansVersion} />
+            </div>
+          )}
+        </div>
+      )}
+
       {!loading && commissions.length === 0 && !error && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
           {viewRole === 'sales_rep' ? (
@@ -641,7 +752,9 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
         </div>
       )}
 
-      <div className={`grid grid-cols-1 ${summary.cancelled > 0 ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-4 mb-6`}>
+      <div className={`grid grid-cols-1 ${
+        ['md:grid-cols-4', 'md:grid-cols-5', 'md:grid-cols-6'][(summary.cancelled > 0 ? 1 : 0) + (pendingAdjustments.length > 0 ? 1 : 0)]
+      } gap-4 mb-6`}>
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
@@ -711,8 +824,112 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
             </div>
           </div>
         )}
+
+        {pendingAdjustments.length > 0 && (
+          <button
+            onClick={() => setShowAdjustments(true)}
+            className="bg-orange-50 rounded-lg shadow p-6 border border-orange-200 text-left hover:bg-orange-100 transition-colors"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-orange-700">Clawbacks</p>
+                <p className="text-2xl font-bold text-orange-900">${pendingAdjustmentTotal.toFixed(2)}</p>
+                <p className="text-xs text-orange-600 mt-1">
+                  Net payable ${(summary.approved + pendingAdjustmentTotal).toFixed(2)}
+                </p>
+              </div>
+              <RotateCcw className="h-8 w-8 text-orange-400" />
+            </div>
+          </button>
+        )}
       </div>
 
+      {adjustments.length > 0 && (
+        <div className="bg-white rounded-lg shadow mb-6">
+          <button
+            onClick={() => setShowAdjustments(!showAdjustments)}
+            className="w-full flex items-center justify-between p-4 text-left"
+          >
+            <span className="font-semibold text-gray-900 flex items-center">
+              {showAdjustments ? <ChevronDown className="h-4 w-4 mr-2" /> : <ChevronRight className="h-4 w-4 mr-2" />}
+              Adjustments ({adjustments.length})
+            </span>
+            <span className="text-xs text-gray-500">
+              Refund and return clawbacks, deducted from the next payout
+            </span>
+          </button>
+          {showAdjustments && (
+            <div className="overflow-x-auto border-t border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    {viewRole === 'admin' && (
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee</th>
+                    )}
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                    <th className="px-6 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    {canMarkPaid && <th className="px-6 py-2" />}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {adjustments.map(adj => (
+                    <tr key={adj.id}>
+                      <td className="px-6 py-2 text-gray-600">{new Date(adj.created_at).toLocaleDateString()}</td>
+                      <td className="px-6 py-2 text-gray-900">
+                        {adj.orders?.order_number || adj.order_id.slice(0, 8)}
+                        {adj.reason && <div className="text-xs text-gray-500">{adj.reason}</div>}
+                      </td>
+                      {viewRole === 'admin' && (
+                        <td className="px-6 py-2 text-gray-900">
+                          {adj.profiles?.full_name || adj.profiles?.email || 'Unknown'}
+                          <div className="text-xs text-gray-500 capitalize">{adj.payee_role.replace('_', ' ')}</div>
+                        </td>
+                      )}
+                      <td className="px-6 py-2 text-gray-600 capitalize">
+                        {adj.source}
+                        {adj.refund_amount != null && (
+                          <span className="text-xs text-gray-500"> of ${Number(adj.refund_amount).toFixed(2)}</span>
+                        )}
+                      </td>
+                      <td className={`px-6 py-2 text-right font-semibold ${adj.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                        ${Number(adj.amount).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-2">
+                        <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${
+                          adj.status === 'pending' ? 'bg-orange-100 text-orange-800' :
+                          adj.status === 'applied' ? 'bg-green-100 text-green-800' :
+                          'bg-gray-100 text-gray-600'
+                        }`}>
+                          {adj.status === 'applied' ? 'netted' : adj.status}
+                        </span>
+                        {adj.payment_reference && (
+                          <div className="text-xs text-gray-500 mt-0.5">Ref: {adj.payment_reference}</div>
+                        )}
+                      </td>
+                      {canMarkPaid && (
+                        <td className="px-6 py-2 text-right">
+                          {adj.status === 'pending' && !adj.payout_id && (
+                            <button
+                              onClick={() => handleCancelAdjustment(adj.id)}
+                              className="text-xs text-gray-500 hover:text-red-600"
+                            >
+                              Void
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow">
         <div className="p-4 border-b border-gray-200">
           <div className="flex gap-4">
@@ -974,6 +1191,9 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                               {getStatusIcon(commission.status)}
                               <span>{commission.status}</span>
                             </span>
+                            {commission.payout_run_id && commission.status !== 'paid' && (
+                              <div className="text-[10px] text-blue-700 font-medium">In payout run</div>
+                            )}
                             {orderRefunded && (
                               <div className="flex items-center text-[10px] text-red-600 font-medium">
                                 <RotateCcw className="h-3 w-3 mr-0.5" />
@@ -1002,7 +1222,7 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                                 <CheckCircle className="h-4 w-4" />
                               </button>
                             )}
-                            {canMarkPaid && commission.status === 'approved' && (
+                            {canMarkPaid && commission.status === 'approved' && !commission.payout_run_id && (
                               <button
                                 onClick={() => handleMarkPaid(commission.id)}
                                 className="text-blue-600 hover:text-blue-900"
@@ -1011,7 +1231,7 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                                 <DollarSign className="h-4 w-4" />
                               </button>
                             )}
-                            {canApprove && (commission.status === 'pending' || commission.status === 'approved') && (
+                            {canApprove && (commission.status === 'pending' || commission.status === 'approved') && !commission.payout_run_id && (
                               <button
                                 onClick={() => handleCancelCommission(commission.id)}
                                 className="text-red-500 hover:text-red-700"
@@ -1199,7 +1419,23 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                             };
                             return (
                               <tr key={item.id || index} className="text-xs">
-                                <td className="px-3 py-2 font-medium">{item.product_name}</td>
+                                <td className="px-3 py-2 font-medium">
+                                  {item.product_name}
+                                  {!isAdmin && item.id && (
+                                    <button
+                                      onClick={() => setDisputeForm({ lineItemId: item.id })}
+                                      className="ml-1.5 text-gray-400 hover:text-orange-600 print:hidden"
+                                      title="Dispute this line"
+                                    >
+                                      <Flag className="h-3 w-3 inline" />
+                                    </button>
+                                  )}
+                                  {item.pricing_source === 'location' && (
+                                    <span className="ml-1.5 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-100 text-green-800">
+                                      Location price
+                                    </span>
+                                  )}
+                                </td>
                                 <td className="px-3 py-2 text-right">{item.quantity}</td>
                                 {canSeeAll && <td className="px-3 py-2 text-right">${Number(item.unit_cost).toFixed(2)}</td>}
                                 <td className="px-3 py-2 text-right">${Number(item.unit_price).toFixed(2)}</td>
@@ -1295,6 +1531,7 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                                 log.event === 'calculated' ? 'bg-green-100 text-green-800' :
                                 log.event === 'skipped' ? 'bg-yellow-100 text-yellow-800' :
                                 log.event === 'fallback_used' ? 'bg-orange-100 text-orange-800' :
+                                log.event.startsWith('dispute_') ? 'bg-blue-100 text-blue-800' :
                                 'bg-red-100 text-red-800'
                               }`}>
                                 {log.event}
@@ -1313,6 +1550,88 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                   </div>
                 )}
 
+                {/* Commission plan breakdown — from plan_details written by the plan trigger */}
+                {selectedCommission.plan_details && (() => {
+                  const plan = selectedCommission.plan_details as PlanDetails;
+                  return (
+                    <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
+                      <div className="flex items-center font-semibold text-blue-900 mb-2">
+                        <Layers className="h-4 w-4 mr-1.5" />
+                        Plan: {plan.plan_name}
+                      </div>
+                      <div className="space-y-1 text-blue-800">
+                        <div className="flex justify-between">
+                          <span>Period attainment before this order ({plan.quota_basis === 'margin' ? 'margin' : 'gross sales'} since {plan.period_start})</span>
+                          <span>${Number(plan.prior_attainment).toFixed(2)}</span>
+                        </div>
+                        {plan.tiered ? plan.tiers.map(tier => (
+                          <div key={tier.threshold} className="flex justify-between">
+                            <span>${Number(tier.basis).toFixed(2)} at {Number(tier.rate)}% (tier from ${Number(tier.threshold).toLocaleString()})</span>
+                            <span>${Number(tier.amount).toFixed(2)}</span>
+                          </div>
+                        )) : (
+                          <div className="flex justify-between">
+                            <span>Rule-based commission</span>
+                            <span>${Number(plan.base_rep_commission).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {plan.new_customer && Number(plan.new_customer_bonus) > 0 && (
+                          <div className="flex justify-between">
+                            <span>New customer bonus</span>
+                            <span>${Number(plan.new_customer_bonus).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {plan.spiffs.map(spiff => (
+                          <div key={spiff.productId} className="flex justify-between">
+                            <span>SPIFF: {spiff.name}</span>
+                            <span>${Number(spiff.amount).toFixed(2)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between font-semibold text-blue-900 border-t border-blue-200 pt-1">
+                          <span>Sales rep commission</span>
+                          <span>${Number(plan.rep_commission).toFixed(2)}</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                {/* Disputes raised on this commission */}
+                {(commissionDisputes.length > 0 || !isAdmin) && (
+                  <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm print:hidden">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center font-semibold text-orange-900">
+                        <Flag className="h-4 w-4 mr-1.5" />
+                        Disputes
+                      </div>
+                      {!isAdmin && (
+                        <button
+                          onClick={() => setDisputeForm({})}
+                          className="text-xs px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors"
+                        >
+                          Dispute
+                        </button>
+                      )}
+                    </div>
+                    {commissionDisputes.length === 0 ? (
+                      <p className="text-xs text-orange-800 mt-1">Think this commission is wrong? Open a dispute and an admin will review it with you.</p>
+                    ) : (
+                      <div className="mt-2 space-y-1">
+                        {commissionDisputes.map(dispute => (
+                          <button
+                            key={dispute.id}
+                            onClick={() => setOpenThread(dispute)}
+                            className="w-full flex items-center justify-between text-xs text-left px-2 py-1.5 bg-white rounded border border-orange-200 hover:bg-orange-100"
+                          >
+                            <span className="truncate">{dispute.product_name || 'Whole commission'} · {dispute.reason}</span>
+                            <span className="ml-2 flex-shrink-0 font-semibold text-orange-800">{DISPUTE_STATUS_LABELS[dispute.status]}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Cancelled / Refund Notice */}
                 {selectedCommission.status === 'cancelled' && (
                   <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -1358,7 +1677,7 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                       Approve Commission
                     </button>
                   )}
-                  {canMarkPaid && selectedCommission.status === 'approved' && (
+                  {canMarkPaid && selectedCommission.status === 'approved' && !selectedCommission.payout_run_id && (
                     <button
                       onClick={() => handleMarkPaid(selectedCommission.id)}
                       className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
@@ -1366,7 +1685,7 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
                       Mark as Paid
                     </button>
                   )}
-                  {canApprove && (selectedCommission.status === 'pending' || selectedCommission.status === 'approved') && (
+                  {canApprove && (selectedCommission.status === 'pending' || selectedCommission.status === 'approved') && !selectedCommission.payout_run_id && (
                     <button
                       onClick={() => handleCancelCommission(selectedCommission.id)}
                       className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
@@ -1391,6 +1710,27 @@ const CommissionManagement: React.FC<CommissionManagementProps> = ({ onNavigate
         );
       })()}
 
+      {selectedCommission && disputeForm && (
+        <CommissionDisputeForm
+          commissionId={selectedCommission.id}
+          orderLabel={selectedCommission.order?.order_number || `#${selectedCommission.order_id?.slice(0, 8).toUpperCase()}`}
+          lineItems={lineItems.map(item => ({ id: item.id, product_name: item.product_name }))}
+          initialLineItemId={disputeForm.lineItemId}
+          payeeId={isImpersonating ? viewUserId : undefined}
+          onClose={() => setDisputeForm(null)}
+          onOpened={() => setDisputesVersion(v => v + 1)}
+        />
+      )}
+
+      {openThread && (
+        <CommissionDisputeThread
+          dispute={openThread}
+          isAdmin={viewRole === 'admin'}
+          onClose={() => setOpenThread(null)}
+          onChanged={() => setDisputesVersion(v => v + 1)}
+        />
+      )}
+
       <ConfirmDeleteModal
         isOpen={showDeleteCommissionModal}
         title="Delete Commission"
@@ -0,0 +1,586 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Banknote, Plus, X, Loader, ArrowLeft, Download, FileText, Printer, CheckCircle, Ban, Landmark, AlertTriangle,
+} from 'lucide-react';
+import {
+  commissionPayoutService,
+  buildPayoutNacha,
+  payoutsToCsv,
+  renderPayoutStatement,
+  maskAccountNumber,
+  PAYEE_ROLE_LABELS,
+  type CommissionPayout,
+  type PayeeBankAccount,
+  type PayoutRun,
+} from '@/services/commissionPayouts';
+import { isValidRoutingNumber } from '@/services/nacha';
+import { downloadTextFile, openHtmlDocument } from '@/utils/download';
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const STATUS_STYLES: Record<PayoutRun['status'], string> = {
+  locked: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Default to last calendar month, the usual payout cadence
+function previousMonth(): { start: string; end: string } {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const end = new Date(now.getFullYear(), now.getMonth(), 0);
+  return { start: toDateInput(start), end: toDateInput(end) };
+}
+
+function nextBusinessDay(): string {
+  const date = new Date();
+  do {
+    date.setDate(date.getDate() + 1);
+  } while (date.getDay() === 0 || date.getDay() === 6);
+  return toDateInput(date);
+}
+
+const CommissionPayoutRuns: React.FC = () => {
+  const [runs, setRuns] = useState<PayoutRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [period, setPeriod] = useState(previousMonth);
+  const [notes, setNotes] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [selectedRun, setSelectedRun] = useState<PayoutRun | null>(null);
+  const [payouts, setPayouts] = useState<CommissionPayout[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<Record<string, PayeeBankAccount>>({});
+  const [loadingRun, setLoadingRun] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState(nextBusinessDay);
+
+  const [bankPayout, setBankPayout] = useState<CommissionPayout | null>(null);
+  const [bankForm, setBankForm] = useState({ account_holder_name: '', routing_number: '', account_number: '', account_type: 'checking' as PayeeBankAccount['account_type'] });
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  useEffect(() => {
+    if (success) {
+      const timer = setTimeout(() => setSuccess(null), 4000);
+      return () => clearTimeout(timer);
+    }
+  }, [success]);
+
+  const fetchRuns = async () => {
+    setLoading(true);
+    const { runs: data, error: fetchError } = await commissionPayoutService.getRuns();
+    setRuns(data);
+    if (fetchError) setError(fetchError);
+    setLoading(false);
+  };
+
+  const openRun = async (run: PayoutRun) => {
+    setSelectedRun(run);
+    setLoadingRun(true);
+    const { payouts: data, error: fetchError } = await commissionPayoutService.getPayouts(run.id);
+    setPayouts(data);
+    setBankAccounts(await commissionPayoutService.getBankAccounts([...new Set(data.map(p => p.payee_id))]));
+    if (fetchError) setError(fetchError);
+    setLoadingRun(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    const result = await commissionPayoutService.createRun(period.start, period.end, notes);
+    setCreating(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to create payout run');
+      return;
+    }
+
+    setShowCreate(false);
+    setNotes('');
+    await fetchRuns();
+    const { runs: refreshed } = await commissionPayoutService.getRuns();
+    const created = refreshed.find(r => r.id === result.runId);
+    if (created) openRun(created);
+  };
+
+  const refreshSelected = async () => {
+    if (!selectedRun) return;
+    const { runs: refreshed } = await commissionPayoutService.getRuns();
+    setRuns(refreshed);
+    const run = refreshed.find(r => r.id === selectedRun.id);
+    if (run) setSelectedRun(run);
+  };
+
+  const handleMarkPaid = async () => {
+    if (!selectedRun) return;
+    const reference = prompt(
+      `Mark ${selectedRun.run_number} paid ($${Number(selectedRun.total_net).toFixed(2)} to ${selectedRun.payee_count} payees)?\n\nPayment reference (optional):`,
+      selectedRun.run_number
+    );
+    if (reference === null) return;
+
+    setProcessing(true);
+    const result = await commissionPayoutService.markRunPaid(selectedRun.id, reference);
+    setProcessing(false);
+
+    if (result.success) {
+      setSuccess(`${selectedRun.run_number} marked as paid`);
+      refreshSelected();
+    } else {
+      setError(result.error || 'Failed to mark run paid');
+    }
+  };
+
+  const handleCancelRun = async () => {
+    if (!selectedRun) return;
+    if (!confirm(`Cancel ${selectedRun.run_number}? Its commissions and adjustments are released for the next run.`)) return;
+
+    setProcessing(true);
+    const result = await commissionPayoutService.cancelRun(selectedRun.id);
+    setProcessing(false);
+
+    if (result.success) {
+      setSuccess(`${selectedRun.run_number} cancelled`);
+      refreshSelected();
+    } else {
+      setError(result.error || 'Failed to cancel run');
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!selectedRun) return;
+    downloadTextFile(payoutsToCsv(selectedRun, payouts, bankAccounts), `${selectedRun.run_number}.csv`, 'text/csv');
+  };
+
+  const handleExportNacha = async () => {
+    if (!selectedRun) return;
+    setError(null);
+    try {
+      const originator = await commissionPayoutService.getOriginator();
+      const { file, included, skipped } = buildPayoutNacha(
+        selectedRun,
+        payouts,
+        bankAccounts,
+        originator,
+        new Date(`${effectiveDate}T00:00:00`)
+      );
+      downloadTextFile(file, `${selectedRun.run_number}.ach`);
+      setSuccess(
+        `ACH file exported for ${included.length} payee(s)` +
+        (skipped.length > 0 ? `; ${skipped.length} need manual payment` : '')
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? `${err.message}. Check the ACH settings under Settings > Payouts and each payee's bank details.`
+          : 'Failed to build ACH file'
+      );
+    }
+  };
+
+  const handleStatement = async (payout: CommissionPayout) => {
+    if (!selectedRun) return;
+    const { statement, error: statementError } = await commissionPayoutService.getStatement({ ...payout, run: selectedRun });
+    if (!statement) {
+      setError(statementError || 'Could not load statement');
+      return;
+    }
+    if (!openHtmlDocument(renderPayoutStatement(statement))) {
+      setError('Allow pop-ups to view the statement');
+    }
+  };
+
+  const openBankForm = (payout: CommissionPayout) => {
+    const existing = bankAccounts[payout.payee_id];
+    setBankForm({
+      account_holder_name: existing?.account_holder_name || payout.payee_name,
+      routing_number: existing?.routing_number || '',
+      account_number: existing?.account_number || '',
+      account_type: existing?.account_type || 'checking',
+    });
+    setBankPayout(payout);
+  };
+
+  const handleSaveBank = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bankPayout) return;
+    if (!isValidRoutingNumber(bankForm.routing_number)) {
+      setError('Enter a valid 9-digit routing number');
+      return;
+    }
+    if (!/^\d{4,17}$/.test(bankForm.account_number)) {
+      setError('Account number must be 4 to 17 digits');
+      return;
+    }
+
+    const result = await commissionPayoutService.saveBankAccount({ profile_id: bankPayout.payee_id, ...bankForm });
+    if (!result.success) {
+      setError(result.error || 'Failed to save bank details');
+      return;
+    }
+
+    setBankAccounts(await commissionPayoutService.getBankAccounts([...new Set(payouts.map(p => p.payee_id))]));
+    setBankPayout(null);
+    setSuccess('Bank details saved');
+  };
+
+  const messages = (
+    <>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center justify-between">
+          <span className="flex items-center"><AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {success && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">{success}</div>
+      )}
+    </>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  // ── Run detail ─────────────────────────────────────────────────────────────
+  if (selectedRun) {
+    const missingBank = payouts.filter(p => !bankAccounts[p.payee_id] && Number(p.net_amount) > 0).length;
+
+    return (
+      <div className="p-6 space-y-6">
+        {messages}
+
+        <div className="flex items-start justify-between">
+          <div>
+            <button
+              onClick={() => { setSelectedRun(null); setPayouts([]); }}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+            >
+              <ArrowLeft className="h-4 w-4 mr-1" /> All payout runs
+            </button>
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+              {selectedRun.run_number}
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[selectedRun.status]}`}>
+                {selectedRun.status}
+              </span>
+            </h2>
+            <p className="text-gray-600 mt-1">
+              {selectedRun.period_start} to {selectedRun.period_end}
+              {selectedRun.payment_reference && ` · Ref: ${selectedRun.payment_reference}`}
+            </p>
+            {selectedRun.notes && <p className="text-sm text-gray-500 mt-1">{selectedRun.notes}</p>}
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              onClick={handleExportCsv}
+              disabled={payouts.length === 0}
+              className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" /> CSV
+            </button>
+            {selectedRun.status !== 'cancelled' && (
+              <div className="flex items-center gap-1 border border-gray-300 rounded-lg pl-2">
+                <input
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  className="text-sm border-0 focus:ring-0 p-1"
+                  title="ACH effective date"
+                />
+                <button
+                  onClick={handleExportNacha}
+                  disabled={payouts.length === 0}
+                  className="flex items-center gap-1 px-3 py-2 text-sm border-l border-gray-300 hover:bg-gray-50 rounded-r-lg disabled:opacity-50"
+                >
+                  <FileText className="h-4 w-4" /> NACHA
+                </button>
+              </div>
+            )}
+            {selectedRun.status === 'locked' && (
+              <>
+                <button
+                  onClick={handleMarkPaid}
+                  disabled={processing}
+                  className="flex items-center gap-1 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  <CheckCircle className="h-4 w-4" /> Mark Paid
+                </button>
+                <button
+                  onClick={handleCancelRun}
+                  disabled={processing}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  <Ban className="h-4 w-4" /> Cancel Run
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Payees</p>
+            <p className="text-2xl font-bold text-gray-900">{selectedRun.payee_count}</p>
+            <p className="text-xs text-gray-500">{selectedRun.commission_count} commissions</p>
+          </div>
+          <div className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">Gross</p>
+            <p className="text-2xl font-bold text-gray-900">${Number(selectedRun.total_gross).toFixed(2)}</p>
+          </div>
+          <div className="bg-orange-50 rounded-lg shadow p-4 border border-orange-200">
+            <p className="text-sm text-orange-700">Adjustments</p>
+            <p className="text-2xl font-bold text-orange-900">${Number(selectedRun.total_adjustments).toFixed(2)}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg shadow p-4 border border-green-200">
+            <p className="text-sm text-green-700">Net Payout</p>
+            <p className="text-2xl font-bold text-green-900">${Number(selectedRun.total_net).toFixed(2)}</p>
+          </div>
+        </div>
+
+        {missingBank > 0 && selectedRun.status === 'locked' && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {missingBank} payee(s) have no bank details and will be left out of the NACHA file.
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {loadingRun ? (
+            <div className="flex justify-center py-10"><Loader className="h-6 w-6 animate-spin text-gray-400" /></div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deposit</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {payouts.map(payout => {
+                  const bank = bankAccounts[payout.payee_id];
+                  return (
+                    <tr key={payout.id}>
+                      <td className="px-6 py-3">
+                        <div className="font-medium text-gray-900">{payout.payee_name}</div>
+                        <div className="text-xs text-gray-500">{payout.payee_email}</div>
+                      </td>
+                      <td className="px-6 py-3 text-gray-600">{PAYEE_ROLE_LABELS[payout.payee_role]}</td>
+                      <td className="px-6 py-3 text-right">
+                        ${Number(payout.gross_amount).toFixed(2)}
+                        <div className="text-xs text-gray-500">{payout.commission_count} orders</div>
+                      </td>
+                      <td className={`px-6 py-3 text-right ${Number(payout.adjustment_amount) < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                        ${Number(payout.adjustment_amount).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-3 text-right font-semibold text-gray-900">${Number(payout.net_amount).toFixed(2)}</td>
+                      <td className="px-6 py-3">
+                        <button
+                          onClick={() => openBankForm(payout)}
+                          className={`flex items-center gap-1 text-xs ${bank ? 'text-gray-700 hover:text-blue-600' : 'text-yellow-700 hover:text-yellow-900'}`}
+                        >
+                          <Landmark className="h-3.5 w-3.5" />
+                          {bank ? `ACH ${maskAccountNumber(bank.account_number)}` : 'Add bank details'}
+                        </button>
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                        <button
+                          onClick={() => handleStatement(payout)}
+                          className="p-2 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                          title="View statement"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {bankPayout && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <form onSubmit={handleSaveBank} className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Bank details · {bankPayout.payee_name}</h3>
+                <button type="button" onClick={() => setBankPayout(null)} className="p-1 hover:bg-gray-100 rounded-full">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Account holder</label>
+                <input
+                  className={inputCls}
+                  value={bankForm.account_holder_name}
+                  onChange={(e) => setBankForm({ ...bankForm, account_holder_name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Routing number</label>
+                  <input
+                    className={inputCls}
+                    inputMode="numeric"
+                    maxLength={9}
+                    value={bankForm.routing_number}
+                    onChange={(e) => setBankForm({ ...bankForm, routing_number: e.target.value.replace(/\D/g, '') })}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Account type</label>
+                  <select
+                    className={inputCls}
+                    value={bankForm.account_type}
+                    onChange={(e) => setBankForm({ ...bankForm, account_type: e.target.value as PayeeBankAccount['account_type'] })}
+                  >
+                    <option value="checking">Checking</option>
+                    <option value="savings">Savings</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Account number</label>
+                <input
+                  className={inputCls}
+                  inputMode="numeric"
+                  maxLength={17}
+                  value={bankForm.account_number}
+                  onChange={(e) => setBankForm({ ...bankForm, account_number: e.target.value.replace(/\D/g, '') })}
+                  required
+                />
+              </div>
+              <div className="flex justify-end gap-2 pt-2">
+                <button type="button" onClick={() => setBankPayout(null)} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm">
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium">
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ── Run list ───────────────────────────────────────────────────────────────
+  return (
+    <div className="p-6 space-y-6">
+      {messages}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Commission Payouts</h2>
+          <p className="text-gray-600 mt-1">Lock approved commissions into a payout run, send statements and export payment files</p>
+        </div>
+        <button
+          onClick={() => setShowCreate(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+        >
+          <Plus className="h-4 w-4" /> New Payout Run
+        </button>
+      </div>
+
+      {showCreate && (
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Orders from</label>
+              <input type="date" className={inputCls} value={period.start} onChange={(e) => setPeriod({ ...period, start: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Orders to</label>
+              <input type="date" className={inputCls} value={period.end} onChange={(e) => setPeriod({ ...period, end: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input className={inputCls} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            All approved commissions in the period are locked into the run. Pending clawbacks are netted for each payee.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setShowCreate(false)} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={creating}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+            >
+              {creating && <Loader className="h-4 w-4 animate-spin" />}
+              Create Run
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {runs.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <Banknote className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-500">No payout runs yet</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Run</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payees</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {runs.map(run => (
+                <tr key={run.id} onClick={() => openRun(run)} className="hover:bg-gray-50 cursor-pointer">
+                  <td className="px-6 py-3 font-medium text-blue-700">{run.run_number}</td>
+                  <td className="px-6 py-3 text-gray-600">{run.period_start} – {run.period_end}</td>
+                  <td className="px-6 py-3 text-right">{run.payee_count}</td>
+                  <td className="px-6 py-3 text-right">${Number(run.total_gross).toFixed(2)}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">${Number(run.total_adjustments).toFixed(2)}</td>
+                  <td className="px-6 py-3 text-right font-semibold">${Number(run.total_net).toFixed(2)}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${STATUS_STYLES[run.status]}`}>
+                      {run.status}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommissionPayoutRuns;
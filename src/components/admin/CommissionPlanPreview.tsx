@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { Calculator, Loader, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  commissionPlanService,
+  summarizePreview,
+  type CommissionPlan,
+  type PlanPreviewRow,
+} from '@/services/commissionPlans';
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+// Default to the current quarter, the most common quota period
+function currentQuarter(): { start: string; end: string } {
+  const now = new Date();
+  const quarterMonth = Math.floor(now.getMonth() / 3) * 3;
+  return {
+    start: toDateInput(new Date(now.getFullYear(), quarterMonth, 1)),
+    end: toDateInput(new Date(now.getFullYear(), quarterMonth + 3, 0)),
+  };
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const diffClass = (amount: number) => (amount > 0 ? 'text-green-700' : amount < 0 ? 'text-red-700' : 'text-gray-500');
+
+interface CommissionPlanPreviewProps {
+  /** Bumped by the parent when plans are edited so the plan list reloads */
+  refreshKey?: number;
+}
+
+const CommissionPlanPreview: React.FC<CommissionPlanPreviewProps> = ({ refreshKey }) => {
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [reps, setReps] = useState<Array<{ id: string; email: string; full_name: string | null }>>([]);
+  const [planId, setPlanId] = useState('');
+  const [period, setPeriod] = useState(currentQuarter);
+  const [salesRepId, setSalesRepId] = useState('');
+  const [rows, setRows] = useState<PlanPreviewRow[] | null>(null);
+  const [expandedRep, setExpandedRep] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    commissionPlanService.getPlans().then(({ plans: data }) => setPlans(data.filter(p => p.status !== 'archived')));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    commissionPlanService.getSalesReps().then(setReps);
+  }, []);
+
+  const runPreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!planId) return;
+    setRunning(true);
+    setError(null);
+    const result = await commissionPlanService.previewPlan(planId, period.start, period.end, salesRepId || undefined);
+    setRows(result.rows);
+    if (result.error) setError(result.error);
+    setRunning(false);
+  };
+
+  const summaries = rows ? summarizePreview(rows) : [];
+  const totals = summaries.reduce(
+    (acc, s) => ({ current: acc.current + s.current, projected: acc.projected + s.projected }),
+    { current: 0, projected: 0 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Calculator className="h-5 w-5 text-blue-600" /> What-If Preview
+        </h3>
+        <p className="text-sm text-gray-600">
+          Recalculates a period's sales rep commissions under any plan, including drafts. Nothing is saved.
+        </p>
+      </div>
+
+      <form onSubmit={runPreview} className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Plan</label>
+          <select value={planId} onChange={(e) => setPlanId(e.target.value)} className={inputCls} required>
+            <option value="">Select a plan</option>
+            {plans.map(plan => <option key={plan.id} value={plan.id}>{plan.name} ({plan.status})</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input type="date" value={period.start} onChange={(e) => setPeriod({ ...period, start: e.target.value })} className={inputCls} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input type="date" value={period.end} onChange={(e) => setPeriod({ ...period, end: e.target.value })} className={inputCls} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rep</label>
+          <select value={salesRepId} onChange={(e) => setSalesRepId(e.target.value)} className={inputCls}>
+            <option value="">All reps</option>
+            {reps.map(rep => <option key={rep.id} value={rep.id}>{rep.full_name || rep.email}</option>)}
+          </select>
+        </div>
+        <div className="md:col-span-5 flex justify-end">
+          <button
+            type="submit"
+            disabled={running || !planId}
+            className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {running ? <Loader className="h-4 w-4 animate-spin" /> : <Calculator className="h-4 w-4" />}
+            Run Preview
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {rows && !error && (
+        rows.length === 0 ? (
+          <div className="bg-white rounded-lg shadow px-6 py-8 text-center text-sm text-gray-500">
+            No commissions in this period.
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rep</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Attainment</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Under Plan</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summaries.map(summary => (
+                  <React.Fragment key={summary.salesRepId}>
+                    <tr
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedRep(expandedRep === summary.salesRepId ? null : summary.salesRepId)}
+                    >
+                      <td className="px-4 py-3 font-medium text-gray-900 flex items-center gap-1">
+                        {expandedRep === summary.salesRepId ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        {summary.salesRepName}
+                      </td>
+                      <td className="px-4 py-3 text-right">{summary.orders}</td>
+                      <td className="px-4 py-3 text-right">{money(summary.basis)}</td>
+                      <td className="px-4 py-3 text-right">{money(summary.current)}</td>
+                      <td className="px-4 py-3 text-right font-semibold">{money(summary.projected)}</td>
+                      <td className={`px-4 py-3 text-right font-semibold ${diffClass(summary.difference)}`}>
+                        {summary.difference > 0 ? '+' : ''}{money(summary.difference)}
+                      </td>
+                    </tr>
+                    {expandedRep === summary.salesRepId && rows
+                      .filter(row => row.sales_rep_id === summary.salesRepId)
+                      .map(row => {
+                        const diff = Number(row.projected_commission) - Number(row.current_commission);
+                        const extras = [
+                          row.details?.new_customer_bonus ? `bonus ${money(Number(row.details.new_customer_bonus))}` : '',
+                          row.details?.spiff_total ? `SPIFFs ${money(Number(row.details.spiff_total))}` : '',
+                        ].filter(Boolean).join(' · ');
+                        return (
+                          <tr key={row.commission_id} className="bg-gray-50 text-xs text-gray-600">
+                            <td className="pl-10 pr-4 py-2">
+                              {row.order_number || row.order_id.slice(0, 8)} · {new Date(row.created_at).toLocaleDateString()}
+                              {extras && <span className="ml-2 text-blue-700">{extras}</span>}
+                            </td>
+                            <td />
+                            <td className="px-4 py-2 text-right">{money(Number(row.basis))}</td>
+                            <td className="px-4 py-2 text-right">{money(Number(row.current_commission))}</td>
+                            <td className="px-4 py-2 text-right">{money(Number(row.projected_commission))}</td>
+                            <td className={`px-4 py-2 text-right ${diffClass(diff)}`}>{diff > 0 ? '+' : ''}{money(diff)}</td>
+                          </tr>
+                        );
+                      })}
+                  </React.Fragment>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold">
+                <tr>
+                  <td className="px-4 py-3" colSpan={3}>Total</td>
+                  <td className="px-4 py-3 text-right">{money(totals.current)}</td>
+                  <td className="px-4 py-3 text-right">{money(totals.projected)}</td>
+                  <td className={`px-4 py-3 text-right ${diffClass(totals.projected - totals.current)}`}>
+                    {totals.projected - totals.current > 0 ? '+' : ''}{money(totals.projected - totals.current)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CommissionPlanPreview;
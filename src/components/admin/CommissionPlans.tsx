@@ -0,0 +1,460 @@
+import React, { useState, useEffect } from 'react';
+import { Layers, Plus, X, Loader, Pencil, Trash2, UserPlus, Archive, CheckCircle } from 'lucide-react';
+import {
+  commissionPlanService,
+  tieredCommission,
+  validatePlan,
+  QUOTA_PERIOD_LABELS,
+  QUOTA_BASIS_LABELS,
+  type CommissionPlan,
+  type CommissionPlanInput,
+  type PlanSpiff,
+  type PlanStatus,
+  type PlanTier,
+} from '@/services/commissionPlans';
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const STATUS_STYLES: Record<PlanStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  archived: 'bg-gray-100 text-gray-600',
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_PLAN: CommissionPlanInput = {
+  name: '',
+  description: '',
+  quota_period: 'quarter',
+  quota_basis: 'gross_sales',
+  new_customer_bonus_type: null,
+  new_customer_bonus_amount: 0,
+};
+
+interface CommissionPlansProps {
+  /** Called after plans change so the what-if preview can refresh its plan list */
+  onPlansChanged?: () => void;
+}
+
+const CommissionPlans: React.FC<CommissionPlansProps> = ({ onPlansChanged }) => {
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reps, setReps] = useState<Array<{ id: string; email: string; full_name: string | null }>>([]);
+  const [products, setProducts] = useState<Array<{ id: number; name: string }>>([]);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [form, setForm] = useState<CommissionPlanInput>(EMPTY_PLAN);
+  const [tiers, setTiers] = useState<PlanTier[]>([]);
+  const [spiffs, setSpiffs] = useState<PlanSpiff[]>([]);
+  const [exampleSales, setExampleSales] = useState(60000);
+  const [saving, setSaving] = useState(false);
+
+  const [assignPlanId, setAssignPlanId] = useState<string | null>(null);
+  const [assignment, setAssignment] = useState({ salesRepId: '', startsOn: today(), endsOn: '' });
+
+  const loadPlans = async () => {
+    setLoading(true);
+    const { plans: data, error: fetchError } = await commissionPlanService.getPlans();
+    setPlans(data);
+    if (fetchError) setError(fetchError);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadPlans();
+    commissionPlanService.getSalesReps().then(setReps);
+    commissionPlanService.getProducts().then(setProducts);
+  }, []);
+
+  const refresh = async () => {
+    await loadPlans();
+    onPlansChanged?.();
+  };
+
+  const openEditor = (plan?: CommissionPlan) => {
+    setError(null);
+    setEditingId(plan?.id || null);
+    setForm(plan ? {
+      name: plan.name,
+      description: plan.description || '',
+      quota_period: plan.quota_period,
+      quota_basis: plan.quota_basis,
+      new_customer_bonus_type: plan.new_customer_bonus_type,
+      new_customer_bonus_amount: Number(plan.new_customer_bonus_amount),
+    } : EMPTY_PLAN);
+    setTiers(plan?.commission_plan_tiers?.map(t => ({ threshold: Number(t.threshold), rate: Number(t.rate) }))
+      .sort((a, b) => a.threshold - b.threshold) || [{ threshold: 0, rate: 5 }]);
+    setSpiffs(plan?.commission_plan_spiffs?.map(s => ({ ...s, amount: Number(s.amount) })) || []);
+    setShowEditor(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const result = await commissionPlanService.savePlan(editingId, form, tiers, spiffs);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to save plan');
+      return;
+    }
+    setShowEditor(false);
+    refresh();
+  };
+
+  const handleStatus = async (plan: CommissionPlan, status: PlanStatus) => {
+    if (status === 'active' && !window.confirm(`Activate "${plan.name}"? New commissions for its assigned reps will be calculated under this plan.`)) return;
+    const result = await commissionPlanService.setStatus(plan.id, status);
+    if (!result.success) setError(result.error || 'Failed to update plan');
+    refresh();
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignPlanId || !assignment.salesRepId) return;
+    const result = await commissionPlanService.assignPlan(
+      assignPlanId, assignment.salesRepId, assignment.startsOn, assignment.endsOn || undefined
+    );
+    if (!result.success) {
+      setError(result.error || 'Failed to assign plan');
+      return;
+    }
+    setAssignPlanId(null);
+    setAssignment({ salesRepId: '', startsOn: today(), endsOn: '' });
+    refresh();
+  };
+
+  const handleRemoveAssignment = async (assignmentId: string) => {
+    if (!window.confirm('Remove this rep from the plan? Commissions already calculated are not changed.')) return;
+    const result = await commissionPlanService.removeAssignment(assignmentId);
+    if (!result.success) setError(result.error || 'Failed to remove assignment');
+    refresh();
+  };
+
+  const updateTier = (index: number, field: keyof PlanTier, value: number) =>
+    setTiers(tiers.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+
+  const updateSpiff = (index: number, changes: Partial<PlanSpiff>) =>
+    setSpiffs(spiffs.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const example = tieredCommission(tiers, 0, exampleSales);
+  const validation = validatePlan(form, tiers, spiffs);
+
+  const describeTiers = (plan: CommissionPlan) => {
+    const sorted = [...(plan.commission_plan_tiers || [])].sort((a, b) => a.threshold - b.threshold);
+    if (sorted.length === 0) return 'Rule-based rates';
+    return sorted.map(t => `${Number(t.rate)}% from $${Number(t.threshold).toLocaleString()}`).join(' · ');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Layers className="h-5 w-5 text-blue-600" /> Commission Plans
+          </h3>
+          <p className="text-sm text-gray-600">
+            Quota tiers replace the rep's rule-based share; new-customer bonuses and SPIFFs are added on top.
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="h-4 w-4" /> New Plan
+        </button>
+      </div>
+
+      {error && !showEditor && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600"><X className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8"><Loader className="h-6 w-6 animate-spin text-gray-400" /></div>
+      ) : plans.length === 0 ? (
+        <div className="bg-white rounded-lg shadow px-6 py-8 text-center text-sm text-gray-500">
+          No commission plans yet. Reps without an active plan are paid under the commission rules.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {plans.map(plan => (
+            <div key={plan.id} className="bg-white rounded-lg shadow p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{plan.name}</span>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[plan.status]}`}>{plan.status}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {QUOTA_PERIOD_LABELS[plan.quota_period]} quota on {QUOTA_BASIS_LABELS[plan.quota_basis].toLowerCase()} · {describeTiers(plan)}
+                    {plan.new_customer_bonus_type && (
+                      <> · New customer bonus {plan.new_customer_bonus_type === 'flat'
+                        ? `$${Number(plan.new_customer_bonus_amount).toFixed(2)}`
+                        : `${Number(plan.new_customer_bonus_amount)}%`}</>
+                    )}
+                    {(plan.commission_plan_spiffs?.length || 0) > 0 && <> · {plan.commission_plan_spiffs?.length} SPIFF(s)</>}
+                  </p>
+                  {plan.description && <p className="text-sm text-gray-600 mt-1">{plan.description}</p>}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {plan.status !== 'archived' && (
+                    <button onClick={() => openEditor(plan)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Edit plan">
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  )}
+                  {plan.status === 'draft' && (
+                    <button
+                      onClick={() => handleStatus(plan, 'active')}
+                      className="flex items-center gap-1 px-3 py-1.5 text-xs text-green-700 bg-green-50 hover:bg-green-100 rounded-lg"
+                    >
+                      <CheckCircle className="h-3.5 w-3.5" /> Activate
+                    </button>
+                  )}
+                  {plan.status === 'active' && (
+                    <button
+                      onClick={() => setAssignPlanId(plan.id)}
+                      className="flex items-center gap-1 px-3 py-1.5 text-xs text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg"
+                    >
+                      <UserPlus className="h-3.5 w-3.5" /> Assign Rep
+                    </button>
+                  )}
+                  {plan.status !== 'archived' && (
+                    <button onClick={() => handleStatus(plan, 'archived')} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg" title="Archive plan">
+                      <Archive className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {(plan.commission_plan_assignments?.length || 0) > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {plan.commission_plan_assignments?.map(a => (
+                    <span key={a.id} className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full">
+                      {a.profiles?.full_name || a.profiles?.email || a.sales_rep_id}
+                      <span className="text-gray-500">
+                        {a.starts_on} – {a.ends_on || 'open'}
+                      </span>
+                      <button onClick={() => handleRemoveAssignment(a.id)} className="text-gray-400 hover:text-red-600" title="Remove">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {assignPlanId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleAssign} className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Assign Plan</h3>
+              <button type="button" onClick={() => setAssignPlanId(null)} className="p-1 hover:bg-gray-100 rounded-full">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sales rep</label>
+              <select
+                value={assignment.salesRepId}
+                onChange={(e) => setAssignment({ ...assignment, salesRepId: e.target.value })}
+                className={inputCls}
+                required
+              >
+                <option value="">Select a rep</option>
+                {reps.map(rep => (
+                  <option key={rep.id} value={rep.id}>{rep.full_name ? `${rep.full_name} (${rep.email})` : rep.email}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                <input type="date" value={assignment.startsOn} onChange={(e) => setAssignment({ ...assignment, startsOn: e.target.value })} className={inputCls} required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends (optional)</label>
+                <input type="date" value={assignment.endsOn} onChange={(e) => setAssignment({ ...assignment, endsOn: e.target.value })} className={inputCls} />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              If a rep has overlapping assignments, the one that started most recently applies.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setAssignPlanId(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+              <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">Assign</button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {showEditor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 space-y-5">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit Plan' : 'New Commission Plan'}</h3>
+              <button type="button" onClick={() => setShowEditor(false)} className="p-1 hover:bg-gray-100 rounded-full">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputCls} placeholder="e.g. 2026 Q3 Accelerator" required />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input value={form.description || ''} onChange={(e) => setForm({ ...form, description: e.target.value })} className={inputCls} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quota period</label>
+                <select value={form.quota_period} onChange={(e) => setForm({ ...form, quota_period: e.target.value as CommissionPlanInput['quota_period'] })} className={inputCls}>
+                  {Object.entries(QUOTA_PERIOD_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Attainment measured on</label>
+                <select value={form.quota_basis} onChange={(e) => setForm({ ...form, quota_basis: e.target.value as CommissionPlanInput['quota_basis'] })} className={inputCls}>
+                  {Object.entries(QUOTA_BASIS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700">Quota tiers</label>
+                <button
+                  type="button"
+                  onClick={() => setTiers([...tiers, { threshold: (tiers[tiers.length - 1]?.threshold || 0) + 50000, rate: 0 }])}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  + Add tier
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                Each rate applies to the part of the period's attainment above its threshold. Leave no tiers to keep the rule-based rates and only add bonuses or SPIFFs.
+              </p>
+              <div className="space-y-2">
+                {tiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600 w-16">From $</span>
+                    <input type="number" min="0" step="0.01" value={tier.threshold} onChange={(e) => updateTier(index, 'threshold', Number(e.target.value))} className={inputCls} />
+                    <input type="number" min="0" max="100" step="0.01" value={tier.rate} onChange={(e) => updateTier(index, 'rate', Number(e.target.value))} className={`${inputCls} w-28`} />
+                    <span className="text-sm text-gray-600">%</span>
+                    <button type="button" onClick={() => setTiers(tiers.filter((_, i) => i !== index))} className="p-2 text-gray-400 hover:text-red-600">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {tiers.length > 0 && (
+                <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900 flex flex-wrap items-center gap-2">
+                  <span>Example: $</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={exampleSales}
+                    onChange={(e) => setExampleSales(Number(e.target.value))}
+                    className="w-28 px-2 py-1 border border-blue-200 rounded text-sm"
+                  />
+                  <span>in a {form.quota_period} earns <strong>${example.amount.toFixed(2)}</strong></span>
+                  {example.bands.length > 1 && (
+                    <span className="text-xs text-blue-700">
+                      ({example.bands.map(b => `$${b.basis.toLocaleString()} × ${b.rate}%`).join(' + ')})
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="text-sm font-semibold text-gray-700 block mb-2">New-customer bonus</label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={form.new_customer_bonus_type || ''}
+                  onChange={(e) => setForm({ ...form, new_customer_bonus_type: (e.target.value || null) as CommissionPlanInput['new_customer_bonus_type'] })}
+                  className={`${inputCls} w-56`}
+                >
+                  <option value="">None</option>
+                  <option value="flat">Flat amount</option>
+                  <option value="percent">Percent of first order</option>
+                </select>
+                {form.new_customer_bonus_type && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.new_customer_bonus_amount}
+                    onChange={(e) => setForm({ ...form, new_customer_bonus_amount: Number(e.target.value) })}
+                    className={`${inputCls} w-32`}
+                  />
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Paid on an organization's first commissioned order.</p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-semibold text-gray-700">SPIFFs</label>
+                <button
+                  type="button"
+                  onClick={() => setSpiffs([...spiffs, { product_id: 0, amount_type: 'per_unit', amount: 0, starts_on: today(), ends_on: today() }])}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  + Add SPIFF
+                </button>
+              </div>
+              {spiffs.length === 0 ? (
+                <p className="text-xs text-gray-500">No product incentives.</p>
+              ) : (
+                <div className="space-y-2">
+                  {spiffs.map((spiff, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <select value={spiff.product_id || ''} onChange={(e) => updateSpiff(index, { product_id: Number(e.target.value) })} className={`${inputCls} col-span-4`}>
+                        <option value="">Product</option>
+                        {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                      <select value={spiff.amount_type} onChange={(e) => updateSpiff(index, { amount_type: e.target.value as PlanSpiff['amount_type'] })} className={`${inputCls} col-span-2`}>
+                        <option value="per_unit">$ / unit</option>
+                        <option value="percent">% of line</option>
+                      </select>
+                      <input type="number" min="0" step="0.01" value={spiff.amount} onChange={(e) => updateSpiff(index, { amount: Number(e.target.value) })} className={`${inputCls} col-span-2`} />
+                      <input type="date" value={spiff.starts_on} onChange={(e) => updateSpiff(index, { starts_on: e.target.value })} className={`${inputCls} col-span-2`} />
+                      <input type="date" value={spiff.ends_on} onChange={(e) => updateSpiff(index, { ends_on: e.target.value })} className={`${inputCls} col-span-1 px-1`} />
+                      <button type="button" onClick={() => setSpiffs(spiffs.filter((_, i) => i !== index))} className="col-span-1 p-2 text-gray-400 hover:text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <span className="text-xs text-red-600">{validation}</span>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setShowEditor(false)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+                <button type="submit" disabled={saving || !!validation} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                  {saving ? 'Saving...' : 'Save Plan'}
+                </button>
+              </div>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommissionPlans;
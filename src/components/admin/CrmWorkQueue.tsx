@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { ListTodo, RefreshCw, CheckCircle, Circle, Bell } from 'lucide-react';
+import {
+  salesCrmService,
+  taskTiming,
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  type CrmTask,
+  type PipelineStage,
+  type ReorderPrediction,
+} from '@/services/salesCrm';
+
+interface CrmWorkQueueProps {
+  salesRepId: string;
+  organizations: Array<{ id: string; name: string; pipeline_stage: PipelineStage; is_active: boolean }>;
+  predictions: Record<string, ReorderPrediction>;
+  onOpenOrganization: (organizationId: string) => void;
+}
+
+/** Follow-ups due, customers due to reorder and the pipeline at a glance */
+const CrmWorkQueue: React.FC<CrmWorkQueueProps> = ({ salesRepId, organizations, predictions, onOpenOrganization }) => {
+  const [tasks, setTasks] = useState<CrmTask[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await salesCrmService.getTasks({ assignedTo: salesRepId, openOnly: true });
+      setTasks(result.tasks);
+    };
+    load();
+  }, [salesRepId, version]);
+
+  const handleComplete = async (task: CrmTask) => {
+    await salesCrmService.setTaskCompleted(task.id, true);
+    setVersion(v => v + 1);
+  };
+
+  const dueTasks = tasks.filter(t => taskTiming(t) !== 'upcoming');
+  const upcomingCount = tasks.length - dueTasks.length;
+
+  const reorders = organizations
+    .filter(org => org.is_active && predictions[org.id] && predictions[org.id].status !== 'upcoming')
+    .map(org => ({ org, prediction: predictions[org.id] }))
+    .sort((a, b) => a.prediction.daysUntilDue - b.prediction.daysUntilDue);
+
+  const stageCounts = organizations.reduce<Record<string, number>>((counts, org) => {
+    counts[org.pipeline_stage] = (counts[org.pipeline_stage] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 mr-4">Pipeline</h3>
+        {PIPELINE_STAGES.map(stage => (
+          <div key={stage} className="px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+            <span className="text-gray-600">{PIPELINE_STAGE_LABELS[stage]}</span>{' '}
+            <span className="font-semibold text-gray-900">{stageCounts[stage] || 0}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-2">
+            <ListTodo className="h-4 w-4 text-blue-600" /> Follow-ups Due
+          </h4>
+          {dueTasks.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing due today.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {dueTasks.map(task => (
+                <li key={task.id} className="py-2 flex items-start gap-2">
+                  <button onClick={() => handleComplete(task)} className="mt-0.5 text-gray-400 hover:text-green-600" title="Mark done">
+                    <Circle className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => onOpenOrganization(task.organization_id)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm text-gray-900 truncate">{task.title}</p>
+                    <p className={`text-xs flex items-center gap-1 ${taskTiming(task) === 'overdue' ? 'text-red-600' : 'text-orange-600'}`}>
+                      {task.organizations?.name} · due {new Date(task.due_at).toLocaleString()}
+                      {task.remind_at && <Bell className="h-3 w-3" />}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {upcomingCount > 0 && (
+            <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+              <CheckCircle className="h-3 w-3" /> {upcomingCount} more scheduled later
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-2">
+            <RefreshCw className="h-4 w-4 text-orange-600" /> Reorders Due
+          </h4>
+          {reorders.length === 0 ? (
+            <p className="text-sm text-gray-500">No customers are due to reorder this week.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {reorders.map(({ org, prediction }) => (
+                <li key={org.id} className="py-2">
+                  <button onClick={() => onOpenOrganization(org.id)} className="w-full text-left flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-900 truncate">{org.name}</span>
+                    <span className={`text-xs whitespace-nowrap ${prediction.status === 'overdue' ? 'text-red-600' : 'text-orange-600'}`}>
+                      {prediction.daysUntilDue < 0
+                        ? `${-prediction.daysUntilDue} days overdue`
+                        : prediction.daysUntilDue === 0 ? 'due today' : `due in ${prediction.daysUntilDue} days`}
+                      {' · '}every ~{prediction.cadenceDays} days
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrmWorkQueue;
@@ -0,0 +1,496 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, Tag, Save, X, Loader, Power } from 'lucide-react';
+import {
+  discountCodeService,
+  formatDiscountValue,
+  getDiscountCodeError,
+  DiscountCode,
+  DiscountType,
+} from '@/services/discountCodes';
+import { productService, Brand, Category } from '@/services/productService';
+import { multiTenantService } from '@/services/multiTenant';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface FormState {
+  id?: string;
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  amount: string;
+  min_subtotal: string;
+  product_ids: string[];
+  category_ids: string[];
+  brand_ids: string[];
+  organization_ids: string[];
+  max_uses: string;
+  max_uses_per_customer: string;
+  starts_at: string;
+  expires_at: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: FormState = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  amount: '',
+  min_subtotal: '',
+  product_ids: [],
+  category_ids: [],
+  brand_ids: [],
+  organization_ids: [],
+  max_uses: '',
+  max_uses_per_customer: '',
+  starts_at: '',
+  expires_at: '',
+  is_active: true,
+};
+
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : '');
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const RestrictionPicker: React.FC<{
+  label: string;
+  options: Option[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}> = ({ label, options, selected, onChange }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {label} <span className="text-gray-400 font-normal">({selected.length ? `${selected.length} selected` : 'any'})</span>
+    </label>
+    <div className="border border-gray-300 rounded-lg max-h-32 overflow-y-auto divide-y divide-gray-100 bg-white">
+      {options.length === 0 ? (
+        <p className="px-3 py-2 text-sm text-gray-400">None available</p>
+      ) : (
+        options.map((opt) => (
+          <label key={opt.id} className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-gray-50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(opt.id)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...selected, opt.id] : selected.filter((id) => id !== opt.id))
+              }
+              className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            <span className="truncate">{opt.name}</span>
+          </label>
+        ))
+      )}
+    </div>
+  </div>
+);
+
+const DiscountCodeManagement: React.FC = () => {
+  const [codes, setCodes] = useState<DiscountCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [products, setProducts] = useState<Option[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [brands, setBrands] = useState<Option[]>([]);
+  const [organizations, setOrganizations] = useState<Option[]>([]);
+
+  useEffect(() => {
+    loadCodes();
+    loadOptions();
+  }, []);
+
+  const loadCodes = async () => {
+    setLoading(true);
+    setCodes(await discountCodeService.getAllCodes());
+    setLoading(false);
+  };
+
+  const loadOptions = async () => {
+    try {
+      const [productList, categoryList, brandList, orgList] = await Promise.all([
+        productService.getAllProducts(),
+        productService.getAllCategories(),
+        productService.getAllBrands(),
+        multiTenantService.getOrganizations(),
+      ]);
+      setProducts(productList.map((p) => ({ id: String(p.id), name: p.name })));
+      setCategories(categoryList.map((c: Category) => ({ id: c.id, name: c.name })));
+      setBrands(brandList.map((b: Brand) => ({ id: b.id, name: b.name })));
+      setOrganizations((orgList || []).map((o: { id: string; name: string }) => ({ id: o.id, name: o.name })));
+    } catch (err) {
+      console.error('Error loading discount code options:', err);
+    }
+  };
+
+  const startEdit = (code: DiscountCode) => {
+    setError(null);
+    setForm({
+      id: code.id,
+      code: code.code,
+      description: code.description || '',
+      discount_type: code.discount_type,
+      amount: code.discount_type === 'free_shipping' ? '' : String(code.amount),
+      min_subtotal: code.min_subtotal != null ? String(code.min_subtotal) : '',
+      product_ids: code.product_ids.map(String),
+      category_ids: code.category_ids,
+      brand_ids: code.brand_ids,
+      organization_ids: code.organization_ids,
+      max_uses: code.max_uses != null ? String(code.max_uses) : '',
+      max_uses_per_customer: code.max_uses_per_customer != null ? String(code.max_uses_per_customer) : '',
+      starts_at: toDateInput(code.starts_at),
+      expires_at: toDateInput(code.expires_at),
+      is_active: code.is_active,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.code.trim()) {
+      setError('Code is required');
+      return;
+    }
+    const amount = form.discount_type === 'free_shipping' ? 0 : Number(form.amount);
+    if (form.discount_type !== 'free_shipping' && (!amount || amount <= 0)) {
+      setError('Enter a discount amount greater than zero');
+      return;
+    }
+    if (form.discount_type === 'percent' && amount > 100) {
+      setError('A percent discount cannot exceed 100%');
+      return;
+    }
+    if (form.starts_at && form.expires_at && form.expires_at <= form.starts_at) {
+      setError('End date must be after the start date');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await discountCodeService.saveCode({
+      id: form.id,
+      code: form.code,
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      amount,
+      min_subtotal: toNumberOrNull(form.min_subtotal),
+      product_ids: form.product_ids.map(Number),
+      category_ids: form.category_ids,
+      brand_ids: form.brand_ids,
+      organization_ids: form.organization_ids,
+      max_uses: toNumberOrNull(form.max_uses),
+      max_uses_per_customer: toNumberOrNull(form.max_uses_per_customer),
+      starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+      expires_at: form.expires_at ? new Date(`${form.expires_at}T23:59:59`).toISOString() : null,
+      is_active: form.is_active,
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save discount code');
+      return;
+    }
+    setForm(null);
+    await loadCodes();
+  };
+
+  const handleToggleActive = async (code: DiscountCode) => {
+    const result = await discountCodeService.setActive(code.id, !code.is_active);
+    if (!result.success) {
+      alert(result.error || 'Failed to update discount code');
+      return;
+    }
+    await loadCodes();
+  };
+
+  const describeLimits = (code: DiscountCode): string => {
+    const parts: string[] = [];
+    if (code.product_ids.length) parts.push(`${code.product_ids.length} product(s)`);
+    if (code.category_ids.length) parts.push(`${code.category_ids.length} category(s)`);
+    if (code.brand_ids.length) parts.push(`${code.brand_ids.length} brand(s)`);
+    if (code.organization_ids.length) parts.push(`${code.organization_ids.length} customer(s)`);
+    if (code.min_subtotal) parts.push(`min $${Number(code.min_subtotal).toFixed(2)}`);
+    return parts.length ? parts.join(', ') : 'All products and customers';
+  };
+
+  const statusBadge = (code: DiscountCode) => {
+    // Subtotal/customer checks don't apply to the admin list
+    const problem = getDiscountCodeError(
+      { ...code, organization_ids: [], min_subtotal: null, max_uses_per_customer: null },
+      0
+    );
+    if (!problem) {
+      return <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">Active</span>;
+    }
+    const label = !code.is_active
+      ? 'Disabled'
+      : problem.includes('not active yet')
+        ? 'Scheduled'
+        : problem.includes('expired')
+          ? 'Expired'
+          : 'Used up';
+    const color = label === 'Scheduled' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700';
+    return <span className={`px-2 py-1 text-xs font-medium rounded-full ${color}`}>{label}</span>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Discount Codes</h2>
+          <p className="text-gray-600 mt-1">{codes.length} {codes.length === 1 ? 'code' : 'codes'}</p>
+        </div>
+        <button
+          onClick={() => { setError(null); setForm({ ...EMPTY_FORM }); }}
+          className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add Code</span>
+        </button>
+      </div>
+
+      {form && (
+        <div className="bg-teal-50 border border-teal-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">{form.id ? `Edit ${form.code}` : 'New Discount Code'}</h3>
+            <button onClick={() => setForm(null)} className="p-2 hover:bg-teal-100 rounded-lg">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 font-mono focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="SPRING15"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.discount_type}
+                onChange={(e) => setForm({ ...form, discount_type: e.target.value as DiscountType })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                <option value="percent">Percent off</option>
+                <option value="fixed_amount">Fixed amount off</option>
+                <option value="free_shipping">Free shipping</option>
+              </select>
+            </div>
+            {form.discount_type !== 'free_shipping' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {form.discount_type === 'percent' ? 'Percent' : 'Amount ($)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step={form.discount_type === 'percent' ? '1' : '0.01'}
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Subtotal ($)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.min_subtotal}
+                onChange={(e) => setForm({ ...form, min_subtotal: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="None"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder="Internal note, e.g. Spring trade show promotion"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                type="date"
+                value={form.starts_at}
+                onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+              <input
+                type="date"
+                value={form.expires_at}
+                onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Total Uses</label>
+              <input
+                type="number"
+                min="1"
+                value={form.max_uses}
+                onChange={(e) => setForm({ ...form, max_uses: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Uses per Customer</label>
+              <input
+                type="number"
+                min="1"
+                value={form.max_uses_per_customer}
+                onChange={(e) => setForm({ ...form, max_uses_per_customer: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <RestrictionPicker
+              label="Products"
+              options={products}
+              selected={form.product_ids}
+              onChange={(ids) => setForm({ ...form, product_ids: ids })}
+            />
+            <RestrictionPicker
+              label="Categories"
+              options={categories}
+              selected={form.category_ids}
+              onChange={(ids) => setForm({ ...form, category_ids: ids })}
+            />
+            <RestrictionPicker
+              label="Brands"
+              options={brands}
+              selected={form.brand_ids}
+              onChange={(ids) => setForm({ ...form, brand_ids: ids })}
+            />
+            <RestrictionPicker
+              label="Customers"
+              options={organizations}
+              selected={form.organization_ids}
+              onChange={(ids) => setForm({ ...form, organization_ids: ids })}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Items matching any selected product, category or brand are discounted. Leave a list empty to allow all.
+          </p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_active}
+                onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+              />
+              Active
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center space-x-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {codes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Tag className="h-12 w-12 mx-auto mb-3 text-gray-300" />
+            <p className="font-medium">No discount codes yet</p>
+            <p className="text-sm mt-1">Create a code to run a promotion</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 border-b border-gray-200">
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Limited To</th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="text-right px-6 py-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {codes.map((code) => (
+                <tr key={code.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-mono font-semibold text-gray-900">{code.code}</div>
+                    {code.description && <div className="text-xs text-gray-500">{code.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{formatDiscountValue(code)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{describeLimits(code)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {code.starts_at || code.expires_at
+                      ? `${code.starts_at ? new Date(code.starts_at).toLocaleDateString() : 'Now'} – ${code.expires_at ? new Date(code.expires_at).toLocaleDateString() : 'No end'}`
+                      : 'Always'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {code.times_used}{code.max_uses != null && ` / ${code.max_uses}`}
+                  </td>
+                  <td className="px-6 py-4">{statusBadge(code)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-1">
+                      <button
+                        onClick={() => startEdit(code)}
+                        className="p-1.5 text-gray-500 hover:text-teal-600 hover:bg-teal-50 rounded"
+                        title="Edit"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(code)}
+                        className={`p-1.5 rounded ${code.is_active ? 'text-green-600 hover:bg-red-50 hover:text-red-600' : 'text-gray-400 hover:bg-green-50 hover:text-green-600'}`}
+                        title={code.is_active ? 'Disable' : 'Enable'}
+                      >
+                        <Power className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiscountCodeManagement;
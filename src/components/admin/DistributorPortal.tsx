@@ -8,6 +8,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import AddressManagement from './AddressManagement';
 import PricingManagement from './PricingManagement';
 import CustomerUserManagement from './CustomerUserManagement';
+import PayoutStatements from './PayoutStatements';
+import CommissionDisputes from './CommissionDisputes';
 
 // ── Interfaces ───────────────────────────────────────────────────────────────
 
@@ -791,6 +793,18 @@ const DistributorPortal: React.FC<DistributorPortalProps> = ({ view }) => {
             </div>
           </div>
 
+          {activeUserId && (
+            <div className="mb-6">
+              <PayoutStatements payeeId={activeUserId} />
+            </div>
+          )}
+
+          {activeUserId && (
+            <div className="mb-6">
+              <CommissionDisputes payeeId={activeUserId} />
+            </div>
+          )}
+
           {/* Customers Table */}
           {filteredCustomers.length === 0 && customers.length === 0 ? (
             <div className="text-center py-12 text-gray-400 bg-white rounded-lg border border-gray-200">
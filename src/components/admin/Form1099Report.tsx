@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Receipt, Download, Printer, Loader, AlertTriangle, CheckCircle, X } from 'lucide-react';
+import {
+  form1099Service,
+  assess1099,
+  build1099File,
+  render1099CopyB,
+  maskTin,
+  necThresholdCents,
+  type Form1099Assessment,
+  type Form1099Status,
+} from '@/services/form1099';
+import { downloadTextFile, openHtmlDocument } from '@/utils/download';
+
+const STATUS_META: Record<Form1099Status, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  needs_w9: { label: 'Needs W-9', className: 'bg-red-100 text-red-800' },
+  below_threshold: { label: 'Below threshold', className: 'bg-gray-100 text-gray-600' },
+  exempt: { label: 'Exempt (corporation)', className: 'bg-gray-100 text-gray-600' },
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  sales_rep: 'Sales Rep',
+  distributor: 'Distributor',
+  company_rep: 'Company Rep',
+};
+
+type Filter = 'reportable' | 'needs_w9' | 'all';
+
+const money = (cents: number) => `$${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const Form1099Report: React.FC = () => {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear - 1);
+  const [assessments, setAssessments] = useState<Form1099Assessment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>('reportable');
+  const [testFile, setTestFile] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const { recipients, error: fetchError } = await form1099Service.getSummary(year);
+      setAssessments(recipients.map(r => assess1099(r, year)));
+      if (fetchError) setError(fetchError);
+      setLoading(false);
+    };
+    load();
+  }, [year]);
+
+  const ready = useMemo(() => assessments.filter(a => a.status === 'ready'), [assessments]);
+  const needsW9 = useMemo(() => assessments.filter(a => a.status === 'needs_w9'), [assessments]);
+
+  const visible = assessments.filter(a => {
+    if (filter === 'reportable') return a.status === 'ready' || a.status === 'needs_w9';
+    if (filter === 'needs_w9') return a.status === 'needs_w9';
+    return true;
+  });
+
+  const printCopyB = async (forms: Form1099Assessment[]) => {
+    const { payer } = await form1099Service.getFiler();
+    if (!openHtmlDocument(render1099CopyB(year, payer, forms))) {
+      setError('Allow pop-ups to print Copy B statements');
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const filer = await form1099Service.getFiler();
+      downloadTextFile(build1099File(year, filer, assessments, { test: testFile }), `1099NEC_${year}${testFile ? '_TEST' : ''}.txt`);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? `${err.message}. Check the payer details under Settings > Tax Reporting.`
+          : 'Failed to build the IRS file'
+      );
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">1099-NEC Report</h2>
+          <p className="text-gray-600 mt-1">
+            Commissions paid to distributors and sales reps during the year, net of clawbacks.
+            Forms are required at {money(necThresholdCents(year))} or more.
+          </p>
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        >
+          {[0, 1, 2, 3, 4].map(offset => (
+            <option key={offset} value={currentYear - offset}>{currentYear - offset}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center justify-between">
+          <span className="flex items-center"><AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Payees Paid</p>
+          <p className="text-2xl font-bold text-gray-900">{assessments.length}</p>
+        </div>
+        <div className="bg-green-50 rounded-lg shadow p-4 border border-green-200">
+          <p className="text-sm text-green-700">Ready to File</p>
+          <p className="text-2xl font-bold text-green-900">{ready.length}</p>
+          <p className="text-xs text-green-700">{money(ready.reduce((sum, a) => sum + a.netCents, 0))}</p>
+        </div>
+        <div className="bg-red-50 rounded-lg shadow p-4 border border-red-200">
+          <p className="text-sm text-red-700">Over Threshold, W-9 Missing</p>
+          <p className="text-2xl font-bold text-red-900">{needsW9.length}</p>
+          <p className="text-xs text-red-700">{money(needsW9.reduce((sum, a) => sum + a.netCents, 0))}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Total Paid</p>
+          <p className="text-2xl font-bold text-gray-900">{money(assessments.reduce((sum, a) => sum + a.netCents, 0))}</p>
+        </div>
+      </div>
+
+      {needsW9.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {needsW9.length} payee(s) are over the reporting threshold without a verified W-9. Collect and verify their
+          W-9 under Distributors before filing; they are left out of the IRS file and Copy B until then.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+          {([['reportable', 'Reportable'], ['needs_w9', 'Needs W-9'], ['all', 'All Payees']] as [Filter, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setFilter(id)}
+              className={`px-3 py-1.5 text-sm rounded-md ${filter === id ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => printCopyB(ready)}
+            disabled={ready.length === 0}
+            className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Printer className="h-4 w-4" /> Copy B ({ready.length})
+          </button>
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input type="checkbox" checked={testFile} onChange={(e) => setTestFile(e.target.checked)} className="rounded" />
+            Test file
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={ready.length === 0}
+            className="flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" /> IRS FIRE File
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex justify-center py-12"><Loader className="h-6 w-6 animate-spin text-gray-400" /></div>
+        ) : visible.length === 0 ? (
+          <div className="px-6 py-12 text-center">
+            <Receipt className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-500">No payees to show for {year}</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">W-9</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commissions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Clawbacks</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Box 1</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(assessment => {
+                const { recipient } = assessment;
+                const meta = STATUS_META[assessment.status];
+                return (
+                  <tr key={recipient.payee_id}>
+                    <td className="px-6 py-3">
+                      <div className="font-medium text-gray-900">{recipient.legal_name || recipient.payee_name}</div>
+                      <div className="text-xs text-gray-500">
+                        {recipient.payee_roles.map(role => ROLE_LABELS[role] || role).join(', ')} · {recipient.payee_email}
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">
+                      <div className="capitalize">{recipient.w9_status || 'None'}</div>
+                      <div className="text-xs text-gray-500">{maskTin(recipient.tax_id)}</div>
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      ${Number(recipient.commission_total).toFixed(2)}
+                      <div className="text-xs text-gray-500">{recipient.commission_count} orders</div>
+                    </td>
+                    <td className={`px-6 py-3 text-right ${Number(recipient.adjustment_total) < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                      ${Number(recipient.adjustment_total).toFixed(2)}
+                    </td>
+                    <td className="px-6 py-3 text-right font-semibold text-gray-900">{money(assessment.netCents)}</td>
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-0.5 inline-flex items-center gap-1 text-xs font-semibold rounded-full ${meta.className}`}>
+                        {assessment.status === 'ready' && <CheckCircle className="h-3 w-3" />}
+                        {meta.label}
+                      </span>
+                      {assessment.issues.length > 0 && (
+                        <div className="text-xs text-red-600 mt-1">{assessment.issues.join(' · ')}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      {assessment.status === 'ready' && (
+                        <button
+                          onClick={() => printCopyB([assessment])}
+                          className="p-2 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                          title="Print Copy B"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Form1099Report;
@@ -100,7 +100,7 @@ const HelpSection: React.FC<HelpSectionProps> = () => {
         {
           question: userRole === 'customer' ? 'How do I track my orders?' : 'How do I view orders?',
           answer: userRole === 'customer'
-            ? 'Click on the Orders tab to view your complete order history. You can see order status, tracking information, and order details.'
+            ? 'Open My Orders and click an order to see its timeline, each shipment with a link to the carrier\'s tracking page, and the items. Orders that ship in several parts (for example when items are backordered) are shown together as one order. Use Invoice to print or save the invoice as a PDF, or the download button to keep a copy.'
             : userRole === 'sales_rep'
             ? 'The Orders tab shows all orders from customers you manage. You can filter, search, and view detailed order information including commission details.'
             : 'The Orders tab displays all orders across the platform. You can filter by customer, date range, status, and more.'
@@ -125,8 +125,20 @@ const HelpSection: React.FC<HelpSectionProps> = () => {
         {
           question: userRole === 'customer' ? 'How do I reorder items?' : 'What is the quickest way to reorder?',
           answer: userRole === 'customer'
-            ? 'Use the Favorites feature to save products you order frequently. You can quickly add favorite items to your cart with one click.'
+            ? 'Open a past order in My Orders and click Reorder. Your cart is rebuilt with the same items at today\'s prices; products that are no longer available are left out and listed, and any price changes are shown before you replace your cart.'
             : 'Use the Recurring Orders feature for items that need to be ordered on a regular schedule. This automates the ordering process.'
+        },
+        {
+          question: userRole === 'customer' ? 'How do I return items?' : 'How are returns handled?',
+          answer: userRole === 'customer'
+            ? 'Open a shipped order in My Orders and click Request a return. Choose how many of each item you are sending back and why. Once we approve it you will get an RMA number, and a return label if we provide one; write the RMA number on the package. We refund the items we receive, plus their tax, to your original payment method.'
+            : 'Customers request returns from their order history. Admins approve or reject them under Operations > Returns, record what was received, and the refund and any commission clawback follow automatically.'
+        },
+        {
+          question: userRole === 'customer' ? 'How do I accept a quote from my sales rep?' : 'How do I send a customer a quote?',
+          answer: userRole === 'customer'
+            ? 'Quotes your sales rep sends you appear under Quotes and arrive by email. Click Accept & check out to order everything on the quote at the quoted prices; you only choose the delivery address, shipping and payment. Quotes can be accepted until their expiry date, and you can decline one with a note to your rep.'
+            : 'Open Operations > Quotes and click New Quote. Choose the customer and contact, add products and set each price; prices below the allowed floor (minimum margin over cost or maximum discount off list) are flagged and cannot be saved by sales reps. Save & send emails the quote, and when the customer accepts it the order is placed at the quoted prices and credited to the quote\'s sales rep.'
         }
       ]
     },
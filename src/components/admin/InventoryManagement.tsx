@@ -0,0 +1,464 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Boxes, Save, X, Loader, AlertTriangle, History, Search, Warehouse as WarehouseIcon } from 'lucide-react';
+import {
+  inventoryService,
+  availableQuantity,
+  isLowStock,
+  ADJUSTMENT_REASON_LABELS,
+  InventoryAdjustment,
+  InventoryLevel,
+  ManualAdjustmentReason,
+  Warehouse,
+} from '@/services/inventory';
+import { productService } from '@/services/productService';
+
+interface ProductOption {
+  id: number;
+  name: string;
+}
+
+interface AdjustmentForm {
+  productId: string;
+  warehouseId: string;
+  quantityChange: string;
+  reason: ManualAdjustmentReason;
+  note: string;
+}
+
+const MANUAL_REASONS: ManualAdjustmentReason[] = ['received', 'count_correction', 'damaged', 'lost', 'returned', 'other'];
+
+const InventoryManagement: React.FC = () => {
+  const [levels, setLevels] = useState<InventoryLevel[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [adjustments, setAdjustments] = useState<InventoryAdjustment[]>([]);
+  const [historyProductId, setHistoryProductId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [form, setForm] = useState<AdjustmentForm | null>(null);
+  const [warehouseForm, setWarehouseForm] = useState<{ name: string; code: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    loadAdjustments(historyProductId);
+  }, [historyProductId]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [levelList, warehouseList, productList] = await Promise.all([
+        inventoryService.getLevels(),
+        inventoryService.getWarehouses(),
+        productService.getAllProducts(),
+      ]);
+      setLevels(levelList);
+      setWarehouses(warehouseList);
+      setProducts(productList.map((p) => ({ id: p.id, name: p.name })));
+    } catch (err) {
+      console.error('Error loading inventory:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadAdjustments = async (productId: number | null) => {
+    setAdjustments(await inventoryService.getAdjustments(productId ?? undefined));
+  };
+
+  const warehouseNames = useMemo(() => new Map(warehouses.map((w) => [w.id, w.name])), [warehouses]);
+  const productNames = useMemo(() => new Map(products.map((p) => [p.id, p.name])), [products]);
+
+  const lowStockCount = levels.filter(isLowStock).length;
+
+  const visibleLevels = levels.filter((level) => {
+    if (lowStockOnly && !isLowStock(level)) return false;
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    return (level.product_name || '').toLowerCase().includes(term)
+      || (level.product_sku || '').toLowerCase().includes(term);
+  });
+
+  const openAdjustment = (level?: InventoryLevel) => {
+    setError(null);
+    setForm({
+      productId: level ? String(level.product_id) : '',
+      warehouseId: level?.warehouse_id || warehouses.find((w) => w.is_default)?.id || '',
+      quantityChange: '',
+      reason: 'received',
+      note: '',
+    });
+  };
+
+  const handleAdjust = async () => {
+    if (!form) return;
+    const quantityChange = Number(form.quantityChange);
+    if (!form.productId) {
+      setError('Choose a product');
+      return;
+    }
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      setError('Enter a whole number of units; use a negative number to remove stock');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const result = await inventoryService.adjustStock({
+      productId: Number(form.productId),
+      warehouseId: form.warehouseId || undefined,
+      quantityChange,
+      reason: form.reason,
+      note: form.note,
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to adjust stock');
+      return;
+    }
+    setForm(null);
+    await Promise.all([loadData(), loadAdjustments(historyProductId)]);
+  };
+
+  const handleThresholdChange = async (level: InventoryLevel, value: string) => {
+    const threshold = value.trim() === '' ? 0 : Number(value);
+    if (!Number.isFinite(threshold) || threshold === level.low_stock_threshold) return;
+
+    const result = await inventoryService.setLowStockThreshold(level.id, threshold);
+    if (!result.success) {
+      alert(result.error || 'Failed to update threshold');
+      return;
+    }
+    setLevels((prev) => prev.map((l) => (l.id === level.id ? { ...l, low_stock_threshold: Math.max(0, Math.floor(threshold)) } : l)));
+  };
+
+  const handleSaveWarehouse = async () => {
+    if (!warehouseForm) return;
+    if (!warehouseForm.name.trim() || !warehouseForm.code.trim()) {
+      alert('Warehouse name and code are required');
+      return;
+    }
+    const result = await inventoryService.saveWarehouse({ ...warehouseForm, is_active: true });
+    if (!result.success) {
+      alert(result.error || 'Failed to save warehouse');
+      return;
+    }
+    setWarehouseForm(null);
+    setWarehouses(await inventoryService.getWarehouses());
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Inventory</h2>
+          <p className="text-gray-600 mt-1">
+            {new Set(levels.map((l) => l.product_id)).size} tracked products
+            {lowStockCount > 0 && <span className="text-orange-600"> · {lowStockCount} low on stock</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setWarehouseForm({ name: '', code: '' })}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            <WarehouseIcon className="h-4 w-4" />
+            <span>Add Warehouse</span>
+          </button>
+          <button
+            onClick={() => openAdjustment()}
+            className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Adjust Stock</span>
+          </button>
+        </div>
+      </div>
+
+      {warehouseForm && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Warehouse Name</label>
+            <input
+              type="text"
+              value={warehouseForm.name}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, name: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder="East Coast DC"
+              autoFocus
+            />
+          </div>
+          <div className="w-40">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+            <input
+              type="text"
+              value={warehouseForm.code}
+              onChange={(e) => setWarehouseForm({ ...warehouseForm, code: e.target.value.toUpperCase() })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 font-mono focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              placeholder="EAST"
+            />
+          </div>
+          <button
+            onClick={handleSaveWarehouse}
+            className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 text-sm font-medium"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save</span>
+          </button>
+          <button onClick={() => setWarehouseForm(null)} className="p-2 hover:bg-gray-200 rounded-lg">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {form && (
+        <div className="bg-teal-50 border border-teal-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">Stock Adjustment</h3>
+            <button onClick={() => setForm(null)} className="p-2 hover:bg-teal-100 rounded-lg">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+              <select
+                value={form.productId}
+                onChange={(e) => setForm({ ...form, productId: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                <option value="">Select a product…</option>
+                {products.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Warehouse</label>
+              <select
+                value={form.warehouseId}
+                onChange={(e) => setForm({ ...form, warehouseId: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                {warehouses.filter((w) => w.is_active).map((w) => (
+                  <option key={w.id} value={w.id}>{w.name}{w.is_default ? ' (default)' : ''}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Units (+/−)</label>
+              <input
+                type="number"
+                step="1"
+                value={form.quantityChange}
+                onChange={(e) => setForm({ ...form, quantityChange: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="e.g. 24 or -2"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value as ManualAdjustmentReason })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+              >
+                {MANUAL_REASONS.map((reason) => (
+                  <option key={reason} value={reason}>{ADJUSTMENT_REASON_LABELS[reason]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input
+                type="text"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                placeholder="PO number, count sheet, damage details…"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleAdjust}
+              disabled={saving}
+              className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 transition-colors text-sm font-medium"
+            >
+              {saving ? <Loader className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              <span>Record Adjustment</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1 max-w-md">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            placeholder="Search by product or SKU"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={lowStockOnly}
+            onChange={(e) => setLowStockOnly(e.target.checked)}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          Low stock only
+        </label>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {visibleLevels.length === 0 ? (
+          <div className="p-12 text-center">
+            <Boxes className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">
+              {levels.length === 0
+                ? 'No products are tracked yet. Record a stock adjustment to start tracking a product.'
+                : 'No stock levels match.'}
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                {warehouses.length > 1 && (
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Warehouse</th>
+                )}
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Reserved</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Available</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Alert At</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleLevels.map((level) => (
+                <tr key={level.id} className={isLowStock(level) ? 'bg-orange-50' : ''}>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900 flex items-center gap-1">
+                      {isLowStock(level) && <AlertTriangle className="h-4 w-4 text-orange-500" />}
+                      {level.product_name || `Product #${level.product_id}`}
+                    </div>
+                    {level.product_sku && <div className="text-xs text-gray-500 font-mono">{level.product_sku}</div>}
+                  </td>
+                  {warehouses.length > 1 && (
+                    <td className="px-4 py-3 text-sm text-gray-700">{warehouseNames.get(level.warehouse_id) || '—'}</td>
+                  )}
+                  <td className="px-4 py-3 text-sm text-right text-gray-900">{level.on_hand}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">{level.reserved}</td>
+                  <td className="px-4 py-3 text-sm text-right font-semibold text-gray-900">{availableQuantity(level)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      defaultValue={level.low_stock_threshold || ''}
+                      onBlur={(e) => handleThresholdChange(level, e.target.value)}
+                      className="w-20 border border-gray-300 rounded px-2 py-1 text-sm text-right focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      placeholder="Off"
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openAdjustment(level)}
+                      className="text-sm text-teal-700 hover:text-teal-900 font-medium mr-3"
+                    >
+                      Adjust
+                    </button>
+                    <button
+                      onClick={() => setHistoryProductId(level.product_id)}
+                      className="text-sm text-gray-600 hover:text-gray-900"
+                      title="Show adjustment history"
+                    >
+                      <History className="h-4 w-4 inline" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">
+            Adjustment Ledger
+            {historyProductId && (
+              <span className="font-normal text-gray-500"> — {productNames.get(historyProductId) || `Product #${historyProductId}`}</span>
+            )}
+          </h3>
+          {historyProductId && (
+            <button onClick={() => setHistoryProductId(null)} className="text-sm text-teal-700 hover:text-teal-900">
+              Show all products
+            </button>
+          )}
+        </div>
+        {adjustments.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">No stock movements recorded yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reserved</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {adjustments.map((adj) => (
+                <tr key={adj.id}>
+                  <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">{new Date(adj.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{productNames.get(adj.product_id) || `Product #${adj.product_id}`}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{ADJUSTMENT_REASON_LABELS[adj.reason] || adj.reason}</td>
+                  <td className={`px-4 py-2 text-sm text-right ${adj.quantity_change < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {adj.quantity_change ? (adj.quantity_change > 0 ? `+${adj.quantity_change}` : adj.quantity_change) : ''}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-600">
+                    {adj.reserved_change ? (adj.reserved_change > 0 ? `+${adj.reserved_change}` : adj.reserved_change) : ''}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">
+                    {adj.note || (adj.order_id ? `Order ${adj.order_id.slice(0, 8).toUpperCase()}` : '')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InventoryManagement;
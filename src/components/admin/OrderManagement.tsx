@@ -1,17 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { orderService } from '../../services/orderService';
-import { Package, Search, Eye, X, Loader, Calendar, Mail, MapPin, CreditCard, Truck, Plus, Building2, ChevronDown, ChevronUp, Split, AlertTriangle, DollarSign, FileText, Activity, Trash2, UserCheck, RefreshCw, Pencil, Save, XCircle, Check } from 'lucide-react';
+import { orderService, refundedTotal } from '../../services/orderService';
+import { Package, Search, Eye, X, Loader, Calendar, Mail, MapPin, CreditCard, Truck, Plus, Building2, ChevronDown, ChevronUp, Split, AlertTriangle, DollarSign, FileText, Activity, Trash2, UserCheck, RefreshCw, Pencil, Save, XCircle, Check, Link2 } from 'lucide-react';
 import { customerAddressService, type CustomerAddress } from '../../services/customerAddresses';
 import type { Order, OrderItem, Shipment } from './orders/types';
 import { normalizeAddress } from './orders/types';
 import { activityLogService } from '../../services/activityLog';
 import { softDeleteService } from '../../services/softDeleteService';
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from '../../services/paymentTerms';
+import type { CommissionAdjustment } from '../../services/commissionAdjustments';
 import ConfirmDeleteModal from './ConfirmDeleteModal';
 import RefundModal from './orders/RefundModal';
+import { routeUrl } from '../../services/router';
 
-const OrderManagement: React.FC = () => {
+interface OrderManagementProps {
+  /** Order to open, e.g. from a shared /account/orders/:id link */
+  orderId?: string;
+  /** Called when an order is opened or closed so the URL can follow */
+  onOrderChange?: (orderId: string | null) => void;
+}
+
+const OrderManagement: React.FC<OrderManagementProps> = ({ orderId, onOrderChange }) => {
   const { user, profile, effectiveProfile, effectiveUserId } = useAuth();
   const isAdmin = profile?.role === 'admin';
   const [orders, setOrders] = useState<Order[]>([]);
@@ -59,6 +69,7 @@ const OrderManagement: React.FC = () => {
   const [savedAddresses, setSavedAddresses] = useState<CustomerAddress[]>([]);
   const [loadingSavedAddresses, setLoadingSavedAddresses] = useState(false);
   const [showAddressPicker, setShowAddressPicker] = useState(true);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const [newShipment, setNewShipment] = useState<Shipment>({
     carrier: '',
@@ -74,6 +85,30 @@ const OrderManagement: React.FC = () => {
     checkManagementPermissions();
   }, [user, profile, effectiveProfile, effectiveUserId]);
 
+  // Open the linked order once the list has loaded, and close it when the link goes away
+  const linkedOrderRef = useRef<string | undefined>();
+  useEffect(() => {
+    if (!orderId) {
+      if (linkedOrderRef.current) setSelectedOrder(null);
+      linkedOrderRef.current = undefined;
+      return;
+    }
+    if (linkedOrderRef.current === orderId) return;
+    const order = orders.find(o => o.id === orderId);
+    if (order) {
+      linkedOrderRef.current = orderId;
+      setSelectedOrder(order);
+    }
+  }, [orderId, orders]);
+
+  const reportedOrderRef = useRef<string | null>(null);
+  useEffect(() => {
+    const id = selectedOrder?.id ?? null;
+    if (id === reportedOrderRef.current) return;
+    reportedOrderRef.current = id;
+    onOrderChange?.(id);
+  }, [selectedOrder?.id, onOrderChange]);
+
   useEffect(() => {
     if (selectedOrder) {
       loadSubOrders(selectedOrder.id);
@@ -251,7 +286,7 @@ const OrderManagement: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('commissions')
-        .select('*, profiles:sales_rep_id(full_name, email)')
+        .select('*, profiles:sales_rep_id(full_name, email), commission_adjustments(amount, status, payee_role, source)')
         .eq('order_id', orderId)
         .maybeSingle();
 
@@ -498,8 +533,11 @@ const OrderManagement: React.FC = () => {
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
     try {
       const order = orders.find(o => o.id === orderId);
+      // Invoice orders are paid later against the QuickBooks invoice, so
+      // there is no authorization to capture when they ship or complete.
+      const paysByInvoice = order?.payment_method === 'invoice';
 
-      if (newStatus === 'completed') {
+      if (newStatus === 'completed' && !paysByInvoice) {
         if (!order?.payment_status || order.payment_status === 'pending') {
           alert('Cannot complete order: No payment information available. Please ensure a valid payment method is on file.');
           return;
@@ -523,7 +561,7 @@ const OrderManagement: React.FC = () => {
         updateData.completed_at = new Date().toISOString();
       }
 
-      if (newStatus === 'shipped') {
+      if (newStatus === 'shipped' && !paysByInvoice) {
         const captureResult = await orderService.capturePaymentOnShipment(orderId);
         if (!captureResult.success) {
           alert(`Warning: Payment capture failed: ${captureResult.error}`);
@@ -586,10 +624,14 @@ const OrderManagement: React.FC = () => {
   };
 
   const handleOpenBackorderModal = async (order: Order) => {
+    // Preselect the lines stock could not cover when the order was placed
+    const shortItems = order.items.filter(item => item.backorder && item.backorderQuantity);
     setSelectedOrder(order);
-    setSelectedBackorderItems(new Set());
-    setBackorderQuantities({});
-    setBackorderReason('');
+    setSelectedBackorderItems(new Set(shortItems.map(item => item.productId)));
+    setBackorderQuantities(Object.fromEntries(
+      shortItems.map(item => [item.productId, Math.min(item.backorderQuantity || 0, item.quantity)])
+    ));
+    setBackorderReason(shortItems.length > 0 ? 'Insufficient stock' : '');
 
     await loadRelatedOrders(order.id);
 
@@ -1246,6 +1288,17 @@ const OrderManagement: React.FC = () => {
                   <Trash2 className="h-5 w-5" />
                 </button>
               )}
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(routeUrl({ page: 'orders', orderId: order.id }));
+                  setLinkCopied(true);
+                  setTimeout(() => setLinkCopied(false), 2000);
+                }}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                title={linkCopied ? 'Link copied' : 'Copy link to this order'}
+              >
+                {linkCopied ? <Check className="h-5 w-5 text-green-600" /> : <Link2 className="h-5 w-5" />}
+              </button>
               <button
                 onClick={() => { setSelectedOrder(null); setEditingSection(null); }}
                 className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -1379,7 +1432,7 @@ const OrderManagement: React.FC = () => {
                     </div>
                     <div className="border-t border-gray-300 pt-2 flex justify-between font-semibold text-base">
                       <span>Total:</span>
-                      <span>${(Number(order.subtotal) + editTax + editShipping).toFixed(2)}</span>
+                      <span>${(Number(order.subtotal) - (Number(order.discount) || 0) + editTax + editShipping).toFixed(2)}</span>
                     </div>
                     <div className="border-t border-gray-300 pt-2 mt-2">
                       <div className="flex justify-between items-center">
@@ -1402,6 +1455,12 @@ const OrderManagement: React.FC = () => {
                     <span className="text-gray-600">Subtotal:</span>
                     <span className="font-medium">${Number(order.subtotal).toFixed(2)}</span>
                   </div>
+                  {Number(order.discount) > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Discount{order.discount_code ? ` (${order.discount_code})` : ''}:</span>
+                      <span className="font-medium">-${Number(order.discount).toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span className="text-gray-600">Tax:</span>
                     <span className="font-medium">${Number(order.tax).toFixed(2)}</span>
@@ -1427,6 +1486,13 @@ const OrderManagement: React.FC = () => {
                         </span>
                       )}
                     </div>
+                    {order.payment_method === 'invoice' && (
+                      <div className="mt-2 text-xs text-gray-500 space-y-0.5">
+                        <div>Pay by invoice{order.payment_terms ? ` · ${PAYMENT_TERMS_LABELS[order.payment_terms as PaymentTerms] || order.payment_terms}` : ''}</div>
+                        {order.po_number && <div>PO #: <span className="font-medium text-gray-700">{order.po_number}</span></div>}
+                        {order.invoice_due_date && <div>Due: {new Date(`${order.invoice_due_date}T00:00:00`).toLocaleDateString()}</div>}
+                      </div>
+                    )}
                     {order.payment_captured_at && (
                       <div className="mt-2 text-xs text-gray-500">
                         Captured: {new Date(order.payment_captured_at).toLocaleString()}
@@ -1661,6 +1727,8 @@ const OrderManagement: React.FC = () => {
               const orderViewRole = effectiveProfile?.role ?? profile?.role;
               const isOrderSalesRep = orderViewRole === 'sales_rep';
               const isOrderAdmin = orderViewRole === 'admin' || orderViewRole === 'company_rep';
+              const orderClawbacks = ((orderCommission?.commission_adjustments || []) as Pick<CommissionAdjustment, 'amount' | 'status' | 'payee_role' | 'source'>[])
+                .filter(adj => adj.status !== 'cancelled');
               return (
               <div className={`border rounded-lg p-4 ${
                 orderCommission ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
@@ -1765,6 +1833,17 @@ const OrderManagement: React.FC = () => {
                         </div>
                       </details>
                     )}
+                    {!isOrderSalesRep && orderClawbacks.length > 0 && (
+                      <div className="text-sm bg-white rounded p-2 border border-red-200">
+                        <span className="text-gray-600 text-xs block">Clawbacks</span>
+                        {orderClawbacks.map((adj, idx) => (
+                          <div key={idx} className="flex justify-between text-xs">
+                            <span className="capitalize">{adj.payee_role.replace('_', ' ')} · {adj.source} · {adj.status}</span>
+                            <span className="font-semibold text-red-700">${Number(adj.amount).toFixed(2)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {orderCommission.approved_at && (
                       <div className="text-xs text-gray-500">
                         Approved: {new Date(orderCommission.approved_at).toLocaleString()}
@@ -2732,6 +2811,11 @@ const OrderManagement: React.FC = () => {
                                 <p className="text-gray-600">
                                   Original Qty: {item.quantity} × ${item.price.toFixed(2)}
                                 </p>
+                                {item.backorder && !!item.backorderQuantity && (
+                                  <p className="text-orange-700">
+                                    Short on stock: {item.backorderQuantity} units
+                                  </p>
+                                )}
                                 {splitQty > 0 && (
                                   <p className="text-red-600">
                                     Already split: {splitQty} units
@@ -2972,12 +3056,15 @@ const OrderManagement: React.FC = () => {
         <RefundModal
           order={selectedOrder}
           commission={orderCommission}
+          refundedAmount={refundedTotal(paymentTransactions)}
           onClose={() => setShowRefundModal(false)}
-          onSubmit={async ({ amount, includeShipping, cancelCommission, reason }) => {
+          onSubmit={async ({ amount, includeShipping, cancelCommission, clawbackCommission, lines, reason }) => {
             const result = await orderService.refundPayment(selectedOrder.id, {
               amount,
               includeShipping,
               cancelCommission,
+              clawbackCommission,
+              lines,
               reason,
               refundedBy: user?.email || user?.id || 'admin',
             });
@@ -0,0 +1,345 @@
+import React, { useState, useEffect } from 'react';
+import { Phone, MapPin, Mail, StickyNote, GitCommitHorizontal, Loader, Trash2, CheckCircle, Circle, Bell, Plus, RefreshCw } from 'lucide-react';
+import {
+  salesCrmService,
+  taskTiming,
+  ACTIVITY_TYPE_LABELS,
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  type ActivityType,
+  type CrmActivity,
+  type CrmTask,
+  type PipelineStage,
+  type ReorderPrediction,
+} from '@/services/salesCrm';
+
+const inputCls = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const ACTIVITY_ICONS: Record<ActivityType, React.ElementType> = {
+  call: Phone,
+  visit: MapPin,
+  email: Mail,
+  note: StickyNote,
+  stage_change: GitCommitHorizontal,
+};
+
+const TIMING_STYLES = {
+  overdue: 'text-red-600',
+  due_today: 'text-orange-600',
+  upcoming: 'text-gray-600',
+  done: 'text-gray-400 line-through',
+};
+
+type LoggableType = Exclude<ActivityType, 'stage_change'>;
+
+/** Local "YYYY-MM-DDTHH:mm" for datetime-local inputs */
+const localDateTime = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+interface OrganizationCrmProps {
+  organizationId: string;
+  stage: PipelineStage;
+  /** Rep the activities and follow-ups are recorded for */
+  userId: string;
+  prediction?: ReorderPrediction;
+  onStageChanged: (stage: PipelineStage) => void;
+}
+
+/** Pipeline stage, activity timeline and follow-ups for one customer */
+const OrganizationCrm: React.FC<OrganizationCrmProps> = ({ organizationId, stage, userId, prediction, onStageChanged }) => {
+  const [activities, setActivities] = useState<CrmActivity[]>([]);
+  const [tasks, setTasks] = useState<CrmTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [activity, setActivity] = useState({ type: 'call' as LoggableType, subject: '', body: '', occurredAt: localDateTime(new Date()) });
+  const [followUp, setFollowUp] = useState({ enabled: false, title: '', dueAt: '', remind: true });
+  const [showDone, setShowDone] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const [activityResult, taskResult] = await Promise.all([
+        salesCrmService.getActivities(organizationId),
+        salesCrmService.getTasks({ organizationId }),
+      ]);
+      setActivities(activityResult.activities);
+      setTasks(taskResult.tasks);
+      if (activityResult.error || taskResult.error) setError(activityResult.error || taskResult.error || null);
+      setLoading(false);
+    };
+    load();
+  }, [organizationId, version]);
+
+  const handleStage = async (next: PipelineStage) => {
+    if (next === stage) return;
+    setError(null);
+    const result = await salesCrmService.setPipelineStage(organizationId, next);
+    if (!result.success) {
+      setError(result.error || 'Failed to update stage');
+      return;
+    }
+    onStageChanged(next);
+    setVersion(v => v + 1);
+  };
+
+  const handleLog = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (followUp.enabled && (!followUp.title.trim() || !followUp.dueAt)) {
+      setError('Give the follow-up a title and due date');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    const result = await salesCrmService.logActivity({
+      organizationId,
+      authorId: userId,
+      type: activity.type,
+      subject: activity.subject,
+      body: activity.body,
+      occurredAt: new Date(activity.occurredAt).toISOString(),
+    });
+    if (result.success && followUp.enabled) {
+      const dueAt = new Date(followUp.dueAt).toISOString();
+      const taskResult = await salesCrmService.createTask({
+        organizationId,
+        assignedTo: userId,
+        title: followUp.title,
+        dueAt,
+        remindAt: followUp.remind ? dueAt : null,
+        activityId: result.activityId,
+      });
+      if (!taskResult.success) setError(taskResult.error || 'Activity logged, but the follow-up could not be saved');
+    }
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to log activity');
+      return;
+    }
+    setActivity({ type: activity.type, subject: '', body: '', occurredAt: localDateTime(new Date()) });
+    setFollowUp({ enabled: false, title: '', dueAt: '', remind: true });
+    setVersion(v => v + 1);
+  };
+
+  const handleToggleTask = async (task: CrmTask) => {
+    const result = await salesCrmService.setTaskCompleted(task.id, !task.completed_at);
+    if (!result.success) setError(result.error || 'Failed to update follow-up');
+    setVersion(v => v + 1);
+  };
+
+  const handleDeleteTask = async (task: CrmTask) => {
+    if (!window.confirm(`Delete the follow-up "${task.title}"?`)) return;
+    const result = await salesCrmService.deleteTask(task.id);
+    if (!result.success) setError(result.error || 'Failed to delete follow-up');
+    setVersion(v => v + 1);
+  };
+
+  const handleDeleteActivity = async (entry: CrmActivity) => {
+    if (!window.confirm('Delete this activity?')) return;
+    const result = await salesCrmService.deleteActivity(entry.id);
+    if (!result.success) setError(result.error || 'Failed to delete activity');
+    setVersion(v => v + 1);
+  };
+
+  const visibleTasks = showDone ? tasks : tasks.filter(t => !t.completed_at);
+  const stageIndex = PIPELINE_STAGES.indexOf(stage);
+
+  if (loading) {
+    return <div className="flex justify-center py-8"><Loader className="h-6 w-6 animate-spin text-gray-400" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center">
+          {PIPELINE_STAGES.map((s, index) => (
+            <button
+              key={s}
+              onClick={() => handleStage(s)}
+              className={`px-4 py-2 text-sm font-medium border first:rounded-l-lg last:rounded-r-lg -ml-px ${
+                index <= stageIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {PIPELINE_STAGE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <div className="text-sm text-gray-600 flex items-center gap-2">
+          <RefreshCw className="h-4 w-4 text-gray-400" />
+          {prediction ? (
+            <span>
+              Orders about every {prediction.cadenceDays} days ·{' '}
+              <span className={prediction.status === 'overdue' ? 'text-red-600 font-medium' : prediction.status === 'due' ? 'text-orange-600 font-medium' : ''}>
+                {prediction.daysUntilDue < 0
+                  ? `reorder ${-prediction.daysUntilDue} days overdue`
+                  : `next order expected ${new Date(prediction.nextDueAt).toLocaleDateString()}`}
+              </span>
+            </span>
+          ) : (
+            <span>Not enough orders yet to predict a reorder</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <form onSubmit={handleLog} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(['call', 'visit', 'email', 'note'] as LoggableType[]).map(type => {
+                const Icon = ACTIVITY_ICONS[type];
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setActivity({ ...activity, type })}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border ${
+                      activity.type === type ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4" /> {ACTIVITY_TYPE_LABELS[type]}
+                  </button>
+                );
+              })}
+              <input
+                type="datetime-local"
+                value={activity.occurredAt}
+                onChange={(e) => setActivity({ ...activity, occurredAt: e.target.value })}
+                className="ml-auto border border-gray-300 rounded-lg px-2 py-1 text-sm"
+              />
+            </div>
+            <input
+              value={activity.subject}
+              onChange={(e) => setActivity({ ...activity, subject: e.target.value })}
+              placeholder="Summary, e.g. Dropped off sample kit"
+              className={inputCls}
+            />
+            <textarea
+              value={activity.body}
+              onChange={(e) => setActivity({ ...activity, body: e.target.value })}
+              rows={2}
+              placeholder="Notes (optional)"
+              className={inputCls}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={followUp.enabled}
+                onChange={(e) => setFollowUp({ ...followUp, enabled: e.target.checked })}
+                className="rounded"
+              />
+              Schedule a follow-up
+            </label>
+            {followUp.enabled && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                <input
+                  value={followUp.title}
+                  onChange={(e) => setFollowUp({ ...followUp, title: e.target.value })}
+                  placeholder="Follow-up, e.g. Ask about the first order"
+                  className={`${inputCls} md:col-span-2`}
+                />
+                <input
+                  type="datetime-local"
+                  value={followUp.dueAt}
+                  onChange={(e) => setFollowUp({ ...followUp, dueAt: e.target.value })}
+                  className={inputCls}
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-3">
+                  <input
+                    type="checkbox"
+                    checked={followUp.remind}
+                    onChange={(e) => setFollowUp({ ...followUp, remind: e.target.checked })}
+                    className="rounded"
+                  />
+                  Email me a reminder when it is due
+                </label>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || !activity.subject.trim()}
+                className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" /> {saving ? 'Saving...' : 'Log Activity'}
+              </button>
+            </div>
+          </form>
+
+          {activities.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No activity logged yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {activities.map(entry => {
+                const Icon = ACTIVITY_ICONS[entry.activity_type];
+                return (
+                  <li key={entry.id} className="flex gap-3">
+                    <div className={`p-2 rounded-full h-fit ${entry.activity_type === 'stage_change' ? 'bg-purple-100 text-purple-600' : 'bg-blue-100 text-blue-600'}`}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900">{entry.subject}</p>
+                        {entry.author_id === userId && entry.activity_type !== 'stage_change' && (
+                          <button onClick={() => handleDeleteActivity(entry)} className="text-gray-300 hover:text-red-600" title="Delete">
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {ACTIVITY_TYPE_LABELS[entry.activity_type]} · {new Date(entry.occurred_at).toLocaleString()}
+                        {' · '}{entry.profiles?.full_name || entry.profiles?.email || 'System'}
+                      </p>
+                      {entry.body && <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{entry.body}</p>}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-900">Follow-ups</h4>
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input type="checkbox" checked={showDone} onChange={(e) => setShowDone(e.target.checked)} className="rounded" />
+              Show done
+            </label>
+          </div>
+          {visibleTasks.length === 0 ? (
+            <p className="text-sm text-gray-500">No open follow-ups.</p>
+          ) : (
+            <ul className="space-y-2">
+              {visibleTasks.map(task => {
+                const timing = taskTiming(task);
+                return (
+                  <li key={task.id} className="flex items-start gap-2 bg-white border border-gray-200 rounded-lg p-3">
+                    <button onClick={() => handleToggleTask(task)} className="mt-0.5 text-gray-400 hover:text-green-600" title={task.completed_at ? 'Reopen' : 'Mark done'}>
+                      {task.completed_at ? <CheckCircle className="h-4 w-4 text-green-600" /> : <Circle className="h-4 w-4" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm ${TIMING_STYLES[timing]}`}>{task.title}</p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1">
+                        Due {new Date(task.due_at).toLocaleString()}
+                        {task.remind_at && !task.completed_at && <Bell className="h-3 w-3" />}
+                      </p>
+                    </div>
+                    {task.assigned_to === userId && (
+                      <button onClick={() => handleDeleteTask(task)} className="text-gray-300 hover:text-red-600" title="Delete">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationCrm;
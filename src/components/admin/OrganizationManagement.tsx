@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Building2, Plus, Pencil, Trash2, Search, MapPin, Users, Mail, Phone, AlertCircle, CheckCircle, Eye, Archive, ArrowLeft, Settings, DollarSign, Save, RotateCcw, UserCheck, Home } from 'lucide-react';
+import { Building2, Plus, Pencil, Trash2, Search, MapPin, Users, Mail, Phone, AlertCircle, CheckCircle, Eye, Archive, ArrowLeft, Settings, DollarSign, Save, RotateCcw, UserCheck, Home, ShieldCheck, Clock, FileText } from 'lucide-react';
 import { multiTenantService } from '@/services/multiTenant';
 import { supabase } from '@/services/supabase';
 import { softDeleteService } from '@/services/softDeleteService';
@@ -8,9 +8,12 @@ import ConfirmDeleteModal from './ConfirmDeleteModal';
 import AddressManagement from './AddressManagement';
 import PricingManagement from './PricingManagement';
 import CustomerUserManagement from './CustomerUserManagement';
+import TaxExemptionManagement, { TaxExemptionStatusBadge } from './TaxExemptionManagement';
+import { daysUntilExpiry } from '@/services/tax';
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from '@/services/paymentTerms';
 import type { Organization } from '@/services/supabase';
 
-type SubManagementTab = 'addresses' | 'pricing' | 'users';
+type SubManagementTab = 'addresses' | 'pricing' | 'users' | 'tax';
 
 interface SalesRep {
   id: string;
@@ -354,12 +357,25 @@ const OrganizationManagement: React.FC = () => {
     return matchesSearch && matchesStatus;
   });
 
+  const exemptionReviewQueue = organizations.filter(org => org.tax_exemption_status === 'pending');
+  const expiringExemptions = organizations.filter(org => {
+    if (org.tax_exemption_status !== 'approved') return false;
+    const days = daysUntilExpiry(org.tax_exemption_expires_at);
+    return days !== null && days >= 0 && days <= 30;
+  });
+
+  const openTaxExemption = (org: Organization) => {
+    setSelectedOrgForSubManagement(org);
+    setActiveSubTab('tax');
+  };
+
   // If we're in sub-management mode, render that instead
   if (selectedOrgForSubManagement) {
     const subTabs = [
       { id: 'addresses' as SubManagementTab, label: 'Addresses', icon: MapPin },
       { id: 'pricing' as SubManagementTab, label: 'Contract Pricing', icon: DollarSign },
       { id: 'users' as SubManagementTab, label: 'Users', icon: Users },
+      { id: 'tax' as SubManagementTab, label: 'Tax Exemption', icon: ShieldCheck },
     ];
 
     return (
@@ -371,6 +387,7 @@ const OrganizationManagement: React.FC = () => {
               onClick={() => {
                 setSelectedOrgForSubManagement(null);
                 setActiveSubTab('addresses');
+                fetchOrganizations();
               }}
               className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
             >
@@ -425,6 +442,9 @@ const OrganizationManagement: React.FC = () => {
           {activeSubTab === 'users' && (
             <CustomerUserManagement organizationId={selectedOrgForSubManagement.id} />
           )}
+          {activeSubTab === 'tax' && (
+            <TaxExemptionManagement organizationId={selectedOrgForSubManagement.id} />
+          )}
         </div>
       </div>
     );
@@ -520,6 +540,52 @@ const OrganizationManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Tax exemption review queue */}
+      {(exemptionReviewQueue.length > 0 || expiringExemptions.length > 0) && (
+        <div className="mb-6 bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-purple-600" />
+            <h3 className="text-sm font-semibold text-gray-900">Tax Exemption Review</h3>
+            {exemptionReviewQueue.length > 0 && (
+              <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                {exemptionReviewQueue.length} pending
+              </span>
+            )}
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {[...exemptionReviewQueue, ...expiringExemptions].map(org => {
+              const days = daysUntilExpiry(org.tax_exemption_expires_at);
+              return (
+                <li key={org.id} className="px-4 py-3 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{org.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {org.tax_exemption_certificate || 'No certificate number'}
+                      {org.tax_exemption_state ? ` · ${org.tax_exemption_state}` : ''}
+                      {org.tax_exemption_status === 'approved' && days !== null && (
+                        <span className="ml-2 inline-flex items-center text-orange-600">
+                          <Clock className="h-3 w-3 mr-1" />
+                          expires in {days} day{days !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <TaxExemptionStatusBadge status={org.tax_exemption_status} />
+                    <button
+                      onClick={() => openTaxExemption(org)}
+                      className="text-sm font-medium text-purple-600 hover:text-purple-800"
+                    >
+                      {org.tax_exemption_status === 'pending' ? 'Review' : 'View'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Search */}
       <div className="mb-6">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -750,6 +816,11 @@ const OrganizationManagement: React.FC = () => {
                           House
                         </span>
                       )}
+                      {org.tax_exemption_status && org.tax_exemption_status !== 'none' && (
+                        <button onClick={() => openTaxExemption(org)} className="text-left" title="Tax Exemption">
+                          <TaxExemptionStatusBadge status={org.tax_exemption_status} />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -1011,6 +1082,45 @@ const OrganizationManagement: React.FC = () => {
                         </p>
                       </div>
 
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            <span className="flex items-center">
+                              <FileText className="h-4 w-4 mr-1" />
+                              Payment Terms
+                            </span>
+                          </label>
+                          <select
+                            value={selectedOrg.payment_terms || ''}
+                            onChange={(e) => setSelectedOrg({...selectedOrg, payment_terms: (e.target.value || null) as PaymentTerms | null})}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                          >
+                            <option value="">No invoice terms</option>
+                            {(Object.keys(PAYMENT_TERMS_LABELS) as PaymentTerms[]).map(terms => (
+                              <option key={terms} value={terms}>{PAYMENT_TERMS_LABELS[terms]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Credit Limit
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={selectedOrg.credit_limit ?? ''}
+                            onChange={(e) => setSelectedOrg({...selectedOrg, credit_limit: e.target.value === '' ? null : Number(e.target.value)})}
+                            disabled={!selectedOrg.payment_terms}
+                            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
+                            placeholder="No limit"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 -mt-2">
+                        With terms set, this customer can pay by invoice against a PO number. Orders over the remaining credit are blocked.
+                      </p>
+
                       <div className="space-y-3">
                         <label className="flex items-center">
                           <input
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Download, Printer, Loader } from 'lucide-react';
+import {
+  commissionPayoutService,
+  renderPayoutStatement,
+  PAYEE_ROLE_LABELS,
+  type CommissionPayout,
+} from '@/services/commissionPayouts';
+import { downloadTextFile, openHtmlDocument } from '@/utils/download';
+
+interface PayoutStatementsProps {
+  payeeId: string;
+}
+
+/** Commission statements for one payee, one per payout run they were paid in */
+const PayoutStatements: React.FC<PayoutStatementsProps> = ({ payeeId }) => {
+  const [payouts, setPayouts] = useState<CommissionPayout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const { payouts: data, error: fetchError } = await commissionPayoutService.getPayeePayouts(payeeId);
+      setPayouts(data);
+      setError(fetchError || null);
+      setLoading(false);
+    };
+    load();
+  }, [payeeId]);
+
+  const handleStatement = async (payout: CommissionPayout, mode: 'print' | 'download') => {
+    setBusyId(payout.id);
+    setError(null);
+    const { statement, error: statementError } = await commissionPayoutService.getStatement(payout);
+    setBusyId(null);
+
+    if (!statement) {
+      setError(statementError || 'Could not load statement');
+      return;
+    }
+
+    const html = renderPayoutStatement(statement);
+    if (mode === 'download') {
+      downloadTextFile(html, `commission-statement-${statement.run.run_number}.html`, 'text/html');
+    } else if (!openHtmlDocument(html)) {
+      setError('Allow pop-ups to view the statement');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex justify-center">
+        <Loader className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+        <FileText className="h-5 w-5 text-gray-500 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Commission Statements</h3>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-red-50 text-sm text-red-700 border-b border-red-200">{error}</div>
+      )}
+
+      {payouts.length === 0 ? (
+        <div className="px-6 py-8 text-center text-sm text-gray-500">
+          Statements appear here once your commissions are included in a payout.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commissions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustments</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {payouts.map(payout => (
+                <tr key={payout.id}>
+                  <td className="px-6 py-3">
+                    <div className="font-medium text-gray-900">{payout.run?.run_number}</div>
+                    <div className="text-xs text-gray-500">{PAYEE_ROLE_LABELS[payout.payee_role]}</div>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">
+                    {payout.run?.period_start} – {payout.run?.period_end}
+                  </td>
+                  <td className="px-6 py-3 text-right">${Number(payout.gross_amount).toFixed(2)}</td>
+                  <td className={`px-6 py-3 text-right ${Number(payout.adjustment_amount) < 0 ? 'text-red-700' : 'text-gray-600'}`}>
+                    ${Number(payout.adjustment_amount).toFixed(2)}
+                  </td>
+                  <td className="px-6 py-3 text-right font-semibold text-gray-900">${Number(payout.net_amount).toFixed(2)}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 inline-flex text-xs font-semibold rounded-full ${
+                      payout.run?.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                    }`}>
+                      {payout.run?.status === 'paid' ? 'Paid' : 'Processing'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right">
+                    {busyId === payout.id ? (
+                      <Loader className="h-4 w-4 animate-spin text-gray-400 inline" />
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleStatement(payout, 'print')}
+                          className="p-2 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                          title="View / print statement"
+                        >
+                          <Printer className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleStatement(payout, 'download')}
+                          className="p-2 text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Download statement"
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayoutStatements;
@@ -5,6 +5,7 @@ import PricingTable from './pricing/PricingTable';
 import PricingForm from './pricing/PricingForm';
 import ProductPricingGrid from './pricing/ProductPricingGrid';
 import PricingImport from './pricing/PricingImport';
+import { getPricingWindowStatus } from '@/services/pricingWindows';
 import { activityLogService } from '@/services/activityLog';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -23,9 +24,11 @@ const PricingManagement: React.FC<PricingManagementProps> = ({ organizationId })
     saving,
     organizations,
     users,
+    locations,
     products,
     fetchPricingData,
     savePricing,
+    saveTierLadder,
     deletePricing,
   } = usePricingData(organizationId);
 
@@ -76,10 +79,39 @@ const PricingManagement: React.FC<PricingManagementProps> = ({ organizationId })
     return result;
   };
 
+  const handleSaveTiers = async (params: Parameters<typeof saveTierLadder>[0]) => {
+    const result = await saveTierLadder(params);
+    if (result?.success && user) {
+      activityLogService.logAction({
+        userId: user.id,
+        action: 'pricing_updated',
+        resourceType: params.pricingType,
+        resourceId: params.entityId,
+        details: {
+          product_id: params.productId,
+          tiers: params.tiers.map((t) => ({
+            min_quantity: t.minQuantity,
+            max_quantity: t.maxQuantity ?? null,
+            contract_price: t.contractPrice,
+            markup_price: t.markupPrice,
+          })),
+          effective_date: params.tiers[0]?.effectiveDate,
+          expiry_date: params.tiers[0]?.expiryDate,
+          entity_name: selectedOrgName || undefined,
+        },
+      });
+    }
+    return result;
+  };
+
   const handleDownloadTemplate = () => {
     const orgPriceMap = new Map<number, number | null>();
     entries.forEach((e) => {
-      if (e.entity_id === selectedOrgId && e.pricing_type === selectedEntityType) {
+      if (
+        e.entity_id === selectedOrgId &&
+        e.pricing_type === selectedEntityType &&
+        getPricingWindowStatus(e) === 'active'
+      ) {
         orgPriceMap.set(e.product_id, e.contract_price);
       }
     });
@@ -339,11 +371,13 @@ const PricingManagement: React.FC<PricingManagementProps> = ({ organizationId })
       <PricingForm
         isOpen={isFormOpen}
         onClose={handleFormClose}
-        onSave={handleSavePricing}
+        onSave={handleSaveTiers}
         saving={saving}
         organizations={organizations}
         users={users}
+        locations={locations}
         editEntry={editEntry}
+        entries={entries}
       />
 
       {isImportOpen && selectedOrgId && (
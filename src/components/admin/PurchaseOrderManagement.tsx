@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Loader, Plus, Send, PackageCheck, X, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  purchaseOrderService,
+  purchaseOrderTotal,
+  outstandingQuantity,
+  canReceive,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReplenishmentGroup,
+} from '@/services/purchaseOrders';
+import { inventoryService, Warehouse } from '@/services/inventory';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const PurchaseOrderManagement: React.FC = () => {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [needs, setNeeds] = useState<ReplenishmentGroup[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [receiving, setReceiving] = useState<{ poId: string; warehouseId: string; quantities: Record<string, string> } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all'>('open');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [poList, needList, warehouseList] = await Promise.all([
+        purchaseOrderService.getPurchaseOrders(),
+        purchaseOrderService.getReplenishmentNeeds(),
+        inventoryService.getWarehouses(),
+      ]);
+      setPurchaseOrders(poList);
+      setNeeds(needList);
+      setWarehouses(warehouseList);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (group: ReplenishmentGroup) => {
+    setBusy(true);
+    const result = await purchaseOrderService.createFromGroup(group);
+    setBusy(false);
+    if (!result.purchaseOrder) {
+      alert(result.error || 'Failed to create purchase order');
+      return;
+    }
+    await loadData();
+    setExpandedId(result.purchaseOrder.id);
+  };
+
+  const handleLineChange = async (lineId: string, field: 'quantity_ordered' | 'unit_cost', value: string) => {
+    const parsed = value.trim() === '' ? null : Number(value);
+    if (field === 'quantity_ordered' && (!parsed || parsed < 1 || !Number.isInteger(parsed))) {
+      alert('Quantity must be a whole number of at least 1');
+      return;
+    }
+    const result = await purchaseOrderService.updateLine(lineId, { [field]: parsed });
+    if (!result.success) {
+      alert(result.error || 'Failed to update line');
+      return;
+    }
+    setPurchaseOrders(await purchaseOrderService.getPurchaseOrders());
+  };
+
+  const handleStatus = async (po: PurchaseOrder, action: 'send' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel ${po.po_number}? Its backorders will show as uncovered again.`)) return;
+    const result = action === 'send'
+      ? await purchaseOrderService.markSent(po.id)
+      : await purchaseOrderService.cancel(po.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to update purchase order');
+      return;
+    }
+    await loadData();
+  };
+
+  const startReceiving = (po: PurchaseOrder) => {
+    setExpandedId(po.id);
+    setReceiving({
+      poId: po.id,
+      warehouseId: po.warehouse_id || warehouses.find((w) => w.is_default)?.id || '',
+      quantities: Object.fromEntries(po.lines.map((line) => [line.id, String(outstandingQuantity(line))])),
+    });
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+    setBusy(true);
+    const result = await purchaseOrderService.receive(
+      receiving.poId,
+      Object.entries(receiving.quantities).map(([lineId, qty]) => ({ lineId, quantity: Number(qty) || 0 })),
+      receiving.warehouseId || undefined
+    );
+    setBusy(false);
+
+    if (!result.success) {
+      alert(result.error || 'Failed to receive purchase order');
+      return;
+    }
+    const released = result.releasedOrderIds?.length || 0;
+    alert(
+      `Received ${result.received} unit(s).` +
+      (released > 0 ? ` ${released} backorder(s) released for fulfillment.` : '')
+    );
+    setReceiving(null);
+    await loadData();
+  };
+
+  const visibleOrders = purchaseOrders.filter((po) =>
+    statusFilter === 'all' || !['received', 'cancelled'].includes(po.status)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Purchase Orders</h2>
+        <p className="text-gray-600 mt-1">Replenish backordered items from vendors and receive them into inventory</p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Backordered Demand</h3>
+          <p className="text-sm text-gray-500">Backorders not yet covered by an open purchase order, grouped by vendor</p>
+        </div>
+        {needs.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Every backorder is covered by a purchase order.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {needs.map((group) => (
+              <div key={group.vendorBrand} className="p-4 flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">{group.vendorBrand}</p>
+                  <p className="text-xs text-gray-500 mb-2">{group.orderIds.length} backorder(s)</p>
+                  <ul className="text-sm text-gray-700 space-y-0.5">
+                    {group.lines.map((line) => (
+                      <li key={line.productId}>
+                        {line.quantity} × {line.name}
+                        {line.sku && <span className="text-gray-400 font-mono ml-1">({line.sku})</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <button
+                  onClick={() => handleCreate(group)}
+                  disabled={busy}
+                  className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 transition-colors text-sm font-medium"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Create PO</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Purchase Orders</h3>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as 'open' | 'all')}
+            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        {visibleOrders.length === 0 ? (
+          <div className="p-12 text-center">
+            <ClipboardList className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No purchase orders</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {visibleOrders.map((po) => {
+              const expanded = expandedId === po.id;
+              const editable = po.status === 'draft' || po.status === 'sent';
+              const isReceiving = receiving?.poId === po.id;
+
+              return (
+                <div key={po.id}>
+                  <div className="px-4 py-3 flex items-center justify-between">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : po.id)}
+                      className="flex items-center gap-3 text-left"
+                    >
+                      {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                      <span className="font-mono font-medium text-gray-900">{po.po_number}</span>
+                      <span className="text-gray-700">{po.vendor_brand}</span>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[po.status]}`}>
+                        {STATUS_LABELS[po.status]}
+                      </span>
+                    </button>
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="text-gray-500">{new Date(po.created_at).toLocaleDateString()}</span>
+                      <span className="font-medium text-gray-900">${purchaseOrderTotal(po.lines).toFixed(2)}</span>
+                      {po.status === 'draft' && (
+                        <button onClick={() => handleStatus(po, 'send')} className="flex items-center gap-1 text-blue-700 hover:text-blue-900">
+                          <Send className="h-4 w-4" /> Mark sent
+                        </button>
+                      )}
+                      {canReceive(po.status) && !isReceiving && (
+                        <button onClick={() => startReceiving(po)} className="flex items-center gap-1 text-teal-700 hover:text-teal-900">
+                          <PackageCheck className="h-4 w-4" /> Receive
+                        </button>
+                      )}
+                      {editable && (
+                        <button onClick={() => handleStatus(po, 'cancel')} className="text-red-600 hover:text-red-800">
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                            {isReceiving && (
+                              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Receive Now</th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {po.lines.map((line) => (
+                            <tr key={line.id}>
+                              <td className="px-3 py-2 text-sm text-gray-900">
+                                {line.product_name || `Product #${line.product_id}`}
+                                {line.product_sku && <span className="text-gray-400 font-mono ml-1">({line.product_sku})</span>}
+                              </td>
+                              <td className="px-3 py-2 text-sm text-right">
+                                {editable ? (
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    defaultValue={line.quantity_ordered}
+                                    onBlur={(e) => Number(e.target.value) !== line.quantity_ordered && handleLineChange(line.id, 'quantity_ordered', e.target.value)}
+                                    className="w-20 border border-gray-300 rounded px-2 py-1 text-right focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                                  />
+                                ) : line.quantity_ordered}
+                              </td>
+                              <td className="px-3 py-2 text-sm text-right text-gray-700">{line.quantity_received}</td>
+                              <td className="px-3 py-2 text-sm text-right">
+                                {editable ? (
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    defaultValue={line.unit_cost ?? ''}
+                                    onBlur={(e) => e.target.value !== String(line.unit_cost ?? '') && handleLineChange(line.id, 'unit_cost', e.target.value)}
+                                    className="w-24 border border-gray-300 rounded px-2 py-1 text-right focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                                  />
+                                ) : line.unit_cost != null ? `$${line.unit_cost.toFixed(2)}` : '—'}
+                              </td>
+                              {isReceiving && (
+                                <td className="px-3 py-2 text-sm text-right">
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    max={outstandingQuantity(line)}
+                                    value={receiving.quantities[line.id] ?? ''}
+                                    onChange={(e) => setReceiving({
+                                      ...receiving,
+                                      quantities: { ...receiving.quantities, [line.id]: e.target.value },
+                                    })}
+                                    disabled={outstandingQuantity(line) === 0}
+                                    className="w-20 border border-gray-300 rounded px-2 py-1 text-right focus:ring-2 focus:ring-teal-500 focus:border-transparent disabled:bg-gray-100"
+                                  />
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      <p className="text-xs text-gray-500">
+                        Covers {po.order_ids.length} backorder(s)
+                        {po.expected_date && ` · expected ${new Date(po.expected_date).toLocaleDateString()}`}
+                        {po.notes && ` · ${po.notes}`}
+                      </p>
+
+                      {isReceiving && (
+                        <div className="flex items-center justify-end gap-3">
+                          <label className="text-sm text-gray-700">Into</label>
+                          <select
+                            value={receiving.warehouseId}
+                            onChange={(e) => setReceiving({ ...receiving, warehouseId: e.target.value })}
+                            className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                          >
+                            {warehouses.filter((w) => w.is_active).map((w) => (
+                              <option key={w.id} value={w.id}>{w.name}</option>
+                            ))}
+                          </select>
+                          <button onClick={() => setReceiving(null)} className="p-2 hover:bg-gray-100 rounded-lg">
+                            <X className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={handleReceive}
+                            disabled={busy}
+                            className="flex items-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 transition-colors text-sm font-medium"
+                          >
+                            {busy ? <Loader className="h-4 w-4 animate-spin" /> : <PackageCheck className="h-4 w-4" />}
+                            <span>Receive Stock</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderManagement;
@@ -1,7 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
-import { RefreshCw, CheckCircle, XCircle, AlertCircle, ExternalLink, Download, Activity, Upload, Search, Building2, BookOpen } from 'lucide-react';
-import { quickbooksOAuth, quickbooksCustomers, quickbooksInvoices } from '../../services/quickbooks';
+import { RefreshCw, CheckCircle, XCircle, AlertCircle, ExternalLink, Download, Activity, Upload, Search, Building2, BookOpen, Package, GitCompare } from 'lucide-react';
+import { quickbooksOAuth, quickbooksCustomers, quickbooksInvoices, quickbooksItems, quickbooksSyncQueue, quickbooksReconciliation } from '../../services/quickbooks';
 import type { QBConnectionStatus } from '../../services/quickbooks/oauth';
+import type { QBSyncJob } from '../../services/quickbooks/syncQueue';
+import {
+  RECONCILE_FIELD_LABELS,
+  customerName,
+  defaultResolution,
+  diffCustomer,
+  type ReconcileField,
+  type ReconcileMatch,
+  type ReconcileSide,
+  type ReconciliationReport,
+} from '../../services/quickbooks/reconciliation';
 import { supabase } from '../../services/supabase';
 
 interface SyncLog {
@@ -661,12 +672,718 @@ function ImportCustomers({ connected }: { connected: boolean }) {
   );
 }
 
+interface ProductSyncRow {
+  id: number;
+  name: string;
+  sku: string | null;
+  price: number;
+  is_active: boolean;
+  quickbooks_item_id: string | null;
+  quickbooks_item_type: string | null;
+  quickbooks_synced_at: string | null;
+}
+
+function ProductSync({ connected }: { connected: boolean }) {
+  const [products, setProducts] = useState<ProductSyncRow[]>([]);
+  const [itemLogs, setItemLogs] = useState<SyncLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<'all' | 'unmapped' | 'mapped'>('all');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [syncResults, setSyncResults] = useState<{ success: number; failed: { id: number; error: string }[] } | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [productsRes, logsRes] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, sku, price, is_active, quickbooks_item_id, quickbooks_item_type, quickbooks_synced_at')
+          .order('name'),
+        supabase
+          .from('quickbooks_sync_log')
+          .select('*')
+          .eq('entity_type', 'item')
+          .order('created_at', { ascending: false })
+          .limit(200),
+      ]);
+
+      if (productsRes.error) throw productsRes.error;
+      setProducts(productsRes.data || []);
+      setItemLogs(logsRes.data || []);
+    } catch (error) {
+      console.error('Failed to load products for QuickBooks sync:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadProducts(); }, [loadProducts]);
+
+  // Latest finished sync per product; the pending rows are the request half
+  const lastResult = new Map<string, SyncLog>();
+  for (const log of itemLogs) {
+    if (log.status !== 'pending' && !lastResult.has(log.entity_id)) {
+      lastResult.set(log.entity_id, log);
+    }
+  }
+
+  const toggleSelect = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const runSync = async (ids: number[]) => {
+    if (ids.length === 0) return;
+    setSyncing(true);
+    setSyncResults(null);
+    try {
+      const result = await quickbooksItems.batchSyncProducts(ids);
+      setSyncResults({ success: result.success.length, failed: result.failed });
+      setSelected(new Set());
+      await loadProducts();
+    } catch (error) {
+      alert(`Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const filtered = products.filter(p => {
+    if (filter === 'unmapped' && p.quickbooks_item_id) return false;
+    if (filter === 'mapped' && !p.quickbooks_item_id) return false;
+    if (!search) return true;
+    const s = search.toLowerCase();
+    return p.name.toLowerCase().includes(s) || p.sku?.toLowerCase().includes(s);
+  });
+
+  const unmapped = products.filter(p => p.is_active && !p.quickbooks_item_id);
+  const productName = (id: number) => products.find(p => p.id === id)?.name || `Product ${id}`;
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Products</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create or update each product as a QuickBooks item so invoice lines report by item.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => runSync([...selected])}
+              disabled={syncing || !connected || selected.size === 0}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Sync {selected.size > 0 ? selected.size : ''} Selected
+            </button>
+            <button
+              onClick={() => runSync(unmapped.map(p => p.id))}
+              disabled={syncing || !connected || unmapped.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              {syncing ? 'Syncing...' : `Sync Unmapped (${unmapped.length})`}
+            </button>
+          </div>
+        </div>
+
+        {!connected && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800">
+            Connect to QuickBooks first (Connection tab) before syncing products.
+          </div>
+        )}
+
+        {syncResults && (
+          <div className={`rounded-lg p-4 text-sm border ${syncResults.failed.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
+            <div className="flex items-center gap-2 font-medium">
+              {syncResults.failed.length > 0 ? (
+                <AlertCircle className="h-4 w-4 text-amber-600" />
+              ) : (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              )}
+              Sync complete: {syncResults.success} synced{syncResults.failed.length > 0 ? `, ${syncResults.failed.length} failed` : ''}
+            </div>
+            {syncResults.failed.length > 0 && (
+              <ul className="mt-2 ml-6 list-disc text-amber-700">
+                {syncResults.failed.map(f => (
+                  <li key={f.id}>{productName(f.id)}: {f.error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search products..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            />
+          </div>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as typeof filter)}
+            className="text-sm border-gray-300 rounded-md shadow-sm"
+          >
+            <option value="all">All products</option>
+            <option value="unmapped">Not in QuickBooks</option>
+            <option value="mapped">Mapped</option>
+          </select>
+          <button
+            onClick={loadProducts}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="max-h-[500px] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase w-10"></th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">QB Item</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Sync</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filtered.map(product => {
+                  const last = lastResult.get(String(product.id));
+                  return (
+                    <tr
+                      key={product.id}
+                      className={`${selected.has(product.id) ? 'bg-blue-50' : 'hover:bg-gray-50'} cursor-pointer ${product.is_active ? '' : 'opacity-60'}`}
+                      onClick={() => toggleSelect(product.id)}
+                    >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(product.id)}
+                          onChange={() => toggleSelect(product.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {product.sku || 'No SKU'}{!product.is_active && ' · Inactive'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500 font-mono">
+                        {product.quickbooks_item_id || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {product.quickbooks_item_type === 'NonInventory' ? 'Non-inventory' : product.quickbooks_item_type || '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {last ? (
+                          <div className="flex items-start gap-1.5">
+                            {last.status === 'success' ? (
+                              <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0 mt-0.5" />
+                            ) : (
+                              <XCircle className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />
+                            )}
+                            <div>
+                              <div className="text-gray-700">{new Date(last.created_at).toLocaleString()}</div>
+                              {last.error_message && (
+                                <div className="text-xs text-red-600 max-w-xs truncate" title={last.error_message}>
+                                  {last.error_message}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        ) : product.quickbooks_synced_at ? (
+                          <span className="text-gray-700">{new Date(product.quickbooks_synced_at).toLocaleString()}</span>
+                        ) : (
+                          <span className="text-gray-400">Never</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-sm text-gray-500">
+                      {loading ? 'Loading products...' : 'No products match'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type ReconcileView = 'differences' | 'orphans' | 'duplicates' | 'in_sync';
+
+function CustomerReconciliation({ connected }: { connected: boolean }) {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [manualMatches, setManualMatches] = useState<ReconcileMatch[]>([]);
+  const [choices, setChoices] = useState<Record<string, Partial<Record<ReconcileField, ReconcileSide>>>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [view, setView] = useState<ReconcileView>('differences');
+
+  const runReconciliation = async () => {
+    setLoading(true);
+    try {
+      const result = await quickbooksReconciliation.loadReport();
+      setReport(result);
+      setManualMatches([]);
+      setChoices(Object.fromEntries(result.matches.map(m => [m.organization.id, defaultResolution(m.diffs)])));
+    } catch (error) {
+      alert(`Reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allMatches = [...(report?.matches || []), ...manualMatches];
+  // Anything not already linked needs confirming, even with no differences
+  const needsAction = allMatches.filter(m => m.diffs.length > 0 || m.matchedBy !== 'link');
+  const inSync = allMatches.filter(m => m.diffs.length === 0 && m.matchedBy === 'link');
+  const manuallyLinkedOrgs = new Set(manualMatches.map(m => m.organization.id));
+  const manuallyLinkedCustomers = new Set(manualMatches.map(m => m.customer.Id));
+  const orgOrphans = (report?.organizationOrphans || []).filter(o => !manuallyLinkedOrgs.has(o.id));
+  const customerOrphans = (report?.customerOrphans || []).filter(c => !manuallyLinkedCustomers.has(c.Id));
+
+  const orgName = (id: string) => {
+    const all = [...allMatches.map(m => m.organization), ...(report?.organizationOrphans || []), ...(report?.staleLinks || [])];
+    return all.find(o => o.id === id)?.name || id;
+  };
+  const qbName = (id: string) => {
+    const all = [...allMatches.map(m => m.customer), ...(report?.customerOrphans || [])];
+    const customer = all.find(c => c.Id === id);
+    return customer ? `${customerName(customer)} (#${id})` : `#${id}`;
+  };
+
+  const setChoice = (orgId: string, field: ReconcileField, side: ReconcileSide) => {
+    setChoices(prev => ({ ...prev, [orgId]: { ...prev[orgId], [field]: side } }));
+  };
+
+  const handleResolve = async (match: ReconcileMatch) => {
+    setBusyId(match.organization.id);
+    try {
+      await quickbooksReconciliation.resolve(match, choices[match.organization.id] || {});
+      await runReconciliation();
+    } catch (error) {
+      alert(`Failed to apply: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleManualLink = (orgId: string, customerId: string) => {
+    const organization = report?.organizationOrphans.find(o => o.id === orgId);
+    const customer = report?.customerOrphans.find(c => c.Id === customerId);
+    if (!organization || !customer) return;
+    const diffs = diffCustomer(organization, customer);
+    setManualMatches(prev => [...prev, { organization, customer, matchedBy: 'manual', diffs }]);
+    setChoices(prev => ({ ...prev, [orgId]: defaultResolution(diffs) }));
+    setView('differences');
+  };
+
+  const handlePush = async (orgId: string) => {
+    setBusyId(orgId);
+    try {
+      await quickbooksCustomers.syncOrganization(orgId);
+      await runReconciliation();
+    } catch (error) {
+      alert(`Push failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnlink = async (orgId: string) => {
+    if (!confirm('Remove this organization\'s link to QuickBooks? It will be listed as an orphan.')) return;
+    setBusyId(orgId);
+    try {
+      await quickbooksReconciliation.unlink(orgId);
+      await runReconciliation();
+    } catch (error) {
+      alert(`Unlink failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const views: { id: ReconcileView; label: string; count: number }[] = [
+    { id: 'differences', label: 'Needs Review', count: needsAction.length },
+    { id: 'orphans', label: 'Orphans', count: orgOrphans.length + customerOrphans.length + (report?.staleLinks.length || 0) },
+    { id: 'duplicates', label: 'Duplicates', count: report?.duplicates.length || 0 },
+    { id: 'in_sync', label: 'In Sync', count: inSync.length },
+  ];
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Reconcile Customers</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Match organizations to QuickBooks customers by link, name or email, and choose which side wins for each field that differs.
+            </p>
+          </div>
+          <button
+            onClick={runReconciliation}
+            disabled={loading || !connected}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {loading ? 'Comparing...' : report ? 'Run Again' : 'Run Reconciliation'}
+          </button>
+        </div>
+
+        {!connected && (
+          <p className="text-sm text-yellow-700">Connect to QuickBooks to reconcile customers.</p>
+        )}
+
+        {report && (
+          <>
+            <div className="flex gap-2 border-b border-gray-200">
+              {views.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    view === v.id ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {v.label} ({v.count})
+                </button>
+              ))}
+            </div>
+
+            {view === 'differences' && (
+              needsAction.length === 0 ? (
+                <p className="text-sm text-gray-500">Every matched organization agrees with QuickBooks.</p>
+              ) : (
+                <div className="space-y-4">
+                  {needsAction.map(match => {
+                    const orgId = match.organization.id;
+                    return (
+                      <div key={orgId} className="border border-gray-200 rounded-lg">
+                        <div className="px-4 py-3 bg-gray-50 flex items-center justify-between rounded-t-lg">
+                          <div className="text-sm">
+                            <span className="font-medium text-gray-900">{match.organization.name}</span>
+                            <span className="text-gray-400 mx-2">↔</span>
+                            <span className="font-medium text-gray-900">{customerName(match.customer)}</span>
+                            <span className="ml-2 text-xs text-gray-500 font-mono">#{match.customer.Id}</span>
+                            <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                              match.matchedBy === 'link' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {match.matchedBy === 'link' ? 'Linked' : match.matchedBy === 'manual' ? 'Manual match' : `Matched by ${match.matchedBy}`}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => handleResolve(match)}
+                            disabled={busyId === orgId}
+                            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            {busyId === orgId ? 'Applying...' : match.matchedBy === 'link' ? 'Apply' : 'Link & Apply'}
+                          </button>
+                        </div>
+                        {match.diffs.length > 0 && (
+                          <table className="min-w-full text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="px-4 py-2 text-left w-36">Field</th>
+                                <th className="px-4 py-2 text-left">App</th>
+                                <th className="px-4 py-2 text-left">QuickBooks</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {match.diffs.map(diff => {
+                                const winner = choices[orgId]?.[diff.field] || 'app';
+                                return (
+                                  <tr key={diff.field}>
+                                    <td className="px-4 py-2 font-medium text-gray-700">{RECONCILE_FIELD_LABELS[diff.field]}</td>
+                                    {(['app', 'quickbooks'] as const).map(side => (
+                                      <td key={side} className="px-4 py-2">
+                                        <label className={`flex items-start gap-2 cursor-pointer ${winner === side ? 'text-gray-900' : 'text-gray-400'}`}>
+                                          <input
+                                            type="radio"
+                                            name={`${orgId}-${diff.field}`}
+                                            checked={winner === side}
+                                            onChange={() => setChoice(orgId, diff.field, side)}
+                                            className="mt-0.5"
+                                          />
+                                          <span>{diff[side] || <em className="text-gray-400">empty</em>}</span>
+                                        </label>
+                                      </td>
+                                    ))}
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )
+            )}
+
+            {view === 'orphans' && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Organizations not in QuickBooks ({orgOrphans.length})</h4>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {orgOrphans.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">None</li>}
+                    {orgOrphans.map(org => (
+                      <li key={org.id} className="px-3 py-2 text-sm flex items-center justify-between gap-2">
+                        <div>
+                          <div className="font-medium text-gray-900">{org.name}</div>
+                          <div className="text-xs text-gray-500">{org.contact_email || 'No email'}</div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {customerOrphans.length > 0 && (
+                            <select
+                              value=""
+                              onChange={(e) => e.target.value && handleManualLink(org.id, e.target.value)}
+                              className="text-xs border-gray-300 rounded-md max-w-[10rem]"
+                            >
+                              <option value="">Link to...</option>
+                              {customerOrphans.map(c => (
+                                <option key={c.Id} value={c.Id}>{customerName(c)}</option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            onClick={() => handlePush(org.id)}
+                            disabled={busyId === org.id}
+                            className="text-xs text-blue-600 hover:text-blue-800 whitespace-nowrap disabled:opacity-50"
+                          >
+                            Push to QB
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {(report.staleLinks.length > 0) && (
+                    <>
+                      <h4 className="text-sm font-medium text-gray-900 mt-4 mb-2">Linked to a missing or inactive customer ({report.staleLinks.length})</h4>
+                      <ul className="divide-y divide-gray-200 border border-red-200 rounded-md">
+                        {report.staleLinks.map(org => (
+                          <li key={org.id} className="px-3 py-2 text-sm flex items-center justify-between">
+                            <div>
+                              <div className="font-medium text-gray-900">{org.name}</div>
+                              <div className="text-xs text-gray-500 font-mono">QB #{org.quickbooks_customer_id}</div>
+                            </div>
+                            <button
+                              onClick={() => handleUnlink(org.id)}
+                              disabled={busyId === org.id}
+                              className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              Unlink
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">QuickBooks customers with no organization ({customerOrphans.length})</h4>
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {customerOrphans.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">None</li>}
+                    {customerOrphans.map(c => (
+                      <li key={c.Id} className="px-3 py-2 text-sm">
+                        <div className="font-medium text-gray-900">{customerName(c)}</div>
+                        <div className="text-xs text-gray-500">
+                          #{c.Id} · {c.PrimaryEmailAddr?.Address || 'No email'}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  {customerOrphans.length > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">Link them to an organization on the left, or create organizations from the Import Customers tab.</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {view === 'duplicates' && (
+              report.duplicates.length === 0 ? (
+                <p className="text-sm text-gray-500">No duplicates found.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {report.duplicates.map(group => (
+                    <li key={`${group.side}-${group.reason}-${group.value}`} className="px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${group.side === 'app' ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'}`}>
+                          {group.side === 'app' ? 'App' : 'QuickBooks'}
+                        </span>
+                        <span className="text-gray-700">
+                          {group.reason === 'link' ? `Linked to the same customer #${group.value}` : `Same ${group.reason}: ${group.value}`}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500">
+                        {group.ids.map(id => group.side === 'app' ? orgName(id) : qbName(id)).join(' · ')}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
+            {view === 'in_sync' && (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {inSync.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">None</li>}
+                {inSync.map(m => (
+                  <li key={m.organization.id} className="px-3 py-2 text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    <span className="text-gray-900">{m.organization.name}</span>
+                    <span className="text-xs text-gray-500 font-mono">#{m.customer.Id}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SyncQueue({ onChange }: { onChange: () => void }) {
+  const [deadLetters, setDeadLetters] = useState<QBSyncJob[]>([]);
+  const [waiting, setWaiting] = useState<QBSyncJob[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [failed, pending, retrying] = await Promise.all([
+        quickbooksSyncQueue.getDeadLetters(),
+        quickbooksSyncQueue.getJobs('pending'),
+        quickbooksSyncQueue.getJobs('retry'),
+      ]);
+      setDeadLetters(failed);
+      setWaiting([...pending, ...retrying]);
+    } catch (error) {
+      console.error('Failed to load QuickBooks sync queue:', error);
+    }
+  }, []);
+
+  useEffect(() => { loadQueue(); }, [loadQueue]);
+
+  const handleAction = async (job: QBSyncJob, action: 'retry' | 'discard') => {
+    if (action === 'discard' && !confirm(`Discard this ${job.job_type} job? It will not be retried.`)) return;
+    setBusyId(job.id);
+    const result = action === 'retry'
+      ? await quickbooksSyncQueue.retry(job.id)
+      : await quickbooksSyncQueue.discard(job.id);
+    setBusyId(null);
+    if (!result.success) {
+      alert(`Failed to ${action} job: ${result.error}`);
+      return;
+    }
+    await loadQueue();
+    onChange();
+  };
+
+  const retrying = waiting.filter(job => job.status === 'retry');
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg mb-6">
+      <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Sync Queue</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {waiting.length} waiting{retrying.length > 0 ? ` (${retrying.length} retrying with backoff)` : ''} · processed every 5 minutes
+          </p>
+        </div>
+        <button
+          onClick={loadQueue}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </button>
+      </div>
+      <div className="border-t border-gray-200">
+        {deadLetters.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No failed jobs. Work that exhausts its retries will be listed here.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-red-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-red-700 uppercase tracking-wider">Failed Job</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-red-700 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-red-700 uppercase tracking-wider">Last Error</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-red-700 uppercase tracking-wider">Updated</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {deadLetters.map(job => (
+                <tr key={job.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="font-medium text-gray-900">{job.job_type}</div>
+                    <div className="text-xs text-gray-500 font-mono">{job.entity_id}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {job.attempts} / {job.max_attempts}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-red-600 max-w-md truncate" title={job.last_error || undefined}>
+                    {job.last_error || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(job.updated_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                    <button
+                      onClick={() => handleAction(job, 'retry')}
+                      disabled={busyId === job.id}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleAction(job, 'discard')}
+                      disabled={busyId === job.id}
+                      className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function QuickBooksManagement() {
   const [connectionStatus, setConnectionStatus] = useState<QBConnectionStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [syncLogs, setSyncLogs] = useState<SyncLog[]>([]);
   const [syncing, setSyncing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'connection' | 'diagnostics' | 'import' | 'sync' | 'logs'>('connection');
+  const [activeTab, setActiveTab] = useState<'connection' | 'diagnostics' | 'import' | 'reconcile' | 'products' | 'sync' | 'logs'>('connection');
   const [logStatusFilter, setLogStatusFilter] = useState<string>('all');
   const [logLimit, setLogLimit] = useState(50);
   const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
@@ -823,7 +1540,9 @@ export function QuickBooksManagement() {
       const { data: orders } = await supabase
         .from('orders')
         .select('id')
+        // Invoice-terms orders are invoiced by the sync queue
         .eq('sync_status', 'pending')
+        .or('payment_method.is.null,payment_method.neq.invoice')
         .limit(20);
 
       if (!orders || orders.length === 0) {
@@ -885,14 +1604,14 @@ export function QuickBooksManagement() {
         <div>
           <h2 className="text-2xl font-bold text-gray-900">QuickBooks Online Integration</h2>
           <p className="text-sm text-gray-500">
-            Manage QuickBooks connection, sync customers and invoices
+            Manage QuickBooks connection, sync customers, products and invoices
           </p>
         </div>
       </div>
 
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
-          {(['connection', 'diagnostics', 'import', 'sync', 'logs'] as const).map(tab => (
+          {(['connection', 'diagnostics', 'import', 'reconcile', 'products', 'sync', 'logs'] as const).map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -912,6 +1631,16 @@ export function QuickBooksManagement() {
                   <Upload className="h-4 w-4" />
                   Import Customers
                 </span>
+              ) : tab === 'reconcile' ? (
+                <span className="flex items-center gap-1.5">
+                  <GitCompare className="h-4 w-4" />
+                  Reconcile
+                </span>
+              ) : tab === 'products' ? (
+                <span className="flex items-center gap-1.5">
+                  <Package className="h-4 w-4" />
+                  Products
+                </span>
               ) : (
                 tab.charAt(0).toUpperCase() + tab.slice(1).replace(/([A-Z])/g, ' $1')
               )}
@@ -1070,6 +1799,14 @@ export function QuickBooksManagement() {
         <ImportCustomers connected={!!connectionStatus?.connected} />
       )}
 
+      {activeTab === 'reconcile' && (
+        <CustomerReconciliation connected={!!connectionStatus?.connected} />
+      )}
+
+      {activeTab === 'products' && (
+        <ProductSync connected={!!connectionStatus?.connected} />
+      )}
+
       {activeTab === 'sync' && (
         <div className="bg-white shadow sm:rounded-lg">
           <div className="px-4 py-5 sm:p-6">
@@ -1125,6 +1862,8 @@ export function QuickBooksManagement() {
       )}
 
       {activeTab === 'logs' && (
+        <>
+        <SyncQueue onChange={loadSyncLogs} />
         <div className="bg-white shadow overflow-hidden sm:rounded-lg">
           <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
             <div>
@@ -1141,6 +1880,7 @@ export function QuickBooksManagement() {
                 <option value="failed">Failed</option>
                 <option value="success">Success</option>
                 <option value="pending">Pending</option>
+                <option value="retry">Retry</option>
               </select>
               <select
                 value={logLimit}
@@ -1272,6 +2012,7 @@ export function QuickBooksManagement() {
             </div>
           </div>
         </div>
+        </>
       )}
     </div>
   );
@@ -0,0 +1,615 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Loader, Plus, Send, Pencil, X, Trash2, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  quoteService,
+  quotePriceFloor,
+  marginPercent,
+  quoteTotal,
+  quoteDisplayStatus,
+  quoteExpiryDate,
+  QUOTE_STATUS_LABELS,
+  DEFAULT_QUOTE_RULES,
+  type Quote,
+  type QuoteDisplayStatus,
+  type QuotePricingRules,
+} from '@/services/quotes';
+import { productService, type Product } from '@/services/productService';
+import { commissionService } from '@/services/commissionService';
+import { navigate } from '@/services/router';
+
+const STATUS_STYLES: Record<QuoteDisplayStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  declined: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-500',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
+type StatusFilter = 'open' | 'all' | QuoteDisplayStatus;
+
+interface EditorLine {
+  productId: number;
+  productName: string;
+  quantity: string;
+  unitPrice: string;
+  /** List price from the saved line, for products no longer in the catalog */
+  listPrice: number;
+}
+
+interface Editor {
+  id?: string;
+  organizationId: string;
+  salesRepId: string;
+  contactUserId: string;
+  contactEmail: string;
+  expiresAt: string;
+  notes: string;
+  internalNotes: string;
+  lines: EditorLine[];
+}
+
+type Contact = { id: string; email: string; full_name?: string | null };
+
+const inputClass = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const QuoteManagement: React.FC = () => {
+  const { user, profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [rules, setRules] = useState<QuotePricingRules>(DEFAULT_QUOTE_RULES);
+  const [organizations, setOrganizations] = useState<Array<{ id: string; name: string }>>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [reps, setReps] = useState<Array<{ id: string; email: string }>>([]);
+  const [productToAdd, setProductToAdd] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      setLoading(true);
+      const [result, pricingRules, orgs, catalog] = await Promise.all([
+        quoteService.getQuotes(),
+        quoteService.getPricingRules(),
+        quoteService.getQuotableOrganizations(user.id, isAdmin),
+        productService.getProducts().catch(() => [] as Product[]),
+      ]);
+      setQuotes(result.quotes);
+      setRules(pricingRules);
+      setOrganizations(orgs);
+      setProducts(catalog);
+      setLoading(false);
+    };
+    load();
+  }, [user, isAdmin, version]);
+
+  const editorOrgId = editor?.organizationId || '';
+
+  useEffect(() => {
+    if (!editorOrgId) {
+      setContacts([]);
+      setReps([]);
+      return;
+    }
+    const loadOrganization = async () => {
+      const [orgContacts, orgReps] = await Promise.all([
+        quoteService.getOrganizationContacts(editorOrgId),
+        isAdmin ? commissionService.getOrganizationSalesReps(editorOrgId) : Promise.resolve({ reps: [] }),
+      ]);
+      setContacts(orgContacts);
+      setReps(orgReps.reps.map((rep: { sales_rep_id: string; sales_rep?: { email?: string } }) => ({
+        id: rep.sales_rep_id,
+        email: rep.sales_rep?.email || rep.sales_rep_id,
+      })));
+    };
+    loadOrganization();
+  }, [editorOrgId, isAdmin]);
+
+  const reload = () => setVersion(v => v + 1);
+  const productById = new Map(products.map(product => [product.id, product]));
+
+  const startNew = () => {
+    setError(null);
+    setEditor({
+      organizationId: organizations.length === 1 ? organizations[0].id : '',
+      salesRepId: isAdmin ? '' : user?.id || '',
+      contactUserId: '',
+      contactEmail: '',
+      expiresAt: quoteExpiryDate(rules.defaultValidDays),
+      notes: '',
+      internalNotes: '',
+      lines: [],
+    });
+  };
+
+  const startEditing = (quote: Quote) => {
+    setError(null);
+    setExpandedId(null);
+    setEditor({
+      id: quote.id,
+      organizationId: quote.organization_id,
+      salesRepId: quote.sales_rep_id,
+      contactUserId: quote.contact_user_id || '',
+      contactEmail: quote.contact_email || '',
+      expiresAt: quote.expires_at,
+      notes: quote.notes || '',
+      internalNotes: quote.internal_notes || '',
+      lines: [...(quote.quote_lines || [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(line => ({
+          productId: line.product_id,
+          productName: line.product_name,
+          quantity: String(line.quantity),
+          unitPrice: Number(line.unit_price).toFixed(2),
+          listPrice: Number(line.list_price),
+        })),
+    });
+  };
+
+  const updateLine = (index: number, changes: Partial<EditorLine>) => {
+    if (!editor) return;
+    setEditor({ ...editor, lines: editor.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+  };
+
+  const addProduct = () => {
+    const product = productById.get(Number(productToAdd));
+    if (!editor || !product) return;
+    if (editor.lines.some(line => line.productId === product.id)) return;
+    setEditor({
+      ...editor,
+      lines: [...editor.lines, {
+        productId: product.id,
+        productName: product.name,
+        quantity: '1',
+        unitPrice: product.price.toFixed(2),
+        listPrice: product.price,
+      }],
+    });
+    setProductToAdd('');
+  };
+
+  const selectContact = (contactId: string) => {
+    if (!editor) return;
+    const contact = contacts.find(c => c.id === contactId);
+    setEditor({ ...editor, contactUserId: contactId, contactEmail: contact?.email || editor.contactEmail });
+  };
+
+  const handleSave = async (sendAfterSaving: boolean) => {
+    if (!editor) return;
+    if (!editor.organizationId || !editor.salesRepId) {
+      setError('Choose an organization and a sales rep');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    const saved = await quoteService.saveQuote({
+      id: editor.id,
+      organizationId: editor.organizationId,
+      salesRepId: editor.salesRepId,
+      contactUserId: editor.contactUserId || null,
+      contactEmail: editor.contactEmail,
+      expiresAt: editor.expiresAt,
+      notes: editor.notes,
+      internalNotes: editor.internalNotes,
+      lines: editor.lines.map(line => ({
+        productId: line.productId,
+        productName: line.productName,
+        quantity: Number(line.quantity) || 0,
+        unitPrice: Number(line.unitPrice),
+      })),
+    });
+
+    if (!saved.success || !saved.quoteId) {
+      setBusy(false);
+      setError(saved.error || 'Failed to save quote');
+      return;
+    }
+
+    if (sendAfterSaving) {
+      const { quotes: refreshed } = await quoteService.getQuotes({ organizationId: editor.organizationId });
+      const quote = refreshed.find(q => q.id === saved.quoteId);
+      const sent = quote ? await quoteService.sendQuote(quote) : { success: false, error: 'Quote not found' };
+      if (!sent.success) {
+        setBusy(false);
+        setError(`Saved as a draft, but not sent: ${sent.error || 'unknown error'}`);
+        setEditor({ ...editor, id: saved.quoteId });
+        reload();
+        return;
+      }
+    }
+
+    setBusy(false);
+    setEditor(null);
+    reload();
+  };
+
+  const handleSend = async (quote: Quote) => {
+    setBusy(true);
+    const result = await quoteService.sendQuote(quote);
+    setBusy(false);
+    if (!result.success) alert(result.error || 'Failed to send quote');
+    reload();
+  };
+
+  const handleReopen = async (quote: Quote) => {
+    if (!window.confirm('Take this quote back to draft? The customer cannot accept it until you send it again.')) return;
+    const result = await quoteService.reopenQuote(quote.id);
+    if (!result.success) {
+      alert(result.error || 'Failed to reopen quote');
+      reload();
+      return;
+    }
+    startEditing({ ...quote, status: 'draft' });
+    reload();
+  };
+
+  const handleCancel = async (quote: Quote) => {
+    if (!window.confirm(`Cancel quote ${quote.quote_number}?`)) return;
+    const result = await quoteService.cancelQuote(quote.id);
+    if (!result.success) alert(result.error || 'Failed to cancel quote');
+    reload();
+  };
+
+  const visibleQuotes = quotes.filter(quote => {
+    const status = quoteDisplayStatus(quote);
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return status === 'draft' || status === 'sent';
+    return status === statusFilter;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const renderEditor = (draft: Editor) => {
+    const total = quoteTotal(draft.lines.map(line => ({ quantity: Number(line.quantity) || 0, unit_price: Number(line.unitPrice) || 0 })));
+
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+        <h3 className="font-semibold text-gray-900">{draft.id ? 'Edit Quote' : 'New Quote'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Organization</span>
+            <select
+              value={draft.organizationId}
+              disabled={!!draft.id}
+              onChange={e => setEditor({ ...draft, organizationId: e.target.value, salesRepId: isAdmin ? '' : draft.salesRepId, contactUserId: '', contactEmail: '' })}
+              className={`${inputClass} w-full disabled:bg-gray-100`}
+            >
+              <option value="">Select an organization</option>
+              {organizations.map(org => <option key={org.id} value={org.id}>{org.name}</option>)}
+            </select>
+          </label>
+          {isAdmin && (
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>Sales rep (credited for commission)</span>
+              <select value={draft.salesRepId} onChange={e => setEditor({ ...draft, salesRepId: e.target.value })} className={`${inputClass} w-full`}>
+                <option value="">Select a sales rep</option>
+                {reps.map(rep => <option key={rep.id} value={rep.id}>{rep.email}</option>)}
+                {draft.salesRepId && !reps.some(rep => rep.id === draft.salesRepId) && (
+                  <option value={draft.salesRepId}>Current rep</option>
+                )}
+              </select>
+            </label>
+          )}
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Send to</span>
+            <select value={draft.contactUserId} onChange={e => selectContact(e.target.value)} className={`${inputClass} w-full`}>
+              <option value="">Other email address</option>
+              {contacts.map(contact => (
+                <option key={contact.id} value={contact.id}>{contact.full_name ? `${contact.full_name} (${contact.email})` : contact.email}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Contact email</span>
+            <input
+              type="email"
+              value={draft.contactEmail}
+              disabled={!!draft.contactUserId}
+              onChange={e => setEditor({ ...draft, contactEmail: e.target.value })}
+              className={`${inputClass} w-full disabled:bg-gray-100`}
+            />
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Valid until</span>
+            <input type="date" value={draft.expiresAt} onChange={e => setEditor({ ...draft, expiresAt: e.target.value })} className={`${inputClass} w-full`} />
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">List</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Floor</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Price</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Margin</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {draft.lines.map((line, index) => {
+                const product = productById.get(line.productId);
+                const listPrice = product?.price ?? line.listPrice;
+                const floor = quotePriceFloor(listPrice, product?.cost, rules);
+                const price = Number(line.unitPrice);
+                const margin = marginPercent(price, product?.cost);
+                const belowFloor = line.unitPrice !== '' && price < floor;
+                return (
+                  <tr key={line.productId}>
+                    <td className="px-3 py-2 text-sm text-gray-900">{line.productName}</td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={e => updateLine(index, { quantity: e.target.value })}
+                        className={`${inputClass} w-20 text-right`}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-700">${listPrice.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-500">${floor.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unitPrice}
+                        onChange={e => updateLine(index, { unitPrice: e.target.value })}
+                        className={`${inputClass} w-28 text-right ${belowFloor ? 'border-red-400' : ''}`}
+                      />
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-right ${belowFloor ? 'text-red-600' : 'text-gray-700'}`}>
+                      {margin == null ? '—' : `${margin}%`}
+                      {belowFloor && (
+                        <span className="flex items-center justify-end gap-1 text-xs">
+                          <AlertTriangle className="h-3 w-3" /> {isAdmin ? 'Below floor' : 'Below allowed price'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => setEditor({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {draft.lines.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-3 py-4 text-sm text-center text-gray-500">No products yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <select value={productToAdd} onChange={e => setProductToAdd(e.target.value)} className={`${inputClass} max-w-xs`}>
+                <option value="">Add a product...</option>
+                {products
+                  .filter(product => !draft.lines.some(line => line.productId === product.id))
+                  .map(product => <option key={product.id} value={product.id}>{product.name}</option>)}
+              </select>
+              <button onClick={addProduct} disabled={!productToAdd} className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+                <Plus className="h-4 w-4" /> Add
+              </button>
+            </div>
+            <span className="text-sm font-semibold text-gray-900">Total ${total.toFixed(2)}</span>
+          </div>
+          <p className="text-xs text-gray-500">
+            Quotes must keep at least {rules.minMarginPercent}% margin over cost and stay within {rules.maxDiscountPercent}% of list price
+            {isAdmin ? '; as an admin you can go below the floor.' : '.'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <textarea
+            placeholder="Notes for the customer (shown on the quote)"
+            rows={3}
+            value={draft.notes}
+            onChange={e => setEditor({ ...draft, notes: e.target.value })}
+            className={inputClass}
+          />
+          <textarea
+            placeholder="Internal notes (not shown to the customer)"
+            rows={3}
+            value={draft.internalNotes}
+            onChange={e => setEditor({ ...draft, internalNotes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        {error && <div className="px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setEditor(null)} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100">
+            Close
+          </button>
+          <button
+            onClick={() => handleSave(false)}
+            disabled={busy}
+            className="px-4 py-2 text-sm border border-teal-600 text-teal-700 rounded-lg hover:bg-teal-50 disabled:opacity-50"
+          >
+            Save draft
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={busy || !draft.contactEmail}
+            className="flex items-center gap-1 px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            <Send className="h-4 w-4" /> {busy ? 'Saving...' : 'Save & send'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Quotes</h2>
+          <p className="text-gray-600 mt-1">Build quotes with negotiated prices that customers accept online</p>
+        </div>
+        {!editor && (
+          <button
+            onClick={startNew}
+            disabled={organizations.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" /> New Quote
+          </button>
+        )}
+      </div>
+
+      {editor && renderEditor(editor)}
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">{isAdmin ? 'All Quotes' : 'My Quotes'}</h3>
+          <select
+            value={statusFilter}
+            onChange={e => setStatusFilter(e.target.value as StatusFilter)}
+            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+            {Object.entries(QUOTE_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {visibleQuotes.length === 0 ? (
+          <div className="p-12 text-center">
+            <FileText className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No quotes</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {visibleQuotes.map(quote => {
+              const expanded = expandedId === quote.id;
+              const status = quoteDisplayStatus(quote);
+              const lines = [...(quote.quote_lines || [])].sort((a, b) => a.sort_order - b.sort_order);
+
+              return (
+                <div key={quote.id}>
+                  <div className="px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+                    <button onClick={() => setExpandedId(expanded ? null : quote.id)} className="flex items-center gap-3 text-left">
+                      {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                      <span className="font-mono font-medium text-gray-900">{quote.quote_number}</span>
+                      <span className="text-gray-700">{quote.organizations?.name || '—'}</span>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`}>
+                        {QUOTE_STATUS_LABELS[status]}
+                      </span>
+                    </button>
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="text-gray-500">Valid until {new Date(`${quote.expires_at}T00:00:00`).toLocaleDateString()}</span>
+                      <span className="font-medium text-gray-900">${quoteTotal(lines).toFixed(2)}</span>
+                      {quote.status === 'draft' && (
+                        <>
+                          <button onClick={() => startEditing(quote)} className="flex items-center gap-1 text-teal-700 hover:text-teal-900">
+                            <Pencil className="h-4 w-4" /> Edit
+                          </button>
+                          <button
+                            onClick={() => handleSend(quote)}
+                            disabled={busy || !quote.contact_email}
+                            title={quote.contact_email ? undefined : 'Add a contact email first'}
+                            className="flex items-center gap-1 text-teal-700 hover:text-teal-900 disabled:opacity-50"
+                          >
+                            <Send className="h-4 w-4" /> Send
+                          </button>
+                        </>
+                      )}
+                      {quote.status === 'sent' && (
+                        <button onClick={() => handleReopen(quote)} className="flex items-center gap-1 text-teal-700 hover:text-teal-900">
+                          <Pencil className="h-4 w-4" /> Revise
+                        </button>
+                      )}
+                      {(quote.status === 'draft' || quote.status === 'sent') && (
+                        <button onClick={() => handleCancel(quote)} className="flex items-center gap-1 text-red-600 hover:text-red-800">
+                          <X className="h-4 w-4" /> Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">List</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quoted</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Margin</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {lines.map(line => {
+                            const margin = marginPercent(Number(line.unit_price), productById.get(line.product_id)?.cost);
+                            return (
+                              <tr key={line.id}>
+                                <td className="px-3 py-2 text-sm text-gray-900">{line.product_name}</td>
+                                <td className="px-3 py-2 text-sm text-right">{line.quantity}</td>
+                                <td className="px-3 py-2 text-sm text-right text-gray-500">${Number(line.list_price).toFixed(2)}</td>
+                                <td className="px-3 py-2 text-sm text-right">${Number(line.unit_price).toFixed(2)}</td>
+                                <td className="px-3 py-2 text-sm text-right text-gray-700">{margin == null ? '—' : `${margin}%`}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+
+                      <div className="text-xs text-gray-500 space-y-0.5">
+                        <p>Sales rep: {quote.sales_rep?.full_name || quote.sales_rep?.email || '—'}</p>
+                        {quote.contact_email && <p>Contact: {quote.contact_email}</p>}
+                        {quote.sent_at && <p>Sent {new Date(quote.sent_at).toLocaleString()}</p>}
+                        {quote.notes && <p>Notes: {quote.notes}</p>}
+                        {quote.internal_notes && <p>Internal notes: {quote.internal_notes}</p>}
+                        {quote.status === 'declined' && <p className="text-red-600">Declined{quote.decline_reason ? `: ${quote.decline_reason}` : ''}</p>}
+                        {quote.order_id && (
+                          <p>
+                            Accepted {quote.accepted_at ? new Date(quote.accepted_at).toLocaleDateString() : ''} ·{' '}
+                            <button onClick={() => navigate({ page: 'orders', orderId: quote.order_id || undefined })} className="text-teal-700 hover:text-teal-900">
+                              View order
+                            </button>
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuoteManagement;
@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { Undo2, Loader, Check, X, PackageCheck, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  returnService,
+  returnRefund,
+  RETURN_STATUS_LABELS,
+  RETURN_REASON_LABELS,
+  RETURN_CONDITION_LABELS,
+  type ReturnCondition,
+  type ReturnRequest,
+  type ReturnStatus,
+} from '@/services/returns';
+import { inventoryService, type Warehouse } from '@/services/inventory';
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+  received: 'bg-indigo-100 text-indigo-800',
+  refunded: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-700',
+};
+
+type StatusFilter = 'open' | 'all' | ReturnStatus;
+
+type Action =
+  | { kind: 'approve'; returnId: string; carrier: string; trackingNumber: string; labelUrl: string; notes: string }
+  | { kind: 'reject'; returnId: string; reason: string }
+  | { kind: 'receive'; returnId: string; warehouseId: string; lines: Record<string, { quantity: string; condition: ReturnCondition }> }
+  | { kind: 'close'; returnId: string; note: string };
+
+const OPEN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received'];
+
+const inputClass = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const ReturnManagement: React.FC = () => {
+  const { user } = useAuth();
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [action, setAction] = useState<Action | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [result, warehouseList] = await Promise.all([
+        returnService.getReturns(),
+        inventoryService.getWarehouses(),
+      ]);
+      setReturns(result.returns);
+      setWarehouses(warehouseList);
+      setLoading(false);
+    };
+    load();
+  }, [version]);
+
+  const reload = () => setVersion(v => v + 1);
+
+  const startReceiving = (ret: ReturnRequest) => {
+    setExpandedId(ret.id);
+    setAction({
+      kind: 'receive',
+      returnId: ret.id,
+      warehouseId: warehouses.find(w => w.is_default)?.id || '',
+      lines: Object.fromEntries((ret.return_request_lines || []).map(line => [
+        line.id,
+        { quantity: String(line.quantity), condition: 'resaleable' as ReturnCondition },
+      ])),
+    });
+  };
+
+  const handleSubmit = async (ret: ReturnRequest) => {
+    if (!action || !user) return;
+    setBusy(true);
+
+    let result: { success: boolean; error?: string };
+    if (action.kind === 'approve') {
+      result = await returnService.approve(ret, action);
+    } else if (action.kind === 'reject') {
+      result = action.reason.trim()
+        ? await returnService.reject(ret, action.reason)
+        : { success: false, error: 'Give the customer a reason' };
+    } else if (action.kind === 'receive') {
+      const received = await returnService.receive(
+        ret,
+        Object.entries(action.lines).map(([lineId, line]) => ({
+          lineId,
+          receivedQuantity: Number(line.quantity) || 0,
+          condition: Number(line.quantity) > 0 ? line.condition : null,
+        })),
+        user.id,
+        action.warehouseId || undefined
+      );
+      result = received;
+      if (received.success && !received.refunded) {
+        alert(`Return received, but the refund failed: ${received.error || 'unknown error'}. Retry it or close the return once settled.`);
+        result = { success: true };
+      }
+    } else {
+      result = await returnService.close(ret.id, action.note);
+    }
+
+    setBusy(false);
+    if (!result.success) {
+      alert(result.error || 'Failed to update return');
+      return;
+    }
+    setAction(null);
+    reload();
+  };
+
+  const handleRetryRefund = async (ret: ReturnRequest) => {
+    if (!user) return;
+    setBusy(true);
+    const result = await returnService.issueRefund(ret.id, user.id);
+    setBusy(false);
+    if (!result.success) alert(result.error || 'Refund failed');
+    reload();
+  };
+
+  const visibleReturns = returns.filter(ret =>
+    statusFilter === 'all' ||
+    (statusFilter === 'open' ? OPEN_STATUSES.includes(ret.status) : ret.status === statusFilter)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const renderAction = (ret: ReturnRequest) => {
+    if (!action || action.returnId !== ret.id) return null;
+
+    return (
+      <div className="border border-gray-200 rounded-lg p-3 space-y-3 bg-gray-50">
+        {action.kind === 'approve' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input placeholder="Return carrier (optional)" value={action.carrier} onChange={e => setAction({ ...action, carrier: e.target.value })} className={inputClass} />
+            <input placeholder="Return tracking number (optional)" value={action.trackingNumber} onChange={e => setAction({ ...action, trackingNumber: e.target.value })} className={inputClass} />
+            <input placeholder="Prepaid label URL (optional)" value={action.labelUrl} onChange={e => setAction({ ...action, labelUrl: e.target.value })} className={`${inputClass} md:col-span-2`} />
+            <textarea placeholder="Instructions for the customer (optional)" rows={2} value={action.notes} onChange={e => setAction({ ...action, notes: e.target.value })} className={`${inputClass} md:col-span-2`} />
+          </div>
+        )}
+        {action.kind === 'reject' && (
+          <textarea placeholder="Reason shown to the customer" rows={2} value={action.reason} onChange={e => setAction({ ...action, reason: e.target.value })} className={`${inputClass} w-full`} />
+        )}
+        {action.kind === 'receive' && (
+          <>
+            {(ret.return_request_lines || []).map(line => {
+              const draft = action.lines[line.id];
+              return (
+                <div key={line.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="flex-1 min-w-[12rem] text-gray-900">{line.product_name} <span className="text-gray-500">({line.quantity} expected)</span></span>
+                  <input
+                    type="number"
+                    min="0"
+                    max={line.quantity}
+                    value={draft.quantity}
+                    onChange={e => setAction({ ...action, lines: { ...action.lines, [line.id]: { ...draft, quantity: e.target.value } } })}
+                    className={`${inputClass} w-20 text-right`}
+                  />
+                  <select
+                    value={draft.condition}
+                    onChange={e => setAction({ ...action, lines: { ...action.lines, [line.id]: { ...draft, condition: e.target.value as ReturnCondition } } })}
+                    className={inputClass}
+                  >
+                    {Object.entries(RETURN_CONDITION_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2 text-sm">
+              <label className="text-gray-700">Restock resaleable units into</label>
+              <select value={action.warehouseId} onChange={e => setAction({ ...action, warehouseId: e.target.value })} className={inputClass}>
+                <option value="">Default warehouse</option>
+                {warehouses.filter(w => w.is_active).map(w => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-600">
+              Refund: ${returnRefund(
+                (ret.return_request_lines || []).map(line => ({ ...line, received_quantity: Number(action.lines[line.id]?.quantity) || 0 })),
+                ret.orders || { subtotal: 0, tax: 0 }
+              ).amount.toFixed(2)} including tax, excluding shipping
+            </p>
+          </>
+        )}
+        {action.kind === 'close' && (
+          <textarea placeholder="How was the refund settled? e.g. credited on invoice INV-1042" rows={2} value={action.note} onChange={e => setAction({ ...action, note: e.target.value })} className={`${inputClass} w-full`} />
+        )}
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setAction(null)} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            onClick={() => handleSubmit(ret)}
+            disabled={busy}
+            className="px-4 py-2 text-sm bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+          >
+            {busy ? 'Saving...' : action.kind === 'approve' ? 'Approve' : action.kind === 'reject' ? 'Reject' : action.kind === 'receive' ? 'Receive & refund' : 'Close return'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Returns</h2>
+        <p className="text-gray-600 mt-1">Approve return requests, receive returned items and refund them</p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Return Requests</h3>
+          <select
+            value={statusFilter}
+            onChange={e => setStatusFilter(e.target.value as StatusFilter)}
+            className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+            {Object.entries(RETURN_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {visibleReturns.length === 0 ? (
+          <div className="p-12 text-center">
+            <Undo2 className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No return requests</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {visibleReturns.map(ret => {
+              const expanded = expandedId === ret.id;
+              const lines = ret.return_request_lines || [];
+              const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+              return (
+                <div key={ret.id}>
+                  <div className="px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+                    <button onClick={() => setExpandedId(expanded ? null : ret.id)} className="flex items-center gap-3 text-left">
+                      {expanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                      <span className="font-mono font-medium text-gray-900">{ret.rma_number || '—'}</span>
+                      <span className="text-gray-700">Order {ret.orders?.order_number || ret.order_id.slice(0, 8)}</span>
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[ret.status]}`}>
+                        {RETURN_STATUS_LABELS[ret.status]}
+                      </span>
+                      {ret.refund_error && <span className="text-xs text-red-600">Refund failed</span>}
+                    </button>
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="text-gray-500">{new Date(ret.created_at).toLocaleDateString()}</span>
+                      <span className="text-gray-700">{units} unit{units === 1 ? '' : 's'}</span>
+                      {ret.status === 'requested' && (
+                        <>
+                          <button
+                            onClick={() => { setExpandedId(ret.id); setAction({ kind: 'approve', returnId: ret.id, carrier: '', trackingNumber: '', labelUrl: '', notes: '' }); }}
+                            className="flex items-center gap-1 text-teal-700 hover:text-teal-900"
+                          >
+                            <Check className="h-4 w-4" /> Approve
+                          </button>
+                          <button
+                            onClick={() => { setExpandedId(ret.id); setAction({ kind: 'reject', returnId: ret.id, reason: '' }); }}
+                            className="flex items-center gap-1 text-red-600 hover:text-red-800"
+                          >
+                            <X className="h-4 w-4" /> Reject
+                          </button>
+                        </>
+                      )}
+                      {ret.status === 'approved' && (
+                        <button onClick={() => startReceiving(ret)} className="flex items-center gap-1 text-teal-700 hover:text-teal-900">
+                          <PackageCheck className="h-4 w-4" /> Receive
+                        </button>
+                      )}
+                      {ret.status === 'received' && (
+                        <>
+                          <button onClick={() => handleRetryRefund(ret)} disabled={busy} className="flex items-center gap-1 text-teal-700 hover:text-teal-900 disabled:opacity-50">
+                            <RefreshCw className="h-4 w-4" /> Retry refund
+                          </button>
+                          <button
+                            onClick={() => { setExpandedId(ret.id); setAction({ kind: 'close', returnId: ret.id, note: '' }); }}
+                            className="text-gray-700 hover:text-gray-900"
+                          >
+                            Close
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reason</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Restocked</th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Price</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {lines.map(line => (
+                            <tr key={line.id}>
+                              <td className="px-3 py-2 text-sm text-gray-900">{line.product_name}</td>
+                              <td className="px-3 py-2 text-sm text-gray-700">
+                                {RETURN_REASON_LABELS[line.reason_code]}
+                                {line.reason_note && <span className="block text-xs text-gray-500">{line.reason_note}</span>}
+                              </td>
+                              <td className="px-3 py-2 text-sm text-right">{line.quantity}</td>
+                              <td className="px-3 py-2 text-sm text-right text-gray-700">
+                                {line.received_quantity ?? '—'}
+                                {line.condition && <span className="block text-xs text-gray-500">{RETURN_CONDITION_LABELS[line.condition]}</span>}
+                              </td>
+                              <td className="px-3 py-2 text-sm text-right text-gray-700">{line.restocked_quantity}</td>
+                              <td className="px-3 py-2 text-sm text-right">${Number(line.unit_price).toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      <div className="text-xs text-gray-500 space-y-0.5">
+                        {ret.orders?.customer_email && <p>Customer: {ret.orders.customer_email}</p>}
+                        {ret.customer_notes && <p>Customer notes: {ret.customer_notes}</p>}
+                        {ret.return_tracking_number && <p>Return tracking: {ret.return_carrier} {ret.return_tracking_number}</p>}
+                        {ret.admin_notes && <p>Notes: {ret.admin_notes}</p>}
+                        {ret.rejection_reason && <p>Rejected: {ret.rejection_reason}</p>}
+                        {ret.refund_amount != null && <p>Refunded ${Number(ret.refund_amount).toFixed(2)}</p>}
+                        {ret.refund_error && <p className="text-red-600">Refund error: {ret.refund_error}</p>}
+                      </div>
+
+                      {renderAction(ret)}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnManagement;
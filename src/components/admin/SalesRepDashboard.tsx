@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Building2, Users, DollarSign, TrendingUp, Plus, Pencil, X, MapPin, Mail, Phone, ArrowLeft, Save, Search, Eye, Settings, CheckCircle, Archive } from 'lucide-react';
+import { Building2, Users, DollarSign, TrendingUp, Plus, Pencil, X, MapPin, Mail, Phone, ArrowLeft, Save, Search, Eye, Settings, CheckCircle, Archive, MessageSquare } from 'lucide-react';
 import { supabase } from '@/services/supabase';
 import { useAuth } from '@/contexts/AuthContext';
+import { commissionAdjustmentService } from '@/services/commissionAdjustments';
+import { salesCrmService, PIPELINE_STAGE_LABELS, type PipelineStage, type ReorderPrediction } from '@/services/salesCrm';
 import CustomerUserManagement from './CustomerUserManagement';
 import PricingManagement from './PricingManagement';
 import AddressManagement from './AddressManagement';
+import PayoutStatements from './PayoutStatements';
+import CommissionDisputes from './CommissionDisputes';
+import OrganizationCrm from './OrganizationCrm';
+import CrmWorkQueue from './CrmWorkQueue';
 
 interface AssignedOrganization {
   id: string;
@@ -20,9 +26,10 @@ interface AssignedOrganization {
   zip?: string;
   commission_rate: number;
   is_active: boolean;
+  pipeline_stage: PipelineStage;
 }
 
-type SubTab = 'customers' | 'pricing' | 'addresses';
+type SubTab = 'customers' | 'pricing' | 'addresses' | 'activity';
 
 const emptyOrg = {
   name: '', code: '', contact_name: '', contact_email: '', contact_phone: '',
@@ -43,17 +50,20 @@ const SalesRepDashboard: React.FC = () => {
   const [success, setSuccess] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [orgStats, setOrgStats] = useState<{ [key: string]: { addresses: number; users: number } }>({});
+  const [reorderPredictions, setReorderPredictions] = useState<Record<string, ReorderPrediction>>({});
   const [stats, setStats] = useState({
     totalOrgs: 0,
     activeOrgs: 0,
     totalCustomers: 0,
-    pendingCommissions: 0
+    pendingCommissions: 0,
+    pendingAdjustments: 0
   });
 
   useEffect(() => {
     if (effectiveUserId) {
       fetchAssignedOrganizations();
       fetchStats();
+      salesCrmService.getReorderPredictions(effectiveUserId).then(setReorderPredictions);
     }
   }, [effectiveUserId]);
 
@@ -95,7 +105,7 @@ const SalesRepDashboard: React.FC = () => {
           organizations:organization_id (
             id, name, code, contact_name, description,
             contact_email, contact_phone,
-            address, city, state, zip, is_active
+            address, city, state, zip, is_active, pipeline_stage
           )
         `)
         .eq('sales_rep_id', effectiveUserId!)
@@ -116,7 +126,8 @@ const SalesRepDashboard: React.FC = () => {
         state: item.organizations.state,
         zip: item.organizations.zip,
         commission_rate: item.commission_rate,
-        is_active: item.organizations.is_active
+        is_active: item.organizations.is_active,
+        pipeline_stage: item.organizations.pipeline_stage
       })) || [];
 
       setOrganizations(orgs);
@@ -161,7 +172,7 @@ const SalesRepDashboard: React.FC = () => {
 
       const orgIds = orgData?.map(o => o.organization_id) || [];
 
-      const [customerCount, commissionsData] = await Promise.all([
+      const [customerCount, commissionsData, adjustmentTotals] = await Promise.all([
         supabase
           .from('user_organization_roles')
           .select('id', { count: 'exact', head: true })
@@ -170,7 +181,8 @@ const SalesRepDashboard: React.FC = () => {
           .from('commissions')
           .select('commission_amount')
           .eq('sales_rep_id', effectiveUserId!)
-          .in('status', ['pending', 'approved'])
+          .in('status', ['pending', 'approved']),
+        commissionAdjustmentService.getPendingTotals([effectiveUserId!])
       ]);
 
       const totalCommissions = commissionsData.data?.reduce(
@@ -182,7 +194,8 @@ const SalesRepDashboard: React.FC = () => {
         totalOrgs: orgIds.length,
         activeOrgs: orgIds.length,
         totalCustomers: customerCount.count || 0,
-        pendingCommissions: totalCommissions
+        pendingCommissions: totalCommissions,
+        pendingAdjustments: adjustmentTotals[effectiveUserId!] || 0
       });
     } catch (err) {
       console.error('Error fetching stats:', err);
@@ -361,6 +374,17 @@ const SalesRepDashboard: React.FC = () => {
                 <MapPin className="inline h-4 w-4 mr-2" />
                 Addresses
               </button>
+              <button
+                onClick={() => setActiveSubTab('activity')}
+                className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                  activeSubTab === 'activity'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                <MessageSquare className="inline h-4 w-4 mr-2" />
+                Activity
+              </button>
             </nav>
           </div>
 
@@ -374,6 +398,18 @@ const SalesRepDashboard: React.FC = () => {
             {activeSubTab === 'addresses' && (
               <AddressManagement organizationId={selectedOrg.id} />
             )}
+            {activeSubTab === 'activity' && effectiveUserId && (
+              <OrganizationCrm
+                organizationId={selectedOrg.id}
+                stage={selectedOrg.pipeline_stage}
+                userId={effectiveUserId}
+                prediction={reorderPredictions[selectedOrg.id]}
+                onStageChanged={(stage) => {
+                  setSelectedOrg({ ...selectedOrg, pipeline_stage: stage });
+                  setOrganizations(orgs => orgs.map(o => (o.id === selectedOrg.id ? { ...o, pipeline_stage: stage } : o)));
+                }}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -618,13 +654,34 @@ const SalesRepDashboard: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-500">Pending Commission</p>
               <p className="text-2xl font-semibold text-gray-900">
-                ${stats.pendingCommissions.toFixed(2)}
+                ${(stats.pendingCommissions + stats.pendingAdjustments).toFixed(2)}
               </p>
+              {stats.pendingAdjustments !== 0 && (
+                <p className="text-xs text-orange-600">
+                  After ${stats.pendingAdjustments.toFixed(2)} in refund clawbacks
+                </p>
+              )}
             </div>
           </div>
         </div>
       </div>
 
+      {effectiveUserId && (
+        <CrmWorkQueue
+          salesRepId={effectiveUserId}
+          organizations={organizations}
+          predictions={reorderPredictions}
+          onOpenOrganization={(orgId) => {
+            const org = organizations.find(o => o.id === orgId);
+            if (org) { setSelectedOrg(org); setActiveSubTab('activity'); }
+          }}
+        />
+      )}
+
+      {effectiveUserId && <PayoutStatements payeeId={effectiveUserId} />}
+
+      {effectiveUserId && <CommissionDisputes payeeId={effectiveUserId} />}
+
       {/* Organizations Table */}
       {(() => {
         const filteredOrgs = organizations.filter((org) => {
@@ -757,6 +814,12 @@ const SalesRepDashboard: React.FC = () => {
                               }`}>
                                 {org.is_active ? 'Active' : 'Inactive'}
                               </span>
+                              <span className="text-xs text-purple-700">{PIPELINE_STAGE_LABELS[org.pipeline_stage]}</span>
+                              {reorderPredictions[org.id] && reorderPredictions[org.id].status !== 'upcoming' && (
+                                <span className={`text-xs ${reorderPredictions[org.id].status === 'overdue' ? 'text-red-600' : 'text-orange-600'}`}>
+                                  Reorder {reorderPredictions[org.id].status === 'overdue' ? 'overdue' : 'due'}
+                                </span>
+                              )}
                               <span className="text-xs text-gray-500">{org.commission_rate}% Commission</span>
                             </div>
                           </td>
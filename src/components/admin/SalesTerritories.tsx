@@ -0,0 +1,629 @@
+import React, { useState, useEffect } from 'react';
+import { Map as MapIcon, Plus, X, Loader, Pencil, ArrowRightLeft, MapPin, Power } from 'lucide-react';
+import {
+  territoryService,
+  matchTerritory,
+  parseRuleList,
+  REASSIGNMENT_STATUS_LABELS,
+  type ReassignmentStatus,
+  type SalesTerritory,
+  type TerritoryInput,
+  type TerritoryOrgType,
+  type TerritoryOwners,
+  type TerritoryReassignment,
+} from '@/services/territories';
+
+const inputCls = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const REASSIGNMENT_STYLES: Record<ReassignmentStatus, string> = {
+  scheduled: 'bg-yellow-100 text-yellow-800',
+  applied: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const ORG_TYPES: TerritoryOrgType[] = ['customer', 'distributor'];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface EditorState {
+  id: string | null;
+  name: string;
+  description: string;
+  states: string;
+  zipPrefixes: string;
+  orgTypes: TerritoryOrgType[];
+  salesRepId: string;
+  distributorId: string;
+  commissionRate: string;
+}
+
+const EMPTY_EDITOR: EditorState = {
+  id: null,
+  name: '',
+  description: '',
+  states: '',
+  zipPrefixes: '',
+  orgTypes: [],
+  salesRepId: '',
+  distributorId: '',
+  commissionRate: '',
+};
+
+interface ReassignState {
+  territory: SalesTerritory;
+  salesRepId: string;
+  distributorId: string;
+  commissionRate: string;
+  effectiveDate: string;
+  notes: string;
+}
+
+const SalesTerritories: React.FC = () => {
+  const [territories, setTerritories] = useState<SalesTerritory[]>([]);
+  const [orgCounts, setOrgCounts] = useState<Record<string, number>>({});
+  const [reassignments, setReassignments] = useState<TerritoryReassignment[]>([]);
+  const [owners, setOwners] = useState<TerritoryOwners>({ salesReps: [], distributors: [], memberships: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [reassign, setReassign] = useState<ReassignState | null>(null);
+  const [testAddress, setTestAddress] = useState({ state: '', zip: '', org_type: 'customer' });
+
+  useEffect(() => {
+    const load = async () => {
+      const [territoryResult, counts, reassignmentResult] = await Promise.all([
+        territoryService.getTerritories(),
+        territoryService.getOrganizationCounts(),
+        territoryService.getReassignments(),
+      ]);
+      setTerritories(territoryResult.territories);
+      setOrgCounts(counts);
+      setReassignments(reassignmentResult.reassignments);
+      if (territoryResult.error || reassignmentResult.error) setError(territoryResult.error || reassignmentResult.error || null);
+      setLoading(false);
+    };
+    load();
+  }, [version]);
+
+  useEffect(() => {
+    territoryService.getOwners().then(setOwners);
+  }, []);
+
+  const refresh = () => setVersion(v => v + 1);
+
+  const repName = (id: string | null) => {
+    const rep = owners.salesReps.find(r => r.id === id);
+    return rep ? rep.full_name || rep.email : null;
+  };
+  const distributorName = (id: string | null) => owners.distributors.find(d => d.id === id)?.name || null;
+
+  const ownerLabel = (salesRepId: string | null, distributorId: string | null) => {
+    const rep = repName(salesRepId);
+    const distributor = distributorName(distributorId);
+    if (rep && distributor) return `${rep} (${distributor})`;
+    return rep || distributor || '—';
+  };
+
+  /** Reps a territory can be given to; under a distributor, only that distributor's reps */
+  const eligibleReps = (distributorId: string) =>
+    distributorId
+      ? owners.salesReps.filter(r => owners.memberships.some(m => m.distributor_id === distributorId && m.sales_rep_id === r.id))
+      : owners.salesReps;
+
+  const scheduledFor = (territoryId: string) =>
+    reassignments.find(r => r.territory_id === territoryId && r.status === 'scheduled');
+
+  const openEditor = (territory?: SalesTerritory) => {
+    setError(null);
+    setEditor(territory ? {
+      id: territory.id,
+      name: territory.name,
+      description: territory.description || '',
+      states: territory.states.join(', '),
+      zipPrefixes: territory.zip_prefixes.join(', '),
+      orgTypes: territory.org_types,
+      salesRepId: territory.sales_rep_id || '',
+      distributorId: territory.distributor_id || '',
+      commissionRate: String(territory.commission_rate),
+    } : EMPTY_EDITOR);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editor) return;
+    const input: TerritoryInput = {
+      name: editor.name,
+      description: editor.description,
+      states: parseRuleList(editor.states, s => s.toUpperCase()),
+      zip_prefixes: parseRuleList(editor.zipPrefixes),
+      org_types: editor.orgTypes,
+      sales_rep_id: editor.salesRepId || null,
+      distributor_id: editor.distributorId || null,
+      commission_rate: editor.commissionRate === '' ? NaN : Number(editor.commissionRate),
+    };
+    setSaving(true);
+    setError(null);
+    const result = await territoryService.saveTerritory(editor.id, input);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error || 'Failed to save territory');
+      return;
+    }
+    setEditor(null);
+    setNotice(editor.id ? null : 'Territory created. Use "Assign Unassigned Customers" to place existing customers without a rep.');
+    refresh();
+  };
+
+  const handleToggleActive = async (territory: SalesTerritory) => {
+    const result = await territoryService.setActive(territory.id, !territory.is_active);
+    if (!result.success) setError(result.error || 'Failed to update territory');
+    refresh();
+  };
+
+  const handleAssignUnassigned = async () => {
+    if (!window.confirm('Assign every active customer without a sales rep to the territory its address matches?')) return;
+    setError(null);
+    const result = await territoryService.assignUnassigned();
+    if (!result.success) {
+      setError(result.error || 'Failed to assign customers');
+      return;
+    }
+    setNotice(`${result.assigned} customer${result.assigned === 1 ? '' : 's'} assigned.`);
+    refresh();
+  };
+
+  const openReassign = (territory: SalesTerritory) => {
+    setError(null);
+    setReassign({
+      territory,
+      salesRepId: '',
+      distributorId: '',
+      commissionRate: String(territory.commission_rate),
+      effectiveDate: today(),
+      notes: '',
+    });
+  };
+
+  const handleReassign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reassign) return;
+    const rate = Number(reassign.commissionRate);
+    if (reassign.commissionRate === '' || Number.isNaN(rate) || rate < 0 || rate > 100) {
+      setError('Commission rate must be between 0 and 100');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    const result = await territoryService.reassignTerritory(
+      reassign.territory.id,
+      { salesRepId: reassign.salesRepId, distributorId: reassign.distributorId },
+      rate,
+      reassign.effectiveDate,
+      reassign.notes
+    );
+    setSaving(false);
+    if (!result.success || !result.result) {
+      setError(result.error || 'Failed to reassign territory');
+      return;
+    }
+    const { status, organizations_moved, orders_moved, orders_skipped } = result.result;
+    setNotice(status === 'scheduled'
+      ? `${reassign.territory.name} will be reassigned on ${reassign.effectiveDate}.`
+      : `${reassign.territory.name} reassigned: ${organizations_moved} customer(s) and ${orders_moved} order(s) moved`
+        + (orders_skipped ? `; ${orders_skipped} order(s) with paid or locked commissions left with the previous owner.` : '.'));
+    setReassign(null);
+    refresh();
+  };
+
+  const handleCancelReassignment = async (reassignment: TerritoryReassignment) => {
+    if (!window.confirm('Cancel this scheduled reassignment?')) return;
+    const result = await territoryService.cancelReassignment(reassignment.id);
+    if (!result.success) setError(result.error || 'Failed to cancel reassignment');
+    refresh();
+  };
+
+  const testMatch = testAddress.state || testAddress.zip ? matchTerritory(territories, testAddress) : null;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader className="h-8 w-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Sales Territories</h2>
+          <p className="text-gray-600 mt-1">New customers are assigned to the territory their address matches.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleAssignUnassigned}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Assign Unassigned Customers
+          </button>
+          <button
+            onClick={() => openEditor()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Territory</span>
+          </button>
+        </div>
+      </div>
+
+      {error && !editor && !reassign && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600"><X className="h-4 w-4" /></button>
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 flex items-center justify-between">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-green-500 hover:text-green-700"><X className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2 mb-3">
+          <MapPin className="h-4 w-4 text-gray-500" /> Which territory would a customer fall in?
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={testAddress.state}
+            onChange={(e) => setTestAddress({ ...testAddress, state: e.target.value })}
+            placeholder="State"
+            maxLength={2}
+            className={`${inputCls} w-20 uppercase`}
+          />
+          <input
+            value={testAddress.zip}
+            onChange={(e) => setTestAddress({ ...testAddress, zip: e.target.value })}
+            placeholder="ZIP"
+            className={`${inputCls} w-28`}
+          />
+          <select
+            value={testAddress.org_type}
+            onChange={(e) => setTestAddress({ ...testAddress, org_type: e.target.value })}
+            className={`${inputCls} w-36`}
+          >
+            {ORG_TYPES.map(type => <option key={type} value={type} className="capitalize">{type}</option>)}
+          </select>
+          {(testAddress.state || testAddress.zip) && (
+            <span className="text-sm text-gray-700">
+              {testMatch
+                ? <>→ <strong>{testMatch.name}</strong> ({ownerLabel(testMatch.sales_rep_id, testMatch.distributor_id)})</>
+                : '→ No territory; the customer stays unassigned'}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {territories.length === 0 ? (
+          <div className="px-6 py-8 text-center text-sm text-gray-500">
+            No territories yet. Customers are assigned to reps by hand until one is created.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Territory</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Matches</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Owner</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Customers</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {territories.map(territory => {
+                const scheduled = scheduledFor(territory.id);
+                return (
+                  <tr key={territory.id} className={territory.is_active ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-6 py-3">
+                      <div className="font-medium text-gray-900">{territory.name}</div>
+                      {!territory.is_active && <div className="text-xs text-gray-500">Inactive</div>}
+                      {territory.description && <div className="text-xs text-gray-500">{territory.description}</div>}
+                    </td>
+                    <td className="px-6 py-3 text-gray-700">
+                      {territory.states.length > 0 && <div>States: {territory.states.join(', ')}</div>}
+                      {territory.zip_prefixes.length > 0 && <div>ZIPs: {territory.zip_prefixes.map(z => `${z}*`).join(', ')}</div>}
+                      {territory.org_types.length > 0 && <div className="capitalize">Type: {territory.org_types.join(', ')}</div>}
+                    </td>
+                    <td className="px-6 py-3 text-gray-700">
+                      {ownerLabel(territory.sales_rep_id, territory.distributor_id)}
+                      {scheduled && (
+                        <div className="text-xs text-yellow-700">
+                          → {ownerLabel(scheduled.to_sales_rep_id, scheduled.to_distributor_id)} on {scheduled.effective_date}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right text-gray-700">{Number(territory.commission_rate)}%</td>
+                    <td className="px-6 py-3 text-right text-gray-700">{orgCounts[territory.id] || 0}</td>
+                    <td className="px-6 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button onClick={() => openEditor(territory)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg" title="Edit rules">
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openReassign(territory)}
+                          disabled={!!scheduled}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-40"
+                          title={scheduled ? 'A reassignment is already scheduled' : 'Reassign territory'}
+                        >
+                          <ArrowRightLeft className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(territory)}
+                          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                          title={territory.is_active ? 'Deactivate (stop assigning new customers)' : 'Activate'}
+                        >
+                          <Power className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {reassignments.length > 0 && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Reassignments</h3>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Territory</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From → To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {reassignments.map(reassignment => (
+                <tr key={reassignment.id}>
+                  <td className="px-6 py-3 text-gray-900">{reassignment.effective_date}</td>
+                  <td className="px-6 py-3 text-gray-700">{reassignment.sales_territories?.name}</td>
+                  <td className="px-6 py-3 text-gray-700">
+                    {ownerLabel(reassignment.from_sales_rep_id, reassignment.from_distributor_id)}
+                    {' → '}
+                    {ownerLabel(reassignment.to_sales_rep_id, reassignment.to_distributor_id)} at {Number(reassignment.commission_rate)}%
+                    {reassignment.notes && <div className="text-xs text-gray-500">{reassignment.notes}</div>}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${REASSIGNMENT_STYLES[reassignment.status]}`}>
+                      {REASSIGNMENT_STATUS_LABELS[reassignment.status]}
+                    </span>
+                    {reassignment.status === 'applied' && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {reassignment.organizations_moved} customers · {reassignment.orders_moved} orders moved
+                        {reassignment.orders_skipped > 0 && <> · {reassignment.orders_skipped} kept (paid/locked)</>}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {reassignment.status === 'scheduled' && (
+                      <button onClick={() => handleCancelReassignment(reassignment)} className="text-sm text-gray-500 hover:text-red-600">
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleSave} className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <MapIcon className="h-5 w-5 text-blue-600" /> {editor.id ? 'Edit Territory' : 'New Territory'}
+              </h3>
+              <button type="button" onClick={() => setEditor(null)} className="p-1 hover:bg-gray-100 rounded-full">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input value={editor.name} onChange={(e) => setEditor({ ...editor, name: e.target.value })} className={inputCls} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input value={editor.description} onChange={(e) => setEditor({ ...editor, description: e.target.value })} className={inputCls} />
+            </div>
+
+            <p className="text-xs text-gray-500">Every rule you fill in must match. Leave a rule empty to match any value.</p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">States</label>
+              <input
+                value={editor.states}
+                onChange={(e) => setEditor({ ...editor, states: e.target.value })}
+                placeholder="e.g. CA, NV, AZ"
+                className={inputCls}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ZIP prefixes</label>
+              <input
+                value={editor.zipPrefixes}
+                onChange={(e) => setEditor({ ...editor, zipPrefixes: e.target.value })}
+                placeholder="e.g. 900, 9021"
+                className={inputCls}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Org types</label>
+              <div className="flex gap-4">
+                {ORG_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-1 text-sm text-gray-700 capitalize">
+                    <input
+                      type="checkbox"
+                      checked={editor.orgTypes.includes(type)}
+                      onChange={(e) => setEditor({
+                        ...editor,
+                        orgTypes: e.target.checked ? [...editor.orgTypes, type] : editor.orgTypes.filter(t => t !== type),
+                      })}
+                      className="rounded"
+                    />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {editor.id ? (
+              <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+                Owned by {ownerLabel(editor.salesRepId || null, editor.distributorId || null)} at {editor.commissionRate}%.
+                Use Reassign to hand the territory to someone else or change its rate.
+              </p>
+            ) : (
+              <OwnerFields
+                owners={owners}
+                distributorId={editor.distributorId}
+                salesRepId={editor.salesRepId}
+                commissionRate={editor.commissionRate}
+                eligibleReps={eligibleReps(editor.distributorId)}
+                onChange={(changes) => setEditor({ ...editor, ...changes })}
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setEditor(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+              <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save Territory'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {reassign && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleReassign} className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Reassign {reassign.territory.name}</h3>
+              <button type="button" onClick={() => setReassign(null)} className="p-1 hover:bg-gray-100 rounded-full">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+            <p className="text-sm text-gray-600">
+              Currently {ownerLabel(reassign.territory.sales_rep_id, reassign.territory.distributor_id)} at {Number(reassign.territory.commission_rate)}%,
+              {' '}{orgCounts[reassign.territory.id] || 0} customer(s).
+            </p>
+
+            <OwnerFields
+              owners={owners}
+              distributorId={reassign.distributorId}
+              salesRepId={reassign.salesRepId}
+              commissionRate={reassign.commissionRate}
+              eligibleReps={eligibleReps(reassign.distributorId)}
+              onChange={(changes) => setReassign({ ...reassign, ...changes })}
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective date</label>
+              <input
+                type="date"
+                value={reassign.effectiveDate}
+                onChange={(e) => setReassign({ ...reassign, effectiveDate: e.target.value })}
+                className={`${inputCls} w-44`}
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Orders placed on or after this date earn the new owner's commission. A past date also moves orders
+                already placed since then, unless their commission is paid or in a payout run.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input value={reassign.notes} onChange={(e) => setReassign({ ...reassign, notes: e.target.value })} className={inputCls} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setReassign(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">Cancel</button>
+              <button
+                type="submit"
+                disabled={saving || (!reassign.salesRepId && !reassign.distributorId)}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : reassign.effectiveDate > today() ? 'Schedule Reassignment' : 'Reassign Now'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface OwnerFieldsProps {
+  owners: TerritoryOwners;
+  distributorId: string;
+  salesRepId: string;
+  commissionRate: string;
+  eligibleReps: TerritoryOwners['salesReps'];
+  onChange: (changes: { distributorId?: string; salesRepId?: string; commissionRate?: string }) => void;
+}
+
+/** Owner picker: a sales rep, a distributor, or a rep working under a distributor */
+const OwnerFields: React.FC<OwnerFieldsProps> = ({ owners, distributorId, salesRepId, commissionRate, eligibleReps, onChange }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Distributor</label>
+      <select
+        value={distributorId}
+        onChange={(e) => onChange({ distributorId: e.target.value, salesRepId: '' })}
+        className={inputCls}
+      >
+        <option value="">None (company rep)</option>
+        {owners.distributors.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+      </select>
+    </div>
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Sales rep</label>
+      <select value={salesRepId} onChange={(e) => onChange({ salesRepId: e.target.value })} className={inputCls}>
+        <option value="">{distributorId ? 'The distributor itself' : 'Select a rep'}</option>
+        {eligibleReps.map(r => <option key={r.id} value={r.id}>{r.full_name || r.email}</option>)}
+      </select>
+    </div>
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Commission rate (%)</label>
+      <input
+        type="number"
+        min="0"
+        max="100"
+        step="0.01"
+        value={commissionRate}
+        onChange={(e) => onChange({ commissionRate: e.target.value })}
+        className={inputCls}
+        required
+      />
+    </div>
+  </div>
+);
+
+export default SalesTerritories;
@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from 'react';
+import { Truck, Save, Loader, Plus, Trash2, MapPin, Building2 } from 'lucide-react';
+import {
+  shippingRateTableService,
+  type OrganizationShippingRate,
+  type ShippingMethodRule,
+  type ShippingRateRow,
+  type ShippingZone,
+} from '@/services/shipping';
+import { multiTenantService } from '@/services/multiTenant';
+
+interface Props {
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type ZoneDraft = Omit<ShippingZone, 'state_codes'> & { states: string };
+type RateDraft = Omit<ShippingRateRow, 'id'> & { id?: string };
+type NegotiatedRate = OrganizationShippingRate & { organization_name?: string };
+
+const inputClass = 'border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const numberOrNull = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Editor for the local shipping rate tables: methods and their rules,
+ * destination zones, weight brackets per zone and negotiated flat rates.
+ */
+const ShippingRateTables: React.FC<Props> = ({ onSuccess, onError }) => {
+  const [methods, setMethods] = useState<ShippingMethodRule[]>([]);
+  const [zones, setZones] = useState<ZoneDraft[]>([]);
+  const [rates, setRates] = useState<RateDraft[]>([]);
+  const [negotiated, setNegotiated] = useState<NegotiatedRate[]>([]);
+  const [organizations, setOrganizations] = useState<{ id: string; name: string }[]>([]);
+  const [selectedZoneId, setSelectedZoneId] = useState('');
+  const [newNegotiated, setNewNegotiated] = useState({ organization_id: '', method_id: '', flat_rate: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTables();
+  }, []);
+
+  const loadTables = async () => {
+    setLoading(true);
+    const [methodRows, zoneRows, rateRows, negotiatedRows, orgs] = await Promise.all([
+      shippingRateTableService.getMethods(),
+      shippingRateTableService.getZones(),
+      shippingRateTableService.getRates(),
+      shippingRateTableService.getOrganizationRates(),
+      multiTenantService.getOrganizations().catch(() => []),
+    ]);
+    setMethods(methodRows);
+    setZones(zoneRows.map(z => ({ id: z.id, name: z.name, country: z.country, states: z.state_codes.join(', ') })));
+    setRates(rateRows);
+    setNegotiated(negotiatedRows);
+    setOrganizations((orgs || []).map((o: { id: string; name: string }) => ({ id: o.id, name: o.name })));
+    setSelectedZoneId(current => current || zoneRows[0]?.id || '');
+    setLoading(false);
+  };
+
+  const run = async (key: string, action: () => Promise<{ success: boolean; error?: string }>, message: string) => {
+    setSaving(key);
+    const result = await action();
+    setSaving(null);
+    if (result.success) {
+      onSuccess(message);
+      await loadTables();
+    } else {
+      onError(result.error || 'Failed to save shipping rates');
+    }
+  };
+
+  const updateMethod = (id: string, changes: Partial<ShippingMethodRule>) =>
+    setMethods(prev => prev.map(m => (m.id === id ? { ...m, ...changes } : m)));
+
+  const updateZone = (id: string, changes: Partial<ZoneDraft>) =>
+    setZones(prev => prev.map(z => (z.id === id ? { ...z, ...changes } : z)));
+
+  const updateRate = (index: number, changes: Partial<RateDraft>) =>
+    setRates(prev => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+
+  const saveZone = (zone: ZoneDraft) =>
+    run(`zone-${zone.id}`, () => shippingRateTableService.saveZone({
+      id: zone.id || undefined,
+      name: zone.name,
+      country: zone.country,
+      state_codes: zone.states.split(','),
+    }), `Zone "${zone.name}" saved`);
+
+  const addZone = () =>
+    run('zone-new', () => shippingRateTableService.saveZone({ name: 'New Zone', country: 'US', state_codes: [] }), 'Zone added');
+
+  const addBracket = () => {
+    if (!selectedZoneId || methods.length === 0) return;
+    setRates(prev => [...prev, { method_id: methods[0].id, zone_id: selectedZoneId, min_weight_lbs: 0, base_rate: 0, per_lb_rate: 0 }]);
+  };
+
+  const removeBracket = (rate: RateDraft, index: number) => {
+    if (!rate.id) {
+      setRates(prev => prev.filter((_, i) => i !== index));
+      return;
+    }
+    run(`rate-${rate.id}`, () => shippingRateTableService.deleteRate(rate as ShippingRateRow), 'Rate bracket removed');
+  };
+
+  const addNegotiated = () => {
+    if (!newNegotiated.organization_id || !newNegotiated.method_id || newNegotiated.flat_rate === '') return;
+    run('negotiated-new', () => shippingRateTableService.saveOrganizationRate({
+      organization_id: newNegotiated.organization_id,
+      method_id: newNegotiated.method_id,
+      flat_rate: Number(newNegotiated.flat_rate),
+    }), 'Negotiated rate saved').then(() => setNewNegotiated({ organization_id: '', method_id: '', flat_rate: '' }));
+  };
+
+  const methodName = (id: string) => methods.find(m => m.id === id)?.name || id;
+  const zoneRates = rates
+    .map((rate, index) => ({ rate, index }))
+    .filter(({ rate }) => rate.zone_id === selectedZoneId);
+
+  const saveButton = (key: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      disabled={saving !== null}
+      className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+    >
+      {saving === key ? <Loader className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+      Save
+    </button>
+  );
+
+  if (loading) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl p-8 flex justify-center">
+        <Loader className="h-6 w-6 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+      <div className="bg-gray-50 px-5 py-3 border-b border-gray-200 flex items-center gap-2">
+        <span className="text-blue-600"><Truck className="h-5 w-5" /></span>
+        <h3 className="font-semibold text-gray-900">Shipping Rates</h3>
+      </div>
+
+      {/* Methods */}
+      <div className="px-5 py-4 border-b border-gray-100">
+        <h4 className="text-sm font-medium text-gray-900 mb-1">Methods</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Carts at or above the free-shipping subtotal ship free. Each unit weighing at least the oversized weight adds the surcharge.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                <th className="pb-2 pr-2">Name</th>
+                <th className="pb-2 pr-2">Delivery</th>
+                <th className="pb-2 pr-2">Free Over ($)</th>
+                <th className="pb-2 pr-2">Oversized (lb)</th>
+                <th className="pb-2 pr-2">Surcharge ($)</th>
+                <th className="pb-2 pr-2">Active</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {methods.map(method => (
+                <tr key={method.id}>
+                  <td className="py-2 pr-2">
+                    <input className={`${inputClass} w-40`} value={method.name} onChange={e => updateMethod(method.id, { name: e.target.value })} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input className={`${inputClass} w-36`} value={method.days} onChange={e => updateMethod(method.id, { days: e.target.value })} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="number" step="0.01" min="0" placeholder="Never"
+                      className={`${inputClass} w-24`}
+                      value={method.free_shipping_threshold ?? ''}
+                      onChange={e => updateMethod(method.id, { free_shipping_threshold: numberOrNull(e.target.value) })}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="number" step="0.1" min="0" placeholder="None"
+                      className={`${inputClass} w-20`}
+                      value={method.oversized_weight_lbs ?? ''}
+                      onChange={e => updateMethod(method.id, { oversized_weight_lbs: numberOrNull(e.target.value) })}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="number" step="0.01" min="0"
+                      className={`${inputClass} w-20`}
+                      value={method.oversized_surcharge}
+                      onChange={e => updateMethod(method.id, { oversized_surcharge: Number(e.target.value) || 0 })}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="checkbox" checked={method.is_active} onChange={e => updateMethod(method.id, { is_active: e.target.checked })} />
+                  </td>
+                  <td className="py-2 text-right">
+                    {saveButton(`method-${method.id}`, () =>
+                      run(`method-${method.id}`, () => shippingRateTableService.saveMethod(method), `"${method.name}" saved`))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Zones */}
+      <div className="px-5 py-4 border-b border-gray-100">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+            <MapPin className="h-4 w-4 text-gray-500" /> Zones
+          </h4>
+          <button onClick={addZone} disabled={saving !== null} className="flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-800 disabled:opacity-50">
+            <Plus className="h-3 w-3" /> Add Zone
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          List state codes separated by commas. A zone with no states covers every other state in its country.
+        </p>
+        <div className="space-y-2">
+          {zones.map(zone => (
+            <div key={zone.id} className="flex items-center gap-2">
+              <input className={`${inputClass} w-44`} value={zone.name} onChange={e => updateZone(zone.id, { name: e.target.value })} />
+              <input className={`${inputClass} w-16`} value={zone.country} onChange={e => updateZone(zone.id, { country: e.target.value })} />
+              <input
+                className={`${inputClass} flex-1`}
+                value={zone.states}
+                placeholder="All other states"
+                onChange={e => updateZone(zone.id, { states: e.target.value })}
+              />
+              {saveButton(`zone-${zone.id}`, () => saveZone(zone))}
+              <button
+                onClick={() => {
+                  if (confirm(`Delete zone "${zone.name}" and its rates?`)) {
+                    run(`zone-${zone.id}`, () => shippingRateTableService.deleteZone(zone.id), 'Zone deleted');
+                  }
+                }}
+                disabled={saving !== null}
+                className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Weight brackets */}
+      <div className="px-5 py-4 border-b border-gray-100">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-sm font-medium text-gray-900">Weight Brackets</h4>
+          <div className="flex items-center gap-3">
+            <select className={inputClass} value={selectedZoneId} onChange={e => setSelectedZoneId(e.target.value)}>
+              {zones.map(zone => <option key={zone.id} value={zone.id}>{zone.name}</option>)}
+            </select>
+            <button onClick={addBracket} disabled={!selectedZoneId} className="flex items-center gap-1 text-xs font-medium text-blue-700 hover:text-blue-800 disabled:opacity-50">
+              <Plus className="h-3 w-3" /> Add Bracket
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          A bracket applies from its starting weight up to the next bracket: base rate plus the per-pound rate for weight above the start.
+          Methods with no bracket are not offered in the zone.
+        </p>
+        {zoneRates.length === 0 ? (
+          <p className="text-sm text-gray-400 py-2">No rates for this zone — checkout falls back to flat prices.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                <th className="pb-2 pr-2">Method</th>
+                <th className="pb-2 pr-2">From (lb)</th>
+                <th className="pb-2 pr-2">Base ($)</th>
+                <th className="pb-2 pr-2">Per lb ($)</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {zoneRates.map(({ rate, index }) => (
+                <tr key={rate.id || `new-${index}`}>
+                  <td className="py-2 pr-2">
+                    <select className={inputClass} value={rate.method_id} onChange={e => updateRate(index, { method_id: e.target.value })}>
+                      {methods.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="number" step="0.1" min="0" className={`${inputClass} w-20`} value={rate.min_weight_lbs}
+                      onChange={e => updateRate(index, { min_weight_lbs: Number(e.target.value) || 0 })} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="number" step="0.01" min="0" className={`${inputClass} w-24`} value={rate.base_rate}
+                      onChange={e => updateRate(index, { base_rate: Number(e.target.value) || 0 })} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="number" step="0.01" min="0" className={`${inputClass} w-20`} value={rate.per_lb_rate}
+                      onChange={e => updateRate(index, { per_lb_rate: Number(e.target.value) || 0 })} />
+                  </td>
+                  <td className="py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      {saveButton(`rate-${rate.id || index}`, () =>
+                        run(`rate-${rate.id || index}`, () => shippingRateTableService.saveRate(rate), `${methodName(rate.method_id)} bracket saved`))}
+                      <button onClick={() => removeBracket(rate, index)} disabled={saving !== null} className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Negotiated rates */}
+      <div className="px-5 py-4">
+        <h4 className="text-sm font-medium text-gray-900 mb-1 flex items-center gap-1.5">
+          <Building2 className="h-4 w-4 text-gray-500" /> Negotiated Flat Rates
+        </h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Replaces the table price and surcharges for the customer's orders. Free-shipping thresholds still apply.
+        </p>
+        <div className="space-y-2 mb-3">
+          {negotiated.map(rate => (
+            <div key={rate.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+              <span>
+                <span className="font-medium text-gray-900">{rate.organization_name || rate.organization_id}</span>
+                <span className="text-gray-500"> · {methodName(rate.method_id)}</span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span className="font-semibold">${rate.flat_rate.toFixed(2)}</span>
+                <button
+                  onClick={() => run(`negotiated-${rate.id}`, () => shippingRateTableService.deleteOrganizationRate(rate.id), 'Negotiated rate removed')}
+                  disabled={saving !== null}
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <select className={`${inputClass} flex-1`} value={newNegotiated.organization_id}
+            onChange={e => setNewNegotiated(prev => ({ ...prev, organization_id: e.target.value }))}>
+            <option value="">Select customer...</option>
+            {organizations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+          </select>
+          <select className={inputClass} value={newNegotiated.method_id}
+            onChange={e => setNewNegotiated(prev => ({ ...prev, method_id: e.target.value }))}>
+            <option value="">Method...</option>
+            {methods.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <input type="number" step="0.01" min="0" placeholder="Rate" className={`${inputClass} w-24`} value={newNegotiated.flat_rate}
+            onChange={e => setNewNegotiated(prev => ({ ...prev, flat_rate: e.target.value }))} />
+          <button
+            onClick={addNegotiated}
+            disabled={saving !== null || !newNegotiated.organization_id || !newNegotiated.method_id || newNegotiated.flat_rate === ''}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            <Plus className="h-3 w-3" /> Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShippingRateTables;
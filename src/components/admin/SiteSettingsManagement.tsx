@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Save, Loader, AlertCircle, CheckCircle, Truck, Phone, Shield, RefreshCw } from 'lucide-react';
+import { Settings, Save, Loader, AlertCircle, CheckCircle, Phone, Shield, RefreshCw, Banknote, Receipt, FileText } from 'lucide-react';
 import { siteSettingsService } from '@/services/siteSettings';
+import { FALLBACK_SHIPPING_METHODS } from '@/services/shipping';
+import ShippingRateTables from './ShippingRateTables';
 
 interface SettingRow {
   id: string;
@@ -16,9 +18,11 @@ interface EditState {
 }
 
 const categoryConfig: Record<string, { label: string; icon: React.ReactNode; color: string }> = {
-  shipping: { label: 'Shipping', icon: <Truck className="h-5 w-5" />, color: 'text-blue-600' },
   contact: { label: 'Contact Information', icon: <Phone className="h-5 w-5" />, color: 'text-emerald-600' },
   security: { label: 'Security', icon: <Shield className="h-5 w-5" />, color: 'text-amber-600' },
+  payouts: { label: 'Payouts (ACH)', icon: <Banknote className="h-5 w-5" />, color: 'text-blue-600' },
+  tax: { label: 'Tax Reporting', icon: <Receipt className="h-5 w-5" />, color: 'text-purple-600' },
+  quotes: { label: 'Quotes', icon: <FileText className="h-5 w-5" />, color: 'text-pink-600' },
 };
 
 const SiteSettingsManagement: React.FC = () => {
@@ -172,7 +176,7 @@ const SiteSettingsManagement: React.FC = () => {
             <div>
               <h4 className="text-sm font-medium text-gray-500 uppercase tracking-wide mb-2">Shipping Rates</h4>
               <div className="grid grid-cols-3 gap-3">
-                {siteSettingsService.getDefaults().shipping.map(m => (
+                {FALLBACK_SHIPPING_METHODS.map(m => (
                   <div key={m.id} className="bg-white border border-gray-200 rounded-lg p-3">
                     <p className="font-medium text-gray-900 text-sm">{m.name}</p>
                     <p className="text-lg font-bold text-gray-900">${m.price.toFixed(2)}</p>
@@ -307,6 +311,8 @@ const SiteSettingsManagement: React.FC = () => {
             </div>
           );
         })}
+
+        <ShippingRateTables onSuccess={setSuccess} onError={setError} />
       </div>
     </div>
   );
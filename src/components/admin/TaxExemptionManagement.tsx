@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, Upload, FileText, CheckCircle, XCircle, AlertCircle, Clock } from 'lucide-react';
+import { supabase } from '@/services/supabase';
+import { taxExemptionService, isExemptionActive, daysUntilExpiry } from '@/services/tax';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Organization } from '@/services/supabase';
+
+interface TaxExemptionManagementProps {
+  organizationId: string;
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  none: { label: 'Not exempt', className: 'bg-gray-100 text-gray-700' },
+  pending: { label: 'Exemption pending', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Tax exempt', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Exemption rejected', className: 'bg-red-100 text-red-800' },
+  expired: { label: 'Exemption expired', className: 'bg-orange-100 text-orange-800' },
+};
+
+export const TaxExemptionStatusBadge: React.FC<{ status?: string }> = ({ status }) => {
+  const style = STATUS_STYLES[status || 'none'] || STATUS_STYLES.none;
+  return (
+    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${style.className}`}>
+      {style.label}
+    </span>
+  );
+};
+
+const TaxExemptionManagement: React.FC<TaxExemptionManagementProps> = ({ organizationId }) => {
+  const { user } = useAuth();
+  const [org, setOrg] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [certificateNumber, setCertificateNumber] = useState('');
+  const [issuingState, setIssuingState] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchOrganization = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('id', organizationId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setOrg(data);
+      setCertificateNumber(data?.tax_exemption_certificate || '');
+      setIssuingState(data?.tax_exemption_state || data?.state || '');
+      setExpiresAt(data?.tax_exemption_expires_at || '');
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load organization' });
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  const handleSubmit = async () => {
+    if (!file) {
+      setMessage({ type: 'error', text: 'Choose the certificate file to upload' });
+      return;
+    }
+    if (!certificateNumber.trim() || !issuingState.trim()) {
+      setMessage({ type: 'error', text: 'Certificate number and issuing state are required' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage(null);
+    const result = await taxExemptionService.submitCertificate(organizationId, file, {
+      certificateNumber,
+      issuingState,
+      expiresAt: expiresAt || null,
+    });
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setFile(null);
+      setMessage({ type: 'success', text: 'Certificate uploaded and queued for review' });
+      fetchOrganization();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to upload certificate' });
+    }
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!user) return;
+    setIsSubmitting(true);
+    const result = approve
+      ? await taxExemptionService.approve(organizationId, user.id, reviewNotes)
+      : await taxExemptionService.reject(organizationId, user.id, reviewNotes);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setReviewNotes('');
+      setMessage({ type: 'success', text: approve ? 'Exemption approved' : 'Exemption rejected' });
+      fetchOrganization();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to update exemption' });
+    }
+  };
+
+  const handleViewCertificate = async () => {
+    if (!org?.tax_exemption_file_path) return;
+    const url = await taxExemptionService.getCertificateUrl(org.tax_exemption_file_path);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      setMessage({ type: 'error', text: 'Could not open the certificate file' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-32 bg-gray-200 rounded-lg"></div>
+      </div>
+    );
+  }
+
+  if (!org) {
+    return <p className="text-gray-600">Organization not found.</p>;
+  }
+
+  const days = daysUntilExpiry(org.tax_exemption_expires_at);
+  const active = isExemptionActive(org);
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center space-x-2 ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          {message.type === 'success' ? (
+            <CheckCircle className="h-5 w-5 text-green-600" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-600" />
+          )}
+          <span className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+            {message.text}
+          </span>
+        </div>
+      )}
+
+      {/* Current certificate */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className={`h-5 w-5 ${active ? 'text-green-600' : 'text-gray-400'}`} />
+            <h3 className="text-lg font-semibold text-gray-900">Sales Tax Exemption</h3>
+          </div>
+          <TaxExemptionStatusBadge status={org.tax_exemption_status} />
+        </div>
+
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Certificate Number</dt>
+            <dd className="font-medium text-gray-900">{org.tax_exemption_certificate || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Issuing State</dt>
+            <dd className="font-medium text-gray-900">{org.tax_exemption_state || '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Expires</dt>
+            <dd className="font-medium text-gray-900">
+              {org.tax_exemption_expires_at
+                ? new Date(`${org.tax_exemption_expires_at}T00:00:00`).toLocaleDateString()
+                : 'No expiry'}
+              {days !== null && days >= 0 && days <= 30 && (
+                <span className="ml-2 inline-flex items-center text-xs text-orange-600">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {days} day{days !== 1 ? 's' : ''} left
+                </span>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Applied at Checkout</dt>
+            <dd className={`font-medium ${active ? 'text-green-700' : 'text-gray-900'}`}>{active ? 'Yes' : 'No'}</dd>
+          </div>
+          {org.tax_exemption_review_notes && (
+            <div className="md:col-span-2">
+              <dt className="text-gray-500">Review Notes</dt>
+              <dd className="text-gray-900">{org.tax_exemption_review_notes}</dd>
+            </div>
+          )}
+        </dl>
+
+        {org.tax_exemption_file_path && (
+          <button
+            onClick={handleViewCertificate}
+            className="mt-4 flex items-center space-x-2 text-sm text-purple-600 hover:text-purple-800"
+          >
+            <FileText className="h-4 w-4" />
+            <span>View uploaded certificate</span>
+          </button>
+        )}
+
+        {org.tax_exemption_status === 'pending' && (
+          <div className="mt-6 border-t border-gray-200 pt-4 space-y-3">
+            <textarea
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              placeholder="Review notes (optional)"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleReview(true)}
+                disabled={isSubmitting}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <CheckCircle className="h-4 w-4" />
+                <span>Approve</span>
+              </button>
+              <button
+                onClick={() => handleReview(false)}
+                disabled={isSubmitting}
+                className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>Reject</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Upload new / renewed certificate */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Upload Certificate</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Certificate Number *</label>
+            <input
+              type="text"
+              value={certificateNumber}
+              onChange={(e) => setCertificateNumber(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Issuing State *</label>
+            <input
+              type="text"
+              value={issuingState}
+              onChange={(e) => setIssuingState(e.target.value)}
+              maxLength={2}
+              placeholder="TX"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date</label>
+            <input
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex items-center space-x-4">
+          <input
+            type="file"
+            accept=".pdf,image/*"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="text-sm text-gray-700"
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{isSubmitting ? 'Uploading...' : 'Upload for Review'}</span>
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Sales tax keeps being charged until the certificate is approved. Approved certificates stop applying after the expiry date.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TaxExemptionManagement;
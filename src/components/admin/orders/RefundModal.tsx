@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { X, DollarSign, Loader, AlertTriangle, Truck, Package, RotateCcw } from 'lucide-react';
 import type { Order } from './types';
+import { refundableBalance } from '../../../services/orderService';
 
 interface Commission {
   id: string;
@@ -14,22 +15,27 @@ interface Commission {
 interface RefundModalProps {
   order: Order;
   commission: Commission | null;
+  /** Successful refunds already made on the order */
+  refundedAmount: number;
   onClose: () => void;
   onSubmit: (options: {
     amount: number;
     includeShipping: boolean;
     cancelCommission: boolean;
+    clawbackCommission: boolean;
+    lines?: { productId: number; quantity: number }[];
     reason: string;
   }) => Promise<void>;
 }
 
-type RefundType = 'full' | 'items_only' | 'custom';
+type RefundType = 'full' | 'items_only' | 'selected_items' | 'custom';
 
-const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, onSubmit }) => {
+const RefundModal: React.FC<RefundModalProps> = ({ order, commission, refundedAmount, onClose, onSubmit }) => {
   const [refundType, setRefundType] = useState<RefundType>('full');
   const [includeShipping, setIncludeShipping] = useState(true);
   const [customAmount, setCustomAmount] = useState('');
-  const [cancelCommission, setCancelCommission] = useState(true);
+  const [adjustCommission, setAdjustCommission] = useState(true);
+  const [lineQuantities, setLineQuantities] = useState<Record<number, number>>({});
   const [reason, setReason] = useState('');
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState('');
@@ -38,25 +44,50 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
   const shipping = Number(order.shipping) || 0;
   const tax = Number(order.tax) || 0;
   const total = Number(order.total) || 0;
+  const remaining = refundableBalance(total, refundedAmount);
+
+  const selectedLines = useMemo(
+    () => (order.items || [])
+      .map(item => ({ productId: item.productId, quantity: lineQuantities[item.productId] || 0, price: Number(item.price) || 0 }))
+      .filter(line => line.quantity > 0),
+    [order.items, lineQuantities]
+  );
+  const selectedSubtotal = selectedLines.reduce((sum, line) => sum + line.price * line.quantity, 0);
 
   const refundAmount = useMemo(() => {
     if (refundType === 'full') {
-      return total;
+      return remaining;
     }
     if (refundType === 'items_only') {
-      return includeShipping ? subtotal + tax + shipping : subtotal + tax;
+      return Math.min(remaining, includeShipping ? subtotal + tax + shipping : subtotal + tax);
+    }
+    if (refundType === 'selected_items') {
+      // Refund the tax charged on the selected lines along with them
+      const lineTax = subtotal > 0 ? tax * (selectedSubtotal / subtotal) : 0;
+      return Math.round((selectedSubtotal + lineTax) * 100) / 100;
     }
     if (refundType === 'custom') {
       const val = parseFloat(customAmount);
       return isNaN(val) ? 0 : val;
     }
     return 0;
-  }, [refundType, includeShipping, customAmount, subtotal, shipping, tax, total]);
+  }, [refundType, includeShipping, customAmount, subtotal, shipping, tax, remaining, selectedSubtotal]);
 
-  const isValid = refundAmount > 0 && refundAmount <= total && reason.trim().length > 0;
+  const isValid = refundAmount > 0 && refundAmount <= remaining && reason.trim().length > 0;
 
   const hasCommission = commission && commission.status !== 'cancelled';
   const commissionIsPaid = commission?.status === 'paid';
+  const isPartial = refundAmount < remaining;
+  // A full refund of an unpaid commission cancels it; anything else, including
+  // the last of several partial refunds, claws back the refunded share and
+  // nets it against the payees' next payout
+  const cancelsCommission = !!hasCommission && !commissionIsPaid && !isPartial && refundedAmount === 0;
+  const willCancelCommission = adjustCommission && cancelsCommission;
+  const willClawBack = adjustCommission && !!hasCommission && !cancelsCommission;
+  const commissionTotal = Number(commission?.commission_amount || 0);
+  const estimatedClawback = refundType === 'selected_items'
+    ? commissionTotal * (subtotal > 0 ? Math.min(1, selectedSubtotal / subtotal) : 0)
+    : commissionTotal * (total > 0 ? Math.min(1, refundAmount / total) : 0);
 
   const handleSubmit = async () => {
     if (!isValid) return;
@@ -66,7 +97,11 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
       await onSubmit({
         amount: refundAmount,
         includeShipping: refundType === 'full' || includeShipping,
-        cancelCommission: cancelCommission && !!hasCommission && !commissionIsPaid,
+        cancelCommission: willCancelCommission,
+        clawbackCommission: willClawBack,
+        lines: refundType === 'selected_items'
+          ? selectedLines.map(({ productId, quantity }) => ({ productId, quantity }))
+          : undefined,
         reason: reason.trim(),
       });
     } catch (err: any) {
@@ -75,8 +110,6 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
     }
   };
 
-  const isPartial = refundAmount < total;
-
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
@@ -124,6 +157,18 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                 <span>Total Charged</span>
                 <span>${total.toFixed(2)}</span>
               </div>
+              {refundedAmount > 0 && (
+                <>
+                  <div className="flex justify-between text-red-600">
+                    <span>Already Refunded</span>
+                    <span>-${refundedAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>Left to Refund</span>
+                    <span>${remaining.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
@@ -141,9 +186,9 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                   className="mt-0.5 mr-3"
                 />
                 <div>
-                  <div className="font-medium text-sm text-gray-900">Full Refund</div>
+                  <div className="font-medium text-sm text-gray-900">{refundedAmount > 0 ? 'Refund Remaining Balance' : 'Full Refund'}</div>
                   <div className="text-xs text-gray-500">
-                    Refund entire amount including shipping — ${total.toFixed(2)}
+                    Refund {refundedAmount > 0 ? 'everything not yet refunded' : 'entire amount'} including shipping — ${remaining.toFixed(2)}
                   </div>
                 </div>
               </label>
@@ -167,6 +212,45 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                 </label>
               )}
 
+              {(order.items?.length || 0) > 0 && (
+                <label className="flex items-start p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                  <input
+                    type="radio"
+                    name="refundType"
+                    value="selected_items"
+                    checked={refundType === 'selected_items'}
+                    onChange={() => setRefundType('selected_items')}
+                    className="mt-0.5 mr-3"
+                  />
+                  <div className="flex-1">
+                    <div className="font-medium text-sm text-gray-900">Selected Items</div>
+                    <div className="text-xs text-gray-500 mb-2">Refund specific lines plus their tax</div>
+                    {refundType === 'selected_items' && (
+                      <div className="space-y-1.5">
+                        {order.items.map(item => (
+                          <div key={item.productId} className="flex items-center justify-between text-xs">
+                            <span className="text-gray-700 truncate mr-2">
+                              {item.name} <span className="text-gray-400">(${Number(item.price).toFixed(2)} × {item.quantity})</span>
+                            </span>
+                            <input
+                              type="number"
+                              min="0"
+                              max={item.quantity}
+                              value={lineQuantities[item.productId] || 0}
+                              onChange={(e) => {
+                                const qty = Math.max(0, Math.min(item.quantity, parseInt(e.target.value, 10) || 0));
+                                setLineQuantities(prev => ({ ...prev, [item.productId]: qty }));
+                              }}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </label>
+              )}
+
               <label className="flex items-start p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
                 <input
                   type="radio"
@@ -186,14 +270,14 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                         type="number"
                         step="0.01"
                         min="0.01"
-                        max={total}
+                        max={remaining}
                         value={customAmount}
                         onChange={(e) => setCustomAmount(e.target.value)}
                         placeholder="0.00"
                         className="w-full pl-8 pr-3 py-1.5 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500"
                         autoFocus
                       />
-                      <div className="text-xs text-gray-400 mt-1">Max: ${total.toFixed(2)}</div>
+                      <div className="text-xs text-gray-400 mt-1">Max: ${remaining.toFixed(2)}</div>
                     </div>
                   )}
                 </div>
@@ -236,21 +320,22 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                     </div>
                   )}
 
-                  {commissionIsPaid ? (
-                    <div className="flex items-center mt-2 text-xs text-yellow-800">
+                  <label className="flex items-center mt-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={adjustCommission}
+                      onChange={(e) => setAdjustCommission(e.target.checked)}
+                      className="mr-2"
+                    />
+                    <span className={`text-sm ${commissionIsPaid ? 'text-yellow-800' : 'text-orange-800'}`}>
+                      {cancelsCommission ? 'Cancel commission on refund' : 'Claw back commission for refunded amount'}
+                    </span>
+                  </label>
+                  {willClawBack && (
+                    <div className="flex items-center mt-1 text-xs text-gray-600">
                       <AlertTriangle className="h-3 w-3 mr-1" />
-                      Commission already paid — cannot auto-cancel. Handle manually.
+                      Est. -${estimatedClawback.toFixed(2)}, deducted from the next commission payout
                     </div>
-                  ) : (
-                    <label className="flex items-center mt-2 cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={cancelCommission}
-                        onChange={(e) => setCancelCommission(e.target.checked)}
-                        className="mr-2"
-                      />
-                      <span className="text-sm text-orange-800">Cancel commission on refund</span>
-                    </label>
                   )}
                 </div>
               </div>
@@ -283,9 +368,12 @@ const RefundModal: React.FC<RefundModalProps> = ({ order, commission, onClose, o
                     ? `$${(total - refundAmount).toFixed(2)} will remain captured`
                     : 'Entire payment will be reversed'
                   }
-                  {cancelCommission && hasCommission && !commissionIsPaid && (
+                  {willCancelCommission && (
                     <> · Commission will be cancelled</>
                   )}
+                  {willClawBack && (
+                    <> · Commission will be clawed back</>
+                  )}
                 </div>
               </div>
               <div className={`text-xl font-bold ${isPartial ? 'text-amber-700' : 'text-red-700'}`}>
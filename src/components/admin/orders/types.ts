@@ -5,6 +5,8 @@ export interface OrderItem {
   price: number;
   brand?: string;
   backorder?: boolean;
+  /** Units stock could not cover when the order was placed */
+  backorderQuantity?: number;
   backorder_reason?: string;
 }
 
@@ -75,6 +77,8 @@ export interface Order {
   subtotal: number;
   tax: number;
   shipping: number;
+  discount?: number;
+  discount_code?: string;
   total: number;
   currency: string;
   items: OrderItem[];
@@ -95,6 +99,10 @@ export interface Order {
   payment_status?: string;
   payment_authorization_id?: string;
   payment_captured_at?: string;
+  payment_method?: string;
+  po_number?: string;
+  payment_terms?: string;
+  invoice_due_date?: string;
   sales_rep_id?: string;
   backorder_reason?: string;
   is_test_order?: boolean;
@@ -2,6 +2,7 @@ import React, { useState, useRef, useCallback } from 'react';
 import { Upload, X, FileSpreadsheet, Download, AlertTriangle, CheckCircle, Loader, Info } from 'lucide-react';
 import { supabase } from '@/services/supabase';
 import { contractPricingService } from '@/services/contractPricing';
+import { findLadderOverlap, PriceTierInput } from '@/services/pricingTiers';
 
 interface ContractPricingImportProps {
   isOpen: boolean;
@@ -79,6 +80,43 @@ function parseCSV(text: string): { headers: string[]; rows: string[][] } {
   return { headers, rows };
 }
 
+/**
+ * Rows for the same type + entity + product form one quantity-break ladder.
+ * A tier without a Max Qty runs up to the next tier's Min Qty; the last
+ * tier is open-ended.
+ */
+function groupLadders(rows: ImportRow[]): Map<string, ImportRow[]> {
+  const ladders = new Map<string, ImportRow[]>();
+  for (const row of rows) {
+    const key = `${row.pricing_type}|${row.entity_id}|${row.product_id}`;
+    const ladder = ladders.get(key) || [];
+    ladder.push(row);
+    ladders.set(key, ladder);
+  }
+
+  for (const ladder of ladders.values()) {
+    ladder.sort((a, b) => a.min_quantity - b.min_quantity);
+    ladder.forEach((row, i) => {
+      if (row.max_quantity === undefined && i < ladder.length - 1) {
+        row.max_quantity = ladder[i + 1].min_quantity - 1;
+      }
+    });
+  }
+
+  return ladders;
+}
+
+function toTierInput(row: ImportRow): PriceTierInput {
+  return {
+    minQuantity: row.min_quantity,
+    maxQuantity: row.max_quantity,
+    contractPrice: row.contract_price,
+    markupPrice: row.markup_price,
+    effectiveDate: row.effective_date ? new Date(row.effective_date).toISOString() : undefined,
+    expiryDate: row.expiry_date ? new Date(row.expiry_date).toISOString() : undefined,
+  };
+}
+
 function normalizeHeader(h: string): string {
   const map: Record<string, string> = {
     type: 'pricing_type',
@@ -283,7 +321,21 @@ const ContractPricingImport: React.FC<ContractPricingImportProps> = ({ isOpen, o
       });
     }
 
-    setParsedRows(parsed);
+    // Reject ladders whose quantity ranges overlap; the database would too
+    const validRows: ImportRow[] = [];
+    for (const ladder of groupLadders(parsed).values()) {
+      const overlap = findLadderOverlap(ladder.map(toTierInput));
+      if (overlap) {
+        for (const row of ladder) {
+          errors.push({ row: row.rowNum, field: 'min_quantity', message: `${overlap} for product ${row.product_id}.` });
+        }
+      } else {
+        validRows.push(...ladder);
+      }
+    }
+    validRows.sort((a, b) => a.rowNum - b.rowNum);
+
+    setParsedRows(validRows);
     setValidationErrors(errors);
     setResolving(false);
     setStep('preview');
@@ -306,33 +358,34 @@ const ContractPricingImport: React.FC<ContractPricingImportProps> = ({ isOpen, o
     const total = parsedRows.length;
     let created = 0;
     let skipped = 0;
+    let processed = 0;
     const importErrors: ValidationError[] = [];
 
-    for (let i = 0; i < parsedRows.length; i++) {
-      const row = parsedRows[i];
-      setProgress({ current: i + 1, total });
-
-      const result = await contractPricingService.setContractPrice(
-        row.entity_id!,
-        row.product_id,
-        row.contract_price,
-        row.pricing_type,
-        row.min_quantity,
-        row.max_quantity,
-        row.effective_date ? new Date(row.effective_date).toISOString() : undefined,
-        row.expiry_date ? new Date(row.expiry_date).toISOString() : undefined,
-        row.markup_price
+    // Each ladder replaces the existing tiers for that entity + product
+    // whose dates overlap it
+    for (const ladder of groupLadders(parsedRows).values()) {
+      const first = ladder[0];
+      const result = await contractPricingService.setPriceTiers(
+        first.entity_id!,
+        first.product_id,
+        first.pricing_type,
+        ladder.map(toTierInput)
       );
 
+      processed += ladder.length;
+      setProgress({ current: processed, total });
+
       if (result.success) {
-        created++;
+        created += ladder.length;
       } else {
-        importErrors.push({
-          row: row.rowNum,
-          field: 'import',
-          message: result.error || 'Failed to save',
-        });
-        skipped++;
+        for (const row of ladder) {
+          importErrors.push({
+            row: row.rowNum,
+            field: 'import',
+            message: result.error || 'Failed to save',
+          });
+        }
+        skipped += ladder.length;
       }
     }
 
@@ -343,10 +396,12 @@ const ContractPricingImport: React.FC<ContractPricingImportProps> = ({ isOpen, o
 
   const handleDownloadTemplate = () => {
     const headers = ['Type', 'Entity', 'Product ID', 'Contract Price', 'Markup Price', 'Min Qty', 'Max Qty', 'Effective Date', 'Expiry Date'];
-    const example1 = ['organization', 'Acme Corp', '1001', '49.99', '', '1', '', '', ''];
-    const example2 = ['individual', 'user@example.com', '1002', '', '59.99', '1', '', '2026-01-01', '2026-12-31'];
+    const example1 = ['organization', 'Acme Corp', '1001', '49.99', '', '1', '9', '', ''];
+    const example2 = ['organization', 'Acme Corp', '1001', '44.99', '', '10', '49', '', ''];
+    const example3 = ['organization', 'Acme Corp', '1001', '39.99', '', '50', '', '', ''];
+    const example4 = ['individual', 'user@example.com', '1002', '', '59.99', '1', '', '2026-01-01', '2026-12-31'];
 
-    const csv = [headers, example1, example2]
+    const csv = [headers, example1, example2, example3, example4]
       .map(row => row.map(cell => `"${cell}"`).join(','))
       .join('\n');
 
@@ -392,6 +447,11 @@ const ContractPricingImport: React.FC<ContractPricingImportProps> = ({ isOpen, o
                   <p className="mt-1">
                     Optional: Min Qty, Max Qty, Effective Date, Expiry Date.
                   </p>
+                  <p className="mt-1">
+                    Several rows for the same entity and product form a quantity-break ladder
+                    (e.g. 1-9, 10-49, 50+). A blank Max Qty runs up to the next row's Min Qty.
+                    Imported ladders replace that entity's existing tiers for the product.
+                  </p>
                   <p className="mt-1">
                     Entities are matched by name, code, or UUID. Use the <span className="font-medium">Export</span> button
                     on the pricing page to get a CSV of existing entries as a starting point.
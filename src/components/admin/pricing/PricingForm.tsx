@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { X, DollarSign, Building2, User, Calendar, Hash } from 'lucide-react';
+import { X, DollarSign, Building2, User, MapPin, Calendar, Hash, Plus, Trash2, Layers } from 'lucide-react';
 import { EnrichedPricingEntry } from './usePricingData';
+import { buildTierLadder, PriceTierInput } from '@/services/pricingTiers';
 
-type PricingType = 'individual' | 'organization';
+type PricingType = 'individual' | 'organization' | 'location';
 
 interface OrganizationOption {
   id: string;
@@ -16,28 +17,41 @@ interface UserOption {
   full_name?: string;
 }
 
+interface LocationOption {
+  id: string;
+  name: string;
+  organization_name?: string;
+}
+
+interface TierRow {
+  minQuantity: string;
+  price: string;
+}
+
 interface PricingFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (params: {
-    id?: string;
     entityId: string;
     productId: number;
     pricingType: PricingType;
-    contractPrice?: number;
-    markupPrice?: number;
-    minQuantity: number;
-    maxQuantity?: number;
-    effectiveDate?: string;
-    expiryDate?: string;
+    tiers: PriceTierInput[];
+    /** Rows of the ladder being edited; replaced by the saved ladder */
+    replaceIds?: string[];
   }) => Promise<{ success: boolean; error?: string }>;
   saving: boolean;
   organizations: OrganizationOption[];
   users: UserOption[];
+  /** Saved organization shipping addresses that can carry location pricing */
+  locations?: LocationOption[];
   editEntry?: EnrichedPricingEntry | null;
+  /** All pricing entries, used to load the full ladder of the entry being edited */
+  entries?: EnrichedPricingEntry[];
   preselectedProductId?: number;
 }
 
+const DEFAULT_TIERS: TierRow[] = [{ minQuantity: '1', price: '' }];
+
 const PricingForm: React.FC<PricingFormProps> = ({
   isOpen,
   onClose,
@@ -45,16 +59,16 @@ const PricingForm: React.FC<PricingFormProps> = ({
   saving,
   organizations,
   users,
+  locations = [],
   editEntry,
+  entries,
   preselectedProductId,
 }) => {
   const [pricingType, setPricingType] = useState<PricingType>('organization');
   const [entityId, setEntityId] = useState('');
   const [productId, setProductId] = useState('');
-  const [contractPrice, setContractPrice] = useState('');
-  const [markupPrice, setMarkupPrice] = useState('');
-  const [minQuantity, setMinQuantity] = useState('1');
-  const [maxQuantity, setMaxQuantity] = useState('');
+  const [tiers, setTiers] = useState<TierRow[]>(DEFAULT_TIERS);
+  const [ladderIds, setLadderIds] = useState<string[]>([]);
   const [effectiveDate, setEffectiveDate] = useState('');
   const [expiryDate, setExpiryDate] = useState('');
   const [useMarkup, setUseMarkup] = useState(false);
@@ -66,28 +80,39 @@ const PricingForm: React.FC<PricingFormProps> = ({
       setPricingType(editEntry.pricing_type);
       setEntityId(editEntry.entity_id);
       setProductId(String(editEntry.product_id));
-      setContractPrice(editEntry.contract_price ? String(editEntry.contract_price) : '');
-      setMarkupPrice((editEntry as any).markup_price ? String((editEntry as any).markup_price) : '');
-      setUseMarkup(!!(editEntry as any).markup_price);
-      setMinQuantity(String(editEntry.min_quantity || 1));
-      setMaxQuantity(editEntry.max_quantity ? String(editEntry.max_quantity) : '');
+
+      const ladder = (entries || []).filter(
+        (e) =>
+          e.entity_id === editEntry.entity_id &&
+          e.product_id === editEntry.product_id &&
+          e.pricing_type === editEntry.pricing_type &&
+          e.effective_date === editEntry.effective_date
+      );
+      const ladderEntries = (ladder.length > 0 ? ladder : [editEntry])
+        .sort((a, b) => (a.min_quantity || 1) - (b.min_quantity || 1));
+      const hasMarkup = ladderEntries.some((e) => !!e.markup_price);
+
+      setUseMarkup(hasMarkup);
+      setLadderIds(ladderEntries.map((e) => e.id));
+      setTiers(ladderEntries.map((e) => ({
+        minQuantity: String(e.min_quantity || 1),
+        price: String((hasMarkup ? e.markup_price : e.contract_price) ?? ''),
+      })));
       setEffectiveDate(editEntry.effective_date ? editEntry.effective_date.split('T')[0] : '');
       setExpiryDate(editEntry.expiry_date ? editEntry.expiry_date.split('T')[0] : '');
     } else {
       setPricingType('organization');
       setEntityId('');
       setProductId(preselectedProductId ? String(preselectedProductId) : '');
-      setContractPrice('');
-      setMarkupPrice('');
       setUseMarkup(false);
-      setMinQuantity('1');
-      setMaxQuantity('');
+      setTiers(DEFAULT_TIERS);
+      setLadderIds([]);
       setEffectiveDate('');
       setExpiryDate('');
     }
     setFormError(null);
     setEntitySearch('');
-  }, [editEntry, isOpen, preselectedProductId]);
+  }, [editEntry, entries, isOpen, preselectedProductId]);
 
   if (!isOpen) return null;
 
@@ -100,6 +125,13 @@ const PricingForm: React.FC<PricingFormProps> = ({
           o.code.toLowerCase().includes(term)
       );
     }
+    if (pricingType === 'location') {
+      return locations.filter(
+        (l) =>
+          l.name.toLowerCase().includes(term) ||
+          (l.organization_name || '').toLowerCase().includes(term)
+      );
+    }
     return users.filter(
       (u) =>
         u.email.toLowerCase().includes(term) ||
@@ -119,26 +151,36 @@ const PricingForm: React.FC<PricingFormProps> = ({
       setFormError('Please enter a valid Product ID');
       return;
     }
-    if (!useMarkup && (!contractPrice || isNaN(Number(contractPrice)))) {
-      setFormError('Please enter a valid contract price');
+    if (tiers.some((t) => !t.price || isNaN(Number(t.price)))) {
+      setFormError(`Please enter a valid ${useMarkup ? 'markup' : 'contract'} price for every tier`);
+      return;
+    }
+
+    if (effectiveDate && expiryDate && expiryDate <= effectiveDate) {
+      setFormError('Expiry date must be after the effective date');
       return;
     }
-    if (useMarkup && (!markupPrice || isNaN(Number(markupPrice)))) {
-      setFormError('Please enter a valid markup price');
+
+    const ladder = buildTierLadder(
+      tiers.map((t) => ({
+        minQuantity: Number(t.minQuantity),
+        contractPrice: useMarkup ? undefined : Number(t.price),
+        markupPrice: useMarkup ? Number(t.price) : undefined,
+        effectiveDate: effectiveDate || undefined,
+        expiryDate: expiryDate || undefined,
+      }))
+    );
+    if (ladder.error) {
+      setFormError(ladder.error);
       return;
     }
 
     const result = await onSave({
-      id: editEntry?.id,
       entityId,
       productId: Number(productId),
       pricingType,
-      contractPrice: useMarkup ? undefined : Number(contractPrice),
-      markupPrice: useMarkup ? Number(markupPrice) : undefined,
-      minQuantity: Number(minQuantity) || 1,
-      maxQuantity: maxQuantity ? Number(maxQuantity) : undefined,
-      effectiveDate: effectiveDate || undefined,
-      expiryDate: expiryDate || undefined,
+      tiers: ladder.tiers,
+      replaceIds: ladderIds,
     });
 
     if (result.success) {
@@ -148,11 +190,42 @@ const PricingForm: React.FC<PricingFormProps> = ({
     }
   };
 
+  const updateTier = (index: number, field: keyof TierRow, value: string) => {
+    setTiers((prev) => prev.map((t, i) => (i === index ? { ...t, [field]: value } : t)));
+  };
+
+  const addTier = () => {
+    setTiers((prev) => {
+      const highest = Math.max(...prev.map((t) => Number(t.minQuantity) || 1));
+      return [...prev, { minQuantity: String(highest * 10), price: '' }];
+    });
+  };
+
+  const removeTier = (index: number) => {
+    setTiers((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Range label for each row as the ladder will be saved ("1-9", "10-49", "50+")
+  const tierRangeLabel = (index: number) => {
+    const min = Number(tiers[index].minQuantity) || 1;
+    const nextMins = tiers
+      .map((t) => Number(t.minQuantity) || 1)
+      .filter((m) => m > min);
+    return nextMins.length > 0 ? `${min}-${Math.min(...nextMins) - 1}` : `${min}+`;
+  };
+
   const typeIcons = {
     organization: <Building2 className="h-4 w-4" />,
+    location: <MapPin className="h-4 w-4" />,
     individual: <User className="h-4 w-4" />,
   };
 
+  const entityLabels: Record<PricingType, string> = {
+    organization: 'Organization',
+    location: 'Shipping Location',
+    individual: 'User',
+  };
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto" onClick={e => e.stopPropagation()}>
       <div className="flex items-center justify-center min-h-screen px-4">
@@ -167,7 +240,7 @@ const PricingForm: React.FC<PricingFormProps> = ({
                 <DollarSign className="h-5 w-5 text-teal-600" />
               </div>
               <h3 className="text-lg font-semibold text-gray-900">
-                {editEntry ? 'Edit Contract Price' : 'Add Contract Price'}
+                {editEntry ? 'Edit Contract Pricing' : 'Add Contract Pricing'}
               </h3>
             </div>
             <button
@@ -189,8 +262,8 @@ const PricingForm: React.FC<PricingFormProps> = ({
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Pricing Type
               </label>
-              <div className="grid grid-cols-2 gap-2">
-                {(['organization', 'individual'] as PricingType[]).map((type) => (
+              <div className="grid grid-cols-3 gap-2">
+                {(['organization', 'location', 'individual'] as PricingType[]).map((type) => (
                   <button
                     key={type}
                     type="button"
@@ -215,7 +288,7 @@ const PricingForm: React.FC<PricingFormProps> = ({
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                {pricingType === 'organization' ? 'Organization' : 'User'}
+                {entityLabels[pricingType]}
               </label>
               <input
                 type="text"
@@ -283,7 +356,8 @@ const PricingForm: React.FC<PricingFormProps> = ({
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="block text-sm font-medium text-gray-700">
-                  Price
+                  <Layers className="h-3.5 w-3.5 inline mr-1" />
+                  Quantity Tiers
                 </label>
                 <label className="flex items-center space-x-2 cursor-pointer">
                   <input
@@ -295,60 +369,56 @@ const PricingForm: React.FC<PricingFormProps> = ({
                   <span className="text-xs text-gray-600">Use markup price</span>
                 </label>
               </div>
-              {useMarkup ? (
-                <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={markupPrice}
-                    onChange={(e) => setMarkupPrice(e.target.value)}
-                    placeholder="Markup price above retail"
-                    className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                  />
-                </div>
-              ) : (
-                <div className="relative">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={contractPrice}
-                    onChange={(e) => setContractPrice(e.target.value)}
-                    placeholder="Contract price"
-                    className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                  />
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+                  <span className="col-span-4">From Qty</span>
+                  <span className="col-span-5">{useMarkup ? 'Markup Price' : 'Contract Price'}</span>
+                  <span className="col-span-3">Range</span>
                 </div>
-              )}
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Min Quantity
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  value={minQuantity}
-                  onChange={(e) => setMinQuantity(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Max Quantity
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  value={maxQuantity}
-                  onChange={(e) => setMaxQuantity(e.target.value)}
-                  placeholder="Unlimited"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
-                />
+                {tiers.map((tier, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="number"
+                      min="1"
+                      value={tier.minQuantity}
+                      onChange={(e) => updateTier(index, 'minQuantity', e.target.value)}
+                      className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                    />
+                    <div className="col-span-5 relative">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={tier.price}
+                        onChange={(e) => updateTier(index, 'price', e.target.value)}
+                        placeholder={useMarkup ? 'Markup price' : 'Contract price'}
+                        className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div className="col-span-3 flex items-center justify-between">
+                      <span className="text-xs text-gray-600">{tierRangeLabel(index)}</span>
+                      {tiers.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeTier(index)}
+                          className="text-gray-400 hover:text-red-600 transition-colors"
+                          title="Remove tier"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={addTier}
+                  className="flex items-center space-x-1 text-xs font-medium text-teal-600 hover:text-teal-800"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  <span>Add quantity break</span>
+                </button>
               </div>
             </div>
 
@@ -377,6 +447,10 @@ const PricingForm: React.FC<PricingFormProps> = ({
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
                 />
               </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                Use a future effective date to schedule a price change. Prices already in force
+                stay active until the new ladder starts.
+              </p>
             </div>
 
             <div className="flex justify-end space-x-3 pt-2">
@@ -14,8 +14,10 @@ import {
   ChevronRight,
 } from 'lucide-react';
 import { EnrichedPricingEntry } from './usePricingData';
+import { getPricingWindowStatus, isExpiringSoon, PricingWindowStatus } from '@/services/pricingWindows';
 
-type PricingTypeFilter = 'all' | 'organization' | 'individual';
+type PricingTypeFilter = 'all' | 'organization' | 'location' | 'individual';
+type StatusFilter = 'all' | PricingWindowStatus;
 type SortField = 'entity_name' | 'product_id' | 'contract_price' | 'pricing_type' | 'min_quantity' | 'effective_date';
 type SortDir = 'asc' | 'desc';
 
@@ -38,6 +40,7 @@ const PricingTable: React.FC<PricingTableProps> = ({
 }) => {
   const [search, setSearch] = useState('');
   const [typeFilter, setTypeFilter] = useState<PricingTypeFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [sortField, setSortField] = useState<SortField>('entity_name');
   const [sortDir, setSortDir] = useState<SortDir>('asc');
   const [page, setPage] = useState(0);
@@ -68,6 +71,10 @@ const PricingTable: React.FC<PricingTableProps> = ({
       result = result.filter((e) => e.pricing_type === typeFilter);
     }
 
+    if (statusFilter !== 'all') {
+      result = result.filter((e) => getPricingWindowStatus(e) === statusFilter);
+    }
+
     if (search) {
       const term = search.toLowerCase();
       result = result.filter(
@@ -96,7 +103,7 @@ const PricingTable: React.FC<PricingTableProps> = ({
     });
 
     return result;
-  }, [entries, typeFilter, search, sortField, sortDir]);
+  }, [entries, typeFilter, statusFilter, search, sortField, sortDir]);
 
   const totalPages = Math.ceil(filtered.length / PAGE_SIZE);
   const paged = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
@@ -119,10 +126,33 @@ const PricingTable: React.FC<PricingTableProps> = ({
     return counts;
   }, [entries]);
 
+  const statusCounts = useMemo(() => {
+    const counts = { all: entries.length, active: 0, upcoming: 0, expired: 0 };
+    entries.forEach((e) => {
+      counts[getPricingWindowStatus(e)]++;
+    });
+    return counts;
+  }, [entries]);
+
+  const statusBadge = (entry: EnrichedPricingEntry) => {
+    const status = getPricingWindowStatus(entry);
+    if (status === 'upcoming') {
+      return 'bg-sky-50 text-sky-700 border-sky-200';
+    }
+    if (status === 'expired') {
+      return 'bg-gray-100 text-gray-500 border-gray-200';
+    }
+    return isExpiringSoon(entry)
+      ? 'bg-amber-50 text-amber-700 border-amber-200'
+      : 'bg-emerald-50 text-emerald-700 border-emerald-200';
+  };
+
   const typeIcon = (type: string) => {
     switch (type) {
       case 'organization':
         return <Building2 className="h-3.5 w-3.5" />;
+      case 'location':
+        return <MapPin className="h-3.5 w-3.5" />;
       case 'individual':
         return <User className="h-3.5 w-3.5" />;
       default:
@@ -134,6 +164,8 @@ const PricingTable: React.FC<PricingTableProps> = ({
     switch (type) {
       case 'organization':
         return 'bg-emerald-50 text-emerald-700 border-emerald-200';
+      case 'location':
+        return 'bg-sky-50 text-sky-700 border-sky-200';
       case 'individual':
         return 'bg-amber-50 text-amber-700 border-amber-200';
       default:
@@ -170,6 +202,7 @@ const PricingTable: React.FC<PricingTableProps> = ({
             [
               { key: 'all', label: 'All' },
               { key: 'organization', label: 'Org' },
+              { key: 'location', label: 'Location' },
               { key: 'individual', label: 'User' },
             ] as { key: PricingTypeFilter; label: string }[]
           ).map((opt) => (
@@ -192,6 +225,34 @@ const PricingTable: React.FC<PricingTableProps> = ({
             </button>
           ))}
         </div>
+        <div className="flex space-x-1.5">
+          {(
+            [
+              { key: 'all', label: 'Any Status' },
+              { key: 'active', label: 'Active' },
+              { key: 'upcoming', label: 'Upcoming' },
+              { key: 'expired', label: 'Expired' },
+            ] as { key: StatusFilter; label: string }[]
+          ).map((opt) => (
+            <button
+              key={opt.key}
+              onClick={() => {
+                setStatusFilter(opt.key);
+                setPage(0);
+              }}
+              className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
+                statusFilter === opt.key
+                  ? 'border-teal-500 bg-teal-50 text-teal-700'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {opt.label}
+              <span className="ml-1 text-gray-400">
+                {statusCounts[opt.key]}
+              </span>
+            </button>
+          ))}
+        </div>
       </div>
 
       <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm">
@@ -253,6 +314,9 @@ const PricingTable: React.FC<PricingTableProps> = ({
                     {sortIcon('effective_date')}
                   </button>
                 </th>
+                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
                 <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
@@ -321,6 +385,13 @@ const PricingTable: React.FC<PricingTableProps> = ({
                         </div>
                       )}
                     </td>
+                    <td className="px-4 py-3 text-center">
+                      <span
+                        className={`inline-flex px-2.5 py-1 text-xs font-medium rounded-full border capitalize ${statusBadge(entry)}`}
+                      >
+                        {isExpiringSoon(entry) ? 'Expiring soon' : getPricingWindowStatus(entry)}
+                      </span>
+                    </td>
                     <td className="px-4 py-3 text-right">
                       <div className="flex items-center justify-end space-x-1.5">
                         <button
@@ -362,7 +433,7 @@ const PricingTable: React.FC<PricingTableProps> = ({
               No pricing entries found
             </p>
             <p className="mt-1 text-xs text-gray-500">
-              {search || typeFilter !== 'all'
+              {search || typeFilter !== 'all' || statusFilter !== 'all'
                 ? 'Try adjusting your search or filters.'
                 : 'Add your first contract price to get started.'}
             </p>
@@ -11,6 +11,7 @@ import {
   Calendar,
 } from 'lucide-react';
 import { EnrichedPricingEntry, ProductOption } from './usePricingData';
+import { getPricingWindowStatus, isExpiringSoon } from '@/services/pricingWindows';
 
 interface ProductPricingGridProps {
   products: ProductOption[];
@@ -24,6 +25,8 @@ interface ProductPricingGridProps {
     pricingType: 'organization';
     contractPrice?: number;
     minQuantity: number;
+    effectiveDate?: string;
+    expiryDate?: string;
   }) => Promise<{ success: boolean; error?: string }>;
   onDeletePrice: (id: string) => void;
   saving: boolean;
@@ -49,19 +52,34 @@ const ProductPricingGrid: React.FC<ProductPricingGridProps> = ({
   const [savingRow, setSavingRow] = useState<number | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Build a map: productId -> pricing entry for selected org/entity
-  const pricingMap = useMemo(() => {
-    const map = new Map<number, EnrichedPricingEntry>();
+  // Build maps: productId -> active / next scheduled / last expired entry for selected org/entity
+  const { pricingMap, upcomingMap, expiredMap } = useMemo(() => {
+    const active = new Map<number, EnrichedPricingEntry>();
+    const upcoming = new Map<number, EnrichedPricingEntry>();
+    const expired = new Map<number, EnrichedPricingEntry>();
     entries.forEach((e) => {
-      if (e.entity_id === orgId && e.pricing_type === pricingType) {
+      if (e.entity_id !== orgId || e.pricing_type !== pricingType) return;
+      const status = getPricingWindowStatus(e);
+      if (status === 'active') {
         // Keep the most recently updated entry per product
-        const existing = map.get(e.product_id);
+        const existing = active.get(e.product_id);
         if (!existing || new Date(e.updated_at) > new Date(existing.updated_at)) {
-          map.set(e.product_id, e);
+          active.set(e.product_id, e);
+        }
+      } else if (status === 'upcoming') {
+        // Keep the soonest scheduled change
+        const existing = upcoming.get(e.product_id);
+        if (!existing || (e.effective_date || '') < (existing.effective_date || '')) {
+          upcoming.set(e.product_id, e);
+        }
+      } else {
+        const existing = expired.get(e.product_id);
+        if (!existing || (e.expiry_date || '') > (existing.expiry_date || '')) {
+          expired.set(e.product_id, e);
         }
       }
     });
-    return map;
+    return { pricingMap: active, upcomingMap: upcoming, expiredMap: expired };
   }, [entries, orgId, pricingType]);
 
   const filtered = useMemo(() => {
@@ -116,6 +134,7 @@ const ProductPricingGrid: React.FC<ProductPricingGridProps> = ({
       return;
     }
 
+    // Keep the current window; a new price runs until any scheduled change
     const existing = pricingMap.get(productId);
     setSavingRow(productId);
     const result = await onSavePrice({
@@ -125,6 +144,8 @@ const ProductPricingGrid: React.FC<ProductPricingGridProps> = ({
       pricingType,
       contractPrice: price,
       minQuantity: 1,
+      effectiveDate: existing?.effective_date,
+      expiryDate: existing ? existing.expiry_date : upcomingMap.get(productId)?.effective_date,
     });
     setSavingRow(null);
 
@@ -205,6 +226,8 @@ const ProductPricingGrid: React.FC<ProductPricingGridProps> = ({
                 const isEditing = editingProductId === product.id;
                 const isSavingThis = savingRow === product.id;
                 const hasPrice = existing?.contract_price != null;
+                const scheduled = upcomingMap.get(product.id);
+                const lapsed = !existing ? expiredMap.get(product.id) : undefined;
                 const err = rowError?.productId === product.id ? rowError.msg : null;
 
                 return (
@@ -270,6 +293,23 @@ const ProductPricingGrid: React.FC<ProductPricingGridProps> = ({
                           )}
                         </button>
                       )}
+                      {existing && isExpiringSoon(existing) && (
+                        <p className="text-xs text-amber-600 text-right mt-0.5">
+                          Expires {new Date(existing.expiry_date!).toLocaleDateString()}
+                        </p>
+                      )}
+                      {scheduled && (
+                        <p className="text-xs text-sky-600 text-right mt-0.5">
+                          ${(scheduled.markup_price || scheduled.contract_price)?.toFixed(2)} from{' '}
+                          {new Date(scheduled.effective_date!).toLocaleDateString()}
+                        </p>
+                      )}
+                      {lapsed && (
+                        <p className="text-xs text-gray-400 text-right mt-0.5">
+                          ${(lapsed.markup_price || lapsed.contract_price)?.toFixed(2)} expired{' '}
+                          {new Date(lapsed.expiry_date!).toLocaleDateString()}
+                        </p>
+                      )}
                       {err && (
                         <p className="text-xs text-red-500 text-right mt-0.5">{err}</p>
                       )}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/services/supabase';
 import { contractPricingService, ContractPrice } from '@/services/contractPricing';
+import type { PriceTierInput } from '@/services/pricingTiers';
 
 export interface EnrichedPricingEntry extends ContractPrice {
   entity_name: string;
@@ -27,12 +28,19 @@ interface UserOption {
   full_name?: string;
 }
 
+interface LocationOption {
+  id: string;
+  name: string;
+  organization_name?: string;
+}
+
 export function usePricingData(organizationId?: string) {
   const [entries, setEntries] = useState<EnrichedPricingEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
   const [users, setUsers] = useState<UserOption[]>([]);
+  const [locations, setLocations] = useState<LocationOption[]>([]);
   const [products, setProducts] = useState<ProductOption[]>([]);
   const [saving, setSaving] = useState(false);
 
@@ -53,6 +61,9 @@ export function usePricingData(organizationId?: string) {
         } else if (entry.pricing_type === 'organization' && entry.organizations) {
           entity_name = entry.organizations.name || 'Unknown Org';
           entity_detail = entry.organizations.code;
+        } else if (entry.pricing_type === 'location' && entry.locations) {
+          entity_name = entry.locations.label || 'Unknown Location';
+          entity_detail = entry.locations.organizations?.name;
         }
 
         return {
@@ -86,7 +97,7 @@ export function usePricingData(organizationId?: string) {
 
   const fetchEntityOptions = useCallback(async () => {
     try {
-      const [orgsRes, usersRes] = await Promise.all([
+      const [orgsRes, usersRes, locationsRes] = await Promise.all([
         supabase
           .from('organizations')
           .select('id, name, code')
@@ -97,10 +108,24 @@ export function usePricingData(organizationId?: string) {
           .select('id, email, full_name')
           .eq('approved', true)
           .order('email'),
+        supabase
+          .from('customer_addresses')
+          .select('id, label, organizations(name)')
+          .eq('address_type', 'shipping')
+          .eq('is_active', true)
+          .not('organization_id', 'is', null)
+          .order('label'),
       ]);
 
       if (orgsRes.data) setOrganizations(orgsRes.data);
       if (usersRes.data) setUsers(usersRes.data);
+      if (locationsRes.data) {
+        setLocations(locationsRes.data.map(l => ({
+          id: l.id,
+          name: l.label,
+          organization_name: (l.organizations as unknown as { name: string } | null)?.name,
+        })));
+      }
     } catch (err) {
       console.error('Error fetching entity options:', err);
     }
@@ -116,7 +141,7 @@ export function usePricingData(organizationId?: string) {
     id?: string;
     entityId: string;
     productId: number;
-    pricingType: 'individual' | 'organization';
+    pricingType: 'individual' | 'organization' | 'location';
     contractPrice?: number;
     markupPrice?: number;
     minQuantity: number;
@@ -148,6 +173,32 @@ export function usePricingData(organizationId?: string) {
     }
   };
 
+  const saveTierLadder = async (params: {
+    entityId: string;
+    productId: number;
+    pricingType: 'individual' | 'organization' | 'location';
+    tiers: PriceTierInput[];
+    replaceIds?: string[];
+  }) => {
+    setSaving(true);
+    try {
+      const result = await contractPricingService.setPriceTiers(
+        params.entityId,
+        params.productId,
+        params.pricingType,
+        params.tiers,
+        params.replaceIds
+      );
+
+      if (result.success) {
+        await fetchPricingData();
+      }
+      return result;
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const deletePricing = async (id: string) => {
     setSaving(true);
     try {
@@ -168,9 +219,11 @@ export function usePricingData(organizationId?: string) {
     saving,
     organizations,
     users,
+    locations,
     products,
     fetchPricingData,
     savePricing,
+    saveTierLadder,
     deletePricing,
   };
 }
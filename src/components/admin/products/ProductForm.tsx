@@ -467,7 +467,10 @@ const ProductForm: React.FC<ProductFormProps> = ({ product, isOpen, onClose, onS
                 </div>
 
                 <div className="flex items-center space-x-6">
-                  <label className="flex items-center space-x-2 cursor-pointer">
+                  <label
+                    className="flex items-center space-x-2 cursor-pointer"
+                    title="Set automatically from stock levels once the product is tracked in Inventory"
+                  >
                     <input
                       type="checkbox"
                       checked={form.is_in_stock}
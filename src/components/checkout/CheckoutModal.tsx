@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { X, CreditCard, Truck, MapPin, User, Lock, ArrowLeft, ArrowRight, Loader, AlertCircle, RefreshCw, CheckCircle, Clock, FileText, Printer, FlaskConical } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { X, CreditCard, Truck, MapPin, User, Lock, ArrowLeft, ArrowRight, Loader, AlertCircle, RefreshCw, CheckCircle, Clock, FileText, Printer, FlaskConical, Tag } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import PriceDisplay from '../PriceDisplay';
 import { restCheckoutService } from '@/services/restCheckout';
@@ -11,9 +11,11 @@ import { CustomerAddress, customerAddressService } from '@/services/customerAddr
 import { supabase } from '@/services/supabase';
 import { quickbooksPayments } from '@/services/quickbooks';
 import OrderReceipt from './OrderReceipt';
-import { siteSettingsService, type ShippingMethod } from '@/services/siteSettings';
+import { shippingService, FALLBACK_SHIPPING_METHODS, type ShippingRate } from '@/services/shipping';
 import TurnstileWidget from '../TurnstileWidget';
 import { activityLogService } from '@/services/activityLog';
+import { contractPricingService } from '@/services/contractPricing';
+import { PAYMENT_TERMS_LABELS } from '@/services/paymentTerms';
 
 interface CartItem {
   id: number;
@@ -25,6 +27,7 @@ interface CartItem {
   image: string;
   hasMarkup?: boolean;
   brand?: string;
+  pricingSource?: string;
 }
 
 interface CheckoutModalProps {
@@ -33,6 +36,8 @@ interface CheckoutModalProps {
   items: CartItem[];
   onOrderComplete: (orderId: string) => void;
   organizationId?: string;
+  /** Accepting this quote: prices are fixed and discount codes are off */
+  quoteId?: string;
 }
 
 interface ShippingAddress {
@@ -59,7 +64,8 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
   onClose,
   items,
   onOrderComplete,
-  organizationId
+  organizationId,
+  quoteId
 }) => {
   const { user, profile } = useAuth();
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('customer');
@@ -123,23 +129,86 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
   
   const [sameAsShipping, setSameAsShipping] = useState(true);
   const [selectedShippingMethod, setSelectedShippingMethod] = useState('standard');
-  const [shippingMethods, setShippingMethods] = useState<ShippingMethod[]>(siteSettingsService.getDefaults().shipping);
+  const [shippingMethods, setShippingMethods] = useState<ShippingRate[]>(() => FALLBACK_SHIPPING_METHODS.map(m => ({
+    ...m, weightLbs: 0, surcharge: 0, freeShipping: false, negotiated: false, provider: 'fallback',
+  })));
+  const [loadingShippingRates, setLoadingShippingRates] = useState(false);
+  // Calculated by restCheckoutService.addAddresses once the shipping address is known
+  const [tax, setTax] = useState(0);
+  const [taxExempt, setTaxExempt] = useState(false);
+  // Saved shipping address picked in AddressSelector; its contract pricing
+  // outranks organization and individual pricing
+  const [shippingLocationId, setShippingLocationId] = useState<string | null>(null);
+  const [locationPrices, setLocationPrices] = useState<Record<number, number>>({});
+  // Discount code applied on the review step (validated and stored on the session)
+  const [discountInput, setDiscountInput] = useState('');
+  const [discountError, setDiscountError] = useState<string | null>(null);
+  const [applyingDiscount, setApplyingDiscount] = useState(false);
+  const [appliedDiscount, setAppliedDiscount] = useState<{
+    code: string;
+    discount: number;
+    shippingDiscount: number;
+  } | null>(null);
+
+  const pricedItems = useMemo(
+    () => items.map(item => item.id in locationPrices
+      ? { ...item, price: locationPrices[item.id], pricingSource: 'location' }
+      : item),
+    [items, locationPrices]
+  );
 
-  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const shippingCost = shippingMethods.find(m => m.id === selectedShippingMethod)?.price || 0;
-  const tax = 0;
-  const total = subtotal + shippingCost + tax;
+  const subtotal = pricedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const selectedShippingRate = shippingMethods.find(m => m.id === selectedShippingMethod);
+  const shippingCost = selectedShippingRate?.price || 0;
+  const discountTotal = (appliedDiscount?.discount || 0) + (appliedDiscount?.shippingDiscount || 0);
+  const total = subtotal - discountTotal + shippingCost + tax;
 
+  // Re-rate shipping when the destination or cart changes
   useEffect(() => {
-    if (isOpen) {
-      siteSettingsService.getSettings().then(s => setShippingMethods(s.shipping));
-    }
-  }, [isOpen]);
+    if (!isOpen || !shippingAddress.state || shippingAddress.postalCode.trim().length < 5) return;
+
+    let cancelled = false;
+    setLoadingShippingRates(true);
+    shippingService.getRatesForItems(
+      pricedItems.map(item => ({ productId: item.id, quantity: item.quantity, price: item.price })),
+      { state: shippingAddress.state, postalCode: shippingAddress.postalCode, country: shippingAddress.country },
+      selectedOrgId
+    ).then(rates => {
+      if (cancelled) return;
+      setShippingMethods(rates);
+      setSelectedShippingMethod(current => rates.some(r => r.id === current) ? current : rates[0]?.id || current);
+    }).finally(() => {
+      if (!cancelled) setLoadingShippingRates(false);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, shippingAddress.state, shippingAddress.postalCode, shippingAddress.country, pricedItems, selectedOrgId]);
 
   useEffect(() => {
     checkUserRole();
   }, [user]);
 
+  // Location contract prices by product id. Same approval rule as the cart:
+  // sales reps ordering for an organization, otherwise approved customers.
+  const fetchLocationPrices = useCallback(async (locationId: string | null): Promise<Record<number, number>> => {
+    const canUseContractPricing = !quoteId && (!!organizationId || ['approved', 'admin'].includes(profile?.role || ''));
+    if (!locationId || !canUseContractPricing) return {};
+
+    const prices: Record<number, number> = {};
+    await Promise.all(items.map(async item => {
+      const price = await contractPricingService.getLocationPrice(locationId, item.id, item.quantity);
+      if (price !== null) prices[item.id] = price;
+    }));
+    return prices;
+  }, [items, organizationId, profile?.role, quoteId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLocationPrices(shippingLocationId).then(prices => {
+      if (!cancelled) setLocationPrices(prices);
+    });
+    return () => { cancelled = true; };
+  }, [shippingLocationId, fetchLocationPrices]);
+
   useEffect(() => {
     if (isOpen && items.length > 0 && !sessionId && selectedCustomerId) {
       initializeCheckout();
@@ -197,6 +266,19 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
     return data?.organization_id;
   };
 
+  const toSessionItems = (list: CartItem[]) => list.map(item => ({
+    productId: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    price: item.price,
+    retailPrice: item.retailPrice || item.price,
+    cost: item.cost || 0,
+    brand: item.brand,
+    image: item.image,
+    hasMarkup: item.hasMarkup || false,
+    pricingSource: item.pricingSource,
+  }));
+
   const handleCustomerSelection = async (selection: {
     customerId: string;
     organizationId?: string;
@@ -227,22 +309,14 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
     setError(null);
 
     try {
-      const cartItems = items.map(item => ({
-        productId: item.id,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price,
-        retailPrice: item.retailPrice || item.price,
-        cost: item.cost || 0,
-        brand: item.brand,
-        image: item.image,
-        hasMarkup: item.hasMarkup || false
-      }));
+      const cartItems = toSessionItems(items);
 
       const sessionResult = await restCheckoutService.createCheckoutSession(
         user.id,
         cartItems,
-        selectedOrgId
+        selectedOrgId,
+        undefined,
+        quoteId
       );
 
       if (!sessionResult.success || !sessionResult.sessionId) {
@@ -365,6 +439,80 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
     return true;
   };
 
+  // Shipping method and cost last written to the session by addAddresses
+  const savedShippingRef = useRef<string | null>(null);
+  const shippingKey = `${selectedShippingMethod}:${shippingCost}`;
+
+  /** Store both addresses on the session and take its tax (and shipping) back from it */
+  const saveCheckoutAddresses = async (currentSessionId: string, currentCartId: string): Promise<boolean> => {
+    const billingAddr = {
+      first_name: billingAddress.firstName,
+      last_name: billingAddress.lastName,
+      email: billingAddress.email,
+      company: billingAddress.company,
+      address1: billingAddress.address1,
+      address2: billingAddress.address2,
+      city: billingAddress.city,
+      state_or_province: billingAddress.state,
+      postal_code: billingAddress.postalCode,
+      country_code: billingAddress.country,
+      phone: billingAddress.phone,
+    };
+
+    const shippingAddr = {
+      first_name: shippingAddress.firstName,
+      last_name: shippingAddress.lastName,
+      email: user?.email || '',
+      company: shippingAddress.company,
+      address1: shippingAddress.address1,
+      address2: shippingAddress.address2,
+      city: shippingAddress.city,
+      state_or_province: shippingAddress.state,
+      postal_code: shippingAddress.postalCode,
+      country_code: shippingAddress.country,
+      phone: shippingAddress.phone,
+    };
+
+    const checkoutResult = await restCheckoutService.addAddresses(
+      currentSessionId,
+      currentCartId,
+      billingAddr,
+      shippingAddr,
+      shippingCost,
+      selectedShippingRate
+    );
+
+    if (checkoutResult.success && checkoutResult.checkoutId) {
+      setCheckoutId(checkoutResult.checkoutId);
+      setTax(checkoutResult.tax ?? 0);
+      setTaxExempt(!!checkoutResult.taxExempt);
+      // The session re-applies the code when the shipping cost changes
+      if (checkoutResult.discount !== undefined) {
+        setAppliedDiscount(prev => prev && {
+          ...prev,
+          discount: checkoutResult.discount || 0,
+          shippingDiscount: checkoutResult.shippingDiscount || 0,
+        });
+      }
+      savedShippingRef.current = shippingKey;
+      return true;
+    }
+
+    const errorMsg = checkoutResult.error || 'Failed to create checkout';
+    setError(errorMsg);
+    console.error('[Checkout] Address/checkout creation failed:', errorMsg);
+    if (user?.id) {
+      activityLogService.logAction({
+        userId: user.id,
+        action: 'checkout_error',
+        resourceType: 'checkout',
+        resourceId: currentSessionId,
+        details: { error: errorMsg, step: 'address_checkout', organization_id: selectedOrgId },
+      });
+    }
+    return false;
+  };
+
   const handleNext = async () => {
     if (!validateStep(currentStep)) {
       // fieldErrors are set by validateStep — don't set a system-level error
@@ -420,58 +568,35 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
         }
       }
 
-      if (currentStep === 'billing' && sessionId && cartId && !checkoutId) {
-        const billingAddr = {
-          first_name: billingAddress.firstName,
-          last_name: billingAddress.lastName,
-          email: billingAddress.email,
-          company: billingAddress.company,
-          address1: billingAddress.address1,
-          address2: billingAddress.address2,
-          city: billingAddress.city,
-          state_or_province: billingAddress.state,
-          postal_code: billingAddress.postalCode,
-          country_code: billingAddress.country,
-          phone: billingAddress.phone,
-        };
-
-        const shippingAddr = {
-          first_name: shippingAddress.firstName,
-          last_name: shippingAddress.lastName,
-          email: user?.email || '',
-          company: shippingAddress.company,
-          address1: shippingAddress.address1,
-          address2: shippingAddress.address2,
-          city: shippingAddress.city,
-          state_or_province: shippingAddress.state,
-          postal_code: shippingAddress.postalCode,
-          country_code: shippingAddress.country,
-          phone: shippingAddress.phone,
-        };
-
-        const checkoutResult = await restCheckoutService.addAddresses(
-          sessionId,
-          cartId,
-          billingAddr,
-          shippingAddr,
-          shippingCost
-        );
-
-        if (checkoutResult.success && checkoutResult.checkoutId) {
-          setCheckoutId(checkoutResult.checkoutId);
-        } else {
-          const errorMsg = checkoutResult.error || 'Failed to create checkout';
-          setError(errorMsg);
-          console.error('[Checkout] Address/checkout creation failed:', errorMsg);
-          if (user?.id) {
-            activityLogService.logAction({
-              userId: user.id,
-              action: 'checkout_error',
-              resourceType: 'checkout',
-              resourceId: sessionId,
-              details: { error: errorMsg, step: 'address_checkout', organization_id: selectedOrgId },
-            });
-          }
+      if (currentStep === 'shipping' && sessionId) {
+        // Price the session for the chosen location (or back to cart prices)
+        const prices = await fetchLocationPrices(shippingLocationId);
+        setLocationPrices(prices);
+        const sessionItems = toSessionItems(items.map(item => item.id in prices
+          ? { ...item, price: prices[item.id], pricingSource: 'location' }
+          : item));
+
+        const locationResult = await restCheckoutService.setShippingLocation(sessionId, shippingLocationId, sessionItems);
+        if (!locationResult.success) {
+          setError(locationResult.error || 'Failed to apply location pricing');
+          setLoading(false);
+          return;
+        }
+
+        // Repricing drops the discount, and re-taxes the new prices once the
+        // session has an address
+        setAppliedDiscount(null);
+        if (checkoutId) {
+          setTax(locationResult.tax ?? 0);
+          setTaxExempt(!!locationResult.taxExempt);
+        }
+      }
+
+      // Saved again on every pass through billing, so going back to change
+      // the address or shipping rate re-taxes and re-rates the session
+      if (currentStep === 'billing' && sessionId && cartId) {
+        const saved = await saveCheckoutAddresses(sessionId, cartId);
+        if (!saved) {
           setLoading(false);
           return;
         }
@@ -500,6 +625,49 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
     }
   };
 
+  const handleApplyDiscount = async () => {
+    if (!sessionId || !discountInput.trim()) return;
+
+    setApplyingDiscount(true);
+    setDiscountError(null);
+    try {
+      const result = await restCheckoutService.applyDiscount(sessionId, discountInput);
+      if (!result.success) {
+        setDiscountError(result.error || 'That code is not valid');
+        return;
+      }
+
+      setAppliedDiscount({
+        code: discountInput.trim().toUpperCase(),
+        discount: result.discount || 0,
+        shippingDiscount: result.shippingDiscount || 0,
+      });
+      setTax(result.tax ?? 0);
+      setTaxExempt(!!result.taxExempt);
+      setDiscountInput('');
+    } finally {
+      setApplyingDiscount(false);
+    }
+  };
+
+  const handleRemoveDiscount = async () => {
+    if (!sessionId) return;
+
+    setApplyingDiscount(true);
+    try {
+      const result = await restCheckoutService.applyDiscount(sessionId, null);
+      if (result.success) {
+        setAppliedDiscount(null);
+        setTax(result.tax ?? 0);
+        setTaxExempt(!!result.taxExempt);
+      } else {
+        setDiscountError(result.error || 'Failed to remove discount code');
+      }
+    } finally {
+      setApplyingDiscount(false);
+    }
+  };
+
   const handleBack = () => {
     if (currentStep === 'shipping' && !useManualAddress && showAddressSelector) {
       setShowAddressSelector(false);
@@ -533,6 +701,18 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
       return;
     }
 
+    // Rates can come back after the addresses were saved; put the new rate
+    // (and the tax on it) on the session and let the customer see the total
+    if (cartId && savedShippingRef.current !== shippingKey) {
+      setLoading(true);
+      const saved = await saveCheckoutAddresses(sessionId, cartId);
+      setLoading(false);
+      if (saved) {
+        setError('Shipping was updated. Please review the new total before placing your order.');
+      }
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -541,7 +721,11 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
       let paymentLastFour = '';
       let paymentStatus = 'authorized';
 
-      if (testMode && profile?.role === 'admin') {
+      if (paymentData.type === 'invoice') {
+        // Nothing is charged now; the order is billed on a QuickBooks invoice
+        // once it is placed. Credit is checked again when the order is inserted.
+        paymentStatus = 'pending';
+      } else if (testMode && profile?.role === 'admin') {
         // Test mode — skip actual payment processing
         paymentAuthId = `TEST-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
         paymentLastFour = paymentData.lastFour || '0000';
@@ -784,6 +968,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
       const sanitizedPaymentData = {
         cardholder_name: paymentData.type === 'card' ? paymentData.cardholderName
           : paymentData.type === 'ach' ? paymentData.accountHolderName
+          : paymentData.type === 'invoice' ? `PO ${paymentData.poNumber}`
           : 'Saved Method',
         number: paymentLastFour.padStart(16, '*'),
         expiry_month: 1,
@@ -797,6 +982,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
       const methodLabel = paymentData.type === 'card' ? 'credit_card'
         : paymentData.type === 'ach' ? 'ach'
         : paymentData.type === 'saved' ? (paymentData.paymentType === 'ach' || paymentData.paymentType === 'bank_account' ? 'saved_ach' : 'saved_card')
+        : paymentData.type === 'invoice' ? 'invoice'
         : 'credit_card';
 
       const result = await restCheckoutService.processPayment(
@@ -809,6 +995,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
           paymentStatus,
           paymentMethod: isTestOrder ? 'test' : methodLabel,
           paymentLastFour: paymentLastFour,
+          poNumber: paymentData.type === 'invoice' ? paymentData.poNumber : undefined,
         }
       );
 
@@ -820,6 +1007,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
         const methodLabel = paymentData.type === 'card' ? 'Credit Card'
           : paymentData.type === 'ach' ? 'Bank Account'
           : paymentData.type === 'saved' ? (paymentData.paymentType === 'ach' || paymentData.paymentType === 'bank_account' ? 'Bank Account' : 'Credit Card')
+          : paymentData.type === 'invoice' ? 'Invoice'
           : 'Card';
 
         setPaymentResult({
@@ -909,6 +1097,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
 
   const handleAddressSelect = (address: CustomerAddress | 'new', type: 'shipping' | 'billing') => {
     if (address === 'new') {
+      if (type === 'shipping') setShippingLocationId(null);
       setUseManualAddress(true);
       return;
     }
@@ -928,6 +1117,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
 
     if (type === 'shipping') {
       setShippingAddress(addressData);
+      setShippingLocationId(address.id);
       setShowAddressSelector(false);
     } else {
       setBillingAddress({ ...addressData, email: address.email || customerEmail });
@@ -956,7 +1146,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
             organizationId={selectedOrgId}
             addressType="shipping"
             onSelect={(addr) => handleAddressSelect(addr, 'shipping')}
-            onAddNew={() => setUseManualAddress(true)}
+            onAddNew={() => { setShippingLocationId(null); setUseManualAddress(true); }}
           />
         </div>
       );
@@ -1107,7 +1297,17 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
 
       {/* Shipping Methods */}
       <div className="mt-8">
-        <h4 className="text-lg font-semibold mb-4">Shipping Method</h4>
+        <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          Shipping Method
+          {loadingShippingRates && <Loader className="h-4 w-4 animate-spin text-gray-400" />}
+        </h4>
+        {!shippingAddress.state || !shippingAddress.postalCode ? (
+          <p className="text-sm text-gray-500 mb-3">Rates are estimates until a shipping state and ZIP code are entered.</p>
+        ) : (shippingMethods[0]?.weightLbs || 0) > 0 && (
+          <p className="text-sm text-gray-500 mb-3">
+            Rated for {shippingMethods[0].weightLbs} lb{shippingMethods[0].zone ? ` to ${shippingMethods[0].zone}` : ''}
+          </p>
+        )}
         <div className="space-y-3">
           {shippingMethods.map((method) => (
             <label key={method.id} className="flex items-center p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
@@ -1122,9 +1322,15 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
               <div className="flex-1">
                 <div className="flex justify-between items-center">
                   <span className="font-medium">{method.name}</span>
-                  <span className="font-semibold">${method.price.toFixed(2)}</span>
+                  <span className="font-semibold">
+                    {method.freeShipping ? <span className="text-green-700">FREE</span> : `$${method.price.toFixed(2)}`}
+                  </span>
                 </div>
                 <span className="text-sm text-gray-600">{method.days}</span>
+                {method.negotiated && <span className="text-xs text-blue-600 ml-2">Contract rate</span>}
+                {method.surcharge > 0 && (
+                  <span className="text-xs text-amber-700 ml-2">Includes ${method.surcharge.toFixed(2)} oversized surcharge</span>
+                )}
               </div>
             </label>
           ))}
@@ -1399,6 +1605,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
     if (paymentData.type === 'card') return `Credit Card ****${paymentData.lastFour}`;
     if (paymentData.type === 'ach') return `Bank Account ****${paymentData.lastFour}`;
     if (paymentData.type === 'saved') return `Saved Method ****${paymentData.lastFour}`;
+    if (paymentData.type === 'invoice') return `Invoice · ${PAYMENT_TERMS_LABELS[paymentData.paymentTerms]} · PO #${paymentData.poNumber}`;
     return 'Unknown';
   };
 
@@ -1424,6 +1631,11 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
             {paymentData?.type === 'ach' && (
               <p className="text-xs text-amber-600 mt-1">ACH payments take 3-5 business days to settle</p>
             )}
+            {paymentData?.type === 'invoice' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Invoice due {new Date(`${paymentData.dueDate}T00:00:00`).toLocaleDateString()}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -1444,6 +1656,8 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
                   productId={item.id}
                   regularPrice={item.price}
                   quantity={item.quantity}
+                  organizationId={organizationId}
+                  locationId={shippingLocationId || undefined}
                   className="text-sm"
                 />
               </div>
@@ -1482,6 +1696,56 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
         </div>
       </div>
 
+      {/* Discount Code (not with a quote; its prices are final) */}
+      {!quoteId && (
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h4 className="font-semibold mb-3 flex items-center gap-2">
+            <Tag className="h-4 w-4 text-gray-600" />
+            Discount Code
+          </h4>
+          {appliedDiscount ? (
+            <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+              <div className="text-sm">
+                <span className="font-mono font-semibold text-green-800">{appliedDiscount.code}</span>
+                <span className="text-green-700 ml-2">
+                  {appliedDiscount.shippingDiscount > 0 && appliedDiscount.discount === 0
+                    ? 'Free shipping'
+                    : `-$${discountTotal.toFixed(2)}`}
+                </span>
+              </div>
+              <button
+                onClick={handleRemoveDiscount}
+                disabled={applyingDiscount}
+                className="text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={discountInput}
+                onChange={(e) => { setDiscountInput(e.target.value); setDiscountError(null); }}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleApplyDiscount(); } }}
+                placeholder="Enter code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleApplyDiscount}
+                disabled={applyingDiscount || !discountInput.trim()}
+                className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 disabled:opacity-50"
+              >
+                {applyingDiscount ? <Loader className="h-4 w-4 animate-spin" /> : 'Apply'}
+              </button>
+            </div>
+          )}
+          {discountError && (
+            <p className="text-sm text-red-600 mt-2">{discountError}</p>
+          )}
+        </div>
+      )}
+
       {/* Order Summary */}
       <div className="bg-gray-50 rounded-lg p-4">
         <h4 className="font-semibold mb-3">Order Summary</h4>
@@ -1494,8 +1758,14 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
             <span>Shipping ({shippingMethods.find(m => m.id === selectedShippingMethod)?.name}):</span>
             <span>${shippingCost.toFixed(2)}</span>
           </div>
+          {appliedDiscount && (
+            <div className="flex justify-between text-green-700">
+              <span>Discount ({appliedDiscount.code}):</span>
+              <span>-${discountTotal.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span>Tax:</span>
+            <span>Tax{taxExempt ? ' (tax exempt)' : ''}:</span>
             <span>${tax.toFixed(2)}</span>
           </div>
           <div className="border-t border-gray-300 pt-2 flex justify-between font-semibold">
@@ -1618,11 +1888,14 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({
           <OrderReceipt
             orderId={completedOrderId || ''}
             orderDate={new Date().toISOString()}
-            items={items.map(item => ({ name: item.name, quantity: item.quantity, price: item.price, image: item.image }))}
+            items={pricedItems.map(item => ({ name: item.name, quantity: item.quantity, price: item.price, image: item.image }))}
             subtotal={subtotal}
             shipping={shippingCost}
             shippingMethod={shippingMethods.find(m => m.id === selectedShippingMethod)?.name || 'Standard'}
             tax={tax}
+            taxExempt={taxExempt}
+            discount={discountTotal}
+            discountCode={appliedDiscount?.code}
             total={total}
             paymentStatus={paymentResult?.status || 'pending'}
             paymentMethod={paymentResult?.method || 'Card'}
@@ -29,6 +29,10 @@ interface OrderReceiptProps {
   shipping: number;
   shippingMethod: string;
   tax: number;
+  taxExempt?: boolean;
+  /** Discount code savings (merchandise + shipping) */
+  discount?: number;
+  discountCode?: string;
   total: number;
   paymentStatus: string;
   paymentMethod: string;
@@ -83,6 +87,9 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
   shipping,
   shippingMethod,
   tax,
+  taxExempt = false,
+  discount = 0,
+  discountCode,
   total,
   paymentStatus,
   paymentMethod,
@@ -187,7 +194,8 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
             <div class="totals">
               <div class="row"><span>Subtotal</span><span>$${subtotal.toFixed(2)}</span></div>
               <div class="row"><span>Shipping (${shippingMethod})</span><span>$${shipping.toFixed(2)}</span></div>
-              <div class="row"><span>Tax</span><span>$${tax.toFixed(2)}</span></div>
+              ${discount > 0 ? `<div class="row"><span>Discount${discountCode ? ` (${discountCode})` : ''}</span><span>-$${discount.toFixed(2)}</span></div>` : ''}
+              <div class="row"><span>Tax${taxExempt ? ' (tax exempt)' : ''}</span><span>$${tax.toFixed(2)}</span></div>
               <div class="row total-row"><span>Total</span><span>$${total.toFixed(2)}</span></div>
             </div>
           </div>
@@ -374,8 +382,14 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
                   <span>Shipping ({shippingMethod})</span>
                   <span>${shipping.toFixed(2)}</span>
                 </div>
+                {discount > 0 && (
+                  <div className="flex justify-between text-sm text-green-700">
+                    <span>Discount{discountCode ? ` (${discountCode})` : ''}</span>
+                    <span>-${discount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm text-gray-600">
-                  <span>Tax</span>
+                  <span>Tax{taxExempt ? ' (tax exempt)' : ''}</span>
                   <span>${tax.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-base font-bold text-gray-900 pt-2 border-t-2 border-gray-900">
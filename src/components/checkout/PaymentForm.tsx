@@ -1,8 +1,16 @@
 import React, { useEffect, useState } from 'react';
-import { Lock, CreditCard, AlertCircle, Save, Building2, Loader, CheckCircle, ShieldCheck } from 'lucide-react';
+import { Lock, CreditCard, AlertCircle, Save, Building2, Loader, CheckCircle, ShieldCheck, FileText } from 'lucide-react';
 import { getPaymentMethods } from '@/services/paymentMethods';
+import {
+  paymentTermsService,
+  invoiceBlockReason,
+  invoiceDueDate,
+  PAYMENT_TERMS_LABELS,
+  type OrganizationCredit,
+  type PaymentTerms,
+} from '@/services/paymentTerms';
 
-export type PaymentMethodType = 'card' | 'ach' | 'saved';
+export type PaymentMethodType = 'card' | 'ach' | 'saved' | 'invoice';
 
 export interface TokenizedCardPayment {
   type: 'card';
@@ -34,7 +42,15 @@ export interface SavedPaymentData {
   lastFour: string;
 }
 
-export type PaymentData = TokenizedCardPayment | TokenizedACHPayment | SavedPaymentData;
+export interface InvoicePaymentData {
+  type: 'invoice';
+  poNumber: string;
+  paymentTerms: PaymentTerms;
+  /** YYYY-MM-DD, as quoted to the customer; the order trigger sets the stored date */
+  dueDate: string;
+}
+
+export type PaymentData = TokenizedCardPayment | TokenizedACHPayment | SavedPaymentData | InvoicePaymentData;
 
 interface PaymentFormProps {
   onPaymentReady: (isReady: boolean) => void;
@@ -78,6 +94,8 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   const [isTokenizing, setIsTokenizing] = useState(false);
   const [declineCount, setDeclineCount] = useState(0);
   const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [credit, setCredit] = useState<OrganizationCredit | null>(null);
+  const [poNumber, setPoNumber] = useState('');
 
   const [cardData, setCardData] = useState({
     cardholderName: '',
@@ -106,6 +124,13 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     }
   }, [organizationId, locationId]);
 
+  useEffect(() => {
+    setCredit(null);
+    if (organizationId) {
+      paymentTermsService.getOrganizationCredit(organizationId).then(setCredit);
+    }
+  }, [organizationId]);
+
   useEffect(() => {
     if (lockedUntil && Date.now() < lockedUntil) {
       const timer = setTimeout(() => {
@@ -285,12 +310,38 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
     });
   };
 
+  const canPayByInvoice = !!credit?.paymentTerms;
+  const invoiceBlocked = canPayByInvoice ? invoiceBlockReason(total, credit) : null;
+
   const handleSubmit = async () => {
     if (isLocked) {
       setError('Too many unsuccessful attempts. Please try again later.');
       return;
     }
 
+    if (selectedMethod === 'invoice') {
+      if (!credit?.paymentTerms) {
+        setError('This organization is not set up to pay by invoice');
+        return;
+      }
+      if (!poNumber.trim()) {
+        setError('A PO number is required to pay by invoice');
+        return;
+      }
+      if (invoiceBlocked) {
+        setError(invoiceBlocked);
+        return;
+      }
+      setError(null);
+      onPaymentSubmit({
+        type: 'invoice',
+        poNumber: poNumber.trim(),
+        paymentTerms: credit.paymentTerms,
+        dueDate: invoiceDueDate(credit.paymentTerms),
+      });
+      return;
+    }
+
     if (selectedMethod === 'saved') {
       const saved = savedMethods.find((m) => m.id === selectedSavedId);
       if (!saved) {
@@ -407,6 +458,20 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
             Saved ({savedMethods.length})
           </button>
         )}
+        {canPayByInvoice && (
+          <button
+            type="button"
+            onClick={() => { setSelectedMethod('invoice'); setError(null); }}
+            className={`flex-1 flex items-center justify-center gap-2 py-3 text-sm font-medium border-l border-gray-200 transition-colors ${
+              selectedMethod === 'invoice'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <FileText className="h-4 w-4" />
+            Pay by Invoice
+          </button>
+        )}
       </div>
 
       <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -667,7 +732,56 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           </div>
         )}
 
-        {selectedMethod !== 'saved' && (organizationId || locationId) && (
+        {selectedMethod === 'invoice' && credit?.paymentTerms && (
+          <div className="space-y-4">
+            <div>
+              <label className={labelCls}>PO Number</label>
+              <input
+                type="text"
+                value={poNumber}
+                onChange={(e) => setPoNumber(e.target.value)}
+                placeholder="Your purchase order number"
+                autoComplete="off"
+                maxLength={50}
+                className={inputCls}
+              />
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-600 space-y-1">
+              <div className="flex justify-between">
+                <span>Terms</span>
+                <span className="font-medium text-gray-900">{PAYMENT_TERMS_LABELS[credit.paymentTerms]}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Invoice due</span>
+                <span className="font-medium text-gray-900">
+                  {new Date(`${invoiceDueDate(credit.paymentTerms)}T00:00:00`).toLocaleDateString()}
+                </span>
+              </div>
+              {credit.availableCredit != null && (
+                <div className="flex justify-between">
+                  <span>Available credit</span>
+                  <span className="font-medium text-gray-900">${credit.availableCredit.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+
+            {invoiceBlocked ? (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                <p className="text-amber-700 text-sm">
+                  {invoiceBlocked}. Please choose another payment method or contact your account manager.
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">
+                An invoice referencing your PO number will be issued for this order.
+              </p>
+            )}
+          </div>
+        )}
+
+        {(selectedMethod === 'card' || selectedMethod === 'ach') && (organizationId || locationId) && (
           <div className="border-t mt-5 pt-4">
             <label className="flex items-center gap-2 cursor-pointer">
               <input
@@ -718,7 +832,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
       <button
         type="button"
         onClick={handleSubmit}
-        disabled={isTokenizing || isLocked}
+        disabled={isTokenizing || isLocked || (selectedMethod === 'invoice' && !!invoiceBlocked)}
         className="w-full py-3.5 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         {isTokenizing ? (
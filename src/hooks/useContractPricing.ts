@@ -1,25 +1,34 @@
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { contractPricingService } from '../services/contractPricing';
+import { contractPricingService, PricingSource } from '../services/contractPricing';
+import { findTierForQuantity, findNextPriceBreak, getTierPrice, PriceBreak } from '../services/pricingTiers';
 
 interface ContractPricingResult {
   price: number;
-  source: 'regular' | 'individual' | 'organization' | 'location';
+  source: PricingSource;
   savings: number;
+  nextBreak: PriceBreak | null;
   loading: boolean;
   error: string | null;
 }
 
 // Cache for pricing data to prevent flickering
-const pricingCache = new Map<string, { price: number; source: string; timestamp: number }>();
+const pricingCache = new Map<string, { price: number; source: string; nextBreak: PriceBreak | null; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-export function useContractPricing(productId: number, regularPrice: number, quantity?: number, organizationId?: string): ContractPricingResult {
+export function useContractPricing(
+  productId: number,
+  regularPrice: number,
+  quantity?: number,
+  organizationId?: string,
+  locationId?: string
+): ContractPricingResult {
   const { user, profile } = useAuth();
   // regularPrice is the retail price
   const defaultRetailPrice = regularPrice;
   const [price, setPrice] = useState(defaultRetailPrice);
-  const [source, setSource] = useState<'regular' | 'individual' | 'organization' | 'location'>('regular');
+  const [source, setSource] = useState<PricingSource>('regular');
+  const [nextBreak, setNextBreak] = useState<PriceBreak | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const isMounted = useRef(true);
@@ -38,20 +47,22 @@ export function useContractPricing(productId: number, regularPrice: number, quan
         if (isMounted.current) {
           setPrice(defaultRetailPrice);
           setSource('regular');
+          setNextBreak(null);
           setLoading(false);
         }
         return;
       }
 
       // Create cache key
-      const cacheKey = `${productId}-${organizationId || user.id}-${quantity || 1}`;
+      const cacheKey = `${productId}-${organizationId || user.id}-${quantity || 1}-${locationId || ''}`;
       const cached = pricingCache.get(cacheKey);
 
       // Use cached data if available and not expired
       if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
         if (isMounted.current) {
           setPrice(cached.price);
-          setSource(cached.source as any);
+          setSource(cached.source as PricingSource);
+          setNextBreak(cached.nextBreak);
           setLoading(false);
         }
         return;
@@ -63,36 +74,36 @@ export function useContractPricing(productId: number, regularPrice: number, quan
         }
         
         let effectivePrice;
-        
-        if (organizationId) {
-          // Sales rep mode - get organization pricing directly
-          const orgPricing = await contractPricingService.getOrganizationPricing(organizationId);
-
-          // Filter pricing entries for this product
-          const productPricingTiers = orgPricing.filter(p => p.product_id === productId);
-
-          // Find the best matching tier for the quantity
-          let bestTier = null;
-          const currentQuantity = quantity || 1;
-
-          for (const tier of productPricingTiers) {
-            const minQty = tier.min_quantity || 1;
-            const maxQty = tier.max_quantity || Infinity;
-
-            if (currentQuantity >= minQty && currentQuantity <= maxQty) {
-              // This tier matches the quantity range
-              if (!bestTier || minQty > (bestTier.min_quantity || 1)) {
-                // Use the tier with the highest min_quantity that still matches
-                bestTier = tier;
-              }
-            }
-          }
+        const currentQuantity = quantity || 1;
 
-          if (bestTier) {
-            // Use markup_price if available, otherwise contract_price, otherwise null
-            const finalPrice = bestTier.markup_price || bestTier.contract_price;
+        // Full ladder for this product, used for the tier price in sales rep
+        // mode and for the "buy N more" threshold in both modes. Customers
+        // follow the same approval rule as getEffectivePrice.
+        const canSeeTiers = !!organizationId || ['approved', 'admin'].includes(profile?.role || 'pending');
+        const productPricingTiers = canSeeTiers
+          ? await contractPricingService.getProductPriceTiers(productId, user.id, organizationId, locationId)
+          : [];
 
-            if (finalPrice !== null && finalPrice !== undefined) {
+        if (organizationId) {
+          // Sales rep mode - the shipping location's contract wins, then the
+          // organization tier covering the quantity
+          const locationPrice = locationId
+            ? await contractPricingService.getLocationPrice(locationId, productId, currentQuantity)
+            : null;
+
+          if (locationPrice !== null) {
+            effectivePrice = {
+              price: locationPrice,
+              source: 'location' as const
+            };
+          } else {
+            const bestTier = findTierForQuantity(
+              productPricingTiers.filter(t => t.pricing_type === 'organization'),
+              currentQuantity
+            );
+            const finalPrice = bestTier ? getTierPrice(bestTier) : null;
+
+            if (finalPrice !== null) {
               effectivePrice = {
                 price: finalPrice,
                 source: 'organization' as const
@@ -105,33 +116,41 @@ export function useContractPricing(productId: number, regularPrice: number, quan
             user.id,
             productId,
             profile?.role || 'pending',
-            quantity
+            quantity,
+            locationId
           );
         }
 
+        const breakFromPrice = effectivePrice ? effectivePrice.price : defaultRetailPrice;
+        const upcomingBreak = findNextPriceBreak(productPricingTiers, currentQuantity, breakFromPrice);
+
         if (effectivePrice) {
           // Cache the result
           pricingCache.set(cacheKey, {
             price: effectivePrice.price,
             source: effectivePrice.source,
+            nextBreak: upcomingBreak,
             timestamp: Date.now()
           });
 
           if (isMounted.current) {
             setPrice(effectivePrice.price);
             setSource(effectivePrice.source);
+            setNextBreak(upcomingBreak);
           }
         } else {
           // Cache the default retail price result
           pricingCache.set(cacheKey, {
             price: defaultRetailPrice,
             source: 'regular',
+            nextBreak: upcomingBreak,
             timestamp: Date.now()
           });
 
           if (isMounted.current) {
             setPrice(defaultRetailPrice);
             setSource('regular');
+            setNextBreak(upcomingBreak);
           }
         }
       } catch (err) {
@@ -140,6 +159,7 @@ export function useContractPricing(productId: number, regularPrice: number, quan
           setError(err instanceof Error ? err.message : 'Failed to fetch pricing');
           setPrice(defaultRetailPrice);
           setSource('regular');
+          setNextBreak(null);
         }
       } finally {
         if (isMounted.current) {
@@ -149,7 +169,7 @@ export function useContractPricing(productId: number, regularPrice: number, quan
     };
 
     fetchEffectivePrice();
-  }, [user, profile, productId, regularPrice, quantity, organizationId, defaultRetailPrice]);
+  }, [user, profile, productId, regularPrice, quantity, organizationId, locationId, defaultRetailPrice]);
 
   const savings = defaultRetailPrice - price;
 
@@ -157,6 +177,7 @@ export function useContractPricing(productId: number, regularPrice: number, quan
     price,
     source,
     savings,
+    nextBreak,
     loading,
     error
   };
@@ -0,0 +1,19 @@
+import { useState, useEffect, useMemo } from 'react';
+import { AppRoute, NAVIGATE_EVENT, parseRoute } from '../services/router';
+
+/** Current route, updated on navigate() and browser back/forward */
+export function useRoute(): AppRoute {
+  const [pathname, setPathname] = useState(() => window.location.pathname);
+
+  useEffect(() => {
+    const update = () => setPathname(window.location.pathname);
+    window.addEventListener('popstate', update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return useMemo(() => parseRoute(pathname), [pathname]);
+}
@@ -35,7 +35,7 @@ export type ActivityAction =
   // Auth
   | 'login' | 'logout' | 'impersonation_started' | 'impersonation_stopped'
   // Orders
-  | 'order_placed' | 'order_status_changed' | 'order_viewed'
+  | 'order_placed' | 'order_status_changed' | 'order_viewed' | 'order_backordered'
   // Checkout errors
   | 'checkout_error' | 'checkout_session_failed' | 'checkout_payment_failed'
   | 'checkout_order_failed' | 'checkout_vault_failed'
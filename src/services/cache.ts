@@ -219,8 +219,8 @@ export const CacheKeys = {
   contractPricing: (userId: string, productId: number) => `pricing_${userId}_${productId}`,
   userPricing: (userId: string) => `user_pricing_${userId}`,
   organizationPricing: (orgId: string) => `org_pricing_${orgId}`,
-  effectivePrice: (userId: string, productId: number, quantity?: number) => 
-    `effective_price_${userId}_${productId}_${quantity || 1}`,
+  effectivePrice: (userId: string, productId: number, quantity?: number, locationId?: string) => 
+    `effective_price_${userId}_${productId}_${quantity || 1}${locationId ? `_${locationId}` : ''}`,
 } as const;
 
 // Cache TTL constants (in milliseconds)
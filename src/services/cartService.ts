@@ -1,10 +1,13 @@
 import { supabase } from './supabase';
+import { contractPricingService } from './contractPricing';
+import { findTierForQuantity } from './pricingTiers';
 
-interface CartItem {
+export interface CartItem {
   id: number;
   name: string;
   price: number;
   retailPrice?: number;
+  listPrice?: number;
   cost?: number;
   quantity: number;
   image: string;
@@ -12,6 +15,55 @@ interface CartItem {
   brand?: string;
 }
 
+export interface CartPricingContext {
+  userId?: string | null;
+  role?: string | null;
+  /** Organization the cart is for; its contract tiers take precedence */
+  organizationId?: string | null;
+}
+
+export interface CartPrice {
+  price: number;
+  /** Price before a distributor markup; equals `price` otherwise */
+  retailPrice: number;
+  hasMarkup: boolean;
+}
+
+/**
+ * Prices a cart line the way the storefront does: the organization's
+ * contract tier for the quantity (or its markup price), otherwise the
+ * user's effective price. Falls back to the list price.
+ */
+export async function resolveCartPrice(
+  product: { id: number; price: number },
+  quantity: number,
+  context: CartPricingContext
+): Promise<CartPrice> {
+  const listPrice = { price: product.price, retailPrice: product.price, hasMarkup: false };
+  if (!context.userId || (!context.role && !context.organizationId)) return listPrice;
+
+  try {
+    if (context.organizationId) {
+      const orgPricing = await contractPricingService.getOrganizationPricing(context.organizationId);
+      const tier = findTierForQuantity(orgPricing.filter(p => p.product_id === product.id), quantity);
+
+      if (tier?.markup_price !== null && tier?.markup_price !== undefined) {
+        return { price: tier.markup_price, retailPrice: tier.contract_price || product.price, hasMarkup: true };
+      }
+      if (tier?.contract_price !== null && tier?.contract_price !== undefined) {
+        return { price: tier.contract_price, retailPrice: tier.contract_price, hasMarkup: false };
+      }
+      return listPrice;
+    }
+
+    const result = await contractPricingService.getEffectivePrice(context.userId, product.id, context.role || undefined, quantity);
+    return result ? { price: result.price, retailPrice: result.price, hasMarkup: false } : listPrice;
+  } catch (error) {
+    console.error('Error fetching contract price for cart:', error);
+    return listPrice;
+  }
+}
+
 class CartService {
   async getCart(userId: string, organizationId?: string | null): Promise<CartItem[]> {
     try {
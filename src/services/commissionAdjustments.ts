@@ -0,0 +1,283 @@
+import { supabase } from './supabase';
+import type { Commission, CommissionLineItem } from './commissionService';
+
+export type AdjustmentPayeeRole = 'sales_rep' | 'distributor' | 'company_rep';
+export type AdjustmentSource = 'refund' | 'return' | 'manual';
+export type AdjustmentStatus = 'pending' | 'applied' | 'cancelled';
+
+export interface AdjustmentLineDetail {
+  product_id?: number;
+  product_name?: string;
+  quantity: number;
+  refunded_quantity: number;
+  item_commission: number;
+  clawback: number;
+}
+
+export interface CommissionAdjustment {
+  id: string;
+  commission_id: string;
+  order_id: string;
+  payee_id: string;
+  payee_role: AdjustmentPayeeRole;
+  amount: number;
+  fraction?: number | null;
+  source: AdjustmentSource;
+  refund_amount?: number | null;
+  reason?: string | null;
+  line_details: AdjustmentLineDetail[];
+  status: AdjustmentStatus;
+  applied_at?: string | null;
+  payment_reference?: string | null;
+  /** Set once the adjustment is netted into a payout run */
+  payout_id?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  orders?: { order_number?: string | null } | null;
+  profiles?: { full_name?: string | null; email?: string | null } | null;
+}
+
+/** A refunded or returned order line, by product and units */
+export interface RefundedLine {
+  productId: number;
+  quantity: number;
+}
+
+export interface ClawbackInput {
+  /** Amount refunded to the customer */
+  amount: number;
+  /** Order total the refund is measured against when no lines are given */
+  orderTotal: number;
+  /** Refunded lines; when present the clawback follows these instead of the amount */
+  lines?: RefundedLine[];
+  source?: Exclude<AdjustmentSource, 'manual'>;
+  reason?: string;
+}
+
+export interface PayeeClawback {
+  payee_id: string;
+  payee_role: AdjustmentPayeeRole;
+  amount: number;
+}
+
+type ProratableLine = Pick<CommissionLineItem, 'product_id' | 'product_name' | 'quantity' | 'item_commission'>;
+type SplitCommission = Pick<
+  Commission,
+  'sales_rep_id' | 'commission_amount' | 'sales_rep_commission' | 'distributor_commission' | 'company_rep_commission' | 'company_rep_id'
+>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Works out how much of an order's commission a refund takes back.
+ *
+ * When refunded lines are given, each commission line is reduced by the share
+ * of its units refunded. Otherwise every line is reduced by the refund's share
+ * of the order total. `fraction` is the resulting share of the whole
+ * commission, used to split the clawback across payees. Refunds are booked
+ * by record_commission_clawback() in the database, which mirrors this and
+ * payeeClawbacks().
+ */
+export function prorateRefund(
+  lineItems: ProratableLine[],
+  refund: Pick<ClawbackInput, 'amount' | 'orderTotal' | 'lines'>
+): { fraction: number; lines: AdjustmentLineDetail[] } {
+  const amountShare = refund.orderTotal > 0
+    ? Math.min(1, Math.max(0, refund.amount / refund.orderTotal))
+    : 0;
+
+  if (!refund.lines?.length || lineItems.length === 0) {
+    return {
+      fraction: amountShare,
+      lines: lineItems.map(item => ({
+        product_id: item.product_id,
+        product_name: item.product_name,
+        quantity: Number(item.quantity) || 0,
+        refunded_quantity: round2((Number(item.quantity) || 0) * amountShare),
+        item_commission: Number(item.item_commission) || 0,
+        clawback: round2((Number(item.item_commission) || 0) * amountShare),
+      })),
+    };
+  }
+
+  // The same product can sit on more than one commission line, so refunded
+  // units are drawn down across lines rather than matched one-to-one
+  const remaining = new Map<number, number>();
+  for (const line of refund.lines) {
+    remaining.set(line.productId, (remaining.get(line.productId) || 0) + Math.max(0, line.quantity));
+  }
+
+  let total = 0;
+  let clawedBack = 0;
+  const lines = lineItems.map(item => {
+    const quantity = Number(item.quantity) || 0;
+    const itemCommission = Number(item.item_commission) || 0;
+    const available = item.product_id != null ? remaining.get(item.product_id) || 0 : 0;
+    const refunded = Math.min(quantity, available);
+    if (item.product_id != null && refunded > 0) {
+      remaining.set(item.product_id, available - refunded);
+    }
+
+    const clawback = quantity > 0 ? itemCommission * (refunded / quantity) : 0;
+    total += itemCommission;
+    clawedBack += clawback;
+
+    return {
+      product_id: item.product_id,
+      product_name: item.product_name,
+      quantity,
+      refunded_quantity: refunded,
+      item_commission: itemCommission,
+      clawback: round2(clawback),
+    };
+  });
+
+  return { fraction: total > 0 ? Math.min(1, clawedBack / total) : 0, lines };
+}
+
+/**
+ * Splits a clawback across the commission's payees. Each payee loses the
+ * same share of their own split, and never more in total than they were
+ * owed on the order (`alreadyClawedBack` holds earlier clawbacks, positive).
+ */
+export function payeeClawbacks(
+  commission: SplitCommission,
+  fraction: number,
+  distributorProfileId: string | null | undefined,
+  alreadyClawedBack: Partial<Record<AdjustmentPayeeRole, number>> = {}
+): PayeeClawback[] {
+  const splits: Array<{ role: AdjustmentPayeeRole; payee?: string | null; split: number }> = [
+    {
+      role: 'sales_rep',
+      payee: commission.sales_rep_id,
+      split: Number(commission.sales_rep_commission ?? commission.commission_amount) || 0,
+    },
+    { role: 'distributor', payee: distributorProfileId, split: Number(commission.distributor_commission) || 0 },
+    { role: 'company_rep', payee: commission.company_rep_id, split: Number(commission.company_rep_commission) || 0 },
+  ];
+
+  const result: PayeeClawback[] = [];
+  for (const { role, payee, split } of splits) {
+    if (!payee || split <= 0) continue;
+    const outstanding = round2(split - (alreadyClawedBack[role] || 0));
+    const amount = Math.min(round2(split * fraction), outstanding);
+    if (amount >= 0.01) {
+      result.push({ payee_id: payee, payee_role: role, amount: -amount });
+    }
+  }
+  return result;
+}
+
+/** Net effect of pending adjustments; negative when the payee owes money back */
+export function sumAdjustments(adjustments: Pick<CommissionAdjustment, 'amount'>[]): number {
+  return round2(adjustments.reduce((sum, adj) => sum + (Number(adj.amount) || 0), 0));
+}
+
+class CommissionAdjustmentService {
+  async getAdjustments(filters?: {
+    payeeId?: string;
+    status?: AdjustmentStatus;
+    orderId?: string;
+  }): Promise<{ adjustments: CommissionAdjustment[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('commission_adjustments')
+        .select('*, orders(order_number), profiles(full_name, email)')
+        .order('created_at', { ascending: false });
+
+      if (filters?.payeeId) query = query.eq('payee_id', filters.payeeId);
+      if (filters?.status) query = query.eq('status', filters.status);
+      if (filters?.orderId) query = query.eq('order_id', filters.orderId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return { adjustments: data || [] };
+    } catch (error) {
+      console.error('Error fetching commission adjustments:', error);
+      return {
+        adjustments: [],
+        error: error instanceof Error ? error.message : 'Failed to fetch commission adjustments',
+      };
+    }
+  }
+
+  /** Pending adjustment totals keyed by payee, for netting against payouts */
+  async getPendingTotals(payeeIds?: string[]): Promise<Record<string, number>> {
+    try {
+      let query = supabase
+        .from('commission_adjustments')
+        .select('payee_id, amount')
+        .eq('status', 'pending');
+      if (payeeIds) query = query.in('payee_id', payeeIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const totals: Record<string, number> = {};
+      for (const row of data || []) {
+        totals[row.payee_id] = round2((totals[row.payee_id] || 0) + Number(row.amount));
+      }
+      return totals;
+    } catch (error) {
+      console.error('Error fetching pending commission adjustments:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Marks the payees' pending adjustments as settled by a payout. Called when
+   * commissions are paid so the adjustments are deducted exactly once.
+   */
+  async applyPending(
+    payeeIds: string[],
+    paymentReference?: string
+  ): Promise<{ success: boolean; applied: CommissionAdjustment[]; error?: string }> {
+    if (payeeIds.length === 0) return { success: true, applied: [] };
+
+    try {
+      const { data, error } = await supabase
+        .from('commission_adjustments')
+        .update({
+          status: 'applied',
+          applied_at: new Date().toISOString(),
+          payment_reference: paymentReference || null,
+        })
+        .in('payee_id', payeeIds)
+        .eq('status', 'pending')
+        .is('payout_id', null)
+        .select();
+
+      if (error) throw error;
+      return { success: true, applied: data || [] };
+    } catch (error) {
+      console.error('Error applying commission adjustments:', error);
+      return {
+        success: false,
+        applied: [],
+        error: error instanceof Error ? error.message : 'Failed to apply commission adjustments',
+      };
+    }
+  }
+
+  async cancelAdjustment(adjustmentId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('commission_adjustments')
+        .update({ status: 'cancelled' })
+        .eq('id', adjustmentId)
+        .eq('status', 'pending')
+        .is('payout_id', null);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling commission adjustment:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel commission adjustment',
+      };
+    }
+  }
+}
+
+export const commissionAdjustmentService = new CommissionAdjustmentService();
@@ -0,0 +1,280 @@
+import { supabase } from './supabase';
+import type { AdjustmentPayeeRole } from './commissionAdjustments';
+
+export type DisputeStatus = 'open' | 'resolved' | 'rejected' | 'withdrawn';
+export type DisputeResolution = 'adjustment' | 'recalculated' | 'rejected';
+
+export const DISPUTE_ATTACHMENT_BUCKET = 'commission-dispute-attachments';
+
+/** Per-file upload limit for dispute attachments */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const ALLOWED_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'csv', 'txt', 'xls', 'xlsx', 'doc', 'docx'];
+
+export interface DisputeAttachment {
+  path: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+export interface CommissionDispute {
+  id: string;
+  commission_id: string;
+  order_id: string;
+  line_item_id?: string | null;
+  product_id?: number | null;
+  product_name?: string | null;
+  raised_by: string;
+  payee_role: AdjustmentPayeeRole;
+  reason: string;
+  disputed_amount?: number | null;
+  expected_amount?: number | null;
+  status: DisputeStatus;
+  resolution?: DisputeResolution | null;
+  resolution_notes?: string | null;
+  adjustment_id?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  orders?: { order_number?: string | null } | null;
+  profiles?: { full_name?: string | null; email?: string | null } | null;
+}
+
+export interface DisputeMessage {
+  id: string;
+  dispute_id: string;
+  author_id?: string | null;
+  author_name?: string | null;
+  author_is_admin: boolean;
+  body: string;
+  attachments: DisputeAttachment[];
+  created_at: string;
+}
+
+export interface OpenDisputeInput {
+  commissionId: string;
+  lineItemId?: string;
+  reason: string;
+  expectedAmount?: number;
+  files?: File[];
+  /** Set when an admin opens the dispute on a payee's behalf (impersonation) */
+  payeeId?: string;
+}
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+export const DISPUTE_RESOLUTION_LABELS: Record<DisputeResolution, string> = {
+  adjustment: 'Adjustment issued',
+  recalculated: 'Commission recalculated',
+  rejected: 'No change',
+};
+
+/** Returns an error message for the first file that can't be attached, or null */
+export function validateAttachments(files: Pick<File, 'name' | 'size'>[]): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `Attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`;
+  }
+  for (const file of files) {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (!ALLOWED_EXTENSIONS.includes(extension)) {
+      return `${file.name}: attach PDFs, images, spreadsheets or documents`;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a dispute can be closed by re-running the calculation. Paid or
+ * payout-locked commissions are corrected with an adjustment instead.
+ */
+export function canRecalculate(commission: { status: string; payout_run_id?: string | null }): boolean {
+  return (commission.status === 'pending' || commission.status === 'approved') && !commission.payout_run_id;
+}
+
+class CommissionDisputeService {
+  async getDisputes(filters?: {
+    status?: DisputeStatus;
+    raisedBy?: string;
+    commissionId?: string;
+  }): Promise<{ disputes: CommissionDispute[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('commission_disputes')
+        .select('*, orders(order_number), profiles!raised_by(full_name, email)')
+        .order('updated_at', { ascending: false });
+
+      if (filters?.status) query = query.eq('status', filters.status);
+      if (filters?.raisedBy) query = query.eq('raised_by', filters.raisedBy);
+      if (filters?.commissionId) query = query.eq('commission_id', filters.commissionId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return { disputes: data || [] };
+    } catch (error) {
+      console.error('Error fetching commission disputes:', error);
+      return { disputes: [], error: error instanceof Error ? error.message : 'Failed to fetch disputes' };
+    }
+  }
+
+  async getMessages(disputeId: string): Promise<{ messages: DisputeMessage[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('commission_dispute_messages')
+        .select('*')
+        .eq('dispute_id', disputeId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return { messages: data || [] };
+    } catch (error) {
+      console.error('Error fetching dispute messages:', error);
+      return { messages: [], error: error instanceof Error ? error.message : 'Failed to fetch messages' };
+    }
+  }
+
+  async openDispute(input: OpenDisputeInput): Promise<{ success: boolean; disputeId?: string; error?: string }> {
+    try {
+      const attachments = await this.uploadAttachments(input.files || []);
+
+      const { data, error } = await supabase.rpc('open_commission_dispute', {
+        p_commission_id: input.commissionId,
+        p_reason: input.reason,
+        p_line_item_id: input.lineItemId || null,
+        p_expected_amount: input.expectedAmount ?? null,
+        p_attachments: attachments,
+        p_payee_id: input.payeeId || null,
+      });
+
+      if (error) throw error;
+      return { success: true, disputeId: data as string };
+    } catch (error) {
+      console.error('Error opening commission dispute:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to open dispute' };
+    }
+  }
+
+  async postMessage(disputeId: string, body: string, files: File[] = []): Promise<{ success: boolean; error?: string }> {
+    try {
+      const attachments = await this.uploadAttachments(files);
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from('commission_dispute_messages').insert({
+        dispute_id: disputeId,
+        author_id: user?.id,
+        body: body.trim(),
+        attachments,
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error posting dispute message:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send message' };
+    }
+  }
+
+  async resolveDispute(
+    disputeId: string,
+    resolution: DisputeResolution,
+    notes?: string,
+    adjustmentAmount?: number
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('resolve_commission_dispute', {
+        p_dispute_id: disputeId,
+        p_resolution: resolution,
+        p_notes: notes?.trim() || null,
+        p_adjustment_amount: adjustmentAmount ?? null,
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error resolving commission dispute:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to resolve dispute' };
+    }
+  }
+
+  async withdrawDispute(disputeId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('withdraw_commission_dispute', { p_dispute_id: disputeId });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error withdrawing commission dispute:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to withdraw dispute' };
+    }
+  }
+
+  /** Status and payout lock of the disputed commission, to offer the right resolutions */
+  async getCommissionState(
+    commissionId: string
+  ): Promise<{ status: string; payout_run_id: string | null; commission_amount: number } | null> {
+    const { data, error } = await supabase
+      .from('commissions')
+      .select('status, payout_run_id, commission_amount')
+      .eq('id', commissionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching disputed commission:', error);
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * Signed link to an attachment; the bucket is private.
+   */
+  async getAttachmentUrl(path: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(DISPUTE_ATTACHMENT_BUCKET)
+        .createSignedUrl(path, 60 * 60);
+
+      if (error) throw error;
+      return data?.signedUrl || null;
+    } catch (error) {
+      console.error('Error creating attachment link:', error);
+      return null;
+    }
+  }
+
+  /** Uploads under the current user's folder, which the storage policies require */
+  private async uploadAttachments(files: File[]): Promise<DisputeAttachment[]> {
+    if (files.length === 0) return [];
+
+    const invalid = validateAttachments(files);
+    if (invalid) throw new Error(invalid);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const attachments: DisputeAttachment[] = [];
+    for (const file of files) {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const path = `${user.id}/${Date.now()}-${safeName}`;
+
+      const { error } = await supabase.storage
+        .from(DISPUTE_ATTACHMENT_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (error) throw error;
+      attachments.push({ path, name: file.name, size: file.size, type: file.type });
+    }
+    return attachments;
+  }
+}
+
+export const commissionDisputeService = new CommissionDisputeService();
@@ -0,0 +1,445 @@
+import { supabase } from './supabase';
+import { siteSettingsService, type ContactInfo } from './siteSettings';
+import type { AdjustmentPayeeRole, CommissionAdjustment } from './commissionAdjustments';
+import { buildNachaFile, type NachaCredit, type NachaOriginator } from './nacha';
+
+export type PayoutRunStatus = 'locked' | 'paid' | 'cancelled';
+
+export const PAYEE_ROLE_LABELS: Record<AdjustmentPayeeRole, string> = {
+  sales_rep: 'Sales Rep',
+  distributor: 'Distributor',
+  company_rep: 'Company Rep',
+};
+
+export interface PayoutRun {
+  id: string;
+  run_number: string;
+  period_start: string;
+  period_end: string;
+  status: PayoutRunStatus;
+  total_gross: number;
+  total_adjustments: number;
+  total_net: number;
+  payee_count: number;
+  commission_count: number;
+  payment_reference?: string | null;
+  notes?: string | null;
+  created_at: string;
+  paid_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+export interface CommissionPayout {
+  id: string;
+  run_id: string;
+  payee_id: string;
+  payee_role: AdjustmentPayeeRole;
+  payee_name: string;
+  payee_email?: string | null;
+  gross_amount: number;
+  adjustment_amount: number;
+  net_amount: number;
+  commission_count: number;
+  created_at: string;
+  run?: PayoutRun | null;
+}
+
+export interface PayoutLineItem {
+  product_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  commission: number | null;
+}
+
+export interface PayoutItem {
+  id: string;
+  payout_id: string;
+  commission_id: string;
+  order_id: string;
+  order_number?: string | null;
+  order_date?: string | null;
+  customer_name?: string | null;
+  order_total?: number | null;
+  amount: number;
+  line_items: PayoutLineItem[];
+}
+
+export interface PayeeBankAccount {
+  profile_id: string;
+  account_holder_name: string;
+  routing_number: string;
+  account_number: string;
+  account_type: 'checking' | 'savings';
+  updated_at?: string;
+}
+
+export interface PayoutStatement {
+  run: PayoutRun;
+  payout: CommissionPayout;
+  items: PayoutItem[];
+  adjustments: CommissionAdjustment[];
+  company: ContactInfo & { name: string };
+}
+
+const money = (value: number) => `$${(Number(value) || 0).toFixed(2)}`;
+
+export function maskAccountNumber(accountNumber: string): string {
+  return `••••${accountNumber.slice(-4)}`;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(text: string | null | undefined): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** One row per payout, for banks or accounting tools that take a CSV */
+export function payoutsToCsv(
+  run: PayoutRun,
+  payouts: CommissionPayout[],
+  bankAccounts: Record<string, PayeeBankAccount>
+): string {
+  const headers = [
+    'Run', 'Period Start', 'Period End', 'Payee', 'Email', 'Role', 'Commissions',
+    'Gross', 'Adjustments', 'Net', 'Payment Method', 'Account Holder', 'Routing Number', 'Account Type', 'Account',
+  ];
+  const rows = payouts.map(payout => {
+    const bank = bankAccounts[payout.payee_id];
+    return [
+      run.run_number,
+      run.period_start,
+      run.period_end,
+      payout.payee_name,
+      payout.payee_email,
+      PAYEE_ROLE_LABELS[payout.payee_role],
+      payout.commission_count,
+      Number(payout.gross_amount).toFixed(2),
+      Number(payout.adjustment_amount).toFixed(2),
+      Number(payout.net_amount).toFixed(2),
+      bank ? 'ACH' : 'Manual',
+      bank?.account_holder_name,
+      bank?.routing_number,
+      bank?.account_type,
+      bank ? maskAccountNumber(bank.account_number) : '',
+    ];
+  });
+
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Builds the ACH credit file for a run. Payees without bank details, or
+ * whose adjustments leave nothing to pay, are returned in `skipped` so they
+ * can be paid (or carried) by hand.
+ */
+export function buildPayoutNacha(
+  run: PayoutRun,
+  payouts: CommissionPayout[],
+  bankAccounts: Record<string, PayeeBankAccount>,
+  originator: NachaOriginator,
+  effectiveDate: Date
+): { file: string; included: CommissionPayout[]; skipped: CommissionPayout[] } {
+  const included: CommissionPayout[] = [];
+  const skipped: CommissionPayout[] = [];
+  const credits: NachaCredit[] = [];
+
+  for (const payout of payouts) {
+    const bank = bankAccounts[payout.payee_id];
+    const amountCents = Math.round(Number(payout.net_amount) * 100);
+    if (!bank || amountCents <= 0) {
+      skipped.push(payout);
+      continue;
+    }
+    included.push(payout);
+    credits.push({
+      name: bank.account_holder_name,
+      routingNumber: bank.routing_number,
+      accountNumber: bank.account_number,
+      accountType: bank.account_type,
+      amountCents,
+      individualId: `${run.run_number}-${included.length}`,
+    });
+  }
+
+  const file = buildNachaFile(originator, credits, { effectiveDate, description: 'COMMISSION' });
+  return { file, included, skipped };
+}
+
+/** Printable HTML statement for one payee; print to PDF from the browser */
+export function renderPayoutStatement({ run, payout, items, adjustments, company }: PayoutStatement): string {
+  const orderRows = items.map(item => {
+    const lines = (item.line_items || []).map(line => `
+        <tr class="line">
+          <td></td>
+          <td>${escapeHtml(line.product_name)}</td>
+          <td class="num">${line.quantity} × ${money(line.unit_price)}</td>
+          <td class="num">${line.commission == null ? '' : money(line.commission)}</td>
+        </tr>`).join('');
+    return `
+        <tr class="order">
+          <td>${escapeHtml(item.order_number || item.order_id.slice(0, 8))}</td>
+          <td>${escapeHtml(item.customer_name)}${item.order_date ? ` · ${new Date(item.order_date).toLocaleDateString()}` : ''}</td>
+          <td class="num">${item.order_total == null ? '' : money(item.order_total)}</td>
+          <td class="num">${money(item.amount)}</td>
+        </tr>${lines}`;
+  }).join('');
+
+  const adjustmentRows = adjustments.map(adj => `
+        <tr>
+          <td>${new Date(adj.created_at).toLocaleDateString()}</td>
+          <td>${escapeHtml(adj.orders?.order_number || adj.order_id.slice(0, 8))} · ${escapeHtml(adj.source)}${adj.reason ? ` · ${escapeHtml(adj.reason)}` : ''}</td>
+          <td class="num">${money(adj.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Commission Statement ${escapeHtml(run.run_number)} - ${escapeHtml(payout.payee_name)}</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #111827; margin: 40px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111827; padding-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; font-size: 11px; text-transform: uppercase; color: #6b7280; }
+  .num { text-align: right; white-space: nowrap; }
+  tr.line td { color: #6b7280; font-size: 12px; border-bottom: none; }
+  .summary td { border: none; padding: 3px 8px; }
+  .summary .total td { font-weight: bold; border-top: 2px solid #111827; }
+  @media print { body { margin: 0.5in; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Commission Statement</h1>
+      <div>${escapeHtml(payout.payee_name)} · ${PAYEE_ROLE_LABELS[payout.payee_role]}</div>
+      ${payout.payee_email ? `<div class="muted">${escapeHtml(payout.payee_email)}</div>` : ''}
+    </div>
+    <div style="text-align: right">
+      <strong>${escapeHtml(company.name)}</strong>
+      <div class="muted">${escapeHtml(company.addressLine1)}</div>
+      <div class="muted">${escapeHtml(company.addressLine2)}</div>
+      <div style="margin-top: 8px">${escapeHtml(run.run_number)}</div>
+      <div class="muted">Period ${escapeHtml(run.period_start)} to ${escapeHtml(run.period_end)}</div>
+      ${run.paid_at ? `<div class="muted">Paid ${new Date(run.paid_at).toLocaleDateString()}</div>` : ''}
+    </div>
+  </div>
+
+  <h2>Summary</h2>
+  <table class="summary">
+    <tr><td>Commissions (${payout.commission_count} orders)</td><td class="num">${money(payout.gross_amount)}</td></tr>
+    <tr><td>Adjustments</td><td class="num">${money(payout.adjustment_amount)}</td></tr>
+    <tr class="total"><td>Net payout</td><td class="num">${money(payout.net_amount)}</td></tr>
+  </table>
+
+  <h2>Orders</h2>
+  <table>
+    <thead><tr><th>Order</th><th>Customer / Product</th><th class="num">Order Total</th><th class="num">Commission</th></tr></thead>
+    <tbody>${orderRows}</tbody>
+  </table>
+  ${adjustments.length > 0 ? `
+  <h2>Adjustments</h2>
+  <table>
+    <thead><tr><th>Date</th><th>Order</th><th class="num">Amount</th></tr></thead>
+    <tbody>${adjustmentRows}</tbody>
+  </table>` : ''}
+</body>
+</html>`;
+}
+
+class CommissionPayoutService {
+  async getRuns(): Promise<{ runs: PayoutRun[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('commission_payout_runs')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return { runs: data || [] };
+    } catch (error) {
+      console.error('Error fetching payout runs:', error);
+      return { runs: [], error: error instanceof Error ? error.message : 'Failed to fetch payout runs' };
+    }
+  }
+
+  async createRun(
+    periodStart: string,
+    periodEnd: string,
+    notes?: string
+  ): Promise<{ success: boolean; runId?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('create_commission_payout_run', {
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+        p_notes: notes || null,
+      });
+
+      if (error) throw error;
+      return { success: true, runId: data };
+    } catch (error) {
+      console.error('Error creating payout run:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create payout run' };
+    }
+  }
+
+  async markRunPaid(runId: string, paymentReference?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('mark_commission_payout_run_paid', {
+        p_run_id: runId,
+        p_payment_reference: paymentReference || null,
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error marking payout run paid:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to mark payout run paid' };
+    }
+  }
+
+  async cancelRun(runId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('cancel_commission_payout_run', { p_run_id: runId });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling payout run:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel payout run' };
+    }
+  }
+
+  async getPayouts(runId: string): Promise<{ payouts: CommissionPayout[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('commission_payouts')
+        .select('*')
+        .eq('run_id', runId)
+        .order('payee_name');
+
+      if (error) throw error;
+      return { payouts: data || [] };
+    } catch (error) {
+      console.error('Error fetching payouts:', error);
+      return { payouts: [], error: error instanceof Error ? error.message : 'Failed to fetch payouts' };
+    }
+  }
+
+  /** A payee's payouts across runs, newest first; cancelled runs are left out */
+  async getPayeePayouts(payeeId: string): Promise<{ payouts: CommissionPayout[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('commission_payouts')
+        .select('*, run:commission_payout_runs!inner(*)')
+        .eq('payee_id', payeeId)
+        .neq('run.status', 'cancelled')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return { payouts: data || [] };
+    } catch (error) {
+      console.error('Error fetching payee payouts:', error);
+      return { payouts: [], error: error instanceof Error ? error.message : 'Failed to fetch payouts' };
+    }
+  }
+
+  async getStatement(payout: CommissionPayout): Promise<{ statement?: PayoutStatement; error?: string }> {
+    try {
+      const [runResult, itemsResult, adjustmentsResult, settings] = await Promise.all([
+        payout.run
+          ? Promise.resolve({ data: payout.run, error: null })
+          : supabase.from('commission_payout_runs').select('*').eq('id', payout.run_id).single(),
+        supabase
+          .from('commission_payout_items')
+          .select('*')
+          .eq('payout_id', payout.id)
+          .order('order_date', { ascending: true }),
+        supabase
+          .from('commission_adjustments')
+          .select('*, orders(order_number)')
+          .eq('payout_id', payout.id)
+          .order('created_at', { ascending: true }),
+        siteSettingsService.getSettings(),
+      ]);
+
+      if (runResult.error) throw runResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (adjustmentsResult.error) throw adjustmentsResult.error;
+
+      const originator = await this.getOriginator();
+      return {
+        statement: {
+          run: runResult.data,
+          payout,
+          items: itemsResult.data || [],
+          adjustments: adjustmentsResult.data || [],
+          company: { ...settings.contact, name: originator.companyName || 'HealthSpan360' },
+        },
+      };
+    } catch (error) {
+      console.error('Error loading payout statement:', error);
+      return { error: error instanceof Error ? error.message : 'Failed to load statement' };
+    }
+  }
+
+  async getBankAccounts(profileIds: string[]): Promise<Record<string, PayeeBankAccount>> {
+    if (profileIds.length === 0) return {};
+    try {
+      const { data, error } = await supabase
+        .from('payee_bank_accounts')
+        .select('*')
+        .in('profile_id', profileIds);
+
+      if (error) throw error;
+      const accounts: Record<string, PayeeBankAccount> = {};
+      for (const account of data || []) accounts[account.profile_id] = account;
+      return accounts;
+    } catch (error) {
+      console.error('Error fetching payee bank accounts:', error);
+      return {};
+    }
+  }
+
+  async saveBankAccount(account: Omit<PayeeBankAccount, 'updated_at'>): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('payee_bank_accounts')
+        .upsert({ ...account, updated_at: new Date().toISOString() }, { onConflict: 'profile_id' });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving payee bank account:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save bank account' };
+    }
+  }
+
+  /** ACH originator details from the `payouts` site settings */
+  async getOriginator(): Promise<NachaOriginator> {
+    const settings = await siteSettingsService.getAllSettingsRaw();
+    const value = (key: string) => {
+      const row = settings.find(s => s.key === key);
+      return typeof row?.value === 'string' ? row.value : '';
+    };
+    return {
+      companyName: value('payout_company_name'),
+      companyId: value('payout_company_id'),
+      odfiRouting: value('payout_odfi_routing'),
+      odfiName: value('payout_odfi_name'),
+    };
+  }
+}
+
+export const commissionPayoutService = new CommissionPayoutService();
@@ -0,0 +1,362 @@
+import { supabase } from './supabase';
+
+export type PlanStatus = 'draft' | 'active' | 'archived';
+export type QuotaPeriod = 'month' | 'quarter' | 'year';
+export type QuotaBasis = 'gross_sales' | 'margin';
+export type NewCustomerBonusType = 'flat' | 'percent';
+export type SpiffAmountType = 'per_unit' | 'percent';
+
+export interface PlanTier {
+  id?: string;
+  /** Attainment within the quota period where this rate starts */
+  threshold: number;
+  rate: number;
+}
+
+export interface PlanSpiff {
+  id?: string;
+  product_id: number;
+  amount_type: SpiffAmountType;
+  amount: number;
+  starts_on: string;
+  ends_on: string;
+  products?: { name: string } | null;
+}
+
+export interface PlanAssignment {
+  id: string;
+  plan_id: string;
+  sales_rep_id: string;
+  starts_on: string;
+  ends_on?: string | null;
+  profiles?: { full_name?: string | null; email?: string | null } | null;
+}
+
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  description?: string | null;
+  status: PlanStatus;
+  quota_period: QuotaPeriod;
+  quota_basis: QuotaBasis;
+  new_customer_bonus_type: NewCustomerBonusType | null;
+  new_customer_bonus_amount: number;
+  created_at: string;
+  updated_at: string;
+  commission_plan_tiers?: PlanTier[];
+  commission_plan_spiffs?: PlanSpiff[];
+  commission_plan_assignments?: PlanAssignment[];
+}
+
+export type CommissionPlanInput = Pick<
+  CommissionPlan,
+  'name' | 'description' | 'quota_period' | 'quota_basis' | 'new_customer_bonus_type' | 'new_customer_bonus_amount'
+>;
+
+/** Breakdown stored on a commission (commissions.plan_details) by evaluate_commission_plan */
+export interface PlanDetails {
+  plan_id: string;
+  plan_name: string;
+  quota_period: QuotaPeriod;
+  quota_basis: QuotaBasis;
+  period_start: string;
+  basis: number;
+  prior_attainment: number;
+  /** The rep's share from the commission rules, before the plan */
+  base_rep_commission: number;
+  tiered: boolean;
+  tiers: Array<{ threshold: number; rate: number; basis: number; amount: number }>;
+  tier_commission: number;
+  new_customer: boolean;
+  new_customer_bonus: number;
+  spiffs: Array<{ productId: string; name: string; amount: number }>;
+  spiff_total: number;
+  rep_commission: number;
+}
+
+export interface PlanPreviewRow {
+  commission_id: string;
+  order_id: string;
+  order_number: string | null;
+  sales_rep_id: string;
+  sales_rep_name: string;
+  created_at: string;
+  basis: number;
+  current_commission: number;
+  projected_commission: number;
+  details: PlanDetails | null;
+}
+
+export interface RepPreviewSummary {
+  salesRepId: string;
+  salesRepName: string;
+  orders: number;
+  basis: number;
+  current: number;
+  projected: number;
+  difference: number;
+}
+
+export const QUOTA_PERIOD_LABELS: Record<QuotaPeriod, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly',
+};
+
+export const QUOTA_BASIS_LABELS: Record<QuotaBasis, string> = {
+  gross_sales: 'Gross sales',
+  margin: 'Margin',
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Marginal tier commission for `basis` earned after `priorAttainment` in
+ * the period. Mirrors evaluate_commission_plan in the database.
+ */
+export function tieredCommission(
+  tiers: PlanTier[],
+  priorAttainment: number,
+  basis: number
+): { amount: number; bands: Array<{ threshold: number; rate: number; basis: number; amount: number }> } {
+  const sorted = [...tiers].sort((a, b) => a.threshold - b.threshold);
+  const end = priorAttainment + basis;
+  const bands: Array<{ threshold: number; rate: number; basis: number; amount: number }> = [];
+
+  sorted.forEach((tier, i) => {
+    const next = sorted[i + 1]?.threshold ?? end;
+    const from = Math.max(priorAttainment, tier.threshold);
+    const to = Math.min(end, next);
+    if (to > from) {
+      bands.push({ threshold: tier.threshold, rate: tier.rate, basis: to - from, amount: round2((to - from) * tier.rate / 100) });
+    }
+  });
+
+  return { amount: round2(bands.reduce((sum, b) => sum + b.amount, 0)), bands };
+}
+
+export function validatePlan(plan: CommissionPlanInput, tiers: PlanTier[], spiffs: PlanSpiff[]): string | null {
+  if (!plan.name.trim()) return 'Plan name is required';
+
+  const thresholds = new Set<number>();
+  for (const tier of tiers) {
+    if (tier.threshold < 0) return 'Tier thresholds cannot be negative';
+    if (tier.rate < 0 || tier.rate > 100) return 'Tier rates must be between 0 and 100';
+    if (thresholds.has(tier.threshold)) return 'Each tier needs a different threshold';
+    thresholds.add(tier.threshold);
+  }
+  if (tiers.length > 0 && !thresholds.has(0)) return 'The first tier must start at $0';
+
+  if (plan.new_customer_bonus_type && plan.new_customer_bonus_amount <= 0) {
+    return 'Enter a new-customer bonus amount';
+  }
+
+  for (const spiff of spiffs) {
+    if (!spiff.product_id) return 'Choose a product for each SPIFF';
+    if (spiff.amount <= 0) return 'SPIFF amounts must be positive';
+    if (!spiff.starts_on || !spiff.ends_on || spiff.ends_on < spiff.starts_on) return 'SPIFF end dates must be on or after their start';
+  }
+
+  return null;
+}
+
+/** Current vs. projected rep commission per rep, largest change first */
+export function summarizePreview(rows: PlanPreviewRow[]): RepPreviewSummary[] {
+  const byRep = new Map<string, RepPreviewSummary>();
+  for (const row of rows) {
+    const summary = byRep.get(row.sales_rep_id) || {
+      salesRepId: row.sales_rep_id,
+      salesRepName: row.sales_rep_name,
+      orders: 0,
+      basis: 0,
+      current: 0,
+      projected: 0,
+      difference: 0,
+    };
+    summary.orders += 1;
+    summary.basis = round2(summary.basis + Number(row.basis));
+    summary.current = round2(summary.current + Number(row.current_commission));
+    summary.projected = round2(summary.projected + Number(row.projected_commission));
+    summary.difference = round2(summary.projected - summary.current);
+    byRep.set(row.sales_rep_id, summary);
+  }
+  return [...byRep.values()].sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+}
+
+class CommissionPlanService {
+  async getPlans(): Promise<{ plans: CommissionPlan[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('commission_plans')
+        .select('*, commission_plan_tiers(*), commission_plan_spiffs(*, products(name)), commission_plan_assignments(*, profiles(full_name, email))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return { plans: data || [] };
+    } catch (error) {
+      console.error('Error fetching commission plans:', error);
+      return { plans: [], error: error instanceof Error ? error.message : 'Failed to fetch commission plans' };
+    }
+  }
+
+  /** Creates or updates a plan and replaces its tiers and SPIFFs */
+  async savePlan(
+    planId: string | null,
+    plan: CommissionPlanInput,
+    tiers: PlanTier[],
+    spiffs: PlanSpiff[]
+  ): Promise<{ success: boolean; planId?: string; error?: string }> {
+    const validation = validatePlan(plan, tiers, spiffs);
+    if (validation) return { success: false, error: validation };
+
+    try {
+      const fields = {
+        ...plan,
+        name: plan.name.trim(),
+        description: plan.description?.trim() || null,
+        new_customer_bonus_amount: plan.new_customer_bonus_type ? plan.new_customer_bonus_amount : 0,
+        updated_at: new Date().toISOString(),
+      };
+
+      let id = planId;
+      if (id) {
+        const { error } = await supabase.from('commission_plans').update(fields).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('commission_plans').insert(fields).select('id').single();
+        if (error) throw error;
+        id = data.id as string;
+      }
+
+      const [tierDelete, spiffDelete] = await Promise.all([
+        supabase.from('commission_plan_tiers').delete().eq('plan_id', id),
+        supabase.from('commission_plan_spiffs').delete().eq('plan_id', id),
+      ]);
+      if (tierDelete.error) throw tierDelete.error;
+      if (spiffDelete.error) throw spiffDelete.error;
+
+      if (tiers.length > 0) {
+        const { error } = await supabase
+          .from('commission_plan_tiers')
+          .insert(tiers.map(t => ({ plan_id: id, threshold: t.threshold, rate: t.rate })));
+        if (error) throw error;
+      }
+      if (spiffs.length > 0) {
+        const { error } = await supabase.from('commission_plan_spiffs').insert(
+          spiffs.map(s => ({
+            plan_id: id,
+            product_id: s.product_id,
+            amount_type: s.amount_type,
+            amount: s.amount,
+            starts_on: s.starts_on,
+            ends_on: s.ends_on,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      return { success: true, planId: id };
+    } catch (error) {
+      console.error('Error saving commission plan:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save commission plan' };
+    }
+  }
+
+  async setStatus(planId: string, status: PlanStatus): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('commission_plans')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', planId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating commission plan status:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update plan status' };
+    }
+  }
+
+  async assignPlan(
+    planId: string,
+    salesRepId: string,
+    startsOn: string,
+    endsOn?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('commission_plan_assignments').insert({
+        plan_id: planId,
+        sales_rep_id: salesRepId,
+        starts_on: startsOn,
+        ends_on: endsOn || null,
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error assigning commission plan:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to assign plan' };
+    }
+  }
+
+  async removeAssignment(assignmentId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('commission_plan_assignments').delete().eq('id', assignmentId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error removing plan assignment:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to remove assignment' };
+    }
+  }
+
+  async getSalesReps(): Promise<Array<{ id: string; email: string; full_name: string | null }>> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, email, full_name')
+      .in('role', ['sales_rep', 'distributor'])
+      .order('email');
+
+    if (error) {
+      console.error('Error fetching sales reps:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  async getProducts(): Promise<Array<{ id: number; name: string }>> {
+    const { data, error } = await supabase.from('products').select('id, name').order('name');
+
+    if (error) {
+      console.error('Error fetching products:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  /** What-if: the period's commissions re-evaluated under a plan, nothing is saved */
+  async previewPlan(
+    planId: string,
+    periodStart: string,
+    periodEnd: string,
+    salesRepId?: string
+  ): Promise<{ rows: PlanPreviewRow[]; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('preview_commission_plan', {
+        p_plan_id: planId,
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+        p_sales_rep_id: salesRepId || null,
+      });
+
+      if (error) throw error;
+      return { rows: data || [] };
+    } catch (error) {
+      console.error('Error previewing commission plan:', error);
+      return { rows: [], error: error instanceof Error ? error.message : 'Failed to preview plan' };
+    }
+  }
+}
+
+export const commissionPlanService = new CommissionPlanService();
@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { commissionAdjustmentService } from './commissionAdjustments';
+import type { PlanDetails } from './commissionPlans';
 
 interface OrganizationSalesRep {
   id: string;
@@ -33,6 +35,7 @@ export interface CommissionLineItem {
   effective_price?: number;
   wholesale_price?: number;
   spread?: number;
+  pricing_source?: string | null;
   created_at: string;
 }
 
@@ -76,6 +79,11 @@ export interface Commission {
   approved_at?: string;
   paid_at?: string;
   payment_reference?: string;
+  /** Set while the commission is locked into a payout run */
+  payout_run_id?: string | null;
+  /** Commission plan the rep's share was calculated under, if any */
+  plan_id?: string | null;
+  plan_details?: PlanDetails | null;
   created_at: string;
   updated_at: string;
   // Joined relations
@@ -443,13 +451,16 @@ class CommissionService {
           paid_at: new Date().toISOString(),
           payment_reference: paymentReference
         })
-        .eq('id', commissionId);
+        .eq('id', commissionId)
+        .is('payout_run_id', null);
 
       if (error) {
         console.error('Error marking commission as paid:', error);
         return { success: false, error: error.message };
       }
 
+      await this.settleAdjustments([commissionId], paymentReference);
+
       return { success: true };
     } catch (error) {
       console.error('Error marking commission as paid:', error);
@@ -480,6 +491,10 @@ class CommissionService {
         return { success: false, error: 'Cannot cancel a commission that has already been paid' };
       }
 
+      if (commission.payout_run_id) {
+        return { success: false, error: 'Commission is locked in a payout run; cancel the run first' };
+      }
+
       const { error } = await supabase
         .from('commissions')
         .update({
@@ -525,7 +540,7 @@ class CommissionService {
           *,
           sales_rep:profiles!sales_rep_id(id, email),
           organization:organizations(id, name),
-          distributor:distributors(id, name, code),
+          distributor:distributors(id, name, code, profile_id),
           order:orders!order_id(id, status, payment_status, order_number)
         `)
         .is('deleted_at', null)
@@ -844,12 +859,15 @@ class CommissionService {
           payment_reference: paymentReference
         })
         .in('id', commissionIds)
-        .eq('status', 'approved');
+        .eq('status', 'approved')
+        .is('payout_run_id', null);
 
       if (error) {
         return { success: false, count: 0, error: error.message };
       }
 
+      await this.settleAdjustments(commissionIds, paymentReference);
+
       return { success: true, count: commissionIds.length };
     } catch (error) {
       console.error('Error batch marking commissions paid:', error);
@@ -861,6 +879,43 @@ class CommissionService {
     }
   }
 
+  /**
+   * Nets pending clawbacks and corrections into the payout that just went
+   * out, for every payee with a share of the paid commissions.
+   */
+  private async settleAdjustments(commissionIds: string[], paymentReference?: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('commissions')
+      .select('sales_rep_id, company_rep_id, distributor_id')
+      .in('id', commissionIds);
+
+    if (error) {
+      console.error('Error loading commission payees:', error);
+      return;
+    }
+
+    const payees = new Set<string>();
+    const distributorIds = new Set<string>();
+    for (const row of data || []) {
+      if (row.sales_rep_id) payees.add(row.sales_rep_id);
+      if (row.company_rep_id) payees.add(row.company_rep_id);
+      if (row.distributor_id) distributorIds.add(row.distributor_id);
+    }
+
+    if (distributorIds.size > 0) {
+      const { data: distributors } = await supabase
+        .from('distributors')
+        .select('profile_id')
+        .in('id', [...distributorIds]);
+      (distributors || []).forEach(d => d.profile_id && payees.add(d.profile_id));
+    }
+
+    const result = await commissionAdjustmentService.applyPending([...payees], paymentReference);
+    if (!result.success) {
+      console.error('Commission paid but adjustments were not netted:', result.error);
+    }
+  }
+
   async promoteToCompany(distributorId: string): Promise<{ success: boolean; error?: string }> {
     try {
       const { error } = await supabase
@@ -1,7 +1,12 @@
 import { supabase, ContractPricing } from './supabase';
 import { cacheService, CacheKeys, CacheTTL } from './cache';
+import type { PriceTierInput } from './pricingTiers';
+import { planLadderReplacement } from './pricingWindows';
 
-type PricingType = 'individual' | 'organization';
+type PricingType = 'individual' | 'organization' | 'location';
+
+/** Where an effective price came from; 'regular' means the retail price applies. */
+export type PricingSource = 'regular' | PricingType;
 
 export interface ContractPrice {
   id: string;
@@ -10,6 +15,7 @@ export interface ContractPrice {
   user_id?: string; // Legacy field for backward compatibility
   product_id: number;
   contract_price: number;
+  markup_price?: number;
   min_quantity?: number;
   max_quantity?: number;
   effective_date?: string;
@@ -23,30 +29,44 @@ class ContractPricingService {
   private pendingOrgPricingRequests = new Map<string, Promise<ContractPrice[]>>();
 
   /**
-   * Get contract price for a specific entity and product
+   * Get contract price for a specific entity and product. With a quantity,
+   * only the tier covering that quantity is returned.
    */
   async getContractPrice(
     entityId: string, 
     productId: number, 
-    pricingType: PricingType = 'individual'
+    pricingType: PricingType = 'individual',
+    quantity?: number
   ): Promise<ContractPrice | null> {
     // Try cache first
-    const cacheKey = `contract_price_${pricingType}_${entityId}_${productId}`;
+    const cacheKey = quantity !== undefined
+      ? `contract_price_${pricingType}_${entityId}_${productId}_${quantity}`
+      : `contract_price_${pricingType}_${entityId}_${productId}`;
     const cached = cacheService.get<ContractPrice | null>(cacheKey);
     if (cached !== null) {
       return cached;
     }
 
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('contract_pricing')
         .select('*')
         .eq('pricing_type', pricingType)
         .eq('entity_id', entityId)
         .eq('product_id', productId)
         .lte('effective_date', new Date().toISOString())
-        .or('expiry_date.is.null,expiry_date.gte.' + new Date().toISOString())
+        .or('expiry_date.is.null,expiry_date.gte.' + new Date().toISOString());
+
+      if (quantity !== undefined) {
+        query = query
+          .lte('min_quantity', quantity)
+          .or('max_quantity.is.null,max_quantity.gte.' + quantity);
+      }
+
+      const { data, error } = await query
+        .order('min_quantity', { ascending: false })
         .order('effective_date', { ascending: false })
+        .limit(1)
         .maybeSingle();
 
       if (error) {
@@ -199,6 +219,187 @@ class ContractPricingService {
     }
   }
 
+  /**
+   * Save a quantity-break ladder for an entity and product (Admin only).
+   * The ladder's window comes from its tiers' effective/expiry dates. Rows
+   * whose window overlaps it are replaced, except that a ladder scheduled
+   * for a future date cuts the current prices off at its start instead of
+   * removing them. Rows outside the window (other scheduled or expired
+   * ladders) are kept. replaceIds are the rows of the ladder being edited,
+   * which are always replaced.
+   */
+  async setPriceTiers(
+    entityId: string,
+    productId: number,
+    pricingType: PricingType,
+    tiers: PriceTierInput[],
+    replaceIds: string[] = []
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const now = new Date().toISOString();
+      const effectiveDate = tiers[0]?.effectiveDate || now;
+      const expiryDate = tiers[0]?.expiryDate || null;
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('contract_pricing')
+        .select('id, effective_date, expiry_date')
+        .eq('pricing_type', pricingType)
+        .eq('entity_id', entityId)
+        .eq('product_id', productId);
+
+      if (fetchError) {
+        return { success: false, error: fetchError.message };
+      }
+
+      const plan = tiers.length > 0
+        ? planLadderReplacement(existing || [], { effective_date: effectiveDate, expiry_date: expiryDate }, replaceIds)
+        : { truncate: [], remove: (existing || []).map(row => row.id) };
+
+      // One transaction: if any tier is rejected the current ladder stays
+      const { error } = await supabase.rpc('replace_contract_price_tiers', {
+        p_pricing_type: pricingType,
+        p_entity_id: entityId,
+        p_product_id: productId,
+        p_truncate: plan.truncate,
+        p_truncate_at: effectiveDate,
+        p_remove: plan.remove,
+        p_tiers: tiers.map(tier => ({
+          pricing_type: pricingType,
+          entity_id: entityId,
+          ...(pricingType === 'individual' && { user_id: entityId }),
+          product_id: productId,
+          contract_price: tier.contractPrice ?? null,
+          markup_price: tier.markupPrice ?? null,
+          min_quantity: tier.minQuantity,
+          max_quantity: tier.maxQuantity ?? null,
+          effective_date: effectiveDate,
+          expiry_date: expiryDate,
+        })),
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      this.invalidatePricingCache(entityId, productId, pricingType);
+      return { success: true };
+    } catch (error) {
+      console.error('Error setting price tiers:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Get the active quantity-break ladder for a product, lowest tier first.
+   * A shipping location's own ladder wins when it has one. With an
+   * organizationId (sales rep mode) that organization's tiers are used;
+   * otherwise the user's organizations, then their individual tiers.
+   */
+  async getProductPriceTiers(
+    productId: number,
+    userId?: string,
+    organizationId?: string,
+    locationId?: string
+  ): Promise<ContractPrice[]> {
+    const byMinQuantity = (a: ContractPrice, b: ContractPrice) =>
+      (a.min_quantity || 1) - (b.min_quantity || 1);
+
+    if (locationId) {
+      const locationTiers = await this.getLocationPriceTiers(locationId, productId);
+      if (locationTiers.length > 0) return locationTiers.sort(byMinQuantity);
+    }
+
+    if (organizationId) {
+      const orgPricing = await this.getOrganizationPricing(organizationId);
+      return orgPricing.filter(p => p.product_id === productId).sort(byMinQuantity);
+    }
+
+    if (!userId) return [];
+
+    const cacheKey = `price_tiers_${userId}_${productId}`;
+    const cached = cacheService.get<ContractPrice[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const now = new Date().toISOString();
+      const { data: userRoles } = await supabase
+        .from('user_organization_roles')
+        .select('organization_id')
+        .eq('user_id', userId);
+
+      const organizationIds = (userRoles || []).map(r => r.organization_id).filter(Boolean);
+
+      let tiers: ContractPrice[] = [];
+      if (organizationIds.length > 0) {
+        const { data, error } = await supabase
+          .from('contract_pricing')
+          .select('*')
+          .eq('pricing_type', 'organization')
+          .in('entity_id', organizationIds)
+          .eq('product_id', productId)
+          .lte('effective_date', now)
+          .or('expiry_date.is.null,expiry_date.gte.' + now);
+
+        if (error) throw error;
+        tiers = data || [];
+      }
+
+      if (tiers.length === 0) {
+        const { data, error } = await supabase
+          .from('contract_pricing')
+          .select('*')
+          .eq('pricing_type', 'individual')
+          .eq('entity_id', userId)
+          .eq('product_id', productId)
+          .lte('effective_date', now)
+          .or('expiry_date.is.null,expiry_date.gte.' + now);
+
+        if (error) throw error;
+        tiers = data || [];
+      }
+
+      const result = tiers.sort(byMinQuantity);
+      cacheService.set(cacheKey, result, CacheTTL.pricing);
+      return result;
+    } catch (error) {
+      console.error('Error fetching price tiers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Active location tiers for one product, cached like the other ladders.
+   */
+  private async getLocationPriceTiers(locationId: string, productId: number): Promise<ContractPrice[]> {
+    const cacheKey = `price_tiers_${locationId}_${productId}`;
+    const cached = cacheService.get<ContractPrice[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('contract_pricing')
+        .select('*')
+        .eq('pricing_type', 'location')
+        .eq('entity_id', locationId)
+        .eq('product_id', productId)
+        .lte('effective_date', now)
+        .or('expiry_date.is.null,expiry_date.gte.' + now);
+
+      if (error) throw error;
+
+      const result = data || [];
+      cacheService.set(cacheKey, result, CacheTTL.pricing);
+      return result;
+    } catch (error) {
+      console.error('Error fetching location price tiers:', error);
+      return [];
+    }
+  }
+
   /**
    * Remove contract price by ID (Admin only)
    */
@@ -309,17 +510,31 @@ class ContractPricingService {
   }
 
   /**
-   * Calculate the effective price for a user considering all pricing levels
+   * Contract price for a shipping location (a saved shipping address) and
+   * product, as markup price when set, otherwise contract price.
+   */
+  async getLocationPrice(locationId: string, productId: number, quantity?: number): Promise<number | null> {
+    const locationPrice = await this.getContractPrice(locationId, productId, 'location', quantity);
+    if (!locationPrice) return null;
+
+    const finalPrice = locationPrice.markup_price || locationPrice.contract_price;
+    return finalPrice === null || finalPrice === undefined ? null : finalPrice;
+  }
+
+  /**
+   * Calculate the effective price for a user considering all pricing levels:
+   * shipping location, then organization, then individual pricing.
    */
   async getEffectivePrice(
     userId: string,
     productId: number,
     userRole?: string,
-    quantity?: number
-  ): Promise<{ price: number; source: 'regular' | 'individual' | 'organization' } | null> {
+    quantity?: number,
+    locationId?: string
+  ): Promise<{ price: number; source: PricingSource } | null> {
     // Try cache first
-    const cacheKey = CacheKeys.effectivePrice(userId, productId, quantity);
-    const cached = cacheService.get<{ price: number; source: 'regular' | 'individual' | 'organization' } | null>(cacheKey);
+    const cacheKey = CacheKeys.effectivePrice(userId, productId, quantity, locationId);
+    const cached = cacheService.get<{ price: number; source: PricingSource } | null>(cacheKey);
     if (cached !== null) {
       return cached;
     }
@@ -330,7 +545,20 @@ class ContractPricingService {
     }
 
     try {
-      // Check for organization-level pricing first (higher priority)
+      // Pricing for the chosen shipping location wins over everything else
+      if (locationId) {
+        const locationPrice = await this.getLocationPrice(locationId, productId, quantity);
+        if (locationPrice !== null) {
+          const result = {
+            price: locationPrice,
+            source: 'location' as const
+          };
+          cacheService.set(cacheKey, result, CacheTTL.effectivePrice);
+          return result;
+        }
+      }
+
+      // Then organization-level pricing
       const organizationPrice = await this.getOrganizationPrice(userId, productId, quantity);
       if (organizationPrice) {
         const finalPrice = organizationPrice.markup_price || organizationPrice.contract_price;
@@ -345,7 +573,7 @@ class ContractPricingService {
       }
 
       // Check for individual contract pricing
-      const contractPrice = await this.getContractPrice(userId, productId, 'individual');
+      const contractPrice = await this.getContractPrice(userId, productId, 'individual', quantity);
 
       if (contractPrice) {
         const finalPrice = contractPrice.markup_price || contractPrice.contract_price;
@@ -380,6 +608,7 @@ class ContractPricingService {
     cacheService.delete(contractPriceKey);
     cacheService.delete(entityPricesKey);
     cacheService.delete(orgPricingAllKey);
+    cacheService.delete(`price_tiers_${entityId}_${productId}`);
     
     // Clear effective price cache for this user/product combination
     // Note: We can't easily clear all quantity variations, so we'll let them expire naturally
@@ -529,23 +758,29 @@ class ContractPricingService {
 
       const profileIds = data.filter(p => p.pricing_type === 'individual').map(p => p.entity_id);
       const orgIds = data.filter(p => p.pricing_type === 'organization').map(p => p.entity_id);
+      const locationIds = data.filter(p => p.pricing_type === 'location').map(p => p.entity_id);
 
-      const [profiles, organizations] = await Promise.all([
+      const [profiles, organizations, locations] = await Promise.all([
         profileIds.length > 0
           ? supabase.from('profiles').select('id, email').in('id', profileIds)
           : Promise.resolve({ data: [] }),
         orgIds.length > 0
           ? supabase.from('organizations').select('id, name, code').in('id', orgIds)
           : Promise.resolve({ data: [] }),
+        locationIds.length > 0
+          ? supabase.from('customer_addresses').select('id, label, city, state_or_province, organizations(name)').in('id', locationIds)
+          : Promise.resolve({ data: [] }),
       ]);
 
       const profileMap = new Map((profiles.data || []).map(p => [p.id, p]));
       const orgMap = new Map((organizations.data || []).map(o => [o.id, o]));
+      const locationMap = new Map((locations.data || []).map(l => [l.id, l]));
 
       return data.map(pricing => ({
         ...pricing,
         profiles: pricing.pricing_type === 'individual' ? profileMap.get(pricing.entity_id) : undefined,
         organizations: pricing.pricing_type === 'organization' ? orgMap.get(pricing.entity_id) : undefined,
+        locations: pricing.pricing_type === 'location' ? locationMap.get(pricing.entity_id) : undefined,
       }));
     } catch (error) {
       console.error('Error fetching all pricing entries:', error);
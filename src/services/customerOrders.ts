@@ -0,0 +1,411 @@
+import { supabase } from './supabase';
+import { productService, type Product } from './productService';
+import { siteSettingsService, type ContactInfo } from './siteSettings';
+import { resolveCartPrice, type CartItem, type CartPricingContext } from './cartService';
+import { normalizeAddress, type Address, type Order, type OrderItem, type Shipment } from '../components/admin/orders/types';
+import { PAYMENT_TERMS_LABELS, type PaymentTerms } from './paymentTerms';
+
+export type TimelineStepKey = 'placed' | 'backordered' | 'paid' | 'shipped' | 'delivered' | 'completed' | 'cancelled' | 'refunded';
+
+export interface TimelineStep {
+  key: TimelineStepKey;
+  label: string;
+  at?: string | null;
+  done: boolean;
+  detail?: string;
+}
+
+export interface TrackedShipment extends Shipment {
+  orderId: string;
+  orderNumber: string;
+  trackingUrl: string | null;
+}
+
+/**
+ * An order as the customer placed it. Vendor splits and backorders are
+ * separate rows in `orders` that point back at the original through
+ * `parent_order_id`; here they are shown together.
+ */
+export interface LogicalOrder {
+  id: string;
+  orderNumber: string;
+  /** The original order first, then its splits in the order they were made */
+  orders: Order[];
+  placedAt: string;
+  status: string;
+  items: Array<OrderItem & { orderNumber: string; orderStatus: string }>;
+  shipments: TrackedShipment[];
+  subtotal: number;
+  tax: number;
+  shipping: number;
+  discount: number;
+  total: number;
+}
+
+export interface ReorderPlan {
+  /** Cart lines at today's prices for everything that can still be ordered */
+  lines: CartItem[];
+  /** Products that are discontinued or no longer in the catalog */
+  unavailable: Array<{ productId: number; name: string; quantity: number }>;
+  /** Lines whose price differs from what was paid */
+  priceChanges: Array<{ productId: number; name: string; was: number; now: number }>;
+  /** Lines that are out of stock and will ship as a backorder */
+  outOfStock: string[];
+}
+
+export interface InvoiceDocument {
+  order: LogicalOrder;
+  company: ContactInfo & { name: string };
+}
+
+export const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  backorder: 'Backordered',
+  partially_shipped: 'Partially Shipped',
+  shipped: 'Shipped',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+/** Carrier tracking pages; the tracking number is appended */
+const CARRIER_TRACKING_URLS: Array<{ pattern: RegExp; url: string }> = [
+  { pattern: /\bups\b/i, url: 'https://www.ups.com/track?tracknum=' },
+  { pattern: /fedex|federal express/i, url: 'https://www.fedex.com/fedextrack/?trknbr=' },
+  { pattern: /usps|postal service/i, url: 'https://tools.usps.com/go/TrackConfirmAction?tLabels=' },
+  { pattern: /\bdhl\b/i, url: 'https://www.dhl.com/us-en/home/tracking/tracking-express.html?submit=1&tracking-id=' },
+  { pattern: /ontrac/i, url: 'https://www.ontrac.com/tracking/?number=' },
+];
+
+const money = (value: number) => `$${(Number(value) || 0).toFixed(2)}`;
+
+const orderNumberOf = (order: Order) => order.order_number || order.id.slice(0, 8);
+
+const isClosed = (order: Order) => order.status === 'cancelled' || order.status === 'refunded';
+
+function escapeHtml(text: string | null | undefined): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Link to the carrier's tracking page, or null for carriers we don't know */
+export function carrierTrackingUrl(carrier: string, trackingNumber: string): string | null {
+  if (!trackingNumber?.trim()) return null;
+  const match = CARRIER_TRACKING_URLS.find(c => c.pattern.test(carrier || ''));
+  return match ? match.url + encodeURIComponent(trackingNumber.trim()) : null;
+}
+
+/**
+ * Groups a customer's orders into logical orders. Splits whose original is
+ * not in the list (e.g. it was deleted) stand on their own. Newest first.
+ */
+export function groupLogicalOrders(orders: Order[]): LogicalOrder[] {
+  const ids = new Set(orders.map(o => o.id));
+  const groups = new Map<string, Order[]>();
+
+  for (const order of orders) {
+    const rootId = order.parent_order_id && ids.has(order.parent_order_id) ? order.parent_order_id : order.id;
+    groups.set(rootId, [...(groups.get(rootId) || []), order]);
+  }
+
+  return [...groups.entries()]
+    .map(([rootId, members]) => buildLogicalOrder(rootId, members))
+    .sort((a, b) => new Date(b.placedAt).getTime() - new Date(a.placedAt).getTime());
+}
+
+function buildLogicalOrder(rootId: string, members: Order[]): LogicalOrder {
+  const orders = [...members].sort((a, b) =>
+    a.id === rootId ? -1 : b.id === rootId ? 1 : new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const root = orders[0];
+  // Cancelled and refunded splits no longer count towards what the customer owes
+  const billed = orders.filter(o => !isClosed(o));
+  const sum = (pick: (o: Order) => number | undefined) => billed.reduce((total, o) => total + (Number(pick(o)) || 0), 0);
+
+  return {
+    id: root.id,
+    orderNumber: orderNumberOf(root),
+    orders,
+    placedAt: root.created_at,
+    status: logicalOrderStatus(orders),
+    items: orders.flatMap(o => (o.items || []).map(item => ({ ...item, orderNumber: orderNumberOf(o), orderStatus: o.status }))),
+    shipments: orders.flatMap(o => (o.shipments || []).map(shipment => ({
+      ...shipment,
+      orderId: o.id,
+      orderNumber: orderNumberOf(o),
+      trackingUrl: carrierTrackingUrl(shipment.carrier, shipment.tracking_number),
+    }))),
+    subtotal: sum(o => o.subtotal),
+    tax: sum(o => o.tax),
+    shipping: sum(o => o.shipping),
+    discount: sum(o => o.discount),
+    total: sum(o => o.total),
+  };
+}
+
+/** One status for the whole logical order, driven by its least advanced open part */
+export function logicalOrderStatus(orders: Order[]): string {
+  const open = orders.filter(o => !isClosed(o));
+  if (open.length === 0) return orders.every(o => o.status === 'refunded') ? 'refunded' : 'cancelled';
+  if (open.every(o => o.status === 'completed')) return 'completed';
+
+  const shipped = open.filter(o => o.status === 'completed' || (o.shipments || []).length > 0);
+  if (shipped.length === open.length) return 'shipped';
+  if (shipped.length > 0) return 'partially_shipped';
+  if (open.some(o => o.status === 'backorder')) return 'backorder';
+  return open.some(o => o.status === 'processing') ? 'processing' : 'pending';
+}
+
+/** Milestones for the customer's timeline, in the order they happen */
+export function buildOrderTimeline(order: LogicalOrder): TimelineStep[] {
+  const root = order.orders[0];
+  const steps: TimelineStep[] = [{ key: 'placed', label: 'Order placed', at: order.placedAt, done: true }];
+
+  if (order.status === 'cancelled' || order.status === 'refunded') {
+    const last = [...order.orders].sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())[0];
+    steps.push({ key: order.status, label: order.status === 'refunded' ? 'Refunded' : 'Cancelled', at: last.updated_at, done: true });
+    return steps;
+  }
+
+  const backorders = order.orders.filter(o => o.order_type === 'backorder' && !isClosed(o));
+  if (backorders.length > 0) {
+    const waiting = backorders.filter(o => o.status !== 'completed' && (o.shipments || []).length === 0);
+    steps.push({
+      key: 'backordered',
+      label: 'Some items backordered',
+      at: backorders[0].created_at,
+      done: true,
+      detail: waiting.length > 0
+        ? `${waiting.length} backorder${waiting.length === 1 ? '' : 's'} still to ship`
+        : 'Backordered items have shipped',
+    });
+  }
+
+  const paidAt = order.orders.map(o => o.payment_captured_at).filter(Boolean).sort()[0];
+  if (root.payment_method === 'invoice') {
+    steps.push({
+      key: 'paid',
+      label: 'Invoiced',
+      at: order.placedAt,
+      done: true,
+      detail: root.invoice_due_date ? `Due ${new Date(`${root.invoice_due_date}T00:00:00`).toLocaleDateString()}` : undefined,
+    });
+  } else {
+    steps.push({ key: 'paid', label: 'Payment received', at: paidAt, done: !!paidAt || root.payment_status === 'captured' });
+  }
+
+  const shipDates = order.shipments.map(s => s.shipped_date).filter(Boolean).sort() as string[];
+  const partial = order.status === 'partially_shipped';
+  steps.push({
+    key: 'shipped',
+    label: partial ? 'Partially shipped' : 'Shipped',
+    at: shipDates[0],
+    done: order.shipments.length > 0 || order.status === 'completed',
+    detail: order.shipments.length > 0 ? `${order.shipments.length} shipment${order.shipments.length === 1 ? '' : 's'}` : undefined,
+  });
+
+  const delivered = order.shipments.length > 0 && !partial && order.shipments.every(s => s.status === 'delivered');
+  const latestEstimate = order.shipments.map(s => s.estimated_delivery).filter(Boolean).sort().pop();
+  steps.push({
+    key: 'delivered',
+    label: 'Delivered',
+    done: delivered || order.status === 'completed',
+    detail: !delivered && latestEstimate ? `Expected by ${new Date(`${latestEstimate}T00:00:00`).toLocaleDateString()}` : undefined,
+  });
+
+  const completedAt = order.orders.map(o => o.completed_at).filter(Boolean).sort().pop();
+  steps.push({ key: 'completed', label: 'Completed', at: order.status === 'completed' ? completedAt : null, done: order.status === 'completed' });
+
+  return steps;
+}
+
+/**
+ * Rebuilds a logical order as cart lines priced for today. Quantities of a
+ * product split across sub-orders are combined. Products that are inactive
+ * or no longer exist are left out and reported.
+ */
+export async function buildReorderPlan(
+  order: Pick<LogicalOrder, 'items'>,
+  products: Product[],
+  priceFor: (product: Product, quantity: number) => Promise<{ price: number; retailPrice: number; hasMarkup: boolean }>
+): Promise<ReorderPlan> {
+  const quantities = new Map<number, { item: OrderItem; quantity: number }>();
+  for (const item of order.items) {
+    const existing = quantities.get(item.productId);
+    quantities.set(item.productId, { item: existing?.item || item, quantity: (existing?.quantity || 0) + item.quantity });
+  }
+
+  const byId = new Map(products.map(p => [p.id, p]));
+  const plan: ReorderPlan = { lines: [], unavailable: [], priceChanges: [], outOfStock: [] };
+
+  for (const { item, quantity } of quantities.values()) {
+    const product = byId.get(item.productId);
+    if (!product || product.isActive === false) {
+      plan.unavailable.push({ productId: item.productId, name: item.name, quantity });
+      continue;
+    }
+
+    const { price, retailPrice, hasMarkup } = await priceFor(product, quantity);
+    plan.lines.push({
+      id: product.id,
+      name: product.name,
+      price,
+      retailPrice,
+      listPrice: product.price,
+      cost: product.cost,
+      quantity,
+      image: product.image,
+      hasMarkup,
+      brand: product.brand,
+    });
+
+    if (Math.abs(price - item.price) >= 0.005) {
+      plan.priceChanges.push({ productId: product.id, name: product.name, was: item.price, now: price });
+    }
+    if (product.isInStock === false) plan.outOfStock.push(product.name);
+  }
+
+  return plan;
+}
+
+function addressBlock(addr?: Address | null): string {
+  const a = normalizeAddress(addr);
+  if (!a) return '<div class="muted">Not provided</div>';
+  const name = [a.firstName, a.lastName].filter(Boolean).join(' ');
+  const cityLine = [a.city, [a.state, a.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  return [name, a.company, a.address1, a.address2, cityLine, a.country]
+    .filter(Boolean)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+}
+
+/** Printable HTML invoice for a logical order; print to PDF from the browser */
+export function renderInvoice({ order, company }: InvoiceDocument): string {
+  const root = order.orders[0];
+  const billed = order.orders.filter(o => !isClosed(o));
+
+  const sections = billed.map(part => {
+    const rows = (part.items || []).map(item => `
+        <tr>
+          <td>${escapeHtml(item.name)}${item.brand ? `<div class="muted">${escapeHtml(item.brand)}</div>` : ''}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${money(item.price)}</td>
+          <td class="num">${money(item.price * item.quantity)}</td>
+        </tr>`).join('');
+    const heading = billed.length > 1
+      ? `<tr class="part"><td colspan="4">${escapeHtml(orderNumberOf(part))}${part.order_type === 'backorder' ? ' · Backorder' : part.vendor_brand ? ` · ${escapeHtml(part.vendor_brand)}` : ''} · ${escapeHtml(ORDER_STATUS_LABELS[part.status] || part.status)}</td></tr>`
+      : '';
+    return heading + rows;
+  }).join('');
+
+  const terms = root.payment_method === 'invoice'
+    ? `<div>Terms: ${escapeHtml(root.payment_terms ? PAYMENT_TERMS_LABELS[root.payment_terms as PaymentTerms] || root.payment_terms : 'Invoice')}</div>
+      ${root.invoice_due_date ? `<div>Due: ${new Date(`${root.invoice_due_date}T00:00:00`).toLocaleDateString()}</div>` : ''}`
+    : `<div>Payment: ${escapeHtml(root.payment_status === 'captured' ? 'Paid' : root.payment_status || 'Pending')}</div>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(order.orderNumber)}</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #111827; margin: 40px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 13px; margin: 0 0 6px; text-transform: uppercase; color: #6b7280; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111827; padding-bottom: 12px; }
+  .addresses { display: flex; gap: 48px; margin: 24px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+  th { background: #f9fafb; font-size: 11px; text-transform: uppercase; color: #6b7280; }
+  .num { text-align: right; white-space: nowrap; }
+  tr.part td { font-weight: bold; background: #f9fafb; }
+  .summary { width: 280px; margin: 16px 0 0 auto; }
+  .summary td { border: none; padding: 3px 8px; }
+  .summary .total td { font-weight: bold; border-top: 2px solid #111827; }
+  @media print { body { margin: 0.5in; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Invoice</h1>
+      <div>Order ${escapeHtml(order.orderNumber)}</div>
+      <div class="muted">Placed ${new Date(order.placedAt).toLocaleDateString()}</div>
+      ${root.po_number ? `<div class="muted">PO ${escapeHtml(root.po_number)}</div>` : ''}
+      ${terms}
+    </div>
+    <div style="text-align: right">
+      <strong>${escapeHtml(company.name)}</strong>
+      <div class="muted">${escapeHtml(company.addressLine1)}</div>
+      <div class="muted">${escapeHtml(company.addressLine2)}</div>
+      <div class="muted">${escapeHtml(company.phone)}</div>
+      <div class="muted">${escapeHtml(company.email)}</div>
+    </div>
+  </div>
+
+  <div class="addresses">
+    <div><h2>Bill To</h2>${addressBlock(root.billing_address || root.shipping_address)}</div>
+    <div><h2>Ship To</h2>${addressBlock(root.shipping_address)}</div>
+  </div>
+
+  <table>
+    <thead><tr><th>Item</th><th class="num">Qty</th><th class="num">Unit Price</th><th class="num">Amount</th></tr></thead>
+    <tbody>${sections}</tbody>
+  </table>
+
+  <table class="summary">
+    <tr><td>Subtotal</td><td class="num">${money(order.subtotal)}</td></tr>
+    ${order.discount > 0 ? `<tr><td>Discount${root.discount_code ? ` (${escapeHtml(root.discount_code)})` : ''}</td><td class="num">-${money(order.discount)}</td></tr>` : ''}
+    <tr><td>Shipping</td><td class="num">${money(order.shipping)}</td></tr>
+    <tr><td>Tax</td><td class="num">${money(order.tax)}</td></tr>
+    <tr class="total"><td>Total</td><td class="num">${money(order.total)}</td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+class CustomerOrderService {
+  /** The customer's own orders, grouped into logical orders */
+  async getOrders(userId: string): Promise<{ orders: LogicalOrder[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return { orders: groupLogicalOrders(data || []) };
+    } catch (error) {
+      console.error('Error fetching customer orders:', error);
+      return { orders: [], error: error instanceof Error ? error.message : 'Failed to fetch orders' };
+    }
+  }
+
+  async getInvoice(order: LogicalOrder): Promise<InvoiceDocument> {
+    const settings = await siteSettingsService.getSettings();
+    return { order, company: { ...settings.contact, name: 'HealthSpan360' } };
+  }
+
+  /** Reorder plan priced for the organization the original order was placed for */
+  async planReorder(order: LogicalOrder, context: CartPricingContext): Promise<{ plan?: ReorderPlan; error?: string }> {
+    try {
+      const products = await productService.getProductsByIds([...new Set(order.items.map(item => item.productId))]);
+      const plan = await buildReorderPlan(order, products, (product, quantity) =>
+        resolveCartPrice(product, quantity, { ...context, organizationId: context.organizationId || order.orders[0].organization_id })
+      );
+      return { plan };
+    } catch (error) {
+      console.error('Error building reorder:', error);
+      return { error: error instanceof Error ? error.message : 'Failed to rebuild order' };
+    }
+  }
+}
+
+export const customerOrderService = new CustomerOrderService();
@@ -0,0 +1,315 @@
+import { supabase } from './supabase';
+import { roundCurrency } from './tax';
+
+export type DiscountType = 'percent' | 'fixed_amount' | 'free_shipping';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  /** Percent off for 'percent', dollars off for 'fixed_amount', unused for 'free_shipping' */
+  amount: number;
+  min_subtotal?: number | null;
+  /** Empty restriction lists mean "any" */
+  product_ids: number[];
+  category_ids: string[];
+  brand_ids: string[];
+  organization_ids: string[];
+  max_uses?: number | null;
+  max_uses_per_customer?: number | null;
+  times_used: number;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DiscountLine {
+  productId: number;
+  quantity: number;
+  price: number;
+  categoryId?: string | null;
+  brandId?: string | null;
+}
+
+export interface DiscountContext {
+  organizationId?: string;
+  /** Orders this customer (organization, or user without one) already placed with the code */
+  customerUses?: number;
+  now?: Date;
+}
+
+export interface DiscountResult {
+  /** Discount on merchandise, spread across lines below */
+  discount: number;
+  shippingDiscount: number;
+  /** Line discount totals (not per unit) by product id */
+  lines: { productId: number; discount: number }[];
+  error?: string;
+}
+
+export interface DiscountRedemption {
+  id: string;
+  discount_code_id: string;
+  order_id: string;
+  user_id: string;
+  organization_id?: string | null;
+  amount: number;
+  created_at: string;
+}
+
+const NO_DISCOUNT: DiscountResult = { discount: 0, shippingDiscount: 0, lines: [] };
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Whether a line is covered by the code's product, category and brand limits. */
+export function isLineEligible(code: DiscountCode, line: DiscountLine): boolean {
+  const limited = code.product_ids.length > 0 || code.category_ids.length > 0 || code.brand_ids.length > 0;
+  if (!limited) return true;
+
+  return code.product_ids.includes(line.productId)
+    || (!!line.categoryId && code.category_ids.includes(line.categoryId))
+    || (!!line.brandId && code.brand_ids.includes(line.brandId));
+}
+
+/**
+ * Why a code cannot be used right now, or null if it can. Product limits
+ * are checked separately because they depend on the cart.
+ */
+export function getDiscountCodeError(
+  code: DiscountCode,
+  subtotal: number,
+  context: DiscountContext = {}
+): string | null {
+  const now = context.now || new Date();
+
+  if (!code.is_active) return 'This code is no longer active';
+  if (code.starts_at && new Date(code.starts_at) > now) return 'This code is not active yet';
+  if (code.expires_at && new Date(code.expires_at) < now) return 'This code has expired';
+  if (code.max_uses != null && code.times_used >= code.max_uses) return 'This code has reached its usage limit';
+  if (code.max_uses_per_customer != null && (context.customerUses || 0) >= code.max_uses_per_customer) {
+    return 'You have already used this code';
+  }
+  if (code.organization_ids.length > 0 && (!context.organizationId || !code.organization_ids.includes(context.organizationId))) {
+    return 'This code is not valid for your account';
+  }
+  if (code.min_subtotal && subtotal < code.min_subtotal) {
+    return `This code requires a subtotal of at least $${code.min_subtotal.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Work out the discount a code gives on a cart. Percent codes take the
+ * percentage off each eligible line; fixed-amount codes are spread across
+ * eligible lines in proportion to their totals (never more than those
+ * lines are worth); free-shipping codes waive the shipping charge.
+ */
+export function calculateDiscount(
+  code: DiscountCode,
+  lines: DiscountLine[],
+  shipping: number,
+  context: DiscountContext = {}
+): DiscountResult {
+  const subtotal = lines.reduce((sum, l) => sum + l.price * l.quantity, 0);
+  const error = getDiscountCodeError(code, subtotal, context);
+  if (error) return { ...NO_DISCOUNT, error };
+
+  const eligible = lines.filter(l => isLineEligible(code, l) && l.price * l.quantity > 0);
+  if (eligible.length === 0) {
+    return { ...NO_DISCOUNT, error: 'This code does not apply to any items in your cart' };
+  }
+
+  if (code.discount_type === 'free_shipping') {
+    return { discount: 0, shippingDiscount: roundCurrency(shipping), lines: [] };
+  }
+
+  const eligibleTotal = eligible.reduce((sum, l) => sum + l.price * l.quantity, 0);
+  const target = code.discount_type === 'percent'
+    ? eligibleTotal * Math.min(Math.max(code.amount, 0), 100) / 100
+    : Math.min(Math.max(code.amount, 0), eligibleTotal);
+  const totalDiscount = roundCurrency(target);
+
+  // Proportional split; the last line takes the rounding remainder
+  let allocated = 0;
+  const discountLines = eligible.map((line, i) => {
+    const lineTotal = line.price * line.quantity;
+    const share = i === eligible.length - 1
+      ? roundCurrency(totalDiscount - allocated)
+      : roundCurrency(totalDiscount * lineTotal / eligibleTotal);
+    allocated = roundCurrency(allocated + share);
+    return { productId: line.productId, discount: Math.min(share, roundCurrency(lineTotal)) };
+  });
+
+  return {
+    discount: roundCurrency(discountLines.reduce((sum, l) => sum + l.discount, 0)),
+    shippingDiscount: 0,
+    lines: discountLines,
+  };
+}
+
+/** "15% off", "$10.00 off", "Free shipping" */
+export function formatDiscountValue(code: Pick<DiscountCode, 'discount_type' | 'amount'>): string {
+  switch (code.discount_type) {
+    case 'percent':
+      return `${code.amount}% off`;
+    case 'fixed_amount':
+      return `$${Number(code.amount).toFixed(2)} off`;
+    default:
+      return 'Free shipping';
+  }
+}
+
+class DiscountCodeService {
+  /**
+   * Look up an active code as typed at checkout, with how many times the
+   * customer has already used it. Codes are not readable directly by
+   * customers, so this goes through a security definer function.
+   */
+  async lookupCode(
+    code: string,
+    organizationId?: string
+  ): Promise<{ code: DiscountCode | null; customerUses: number; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('lookup_discount_code', {
+        p_code: normalizeDiscountCode(code),
+        p_organization_id: organizationId || null,
+      });
+
+      if (error) throw error;
+      if (!data) {
+        return { code: null, customerUses: 0, error: 'That code is not valid' };
+      }
+
+      const { customer_uses, ...row } = data as DiscountCode & { customer_uses: number };
+      return { code: row, customerUses: customer_uses || 0 };
+    } catch (error) {
+      console.error('Error looking up discount code:', error);
+      return {
+        code: null,
+        customerUses: 0,
+        error: error instanceof Error ? error.message : 'Failed to check discount code',
+      };
+    }
+  }
+
+  /**
+   * Validate a code against order items and return the discount. Product
+   * categories and brands are looked up for codes limited to them.
+   */
+  async applyToItems(
+    code: string,
+    items: { productId: number; quantity: number; price: number }[],
+    shipping: number,
+    organizationId?: string
+  ): Promise<DiscountResult & { code?: DiscountCode }> {
+    const lookup = await this.lookupCode(code, organizationId);
+    if (!lookup.code) {
+      return { ...NO_DISCOUNT, error: lookup.error };
+    }
+
+    let lines: DiscountLine[] = items;
+    if (lookup.code.category_ids.length > 0 || lookup.code.brand_ids.length > 0) {
+      const { data: products } = await supabase
+        .from('products')
+        .select('id, category_id, brand_id')
+        .in('id', items.map(i => i.productId));
+
+      const byId = new Map((products || []).map(p => [p.id, p]));
+      lines = items.map(i => ({
+        ...i,
+        categoryId: byId.get(i.productId)?.category_id,
+        brandId: byId.get(i.productId)?.brand_id,
+      }));
+    }
+
+    const result = calculateDiscount(lookup.code, lines, shipping, {
+      organizationId,
+      customerUses: lookup.customerUses,
+    });
+    return { ...result, code: lookup.code };
+  }
+
+  async getAllCodes(): Promise<DiscountCode[]> {
+    try {
+      const { data, error } = await supabase
+        .from('discount_codes')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching discount codes:', error);
+      return [];
+    }
+  }
+
+  async saveCode(
+    code: Partial<DiscountCode> & Pick<DiscountCode, 'code' | 'discount_type' | 'amount'>
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      // times_used is maintained by the redemption trigger
+      const { id, ...fields } = code;
+      const payload: Record<string, unknown> = {
+        ...fields,
+        code: normalizeDiscountCode(code.code),
+        updated_at: new Date().toISOString(),
+      };
+      delete payload.times_used;
+      delete payload.created_at;
+
+      const { error } = id
+        ? await supabase.from('discount_codes').update(payload).eq('id', id)
+        : await supabase.from('discount_codes').insert(payload);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.code === '23505' ? 'A discount code with that name already exists' : error.message,
+        };
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving discount code:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save discount code' };
+    }
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) return { success: false, error: error.message };
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating discount code:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update discount code' };
+    }
+  }
+
+  async getRedemptions(discountCodeId: string): Promise<DiscountRedemption[]> {
+    try {
+      const { data, error } = await supabase
+        .from('discount_redemptions')
+        .select('*')
+        .eq('discount_code_id', discountCodeId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching discount redemptions:', error);
+      return [];
+    }
+  }
+}
+
+export const discountCodeService = new DiscountCodeService();
@@ -96,6 +96,12 @@ export const emailService = {
       support_ticket_created: 'Ticket Created',
       support_ticket_reply: 'Ticket Reply',
       support_ticket_resolved: 'Ticket Resolved',
+      tax_exemption_expiring: 'Tax Exemption Expiring',
+      contract_pricing_expiring: 'Contract Pricing Expiring',
+      low_stock_alert: 'Low Stock Alert',
+      crm_follow_up_due: 'CRM Follow-up Reminder',
+      return_status_update: 'Return Status Update',
+      quote_sent: 'Quote Sent',
     };
     return map[emailType] || emailType;
   },
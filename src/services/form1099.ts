@@ -0,0 +1,236 @@
+import { supabase } from './supabase';
+import { siteSettingsService } from './siteSettings';
+import { buildFireFile, type FirePayee, type FirePayer, type FireTransmitter } from './irsFire';
+
+/** One payee's paid commissions for a tax year, from get_1099_nec_summary */
+export interface Form1099Recipient {
+  payee_id: string;
+  payee_name: string;
+  payee_email: string;
+  payee_roles: string[];
+  distributor_id: string | null;
+  distributor_class: 'independent' | 'company' | null;
+  legal_name: string | null;
+  business_name: string | null;
+  tax_id: string | null;
+  tax_id_type: 'ein' | 'ssn' | null;
+  tax_classification: string | null;
+  w9_status: 'pending' | 'received' | 'verified' | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  commission_total: number;
+  adjustment_total: number;
+  commission_count: number;
+}
+
+export type Form1099Status = 'ready' | 'needs_w9' | 'below_threshold' | 'exempt';
+
+export interface Form1099Assessment {
+  recipient: Form1099Recipient;
+  /** Commissions paid less clawbacks netted into payments, in cents */
+  netCents: number;
+  status: Form1099Status;
+  issues: string[];
+}
+
+export interface Form1099Filer {
+  payer: FirePayer;
+  transmitter: FireTransmitter;
+}
+
+/** W-9 classifications that are generally exempt from 1099-NEC reporting */
+const EXEMPT_CLASSIFICATIONS = ['c_corp', 's_corp', 'llc_corp'];
+
+/** Reporting threshold for nonemployee compensation: $600 through 2025, $2,000 from 2026 */
+export function necThresholdCents(year: number): number {
+  return year >= 2026 ? 200000 : 60000;
+}
+
+export function maskTin(tin: string | null | undefined): string {
+  const digits = (tin || '').replace(/\D/g, '');
+  if (digits.length < 4) return '';
+  return `***-**-${digits.slice(-4)}`;
+}
+
+export function assess1099(recipient: Form1099Recipient, year: number): Form1099Assessment {
+  const netCents = Math.round((Number(recipient.commission_total) + Number(recipient.adjustment_total)) * 100);
+
+  if (recipient.tax_classification && EXEMPT_CLASSIFICATIONS.includes(recipient.tax_classification)) {
+    return { recipient, netCents, status: 'exempt', issues: [] };
+  }
+  if (netCents < necThresholdCents(year)) {
+    return { recipient, netCents, status: 'below_threshold', issues: [] };
+  }
+
+  const issues: string[] = [];
+  if (!recipient.distributor_id) {
+    issues.push('No W-9 on file');
+  } else {
+    if (recipient.w9_status !== 'verified') issues.push(`W-9 ${recipient.w9_status || 'pending'}`);
+    if ((recipient.tax_id || '').replace(/\D/g, '').length !== 9) issues.push('Missing TIN');
+    if (!recipient.tax_id_type) issues.push('Missing TIN type');
+    if (!recipient.address || !recipient.city || !recipient.state || !recipient.zip) issues.push('Incomplete address');
+  }
+
+  return { recipient, netCents, status: issues.length > 0 ? 'needs_w9' : 'ready', issues };
+}
+
+export function toFirePayee({ recipient, netCents }: Form1099Assessment): FirePayee {
+  return {
+    tin: recipient.tax_id || '',
+    tinType: recipient.tax_id_type,
+    accountNumber: recipient.payee_id.replace(/-/g, '').slice(0, 20),
+    name: recipient.legal_name || recipient.payee_name,
+    secondName: recipient.business_name,
+    address: recipient.address || '',
+    city: recipient.city || '',
+    state: recipient.state || '',
+    zip: recipient.zip || '',
+    amountCents: netCents,
+  };
+}
+
+/** IRS FIRE file for every form that is ready to file */
+export function build1099File(
+  year: number,
+  filer: Form1099Filer,
+  assessments: Form1099Assessment[],
+  options: { test?: boolean } = {}
+): string {
+  const ready = assessments.filter(a => a.status === 'ready').map(toFirePayee);
+  return buildFireFile(year, filer.payer, filer.transmitter, ready, options);
+}
+
+function escapeHtml(text: string | null | undefined): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const money = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+/** Printable Copy B (For Recipient) statements, one page per recipient */
+export function render1099CopyB(year: number, payer: FirePayer, assessments: Form1099Assessment[]): string {
+  const payerBlock = [
+    payer.name,
+    payer.address,
+    [payer.city, payer.state, payer.zip].filter(Boolean).join(', '),
+    payer.phone,
+  ].filter(Boolean).map(escapeHtml).join('<br>');
+  const payerTin = (payer.tin || '').replace(/\D/g, '').replace(/^(\d{2})(\d{7})$/, '$1-$2');
+
+  const pages = assessments.map(({ recipient, netCents }) => {
+    const recipientName = [recipient.legal_name || recipient.payee_name, recipient.business_name]
+      .filter(Boolean).map(escapeHtml).join('<br>');
+    const recipientCity = [recipient.city, recipient.state, recipient.zip].filter(Boolean).join(', ');
+
+    return `
+  <section class="form">
+    <div class="title">
+      <div><strong>Form 1099-NEC</strong><br>Nonemployee Compensation</div>
+      <div class="year">${year}</div>
+      <div class="copy"><strong>Copy B</strong><br>For Recipient</div>
+    </div>
+    <table>
+      <tr>
+        <td rowspan="2" class="wide"><span class="label">PAYER'S name, street address, city or town, state, ZIP code, and telephone no.</span>${payerBlock}</td>
+        <td><span class="label">1 Nonemployee compensation</span><span class="amount">${money(netCents)}</span></td>
+      </tr>
+      <tr>
+        <td><span class="label">2 Payer made direct sales totaling $5,000 or more of consumer products to recipient for resale</span>&nbsp;</td>
+      </tr>
+      <tr>
+        <td><span class="label">PAYER'S TIN</span>${escapeHtml(payerTin)}</td>
+        <td><span class="label">4 Federal income tax withheld</span>$0.00</td>
+      </tr>
+      <tr>
+        <td><span class="label">RECIPIENT'S TIN</span>${escapeHtml(maskTin(recipient.tax_id))}</td>
+        <td rowspan="3"><span class="label">5&ndash;7 State tax withheld / State no. / State income</span>&nbsp;</td>
+      </tr>
+      <tr>
+        <td><span class="label">RECIPIENT'S name</span>${recipientName}</td>
+      </tr>
+      <tr>
+        <td><span class="label">Street address, city or town, state or province, country, and ZIP</span>${escapeHtml(recipient.address)}<br>${escapeHtml(recipientCity)}</td>
+      </tr>
+      <tr>
+        <td colspan="2"><span class="label">Account number</span>${escapeHtml(recipient.payee_id.replace(/-/g, '').slice(0, 20).toUpperCase())}</td>
+      </tr>
+    </table>
+    <p class="notice">
+      This is important tax information and is being furnished to the IRS. If you are required to file a return,
+      a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS
+      determines that it has not been reported.
+    </p>
+  </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${year} Form 1099-NEC Copy B</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 24px; }
+  .form { max-width: 760px; margin: 0 auto 32px; page-break-after: always; }
+  .title { display: flex; justify-content: space-between; align-items: center; border: 2px solid #111; border-bottom: 0; padding: 8px 12px; }
+  .year { font-size: 28px; font-weight: bold; }
+  .copy { text-align: right; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  td { border: 1px solid #111; padding: 6px 8px; vertical-align: top; width: 50%; }
+  td.wide { height: 110px; }
+  .label { display: block; font-size: 10px; color: #444; margin-bottom: 4px; }
+  .amount { font-size: 18px; font-weight: bold; }
+  .notice { font-size: 11px; color: #444; margin-top: 12px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>${pages}
+</body>
+</html>`;
+}
+
+class Form1099Service {
+  async getSummary(year: number): Promise<{ recipients: Form1099Recipient[]; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('get_1099_nec_summary', { p_year: year });
+
+      if (error) throw error;
+      return { recipients: data || [] };
+    } catch (error) {
+      console.error('Error loading 1099 summary:', error);
+      return { recipients: [], error: error instanceof Error ? error.message : 'Failed to load 1099 summary' };
+    }
+  }
+
+  /** Payer and transmitter details from the `tax` site settings */
+  async getFiler(): Promise<Form1099Filer> {
+    const settings = await siteSettingsService.getAllSettingsRaw();
+    const value = (key: string) => {
+      const row = settings.find(s => s.key === key);
+      return typeof row?.value === 'string' ? row.value : '';
+    };
+    return {
+      payer: {
+        name: value('tax_payer_name'),
+        tin: value('tax_payer_tin'),
+        address: value('tax_payer_address'),
+        city: value('tax_payer_city'),
+        state: value('tax_payer_state'),
+        zip: value('tax_payer_zip'),
+        phone: value('tax_payer_phone'),
+      },
+      transmitter: {
+        controlCode: value('tax_transmitter_control_code'),
+        contactName: value('tax_contact_name'),
+        contactEmail: value('tax_contact_email'),
+      },
+    };
+  }
+}
+
+export const form1099Service = new Form1099Service();
@@ -0,0 +1,310 @@
+import { supabase } from './supabase';
+import type { OrderItem } from './orderService';
+
+/** Reasons an admin can record; order movements are written by the database */
+export type ManualAdjustmentReason =
+  | 'received'
+  | 'count_correction'
+  | 'damaged'
+  | 'lost'
+  | 'returned'
+  | 'other';
+
+export type AdjustmentReason =
+  | ManualAdjustmentReason
+  | 'order_reserved'
+  | 'order_released'
+  | 'order_shipped';
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  received: 'Received',
+  count_correction: 'Count correction',
+  damaged: 'Damaged',
+  lost: 'Lost',
+  returned: 'Customer return',
+  other: 'Other',
+  order_reserved: 'Reserved for order',
+  order_released: 'Released from order',
+  order_shipped: 'Shipped',
+};
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  code: string;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface InventoryLevel {
+  id: string;
+  product_id: number;
+  warehouse_id: string;
+  on_hand: number;
+  reserved: number;
+  /** 0 disables the low-stock alert */
+  low_stock_threshold: number;
+  low_stock_alerted_at?: string | null;
+  updated_at?: string;
+  product_name?: string;
+  product_sku?: string | null;
+}
+
+export interface InventoryAdjustment {
+  id: string;
+  product_id: number;
+  warehouse_id: string;
+  /** Change to on-hand units */
+  quantity_change: number;
+  /** Change to reserved units */
+  reserved_change: number;
+  reason: AdjustmentReason;
+  order_id?: string | null;
+  note?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+/** One product's outcome from reserve_order_inventory */
+export interface ReservationLine {
+  product_id: number;
+  requested: number;
+  reserved: number;
+  backordered: number;
+}
+
+export interface ProductStock {
+  onHand: number;
+  reserved: number;
+  available: number;
+  lowStock: boolean;
+}
+
+export function availableQuantity(level: Pick<InventoryLevel, 'on_hand' | 'reserved'>): number {
+  return Math.max(0, level.on_hand - level.reserved);
+}
+
+export function isLowStock(level: Pick<InventoryLevel, 'on_hand' | 'reserved' | 'low_stock_threshold'>): boolean {
+  return level.low_stock_threshold > 0 && availableQuantity(level) <= level.low_stock_threshold;
+}
+
+/**
+ * Stock per product across warehouses. A product is low on stock when any
+ * of its warehouses is at or below its own threshold.
+ */
+export function summarizeStock(levels: InventoryLevel[]): Map<number, ProductStock> {
+  const summary = new Map<number, ProductStock>();
+  for (const level of levels) {
+    const current = summary.get(level.product_id) || { onHand: 0, reserved: 0, available: 0, lowStock: false };
+    summary.set(level.product_id, {
+      onHand: current.onHand + level.on_hand,
+      reserved: current.reserved + level.reserved,
+      available: current.available + availableQuantity(level),
+      lowStock: current.lowStock || isLowStock(level),
+    });
+  }
+  return summary;
+}
+
+/**
+ * Mark the order lines a reservation could not cover, mirroring what
+ * reserve_order_inventory writes to the order.
+ */
+export function flagBackorderedItems(
+  items: OrderItem[],
+  lines: ReservationLine[]
+): { items: OrderItem[]; backordered: { productId: number; quantity: number }[] } {
+  const short = new Map(
+    lines.filter(l => l.backordered > 0).map(l => [l.product_id, l.backordered])
+  );
+
+  return {
+    items: items.map(item => {
+      const quantity = short.get(item.productId);
+      if (!quantity) return clearBackorderFlag(item);
+      return { ...item, backorder: true, backorderQuantity: Math.min(item.quantity, quantity) };
+    }),
+    backordered: [...short].map(([productId, quantity]) => ({ productId, quantity })),
+  };
+}
+
+/** An order line without the stock shortfall flags, e.g. once it has been split off. */
+export function clearBackorderFlag(item: OrderItem): OrderItem {
+  const cleared = { ...item };
+  delete cleared.backorder;
+  delete cleared.backorderQuantity;
+  return cleared;
+}
+
+type SaveResult = { success: boolean; error?: string };
+
+class InventoryService {
+  async getWarehouses(): Promise<Warehouse[]> {
+    try {
+      const { data, error } = await supabase
+        .from('warehouses')
+        .select('id, name, code, is_default, is_active')
+        .order('is_default', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching warehouses:', error);
+      return [];
+    }
+  }
+
+  async saveWarehouse(warehouse: Omit<Warehouse, 'id' | 'is_default'> & { id?: string }): Promise<SaveResult> {
+    try {
+      const { id, ...fields } = warehouse;
+      const payload = { ...fields, code: fields.code.trim().toUpperCase() };
+      const { error } = id
+        ? await supabase.from('warehouses').update(payload).eq('id', id)
+        : await supabase.from('warehouses').insert(payload);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.code === '23505' ? 'A warehouse with that code already exists' : error.message,
+        };
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving warehouse:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save warehouse' };
+    }
+  }
+
+  /** Stock levels for every tracked product and warehouse, with product names. */
+  async getLevels(): Promise<InventoryLevel[]> {
+    try {
+      const { data, error } = await supabase
+        .from('inventory_levels')
+        .select('id, product_id, warehouse_id, on_hand, reserved, low_stock_threshold, low_stock_alerted_at, updated_at, products(name, sku)')
+        .order('product_id');
+
+      if (error) throw error;
+
+      return (data || []).map(row => {
+        // Many-to-one embeds come back as an object, but are typed as an array
+        const product = row.products as unknown as { name: string; sku: string | null } | null;
+        return {
+          id: row.id,
+          product_id: row.product_id,
+          warehouse_id: row.warehouse_id,
+          on_hand: row.on_hand,
+          reserved: row.reserved,
+          low_stock_threshold: row.low_stock_threshold,
+          low_stock_alerted_at: row.low_stock_alerted_at,
+          updated_at: row.updated_at,
+          product_name: product?.name,
+          product_sku: product?.sku,
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching inventory levels:', error);
+      return [];
+    }
+  }
+
+  async getStockByProduct(productIds: number[]): Promise<Map<number, ProductStock>> {
+    if (productIds.length === 0) return new Map();
+
+    try {
+      const { data, error } = await supabase
+        .from('inventory_levels')
+        .select('id, product_id, warehouse_id, on_hand, reserved, low_stock_threshold')
+        .in('product_id', productIds);
+
+      if (error) throw error;
+      return summarizeStock(data || []);
+    } catch (error) {
+      console.error('Error fetching product stock:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Record a stock movement (positive receives, negative removes). Goes
+   * through adjust_inventory so the ledger entry and the level change
+   * happen together. The default warehouse is used when none is given.
+   */
+  async adjustStock(adjustment: {
+    productId: number;
+    quantityChange: number;
+    reason: ManualAdjustmentReason;
+    note?: string;
+    warehouseId?: string;
+  }): Promise<SaveResult> {
+    try {
+      const { error } = await supabase.rpc('adjust_inventory', {
+        p_product_id: adjustment.productId,
+        p_quantity_change: adjustment.quantityChange,
+        p_reason: adjustment.reason,
+        p_note: adjustment.note?.trim() || null,
+        p_warehouse_id: adjustment.warehouseId || null,
+      });
+
+      if (error) return { success: false, error: error.message };
+      return { success: true };
+    } catch (error) {
+      console.error('Error adjusting inventory:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to adjust inventory' };
+    }
+  }
+
+  async setLowStockThreshold(levelId: string, threshold: number): Promise<SaveResult> {
+    try {
+      const { error } = await supabase
+        .from('inventory_levels')
+        .update({ low_stock_threshold: Math.max(0, Math.floor(threshold)) })
+        .eq('id', levelId);
+
+      if (error) return { success: false, error: error.message };
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating low stock threshold:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update threshold' };
+    }
+  }
+
+  async getAdjustments(productId?: number, limit = 100): Promise<InventoryAdjustment[]> {
+    try {
+      let query = supabase
+        .from('inventory_adjustments')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (productId) {
+        query = query.eq('product_id', productId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching inventory adjustments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Reserve stock for a newly placed order. Lines that cannot be covered
+   * are flagged on the order by the database; release on cancel or refund
+   * and consumption on shipment are handled by a trigger on orders.
+   */
+  async reserveForOrder(orderId: string): Promise<{ lines: ReservationLine[]; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('reserve_order_inventory', { p_order_id: orderId });
+      if (error) throw error;
+      return { lines: (data || []) as ReservationLine[] };
+    } catch (error) {
+      console.error('Error reserving inventory:', error);
+      return { lines: [], error: error instanceof Error ? error.message : 'Failed to reserve inventory' };
+    }
+  }
+}
+
+export const inventoryService = new InventoryService();
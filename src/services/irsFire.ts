@@ -0,0 +1,188 @@
+/**
+ * IRS FIRE file builder for Form 1099-NEC (Publication 1220 layout).
+ *
+ * One transmitter (T), one payer (A), a payee (B) record per recipient,
+ * the payer's end-of-payer (C) and the end-of-transmission (F) record.
+ * Records are 750 characters, the last two being CR/LF. Positions below
+ * are 1-based to match the publication.
+ */
+
+export interface FirePayer {
+  name: string;
+  /** Payer EIN, 9 digits */
+  tin: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+}
+
+export interface FireTransmitter {
+  /** 5-character Transmitter Control Code issued by the IRS */
+  controlCode: string;
+  contactName: string;
+  contactEmail: string;
+}
+
+export interface FirePayee {
+  tin: string;
+  tinType: 'ein' | 'ssn' | null;
+  /** Our account number for the payee, kept stable for corrections */
+  accountNumber: string;
+  name: string;
+  /** DBA or business name, printed on the second name line */
+  secondName?: string | null;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  /** Box 1, nonemployee compensation */
+  amountCents: number;
+}
+
+export interface FireOptions {
+  /** Marks the file as a test submission */
+  test?: boolean;
+}
+
+const RECORD_LENGTH = 750;
+const CONTENT_LENGTH = RECORD_LENGTH - 2;
+const AMOUNT_FIELDS = 16;
+
+function alpha(value: string | null | undefined, length: number): string {
+  const clean = (value || '')
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7E]/g, '')
+    .toUpperCase();
+  return clean.slice(0, length).padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, '');
+  return digits.slice(-length).padStart(length, '0');
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  return (value || '').replace(/\D/g, '');
+}
+
+/** Places each [position, value] into a blank record and appends CR/LF */
+function record(fields: Array<[number, string]>): string {
+  const chars = Array<string>(CONTENT_LENGTH).fill(' ');
+  for (const [position, value] of fields) {
+    if (position < 1 || position - 1 + value.length > CONTENT_LENGTH) {
+      throw new Error(`Field at position ${position} overruns the record`);
+    }
+    for (let i = 0; i < value.length; i++) chars[position - 1 + i] = value[i];
+  }
+  return chars.join('') + '\r\n';
+}
+
+function amounts(firstAmountCents: number, width: number): string {
+  return numeric(firstAmountCents, width) + '0'.repeat(width * (AMOUNT_FIELDS - 1));
+}
+
+export function buildFireFile(
+  year: number,
+  payer: FirePayer,
+  transmitter: FireTransmitter,
+  payees: FirePayee[],
+  options: FireOptions = {}
+): string {
+  const payerTin = digitsOnly(payer.tin);
+  if (payerTin.length !== 9) {
+    throw new Error('The payer EIN must be 9 digits');
+  }
+  if (!/^[A-Z0-9]{5}$/i.test(transmitter.controlCode.trim())) {
+    throw new Error('A 5-character Transmitter Control Code is required');
+  }
+  if (payees.length === 0) {
+    throw new Error('There are no 1099-NEC forms to file');
+  }
+  for (const payee of payees) {
+    if (digitsOnly(payee.tin).length !== 9) {
+      throw new Error(`TIN for ${payee.name} must be 9 digits`);
+    }
+    if (!Number.isInteger(payee.amountCents) || payee.amountCents <= 0) {
+      throw new Error(`Amount for ${payee.name} must be positive`);
+    }
+  }
+
+  let sequence = 0;
+  const seq = () => numeric(++sequence, 8);
+  const lines: string[] = [];
+
+  lines.push(record([
+    [1, 'T'],
+    [2, numeric(year, 4)],
+    [7, numeric(payerTin, 9)],
+    [16, alpha(transmitter.controlCode, 5)],
+    [28, options.test ? 'T' : ' '],
+    [30, alpha(payer.name, 40)],
+    [110, alpha(payer.name, 40)],
+    [190, alpha(payer.address, 40)],
+    [230, alpha(payer.city, 40)],
+    [270, alpha(payer.state, 2)],
+    [272, alpha(digitsOnly(payer.zip), 9)],
+    [296, numeric(payees.length, 8)],
+    [304, alpha(transmitter.contactName, 40)],
+    [344, alpha(digitsOnly(payer.phone), 15)],
+    [359, (transmitter.contactEmail || '').slice(0, 50).padEnd(50, ' ')],
+    [500, seq()],
+    [518, 'I'],
+  ]));
+
+  lines.push(record([
+    [1, 'A'],
+    [2, numeric(year, 4)],
+    [12, numeric(payerTin, 9)],
+    [26, 'NE'],
+    [28, alpha('1', 18)],
+    [53, alpha(payer.name, 40)],
+    [133, '0'],
+    [134, alpha(payer.address, 40)],
+    [174, alpha(payer.city, 40)],
+    [214, alpha(payer.state, 2)],
+    [216, alpha(digitsOnly(payer.zip), 9)],
+    [225, alpha(digitsOnly(payer.phone), 15)],
+    [500, seq()],
+  ]));
+
+  let total = 0;
+  for (const payee of payees) {
+    total += payee.amountCents;
+    lines.push(record([
+      [1, 'B'],
+      [2, numeric(year, 4)],
+      [11, payee.tinType === 'ein' ? '1' : payee.tinType === 'ssn' ? '2' : ' '],
+      [12, numeric(payee.tin, 9)],
+      [21, alpha(payee.accountNumber, 20)],
+      [55, amounts(payee.amountCents, 12)],
+      [248, alpha(payee.name, 40)],
+      [288, alpha(payee.secondName, 40)],
+      [328, alpha(payee.address, 40)],
+      [408, alpha(payee.city, 40)],
+      [448, alpha(payee.state, 2)],
+      [450, alpha(digitsOnly(payee.zip), 9)],
+      [500, seq()],
+    ]));
+  }
+
+  lines.push(record([
+    [1, 'C'],
+    [2, numeric(payees.length, 8)],
+    [16, amounts(total, 18)],
+    [500, seq()],
+  ]));
+
+  lines.push(record([
+    [1, 'F'],
+    [2, numeric(1, 8)],
+    [10, '0'.repeat(21)],
+    [50, numeric(payees.length, 8)],
+    [500, seq()],
+  ]));
+
+  return lines.join('');
+}
@@ -0,0 +1,191 @@
+/**
+ * NACHA (ACH) file builder for outgoing credits.
+ *
+ * Produces a single PPD batch of credits-only entries (service class 220),
+ * which is what banks expect for payroll-style payouts. Every record is
+ * 94 characters and the file is padded with 9-filler records to a multiple
+ * of ten lines.
+ */
+
+export interface NachaOriginator {
+  /** Company name on the batch, as it appears on the payee's statement */
+  companyName: string;
+  /** Company identification assigned by the bank, usually "1" + EIN */
+  companyId: string;
+  /** Routing number of the originating bank (ODFI) */
+  odfiRouting: string;
+  odfiName: string;
+}
+
+export interface NachaCredit {
+  name: string;
+  routingNumber: string;
+  accountNumber: string;
+  accountType: 'checking' | 'savings';
+  amountCents: number;
+  /** Our reference for the payee, printed as the individual ID */
+  individualId: string;
+}
+
+export interface NachaOptions {
+  /** Date the bank should settle the entries */
+  effectiveDate: Date;
+  createdAt?: Date;
+  /** Shown on the payee's bank statement, 10 characters max */
+  description?: string;
+  fileIdModifier?: string;
+}
+
+const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+const CHECKING_CREDIT = '22';
+const SAVINGS_CREDIT = '32';
+
+/** ABA routing number check: weights 3, 7, 1 must sum to a multiple of 10 */
+export function isValidRoutingNumber(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) return false;
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = routing.split('').reduce((acc, digit, i) => acc + Number(digit) * weights[i], 0);
+  return sum % 10 === 0;
+}
+
+function alpha(value: string, length: number): string {
+  const clean = value
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7E]/g, '')
+    .toUpperCase();
+  return clean.slice(0, length).padEnd(length, ' ');
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, '');
+  return digits.slice(-length).padStart(length, '0');
+}
+
+function yymmdd(date: Date): string {
+  return [date.getFullYear() % 100, date.getMonth() + 1, date.getDate()]
+    .map(n => String(n).padStart(2, '0'))
+    .join('');
+}
+
+function record(...fields: string[]): string {
+  const line = fields.join('');
+  if (line.length !== RECORD_LENGTH) {
+    throw new Error(`NACHA record is ${line.length} characters, expected ${RECORD_LENGTH}`);
+  }
+  return line;
+}
+
+export function buildNachaFile(
+  originator: NachaOriginator,
+  credits: NachaCredit[],
+  options: NachaOptions
+): string {
+  if (!isValidRoutingNumber(originator.odfiRouting)) {
+    throw new Error('The originating bank routing number is not valid');
+  }
+  if (!originator.companyId.trim()) {
+    throw new Error('An ACH company ID is required');
+  }
+  if (credits.length === 0) {
+    throw new Error('There are no ACH payments to export');
+  }
+  for (const credit of credits) {
+    if (!isValidRoutingNumber(credit.routingNumber)) {
+      throw new Error(`Routing number for ${credit.name} is not valid`);
+    }
+    if (!Number.isInteger(credit.amountCents) || credit.amountCents <= 0) {
+      throw new Error(`Payment amount for ${credit.name} must be positive`);
+    }
+  }
+
+  const createdAt = options.createdAt || new Date();
+  const odfi8 = originator.odfiRouting.slice(0, 8);
+  const companyId = alpha(originator.companyId, 10);
+  const batchNumber = numeric(1, 7);
+
+  const lines: string[] = [];
+
+  // File header
+  lines.push(record(
+    '1', '01',
+    ' ' + originator.odfiRouting,
+    alpha(originator.companyId, 10),
+    yymmdd(createdAt),
+    String(createdAt.getHours()).padStart(2, '0') + String(createdAt.getMinutes()).padStart(2, '0'),
+    alpha(options.fileIdModifier || 'A', 1),
+    '094', numeric(BLOCKING_FACTOR, 2), '1',
+    alpha(originator.odfiName, 23),
+    alpha(originator.companyName, 23),
+    alpha('', 8)
+  ));
+
+  // Batch header
+  lines.push(record(
+    '5', '220',
+    alpha(originator.companyName, 16),
+    alpha('', 20),
+    companyId,
+    'PPD',
+    alpha(options.description || 'COMMISSION', 10),
+    yymmdd(createdAt),
+    yymmdd(options.effectiveDate),
+    '   ', '1',
+    odfi8,
+    batchNumber
+  ));
+
+  let entryHash = 0;
+  let totalCredit = 0;
+  credits.forEach((credit, i) => {
+    entryHash += Number(credit.routingNumber.slice(0, 8));
+    totalCredit += credit.amountCents;
+    lines.push(record(
+      '6',
+      credit.accountType === 'savings' ? SAVINGS_CREDIT : CHECKING_CREDIT,
+      credit.routingNumber,
+      alpha(credit.accountNumber, 17),
+      numeric(credit.amountCents, 10),
+      alpha(credit.individualId, 15),
+      alpha(credit.name, 22),
+      '  ', '0',
+      odfi8 + numeric(i + 1, 7)
+    ));
+  });
+
+  const hash = numeric(entryHash, 10);
+
+  // Batch control
+  lines.push(record(
+    '8', '220',
+    numeric(credits.length, 6),
+    hash,
+    numeric(0, 12),
+    numeric(totalCredit, 12),
+    companyId,
+    alpha('', 19), alpha('', 6),
+    odfi8,
+    batchNumber
+  ));
+
+  const recordCount = lines.length + 1;
+  const blockCount = Math.ceil(recordCount / BLOCKING_FACTOR);
+
+  // File control
+  lines.push(record(
+    '9',
+    numeric(1, 6),
+    numeric(blockCount, 6),
+    numeric(credits.length, 8),
+    hash,
+    numeric(0, 12),
+    numeric(totalCredit, 12),
+    alpha('', 39)
+  ));
+
+  while (lines.length % BLOCKING_FACTOR !== 0) {
+    lines.push('9'.repeat(RECORD_LENGTH));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -1,15 +1,26 @@
 import { supabase } from './supabase';
-import { quickbooksPayments } from './quickbooks';
+import { quickbooksPayments, quickbooksSyncQueue } from './quickbooks';
+import { syncJobKey, type RefundJobPayload, type RefundRecordOptions } from './quickbooks/syncQueue';
 import { activityLogService } from './activityLog';
-import { commissionService } from './commissionService';
+import type { AdjustmentSource, RefundedLine } from './commissionAdjustments';
 import { emailService } from './emailService';
+import { inventoryService, flagBackorderedItems, clearBackorderFlag } from './inventory';
 
 export interface RefundOptions {
   amount?: number;
   includeShipping?: boolean;
+  /** Cancel the commission outright; only honoured for a full refund of an unpaid commission */
   cancelCommission?: boolean;
+  /** Record a prorated clawback against the commission payees */
+  clawbackCommission?: boolean;
+  /** Lines being refunded; the clawback follows these rather than the amount */
+  lines?: RefundedLine[];
+  /** What the clawback is recorded against; returns refund only what came back */
+  source?: Exclude<AdjustmentSource, 'manual'>;
   reason?: string;
   refundedBy?: string;
+  /** Return request this refund settles; marked refunded with it */
+  returnId?: string;
 }
 
 export interface OrderItem {
@@ -22,8 +33,16 @@ export interface OrderItem {
   image?: string;
   hasMarkup?: boolean;
   backorder?: boolean;
+  /** Units of this line stock could not cover when the order was placed */
+  backorderQuantity?: number;
   backorder_reason?: string;
   brand?: string;
+  taxable?: boolean;
+  tax?: number;
+  /** Contract that set the price, e.g. 'location'; copied to commission line items */
+  pricingSource?: string;
+  /** This line's share of the discount code, for the whole line (not per unit) */
+  discount?: number;
 }
 
 export interface Address {
@@ -57,6 +76,35 @@ export interface CreateOrderData {
   paymentAuthorizationId?: string;
   paymentMethod?: string;
   paymentLastFour?: string;
+  /** Customer purchase order number; required when paymentMethod is 'invoice' */
+  poNumber?: string;
+  taxRate?: number;
+  taxExempt?: boolean;
+  taxDetails?: Record<string, unknown>;
+  /** Total discount code savings, including any shipping discount */
+  discount?: number;
+  discountCode?: string;
+  discountCodeId?: string;
+  /** Display name of the shipping method, e.g. "Express Shipping" */
+  shippingMethod?: string;
+  shippingMethodId?: string;
+  /** Quote being accepted; the database locks the prices and credits its rep */
+  quoteId?: string;
+}
+
+/** Sum of the successful refunds among an order's payment transactions */
+export function refundedTotal(
+  transactions: Array<{ transaction_type: string; status: string; amount: number | string | null }>
+): number {
+  const sum = transactions
+    .filter(tx => tx.transaction_type === 'refund' && tx.status === 'success')
+    .reduce((total, tx) => total + (Number(tx.amount) || 0), 0);
+  return Math.round(sum * 100) / 100;
+}
+
+/** What can still be refunded on an order after earlier refunds */
+export function refundableBalance(orderTotal: number, alreadyRefunded: number): number {
+  return Math.max(0, Math.round((Number(orderTotal) - alreadyRefunded) * 100) / 100);
 }
 
 interface Order {
@@ -67,6 +115,9 @@ interface Order {
   subtotal: number;
   tax: number;
   shipping: number;
+  discount?: number;
+  discount_code?: string;
+  discount_code_id?: string;
   total: number;
   currency: string;
   items: OrderItem[];
@@ -84,6 +135,11 @@ interface Order {
   order_type?: string;
   payment_status?: string;
   payment_authorization_id?: string;
+  payment_method?: string;
+  po_number?: string;
+  payment_terms?: string;
+  invoice_due_date?: string;
+  quickbooks_invoice_id?: string;
   payment_captured_at?: string;
   shipped_at?: string;
   backorder_reason?: string;
@@ -92,12 +148,78 @@ interface Order {
   is_test_order?: boolean;
 }
 
+/** RefundOptions as record_order_refund() takes them */
+function refundRecordOptions(options: RefundOptions): RefundRecordOptions {
+  return {
+    reason: options.reason,
+    include_shipping: options.includeShipping,
+    cancel_commission: options.cancelCommission,
+    clawback_commission: options.clawbackCommission,
+    lines: options.lines,
+    source: options.source,
+    refunded_by: options.refundedBy,
+    return_id: options.returnId,
+  };
+}
+
+/**
+ * How a backorder split or vendor sub-order is paid: the same way as the
+ * order it came from, so an invoice order's items stay on its PO, terms and
+ * due date (and on its open invoice balance) wherever they ship from. Once
+ * that order is invoiced the split is on the same QuickBooks invoice, and is
+ * settled when it is paid.
+ */
+function inheritedPaymentFields(order: Order) {
+  return {
+    payment_status: order.payment_status,
+    payment_authorization_id: order.payment_authorization_id,
+    payment_method: order.payment_method ?? null,
+    po_number: order.po_number ?? null,
+    payment_terms: order.payment_terms ?? null,
+    invoice_due_date: order.invoice_due_date ?? null,
+    quickbooks_invoice_id: order.quickbooks_invoice_id ?? null,
+  };
+}
+
+/** Part of a line moved to another order, taking its share of the line's discount */
+function lineWithQuantity(item: OrderItem, quantity: number): OrderItem {
+  return item.discount && item.quantity > 0
+    ? { ...item, quantity, discount: item.discount * quantity / item.quantity }
+    : { ...item, quantity };
+}
+
+/**
+ * The discount an order split off `order` carries for `items`: the lines' own
+ * discount shares, plus a subtotal share of the savings not on any line (the
+ * shipping discount, or an order placed before lines carried shares). The
+ * parts of a split add up to the order's discount.
+ */
+function splitDiscount(
+  order: Pick<Order, 'discount' | 'subtotal' | 'items'>,
+  items: OrderItem[]
+): number {
+  const lineDiscounts = (lines: OrderItem[]) =>
+    lines.reduce((sum, item) => sum + (Number(item.discount) || 0), 0);
+  const unallocated = Math.max(0, (Number(order.discount) || 0) - lineDiscounts(order.items));
+  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const share = order.subtotal > 0 ? unallocated * subtotal / order.subtotal : 0;
+  return lineDiscounts(items) + share;
+}
+
+/** The discount code a split keeps, so reports still attribute its savings */
+function inheritedDiscountFields(order: Order) {
+  return {
+    discount_code: order.discount_code ?? null,
+    discount_code_id: order.discount_code_id ?? null,
+  };
+}
+
 class OrderService {
   async createOrder(data: CreateOrderData): Promise<{ order: Order | null; error?: string }> {
     try {
       let salesRepId = null;
 
-      if (data.organizationId) {
+      if (data.organizationId && !data.quoteId) {
         const { data: orgData, error: orgError } = await supabase
           .from('organizations')
           .select('default_sales_rep_id, is_house_account')
@@ -108,11 +230,16 @@ class OrderService {
           salesRepId = orgData.default_sales_rep_id;
 
           if (!salesRepId) {
+            // Same pick as the commission trigger: the longest-standing
+            // active rep. Territory assignment sets default_sales_rep_id, so
+            // this only applies to organizations assigned by hand.
             const { data: salesRepData } = await supabase
               .from('organization_sales_reps')
               .select('sales_rep_id')
               .eq('organization_id', data.organizationId)
               .eq('is_active', true)
+              .order('created_at', { ascending: true })
+              .limit(1)
               .maybeSingle();
 
             if (salesRepData) {
@@ -151,6 +278,15 @@ class OrderService {
           payment_authorization_id: data.paymentAuthorizationId || null,
           payment_method: data.paymentMethod || null,
           payment_last_four: data.paymentLastFour || null,
+          po_number: data.poNumber?.trim() || null,
+          tax_rate: data.taxRate ?? null,
+          tax_exempt: data.taxExempt || false,
+          tax_details: data.taxDetails || null,
+          discount: data.discount || 0,
+          discount_code: data.discountCode || null,
+          discount_code_id: data.discountCodeId || null,
+          shipping_method: data.shippingMethodId || null,
+          quote_id: data.quoteId || null,
         })
         .select()
         .single();
@@ -175,6 +311,24 @@ class OrderService {
         return { order: null, error: error.message };
       }
 
+      // Reserve stock; lines it cannot cover are flagged for backorder.
+      // An inventory failure must not lose an order that is already placed.
+      const reservation = await inventoryService.reserveForOrder(order.id);
+      if (!reservation.error) {
+        const { items, backordered } = flagBackorderedItems(order.items || data.items, reservation.lines);
+        order.items = items;
+
+        if (backordered.length > 0) {
+          activityLogService.logAction({
+            userId: data.userId,
+            action: 'order_backordered',
+            resourceType: 'order',
+            resourceId: order.id,
+            details: { backordered },
+          });
+        }
+      }
+
       // Log the order placement
       activityLogService.logAction({
         userId: data.userId,
@@ -200,7 +354,7 @@ class OrderService {
           items: data.items.map(i => ({ name: i.name, quantity: i.quantity, price: i.price })),
           subtotal: data.subtotal,
           shipping: data.shipping,
-          shipping_method: (data as Record<string, unknown>).shippingMethod || 'Standard',
+          shipping_method: data.shippingMethod || 'Standard',
           tax: data.tax,
           total: data.total,
           customer_email: data.customerEmail,
@@ -252,6 +406,8 @@ class OrderService {
         return { success: false, error: error.message };
       }
 
+      // Reserved stock is released by the handle_order_inventory trigger
+
       // Auto-void authorized payment (best-effort, don't block cancellation)
       if (order.payment_status === 'authorized') {
         const voidResult = await this.voidPayment(orderId);
@@ -359,7 +515,7 @@ class OrderService {
         if (order) {
           const newShipping = updates.shipping ?? order.shipping;
           const newTax = updates.tax ?? order.tax;
-          updateData.total = order.subtotal + newTax + newShipping;
+          updateData.total = order.subtotal - (Number(order.discount) || 0) + newTax + newShipping;
         }
       }
 
@@ -527,9 +683,9 @@ class OrderService {
       const availableItems = originalOrder.items.filter(
         item => !backorderedItemIds.includes(item.productId)
       );
-      const backorderedItems = originalOrder.items.filter(
-        item => backorderedItemIds.includes(item.productId)
-      );
+      const backorderedItems = originalOrder.items
+        .filter(item => backorderedItemIds.includes(item.productId))
+        .map(item => ({ ...clearBackorderFlag(item), backorder: true }));
 
       if (backorderedItems.length === 0) {
         return {
@@ -549,6 +705,8 @@ class OrderService {
       const availableShipping = availableSubtotal * shippingRatio;
       const backorderTax = backorderSubtotal * taxRatio;
       const backorderShipping = backorderSubtotal * shippingRatio;
+      const availableDiscount = splitDiscount(originalOrder, availableItems);
+      const backorderDiscount = splitDiscount(originalOrder, backorderedItems);
 
       const { data: updatedOriginal, error: updateError } = await supabase
         .from('orders')
@@ -557,7 +715,8 @@ class OrderService {
           subtotal: availableSubtotal,
           tax: availableTax,
           shipping: availableShipping,
-          total: availableSubtotal + availableTax + availableShipping,
+          discount: availableDiscount,
+          total: availableSubtotal - availableDiscount + availableTax + availableShipping,
           order_type: 'partial',
           updated_at: new Date().toISOString()
         })
@@ -583,7 +742,8 @@ class OrderService {
           subtotal: backorderSubtotal,
           tax: backorderTax,
           shipping: backorderShipping,
-          total: backorderSubtotal + backorderTax + backorderShipping,
+          discount: backorderDiscount,
+          total: backorderSubtotal - backorderDiscount + backorderTax + backorderShipping,
           currency: originalOrder.currency,
           items: backorderedItems,
           shipping_address: originalOrder.shipping_address,
@@ -593,8 +753,8 @@ class OrderService {
           location_id: originalOrder.location_id,
           parent_order_id: originalOrder.parent_order_id || orderId,
           split_from_order_id: orderId,
-          payment_status: originalOrder.payment_status,
-          payment_authorization_id: originalOrder.payment_authorization_id,
+          ...inheritedPaymentFields(originalOrder),
+          ...inheritedDiscountFields(originalOrder),
           vendor_brand: vendorBrand,
           notes: `Backordered items from order ${originalOrder.order_number || orderId}`
         })
@@ -652,15 +812,18 @@ class OrderService {
           const remainingQty = item.quantity - backorderQty;
 
           if (remainingQty > 0) {
-            updatedOriginalItems.push({
-              ...item,
-              quantity: remainingQty
-            });
+            // Keep flagging whatever stock still cannot cover
+            const stillShort = (item.backorderQuantity || 0) - backorderQty;
+            updatedOriginalItems.push(
+              stillShort > 0
+                ? { ...lineWithQuantity(item, remainingQty), backorderQuantity: Math.min(stillShort, remainingQty) }
+                : lineWithQuantity(clearBackorderFlag(item), remainingQty)
+            );
           }
 
           backorderItemsList.push({
-            ...item,
-            quantity: backorderQty
+            ...lineWithQuantity(clearBackorderFlag(item), backorderQty),
+            backorder: true
           });
         } else {
           updatedOriginalItems.push(item);
@@ -685,6 +848,8 @@ class OrderService {
       const availableShipping = availableSubtotal * shippingRatio;
       const backorderTax = backorderSubtotal * taxRatio;
       const backorderShipping = backorderSubtotal * shippingRatio;
+      const availableDiscount = splitDiscount(originalOrder, updatedOriginalItems);
+      const backorderDiscount = splitDiscount(originalOrder, backorderItemsList);
 
       const { data: updatedOriginal, error: updateError } = await supabase
         .from('orders')
@@ -693,7 +858,8 @@ class OrderService {
           subtotal: availableSubtotal,
           tax: availableTax,
           shipping: availableShipping,
-          total: availableSubtotal + availableTax + availableShipping,
+          discount: availableDiscount,
+          total: availableSubtotal - availableDiscount + availableTax + availableShipping,
           order_type: 'partial',
           updated_at: new Date().toISOString()
         })
@@ -719,7 +885,8 @@ class OrderService {
           subtotal: backorderSubtotal,
           tax: backorderTax,
           shipping: backorderShipping,
-          total: backorderSubtotal + backorderTax + backorderShipping,
+          discount: backorderDiscount,
+          total: backorderSubtotal - backorderDiscount + backorderTax + backorderShipping,
           currency: originalOrder.currency,
           items: backorderItemsList,
           shipping_address: originalOrder.shipping_address,
@@ -729,8 +896,8 @@ class OrderService {
           location_id: originalOrder.location_id,
           parent_order_id: originalOrder.parent_order_id || orderId,
           split_from_order_id: orderId,
-          payment_status: originalOrder.payment_status,
-          payment_authorization_id: originalOrder.payment_authorization_id,
+          ...inheritedPaymentFields(originalOrder),
+          ...inheritedDiscountFields(originalOrder),
           vendor_brand: vendorBrand,
           notes: `Backordered items from order ${originalOrder.order_number || orderId}`
         })
@@ -937,6 +1104,19 @@ class OrderService {
     }
   }
 
+  /** Total of the successful refunds on an order so far */
+  async getRefundedAmount(orderId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('transaction_type, status, amount')
+      .eq('order_id', orderId)
+      .eq('transaction_type', 'refund')
+      .eq('status', 'success');
+
+    if (error) throw error;
+    return refundedTotal(data || []);
+  }
+
   async voidPayment(orderId: string): Promise<{ success: boolean; error?: string }> {
     try {
       const { order, error: fetchError } = await this.getOrderById(orderId);
@@ -1009,30 +1189,47 @@ class OrderService {
         return { success: false, error: fetchError || 'Order not found' };
       }
 
-      if (order.payment_status !== 'captured') {
+      // A partially refunded order can be refunded again, e.g. for a second return
+      if (order.payment_status !== 'captured' && order.payment_status !== 'partially_refunded') {
         return { success: false, error: 'Only captured payments can be refunded' };
       }
 
-      // Calculate refund amount
-      let refundAmount: number;
-      if (options.amount !== undefined) {
-        refundAmount = options.amount;
-      } else if (options.includeShipping) {
-        refundAmount = Number(order.total);
-      } else {
-        // Default full refund includes shipping
-        refundAmount = Number(order.total);
+      // Earlier refunds, including returns, come off what is left to refund
+      const alreadyRefunded = await this.getRefundedAmount(orderId);
+      const remaining = refundableBalance(Number(order.total), alreadyRefunded);
+      if (remaining <= 0) {
+        return { success: false, error: 'This order has already been refunded in full' };
+      }
+
+      // Default is the full remaining amount, shipping included
+      const refundAmount = options.amount !== undefined ? Math.round(options.amount * 100) / 100 : remaining;
+      if (!(refundAmount > 0)) {
+        return { success: false, error: 'Refund amount must be greater than zero' };
+      }
+      if (refundAmount > remaining) {
+        return { success: false, error: `Refund exceeds the $${remaining.toFixed(2)} left to refund on this order` };
       }
 
-      const isPartial = refundAmount < Number(order.total);
       const authId = order.payment_authorization_id;
+      const record = refundRecordOptions(options);
 
       if (authId && !authId.startsWith('auth_') && !authId.startsWith('saved_')) {
+        // A refund that failed earlier is still being retried by the sync
+        // worker; refunding again here could refund the customer twice.
+        if (await quickbooksSyncQueue.hasOpenJob('refund', orderId)) {
+          return { success: false, error: 'A refund for this order is already queued for retry' };
+        }
+
+        // The same Request-Id is reused if the refund is retried, so
+        // QuickBooks applies it at most once
+        const requestId = crypto.randomUUID();
+        record.request_id = requestId;
+        const isECheck = authId.toLowerCase().startsWith('e') || authId.toLowerCase().includes('ech');
         try {
-          if (authId.toLowerCase().startsWith('e') || authId.toLowerCase().includes('ech')) {
-            await quickbooksPayments.refundECheck(authId, refundAmount);
+          if (isECheck) {
+            await quickbooksPayments.refundECheck(authId, refundAmount, undefined, requestId);
           } else {
-            await quickbooksPayments.refundCharge(authId, refundAmount);
+            await quickbooksPayments.refundCharge(authId, refundAmount, undefined, requestId);
           }
         } catch (refundError: any) {
           console.error('QB Payments refund failed:', refundError);
@@ -1045,67 +1242,43 @@ class OrderService {
             transactionId: authId || 'unknown',
             amount: refundAmount,
           });
+
+          // The worker books the refund the same way once a retry goes through
+          const payload: RefundJobPayload = {
+            authorization_id: authId,
+            request_id: requestId,
+            amount: refundAmount,
+            echeck: isECheck,
+            record,
+          };
+          const jobId = await quickbooksSyncQueue.enqueue(
+            'refund',
+            orderId,
+            syncJobKey('refund', orderId, requestId),
+            { ...payload }
+          );
+          if (jobId) {
+            return {
+              success: false,
+              error: `Payment refund failed: ${refundError.message}. It has been queued and will be retried automatically; do not refund again.`
+            };
+          }
           return { success: false, error: `Payment refund failed: ${refundError.message}` };
         }
       }
 
-      const newStatus = isPartial ? 'partially_refunded' : 'refunded';
-      const result = await this.updatePaymentStatus(orderId, newStatus);
-      if (!result.success) {
-        return result;
-      }
-
-      const reasonNote = options.reason ? ` | Reason: ${options.reason}` : '';
-      const shippingNote = options.includeShipping ? ' (includes shipping)' : '';
-      await this.logTransaction(orderId, 'refund', refundAmount, 'success', authId || undefined, authId?.slice(-4));
-      await this.logPaymentEvent(orderId, {
-        event: isPartial ? 'payment_partially_refunded' : 'payment_refunded',
-        status: newStatus,
-        method: 'QuickBooks Payments',
-        lastFour: authId?.slice(-4) || '----',
-        transactionId: authId || 'none',
-        amount: refundAmount,
+      // Status, transaction, notes, commission and the settled return in one
+      // transaction, shared with refunds retried by the sync worker
+      const { error: recordError } = await supabase.rpc('record_order_refund', {
+        p_order_id: orderId,
+        p_amount: refundAmount,
+        p_authorization_id: authId || null,
+        p_options: record,
       });
 
-      // Append reason to order notes
-      if (options.reason || shippingNote) {
-        const { data: currentOrder } = await supabase
-          .from('orders')
-          .select('notes')
-          .eq('id', orderId)
-          .single();
-
-        const timestamp = new Date().toISOString();
-        const refundNote = `[${timestamp}] Refund $${refundAmount.toFixed(2)}${shippingNote}${reasonNote}`;
-        await supabase
-          .from('orders')
-          .update({ notes: (currentOrder?.notes ? currentOrder.notes + '\n' : '') + refundNote })
-          .eq('id', orderId);
-      }
-
-      // Handle commission cancellation
-      if (options.cancelCommission) {
-        try {
-          const { data: commission } = await supabase
-            .from('commissions')
-            .select('id, status')
-            .eq('order_id', orderId)
-            .maybeSingle();
-
-          if (commission && commission.status !== 'paid' && commission.status !== 'cancelled') {
-            const cancelReason = isPartial
-              ? `Partial refund of $${refundAmount.toFixed(2)} on order`
-              : `Full refund of $${refundAmount.toFixed(2)} on order`;
-            await commissionService.cancelCommission(
-              commission.id,
-              cancelReason,
-              options.refundedBy || 'system'
-            );
-          }
-        } catch (commError) {
-          console.warn('Failed to cancel commission during refund:', commError);
-          // Don't fail the refund if commission cancel fails
-        }
+      if (recordError) {
+        console.error('Error recording refund:', recordError);
+        return { success: false, error: `The refund went through but could not be recorded: ${recordError.message}` };
       }
 
       return { success: true };
@@ -1223,6 +1396,7 @@ class OrderService {
         const shippingRatio = originalOrder.subtotal > 0 ? originalOrder.shipping / originalOrder.subtotal : 0;
         const brandTax = brandSubtotal * taxRatio;
         const brandShipping = brandSubtotal * shippingRatio;
+        const brandDiscount = splitDiscount(originalOrder, items);
 
         const { data: subOrder, error: subOrderError } = await supabase
           .from('orders')
@@ -1236,7 +1410,8 @@ class OrderService {
             subtotal: brandSubtotal,
             tax: brandTax,
             shipping: brandShipping,
-            total: brandSubtotal + brandTax + brandShipping,
+            discount: brandDiscount,
+            total: brandSubtotal - brandDiscount + brandTax + brandShipping,
             currency: originalOrder.currency,
             items: items,
             shipping_address: originalOrder.shipping_address,
@@ -1245,8 +1420,8 @@ class OrderService {
             organization_id: originalOrder.organization_id,
             location_id: originalOrder.location_id,
             parent_order_id: orderId,
-            payment_status: originalOrder.payment_status,
-            payment_authorization_id: originalOrder.payment_authorization_id,
+            ...inheritedPaymentFields(originalOrder),
+            ...inheritedDiscountFields(originalOrder),
             notes: `Vendor sub-order for ${brand} from order ${originalOrder.order_number || orderId}`
           })
           .select()
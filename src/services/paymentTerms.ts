@@ -0,0 +1,127 @@
+import { supabase } from './supabase';
+
+export type PaymentTerms = 'due_on_receipt' | 'net_15' | 'net_30' | 'net_45' | 'net_60' | 'net_90';
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+  due_on_receipt: 'Due on Receipt',
+  net_15: 'Net 15',
+  net_30: 'Net 30',
+  net_45: 'Net 45',
+  net_60: 'Net 60',
+  net_90: 'Net 90',
+};
+
+const TERMS_DAYS: Record<PaymentTerms, number> = {
+  due_on_receipt: 0,
+  net_15: 15,
+  net_30: 30,
+  net_45: 45,
+  net_60: 60,
+  net_90: 90,
+};
+
+/** Used when an invoice is raised for an order that carries no terms */
+export const DEFAULT_TERMS_DAYS = 30;
+
+export interface OrganizationCredit {
+  paymentTerms: PaymentTerms | null;
+  /** null means no limit */
+  creditLimit: number | null;
+  openBalance: number;
+  /** null means no limit */
+  availableCredit: number | null;
+}
+
+export function isPaymentTerms(value: unknown): value is PaymentTerms {
+  return typeof value === 'string' && value in TERMS_DAYS;
+}
+
+export function termsDays(terms: string | null | undefined): number {
+  return isPaymentTerms(terms) ? TERMS_DAYS[terms] : DEFAULT_TERMS_DAYS;
+}
+
+/** Due date (YYYY-MM-DD) for an invoice on the given terms. Mirrors payment_terms_days in SQL. */
+export function invoiceDueDate(terms: string | null | undefined, from: Date = new Date()): string {
+  const due = new Date(from);
+  due.setDate(due.getDate() + termsDays(terms));
+  return due.toISOString().split('T')[0];
+}
+
+export function availableCredit(creditLimit: number | null, openBalance: number): number | null {
+  if (creditLimit == null) return null;
+  return Math.max(0, Math.round((creditLimit - openBalance) * 100) / 100);
+}
+
+/**
+ * Amount an organization owes on open invoice orders. Mirrors
+ * organization_open_invoice_balance in SQL: vendor sub-orders are left out
+ * because their parent order still carries the amount.
+ */
+export function openInvoiceBalance(orders: Array<{
+  payment_method?: string | null;
+  status?: string | null;
+  payment_status?: string | null;
+  is_sub_order?: boolean | null;
+  is_test_order?: boolean | null;
+  total: number | string;
+}>): number {
+  const sum = orders
+    .filter(order =>
+      order.payment_method === 'invoice' &&
+      order.status !== 'cancelled' &&
+      !['captured', 'refunded', 'cancelled', 'failed'].includes(order.payment_status || '') &&
+      !order.is_sub_order &&
+      !order.is_test_order
+    )
+    .reduce((total, order) => total + (Number(order.total) || 0), 0);
+  return Math.round(sum * 100) / 100;
+}
+
+/**
+ * Why an order of this total cannot be paid by invoice, or null when it can.
+ * The enforce_invoice_terms trigger applies the same rules when the order is
+ * inserted; this only lets checkout say so up front.
+ */
+export function invoiceBlockReason(total: number, credit: OrganizationCredit | null): string | null {
+  if (!credit?.paymentTerms) {
+    return 'This organization is not set up to pay by invoice';
+  }
+  if (credit.availableCredit != null && total > credit.availableCredit) {
+    return `Order total $${total.toFixed(2)} exceeds the available credit of $${credit.availableCredit.toFixed(2)}`;
+  }
+  return null;
+}
+
+class PaymentTermsService {
+  async getOrganizationCredit(organizationId: string): Promise<OrganizationCredit | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_organization_credit', { p_organization_id: organizationId })
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const row = data as {
+        payment_terms: string | null;
+        credit_limit: number | string | null;
+        open_balance: number | string;
+        available_credit: number | string | null;
+      };
+      const creditLimit = row.credit_limit != null ? Number(row.credit_limit) : null;
+      const openBalance = Number(row.open_balance || 0);
+
+      return {
+        paymentTerms: isPaymentTerms(row.payment_terms) ? row.payment_terms : null,
+        creditLimit,
+        openBalance,
+        availableCredit: availableCredit(creditLimit, openBalance),
+      };
+    } catch (error) {
+      console.error('Error fetching organization credit:', error);
+      return null;
+    }
+  }
+}
+
+export const paymentTermsService = new PaymentTermsService();
@@ -0,0 +1,136 @@
+/**
+ * Quantity-break ladders for contract pricing.
+ *
+ * A ladder is the set of contract_pricing rows for one entity + product,
+ * each covering a min_quantity..max_quantity range (null max = and up).
+ * The database rejects overlapping ranges; these helpers build, validate
+ * and evaluate ladders on the client.
+ */
+
+export interface QuantityTier {
+  min_quantity?: number | null;
+  max_quantity?: number | null;
+  contract_price?: number | null;
+  markup_price?: number | null;
+}
+
+export interface PriceTierInput {
+  minQuantity: number;
+  maxQuantity?: number;
+  contractPrice?: number;
+  markupPrice?: number;
+  effectiveDate?: string;
+  expiryDate?: string;
+}
+
+export interface PriceBreak {
+  minQuantity: number;
+  quantityNeeded: number;
+  price: number;
+}
+
+/** Selling price of a tier: markup price when set, otherwise contract price. */
+export function getTierPrice(tier: QuantityTier): number | null {
+  const price = tier.markup_price || tier.contract_price;
+  return price === null || price === undefined ? null : price;
+}
+
+/**
+ * The tier covering a quantity. If ranges overlap (legacy data), the tier
+ * with the highest min_quantity wins.
+ */
+export function findTierForQuantity<T extends QuantityTier>(tiers: T[], quantity: number): T | null {
+  let best: T | null = null;
+
+  for (const tier of tiers) {
+    const min = tier.min_quantity || 1;
+    const max = tier.max_quantity || Infinity;
+    if (quantity < min || quantity > max) continue;
+    if (!best || min > (best.min_quantity || 1)) {
+      best = tier;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The next cheaper break above the current quantity, for "buy N more to
+ * save" prompts. currentPrice is what the buyer pays now (tier or retail).
+ */
+export function findNextPriceBreak(
+  tiers: QuantityTier[],
+  quantity: number,
+  currentPrice: number
+): PriceBreak | null {
+  const upcoming = tiers
+    .filter(t => (t.min_quantity || 1) > quantity)
+    .sort((a, b) => (a.min_quantity || 1) - (b.min_quantity || 1));
+
+  for (const tier of upcoming) {
+    const price = getTierPrice(tier);
+    if (price !== null && price < currentPrice) {
+      const minQuantity = tier.min_quantity || 1;
+      return { minQuantity, quantityNeeded: minQuantity - quantity, price };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turn a list of "from quantity" breaks into a gap-free ladder: each tier
+ * runs up to one below the next tier's minimum and the last is open-ended.
+ */
+export function buildTierLadder(tiers: PriceTierInput[]): { tiers: PriceTierInput[]; error?: string } {
+  if (tiers.length === 0) {
+    return { tiers: [], error: 'Add at least one price tier' };
+  }
+
+  const sorted = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const tier = sorted[i];
+    if (!Number.isInteger(tier.minQuantity) || tier.minQuantity < 1) {
+      return { tiers: [], error: 'Tier quantities must be whole numbers of 1 or more' };
+    }
+    if (i > 0 && tier.minQuantity === sorted[i - 1].minQuantity) {
+      return { tiers: [], error: `Two tiers start at quantity ${tier.minQuantity}` };
+    }
+    if (tier.contractPrice === undefined && tier.markupPrice === undefined) {
+      return { tiers: [], error: `Tier starting at ${tier.minQuantity} needs a price` };
+    }
+  }
+
+  return {
+    tiers: sorted.map((tier, i) => ({
+      ...tier,
+      maxQuantity: i < sorted.length - 1 ? sorted[i + 1].minQuantity - 1 : undefined,
+    })),
+  };
+}
+
+/**
+ * Check an explicit ladder (e.g. from a CSV) for overlapping ranges.
+ * Returns a message for the first overlap found, or null.
+ */
+export function findLadderOverlap(tiers: PriceTierInput[]): string | null {
+  const sorted = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const prevMax = prev.maxQuantity ?? Infinity;
+    if (sorted[i].minQuantity <= prevMax) {
+      const range = `${prev.minQuantity}-${prev.maxQuantity ?? '+'}`;
+      return `Quantity ${sorted[i].minQuantity} overlaps the ${range} tier`;
+    }
+  }
+
+  return null;
+}
+
+/** "1-9", "10-49", "50+" */
+export function formatTierRange(tier: QuantityTier): string {
+  const min = tier.min_quantity || 1;
+  return tier.max_quantity ? `${min}-${tier.max_quantity}` : `${min}+`;
+}
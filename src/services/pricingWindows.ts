@@ -0,0 +1,90 @@
+/**
+ * Effective/expiry windows for contract pricing.
+ *
+ * Every contract_pricing row applies from effective_date until expiry_date
+ * (null = no end). Several ladders can exist for one entity + product as
+ * long as their windows do not overlap, which is how a future price change
+ * is scheduled. These helpers classify and plan windows on the client.
+ */
+
+export type PricingWindowStatus = 'upcoming' | 'active' | 'expired';
+
+export interface PricingWindow {
+  effective_date?: string | null;
+  expiry_date?: string | null;
+}
+
+export interface ExistingPricingWindow extends PricingWindow {
+  id: string;
+}
+
+/** How far ahead of expiry a contract price counts as "expiring soon". */
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOf(window: PricingWindow): number {
+  return window.effective_date ? new Date(window.effective_date).getTime() : -Infinity;
+}
+
+function endOf(window: PricingWindow): number {
+  return window.expiry_date ? new Date(window.expiry_date).getTime() : Infinity;
+}
+
+/** Whether a price applies now, starts later, or has lapsed. */
+export function getPricingWindowStatus(window: PricingWindow, now: Date = new Date()): PricingWindowStatus {
+  const time = now.getTime();
+  if (startOf(window) > time) return 'upcoming';
+  if (endOf(window) < time) return 'expired';
+  return 'active';
+}
+
+/** An active price whose expiry date falls within the next `days` days. */
+export function isExpiringSoon(
+  window: PricingWindow,
+  now: Date = new Date(),
+  days: number = EXPIRY_WARNING_DAYS
+): boolean {
+  if (getPricingWindowStatus(window, now) !== 'active') return false;
+  return endOf(window) - now.getTime() <= days * DAY_MS;
+}
+
+/** Windows are half-open: a price expiring at T does not overlap one starting at T. */
+export function windowsOverlap(a: PricingWindow, b: PricingWindow): boolean {
+  return startOf(a) < endOf(b) && startOf(b) < endOf(a);
+}
+
+/**
+ * Work out what has to happen to the existing rows before a new ladder can
+ * be saved for the same entity + product. Rows outside the new window are
+ * left alone. When the new ladder starts in the future, rows already in
+ * force are cut off at its start so the current price runs until the
+ * scheduled change; every other overlapping row is replaced. Rows listed in
+ * replaceIds (the ladder being edited) are always removed.
+ */
+export function planLadderReplacement(
+  existing: ExistingPricingWindow[],
+  window: PricingWindow,
+  replaceIds: string[] = [],
+  now: Date = new Date()
+): { truncate: string[]; remove: string[] } {
+  const truncate: string[] = [];
+  const remove: string[] = [];
+  const start = startOf(window);
+  const scheduled = start > now.getTime();
+
+  for (const row of existing) {
+    if (replaceIds.includes(row.id)) {
+      remove.push(row.id);
+      continue;
+    }
+    if (!windowsOverlap(row, window)) continue;
+    if (scheduled && startOf(row) < start) {
+      truncate.push(row.id);
+    } else {
+      remove.push(row.id);
+    }
+  }
+
+  return { truncate, remove };
+}
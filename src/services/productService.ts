@@ -51,6 +51,102 @@ export interface Brand {
   isActive: boolean;
 }
 
+export interface CatalogSearchParams {
+  query?: string;
+  /** Includes the category's subcategories */
+  categoryId?: string;
+  brandIds?: string[];
+  /** Inclusive */
+  minPrice?: number | null;
+  /** Exclusive; null for no upper bound */
+  maxPrice?: number | null;
+  contractOnly?: boolean;
+  /** Organization whose contract pricing the contract facet counts */
+  organizationId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PriceBand {
+  min: number;
+  max: number | null;
+}
+
+export interface CatalogFacets {
+  /** Product count per category id, excluding subcategories */
+  categories: Record<string, number>;
+  brands: Array<{ id: string; name: string; count: number }>;
+  priceBands: Array<PriceBand & { count: number }>;
+  contractPriced: number;
+}
+
+export interface CatalogSearchResult {
+  products: Product[];
+  total: number;
+  facets: CatalogFacets;
+}
+
+export const CATALOG_PAGE_SIZE = 24;
+
+export function formatPriceBand(band: PriceBand): string {
+  if (band.min <= 0 && band.max !== null) return `Under $${band.max}`;
+  if (band.max === null) return `$${band.min}+`;
+  return `$${band.min} – $${band.max}`;
+}
+
+/** Adds each category's subcategory counts to its own */
+export function rollUpCategoryCounts(tree: Category[], counts: Record<string, number>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  const visit = (category: Category): number => {
+    const total = (counts[category.id] || 0) + (category.children || []).reduce((sum, child) => sum + visit(child), 0);
+    totals[category.id] = total;
+    return total;
+  };
+  tree.forEach(visit);
+  return totals;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** URL slug for /products/:slug; products without a slug use their id */
+export function productSlug(product: Pick<Product, 'id' | 'slug'>): string {
+  return product.slug || String(product.id);
+}
+
+/** URL slug for /category/:slug; categories without a slug use their name */
+export function categorySlug(category: Pick<Category, 'name' | 'slug'>): string {
+  return category.slug || slugify(category.name);
+}
+
+export function findProductBySlug<T extends Pick<Product, 'id' | 'slug'>>(products: T[], slug: string): T | undefined {
+  return products.find(p => p.slug === slug) || products.find(p => String(p.id) === slug);
+}
+
+/** Finds a category anywhere in the tree by slug */
+export function findCategoryBySlug(tree: Category[], slug: string): Category | undefined {
+  for (const category of tree) {
+    if (categorySlug(category) === slug) return category;
+    const child = findCategoryBySlug(category.children || [], slug);
+    if (child) return child;
+  }
+  return undefined;
+}
+
+/** Finds a category anywhere in the tree by name */
+export function findCategoryByName(tree: Category[], name: string): Category | undefined {
+  for (const category of tree) {
+    if (category.name === name) return category;
+    const child = findCategoryByName(category.children || [], name);
+    if (child) return child;
+  }
+  return undefined;
+}
+
 interface DBProduct {
   id: number;
   name: string;
@@ -149,6 +245,47 @@ class ProductService {
     return (data || []).map(mapDBProduct);
   }
 
+  /**
+   * Ranked, paginated search over active products with facet counts.
+   * Matches name, SKU, brand, description, benefits and reference fields,
+   * and tolerates small typos.
+   */
+  async searchProducts(params: CatalogSearchParams): Promise<CatalogSearchResult> {
+    const pageSize = params.pageSize || CATALOG_PAGE_SIZE;
+    const { data, error } = await supabase.rpc('search_products', {
+      p_query: params.query?.trim() || null,
+      p_category_id: params.categoryId || null,
+      p_brand_ids: params.brandIds?.length ? params.brandIds : null,
+      p_min_price: params.minPrice ?? null,
+      p_max_price: params.maxPrice ?? null,
+      p_contract_only: !!params.contractOnly,
+      p_organization_id: params.organizationId || null,
+      p_limit: pageSize,
+      p_offset: (params.page || 0) * pageSize,
+    });
+
+    if (error || !data) {
+      console.error('Error searching products:', error);
+      return { products: [], total: 0, facets: { categories: {}, brands: [], priceBands: [], contractPriced: 0 } };
+    }
+
+    const facets = data.facets || {};
+    return {
+      products: (data.products || []).map(mapDBProduct),
+      total: Number(data.total) || 0,
+      facets: {
+        categories: facets.categories || {},
+        brands: (facets.brands || []).map((b: { id: string; name: string; count: number }) => ({ ...b, count: Number(b.count) })),
+        priceBands: (facets.price_bands || []).map((b: { min: number; max: number | null; count: number }) => ({
+          min: Number(b.min),
+          max: b.max === null ? null : Number(b.max),
+          count: Number(b.count),
+        })),
+        contractPriced: Number(facets.contract_priced) || 0,
+      },
+    };
+  }
+
   async getProductById(id: number): Promise<Product | null> {
     const { data, error } = await supabase
       .from('products')
@@ -0,0 +1,361 @@
+import { supabase } from './supabase';
+import type { OrderItem } from './orderService';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  product_id: number;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost?: number | null;
+  product_name?: string;
+  product_sku?: string | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  vendor_brand: string;
+  brand_id?: string | null;
+  warehouse_id?: string | null;
+  status: PurchaseOrderStatus;
+  expected_date?: string | null;
+  notes?: string | null;
+  sent_at?: string | null;
+  received_at?: string | null;
+  created_at: string;
+  updated_at?: string;
+  lines: PurchaseOrderLine[];
+  /** Backorder orders this PO was raised for */
+  order_ids: string[];
+}
+
+/** A backorder order as read for replenishment */
+export interface BackorderedOrder {
+  id: string;
+  order_number?: string | null;
+  created_at: string;
+  items: OrderItem[];
+}
+
+export interface ReplenishmentProduct {
+  id: number;
+  name: string;
+  sku?: string | null;
+  cost?: number | null;
+  brandId?: string | null;
+  brandName?: string | null;
+}
+
+export interface ReplenishmentLine {
+  productId: number;
+  name: string;
+  sku?: string | null;
+  quantity: number;
+  unitCost: number | null;
+}
+
+/** Backordered demand for one vendor brand, ready to become a purchase order */
+export interface ReplenishmentGroup {
+  vendorBrand: string;
+  brandId: string | null;
+  lines: ReplenishmentLine[];
+  orderIds: string[];
+}
+
+export const UNKNOWN_VENDOR = 'Unknown';
+
+/**
+ * Group the lines of backorder orders by vendor brand, totalling each
+ * product. The product's catalog brand wins over the brand copied onto the
+ * order line, which may be stale.
+ */
+export function groupBackorderedLines(
+  orders: BackorderedOrder[],
+  products: Map<number, ReplenishmentProduct>
+): ReplenishmentGroup[] {
+  const groups = new Map<string, ReplenishmentGroup & { byProduct: Map<number, ReplenishmentLine> }>();
+
+  for (const order of orders) {
+    for (const item of order.items || []) {
+      if (!item.quantity || item.quantity <= 0) continue;
+
+      const product = products.get(item.productId);
+      const vendorBrand = product?.brandName || item.brand || UNKNOWN_VENDOR;
+
+      let group = groups.get(vendorBrand);
+      if (!group) {
+        group = { vendorBrand, brandId: product?.brandId || null, lines: [], orderIds: [], byProduct: new Map() };
+        groups.set(vendorBrand, group);
+      }
+      if (!group.orderIds.includes(order.id)) group.orderIds.push(order.id);
+
+      const line = group.byProduct.get(item.productId);
+      if (line) {
+        line.quantity += item.quantity;
+      } else {
+        group.byProduct.set(item.productId, {
+          productId: item.productId,
+          name: product?.name || item.name,
+          sku: product?.sku,
+          quantity: item.quantity,
+          unitCost: product?.cost ?? item.cost ?? null,
+        });
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ byProduct, ...group }) => ({
+      ...group,
+      lines: [...byProduct.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => a.vendorBrand.localeCompare(b.vendorBrand));
+}
+
+export function purchaseOrderTotal(lines: Pick<PurchaseOrderLine, 'quantity_ordered' | 'unit_cost'>[]): number {
+  return Math.round(lines.reduce((sum, l) => sum + l.quantity_ordered * Number(l.unit_cost || 0), 0) * 100) / 100;
+}
+
+export function outstandingQuantity(line: Pick<PurchaseOrderLine, 'quantity_ordered' | 'quantity_received'>): number {
+  return Math.max(0, line.quantity_ordered - line.quantity_received);
+}
+
+export function canReceive(status: PurchaseOrderStatus): boolean {
+  return status === 'draft' || status === 'sent' || status === 'partially_received';
+}
+
+type SaveResult = { success: boolean; error?: string };
+
+interface PurchaseOrderRow extends Omit<PurchaseOrder, 'lines' | 'order_ids'> {
+  purchase_order_lines: (Omit<PurchaseOrderLine, 'product_name' | 'product_sku'> & { products: unknown })[];
+  purchase_order_orders: { order_id: string }[];
+}
+
+function mapPurchaseOrder(row: PurchaseOrderRow): PurchaseOrder {
+  const { purchase_order_lines, purchase_order_orders, ...po } = row;
+  return {
+    ...po,
+    lines: (purchase_order_lines || []).map(({ products, ...line }) => {
+      // Many-to-one embeds come back as an object, but are typed as an array
+      const product = products as { name: string; sku: string | null } | null;
+      return {
+        ...line,
+        unit_cost: line.unit_cost != null ? Number(line.unit_cost) : null,
+        product_name: product?.name,
+        product_sku: product?.sku,
+      };
+    }),
+    order_ids: (purchase_order_orders || []).map(link => link.order_id),
+  };
+}
+
+const PURCHASE_ORDER_SELECT = `
+  *,
+  purchase_order_lines(id, purchase_order_id, product_id, quantity_ordered, quantity_received, unit_cost, products(name, sku)),
+  purchase_order_orders(order_id)
+`;
+
+class PurchaseOrderService {
+  async getPurchaseOrders(): Promise<PurchaseOrder[]> {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(PURCHASE_ORDER_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => mapPurchaseOrder(row as PurchaseOrderRow));
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Backordered demand not yet covered by an open purchase order, grouped
+   * by vendor brand.
+   */
+  async getReplenishmentNeeds(): Promise<ReplenishmentGroup[]> {
+    try {
+      const [ordersRes, linksRes] = await Promise.all([
+        supabase
+          .from('orders')
+          .select('id, order_number, created_at, items')
+          .eq('status', 'backorder')
+          .order('created_at'),
+        supabase
+          .from('purchase_order_orders')
+          .select('order_id, purchase_orders!inner(status)')
+          .neq('purchase_orders.status', 'cancelled'),
+      ]);
+
+      if (ordersRes.error) throw ordersRes.error;
+      if (linksRes.error) throw linksRes.error;
+
+      const covered = new Set((linksRes.data || []).map(link => link.order_id as string));
+      const orders = ((ordersRes.data || []) as BackorderedOrder[]).filter(o => !covered.has(o.id));
+      if (orders.length === 0) return [];
+
+      const productIds = [...new Set(orders.flatMap(o => (o.items || []).map(i => i.productId)))];
+      const { data: productRows, error: productError } = await supabase
+        .from('products')
+        .select('id, name, sku, cost, brand_id, brands(name)')
+        .in('id', productIds);
+
+      if (productError) throw productError;
+
+      const products = new Map<number, ReplenishmentProduct>(
+        (productRows || []).map(p => {
+          const brand = p.brands as unknown as { name: string } | null;
+          return [p.id as number, {
+            id: p.id,
+            name: p.name,
+            sku: p.sku,
+            cost: p.cost != null ? Number(p.cost) : null,
+            brandId: p.brand_id,
+            brandName: brand?.name,
+          }];
+        })
+      );
+
+      return groupBackorderedLines(orders, products);
+    } catch (error) {
+      console.error('Error loading backordered demand:', error);
+      return [];
+    }
+  }
+
+  /** Create a draft purchase order for one vendor's backordered demand. */
+  async createFromGroup(
+    group: ReplenishmentGroup,
+    options: { warehouseId?: string; expectedDate?: string; notes?: string } = {}
+  ): Promise<{ purchaseOrder: PurchaseOrder | null; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: po, error } = await supabase
+        .from('purchase_orders')
+        .insert({
+          vendor_brand: group.vendorBrand,
+          brand_id: group.brandId,
+          warehouse_id: options.warehouseId || null,
+          expected_date: options.expectedDate || null,
+          notes: options.notes?.trim() || null,
+          created_by: user?.id || null,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: lineError } = await supabase
+        .from('purchase_order_lines')
+        .insert(group.lines.map(line => ({
+          purchase_order_id: po.id,
+          product_id: line.productId,
+          quantity_ordered: line.quantity,
+          unit_cost: line.unitCost,
+        })));
+
+      if (lineError) {
+        await supabase.from('purchase_orders').delete().eq('id', po.id);
+        throw lineError;
+      }
+
+      if (group.orderIds.length > 0) {
+        const { error: linkError } = await supabase
+          .from('purchase_order_orders')
+          .insert(group.orderIds.map(orderId => ({ purchase_order_id: po.id, order_id: orderId })));
+
+        if (linkError) console.warn('Failed to link backorders to purchase order:', linkError);
+      }
+
+      const { data: created, error: fetchError } = await supabase
+        .from('purchase_orders')
+        .select(PURCHASE_ORDER_SELECT)
+        .eq('id', po.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      return { purchaseOrder: mapPurchaseOrder(created as PurchaseOrderRow) };
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+      return {
+        purchaseOrder: null,
+        error: error instanceof Error ? error.message : 'Failed to create purchase order',
+      };
+    }
+  }
+
+  /** Change the quantity or cost of a line while the PO is still a draft or sent. */
+  async updateLine(lineId: string, changes: { quantity_ordered?: number; unit_cost?: number | null }): Promise<SaveResult> {
+    try {
+      const { error } = await supabase.from('purchase_order_lines').update(changes).eq('id', lineId);
+      if (error) return { success: false, error: error.message };
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating purchase order line:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update line' };
+    }
+  }
+
+  async markSent(id: string): Promise<SaveResult> {
+    return this.setStatus(id, 'sent', { sent_at: new Date().toISOString() });
+  }
+
+  async cancel(id: string): Promise<SaveResult> {
+    return this.setStatus(id, 'cancelled');
+  }
+
+  /**
+   * Receive quantities against PO lines into a warehouse. Backorders
+   * linked to the PO that can now be filled move to processing.
+   */
+  async receive(
+    purchaseOrderId: string,
+    receipts: { lineId: string; quantity: number }[],
+    warehouseId?: string
+  ): Promise<{ success: boolean; received?: number; releasedOrderIds?: string[]; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('receive_purchase_order', {
+        p_purchase_order_id: purchaseOrderId,
+        p_receipts: receipts
+          .filter(r => r.quantity > 0)
+          .map(r => ({ line_id: r.lineId, quantity: Math.floor(r.quantity) })),
+        p_warehouse_id: warehouseId || null,
+      });
+
+      if (error) return { success: false, error: error.message };
+
+      const result = data as { received: number; released_order_ids: string[] };
+      return { success: true, received: result.received, releasedOrderIds: result.released_order_ids || [] };
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to receive purchase order' };
+    }
+  }
+
+  private async setStatus(
+    id: string,
+    status: PurchaseOrderStatus,
+    extra: Record<string, unknown> = {}
+  ): Promise<SaveResult> {
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status, ...extra, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) return { success: false, error: error.message };
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update purchase order' };
+    }
+  }
+}
+
+export const purchaseOrderService = new PurchaseOrderService();
@@ -28,7 +28,8 @@ export class QuickBooksClient {
     method: string = 'GET',
     data?: any,
     usePaymentsAPI = false,
-    isQuery = false
+    isQuery = false,
+    requestId?: string
   ): Promise<T> {
     const headers = await getAuthHeaders();
 
@@ -40,7 +41,8 @@ export class QuickBooksClient {
         method,
         data,
         usePaymentsAPI,
-        isQuery
+        isQuery,
+        requestId
       })
     });
 
@@ -80,8 +82,9 @@ export class QuickBooksClient {
     return this.proxyRequest<T>(endpoint, 'GET', undefined, usePaymentsAPI);
   }
 
-  async post<T>(endpoint: string, body: any, usePaymentsAPI = false): Promise<T> {
-    return this.proxyRequest<T>(endpoint, 'POST', body, usePaymentsAPI);
+  /** `requestId` is sent as the Payments API Request-Id so a retried call is not applied twice */
+  async post<T>(endpoint: string, body: any, usePaymentsAPI = false, requestId?: string): Promise<T> {
+    return this.proxyRequest<T>(endpoint, 'POST', body, usePaymentsAPI, false, requestId);
   }
 
   async put<T>(endpoint: string, body: any, usePaymentsAPI = false): Promise<T> {
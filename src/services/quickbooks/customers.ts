@@ -1,7 +1,8 @@
 import { qbClient } from './client';
+import { quickbooksSyncQueue, syncJobKey } from './syncQueue';
 import { supabase } from '../supabase';
 
-interface QBCustomer {
+export interface QBCustomer {
   Id?: string;
   DisplayName: string;
   CompanyName?: string;
@@ -22,6 +23,8 @@ interface QBCustomer {
   Notes?: string;
   Active?: boolean;
   SyncToken?: string;
+  /** Only the fields sent are changed on update */
+  sparse?: boolean;
 }
 
 interface QBCustomerResponse {
@@ -141,6 +144,11 @@ export const quickbooksCustomers = {
         undefined,
         error.message
       );
+      await quickbooksSyncQueue.enqueue(
+        'customer',
+        organizationId,
+        syncJobKey('customer', organizationId, String(Date.now()))
+      );
       throw error;
     }
   },
@@ -189,9 +197,16 @@ export const quickbooksCustomers = {
    * Used to import QB customers as organizations in the app.
    */
   async fetchAllCustomers(): Promise<QBCustomer[]> {
-    const customers = await qbClient.query<QBCustomer>(
-      "SELECT * FROM Customer WHERE Active = true MAXRESULTS 1000"
-    );
+    // QuickBooks returns at most 1000 rows per query, so page through
+    const pageSize = 1000;
+    const customers: QBCustomer[] = [];
+    for (let start = 1; ; start += pageSize) {
+      const page = await qbClient.query<QBCustomer>(
+        `SELECT * FROM Customer WHERE Active = true STARTPOSITION ${start} MAXRESULTS ${pageSize}`
+      );
+      customers.push(...page);
+      if (page.length < pageSize) break;
+    }
     return customers;
   },
 
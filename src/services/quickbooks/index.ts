@@ -2,7 +2,10 @@ export { quickbooksOAuth } from './oauth';
 export { qbClient, QuickBooksClient } from './client';
 export { quickbooksCustomers } from './customers';
 export { quickbooksInvoices } from './invoices';
+export { quickbooksItems } from './items';
 export { quickbooksPayments } from './payments';
+export { quickbooksSyncQueue } from './syncQueue';
+export { quickbooksReconciliation } from './reconciliation';
 
 export type { TokenResponse, QBConnectionStatus } from './oauth';
 export type {
@@ -13,3 +16,7 @@ export type {
   QBDeviceInfo,
   QBPaymentContext,
 } from './payments';
+export type { QBItem, QBItemType } from './items';
+export type { QBCustomer } from './customers';
+export type { ReconciliationReport, ReconcileMatch, ReconcileField, ReconcileSide } from './reconciliation';
+export type { QBSyncJob, QBSyncJobStatus, QBSyncJobType, RefundJobPayload } from './syncQueue';
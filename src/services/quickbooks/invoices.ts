@@ -1,8 +1,11 @@
 import { qbClient } from './client';
 import { quickbooksCustomers } from './customers';
+import { quickbooksItems, GENERIC_ITEM_REF } from './items';
+import { quickbooksSyncQueue, syncJobKey } from './syncQueue';
 import { supabase } from '../supabase';
+import { termsDays } from '../paymentTerms';
 
-interface QBInvoiceLine {
+interface QBSalesItemLine {
   DetailType: 'SalesItemLineDetail';
   Amount: number;
   SalesItemLineDetail: {
@@ -19,6 +22,69 @@ interface QBInvoiceLine {
   Description?: string;
 }
 
+interface QBDiscountLine {
+  DetailType: 'DiscountLineDetail';
+  Amount: number;
+  DiscountLineDetail: {
+    PercentBased: false;
+  };
+  Description?: string;
+}
+
+export type QBInvoiceLine = QBSalesItemLine | QBDiscountLine;
+
+export interface InvoiceSourceItem {
+  productId: number;
+  name: string;
+  sku?: string;
+  quantity: number;
+  price: number;
+  subtotal?: number;
+  taxable?: boolean;
+  /** The line's share of the discount code, for the whole line */
+  discount?: number;
+}
+
+/**
+ * Invoice lines for an order: one per item at its pre-discount price, then
+ * the discount code as a single discount line so the invoice comes to what
+ * the customer owes. The sync worker builds the same lines.
+ */
+export function buildInvoiceLines(
+  items: InvoiceSourceItem[],
+  itemRefs: Map<number, string>,
+  discountCode?: string | null
+): QBInvoiceLine[] {
+  const lines: QBInvoiceLine[] = items.map(item => {
+    const itemId = itemRefs.get(Number(item.productId));
+    return {
+      DetailType: 'SalesItemLineDetail',
+      Amount: Number(item.subtotal || (item.quantity * item.price)),
+      SalesItemLineDetail: {
+        ItemRef: itemId ? { value: itemId } : GENERIC_ITEM_REF,
+        Qty: item.quantity,
+        UnitPrice: Number(item.price),
+        TaxCodeRef: {
+          value: item.taxable ? 'TAX' : 'NON'
+        }
+      },
+      Description: `${item.name}${item.sku ? ` (SKU: ${item.sku})` : ''}`
+    };
+  });
+
+  const discount = Math.round(items.reduce((sum, item) => sum + (Number(item.discount) || 0), 0) * 100) / 100;
+  if (discount > 0) {
+    lines.push({
+      DetailType: 'DiscountLineDetail',
+      Amount: discount,
+      DiscountLineDetail: { PercentBased: false },
+      Description: discountCode ? `Discount code ${discountCode}` : 'Discount'
+    });
+  }
+
+  return lines;
+}
+
 interface QBInvoice {
   Id?: string;
   DocNumber?: string;
@@ -44,6 +110,9 @@ interface QBInvoice {
     value: string;
   };
   PrivateNote?: string;
+  TxnTaxDetail?: {
+    TotalTax: number;
+  };
   TotalAmt?: number;
   Balance?: number;
   SyncToken?: string;
@@ -85,25 +154,9 @@ export const quickbooksInvoices = {
         throw new Error('Order must have an organization_id');
       }
 
-      const invoiceLines: QBInvoiceLine[] = [];
-
-      if (Array.isArray(order.items)) {
-        for (const item of order.items) {
-          invoiceLines.push({
-            DetailType: 'SalesItemLineDetail',
-            Amount: Number(item.subtotal || (item.quantity * item.price)),
-            SalesItemLineDetail: {
-              ItemRef: {
-                value: '1',
-                name: 'Services'
-              },
-              Qty: item.quantity,
-              UnitPrice: Number(item.price)
-            },
-            Description: `${item.name}${item.sku ? ` (SKU: ${item.sku})` : ''}`
-          });
-        }
-      }
+      const items: InvoiceSourceItem[] = Array.isArray(order.items) ? order.items : [];
+      const itemRefs = await quickbooksItems.resolveItemRefs(items.map(item => Number(item.productId)));
+      const invoiceLines = buildInvoiceLines(items, itemRefs, order.discount_code);
 
       const invoiceData: QBInvoice = {
         CustomerRef: {
@@ -111,9 +164,18 @@ export const quickbooksInvoices = {
         },
         Line: invoiceLines,
         TxnDate: new Date().toISOString().split('T')[0],
-        DueDate: this.calculateDueDate(30)
+        // Orders paid by invoice carry the due date their terms gave at checkout
+        DueDate: order.invoice_due_date || this.calculateDueDate(termsDays(order.payment_terms))
       };
 
+      // Tax was calculated at checkout by taxService; pass the amount through
+      // so the QuickBooks invoice total matches what the customer was charged.
+      if (Number(order.tax) > 0) {
+        invoiceData.TxnTaxDetail = {
+          TotalTax: Number(order.tax)
+        };
+      }
+
       if (order.customer_email) {
         invoiceData.BillEmail = {
           Address: order.customer_email
@@ -131,13 +193,14 @@ export const quickbooksInvoices = {
         };
       }
 
-      if (order.notes) {
+      const memo = [order.po_number ? `PO #${order.po_number}` : null, order.notes].filter(Boolean).join('\n');
+      if (memo) {
         invoiceData.CustomerMemo = {
-          value: order.notes
+          value: memo
         };
       }
 
-      invoiceData.PrivateNote = `Order ID: ${order.id}${order.order_number ? ` | Order #${order.order_number}` : ''}`;
+      invoiceData.PrivateNote = `Order ID: ${order.id}${order.order_number ? ` | Order #${order.order_number}` : ''}${order.po_number ? ` | PO #${order.po_number}` : ''}`;
 
       await qbClient.logSync(
         'invoice',
@@ -190,6 +253,9 @@ export const quickbooksInvoices = {
         })
         .eq('id', orderId);
 
+      // The sync worker retries the invoice with backoff
+      await quickbooksSyncQueue.enqueue('invoice', orderId, syncJobKey('invoice', orderId));
+
       throw error;
     }
   },
@@ -0,0 +1,318 @@
+import { qbClient } from './client';
+import { supabase } from '../supabase';
+
+export type QBItemType = 'Inventory' | 'NonInventory';
+
+export interface QBItem {
+  Id?: string;
+  Name: string;
+  Sku?: string;
+  Type: QBItemType;
+  Description?: string;
+  PurchaseDesc?: string;
+  UnitPrice?: number;
+  PurchaseCost?: number;
+  Active?: boolean;
+  TrackQtyOnHand?: boolean;
+  QtyOnHand?: number;
+  InvStartDate?: string;
+  IncomeAccountRef?: { value: string; name?: string };
+  ExpenseAccountRef?: { value: string; name?: string };
+  AssetAccountRef?: { value: string; name?: string };
+  SyncToken?: string;
+}
+
+interface QBItemResponse {
+  Item: QBItem;
+  time: string;
+}
+
+interface QBAccount {
+  Id: string;
+  Name: string;
+  AccountSubType?: string;
+}
+
+export interface ItemAccountRefs {
+  income: string;
+  expense?: string;
+  asset?: string;
+}
+
+/** The product fields an item is built from */
+export interface ItemSourceProduct {
+  id: number;
+  name: string;
+  sku?: string | null;
+  price: number;
+  cost?: number | null;
+  plain_text_description?: string | null;
+  is_active: boolean;
+  quickbooks_item_id?: string | null;
+  quickbooks_item_type?: QBItemType | null;
+}
+
+/** The catch-all item invoice lines used before products were mapped */
+export const GENERIC_ITEM_REF = { value: '1', name: 'Services' };
+
+const QB_NAME_MAX = 100;
+const QB_DESCRIPTION_MAX = 4000;
+
+/**
+ * QuickBooks item names must be unique, at most 100 characters and cannot
+ * contain a colon (it separates parent and sub-items). The SKU is appended
+ * so two products with the same name do not collide.
+ */
+export function qbItemName(product: Pick<ItemSourceProduct, 'name' | 'sku'>): string {
+  const base = product.name.replace(/[:\t\n\r]/g, ' ').replace(/\s+/g, ' ').trim();
+  const suffix = product.sku ? ` (${product.sku.replace(/[:\t\n\r]/g, ' ').trim()})` : '';
+  return base.slice(0, QB_NAME_MAX - suffix.length) + suffix;
+}
+
+/**
+ * Build the QuickBooks item for a product. Opening quantity and start date
+ * are only sent when an Inventory item is first created; after that
+ * QuickBooks owns the quantity through its own adjustments.
+ */
+export function buildQBItem(
+  product: ItemSourceProduct,
+  type: QBItemType,
+  accounts: ItemAccountRefs,
+  opening?: { quantity: number; date: string }
+): QBItem {
+  const description = product.plain_text_description?.slice(0, QB_DESCRIPTION_MAX) || undefined;
+
+  const item: QBItem = {
+    Name: qbItemName(product),
+    Sku: product.sku || undefined,
+    Type: type,
+    Description: description,
+    PurchaseDesc: description,
+    UnitPrice: Number(product.price),
+    PurchaseCost: product.cost != null ? Number(product.cost) : undefined,
+    Active: product.is_active,
+    IncomeAccountRef: { value: accounts.income },
+  };
+
+  if (accounts.expense) {
+    item.ExpenseAccountRef = { value: accounts.expense };
+  }
+
+  if (type === 'Inventory') {
+    item.TrackQtyOnHand = true;
+    if (accounts.asset) {
+      item.AssetAccountRef = { value: accounts.asset };
+    }
+    if (opening) {
+      item.QtyOnHand = opening.quantity;
+      item.InvStartDate = opening.date;
+    }
+  }
+
+  return item;
+}
+
+export const quickbooksItems = {
+  accountRefs: null as ItemAccountRefs | null,
+
+  /**
+   * Look up the income, cost of goods and inventory asset accounts new
+   * items are posted to, using the standard QuickBooks account sub-types.
+   */
+  async getAccountRefs(): Promise<ItemAccountRefs> {
+    if (this.accountRefs) return this.accountRefs;
+
+    const findAccount = async (subType: string): Promise<string | undefined> => {
+      const accounts = await qbClient.query<QBAccount>(
+        `SELECT * FROM Account WHERE AccountSubType = '${subType}' AND Active = true MAXRESULTS 1`
+      );
+      return accounts[0]?.Id;
+    };
+
+    const [income, expense, asset] = await Promise.all([
+      findAccount('SalesOfProductIncome'),
+      findAccount('SuppliesMaterialsCogs'),
+      findAccount('Inventory'),
+    ]);
+
+    if (!income) {
+      throw new Error('No active "Sales of Product Income" account found in QuickBooks');
+    }
+
+    this.accountRefs = { income, expense, asset };
+    return this.accountRefs;
+  },
+
+  async syncProduct(productId: number): Promise<string> {
+    let existingQbId: string | null = null;
+    try {
+      const { data: product, error: productError } = await supabase
+        .from('products')
+        .select('id, name, sku, price, cost, plain_text_description, is_active, quickbooks_item_id, quickbooks_item_type')
+        .eq('id', productId)
+        .single();
+
+      if (productError || !product) {
+        throw new Error('Product not found');
+      }
+
+      existingQbId = product.quickbooks_item_id || null;
+
+      const { data: levels } = await supabase
+        .from('inventory_levels')
+        .select('on_hand')
+        .eq('product_id', productId);
+
+      // Products whose stock is tracked here become Inventory items; an
+      // existing item keeps its type because QuickBooks cannot convert it.
+      const tracked = (levels || []).length > 0;
+      const type: QBItemType = product.quickbooks_item_type || (tracked ? 'Inventory' : 'NonInventory');
+
+      const accounts = await this.getAccountRefs();
+      if (type === 'Inventory' && (!accounts.asset || !accounts.expense)) {
+        throw new Error('Inventory items need an Inventory asset and a Cost of Goods Sold account in QuickBooks');
+      }
+
+      let quickbooksId: string;
+
+      if (!existingQbId) {
+        // Link to an item of the same name rather than failing on a duplicate
+        const match = await this.findItemByName(qbItemName(product));
+        if (match && (match.Type === 'Inventory' || match.Type === 'NonInventory')) {
+          existingQbId = match.Id || null;
+        }
+      }
+
+      if (existingQbId) {
+        const existing = await this.getItem(existingQbId);
+        const qbItem = buildQBItem(product, existing.Type, accounts);
+        qbItem.Id = existing.Id;
+        qbItem.SyncToken = existing.SyncToken;
+
+        await qbClient.logSync('item', String(productId), 'update', 'pending', existingQbId, qbItem);
+
+        const response = await qbClient.post<QBItemResponse>('item', qbItem);
+        quickbooksId = response.Item.Id!;
+
+        await qbClient.logSync('item', String(productId), 'update', 'success', quickbooksId, qbItem, response.Item);
+
+        await this.saveMapping(productId, quickbooksId, existing.Type);
+      } else {
+        const opening = type === 'Inventory'
+          ? {
+              quantity: (levels || []).reduce((sum, l) => sum + Number(l.on_hand || 0), 0),
+              date: new Date().toISOString().split('T')[0],
+            }
+          : undefined;
+        const qbItem = buildQBItem(product, type, accounts, opening);
+
+        await qbClient.logSync('item', String(productId), 'create', 'pending', undefined, qbItem);
+
+        const response = await qbClient.post<QBItemResponse>('item', qbItem);
+        quickbooksId = response.Item.Id!;
+
+        await qbClient.logSync('item', String(productId), 'create', 'success', quickbooksId, qbItem, response.Item);
+
+        await this.saveMapping(productId, quickbooksId, type);
+      }
+
+      return quickbooksId;
+    } catch (error) {
+      await qbClient.logSync(
+        'item',
+        String(productId),
+        existingQbId ? 'update' : 'create',
+        'failed',
+        existingQbId || undefined,
+        undefined,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+  },
+
+  async saveMapping(productId: number, quickbooksId: string, type: QBItemType): Promise<void> {
+    const { error } = await supabase
+      .from('products')
+      .update({
+        quickbooks_item_id: quickbooksId,
+        quickbooks_item_type: type,
+        quickbooks_synced_at: new Date().toISOString()
+      })
+      .eq('id', productId);
+
+    if (error) throw error;
+  },
+
+  async getItem(itemId: string): Promise<QBItem> {
+    const response = await qbClient.get<QBItemResponse>(`item/${itemId}`);
+    return response.Item;
+  },
+
+  async findItemByName(name: string): Promise<QBItem | null> {
+    const sanitized = name.replace(/'/g, "''").replace(/[\\;]/g, '');
+    const items = await qbClient.query<QBItem>(
+      `SELECT * FROM Item WHERE Name = '${sanitized}'`
+    );
+    return items.length > 0 ? items[0] : null;
+  },
+
+  /**
+   * Resolve the QuickBooks item for each product on an invoice, syncing
+   * products that have not been mapped yet. Products that cannot be synced
+   * are left out so the caller can fall back to the generic item.
+   */
+  async resolveItemRefs(productIds: number[]): Promise<Map<number, string>> {
+    const refs = new Map<number, string>();
+    const ids = [...new Set(productIds.filter(id => Number.isFinite(id)))];
+    if (ids.length === 0) return refs;
+
+    const { data } = await supabase
+      .from('products')
+      .select('id, quickbooks_item_id')
+      .in('id', ids);
+
+    for (const row of data || []) {
+      if (row.quickbooks_item_id) refs.set(row.id, row.quickbooks_item_id);
+    }
+
+    for (const id of ids) {
+      if (refs.has(id)) continue;
+      try {
+        refs.set(id, await this.syncProduct(id));
+      } catch (error) {
+        console.warn(`Could not sync product ${id} to QuickBooks; using the generic item:`, error);
+      }
+    }
+
+    return refs;
+  },
+
+  async batchSyncProducts(productIds?: number[]): Promise<{ success: number[]; failed: { id: number; error: string }[] }> {
+    let ids = productIds;
+    if (!ids) {
+      const { data: products } = await supabase
+        .from('products')
+        .select('id')
+        .eq('is_active', true)
+        .order('id');
+      ids = (products || []).map(p => p.id as number);
+    }
+
+    const success: number[] = [];
+    const failed: { id: number; error: string }[] = [];
+
+    for (const id of ids) {
+      try {
+        await this.syncProduct(id);
+        success.push(id);
+      } catch (error) {
+        console.error(`Failed to sync product ${id}:`, error);
+        failed.push({ id, error: error instanceof Error ? error.message : 'Sync failed' });
+      }
+    }
+
+    return { success, failed };
+  }
+};
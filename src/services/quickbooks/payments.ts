@@ -342,7 +342,8 @@ export const quickbooksPayments = {
   async refundCharge(
     chargeId: string,
     amount?: number,
-    description?: string
+    description?: string,
+    requestId?: string
   ): Promise<QBChargeResponse> {
     const refundData: QBRefundRequest = { description };
     if (amount) {
@@ -350,7 +351,7 @@ export const quickbooksPayments = {
     }
     try {
       await qbClient.logSync('payment_refund', chargeId, 'create', 'pending', chargeId, refundData);
-      const response = await qbClient.post<QBChargeResponse>(`payments/charges/${chargeId}/refunds`, refundData, true);
+      const response = await qbClient.post<QBChargeResponse>(`payments/charges/${chargeId}/refunds`, refundData, true, requestId);
       await qbClient.logSync('payment_refund', chargeId, 'create', 'success', chargeId, refundData, sanitizeResponseForLog(response));
       return response;
     } catch (error: any) {
@@ -390,7 +391,8 @@ export const quickbooksPayments = {
   async refundECheck(
     echeckId: string,
     amount?: number,
-    description?: string
+    description?: string,
+    requestId?: string
   ): Promise<QBECheckResponse> {
     const refundData: QBRefundRequest = { description };
     if (amount) {
@@ -398,7 +400,7 @@ export const quickbooksPayments = {
     }
     try {
       await qbClient.logSync('payment_ach_refund', echeckId, 'create', 'pending', echeckId, refundData);
-      const response = await qbClient.post<QBECheckResponse>(`payments/echecks/${echeckId}/refunds`, refundData, true);
+      const response = await qbClient.post<QBECheckResponse>(`payments/echecks/${echeckId}/refunds`, refundData, true, requestId);
       await qbClient.logSync('payment_ach_refund', echeckId, 'create', 'success', echeckId, refundData, sanitizeResponseForLog(response));
       return response;
     } catch (error: any) {
@@ -0,0 +1,354 @@
+import { qbClient } from './client';
+import { quickbooksCustomers, type QBCustomer } from './customers';
+import { supabase } from '../supabase';
+
+export type ReconcileField = 'name' | 'email' | 'phone' | 'address';
+
+export type ReconcileSide = 'app' | 'quickbooks';
+
+export const RECONCILE_FIELD_LABELS: Record<ReconcileField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Billing Address',
+};
+
+export interface BillingAddress {
+  address1?: string;
+  address2?: string;
+  city?: string;
+  state_or_province?: string;
+  postal_code?: string;
+  country_code?: string;
+}
+
+/** The organization fields reconciliation compares */
+export interface ReconcileOrganization {
+  id: string;
+  name: string;
+  code: string;
+  contact_email?: string | null;
+  contact_phone?: string | null;
+  billing_address?: BillingAddress | null;
+  quickbooks_customer_id?: string | null;
+  is_active: boolean;
+}
+
+export interface FieldDiff {
+  field: ReconcileField;
+  app: string;
+  quickbooks: string;
+}
+
+export interface ReconcileMatch {
+  organization: ReconcileOrganization;
+  customer: QBCustomer;
+  /** How the pair was found: an existing link, a name or email match, or an admin's choice */
+  matchedBy: 'link' | 'name' | 'email' | 'manual';
+  diffs: FieldDiff[];
+}
+
+export interface DuplicateGroup {
+  side: ReconcileSide;
+  reason: 'name' | 'email' | 'link';
+  value: string;
+  /** Organization ids or QuickBooks customer ids */
+  ids: string[];
+}
+
+export interface ReconciliationReport {
+  matches: ReconcileMatch[];
+  /** Organizations with no QuickBooks customer */
+  organizationOrphans: ReconcileOrganization[];
+  /** Active QuickBooks customers with no organization */
+  customerOrphans: QBCustomer[];
+  /** Organizations linked to a customer that is missing or inactive in QuickBooks */
+  staleLinks: ReconcileOrganization[];
+  duplicates: DuplicateGroup[];
+}
+
+export function normalizeName(value: string | null | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[.,'"]/g, '')
+    .replace(/\b(inc|llc|ltd|corp|co|pllc|pc)\b/g, '')
+    .replace(/&/g, 'and')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeEmail(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+/** Compare phone numbers by their last 10 digits, ignoring formatting */
+export function normalizePhone(value: string | null | undefined): string {
+  return (value || '').replace(/\D/g, '').slice(-10);
+}
+
+export function customerName(customer: QBCustomer): string {
+  return customer.CompanyName || customer.DisplayName;
+}
+
+export function customerAddress(customer: QBCustomer): BillingAddress | null {
+  if (!customer.BillAddr) return null;
+  return {
+    address1: customer.BillAddr.Line1 || '',
+    address2: customer.BillAddr.Line2 || '',
+    city: customer.BillAddr.City || '',
+    state_or_province: customer.BillAddr.CountrySubDivisionCode || '',
+    postal_code: customer.BillAddr.PostalCode || '',
+    country_code: customer.BillAddr.Country || 'US',
+  };
+}
+
+export function formatAddress(address: BillingAddress | null | undefined): string {
+  if (!address) return '';
+  const cityLine = [address.city, [address.state_or_province, address.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return [address.address1, address.address2, cityLine]
+    .map(part => (part || '').trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+function addressKey(address: BillingAddress | null | undefined): string {
+  return formatAddress(address).toLowerCase().replace(/[.,#]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Field-level differences between an organization and its customer.
+ * Formatting-only differences (case, punctuation, phone format) are ignored.
+ */
+export function diffCustomer(org: ReconcileOrganization, customer: QBCustomer): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const qbName = customerName(customer);
+
+  if (normalizeName(org.name) !== normalizeName(qbName)) {
+    diffs.push({ field: 'name', app: org.name, quickbooks: qbName });
+  }
+  if (normalizeEmail(org.contact_email) !== normalizeEmail(customer.PrimaryEmailAddr?.Address)) {
+    diffs.push({ field: 'email', app: org.contact_email || '', quickbooks: customer.PrimaryEmailAddr?.Address || '' });
+  }
+  if (normalizePhone(org.contact_phone) !== normalizePhone(customer.PrimaryPhone?.FreeFormNumber)) {
+    diffs.push({ field: 'phone', app: org.contact_phone || '', quickbooks: customer.PrimaryPhone?.FreeFormNumber || '' });
+  }
+  const qbAddress = customerAddress(customer);
+  if (addressKey(org.billing_address) !== addressKey(qbAddress)) {
+    diffs.push({ field: 'address', app: formatAddress(org.billing_address), quickbooks: formatAddress(qbAddress) });
+  }
+
+  return diffs;
+}
+
+function findDuplicates<T>(
+  records: T[],
+  side: ReconcileSide,
+  reason: DuplicateGroup['reason'],
+  key: (record: T) => string,
+  id: (record: T) => string
+): DuplicateGroup[] {
+  const groups = new Map<string, string[]>();
+  for (const record of records) {
+    const value = key(record);
+    if (!value) continue;
+    groups.set(value, [...(groups.get(value) || []), id(record)]);
+  }
+  return [...groups.entries()]
+    .filter(([, ids]) => ids.length > 1)
+    .map(([value, ids]) => ({ side, reason, value, ids }));
+}
+
+/**
+ * Pair organizations with QuickBooks customers. Existing links win; unlinked
+ * records are paired by name, then by email, but only when exactly one
+ * candidate is left so an ambiguous match is never made automatically.
+ */
+export function reconcileCustomers(
+  organizations: ReconcileOrganization[],
+  customers: QBCustomer[]
+): ReconciliationReport {
+  const customersById = new Map(customers.filter(c => c.Id).map(c => [c.Id!, c]));
+  const matchedCustomers = new Set<string>();
+  const matches: ReconcileMatch[] = [];
+  const staleLinks: ReconcileOrganization[] = [];
+  const unlinked: ReconcileOrganization[] = [];
+
+  for (const org of organizations) {
+    const linked = org.quickbooks_customer_id ? customersById.get(org.quickbooks_customer_id) : undefined;
+    if (linked && !matchedCustomers.has(linked.Id!)) {
+      matchedCustomers.add(linked.Id!);
+      matches.push({ organization: org, customer: linked, matchedBy: 'link', diffs: diffCustomer(org, linked) });
+    } else if (org.quickbooks_customer_id && !linked) {
+      staleLinks.push(org);
+    } else {
+      unlinked.push(org);
+    }
+  }
+
+  const available = () => customers.filter(c => c.Id && !matchedCustomers.has(c.Id));
+  const organizationOrphans: ReconcileOrganization[] = [];
+
+  for (const org of unlinked) {
+    const byName = available().filter(c =>
+      normalizeName(customerName(c)) === normalizeName(org.name) || normalizeName(c.DisplayName) === normalizeName(org.name)
+    );
+    const email = normalizeEmail(org.contact_email);
+    const byEmail = email ? available().filter(c => normalizeEmail(c.PrimaryEmailAddr?.Address) === email) : [];
+
+    const [customer, matchedBy] = byName.length === 1
+      ? [byName[0], 'name' as const]
+      : byName.length === 0 && byEmail.length === 1
+        ? [byEmail[0], 'email' as const]
+        : [undefined, undefined];
+
+    if (customer && matchedBy) {
+      matchedCustomers.add(customer.Id!);
+      matches.push({ organization: org, customer, matchedBy, diffs: diffCustomer(org, customer) });
+    } else {
+      organizationOrphans.push(org);
+    }
+  }
+
+  const duplicates = [
+    ...findDuplicates(organizations, 'app', 'name', o => normalizeName(o.name), o => o.id),
+    ...findDuplicates(organizations, 'app', 'email', o => normalizeEmail(o.contact_email), o => o.id),
+    ...findDuplicates(organizations, 'app', 'link', o => o.quickbooks_customer_id || '', o => o.id),
+    ...findDuplicates(customers, 'quickbooks', 'name', c => normalizeName(customerName(c)), c => c.Id || ''),
+    ...findDuplicates(customers, 'quickbooks', 'email', c => normalizeEmail(c.PrimaryEmailAddr?.Address), c => c.Id || ''),
+  ];
+
+  return {
+    matches,
+    organizationOrphans,
+    customerOrphans: customers.filter(c => c.Id && !matchedCustomers.has(c.Id)),
+    staleLinks,
+    duplicates,
+  };
+}
+
+/** Default each differing field to the side an admin most likely trusts: the app */
+export function defaultResolution(diffs: FieldDiff[]): Partial<Record<ReconcileField, ReconcileSide>> {
+  return Object.fromEntries(diffs.map(d => [d.field, 'app'])) as Partial<Record<ReconcileField, ReconcileSide>>;
+}
+
+export const quickbooksReconciliation = {
+  async loadReport(): Promise<ReconciliationReport> {
+    const [customers, orgsRes] = await Promise.all([
+      quickbooksCustomers.fetchAllCustomers(),
+      supabase
+        .from('organizations')
+        .select('id, name, code, contact_email, contact_phone, billing_address, quickbooks_customer_id, is_active')
+        .order('name'),
+    ]);
+
+    if (orgsRes.error) throw orgsRes.error;
+    return reconcileCustomers((orgsRes.data || []) as ReconcileOrganization[], customers);
+  },
+
+  /**
+   * Apply an admin's per-field choices to a matched pair and link them.
+   * Fields where QuickBooks wins are copied to the organization; fields
+   * where the app wins are sent to QuickBooks as a sparse update.
+   */
+  async resolve(
+    match: Pick<ReconcileMatch, 'organization' | 'customer' | 'diffs'>,
+    choices: Partial<Record<ReconcileField, ReconcileSide>>
+  ): Promise<void> {
+    const { organization: org, customer } = match;
+    const winner = (field: ReconcileField) => choices[field] || 'app';
+    const differs = (field: ReconcileField) => match.diffs.some(d => d.field === field);
+
+    const orgUpdate: Record<string, unknown> = {
+      quickbooks_customer_id: customer.Id,
+      last_synced_at: new Date().toISOString(),
+    };
+    const qbUpdate: QBCustomer = {
+      Id: customer.Id,
+      SyncToken: customer.SyncToken,
+      DisplayName: customer.DisplayName,
+      sparse: true,
+    };
+    let pushToQuickBooks = false;
+
+    if (differs('name')) {
+      if (winner('name') === 'quickbooks') {
+        orgUpdate.name = customerName(customer);
+      } else {
+        qbUpdate.DisplayName = org.name;
+        qbUpdate.CompanyName = org.name;
+        pushToQuickBooks = true;
+      }
+    }
+    if (differs('email')) {
+      if (winner('email') === 'quickbooks') {
+        orgUpdate.contact_email = customer.PrimaryEmailAddr?.Address || null;
+      } else {
+        qbUpdate.PrimaryEmailAddr = { Address: org.contact_email || '' };
+        pushToQuickBooks = true;
+      }
+    }
+    if (differs('phone')) {
+      if (winner('phone') === 'quickbooks') {
+        orgUpdate.contact_phone = customer.PrimaryPhone?.FreeFormNumber || null;
+      } else {
+        qbUpdate.PrimaryPhone = { FreeFormNumber: org.contact_phone || '' };
+        pushToQuickBooks = true;
+      }
+    }
+    if (differs('address')) {
+      if (winner('address') === 'quickbooks') {
+        orgUpdate.billing_address = customerAddress(customer);
+      } else {
+        const address = org.billing_address || {};
+        qbUpdate.BillAddr = {
+          Line1: address.address1 || '',
+          Line2: address.address2 || '',
+          City: address.city || '',
+          CountrySubDivisionCode: address.state_or_province || '',
+          PostalCode: address.postal_code || '',
+          Country: address.country_code || 'US',
+        };
+        pushToQuickBooks = true;
+      }
+    }
+
+    if (pushToQuickBooks) {
+      try {
+        await qbClient.logSync('customer', org.id, 'update', 'pending', customer.Id, qbUpdate);
+        const response = await qbClient.post<{ Customer: QBCustomer }>('customer', qbUpdate);
+        await qbClient.logSync('customer', org.id, 'update', 'success', customer.Id, qbUpdate, response.Customer);
+      } catch (error) {
+        await qbClient.logSync(
+          'customer',
+          org.id,
+          'update',
+          'failed',
+          customer.Id,
+          qbUpdate,
+          undefined,
+          error instanceof Error ? error.message : String(error)
+        );
+        throw error;
+      }
+    }
+
+    const { error } = await supabase
+      .from('organizations')
+      .update(orgUpdate)
+      .eq('id', org.id);
+
+    if (error) throw error;
+  },
+
+  /** Drop a link to a customer that no longer exists or is inactive in QuickBooks */
+  async unlink(organizationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organizations')
+      .update({ quickbooks_customer_id: null })
+      .eq('id', organizationId);
+
+    if (error) throw error;
+  },
+};
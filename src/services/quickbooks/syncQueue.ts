@@ -0,0 +1,161 @@
+import { supabase } from '../supabase';
+
+export type QBSyncJobType = 'customer' | 'invoice' | 'payment' | 'refund';
+
+export type QBSyncJobStatus = 'pending' | 'processing' | 'retry' | 'success' | 'failed' | 'cancelled';
+
+export interface QBSyncJob {
+  id: string;
+  job_type: QBSyncJobType;
+  entity_id: string;
+  idempotency_key: string;
+  payload: Record<string, unknown>;
+  status: QBSyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  quickbooks_id: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * What record_order_refund() needs to book a refund once it goes through:
+ * RefundOptions from orderService, in the database's snake_case
+ */
+export interface RefundRecordOptions {
+  request_id?: string;
+  reason?: string;
+  include_shipping?: boolean;
+  cancel_commission?: boolean;
+  clawback_commission?: boolean;
+  lines?: Array<{ productId: number; quantity: number }>;
+  source?: 'refund' | 'return';
+  refunded_by?: string;
+  return_id?: string;
+}
+
+/** What the worker needs to retry a Payments API refund */
+export interface RefundJobPayload {
+  authorization_id: string;
+  /** Request-Id of the failed attempt, sent again on every retry */
+  request_id: string;
+  amount: number;
+  echeck: boolean;
+  /** Booked with record_order_refund() once the retry goes through */
+  record: RefundRecordOptions;
+}
+
+export const SYNC_RETRY_BASE_MS = 60 * 1000;
+export const SYNC_RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` tries: 1, 2, 4 ... minutes,
+ * capped at 6 hours. Mirrors quickbooks_sync_backoff() in the database.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(SYNC_RETRY_BASE_MS * 2 ** (Math.max(attempts, 1) - 1), SYNC_RETRY_MAX_MS);
+}
+
+/**
+ * Idempotency key for a unit of work. Work that happens once per entity
+ * (invoicing an order) is keyed by the entity; repeatable work (a refund)
+ * also needs the id of the operation.
+ */
+export function syncJobKey(type: QBSyncJobType, entityId: string, operationId?: string): string {
+  return operationId ? `${type}:${entityId}:${operationId}` : `${type}:${entityId}`;
+}
+
+export function isOpenJob(job: Pick<QBSyncJob, 'status'>): boolean {
+  return job.status === 'pending' || job.status === 'processing' || job.status === 'retry';
+}
+
+export const quickbooksSyncQueue = {
+  /**
+   * Queue work for the server-side sync worker. Returns the job id, which is
+   * the existing job when the key has already been queued.
+   */
+  async enqueue(
+    type: QBSyncJobType,
+    entityId: string,
+    idempotencyKey: string,
+    payload: Record<string, unknown> = {}
+  ): Promise<string | null> {
+    const { data, error } = await supabase.rpc('enqueue_quickbooks_sync_job', {
+      p_job_type: type,
+      p_entity_id: entityId,
+      p_idempotency_key: idempotencyKey,
+      p_payload: payload
+    });
+
+    if (error) {
+      console.error('Failed to queue QuickBooks sync job:', error);
+      return null;
+    }
+
+    return data as string;
+  },
+
+  async getJobs(status?: QBSyncJobStatus, limit = 100): Promise<QBSyncJob[]> {
+    let query = supabase
+      .from('quickbooks_sync_jobs')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as QBSyncJob[];
+  },
+
+  async getDeadLetters(): Promise<QBSyncJob[]> {
+    return this.getJobs('failed');
+  },
+
+  async hasOpenJob(type: QBSyncJobType, entityId: string): Promise<boolean> {
+    const { data } = await supabase
+      .from('quickbooks_sync_jobs')
+      .select('id')
+      .eq('job_type', type)
+      .eq('entity_id', entityId)
+      .in('status', ['pending', 'processing', 'retry'])
+      .limit(1);
+
+    return (data || []).length > 0;
+  },
+
+  /** Put a dead job back on the queue with a fresh set of attempts */
+  async retry(jobId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('quickbooks_sync_jobs')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+
+    return error ? { success: false, error: error.message } : { success: true };
+  },
+
+  async discard(jobId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('quickbooks_sync_jobs')
+      .update({
+        status: 'cancelled',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+
+    return error ? { success: false, error: error.message } : { success: true };
+  }
+};
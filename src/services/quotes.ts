@@ -0,0 +1,375 @@
+import { supabase } from './supabase';
+import { emailService } from './emailService';
+import { productService, type Product } from './productService';
+import { siteSettingsService } from './siteSettings';
+import { routeUrl } from './router';
+import type { CartItem } from './cartService';
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'cancelled';
+/** Status as shown: a sent quote past its expiry date is expired */
+export type QuoteDisplayStatus = QuoteStatus | 'expired';
+
+export interface QuoteLine {
+  id: string;
+  quote_id: string;
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  list_price: number;
+  unit_price: number;
+  sort_order: number;
+}
+
+export interface Quote {
+  id: string;
+  quote_number: string;
+  organization_id: string;
+  sales_rep_id: string;
+  contact_user_id?: string | null;
+  contact_email?: string | null;
+  status: QuoteStatus;
+  /** Last day the quote can be accepted (YYYY-MM-DD) */
+  expires_at: string;
+  notes?: string | null;
+  internal_notes?: string | null;
+  decline_reason?: string | null;
+  order_id?: string | null;
+  sent_at?: string | null;
+  accepted_at?: string | null;
+  declined_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  quote_lines?: QuoteLine[];
+  organizations?: { name: string } | null;
+  sales_rep?: { full_name?: string | null; email?: string | null } | null;
+}
+
+export interface QuotePricingRules {
+  /** Minimum margin over cost, as a percentage of the price */
+  minMarginPercent: number;
+  /** Maximum discount off list price */
+  maxDiscountPercent: number;
+  defaultValidDays: number;
+}
+
+export interface QuoteLineInput {
+  productId: number;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface SaveQuoteInput {
+  id?: string;
+  organizationId: string;
+  salesRepId: string;
+  contactUserId?: string | null;
+  contactEmail?: string | null;
+  expiresAt: string;
+  notes?: string;
+  internalNotes?: string;
+  lines: QuoteLineInput[];
+}
+
+/** Cart line for checking out a quote; the price is the quoted one */
+export interface QuoteCheckoutItem extends CartItem {
+  pricingSource: 'quote';
+}
+
+export const QUOTE_STATUS_LABELS: Record<QuoteDisplayStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export const DEFAULT_QUOTE_RULES: QuotePricingRules = {
+  minMarginPercent: 15,
+  maxDiscountPercent: 30,
+  defaultValidDays: 30,
+};
+
+const roundUpToCent = (value: number) => Math.ceil(Math.round(value * 10000) / 100) / 100;
+
+/**
+ * Lowest price a sales rep may quote: the greater of cost plus the minimum
+ * margin and list price less the maximum discount. Mirrors
+ * quote_price_floor() in the database; admins may go below it.
+ */
+export function quotePriceFloor(listPrice: number, cost: number | null | undefined, rules: QuotePricingRules): number {
+  const costFloor = cost && cost > 0 && rules.minMarginPercent < 100
+    ? roundUpToCent(cost / (1 - rules.minMarginPercent / 100))
+    : 0;
+  const discountFloor = roundUpToCent(listPrice * (1 - Math.min(rules.maxDiscountPercent, 100) / 100));
+  return Math.max(costFloor, discountFloor);
+}
+
+/** Margin over cost as a percentage of the price, or null without a cost */
+export function marginPercent(price: number, cost: number | null | undefined): number | null {
+  if (!cost || price <= 0) return null;
+  return Math.round(((price - cost) / price) * 1000) / 10;
+}
+
+export function quoteTotal(lines: Array<{ quantity: number; unit_price: number }>): number {
+  return Math.round(lines.reduce((sum, line) => sum + Number(line.unit_price) * line.quantity, 0) * 100) / 100;
+}
+
+export function quoteDisplayStatus(
+  quote: Pick<Quote, 'status' | 'expires_at'>,
+  today: string = new Date().toISOString().slice(0, 10)
+): QuoteDisplayStatus {
+  return quote.status === 'sent' && quote.expires_at < today ? 'expired' : quote.status;
+}
+
+/** YYYY-MM-DD `days` after `from` */
+export function quoteExpiryDate(days: number, from: Date = new Date()): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Checkout lines for accepting a quote. Cost and brand come from the
+ * catalog so commission is figured as on any order; the price is locked to
+ * the quote, which the database checks when the order is placed.
+ */
+export function quoteCheckoutItems(quote: Pick<Quote, 'quote_lines'>, products: Product[]): QuoteCheckoutItem[] {
+  const byId = new Map(products.map(product => [product.id, product]));
+  return [...(quote.quote_lines || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(line => {
+      const product = byId.get(line.product_id);
+      return {
+        id: line.product_id,
+        name: line.product_name,
+        price: Number(line.unit_price),
+        retailPrice: Number(line.list_price),
+        cost: product?.cost,
+        quantity: line.quantity,
+        image: product?.image || '',
+        brand: product?.brand,
+        pricingSource: 'quote',
+      };
+    });
+}
+
+const QUOTE_SELECT = '*, quote_lines(*), organizations(name), sales_rep:profiles!sales_rep_id(full_name, email)';
+
+class QuoteService {
+  /** Limits from the `quotes` site settings */
+  async getPricingRules(): Promise<QuotePricingRules> {
+    const settings = await siteSettingsService.getAllSettingsRaw();
+    const value = (key: string, fallback: number) => {
+      const row = settings.find(s => s.key === key);
+      return typeof row?.value === 'number' ? row.value : fallback;
+    };
+    return {
+      minMarginPercent: value('quote_min_margin_percent', DEFAULT_QUOTE_RULES.minMarginPercent),
+      maxDiscountPercent: value('quote_max_discount_percent', DEFAULT_QUOTE_RULES.maxDiscountPercent),
+      defaultValidDays: value('quote_default_valid_days', DEFAULT_QUOTE_RULES.defaultValidDays),
+    };
+  }
+
+  /** Quotes the current user can see; RLS scopes them to the rep, organization or admin */
+  async getQuotes(filter: { organizationId?: string; status?: QuoteStatus } = {}): Promise<{ quotes: Quote[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('quotes')
+        .select(QUOTE_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (filter.organizationId) query = query.eq('organization_id', filter.organizationId);
+      if (filter.status) query = query.eq('status', filter.status);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return { quotes: data || [] };
+    } catch (error) {
+      console.error('Error fetching quotes:', error);
+      return { quotes: [], error: error instanceof Error ? error.message : 'Failed to fetch quotes' };
+    }
+  }
+
+  /** Creates or updates a draft quote and replaces its lines */
+  async saveQuote(input: SaveQuoteInput): Promise<{ success: boolean; quoteId?: string; error?: string }> {
+    const lines = input.lines.filter(line => line.quantity > 0);
+    if (lines.length === 0) return { success: false, error: 'Add at least one product' };
+    if (lines.some(line => !(line.unitPrice >= 0))) return { success: false, error: 'Every line needs a price' };
+    if (!input.expiresAt) return { success: false, error: 'Choose an expiry date' };
+
+    try {
+      const fields = {
+        organization_id: input.organizationId,
+        sales_rep_id: input.salesRepId,
+        contact_user_id: input.contactUserId || null,
+        contact_email: input.contactEmail?.trim() || null,
+        expires_at: input.expiresAt,
+        notes: input.notes?.trim() || null,
+        internal_notes: input.internalNotes?.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      let quoteId = input.id;
+      if (quoteId) {
+        const { error } = await supabase.from('quotes').update(fields).eq('id', quoteId).eq('status', 'draft');
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase.from('quote_lines').delete().eq('quote_id', quoteId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase.from('quotes').insert(fields).select('id').single();
+        if (error) throw error;
+        quoteId = data.id as string;
+      }
+
+      const { error: linesError } = await supabase.from('quote_lines').insert(
+        lines.map((line, index) => ({
+          quote_id: quoteId,
+          product_id: line.productId,
+          product_name: line.productName,
+          quantity: line.quantity,
+          unit_price: line.unitPrice,
+          sort_order: index,
+        }))
+      );
+      if (linesError) throw linesError;
+
+      return { success: true, quoteId };
+    } catch (error) {
+      console.error('Error saving quote:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save quote' };
+    }
+  }
+
+  /** Marks a draft sent and emails it to the contact */
+  async sendQuote(quote: Quote): Promise<{ success: boolean; error?: string }> {
+    if (!quote.contact_email) return { success: false, error: 'Choose a contact to send the quote to' };
+    if (quoteDisplayStatus({ status: 'sent', expires_at: quote.expires_at }) === 'expired') {
+      return { success: false, error: 'The expiry date has already passed' };
+    }
+
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('quotes')
+        .update({ status: 'sent', sent_at: now, updated_at: now })
+        .eq('id', quote.id)
+        .eq('status', 'draft');
+      if (error) throw error;
+
+      const lines = quote.quote_lines || [];
+      emailService.sendNotification({
+        to: quote.contact_email,
+        email_type: 'quote_sent',
+        subject: `Your quote ${quote.quote_number} from ${quote.sales_rep?.full_name || 'HealthSpan360'}`,
+        template_data: {
+          quote_number: quote.quote_number,
+          organization_name: quote.organizations?.name || '',
+          rep_name: quote.sales_rep?.full_name || quote.sales_rep?.email || 'Your sales rep',
+          expires_on: new Date(`${quote.expires_at}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+          items: lines.map(line => ({ name: line.product_name, quantity: line.quantity, price: Number(line.unit_price) })),
+          total: quoteTotal(lines),
+          notes: quote.notes || '',
+          quote_url: routeUrl({ page: 'admin', tab: 'quotes' }),
+        },
+        user_id: quote.contact_user_id || undefined,
+      }).catch(err => console.warn('Failed to send quote email:', err));
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error sending quote:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send quote' };
+    }
+  }
+
+  /** Takes a sent quote back to draft so it can be revised and sent again */
+  async reopenQuote(quoteId: string): Promise<{ success: boolean; error?: string }> {
+    return this.setStatus(quoteId, 'draft', ['sent']);
+  }
+
+  async cancelQuote(quoteId: string): Promise<{ success: boolean; error?: string }> {
+    return this.setStatus(quoteId, 'cancelled', ['draft', 'sent']);
+  }
+
+  async declineQuote(quoteId: string, reason?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('decline_quote', { p_quote_id: quoteId, p_reason: reason?.trim() || null });
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error declining quote:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to decline quote' };
+    }
+  }
+
+  /** Checkout lines for accepting a quote at its quoted prices */
+  async getCheckoutItems(quote: Quote): Promise<QuoteCheckoutItem[]> {
+    const products = await productService.getProductsByIds((quote.quote_lines || []).map(line => line.product_id));
+    return quoteCheckoutItems(quote, products);
+  }
+
+  /** Organizations the user can quote: all for admins, otherwise the rep's assigned ones */
+  async getQuotableOrganizations(userId: string, isAdmin: boolean): Promise<Array<{ id: string; name: string }>> {
+    try {
+      if (isAdmin) {
+        const { data, error } = await supabase.from('organizations').select('id, name').order('name');
+        if (error) throw error;
+        return data || [];
+      }
+
+      const { data, error } = await supabase
+        .from('organization_sales_reps')
+        .select('organizations!inner(id, name)')
+        .eq('sales_rep_id', userId)
+        .eq('is_active', true);
+      if (error) throw error;
+
+      return (data || [])
+        .map((row: { organizations: { id: string; name: string } | { id: string; name: string }[] }) =>
+          Array.isArray(row.organizations) ? row.organizations[0] : row.organizations)
+        .filter(Boolean)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching quotable organizations:', error);
+      return [];
+    }
+  }
+
+  /** Users in the organization a quote can be sent to */
+  async getOrganizationContacts(organizationId: string): Promise<Array<{ id: string; email: string; full_name?: string | null }>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_organization_roles')
+        .select('profiles!inner(id, email, full_name)')
+        .eq('organization_id', organizationId);
+      if (error) throw error;
+
+      return (data || []).map((row: { profiles: { id: string; email: string; full_name?: string | null } | { id: string; email: string; full_name?: string | null }[] }) =>
+        Array.isArray(row.profiles) ? row.profiles[0] : row.profiles).filter(Boolean);
+    } catch (error) {
+      console.error('Error fetching organization contacts:', error);
+      return [];
+    }
+  }
+
+  private async setStatus(quoteId: string, status: QuoteStatus, from: QuoteStatus[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('quotes')
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', quoteId)
+        .in('status', from)
+        .select('id');
+      if (error) throw error;
+      if (!data || data.length === 0) return { success: false, error: 'The quote has changed; refresh and try again' };
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating quote:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update quote' };
+    }
+  }
+}
+
+export const quoteService = new QuoteService();
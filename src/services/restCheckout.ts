@@ -1,6 +1,9 @@
 import { supabase } from './supabase';
 import { orderService, CreateOrderData, OrderItem, Address } from './orderService';
 import { activityLogService } from './activityLog';
+import { taxService } from './tax';
+import { discountCodeService } from './discountCodes';
+import type { ShippingRate } from './shipping';
 
 export interface CartLineItem {
   product_id: number;
@@ -48,18 +51,33 @@ interface CheckoutFlowResult {
   cartId?: string;
   checkoutId?: string;
   orderId?: string;
+  tax?: number;
+  taxExempt?: boolean;
+  discount?: number;
+  shippingDiscount?: number;
   error?: string;
 }
 
+/** Discount code applied to a session, kept in checkout_sessions.metadata.discount */
+interface SessionDiscount {
+  code_id: string;
+  code: string;
+  amount: number;
+  shipping_discount: number;
+}
+
 class RestCheckoutService {
   async createCheckoutSession(
     userId: string,
     items: any[],
     organizationId?: string,
-    locationId?: string
+    locationId?: string,
+    quoteId?: string
   ): Promise<CheckoutFlowResult> {
     try {
       const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      // Tax depends on the destination, so it is calculated in addAddresses
+      // once the shipping address is known.
       const tax = 0;
       const shipping = 0;
       const total = subtotal + tax + shipping;
@@ -76,7 +94,11 @@ class RestCheckoutService {
           tax,
           shipping,
           total,
-          metadata: locationId ? { location_id: locationId } : {},
+          metadata: {
+            ...(locationId && { location_id: locationId }),
+            // Accepting a quote; the order insert checks the items against it
+            ...(quoteId && { quote_id: quoteId }),
+          },
         })
         .select()
         .maybeSingle();
@@ -145,12 +167,86 @@ class RestCheckoutService {
     }
   }
 
+  /**
+   * Record the shipping location chosen at checkout and store the cart items
+   * repriced for it (location contract prices already applied by the
+   * caller). A null location clears it, e.g. when a new address is typed in.
+   * Tax is recalculated on the new prices once an address is on the session.
+   */
+  async setShippingLocation(
+    sessionId: string,
+    locationId: string | null,
+    items: OrderItem[]
+  ): Promise<CheckoutFlowResult> {
+    try {
+      const { data: session } = await supabase
+        .from('checkout_sessions')
+        .select('tax, shipping, organization_id, shipping_address, metadata')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+      const shipping = session?.shipping || 0;
+      // Repricing invalidates any discount; the customer re-applies it on review
+      const metadata = { ...(session?.metadata || {}) };
+      delete metadata.location_id;
+      delete metadata.discount;
+
+      let cartItems = items;
+      let tax = session?.tax || 0;
+      let taxExempt: boolean | undefined;
+      // Once an address is on the session, tax follows the new prices
+      if (session?.shipping_address) {
+        const taxed = await this.calculateSessionTax(
+          items,
+          shipping,
+          session.shipping_address,
+          session.organization_id || undefined
+        );
+        cartItems = taxed.cartItems;
+        tax = taxed.tax;
+        taxExempt = taxed.taxExempt;
+        metadata.tax = taxed.details;
+      }
+
+      const { error } = await supabase
+        .from('checkout_sessions')
+        .update({
+          cart_items: cartItems,
+          location_id: locationId,
+          subtotal,
+          tax,
+          total: subtotal + tax + shipping,
+          metadata: locationId ? { ...metadata, location_id: locationId } : metadata,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', sessionId);
+
+      if (error) {
+        console.error('[RestCheckout] Failed to update session location:', error.message, error.code);
+        return {
+          success: false,
+          error: 'Failed to apply location pricing. Please try again.',
+        };
+      }
+
+      return { success: true, sessionId, tax, taxExempt };
+    } catch (error) {
+      console.error('Error setting shipping location:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply location pricing',
+      };
+    }
+  }
+
   async addAddresses(
     sessionId: string,
     cartId: string,
     billingAddress: AddressData,
     shippingAddress: AddressData,
-    shippingCost?: number
+    shippingCost?: number,
+    shippingRate?: ShippingRate
   ): Promise<CheckoutFlowResult> {
     try {
       const checkoutId = `checkout_${sessionId}`;
@@ -164,17 +260,67 @@ class RestCheckoutService {
         updated_at: new Date().toISOString(),
       };
 
-      if (shippingCost !== undefined) {
-        // Recalculate total with the actual shipping cost
-        const { data: session } = await supabase
-          .from('checkout_sessions')
-          .select('subtotal, tax')
-          .eq('id', sessionId)
-          .maybeSingle();
-
-        if (session) {
-          updateData.shipping = shippingCost;
-          updateData.total = session.subtotal + (session.tax || 0) + shippingCost;
+      const { data: session } = await supabase
+        .from('checkout_sessions')
+        .select('subtotal, shipping, cart_items, organization_id, metadata')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      let tax: number | undefined;
+      let taxExempt: boolean | undefined;
+      let sessionDiscount: SessionDiscount | undefined;
+
+      if (session) {
+        const shipping = shippingCost ?? (session.shipping || 0);
+        let discount: SessionDiscount | undefined = session.metadata?.discount;
+        let cartItems: OrderItem[] = session.cart_items || [];
+
+        // A shipping discount was worked out on the previous rate
+        if (discount && shipping !== (session.shipping || 0)) {
+          const applied = await this.discountCartItems(
+            discount.code,
+            cartItems,
+            shipping,
+            session.organization_id || undefined
+          );
+          if (applied.discount) {
+            cartItems = applied.cartItems;
+            discount = applied.discount;
+          } else {
+            discount = { ...discount, shipping_discount: Math.min(discount.shipping_discount, shipping) };
+          }
+        }
+        sessionDiscount = discount;
+
+        const taxed = await this.calculateSessionTax(
+          cartItems,
+          shipping - (discount?.shipping_discount || 0),
+          shippingAddress,
+          session.organization_id || undefined
+        );
+
+        tax = taxed.tax;
+        taxExempt = taxed.taxExempt;
+
+        updateData.cart_items = taxed.cartItems;
+        updateData.shipping = shipping;
+        updateData.tax = tax;
+        updateData.total = session.subtotal - (discount?.amount || 0) + shipping - (discount?.shipping_discount || 0) + tax;
+        updateData.metadata = { ...(session.metadata || {}), tax: taxed.details };
+        if (discount) {
+          updateData.metadata.discount = discount;
+        }
+        if (shippingRate) {
+          updateData.metadata.shipping = {
+            method_id: shippingRate.id,
+            name: shippingRate.name,
+            zone: shippingRate.zone,
+            weight_lbs: shippingRate.weightLbs,
+            surcharge: shippingRate.surcharge,
+            free_shipping: shippingRate.freeShipping,
+            negotiated: shippingRate.negotiated,
+            provider: shippingRate.provider,
+          };
         }
       }
 
@@ -196,6 +342,12 @@ class RestCheckoutService {
         sessionId,
         cartId,
         checkoutId,
+        tax,
+        taxExempt,
+        ...(sessionDiscount && {
+          discount: sessionDiscount.amount,
+          shippingDiscount: sessionDiscount.shipping_discount,
+        }),
       };
     } catch (error) {
       console.error('Error adding addresses:', error);
@@ -215,6 +367,171 @@ class RestCheckoutService {
     }
   }
 
+  /**
+   * Apply a discount code to the session, or remove it with a null code.
+   * The discount is spread over the cart lines (`discount` on each item) and
+   * tax is recalculated on the discounted prices once an address is known.
+   */
+  async applyDiscount(sessionId: string, code: string | null): Promise<CheckoutFlowResult> {
+    try {
+      const { data: session } = await supabase
+        .from('checkout_sessions')
+        .select('subtotal, shipping, cart_items, organization_id, shipping_address, metadata')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (!session) {
+        return { success: false, error: 'Checkout session not found' };
+      }
+
+      let cartItems: OrderItem[] = (session.cart_items || []).map((item: OrderItem) => ({ ...item, discount: 0 }));
+      const metadata = { ...(session.metadata || {}) };
+      delete metadata.discount;
+
+      let discount: SessionDiscount | undefined;
+      if (code) {
+        const applied = await this.discountCartItems(
+          code,
+          cartItems,
+          session.shipping || 0,
+          session.organization_id || undefined
+        );
+        if (!applied.discount) {
+          return { success: false, error: applied.error };
+        }
+        cartItems = applied.cartItems;
+        discount = applied.discount;
+      }
+
+      const shipping = session.shipping || 0;
+      const nextMetadata: Record<string, unknown> = discount ? { ...metadata, discount } : { ...metadata };
+      const updateData: Record<string, unknown> = {
+        cart_items: cartItems,
+        metadata: nextMetadata,
+        updated_at: new Date().toISOString(),
+      };
+
+      let tax = 0;
+      let taxExempt = false;
+      if (session.shipping_address) {
+        const taxed = await this.calculateSessionTax(
+          cartItems,
+          shipping - (discount?.shipping_discount || 0),
+          session.shipping_address,
+          session.organization_id || undefined
+        );
+        tax = taxed.tax;
+        taxExempt = taxed.taxExempt;
+        updateData.cart_items = taxed.cartItems;
+        updateData.tax = tax;
+        nextMetadata.tax = taxed.details;
+      }
+      updateData.total = session.subtotal - (discount?.amount || 0) + shipping - (discount?.shipping_discount || 0) + tax;
+
+      const { error } = await supabase
+        .from('checkout_sessions')
+        .update(updateData)
+        .eq('id', sessionId);
+
+      if (error) {
+        console.error('[RestCheckout] Failed to apply discount:', error.message, error.code);
+        return { success: false, error: 'Failed to apply discount code. Please try again.' };
+      }
+
+      return {
+        success: true,
+        sessionId,
+        tax,
+        taxExempt,
+        discount: discount?.amount || 0,
+        shippingDiscount: discount?.shipping_discount || 0,
+      };
+    } catch (error) {
+      console.error('Error applying discount code:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply discount code',
+      };
+    }
+  }
+
+  /**
+   * Spread a discount code over copies of the cart lines. The shipping
+   * discount depends on the shipping cost, so this runs again when it changes.
+   */
+  private async discountCartItems(
+    code: string,
+    items: OrderItem[],
+    shipping: number,
+    organizationId?: string
+  ): Promise<{ cartItems: OrderItem[]; discount?: SessionDiscount; error?: string }> {
+    const result = await discountCodeService.applyToItems(code, items, shipping, organizationId);
+    if (result.error || !result.code) {
+      return { cartItems: items, error: result.error || 'That code is not valid' };
+    }
+
+    const lineDiscount = new Map(result.lines.map(l => [l.productId, l.discount]));
+    return {
+      cartItems: items.map(item => ({ ...item, discount: lineDiscount.get(item.productId) || 0 })),
+      discount: {
+        code_id: result.code.id,
+        code: result.code.code,
+        amount: result.discount,
+        shipping_discount: result.shippingDiscount,
+      },
+    };
+  }
+
+  /**
+   * Tax for session items on their discounted prices, with per-line tax
+   * filled in. Throws when tax could not be calculated, so the session is
+   * never saved with a zero tax it does not owe.
+   */
+  private async calculateSessionTax(
+    cartItems: OrderItem[],
+    shipping: number,
+    shippingAddress: AddressData,
+    organizationId?: string
+  ) {
+    const taxResult = await taxService.calculateForItems(
+      cartItems.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        price: item.price - (item.discount || 0) / (item.quantity || 1),
+      })),
+      shipping,
+      {
+        state: shippingAddress.state_or_province,
+        postalCode: shippingAddress.postal_code,
+        country: shippingAddress.country_code,
+      },
+      organizationId
+    );
+    if (taxResult.error) {
+      throw new Error(taxResult.error);
+    }
+
+    const lineTax = new Map(taxResult.lines.map(l => [l.productId, l]));
+
+    return {
+      tax: taxResult.tax,
+      taxExempt: taxResult.exempt,
+      cartItems: cartItems.map(item => ({
+        ...item,
+        taxable: lineTax.get(item.productId)?.taxable ?? false,
+        tax: lineTax.get(item.productId)?.tax ?? 0,
+      })),
+      details: {
+        rate: taxResult.rate,
+        exempt: taxResult.exempt,
+        exemption_certificate: taxResult.exemptionCertificate || null,
+        jurisdiction: taxResult.jurisdiction || null,
+        provider: taxResult.provider,
+        shipping_tax: taxResult.shippingTax,
+      },
+    };
+  }
+
   async processPayment(
     sessionId: string,
     checkoutId: string,
@@ -231,6 +548,7 @@ class RestCheckoutService {
       paymentStatus?: string;
       paymentMethod?: string;
       paymentLastFour?: string;
+      poNumber?: string;
     }
   ): Promise<CheckoutFlowResult> {
     try {
@@ -282,6 +600,10 @@ class RestCheckoutService {
           image: item.image,
           hasMarkup: item.hasMarkup,
           brand: item.brand,
+          taxable: item.taxable,
+          tax: item.tax,
+          pricingSource: item.pricingSource,
+          discount: item.discount || undefined,
         })),
         subtotal: session.subtotal,
         tax: session.tax,
@@ -298,6 +620,16 @@ class RestCheckoutService {
         paymentAuthorizationId: paymentAuthId || undefined,
         paymentMethod: options?.paymentMethod,
         paymentLastFour: options?.paymentLastFour,
+        poNumber: options?.poNumber,
+        taxRate: session.metadata?.tax?.rate,
+        taxExempt: session.metadata?.tax?.exempt,
+        taxDetails: session.metadata?.tax,
+        discount: (session.metadata?.discount?.amount || 0) + (session.metadata?.discount?.shipping_discount || 0),
+        discountCode: session.metadata?.discount?.code,
+        discountCodeId: session.metadata?.discount?.code_id,
+        shippingMethod: session.metadata?.shipping?.name,
+        shippingMethodId: session.metadata?.shipping?.method_id,
+        quoteId: session.metadata?.quote_id,
       };
 
       const result = await orderService.createOrder(orderData);
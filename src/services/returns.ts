@@ -0,0 +1,364 @@
+import { supabase } from './supabase';
+import { orderService, refundableBalance } from './orderService';
+import { emailService } from './emailService';
+import type { RefundedLine } from './commissionAdjustments';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'cancelled' | 'received' | 'refunded' | 'closed';
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'expired' | 'no_longer_needed' | 'other';
+export type ReturnCondition = 'resaleable' | 'opened' | 'damaged' | 'expired';
+
+export interface ReturnLine {
+  id: string;
+  return_id: string;
+  product_id: number;
+  product_name: string;
+  unit_price: number;
+  quantity: number;
+  reason_code: ReturnReason;
+  reason_note?: string | null;
+  received_quantity?: number | null;
+  condition?: ReturnCondition | null;
+  restocked_quantity: number;
+}
+
+export interface ReturnRequest {
+  id: string;
+  rma_number?: string | null;
+  order_id: string;
+  organization_id?: string | null;
+  requested_by?: string | null;
+  status: ReturnStatus;
+  customer_notes?: string | null;
+  admin_notes?: string | null;
+  rejection_reason?: string | null;
+  return_carrier?: string | null;
+  return_tracking_number?: string | null;
+  return_label_url?: string | null;
+  approved_at?: string | null;
+  received_at?: string | null;
+  refund_amount?: number | null;
+  refund_error?: string | null;
+  refunded_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  return_request_lines?: ReturnLine[];
+  orders?: {
+    order_number?: string | null;
+    customer_email?: string | null;
+    subtotal: number;
+    tax: number;
+    total?: number;
+    payment_method?: string | null;
+    items?: Array<{ discount?: number }> | null;
+  } | null;
+}
+
+export interface RequestReturnLine {
+  productId: number;
+  quantity: number;
+  reason: ReturnReason;
+  note?: string;
+}
+
+export interface ReceiveReturnLine {
+  lineId: string;
+  receivedQuantity: number;
+  condition: ReturnCondition | null;
+}
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  received: 'Received',
+  refunded: 'Refunded',
+  closed: 'Closed',
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  expired: 'Expired or short-dated',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+export const RETURN_CONDITION_LABELS: Record<ReturnCondition, string> = {
+  resaleable: 'Resaleable',
+  opened: 'Opened',
+  damaged: 'Damaged',
+  expired: 'Expired',
+};
+
+/** Returns that still hold their requested quantities */
+const isOpenReturn = (ret: Pick<ReturnRequest, 'status'>) => ret.status !== 'rejected' && ret.status !== 'cancelled';
+
+/** Mirrors request_return: shipped or completed orders that weren't cancelled or refunded */
+export function canReturnOrder(order: { status: string; shipments?: unknown[] | null }): boolean {
+  if (order.status === 'cancelled' || order.status === 'refunded') return false;
+  return order.status === 'completed' || (order.shipments || []).length > 0;
+}
+
+/** Units of each product that can still be returned, keyed by product id */
+export function returnableQuantities(
+  items: Array<{ productId: number; quantity: number }>,
+  returns: ReturnRequest[]
+): Record<number, number> {
+  const remaining: Record<number, number> = {};
+  for (const item of items) {
+    remaining[item.productId] = (remaining[item.productId] || 0) + item.quantity;
+  }
+  for (const ret of returns.filter(isOpenReturn)) {
+    for (const line of ret.return_request_lines || []) {
+      if (remaining[line.product_id] !== undefined) {
+        remaining[line.product_id] = Math.max(0, remaining[line.product_id] - line.quantity);
+      }
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Refund for what actually came back: received units at the price paid plus
+ * the order's tax rate on them. Shipping is not refunded. Every received
+ * unit is refunded whatever its condition; condition only decides restocking.
+ * Line prices are already net of any discount code, and tax was charged on
+ * the discounted subtotal, so the rate is taken against that.
+ */
+export function returnRefund(
+  lines: Array<Pick<ReturnLine, 'product_id' | 'unit_price' | 'received_quantity'>>,
+  order: { subtotal: number; tax: number; items?: Array<{ discount?: number }> | null }
+): { amount: number; lines: RefundedLine[] } {
+  const received = lines.filter(line => (line.received_quantity || 0) > 0);
+  const goods = received.reduce((sum, line) => sum + Number(line.unit_price) * (line.received_quantity || 0), 0);
+  const itemDiscounts = (order.items || []).reduce((sum, item) => sum + (Number(item.discount) || 0), 0);
+  const taxedSubtotal = Number(order.subtotal) - itemDiscounts;
+  const taxRate = taxedSubtotal > 0 ? Number(order.tax) / taxedSubtotal : 0;
+
+  return {
+    amount: Math.round(goods * (1 + taxRate) * 100) / 100,
+    lines: received.map(line => ({ productId: line.product_id, quantity: line.received_quantity || 0 })),
+  };
+}
+
+const RETURN_SELECT = '*, return_request_lines(*), orders(order_number, customer_email, subtotal, tax, total, payment_method, items)';
+
+class ReturnService {
+  async getReturns(filter: { status?: ReturnStatus; orderIds?: string[] } = {}): Promise<{ returns: ReturnRequest[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('return_requests')
+        .select(RETURN_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (filter.status) query = query.eq('status', filter.status);
+      if (filter.orderIds) query = query.in('order_id', filter.orderIds);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return { returns: data || [] };
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      return { returns: [], error: error instanceof Error ? error.message : 'Failed to fetch returns' };
+    }
+  }
+
+  async requestReturn(orderId: string, lines: RequestReturnLine[], notes?: string): Promise<{ success: boolean; returnId?: string; error?: string }> {
+    const chosen = lines.filter(line => line.quantity > 0);
+    if (chosen.length === 0) return { success: false, error: 'Choose at least one item to return' };
+    if (chosen.some(line => line.reason === 'other' && !line.note?.trim())) {
+      return { success: false, error: 'Describe the reason when choosing Other' };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('request_return', {
+        p_order_id: orderId,
+        p_lines: chosen.map(line => ({
+          product_id: line.productId,
+          quantity: line.quantity,
+          reason_code: line.reason,
+          reason_note: line.note?.trim() || null,
+        })),
+        p_notes: notes?.trim() || null,
+      });
+
+      if (error) throw error;
+      return { success: true, returnId: data as string };
+    } catch (error) {
+      console.error('Error requesting return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to request return' };
+    }
+  }
+
+  async cancelRequest(returnId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('cancel_return_request', { p_return_id: returnId });
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling return request:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel request' };
+    }
+  }
+
+  async approve(
+    ret: ReturnRequest,
+    label: { carrier?: string; trackingNumber?: string; labelUrl?: string; notes?: string }
+  ): Promise<{ success: boolean; rmaNumber?: string; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('approve_return', {
+        p_return_id: ret.id,
+        p_carrier: label.carrier || null,
+        p_tracking_number: label.trackingNumber || null,
+        p_label_url: label.labelUrl || null,
+        p_notes: label.notes || null,
+      });
+      if (error) throw error;
+
+      const rmaNumber = data as string;
+      this.notify(ret, rmaNumber, 'Approved', [
+        `Write ${rmaNumber} on the outside of the package.`,
+        label.labelUrl ? `Print your return label: ${label.labelUrl}` : '',
+        label.notes || '',
+      ].filter(Boolean).join('\n'));
+      return { success: true, rmaNumber };
+    } catch (error) {
+      console.error('Error approving return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to approve return' };
+    }
+  }
+
+  async reject(ret: ReturnRequest, reason: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('reject_return', { p_return_id: ret.id, p_reason: reason });
+      if (error) throw error;
+
+      this.notify(ret, null, 'Rejected', reason.trim());
+      return { success: true };
+    } catch (error) {
+      console.error('Error rejecting return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to reject return' };
+    }
+  }
+
+  /**
+   * Records what came back, restocks resaleable units and refunds the
+   * received lines. A failed refund leaves the return received with the
+   * error so it can be retried.
+   */
+  async receive(
+    ret: ReturnRequest,
+    lines: ReceiveReturnLine[],
+    refundedBy: string,
+    warehouseId?: string
+  ): Promise<{ success: boolean; refunded?: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.rpc('receive_return', {
+        p_return_id: ret.id,
+        p_lines: lines.map(line => ({
+          line_id: line.lineId,
+          received_quantity: line.receivedQuantity,
+          condition: line.condition,
+        })),
+        p_warehouse_id: warehouseId || null,
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error receiving return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to record receipt' };
+    }
+
+    const refund = await this.issueRefund(ret.id, refundedBy);
+    return { success: true, refunded: refund.success, error: refund.error };
+  }
+
+  /** Refunds a received return through the order's payment */
+  async issueRefund(returnId: string, refundedBy: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: ret, error } = await supabase
+        .from('return_requests')
+        .select(RETURN_SELECT)
+        .eq('id', returnId)
+        .single();
+      if (error) throw error;
+      if (ret.status !== 'received') return { success: false, error: 'Only received returns can be refunded' };
+
+      const refund = returnRefund(ret.return_request_lines || [], ret.orders || { subtotal: 0, tax: 0 });
+      const now = new Date().toISOString();
+
+      // Never more than is left after earlier refunds on the order
+      const remaining = refundableBalance(Number(ret.orders?.total ?? 0), await orderService.getRefundedAmount(ret.order_id));
+      refund.amount = Math.min(refund.amount, remaining);
+
+      if (refund.amount <= 0) {
+        await supabase
+          .from('return_requests')
+          .update({ status: 'closed', refund_amount: 0, refund_error: null, updated_at: now })
+          .eq('id', returnId);
+        return { success: true };
+      }
+
+      const result = await orderService.refundPayment(ret.order_id, {
+        amount: refund.amount,
+        lines: refund.lines,
+        source: 'return',
+        clawbackCommission: true,
+        reason: `Return ${ret.rma_number}`,
+        refundedBy,
+        returnId,
+      });
+
+      if (!result.success) {
+        await supabase
+          .from('return_requests')
+          .update({ refund_error: result.error || 'Refund failed', updated_at: now })
+          .eq('id', returnId);
+        return { success: false, error: result.error };
+      }
+
+      // record_order_refund marked the return refunded with the refund
+      this.notify(ret, ret.rma_number, 'Refunded', `We received your return and refunded $${refund.amount.toFixed(2)} to your original payment method.`);
+      return { success: true };
+    } catch (error) {
+      console.error('Error refunding return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to refund return' };
+    }
+  }
+
+  /** Closes a received return whose refund was settled outside the payment provider, e.g. an invoice credit */
+  async close(returnId: string, note: string): Promise<{ success: boolean; error?: string }> {
+    if (!note.trim()) return { success: false, error: 'Note how the refund was settled' };
+
+    try {
+      const { error } = await supabase
+        .from('return_requests')
+        .update({ status: 'closed', admin_notes: note.trim(), refund_error: null, updated_at: new Date().toISOString() })
+        .eq('id', returnId)
+        .eq('status', 'received');
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error closing return:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to close return' };
+    }
+  }
+
+  private notify(ret: ReturnRequest, rmaNumber: string | null | undefined, statusLabel: string, message: string) {
+    const to = ret.orders?.customer_email;
+    if (!to) return;
+
+    const orderNumber = ret.orders?.order_number || ret.order_id.slice(0, 8);
+    emailService.sendNotification({
+      to,
+      email_type: 'return_status_update',
+      subject: `Your return for order ${orderNumber}: ${statusLabel}`,
+      template_data: { order_number: orderNumber, rma_number: rmaNumber || '', status_label: statusLabel, message },
+    }).catch(err => console.warn('Failed to send return email:', err));
+  }
+}
+
+export const returnService = new ReturnService();
@@ -0,0 +1,88 @@
+/**
+ * Minimal History API router. Routes are parsed from the path only; the
+ * query string is left alone (the QuickBooks OAuth callback relies on it).
+ *
+ *   /                       catalog
+ *   /category/:slug         catalog filtered to a category
+ *   /products/:slug         product detail over the catalog
+ *   /account/orders[/:id]   order history, optionally with one order open
+ *   /admin[/:tab]           dashboard tab
+ *   /legal/eula, /legal/privacy
+ */
+
+export type LegalDocument = 'eula' | 'privacy';
+
+export type AppRoute =
+  | { page: 'catalog' }
+  | { page: 'category'; slug: string }
+  | { page: 'product'; slug: string }
+  | { page: 'orders'; orderId?: string }
+  | { page: 'admin'; tab?: string }
+  | { page: 'legal'; document: LegalDocument };
+
+/** Fired after navigate() changes the URL; popstate covers back/forward */
+export const NAVIGATE_EVENT = 'app:navigate';
+
+export function parseRoute(pathname: string): AppRoute {
+  const segments = pathname
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+
+  const [first, second, third] = segments;
+  switch (first) {
+    case 'category':
+      return second ? { page: 'category', slug: second } : { page: 'catalog' };
+    case 'products':
+      return second ? { page: 'product', slug: second } : { page: 'catalog' };
+    case 'account':
+      return second === 'orders' ? { page: 'orders', orderId: third } : { page: 'catalog' };
+    case 'admin':
+      return { page: 'admin', tab: second };
+    case 'legal':
+      return second === 'eula' || second === 'privacy' ? { page: 'legal', document: second } : { page: 'catalog' };
+    default:
+      return { page: 'catalog' };
+  }
+}
+
+export function routePath(route: AppRoute): string {
+  switch (route.page) {
+    case 'catalog':
+      return '/';
+    case 'category':
+      return `/category/${encodeURIComponent(route.slug)}`;
+    case 'product':
+      return `/products/${encodeURIComponent(route.slug)}`;
+    case 'orders':
+      return route.orderId ? `/account/orders/${encodeURIComponent(route.orderId)}` : '/account/orders';
+    case 'admin':
+      return route.tab ? `/admin/${encodeURIComponent(route.tab)}` : '/admin';
+    case 'legal':
+      return `/legal/${route.document}`;
+  }
+}
+
+/** Pushes a new history entry (or replaces the current one) unless already there */
+export function navigate(route: AppRoute, options: { replace?: boolean } = {}): void {
+  const path = routePath(route);
+  if (path === window.location.pathname) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/** Absolute URL for sharing a route, e.g. a rep sending a customer a product link */
+export function routeUrl(route: AppRoute): string {
+  return `${window.location.origin}${routePath(route)}`;
+}
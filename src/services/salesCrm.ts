@@ -0,0 +1,296 @@
+import { supabase } from './supabase';
+
+export type PipelineStage = 'lead' | 'sampling' | 'first_order' | 'active';
+export type ActivityType = 'call' | 'visit' | 'email' | 'note' | 'stage_change';
+export type TaskTiming = 'overdue' | 'due_today' | 'upcoming' | 'done';
+export type ReorderStatus = 'overdue' | 'due' | 'upcoming';
+
+export interface CrmActivity {
+  id: string;
+  organization_id: string;
+  author_id: string | null;
+  activity_type: ActivityType;
+  subject: string;
+  body?: string | null;
+  occurred_at: string;
+  created_at: string;
+  profiles?: { full_name?: string | null; email?: string | null } | null;
+}
+
+export interface CrmTask {
+  id: string;
+  organization_id: string;
+  assigned_to: string;
+  activity_id?: string | null;
+  title: string;
+  notes?: string | null;
+  due_at: string;
+  remind_at?: string | null;
+  reminder_sent_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  organizations?: { name: string } | null;
+}
+
+export interface ReorderPrediction {
+  lastOrderAt: string;
+  orderCount: number;
+  /** Median days between the customer's recent orders */
+  cadenceDays: number;
+  nextDueAt: string;
+  /** Negative once the customer is past due */
+  daysUntilDue: number;
+  status: ReorderStatus;
+}
+
+export interface LogActivityInput {
+  organizationId: string;
+  authorId: string;
+  type: Exclude<ActivityType, 'stage_change'>;
+  subject: string;
+  body?: string;
+  occurredAt?: string;
+}
+
+export interface CreateTaskInput {
+  organizationId: string;
+  assignedTo: string;
+  title: string;
+  notes?: string;
+  dueAt: string;
+  remindAt?: string | null;
+  activityId?: string;
+}
+
+/** In pipeline order */
+export const PIPELINE_STAGES: PipelineStage[] = ['lead', 'sampling', 'first_order', 'active'];
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+  lead: 'Lead',
+  sampling: 'Sampling',
+  first_order: 'First Order',
+  active: 'Active',
+};
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  call: 'Call',
+  visit: 'Visit',
+  email: 'Email',
+  note: 'Note',
+  stage_change: 'Stage change',
+};
+
+/** A reorder is "due" this many days before the predicted date */
+export const REORDER_DUE_WINDOW_DAYS = 7;
+
+/** Intervals used for the cadence; older buying patterns matter less */
+const CADENCE_INTERVALS = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Predicts when a customer will reorder from the median gap between its
+ * recent orders. Orders on the same day count once. Returns null until the
+ * customer has ordered on at least two different days.
+ */
+export function predictReorder(orderDates: string[], now: Date = new Date()): ReorderPrediction | null {
+  const days = [...new Set(orderDates.map(d => startOfDay(new Date(d)).getTime()))].sort((a, b) => a - b);
+  if (days.length < 2) return null;
+
+  const intervals = days.slice(1).map((day, i) => Math.round((day - days[i]) / DAY_MS)).slice(-CADENCE_INTERVALS);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const cadenceDays = sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+
+  const last = days[days.length - 1];
+  const nextDue = new Date(last);
+  nextDue.setDate(nextDue.getDate() + cadenceDays);
+  const daysUntilDue = Math.round((nextDue.getTime() - startOfDay(now).getTime()) / DAY_MS);
+
+  return {
+    lastOrderAt: new Date(last).toISOString(),
+    orderCount: days.length,
+    cadenceDays,
+    nextDueAt: nextDue.toISOString(),
+    daysUntilDue,
+    status: daysUntilDue < 0 ? 'overdue' : daysUntilDue <= REORDER_DUE_WINDOW_DAYS ? 'due' : 'upcoming',
+  };
+}
+
+export function taskTiming(task: Pick<CrmTask, 'due_at' | 'completed_at'>, now: Date = new Date()): TaskTiming {
+  if (task.completed_at) return 'done';
+  const due = new Date(task.due_at);
+  if (due < startOfDay(now)) return 'overdue';
+  if (startOfDay(due).getTime() === startOfDay(now).getTime()) return 'due_today';
+  return 'upcoming';
+}
+
+class SalesCrmService {
+  async getActivities(organizationId: string): Promise<{ activities: CrmActivity[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('crm_activities')
+        .select('*, profiles!author_id(full_name, email)')
+        .eq('organization_id', organizationId)
+        .order('occurred_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return { activities: data || [] };
+    } catch (error) {
+      console.error('Error fetching CRM activities:', error);
+      return { activities: [], error: error instanceof Error ? error.message : 'Failed to fetch activities' };
+    }
+  }
+
+  async logActivity(input: LogActivityInput): Promise<{ success: boolean; activityId?: string; error?: string }> {
+    if (!input.subject.trim()) return { success: false, error: 'Add a short summary of the activity' };
+
+    try {
+      const { data, error } = await supabase
+        .from('crm_activities')
+        .insert({
+          organization_id: input.organizationId,
+          author_id: input.authorId,
+          activity_type: input.type,
+          subject: input.subject.trim(),
+          body: input.body?.trim() || null,
+          occurred_at: input.occurredAt || new Date().toISOString(),
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return { success: true, activityId: data.id };
+    } catch (error) {
+      console.error('Error logging CRM activity:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to log activity' };
+    }
+  }
+
+  async deleteActivity(activityId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('crm_activities').delete().eq('id', activityId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting CRM activity:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete activity' };
+    }
+  }
+
+  /** Follow-ups for one organization, or every open follow-up assigned to a rep */
+  async getTasks(filter: { organizationId?: string; assignedTo?: string; openOnly?: boolean }): Promise<{ tasks: CrmTask[]; error?: string }> {
+    try {
+      let query = supabase
+        .from('crm_tasks')
+        .select('*, organizations(name)')
+        .order('due_at', { ascending: true });
+
+      if (filter.organizationId) query = query.eq('organization_id', filter.organizationId);
+      if (filter.assignedTo) query = query.eq('assigned_to', filter.assignedTo);
+      if (filter.openOnly) query = query.is('completed_at', null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return { tasks: data || [] };
+    } catch (error) {
+      console.error('Error fetching CRM tasks:', error);
+      return { tasks: [], error: error instanceof Error ? error.message : 'Failed to fetch follow-ups' };
+    }
+  }
+
+  async createTask(input: CreateTaskInput): Promise<{ success: boolean; error?: string }> {
+    if (!input.title.trim()) return { success: false, error: 'Give the follow-up a title' };
+    if (input.remindAt && new Date(input.remindAt) > new Date(input.dueAt)) {
+      return { success: false, error: 'The reminder must be on or before the due date' };
+    }
+
+    try {
+      const { error } = await supabase.from('crm_tasks').insert({
+        organization_id: input.organizationId,
+        assigned_to: input.assignedTo,
+        title: input.title.trim(),
+        notes: input.notes?.trim() || null,
+        due_at: input.dueAt,
+        remind_at: input.remindAt || null,
+        activity_id: input.activityId || null,
+      });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error creating CRM task:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create follow-up' };
+    }
+  }
+
+  async setTaskCompleted(taskId: string, completed: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('crm_tasks')
+        .update({ completed_at: completed ? new Date().toISOString() : null, updated_at: new Date().toISOString() })
+        .eq('id', taskId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating CRM task:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update follow-up' };
+    }
+  }
+
+  async deleteTask(taskId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('crm_tasks').delete().eq('id', taskId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting CRM task:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete follow-up' };
+    }
+  }
+
+  async setPipelineStage(organizationId: string, stage: PipelineStage): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ pipeline_stage: stage })
+        .eq('id', organizationId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating pipeline stage:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update stage' };
+    }
+  }
+
+  /** Reorder predictions for each customer the rep covers, keyed by organization id */
+  async getReorderPredictions(salesRepId: string): Promise<Record<string, ReorderPrediction>> {
+    const { data, error } = await supabase.rpc('get_customer_order_dates', { p_sales_rep_id: salesRepId });
+
+    if (error) {
+      console.error('Error fetching customer order history:', error);
+      return {};
+    }
+
+    const datesByOrg: Record<string, string[]> = {};
+    for (const row of (data || []) as Array<{ organization_id: string; ordered_at: string }>) {
+      datesByOrg[row.organization_id] = [...(datesByOrg[row.organization_id] || []), row.ordered_at];
+    }
+
+    const predictions: Record<string, ReorderPrediction> = {};
+    for (const [orgId, dates] of Object.entries(datesByOrg)) {
+      const prediction = predictReorder(dates);
+      if (prediction) predictions[orgId] = prediction;
+    }
+    return predictions;
+  }
+}
+
+export const salesCrmService = new SalesCrmService();
@@ -0,0 +1,136 @@
+import { supabase } from '../supabase';
+import { LocalShippingRateProvider } from './localRateTable';
+import type {
+  ShippingDestination,
+  ShippingMethod,
+  ShippingRate,
+  ShippingRateProvider,
+  ShippingRateRequest,
+} from './provider';
+
+export {
+  LocalShippingRateProvider,
+  supabaseShippingRateSource,
+  resolveZone,
+  rateForWeight,
+  countOversizedUnits,
+} from './localRateTable';
+export { toPounds, calculateCartWeight } from './provider';
+export { shippingRateTableService } from './rateTables';
+
+export type {
+  ShippingDestination,
+  ShippingLine,
+  ShippingMethod,
+  ShippingRate,
+  ShippingRateProvider,
+  ShippingRateRequest,
+} from './provider';
+export type {
+  ShippingMethodRule,
+  ShippingZone,
+  ShippingRateRow,
+  OrganizationShippingRate,
+  ShippingRateSource,
+} from './localRateTable';
+
+/**
+ * Flat prices used when no rate table covers the destination or the
+ * provider fails, so checkout always has something to offer.
+ */
+export const FALLBACK_SHIPPING_METHODS: ShippingMethod[] = [
+  { id: 'standard', name: 'Standard Shipping', price: 9.99, days: '5-7 business days' },
+  { id: 'express', name: 'Express Shipping', price: 19.99, days: '2-3 business days' },
+  { id: 'overnight', name: 'Overnight Shipping', price: 39.99, days: '1 business day' },
+];
+
+interface ShippableItem {
+  productId: number;
+  quantity: number;
+  price: number;
+}
+
+function fallbackRates(): ShippingRate[] {
+  return FALLBACK_SHIPPING_METHODS.map(method => ({
+    ...method,
+    weightLbs: 0,
+    surcharge: 0,
+    freeShipping: false,
+    negotiated: false,
+    provider: 'fallback',
+  }));
+}
+
+class ShippingService {
+  private provider: ShippingRateProvider = new LocalShippingRateProvider();
+
+  setProvider(provider: ShippingRateProvider): void {
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Rates for a request. Never throws — a provider failure, or a
+   * destination no rate table covers, falls back to flat prices.
+   */
+  async getRates(request: ShippingRateRequest): Promise<ShippingRate[]> {
+    try {
+      const rates = await this.provider.getRates(request);
+      if (rates.length > 0) return rates;
+    } catch (error) {
+      console.error('Error calculating shipping rates:', error);
+    }
+    return fallbackRates();
+  }
+
+  /**
+   * Rates for cart/order items, looking up each product's weight.
+   */
+  async getRatesForItems(
+    items: ShippableItem[],
+    destination: ShippingDestination,
+    organizationId?: string
+  ): Promise<ShippingRate[]> {
+    const weights = await this.getProductWeights(items.map(i => i.productId));
+
+    return this.getRates({
+      lines: items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        weight: weights.get(item.productId)?.weight,
+        weightUnit: weights.get(item.productId)?.weightUnit,
+      })),
+      destination,
+      organizationId,
+    });
+  }
+
+  private async getProductWeights(productIds: number[]): Promise<Map<number, { weight?: number; weightUnit?: string }>> {
+    if (productIds.length === 0) return new Map();
+
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, weight, weight_unit')
+        .in('id', productIds);
+
+      if (error) throw error;
+
+      return new Map(
+        (data || []).map(p => [
+          p.id as number,
+          { weight: p.weight ? Number(p.weight) : undefined, weightUnit: p.weight_unit || 'lb' },
+        ])
+      );
+    } catch (error) {
+      console.error('Error fetching product weights for shipping:', error);
+      return new Map();
+    }
+  }
+}
+
+export const shippingService = new ShippingService();
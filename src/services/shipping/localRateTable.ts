@@ -0,0 +1,228 @@
+import { supabase } from '../supabase';
+import { cacheService, CacheTTL } from '../cache';
+import { roundCurrency } from '../tax';
+import {
+  calculateCartWeight,
+  toPounds,
+  type ShippingRate,
+  type ShippingRateProvider,
+  type ShippingRateRequest,
+} from './provider';
+
+export interface ShippingMethodRule {
+  id: string;
+  name: string;
+  days: string;
+  /** Carts with a subtotal at or above this ship free */
+  free_shipping_threshold: number | null;
+  /** Units weighing at least this much (lb) are oversized */
+  oversized_weight_lbs: number | null;
+  /** Added once per oversized unit */
+  oversized_surcharge: number;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  country: string;
+  /** Empty = every state in the country not claimed by another zone */
+  state_codes: string[];
+}
+
+export interface ShippingRateRow {
+  id: string;
+  method_id: string;
+  zone_id: string;
+  /** Bracket applies from this weight (lb) up to the next bracket */
+  min_weight_lbs: number;
+  base_rate: number;
+  /** Charged per pound above min_weight_lbs */
+  per_lb_rate: number;
+}
+
+export interface OrganizationShippingRate {
+  id: string;
+  organization_id: string;
+  method_id: string;
+  flat_rate: number;
+}
+
+/**
+ * Where the local provider reads its tables from. The default reads
+ * Supabase; tests pass an in-memory source.
+ */
+export interface ShippingRateSource {
+  getMethods(): Promise<ShippingMethodRule[]>;
+  getZones(country: string): Promise<ShippingZone[]>;
+  getRates(zoneId: string): Promise<ShippingRateRow[]>;
+  getOrganizationRates(organizationId: string): Promise<OrganizationShippingRate[]>;
+}
+
+const toNumber = (value: unknown): number => Number(value) || 0;
+const toNumberOrNull = (value: unknown): number | null => (value == null ? null : Number(value));
+
+export const supabaseShippingRateSource: ShippingRateSource = {
+  async getMethods() {
+    const cached = cacheService.get<ShippingMethodRule[]>('shipping_methods');
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('shipping_methods')
+      .select('id, name, days, free_shipping_threshold, oversized_weight_lbs, oversized_surcharge, sort_order, is_active')
+      .eq('is_active', true)
+      .order('sort_order');
+
+    if (error) throw error;
+
+    const rows = (data || []).map(row => ({
+      ...row,
+      free_shipping_threshold: toNumberOrNull(row.free_shipping_threshold),
+      oversized_weight_lbs: toNumberOrNull(row.oversized_weight_lbs),
+      oversized_surcharge: toNumber(row.oversized_surcharge),
+    }));
+    cacheService.set('shipping_methods', rows, CacheTTL.pricing);
+    return rows;
+  },
+
+  async getZones(country) {
+    const cacheKey = `shipping_zones_${country}`;
+    const cached = cacheService.get<ShippingZone[]>(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('shipping_zones')
+      .select('id, name, country, state_codes')
+      .eq('country', country);
+
+    if (error) throw error;
+
+    const rows = (data || []).map(row => ({ ...row, state_codes: row.state_codes || [] }));
+    cacheService.set(cacheKey, rows, CacheTTL.pricing);
+    return rows;
+  },
+
+  async getRates(zoneId) {
+    const cacheKey = `shipping_rates_${zoneId}`;
+    const cached = cacheService.get<ShippingRateRow[]>(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('shipping_rates')
+      .select('id, method_id, zone_id, min_weight_lbs, base_rate, per_lb_rate')
+      .eq('zone_id', zoneId);
+
+    if (error) throw error;
+
+    const rows = (data || []).map(row => ({
+      ...row,
+      min_weight_lbs: toNumber(row.min_weight_lbs),
+      base_rate: toNumber(row.base_rate),
+      per_lb_rate: toNumber(row.per_lb_rate),
+    }));
+    cacheService.set(cacheKey, rows, CacheTTL.pricing);
+    return rows;
+  },
+
+  async getOrganizationRates(organizationId) {
+    const { data, error } = await supabase
+      .from('organization_shipping_rates')
+      .select('id, organization_id, method_id, flat_rate')
+      .eq('organization_id', organizationId);
+
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, flat_rate: toNumber(row.flat_rate) }));
+  },
+};
+
+/**
+ * A zone listing the destination state wins over the country's catch-all
+ * zone (one with no states).
+ */
+export function resolveZone(zones: ShippingZone[], stateCode: string): ShippingZone | null {
+  const state = stateCode.trim().toUpperCase();
+  return zones.find(z => z.state_codes.includes(state))
+    || zones.find(z => z.state_codes.length === 0)
+    || null;
+}
+
+/**
+ * Price a weight against one method's brackets: the bracket with the
+ * highest min_weight_lbs not above the weight applies, plus its per-pound
+ * rate for the weight beyond that minimum. Null if no bracket applies.
+ */
+export function rateForWeight(rows: ShippingRateRow[], weightLbs: number): number | null {
+  let bracket: ShippingRateRow | null = null;
+  for (const row of rows) {
+    if (row.min_weight_lbs > weightLbs) continue;
+    if (!bracket || row.min_weight_lbs > bracket.min_weight_lbs) {
+      bracket = row;
+    }
+  }
+
+  if (!bracket) return null;
+  return roundCurrency(bracket.base_rate + bracket.per_lb_rate * (weightLbs - bracket.min_weight_lbs));
+}
+
+/** Units heavy enough to trigger the method's oversized surcharge. */
+export function countOversizedUnits(method: ShippingMethodRule, request: ShippingRateRequest): number {
+  if (!method.oversized_weight_lbs || method.oversized_surcharge <= 0) return 0;
+  return request.lines
+    .filter(line => toPounds(line.weight, line.weightUnit) >= method.oversized_weight_lbs!)
+    .reduce((sum, line) => sum + line.quantity, 0);
+}
+
+export class LocalShippingRateProvider implements ShippingRateProvider {
+  readonly name = 'local_rate_table';
+
+  constructor(private source: ShippingRateSource = supabaseShippingRateSource) {}
+
+  async getRates(request: ShippingRateRequest): Promise<ShippingRate[]> {
+    const country = (request.destination.country || 'US').toUpperCase();
+    const zone = resolveZone(await this.source.getZones(country), request.destination.state);
+    if (!zone) return [];
+
+    const [methods, rates, negotiated] = await Promise.all([
+      this.source.getMethods(),
+      this.source.getRates(zone.id),
+      request.organizationId
+        ? this.source.getOrganizationRates(request.organizationId)
+        : Promise.resolve([] as OrganizationShippingRate[]),
+    ]);
+
+    const weightLbs = calculateCartWeight(request.lines);
+    const subtotal = request.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    const result: ShippingRate[] = [];
+
+    for (const method of methods) {
+      if (!method.is_active) continue;
+
+      const base = rateForWeight(rates.filter(r => r.method_id === method.id), weightLbs);
+      if (base === null) continue;
+
+      const surcharge = roundCurrency(countOversizedUnits(method, request) * method.oversized_surcharge);
+      const flat = negotiated.find(r => r.method_id === method.id);
+      const freeShipping = method.free_shipping_threshold != null && subtotal >= method.free_shipping_threshold;
+
+      // Negotiated flat rates replace the table price and surcharges
+      let price = flat ? flat.flat_rate : roundCurrency(base + surcharge);
+      if (freeShipping) price = 0;
+
+      result.push({
+        id: method.id,
+        name: method.name,
+        days: method.days,
+        price,
+        weightLbs,
+        zone: zone.name,
+        surcharge: flat || freeShipping ? 0 : surcharge,
+        freeShipping,
+        negotiated: !!flat && !freeShipping,
+        provider: this.name,
+      });
+    }
+
+    return result;
+  }
+}
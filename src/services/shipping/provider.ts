@@ -0,0 +1,72 @@
+export interface ShippingMethod {
+  id: string;
+  name: string;
+  price: number;
+  days: string;
+}
+
+export interface ShippingDestination {
+  state: string;
+  postalCode: string;
+  country?: string;
+}
+
+export interface ShippingLine {
+  productId: number;
+  quantity: number;
+  unitPrice: number;
+  /** Per-unit weight as stored on the product */
+  weight?: number;
+  weightUnit?: string;
+}
+
+export interface ShippingRateRequest {
+  lines: ShippingLine[];
+  destination: ShippingDestination;
+  organizationId?: string;
+}
+
+/** A priced shipping option for one cart and destination. */
+export interface ShippingRate extends ShippingMethod {
+  /** Billable cart weight in pounds */
+  weightLbs: number;
+  zone?: string;
+  /** Oversized-item surcharge included in price */
+  surcharge: number;
+  /** Price was waived by the method's free-shipping threshold */
+  freeShipping: boolean;
+  /** Price is the organization's negotiated flat rate */
+  negotiated: boolean;
+  provider: string;
+}
+
+/**
+ * A shipping-rate calculator. The local rate-table provider is the default;
+ * a carrier API (UPS, FedEx, ShipEngine, ...) can be swapped in through
+ * shippingService.setProvider() without touching checkout.
+ */
+export interface ShippingRateProvider {
+  readonly name: string;
+  getRates(request: ShippingRateRequest): Promise<ShippingRate[]>;
+}
+
+const POUNDS_PER_UNIT: Record<string, number> = {
+  lb: 1,
+  lbs: 1,
+  oz: 1 / 16,
+  kg: 2.20462,
+  g: 0.00220462,
+};
+
+/** Convert a product weight to pounds. Unknown units are treated as pounds. */
+export function toPounds(weight: number | undefined, unit: string | undefined): number {
+  if (!weight || weight <= 0) return 0;
+  return weight * (POUNDS_PER_UNIT[(unit || 'lb').toLowerCase()] ?? 1);
+}
+
+/** Total cart weight in pounds, rounded up to the next tenth. */
+export function calculateCartWeight(lines: ShippingLine[]): number {
+  const pounds = lines.reduce((sum, line) => sum + toPounds(line.weight, line.weightUnit) * line.quantity, 0);
+  // Round off float noise first so 1.2 lb does not bill as 1.3
+  return Math.ceil(Math.round(pounds * 1000) / 100) / 10;
+}
@@ -0,0 +1,187 @@
+import { supabase } from '../supabase';
+import { cacheService } from '../cache';
+import type {
+  OrganizationShippingRate,
+  ShippingMethodRule,
+  ShippingRateRow,
+  ShippingZone,
+} from './localRateTable';
+
+type SaveResult = { success: boolean; error?: string };
+
+function failure(error: unknown, fallback: string): SaveResult {
+  console.error(`${fallback}:`, error);
+  return { success: false, error: error instanceof Error ? error.message : fallback };
+}
+
+/** Drop the cached tables the checkout provider reads. */
+function invalidate(zoneId?: string): void {
+  cacheService.delete('shipping_methods');
+  cacheService.delete('shipping_zones_US');
+  if (zoneId) cacheService.delete(`shipping_rates_${zoneId}`);
+}
+
+/**
+ * Admin maintenance of the local shipping rate tables (methods, zones,
+ * weight brackets and negotiated organization rates).
+ */
+export const shippingRateTableService = {
+  async getMethods(): Promise<ShippingMethodRule[]> {
+    const { data, error } = await supabase
+      .from('shipping_methods')
+      .select('*')
+      .order('sort_order');
+
+    if (error) {
+      console.error('Error fetching shipping methods:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async saveMethod(method: ShippingMethodRule): Promise<SaveResult> {
+    try {
+      const { error } = await supabase
+        .from('shipping_methods')
+        .upsert({ ...method, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+      invalidate();
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to save shipping method');
+    }
+  },
+
+  async getZones(): Promise<ShippingZone[]> {
+    const { data, error } = await supabase
+      .from('shipping_zones')
+      .select('id, name, country, state_codes')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching shipping zones:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async saveZone(zone: Omit<ShippingZone, 'id'> & { id?: string }): Promise<SaveResult> {
+    try {
+      const payload = {
+        ...zone,
+        country: zone.country.trim().toUpperCase() || 'US',
+        state_codes: zone.state_codes.map(s => s.trim().toUpperCase()).filter(Boolean),
+      };
+      const { error } = zone.id
+        ? await supabase.from('shipping_zones').update(payload).eq('id', zone.id)
+        : await supabase.from('shipping_zones').insert(payload);
+
+      if (error) throw error;
+      invalidate(zone.id);
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to save shipping zone');
+    }
+  },
+
+  async deleteZone(id: string): Promise<SaveResult> {
+    try {
+      const { error } = await supabase.from('shipping_zones').delete().eq('id', id);
+      if (error) throw error;
+      invalidate(id);
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to delete shipping zone');
+    }
+  },
+
+  async getRates(): Promise<ShippingRateRow[]> {
+    const { data, error } = await supabase
+      .from('shipping_rates')
+      .select('id, method_id, zone_id, min_weight_lbs, base_rate, per_lb_rate')
+      .order('min_weight_lbs');
+
+    if (error) {
+      console.error('Error fetching shipping rates:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async saveRate(rate: Omit<ShippingRateRow, 'id'> & { id?: string }): Promise<SaveResult> {
+    try {
+      const { error } = rate.id
+        ? await supabase.from('shipping_rates').update(rate).eq('id', rate.id)
+        : await supabase.from('shipping_rates').insert(rate);
+
+      if (error) {
+        if (error.code === '23505') {
+          return { success: false, error: 'A bracket starting at that weight already exists for this method and zone' };
+        }
+        throw error;
+      }
+      invalidate(rate.zone_id);
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to save shipping rate');
+    }
+  },
+
+  async deleteRate(rate: ShippingRateRow): Promise<SaveResult> {
+    try {
+      const { error } = await supabase.from('shipping_rates').delete().eq('id', rate.id);
+      if (error) throw error;
+      invalidate(rate.zone_id);
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to delete shipping rate');
+    }
+  },
+
+  async getOrganizationRates(): Promise<(OrganizationShippingRate & { organization_name?: string })[]> {
+    const { data, error } = await supabase
+      .from('organization_shipping_rates')
+      .select('id, organization_id, method_id, flat_rate, organizations(name)')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching negotiated shipping rates:', error);
+      return [];
+    }
+    return (data || []).map(row => {
+      // Many-to-one embeds come back as an object, but are typed as an array
+      const org = row.organizations as unknown as { name: string } | null;
+      return {
+        id: row.id,
+        organization_id: row.organization_id,
+        method_id: row.method_id,
+        flat_rate: Number(row.flat_rate),
+        organization_name: org?.name,
+      };
+    });
+  },
+
+  async saveOrganizationRate(rate: Omit<OrganizationShippingRate, 'id'>): Promise<SaveResult> {
+    try {
+      const { error } = await supabase
+        .from('organization_shipping_rates')
+        .upsert(rate, { onConflict: 'organization_id,method_id' });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to save negotiated shipping rate');
+    }
+  },
+
+  async deleteOrganizationRate(id: string): Promise<SaveResult> {
+    try {
+      const { error } = await supabase.from('organization_shipping_rates').delete().eq('id', id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      return failure(error, 'Failed to delete negotiated shipping rate');
+    }
+  },
+};
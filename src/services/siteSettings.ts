@@ -1,12 +1,5 @@
 import { supabase } from './supabase';
 
-export interface ShippingMethod {
-  id: string;
-  name: string;
-  price: number;
-  days: string;
-}
-
 export interface ContactInfo {
   phone: string;
   email: string;
@@ -15,17 +8,11 @@ export interface ContactInfo {
 }
 
 export interface SiteSettings {
-  shipping: ShippingMethod[];
   contact: ContactInfo;
   sessionTimeoutMinutes: number;
 }
 
 const DEFAULT_SETTINGS: SiteSettings = {
-  shipping: [
-    { id: 'standard', name: 'Standard Shipping', price: 9.99, days: '5-7 business days' },
-    { id: 'express', name: 'Express Shipping', price: 19.99, days: '2-3 business days' },
-    { id: 'overnight', name: 'Overnight Shipping', price: 39.99, days: '1 business day' },
-  ],
   contact: {
     phone: '',
     email: 'info@hs360.co',
@@ -73,39 +60,6 @@ function parseSettingsRows(rows: Array<{ key: string; value: unknown }>): Partia
     map.set(row.key, row.value);
   }
 
-  const shipping: ShippingMethod[] = [
-    {
-      id: 'standard',
-      name: 'Standard Shipping',
-      price: typeof map.get('shipping_standard_price') === 'number'
-        ? (map.get('shipping_standard_price') as number)
-        : DEFAULT_SETTINGS.shipping[0].price,
-      days: typeof map.get('shipping_standard_days') === 'string'
-        ? (map.get('shipping_standard_days') as string)
-        : DEFAULT_SETTINGS.shipping[0].days,
-    },
-    {
-      id: 'express',
-      name: 'Express Shipping',
-      price: typeof map.get('shipping_express_price') === 'number'
-        ? (map.get('shipping_express_price') as number)
-        : DEFAULT_SETTINGS.shipping[1].price,
-      days: typeof map.get('shipping_express_days') === 'string'
-        ? (map.get('shipping_express_days') as string)
-        : DEFAULT_SETTINGS.shipping[1].days,
-    },
-    {
-      id: 'overnight',
-      name: 'Overnight Shipping',
-      price: typeof map.get('shipping_overnight_price') === 'number'
-        ? (map.get('shipping_overnight_price') as number)
-        : DEFAULT_SETTINGS.shipping[2].price,
-      days: typeof map.get('shipping_overnight_days') === 'string'
-        ? (map.get('shipping_overnight_days') as string)
-        : DEFAULT_SETTINGS.shipping[2].days,
-    },
-  ];
-
   const contact: ContactInfo = {
     phone: typeof map.get('contact_phone') === 'string'
       ? (map.get('contact_phone') as string)
@@ -126,7 +80,7 @@ function parseSettingsRows(rows: Array<{ key: string; value: unknown }>): Partia
     ? timeoutVal
     : DEFAULT_SETTINGS.sessionTimeoutMinutes;
 
-  return { shipping, contact, sessionTimeoutMinutes };
+  return { contact, sessionTimeoutMinutes };
 }
 
 export const siteSettingsService = {
@@ -149,7 +103,6 @@ export const siteSettingsService = {
 
       const parsed = parseSettingsRows(data);
       const merged: SiteSettings = {
-        shipping: parsed.shipping || DEFAULT_SETTINGS.shipping,
         contact: parsed.contact || DEFAULT_SETTINGS.contact,
         sessionTimeoutMinutes: parsed.sessionTimeoutMinutes || DEFAULT_SETTINGS.sessionTimeoutMinutes,
       };
@@ -71,6 +71,19 @@ export interface Organization {
   is_active: boolean;
   org_type?: 'customer' | 'distributor';
   is_house_account?: boolean;
+  tax_exempt?: boolean;
+  tax_exemption_certificate?: string;
+  tax_exemption_status?: 'none' | 'pending' | 'approved' | 'rejected' | 'expired';
+  tax_exemption_state?: string;
+  tax_exemption_file_path?: string;
+  tax_exemption_expires_at?: string;
+  tax_exemption_reviewed_by?: string;
+  tax_exemption_reviewed_at?: string;
+  tax_exemption_review_notes?: string;
+  /** null means the organization cannot pay by invoice */
+  payment_terms?: 'due_on_receipt' | 'net_15' | 'net_30' | 'net_45' | 'net_60' | 'net_90' | null;
+  /** Most that may be owed on open invoices; null means no limit */
+  credit_limit?: number | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,172 @@
+import { supabase } from '../supabase';
+import type { Organization } from '../supabase';
+
+export type TaxExemptionStatus = 'none' | 'pending' | 'approved' | 'rejected' | 'expired';
+
+export const TAX_EXEMPTION_BUCKET = 'tax-exemption-certificates';
+
+export interface CertificateDetails {
+  certificateNumber: string;
+  issuingState: string;
+  expiresAt?: string | null;
+}
+
+type ExemptionFields = Pick<
+  Organization,
+  'tax_exempt' | 'tax_exemption_status' | 'tax_exemption_expires_at'
+>;
+
+/**
+ * An exemption only applies while the certificate is approved and has not
+ * passed its expiry date (the expiry date itself is still covered).
+ */
+export function isExemptionActive(org: ExemptionFields, today: Date = new Date()): boolean {
+  if (!org.tax_exempt || org.tax_exemption_status !== 'approved') return false;
+  if (!org.tax_exemption_expires_at) return true;
+
+  const todayStr = today.toISOString().split('T')[0];
+  return org.tax_exemption_expires_at >= todayStr;
+}
+
+/**
+ * Whole days until the certificate expires, or null if it has no expiry.
+ * Negative once expired.
+ */
+export function daysUntilExpiry(expiresAt: string | null | undefined, today: Date = new Date()): number | null {
+  if (!expiresAt) return null;
+  const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  const end = new Date(`${expiresAt}T00:00:00Z`).getTime();
+  return Math.round((end - start) / 86400000);
+}
+
+class TaxExemptionService {
+  /**
+   * Upload a certificate for an organization and queue it for admin review.
+   * The organization is not treated as exempt until an admin approves it.
+   */
+  async submitCertificate(
+    organizationId: string,
+    file: File,
+    details: CertificateDetails
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const path = `${organizationId}/${Date.now()}-${safeName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(TAX_EXEMPTION_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from('organizations')
+        .update({
+          tax_exemption_status: 'pending',
+          tax_exemption_certificate: details.certificateNumber.trim(),
+          tax_exemption_state: details.issuingState.trim().toUpperCase(),
+          tax_exemption_expires_at: details.expiresAt || null,
+          tax_exemption_file_path: path,
+          tax_exemption_reviewed_by: null,
+          tax_exemption_reviewed_at: null,
+          tax_exemption_review_notes: null,
+          tax_exemption_reminder_sent_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', organizationId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error submitting tax exemption certificate:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload certificate',
+      };
+    }
+  }
+
+  /**
+   * Organizations with a certificate waiting for review, oldest first.
+   */
+  async getReviewQueue(): Promise<Organization[]> {
+    try {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .eq('tax_exemption_status', 'pending')
+        .order('updated_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching tax exemption review queue:', error);
+      return [];
+    }
+  }
+
+  async approve(
+    organizationId: string,
+    reviewerId: string,
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.review(organizationId, reviewerId, 'approved', notes);
+  }
+
+  async reject(
+    organizationId: string,
+    reviewerId: string,
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.review(organizationId, reviewerId, 'rejected', notes);
+  }
+
+  /**
+   * Signed link to the uploaded certificate; the bucket is private.
+   */
+  async getCertificateUrl(path: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(TAX_EXEMPTION_BUCKET)
+        .createSignedUrl(path, 60 * 60);
+
+      if (error) throw error;
+      return data?.signedUrl || null;
+    } catch (error) {
+      console.error('Error creating certificate link:', error);
+      return null;
+    }
+  }
+
+  private async review(
+    organizationId: string,
+    reviewerId: string,
+    status: 'approved' | 'rejected',
+    notes?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('organizations')
+        .update({
+          tax_exempt: status === 'approved',
+          tax_exemption_status: status,
+          tax_exemption_reviewed_by: reviewerId,
+          tax_exemption_reviewed_at: new Date().toISOString(),
+          tax_exemption_review_notes: notes?.trim() || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', organizationId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error(`Error marking tax exemption ${status}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update exemption',
+      };
+    }
+  }
+}
+
+export const taxExemptionService = new TaxExemptionService();
@@ -0,0 +1,105 @@
+import { supabase } from '../supabase';
+import { LocalRateTableProvider } from './localRateTable';
+import { zeroTaxResult, type TaxDestination, type TaxProvider, type TaxRequest, type TaxResult } from './provider';
+
+export { LocalRateTableProvider, supabaseTaxRateSource, resolveRate, isCategoryTaxable } from './localRateTable';
+export { roundCurrency } from './provider';
+export { taxExemptionService, isExemptionActive, daysUntilExpiry, TAX_EXEMPTION_BUCKET } from './exemptions';
+export type { TaxExemptionStatus, CertificateDetails } from './exemptions';
+
+export type {
+  TaxDestination,
+  TaxLine,
+  TaxLineResult,
+  TaxProvider,
+  TaxRequest,
+  TaxResult,
+} from './provider';
+export type { TaxRateRow, CategoryTaxRule, OrganizationTaxExemption, TaxRateSource } from './localRateTable';
+
+interface TaxableItem {
+  productId: number;
+  quantity: number;
+  price: number;
+  categoryId?: string;
+}
+
+class TaxService {
+  private provider: TaxProvider = new LocalRateTableProvider();
+
+  setProvider(provider: TaxProvider): void {
+    this.provider = provider;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Calculate tax for a request. Never throws — a provider failure is
+   * logged and returned as `error`, and callers must not record the zero
+   * tax that comes with it.
+   */
+  async calculate(request: TaxRequest): Promise<TaxResult> {
+    try {
+      return await this.provider.calculate(request);
+    } catch (error) {
+      console.error('Error calculating sales tax:', error);
+      return {
+        ...zeroTaxResult(request, this.provider.name),
+        error: 'Sales tax could not be calculated. Please try again.',
+      };
+    }
+  }
+
+  /**
+   * Calculate tax for cart/order items, looking up each product's category
+   * when the caller does not already know it.
+   */
+  async calculateForItems(
+    items: TaxableItem[],
+    shipping: number,
+    destination: TaxDestination,
+    organizationId?: string
+  ): Promise<TaxResult> {
+    const categoryMap = await this.getProductCategories(
+      items.filter(i => !i.categoryId).map(i => i.productId)
+    );
+
+    return this.calculate({
+      lines: items.map(item => ({
+        productId: item.productId,
+        categoryId: item.categoryId || categoryMap.get(item.productId),
+        quantity: item.quantity,
+        unitPrice: item.price,
+      })),
+      shipping,
+      destination,
+      organizationId,
+    });
+  }
+
+  private async getProductCategories(productIds: number[]): Promise<Map<number, string>> {
+    if (productIds.length === 0) return new Map();
+
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, category_id')
+        .in('id', productIds);
+
+      if (error) throw error;
+
+      return new Map(
+        (data || [])
+          .filter(p => p.category_id)
+          .map(p => [p.id as number, p.category_id as string])
+      );
+    } catch (error) {
+      console.error('Error fetching product categories for tax:', error);
+      return new Map();
+    }
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,189 @@
+import { supabase } from '../supabase';
+import { cacheService, CacheTTL } from '../cache';
+import { isExemptionActive } from './exemptions';
+import {
+  roundCurrency,
+  zeroTaxResult,
+  type TaxLineResult,
+  type TaxProvider,
+  type TaxRequest,
+  type TaxResult,
+} from './provider';
+
+export interface TaxRateRow {
+  id: string;
+  state_code: string;
+  zip_prefix: string | null;
+  rate: number;
+  jurisdiction_name: string | null;
+  taxes_shipping: boolean;
+}
+
+export interface CategoryTaxRule {
+  category_id: string;
+  state_code: string | null;
+  is_taxable: boolean;
+}
+
+export interface OrganizationTaxExemption {
+  exempt: boolean;
+  certificate?: string;
+}
+
+/**
+ * Where the local provider reads its tables from. The default reads
+ * Supabase; tests pass an in-memory source.
+ */
+export interface TaxRateSource {
+  getRates(stateCode: string): Promise<TaxRateRow[]>;
+  getCategoryRules(categoryIds: string[]): Promise<CategoryTaxRule[]>;
+  getOrganizationExemption(organizationId: string): Promise<OrganizationTaxExemption | null>;
+}
+
+export const supabaseTaxRateSource: TaxRateSource = {
+  async getRates(stateCode) {
+    const cacheKey = `tax_rates_${stateCode}`;
+    const cached = cacheService.get<TaxRateRow[]>(cacheKey);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .select('id, state_code, zip_prefix, rate, jurisdiction_name, taxes_shipping')
+      .eq('state_code', stateCode)
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    const rows = (data || []).map(row => ({ ...row, rate: Number(row.rate) }));
+    cacheService.set(cacheKey, rows, CacheTTL.pricing);
+    return rows;
+  },
+
+  async getCategoryRules(categoryIds) {
+    if (categoryIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('tax_category_rules')
+      .select('category_id, state_code, is_taxable')
+      .in('category_id', categoryIds);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getOrganizationExemption(organizationId) {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('tax_exempt, tax_exemption_certificate, tax_exemption_status, tax_exemption_expires_at')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      exempt: isExemptionActive(data),
+      certificate: data.tax_exemption_certificate || undefined,
+    };
+  },
+};
+
+/**
+ * Picks the most specific active rate for a destination: a row whose
+ * zip_prefix matches the longest leading part of the ZIP wins over the
+ * statewide (null prefix) row.
+ */
+export function resolveRate(rates: TaxRateRow[], postalCode: string): TaxRateRow | null {
+  const zip = postalCode.replace(/[^0-9]/g, '').slice(0, 5);
+  let best: TaxRateRow | null = null;
+
+  for (const row of rates) {
+    const prefix = row.zip_prefix || '';
+    if (prefix && !zip.startsWith(prefix)) continue;
+    if (!best || prefix.length > (best.zip_prefix || '').length) {
+      best = row;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * A state-specific rule overrides an all-states rule for the same category.
+ * Categories without a rule are taxable.
+ */
+export function isCategoryTaxable(
+  rules: CategoryTaxRule[],
+  categoryId: string | undefined,
+  stateCode: string
+): boolean {
+  if (!categoryId) return true;
+
+  const matching = rules.filter(r => r.category_id === categoryId);
+  const stateRule = matching.find(r => r.state_code === stateCode);
+  if (stateRule) return stateRule.is_taxable;
+
+  const globalRule = matching.find(r => !r.state_code);
+  return globalRule ? globalRule.is_taxable : true;
+}
+
+export class LocalRateTableProvider implements TaxProvider {
+  readonly name = 'local_rate_table';
+
+  constructor(private source: TaxRateSource = supabaseTaxRateSource) {}
+
+  async calculate(request: TaxRequest): Promise<TaxResult> {
+    const country = (request.destination.country || 'US').toUpperCase();
+    const stateCode = request.destination.state.trim().toUpperCase();
+
+    if (country !== 'US' || !stateCode) {
+      return zeroTaxResult(request, this.name);
+    }
+
+    if (request.organizationId) {
+      const exemption = await this.source.getOrganizationExemption(request.organizationId);
+      if (exemption?.exempt) {
+        return {
+          ...zeroTaxResult(request, this.name, true),
+          exemptionCertificate: exemption.certificate,
+        };
+      }
+    }
+
+    const rates = await this.source.getRates(stateCode);
+    const rate = resolveRate(rates, request.destination.postalCode);
+    if (!rate) {
+      return zeroTaxResult(request, this.name);
+    }
+
+    const categoryIds = [...new Set(request.lines.map(l => l.categoryId).filter((id): id is string => !!id))];
+    const rules = await this.source.getCategoryRules(categoryIds);
+
+    const lines: TaxLineResult[] = request.lines.map(line => {
+      const amount = roundCurrency(line.unitPrice * line.quantity);
+      const taxable = isCategoryTaxable(rules, line.categoryId, stateCode);
+      return {
+        productId: line.productId,
+        taxable,
+        taxableAmount: taxable ? amount : 0,
+        tax: taxable ? roundCurrency(amount * rate.rate) : 0,
+      };
+    });
+
+    const shippingTax = rate.taxes_shipping ? roundCurrency(request.shipping * rate.rate) : 0;
+    const lineTax = lines.reduce((sum, l) => sum + l.tax, 0);
+    const taxableAmount = lines.reduce((sum, l) => sum + l.taxableAmount, 0)
+      + (rate.taxes_shipping ? request.shipping : 0);
+
+    return {
+      tax: roundCurrency(lineTax + shippingTax),
+      rate: rate.rate,
+      taxableAmount: roundCurrency(taxableAmount),
+      shippingTax,
+      lines,
+      exempt: false,
+      jurisdiction: rate.jurisdiction_name || stateCode,
+      provider: this.name,
+    };
+  }
+}
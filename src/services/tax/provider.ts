@@ -0,0 +1,71 @@
+export interface TaxDestination {
+  state: string;
+  postalCode: string;
+  country?: string;
+}
+
+export interface TaxLine {
+  productId: number;
+  categoryId?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface TaxRequest {
+  lines: TaxLine[];
+  shipping: number;
+  destination: TaxDestination;
+  organizationId?: string;
+}
+
+export interface TaxLineResult {
+  productId: number;
+  taxable: boolean;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxResult {
+  tax: number;
+  rate: number;
+  taxableAmount: number;
+  shippingTax: number;
+  lines: TaxLineResult[];
+  exempt: boolean;
+  exemptionCertificate?: string;
+  jurisdiction?: string;
+  provider: string;
+  /** Set when tax could not be calculated; `tax` is then not a real amount */
+  error?: string;
+}
+
+/**
+ * A sales-tax calculator. The local rate-table provider is the default;
+ * an external service (Avalara, TaxJar, ...) can be swapped in through
+ * taxService.setProvider() without touching checkout.
+ */
+export interface TaxProvider {
+  readonly name: string;
+  calculate(request: TaxRequest): Promise<TaxResult>;
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function zeroTaxResult(request: TaxRequest, provider: string, exempt = false): TaxResult {
+  return {
+    tax: 0,
+    rate: 0,
+    taxableAmount: 0,
+    shippingTax: 0,
+    lines: request.lines.map(line => ({
+      productId: line.productId,
+      taxable: false,
+      taxableAmount: 0,
+      tax: 0,
+    })),
+    exempt,
+    provider,
+  };
+}
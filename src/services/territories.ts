@@ -0,0 +1,306 @@
+import { supabase } from './supabase';
+
+export type ReassignmentStatus = 'scheduled' | 'applied' | 'cancelled';
+export type TerritoryOrgType = 'customer' | 'distributor';
+
+export interface SalesTerritory {
+  id: string;
+  name: string;
+  description?: string | null;
+  states: string[];
+  zip_prefixes: string[];
+  org_types: TerritoryOrgType[];
+  sales_rep_id: string | null;
+  distributor_id: string | null;
+  commission_rate: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  sales_rep?: { full_name?: string | null; email?: string | null } | null;
+  distributor?: { name: string; code: string } | null;
+}
+
+export type TerritoryInput = Pick<
+  SalesTerritory,
+  'name' | 'description' | 'states' | 'zip_prefixes' | 'org_types' | 'sales_rep_id' | 'distributor_id' | 'commission_rate'
+>;
+
+export interface TerritoryReassignment {
+  id: string;
+  territory_id: string;
+  from_sales_rep_id: string | null;
+  from_distributor_id: string | null;
+  to_sales_rep_id: string | null;
+  to_distributor_id: string | null;
+  commission_rate: number;
+  effective_date: string;
+  status: ReassignmentStatus;
+  organizations_moved: number;
+  orders_moved: number;
+  orders_skipped: number;
+  notes?: string | null;
+  applied_at?: string | null;
+  created_at: string;
+  sales_territories?: { name: string } | null;
+}
+
+export interface ReassignmentResult {
+  reassignment_id: string;
+  status: ReassignmentStatus;
+  organizations_moved?: number;
+  orders_moved?: number;
+  orders_skipped?: number;
+}
+
+export interface TerritoryOwners {
+  salesReps: Array<{ id: string; email: string; full_name: string | null }>;
+  distributors: Array<{ id: string; name: string; code: string }>;
+  /** Active distributor_sales_reps rows; a rep can own a territory under these distributors */
+  memberships: Array<{ distributor_id: string; sales_rep_id: string }>;
+}
+
+/** Address fields a territory is matched against */
+export interface TerritoryAddress {
+  state?: string | null;
+  zip?: string | null;
+  org_type?: string | null;
+}
+
+export const REASSIGNMENT_STATUS_LABELS: Record<ReassignmentStatus, string> = {
+  scheduled: 'Scheduled',
+  applied: 'Applied',
+  cancelled: 'Cancelled',
+};
+
+/** Splits a comma or whitespace separated list, as typed into the territory form */
+export function parseRuleList(input: string, transform: (value: string) => string = v => v): string[] {
+  return [...new Set(input.split(/[\s,]+/).map(v => transform(v.trim())).filter(Boolean))];
+}
+
+export function validateTerritory(territory: TerritoryInput): string | null {
+  if (!territory.name.trim()) return 'Territory name is required';
+  if (territory.states.length + territory.zip_prefixes.length + territory.org_types.length === 0) {
+    return 'Add at least one state, ZIP prefix or org type';
+  }
+  const badState = territory.states.find(s => !/^[A-Z]{2}$/.test(s));
+  if (badState) return `"${badState}" is not a two-letter state code`;
+  const badZip = territory.zip_prefixes.find(z => !/^\d{1,5}$/.test(z));
+  if (badZip) return `ZIP prefix "${badZip}" must be 1 to 5 digits`;
+  if (!territory.sales_rep_id && !territory.distributor_id) return 'Choose a sales rep or distributor to own the territory';
+  if (Number.isNaN(territory.commission_rate) || territory.commission_rate < 0 || territory.commission_rate > 100) {
+    return 'Commission rate must be between 0 and 100';
+  }
+  return null;
+}
+
+/**
+ * Territory a new organization at this address would be assigned to.
+ * Mirrors match_sales_territory(): every rule a territory fills in must
+ * match, and the longest ZIP prefix, then a state rule, then an org type
+ * rule, then the oldest territory wins.
+ */
+export function matchTerritory<T extends Pick<SalesTerritory, 'states' | 'zip_prefixes' | 'org_types' | 'is_active' | 'created_at'>>(
+  territories: T[],
+  address: TerritoryAddress
+): T | null {
+  const state = address.state?.trim().toUpperCase() || '';
+  const zip = address.zip?.trim() || '';
+  const orgType = address.org_type?.toLowerCase() || '';
+
+  const candidates = territories.flatMap(territory => {
+    if (!territory.is_active) return [];
+    if (territory.states.length > 0 && !territory.states.includes(state)) return [];
+    if (territory.org_types.length > 0 && !(territory.org_types as string[]).includes(orgType)) return [];
+    const zipMatch = Math.max(0, ...territory.zip_prefixes.filter(p => zip.startsWith(p)).map(p => p.length));
+    if (territory.zip_prefixes.length > 0 && zipMatch === 0) return [];
+    return [{ territory, zipMatch }];
+  });
+
+  candidates.sort((a, b) =>
+    b.zipMatch - a.zipMatch
+    || Number(b.territory.states.length > 0) - Number(a.territory.states.length > 0)
+    || Number(b.territory.org_types.length > 0) - Number(a.territory.org_types.length > 0)
+    || a.territory.created_at.localeCompare(b.territory.created_at)
+  );
+  return candidates[0]?.territory ?? null;
+}
+
+class TerritoryService {
+  async getTerritories(): Promise<{ territories: SalesTerritory[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('sales_territories')
+        .select('*, sales_rep:profiles!sales_rep_id(full_name, email), distributor:distributors(name, code)')
+        .order('name');
+
+      if (error) throw error;
+      return { territories: data || [] };
+    } catch (error) {
+      console.error('Error fetching sales territories:', error);
+      return { territories: [], error: error instanceof Error ? error.message : 'Failed to fetch territories' };
+    }
+  }
+
+  /** Number of organizations assigned by each territory */
+  async getOrganizationCounts(): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('territory_id')
+      .not('territory_id', 'is', null);
+
+    if (error) {
+      console.error('Error counting territory organizations:', error);
+      return {};
+    }
+    return (data || []).reduce<Record<string, number>>((counts, row) => {
+      counts[row.territory_id] = (counts[row.territory_id] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  /**
+   * Creates a territory, or updates an existing territory's rules. Changing
+   * the owner or rate of an existing territory goes through reassignTerritory
+   * so its organizations and orders move with it.
+   */
+  async saveTerritory(
+    territoryId: string | null,
+    territory: TerritoryInput
+  ): Promise<{ success: boolean; error?: string }> {
+    const validation = validateTerritory(territory);
+    if (validation) return { success: false, error: validation };
+
+    try {
+      const rules = {
+        name: territory.name.trim(),
+        description: territory.description?.trim() || null,
+        states: territory.states,
+        zip_prefixes: territory.zip_prefixes,
+        org_types: territory.org_types,
+      };
+
+      const { error } = territoryId
+        ? await supabase.from('sales_territories').update(rules).eq('id', territoryId)
+        : await supabase.from('sales_territories').insert({
+            ...rules,
+            sales_rep_id: territory.sales_rep_id || null,
+            distributor_id: territory.distributor_id || null,
+            commission_rate: territory.commission_rate,
+          });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving sales territory:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save territory' };
+    }
+  }
+
+  async setActive(territoryId: string, isActive: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('sales_territories')
+        .update({ is_active: isActive })
+        .eq('id', territoryId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating sales territory:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update territory' };
+    }
+  }
+
+  /** Assigns organizations without a rep to the territory their address matches */
+  async assignUnassigned(): Promise<{ success: boolean; assigned?: number; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('assign_unassigned_organizations');
+
+      if (error) throw error;
+      return { success: true, assigned: data ?? 0 };
+    } catch (error) {
+      console.error('Error assigning organizations to territories:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to assign organizations' };
+    }
+  }
+
+  /**
+   * Hands a territory to a new owner. Applied at once when the effective
+   * date is today or earlier, otherwise scheduled for that date.
+   */
+  async reassignTerritory(
+    territoryId: string,
+    owner: { salesRepId?: string | null; distributorId?: string | null },
+    commissionRate: number,
+    effectiveDate: string,
+    notes?: string
+  ): Promise<{ success: boolean; result?: ReassignmentResult; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('reassign_sales_territory', {
+        p_territory_id: territoryId,
+        p_sales_rep_id: owner.salesRepId || null,
+        p_distributor_id: owner.distributorId || null,
+        p_commission_rate: commissionRate,
+        p_effective_date: effectiveDate,
+        p_notes: notes || null,
+      });
+
+      if (error) throw error;
+      return { success: true, result: data };
+    } catch (error) {
+      console.error('Error reassigning sales territory:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to reassign territory' };
+    }
+  }
+
+  async getReassignments(): Promise<{ reassignments: TerritoryReassignment[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('territory_reassignments')
+        .select('*, sales_territories(name)')
+        .order('effective_date', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return { reassignments: data || [] };
+    } catch (error) {
+      console.error('Error fetching territory reassignments:', error);
+      return { reassignments: [], error: error instanceof Error ? error.message : 'Failed to fetch reassignments' };
+    }
+  }
+
+  async cancelReassignment(reassignmentId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('territory_reassignments')
+        .update({ status: 'cancelled' })
+        .eq('id', reassignmentId)
+        .eq('status', 'scheduled');
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error) {
+      console.error('Error cancelling territory reassignment:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to cancel reassignment' };
+    }
+  }
+
+  async getOwners(): Promise<TerritoryOwners> {
+    const [reps, distributors, memberships] = await Promise.all([
+      supabase.from('profiles').select('id, email, full_name').eq('role', 'sales_rep').order('email'),
+      supabase.from('distributors').select('id, name, code').eq('is_active', true).order('name'),
+      supabase.from('distributor_sales_reps').select('distributor_id, sales_rep_id').eq('is_active', true),
+    ]);
+
+    if (reps.error || distributors.error || memberships.error) {
+      console.error('Error fetching territory owners:', reps.error || distributors.error || memberships.error);
+    }
+    return {
+      salesReps: reps.data || [],
+      distributors: distributors.data || [],
+      memberships: memberships.data || [],
+    };
+  }
+}
+
+export const territoryService = new TerritoryService();
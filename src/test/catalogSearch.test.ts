@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { supabase } from '../services/supabase';
+import {
+  productService,
+  formatPriceBand,
+  rollUpCategoryCounts,
+  findCategoryByName,
+  type Category,
+} from '../services/productService';
+
+const category = (id: string, name: string, children: Category[] = []): Category => ({
+  id,
+  name,
+  sortOrder: 0,
+  isActive: true,
+  children,
+});
+
+const tree = [
+  category('vit', 'Vitamins', [category('vit-d', 'Vitamin D'), category('vit-b', 'Vitamin B')]),
+  category('min', 'Minerals'),
+];
+
+describe('formatPriceBand', () => {
+  it('labels open-ended bands', () => {
+    expect(formatPriceBand({ min: 0, max: 25 })).toBe('Under $25');
+    expect(formatPriceBand({ min: 25, max: 50 })).toBe('$25 – $50');
+    expect(formatPriceBand({ min: 250, max: null })).toBe('$250+');
+  });
+});
+
+describe('rollUpCategoryCounts', () => {
+  it('adds subcategory counts to their parent', () => {
+    const totals = rollUpCategoryCounts(tree, { vit: 1, 'vit-d': 3, min: 2 });
+    expect(totals).toEqual({ vit: 4, 'vit-d': 3, 'vit-b': 0, min: 2 });
+  });
+});
+
+describe('findCategoryByName', () => {
+  it('finds parents and subcategories', () => {
+    expect(findCategoryByName(tree, 'Minerals')?.id).toBe('min');
+    expect(findCategoryByName(tree, 'Vitamin B')?.id).toBe('vit-b');
+    expect(findCategoryByName(tree, 'Herbs')).toBeUndefined();
+  });
+});
+
+describe('productService.searchProducts', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.rpc).mockReset();
+  });
+
+  it('sends filters and the page offset to search_products', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: { total: 0, products: [], facets: {} }, error: null } as never);
+
+    await productService.searchProducts({
+      query: '  HS-100 ',
+      categoryId: 'vit',
+      brandIds: [],
+      minPrice: 25,
+      maxPrice: 50,
+      contractOnly: true,
+      organizationId: 'org-1',
+      page: 2,
+      pageSize: 10,
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_products', {
+      p_query: 'HS-100',
+      p_category_id: 'vit',
+      p_brand_ids: null,
+      p_min_price: 25,
+      p_max_price: 50,
+      p_contract_only: true,
+      p_organization_id: 'org-1',
+      p_limit: 10,
+      p_offset: 20,
+    });
+  });
+
+  it('maps products and facets from the RPC result', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({
+      data: {
+        total: 31,
+        products: [{
+          id: 7, name: 'Magnesium Glycinate', sku: 'MG-200', price: '24.5', is_active: true, is_in_stock: true,
+          custom_fields: [{ name: 'Benefit', value: 'Sleep' }], categories: { name: 'Minerals' }, brands: null,
+        }],
+        facets: {
+          categories: { min: 31 },
+          brands: [{ id: 'b1', name: 'Acme', count: 12 }],
+          price_bands: [{ min: 0, max: 25, count: 20 }, { min: 250, max: null, count: 0 }],
+          contract_priced: 4,
+        },
+      },
+      error: null,
+    } as never);
+
+    const result = await productService.searchProducts({ query: 'magnesum' });
+
+    expect(result.total).toBe(31);
+    expect(result.products[0]).toMatchObject({ id: 7, sku: 'MG-200', price: 24.5, category: 'Minerals', benefits: ['Sleep'] });
+    expect(result.facets).toEqual({
+      categories: { min: 31 },
+      brands: [{ id: 'b1', name: 'Acme', count: 12 }],
+      priceBands: [{ min: 0, max: 25, count: 20 }, { min: 250, max: null, count: 0 }],
+      contractPriced: 4,
+    });
+  });
+
+  it('returns an empty result when the search fails', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'boom' } } as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await productService.searchProducts({ query: 'x' });
+    expect(result.products).toEqual([]);
+    expect(result.total).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { payeeClawbacks, prorateRefund, sumAdjustments } from '../services/commissionAdjustments';
+
+const lineItems = [
+  { product_id: 1, product_name: 'Vitamin D', quantity: 4, item_commission: 20 },
+  { product_id: 2, product_name: 'Omega 3', quantity: 2, item_commission: 30 },
+];
+
+describe('prorateRefund', () => {
+  it('claws back the refunded units of each line', () => {
+    const { fraction, lines } = prorateRefund(lineItems, {
+      amount: 40,
+      orderTotal: 200,
+      lines: [{ productId: 1, quantity: 1 }, { productId: 2, quantity: 2 }],
+    });
+
+    expect(lines.map(l => [l.refunded_quantity, l.clawback])).toEqual([[1, 5], [2, 30]]);
+    expect(fraction).toBeCloseTo(35 / 50);
+  });
+
+  it('draws refunded units down across lines for the same product', () => {
+    const { lines } = prorateRefund(
+      [
+        { product_id: 1, quantity: 2, item_commission: 10 },
+        { product_id: 1, quantity: 2, item_commission: 6 },
+      ],
+      { amount: 0, orderTotal: 100, lines: [{ productId: 1, quantity: 3 }] }
+    );
+
+    expect(lines.map(l => l.clawback)).toEqual([10, 3]);
+  });
+
+  it('never refunds more units than were sold', () => {
+    const { fraction } = prorateRefund(lineItems, {
+      amount: 0,
+      orderTotal: 200,
+      lines: [{ productId: 2, quantity: 9 }],
+    });
+
+    expect(fraction).toBeCloseTo(30 / 50);
+  });
+
+  it('falls back to the share of the order total without refunded lines', () => {
+    const { fraction, lines } = prorateRefund(lineItems, { amount: 50, orderTotal: 200 });
+
+    expect(fraction).toBe(0.25);
+    expect(lines.map(l => l.clawback)).toEqual([5, 7.5]);
+  });
+});
+
+describe('payeeClawbacks', () => {
+  const commission = {
+    sales_rep_id: 'rep-1',
+    commission_amount: 100,
+    sales_rep_commission: 60,
+    distributor_commission: 40,
+    company_rep_commission: 10,
+    company_rep_id: 'corep-1',
+  };
+
+  it('takes the same share from every payee as a negative amount', () => {
+    expect(payeeClawbacks(commission, 0.25, 'dist-profile')).toEqual([
+      { payee_id: 'rep-1', payee_role: 'sales_rep', amount: -15 },
+      { payee_id: 'dist-profile', payee_role: 'distributor', amount: -10 },
+      { payee_id: 'corep-1', payee_role: 'company_rep', amount: -2.5 },
+    ]);
+  });
+
+  it('caps the total clawed back at what each payee earned', () => {
+    const clawbacks = payeeClawbacks(commission, 0.5, 'dist-profile', { sales_rep: 45, distributor: 40 });
+
+    expect(clawbacks).toEqual([
+      { payee_id: 'rep-1', payee_role: 'sales_rep', amount: -15 },
+      { payee_id: 'corep-1', payee_role: 'company_rep', amount: -5 },
+    ]);
+  });
+
+  it('charges the whole commission to the rep when it was never split', () => {
+    const clawbacks = payeeClawbacks(
+      { sales_rep_id: 'rep-1', commission_amount: 80 },
+      0.5,
+      null
+    );
+
+    expect(clawbacks).toEqual([{ payee_id: 'rep-1', payee_role: 'sales_rep', amount: -40 }]);
+  });
+});
+
+describe('sumAdjustments', () => {
+  it('nets clawbacks and corrections to the cent', () => {
+    expect(sumAdjustments([{ amount: -10.1 }, { amount: -0.2 }, { amount: 5 }])).toBe(-5.3);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), storage: { from: vi.fn() }, auth: { getUser: vi.fn() } },
+}));
+
+import {
+  canRecalculate,
+  validateAttachments,
+  MAX_ATTACHMENT_BYTES,
+} from '../services/commissionDisputes';
+
+describe('validateAttachments', () => {
+  it('accepts documents and images within the size limit', () => {
+    expect(validateAttachments([
+      { name: 'invoice.PDF', size: 1024 },
+      { name: 'screenshot.png', size: MAX_ATTACHMENT_BYTES },
+    ])).toBeNull();
+  });
+
+  it('rejects unsupported types and oversized files', () => {
+    expect(validateAttachments([{ name: 'payload.exe', size: 10 }])).toMatch(/payload\.exe/);
+    expect(validateAttachments([{ name: 'contract.pdf', size: MAX_ATTACHMENT_BYTES + 1 }])).toMatch(/larger than 10 MB/);
+  });
+
+  it('limits the number of files per message', () => {
+    const files = Array.from({ length: 6 }, (_, i) => ({ name: `page-${i}.jpg`, size: 100 }));
+    expect(validateAttachments(files)).toMatch(/up to 5 files/);
+  });
+});
+
+describe('canRecalculate', () => {
+  it('allows pending and approved commissions outside a payout run', () => {
+    expect(canRecalculate({ status: 'pending' })).toBe(true);
+    expect(canRecalculate({ status: 'approved', payout_run_id: null })).toBe(true);
+  });
+
+  it('requires an adjustment once the commission is paid, cancelled or locked', () => {
+    expect(canRecalculate({ status: 'paid' })).toBe(false);
+    expect(canRecalculate({ status: 'cancelled' })).toBe(false);
+    expect(canRecalculate({ status: 'approved', payout_run_id: 'run-1' })).toBe(false);
+  });
+});
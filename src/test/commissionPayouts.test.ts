@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { buildNachaFile, isValidRoutingNumber } from '../services/nacha';
+import {
+  buildPayoutNacha,
+  payoutsToCsv,
+  renderPayoutStatement,
+  type CommissionPayout,
+  type PayeeBankAccount,
+  type PayoutRun,
+} from '../services/commissionPayouts';
+
+const originator = {
+  companyName: 'HealthSpan360',
+  companyId: '1123456789',
+  odfiRouting: '021000021',
+  odfiName: 'Chase',
+};
+
+const run: PayoutRun = {
+  id: 'run-1',
+  run_number: 'PAY-00001',
+  period_start: '2026-02-01',
+  period_end: '2026-02-28',
+  status: 'locked',
+  total_gross: 350,
+  total_adjustments: -25,
+  total_net: 325,
+  payee_count: 3,
+  commission_count: 4,
+  created_at: '2026-03-02T00:00:00Z',
+};
+
+const payout = (id: string, payeeId: string, net: number, name = 'Rep'): CommissionPayout => ({
+  id,
+  run_id: run.id,
+  payee_id: payeeId,
+  payee_role: 'sales_rep',
+  payee_name: name,
+  payee_email: `${payeeId}@example.com`,
+  gross_amount: net,
+  adjustment_amount: 0,
+  net_amount: net,
+  commission_count: 1,
+  created_at: run.created_at,
+});
+
+const bank = (profileId: string): PayeeBankAccount => ({
+  profile_id: profileId,
+  account_holder_name: 'Jordan Smith',
+  routing_number: '011000015',
+  account_number: '123456789',
+  account_type: 'checking',
+});
+
+describe('isValidRoutingNumber', () => {
+  it('accepts routing numbers with a valid checksum', () => {
+    expect(isValidRoutingNumber('021000021')).toBe(true);
+    expect(isValidRoutingNumber('011000015')).toBe(true);
+  });
+
+  it('rejects bad checksums and malformed input', () => {
+    expect(isValidRoutingNumber('021000022')).toBe(false);
+    expect(isValidRoutingNumber('02100002')).toBe(false);
+    expect(isValidRoutingNumber('02100002a')).toBe(false);
+  });
+});
+
+describe('buildNachaFile', () => {
+  const credits = [
+    { name: 'Jordan Smith', routingNumber: '011000015', accountNumber: '123456789', accountType: 'checking' as const, amountCents: 12345, individualId: 'A1' },
+    { name: 'Sam Lee', routingNumber: '021000021', accountNumber: '987654', accountType: 'savings' as const, amountCents: 5000, individualId: 'A2' },
+  ];
+  const file = buildNachaFile(originator, credits, { effectiveDate: new Date(2026, 2, 5), createdAt: new Date(2026, 2, 4, 9, 30) });
+  const lines = file.trimEnd().split('\n');
+
+  it('writes 94-character records padded to a block of ten', () => {
+    expect(lines).toHaveLength(10);
+    expect(lines.every(line => line.length === 94)).toBe(true);
+    expect(lines.slice(6).every(line => line === '9'.repeat(94))).toBe(true);
+  });
+
+  it('writes checking and savings credit entries', () => {
+    expect(lines[2].slice(0, 3)).toBe('622');
+    expect(lines[2].slice(29, 39)).toBe('0000012345');
+    expect(lines[3].slice(0, 3)).toBe('632');
+  });
+
+  it('totals the entry hash and credits in the control records', () => {
+    const batchControl = lines[4];
+    expect(batchControl.slice(0, 4)).toBe('8220');
+    expect(batchControl.slice(4, 10)).toBe('000002');
+    expect(batchControl.slice(10, 20)).toBe(String(1100001 + 2100002).padStart(10, '0'));
+    expect(batchControl.slice(32, 44)).toBe('000000017345');
+
+    const fileControl = lines[5];
+    expect(fileControl.slice(0, 1)).toBe('9');
+    expect(fileControl.slice(7, 13)).toBe('000001');
+    expect(fileControl.slice(43, 55)).toBe('000000017345');
+  });
+
+  it('refuses invalid routing numbers', () => {
+    expect(() => buildNachaFile({ ...originator, odfiRouting: '123456789' }, credits, { effectiveDate: new Date() }))
+      .toThrow(/routing number/);
+  });
+});
+
+describe('buildPayoutNacha', () => {
+  it('skips payees without bank details or with nothing to pay', () => {
+    const payouts = [payout('p1', 'rep-1', 100), payout('p2', 'rep-2', 50), payout('p3', 'rep-3', 0)];
+    const { file, included, skipped } = buildPayoutNacha(
+      run,
+      payouts,
+      { 'rep-1': bank('rep-1'), 'rep-3': bank('rep-3') },
+      originator,
+      new Date(2026, 2, 5)
+    );
+
+    expect(included.map(p => p.id)).toEqual(['p1']);
+    expect(skipped.map(p => p.id)).toEqual(['p2', 'p3']);
+    expect(file.split('\n').filter(line => line.startsWith('6'))).toHaveLength(1);
+  });
+});
+
+describe('payoutsToCsv', () => {
+  it('quotes cells and masks account numbers', () => {
+    const csv = payoutsToCsv(run, [payout('p1', 'rep-1', 100, 'Smith, Jordan')], { 'rep-1': bank('rep-1') });
+    const [, row] = csv.split('\n');
+
+    expect(row).toContain('"Smith, Jordan"');
+    expect(row).toContain('••••6789');
+    expect(row).not.toContain('123456789');
+  });
+});
+
+describe('renderPayoutStatement', () => {
+  it('escapes payee-supplied text', () => {
+    const html = renderPayoutStatement({
+      run,
+      payout: payout('p1', 'rep-1', 100, '<b>Rep</b>'),
+      items: [],
+      adjustments: [],
+      company: { name: 'HealthSpan360', phone: '', email: '', addressLine1: '', addressLine2: '' },
+    });
+
+    expect(html).toContain('&lt;b&gt;Rep&lt;/b&gt;');
+    expect(html).not.toContain('<b>Rep</b>');
+  });
+});
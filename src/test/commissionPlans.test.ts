@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  summarizePreview,
+  tieredCommission,
+  validatePlan,
+  type CommissionPlanInput,
+  type PlanPreviewRow,
+} from '../services/commissionPlans';
+
+const tiers = [
+  { threshold: 50000, rate: 7 },
+  { threshold: 0, rate: 5 },
+];
+
+const plan: CommissionPlanInput = {
+  name: 'Q3 Accelerator',
+  description: null,
+  quota_period: 'quarter',
+  quota_basis: 'gross_sales',
+  new_customer_bonus_type: null,
+  new_customer_bonus_amount: 0,
+};
+
+describe('tieredCommission', () => {
+  it('pays the base rate below the threshold', () => {
+    expect(tieredCommission(tiers, 0, 10000).amount).toBe(500);
+  });
+
+  it('splits an order that crosses a threshold', () => {
+    const result = tieredCommission(tiers, 45000, 10000);
+    expect(result.bands).toEqual([
+      { threshold: 0, rate: 5, basis: 5000, amount: 250 },
+      { threshold: 50000, rate: 7, basis: 5000, amount: 350 },
+    ]);
+    expect(result.amount).toBe(600);
+  });
+
+  it('pays the accelerated rate once attainment is above the threshold', () => {
+    expect(tieredCommission(tiers, 80000, 1000).amount).toBe(70);
+  });
+});
+
+describe('validatePlan', () => {
+  it('accepts a tiered plan starting at zero', () => {
+    expect(validatePlan(plan, tiers, [])).toBeNull();
+  });
+
+  it('rejects tiers without a $0 tier or with duplicate thresholds', () => {
+    expect(validatePlan(plan, [{ threshold: 50000, rate: 7 }], [])).toMatch(/first tier/);
+    expect(validatePlan(plan, [...tiers, { threshold: 0, rate: 6 }], [])).toMatch(/different threshold/);
+  });
+
+  it('checks bonuses and SPIFF date ranges', () => {
+    expect(validatePlan({ ...plan, new_customer_bonus_type: 'flat' }, [], [])).toMatch(/bonus amount/);
+    const spiff = { product_id: 12, amount_type: 'per_unit' as const, amount: 25, starts_on: '2026-07-01', ends_on: '2026-06-30' };
+    expect(validatePlan(plan, [], [spiff])).toMatch(/end dates/);
+    expect(validatePlan(plan, [], [{ ...spiff, ends_on: '2026-09-30' }])).toBeNull();
+  });
+});
+
+describe('summarizePreview', () => {
+  const row = (overrides: Partial<PlanPreviewRow>): PlanPreviewRow => ({
+    commission_id: 'c1',
+    order_id: 'o1',
+    order_number: null,
+    sales_rep_id: 'rep-a',
+    sales_rep_name: 'Alex',
+    created_at: '2026-07-02T00:00:00Z',
+    basis: 1000,
+    current_commission: 50,
+    projected_commission: 50,
+    details: null,
+    ...overrides,
+  });
+
+  it('totals per rep and orders by the size of the change', () => {
+    const summaries = summarizePreview([
+      row({ commission_id: 'c1' }),
+      row({ commission_id: 'c2', basis: 2000, current_commission: 100, projected_commission: 140 }),
+      row({ commission_id: 'c3', sales_rep_id: 'rep-b', sales_rep_name: 'Blair', current_commission: 80, projected_commission: 20 }),
+    ]);
+
+    expect(summaries.map(s => s.salesRepId)).toEqual(['rep-b', 'rep-a']);
+    expect(summaries[1]).toMatchObject({ orders: 2, basis: 3000, current: 150, projected: 190, difference: 40 });
+    expect(summaries[0].difference).toBe(-60);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { contractPricingService, type ContractPrice } from '../services/contractPricing';
+import { cacheService } from '../services/cache';
+import { supabase } from '../services/supabase';
+
+function contractRow(overrides: Partial<ContractPrice>): ContractPrice {
+  return {
+    id: 'row',
+    pricing_type: 'organization',
+    entity_id: 'entity',
+    product_id: 1,
+    contract_price: 0,
+    created_at: '2026-01-01',
+    updated_at: '2026-01-01',
+    ...overrides,
+  };
+}
+
+describe('getEffectivePrice', () => {
+  beforeEach(() => {
+    cacheService.clear();
+    vi.restoreAllMocks();
+    vi.spyOn(contractPricingService, 'getOrganizationPrice').mockResolvedValue(
+      contractRow({ pricing_type: 'organization', contract_price: 40 })
+    );
+  });
+
+  it('prefers pricing for the chosen shipping location', async () => {
+    vi.spyOn(contractPricingService, 'getContractPrice').mockImplementation(async (entityId, _productId, type) =>
+      type === 'location' && entityId === 'dock-2'
+        ? contractRow({ pricing_type: 'location', entity_id: 'dock-2', contract_price: 35 })
+        : null
+    );
+
+    const result = await contractPricingService.getEffectivePrice('user-1', 1, 'approved', 1, 'dock-2');
+    expect(result).toEqual({ price: 35, source: 'location' });
+  });
+
+  it('falls back to organization pricing when the location has none', async () => {
+    vi.spyOn(contractPricingService, 'getContractPrice').mockResolvedValue(null);
+
+    const result = await contractPricingService.getEffectivePrice('user-1', 1, 'approved', 1, 'dock-3');
+    expect(result).toEqual({ price: 40, source: 'organization' });
+  });
+
+  it('ignores location pricing for users who are not approved', async () => {
+    const lookup = vi.spyOn(contractPricingService, 'getContractPrice');
+
+    const result = await contractPricingService.getEffectivePrice('user-2', 1, 'pending', 1, 'dock-2');
+    expect(result).toBeNull();
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
+
+describe('setPriceTiers', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.from).mockReset();
+    vi.mocked(supabase.rpc).mockReset();
+  });
+
+  function mockExisting(rows: Array<{ id: string; effective_date: string | null; expiry_date: string | null }>) {
+    const query = {
+      select: vi.fn(() => query),
+      eq: vi.fn(() => query),
+      then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+    };
+    vi.mocked(supabase.from).mockReturnValue(query as never);
+    return query;
+  }
+
+  it('replaces the ladder in one call and keeps the old rows when it is rejected', async () => {
+    mockExisting([{ id: 'old-1', effective_date: null, expiry_date: null }]);
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: { message: 'Markup not allowed' } } as never);
+
+    const result = await contractPricingService.setPriceTiers('org-1', 7, 'organization', [
+      { minQuantity: 1, maxQuantity: 9, contractPrice: 20 },
+      { minQuantity: 10, contractPrice: 18 },
+    ]);
+
+    expect(result).toEqual({ success: false, error: 'Markup not allowed' });
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('replace_contract_price_tiers', expect.objectContaining({
+      p_entity_id: 'org-1',
+      p_product_id: 7,
+      p_remove: ['old-1'],
+      p_tiers: [
+        expect.objectContaining({ min_quantity: 1, max_quantity: 9, contract_price: 20 }),
+        expect.objectContaining({ min_quantity: 10, max_quantity: null, contract_price: 18 }),
+      ],
+    }));
+    // Reads only: nothing is deleted or inserted outside the RPC's transaction
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
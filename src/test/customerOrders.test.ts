@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  groupLogicalOrders,
+  logicalOrderStatus,
+  buildOrderTimeline,
+  carrierTrackingUrl,
+  buildReorderPlan,
+  renderInvoice,
+} from '../services/customerOrders';
+import type { Order } from '../components/admin/orders/types';
+import type { Product } from '../services/productService';
+
+const order = (overrides: Partial<Order>): Order => ({
+  id: 'o1',
+  user_id: 'u1',
+  order_number: 'ORD-1',
+  status: 'processing',
+  subtotal: 100,
+  tax: 8,
+  shipping: 10,
+  total: 118,
+  currency: 'USD',
+  items: [],
+  customer_email: 'buyer@example.com',
+  created_at: '2026-03-01T10:00:00Z',
+  updated_at: '2026-03-01T10:00:00Z',
+  ...overrides,
+});
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: 1,
+  name: 'Magnesium',
+  price: 20,
+  image: '',
+  hasImage: false,
+  hasDescription: false,
+  category: 'Minerals',
+  benefits: [],
+  rating: 0,
+  reviews: 0,
+  isActive: true,
+  ...overrides,
+} as Product);
+
+describe('groupLogicalOrders', () => {
+  it('folds splits and backorders into the original order', () => {
+    const groups = groupLogicalOrders([
+      order({ id: 'b1', order_number: 'ORD-1-B', parent_order_id: 'o1', split_from_order_id: 'o1', order_type: 'backorder', status: 'backorder', subtotal: 40, tax: 3.2, shipping: 4, total: 47.2, created_at: '2026-03-02T10:00:00Z' }),
+      order({ id: 'o2', order_number: 'ORD-2', created_at: '2026-03-05T10:00:00Z' }),
+      order({ id: 'o1', subtotal: 60, tax: 4.8, shipping: 6, total: 70.8, order_type: 'partial' }),
+    ]);
+
+    expect(groups.map(g => g.id)).toEqual(['o2', 'o1']);
+    const split = groups[1];
+    expect(split.orders.map(o => o.id)).toEqual(['o1', 'b1']);
+    expect(split.orderNumber).toBe('ORD-1');
+    expect(split.total).toBeCloseTo(118);
+  });
+
+  it('leaves out cancelled parts from the totals and keeps orphaned splits on their own', () => {
+    const groups = groupLogicalOrders([
+      order({ id: 'o1' }),
+      order({ id: 'v1', parent_order_id: 'o1', is_sub_order: true, status: 'cancelled', total: 50 }),
+      order({ id: 'v2', parent_order_id: 'deleted', is_sub_order: true }),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups.find(g => g.id === 'o1')?.total).toBe(118);
+  });
+});
+
+describe('logicalOrderStatus', () => {
+  const shipment = { carrier: 'UPS', tracking_number: '1Z999', status: 'in_transit' };
+
+  it('is driven by the least advanced open part', () => {
+    expect(logicalOrderStatus([order({ shipments: [shipment] }), order({ id: 'b', status: 'backorder' })])).toBe('partially_shipped');
+    expect(logicalOrderStatus([order({ status: 'pending' }), order({ id: 'b', status: 'backorder' })])).toBe('backorder');
+    expect(logicalOrderStatus([order({ status: 'completed' }), order({ id: 'b', shipments: [shipment] })])).toBe('shipped');
+    expect(logicalOrderStatus([order({ status: 'completed' }), order({ id: 'b', status: 'cancelled' })])).toBe('completed');
+    expect(logicalOrderStatus([order({ status: 'refunded' })])).toBe('refunded');
+  });
+});
+
+describe('buildOrderTimeline', () => {
+  it('marks the steps reached so far', () => {
+    const [group] = groupLogicalOrders([
+      order({
+        payment_captured_at: '2026-03-02T09:00:00Z',
+        shipments: [{ carrier: 'FedEx', tracking_number: '7777', status: 'in_transit', shipped_date: '2026-03-03', estimated_delivery: '2026-03-06' }],
+      }),
+    ]);
+    const steps = buildOrderTimeline(group);
+
+    expect(steps.map(s => s.key)).toEqual(['placed', 'paid', 'shipped', 'delivered', 'completed']);
+    expect(steps.filter(s => s.done).map(s => s.key)).toEqual(['placed', 'paid', 'shipped']);
+    expect(steps.find(s => s.key === 'shipped')?.at).toBe('2026-03-03');
+    expect(steps.find(s => s.key === 'delivered')?.detail).toContain('Expected by');
+  });
+
+  it('shows outstanding backorders and stops at cancellation', () => {
+    const [split] = groupLogicalOrders([
+      order({ id: 'o1' }),
+      order({ id: 'b1', parent_order_id: 'o1', order_type: 'backorder', status: 'backorder', created_at: '2026-03-02T10:00:00Z' }),
+    ]);
+    expect(buildOrderTimeline(split).find(s => s.key === 'backordered')?.detail).toBe('1 backorder still to ship');
+
+    const [cancelled] = groupLogicalOrders([order({ status: 'cancelled' })]);
+    expect(buildOrderTimeline(cancelled).map(s => s.key)).toEqual(['placed', 'cancelled']);
+  });
+});
+
+describe('carrierTrackingUrl', () => {
+  it('links known carriers and encodes the tracking number', () => {
+    expect(carrierTrackingUrl('UPS Ground', '1Z 999')).toBe('https://www.ups.com/track?tracknum=1Z%20999');
+    expect(carrierTrackingUrl('FedEx', '1234')).toContain('fedex.com');
+    expect(carrierTrackingUrl('usps', '9400')).toContain('usps.com');
+    expect(carrierTrackingUrl('Local courier', '42')).toBeNull();
+    expect(carrierTrackingUrl('UPS', ' ')).toBeNull();
+  });
+});
+
+describe('buildReorderPlan', () => {
+  it('combines split quantities, reprices and flags what is no longer available', async () => {
+    const [group] = groupLogicalOrders([
+      order({ id: 'o1', items: [{ productId: 1, name: 'Magnesium', quantity: 2, price: 18 }, { productId: 2, name: 'Old Formula', quantity: 1, price: 30 }] }),
+      order({ id: 'b1', parent_order_id: 'o1', items: [{ productId: 1, name: 'Magnesium', quantity: 3, price: 18 }, { productId: 3, name: 'Zinc', quantity: 1, price: 9 }] }),
+    ]);
+    const priceFor = vi.fn(async (p: Product, quantity: number) => ({ price: quantity >= 5 ? 16 : p.price, retailPrice: p.price, hasMarkup: false }));
+
+    const plan = await buildReorderPlan(group, [
+      product({ id: 1 }),
+      product({ id: 2, name: 'Old Formula', isActive: false }),
+      product({ id: 3, name: 'Zinc', price: 9, isInStock: false }),
+    ], priceFor);
+
+    expect(plan.lines.map(l => [l.id, l.quantity, l.price])).toEqual([[1, 5, 16], [3, 1, 9]]);
+    expect(priceFor).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }), 5);
+    expect(plan.unavailable).toEqual([{ productId: 2, name: 'Old Formula', quantity: 1 }]);
+    expect(plan.priceChanges).toEqual([{ productId: 1, name: 'Magnesium', was: 18, now: 16 }]);
+    expect(plan.outOfStock).toEqual(['Zinc']);
+  });
+
+  it('reports products that were deleted from the catalog', async () => {
+    const [group] = groupLogicalOrders([order({ items: [{ productId: 9, name: 'Gone', quantity: 1, price: 5 }] })]);
+    const plan = await buildReorderPlan(group, [], vi.fn());
+    expect(plan.lines).toEqual([]);
+    expect(plan.unavailable).toHaveLength(1);
+  });
+});
+
+describe('renderInvoice', () => {
+  it('lists each billed part and escapes customer text', () => {
+    const [group] = groupLogicalOrders([
+      order({ id: 'o1', items: [{ productId: 1, name: '<b>Magnesium</b>', quantity: 2, price: 30 }], payment_method: 'invoice', payment_terms: 'net_30' }),
+      order({ id: 'b1', order_number: 'ORD-1-B', parent_order_id: 'o1', order_type: 'backorder', items: [{ productId: 2, name: 'Zinc', quantity: 1, price: 40 }] }),
+    ]);
+    const html = renderInvoice({ order: group, company: { name: 'HealthSpan360', phone: '', email: '', addressLine1: '', addressLine2: '' } });
+
+    expect(html).toContain('&lt;b&gt;Magnesium&lt;/b&gt;');
+    expect(html).toContain('ORD-1-B · Backorder');
+    expect(html).toContain('Net 30');
+    expect(html).toContain('$236.00');
+  });
+});
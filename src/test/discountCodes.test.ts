@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  calculateDiscount,
+  getDiscountCodeError,
+  normalizeDiscountCode,
+  DiscountCode,
+} from '../services/discountCodes';
+
+const NOW = new Date('2026-04-15T12:00:00Z');
+
+function makeCode(overrides: Partial<DiscountCode> = {}): DiscountCode {
+  return {
+    id: 'code-1',
+    code: 'SPRING',
+    discount_type: 'percent',
+    amount: 10,
+    product_ids: [],
+    category_ids: [],
+    brand_ids: [],
+    organization_ids: [],
+    times_used: 0,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+const lines = [
+  { productId: 1, quantity: 2, price: 50, categoryId: 'cat-a', brandId: 'brand-x' },
+  { productId: 2, quantity: 1, price: 100, categoryId: 'cat-b', brandId: 'brand-y' },
+];
+
+describe('normalizeDiscountCode', () => {
+  it('trims and upper-cases codes', () => {
+    expect(normalizeDiscountCode('  spring15 ')).toBe('SPRING15');
+  });
+});
+
+describe('getDiscountCodeError', () => {
+  it('rejects codes outside their window or over their limits', () => {
+    expect(getDiscountCodeError(makeCode({ starts_at: '2026-05-01T00:00:00Z' }), 100, { now: NOW })).toBe('This code is not active yet');
+    expect(getDiscountCodeError(makeCode({ expires_at: '2026-04-01T00:00:00Z' }), 100, { now: NOW })).toBe('This code has expired');
+    expect(getDiscountCodeError(makeCode({ max_uses: 5, times_used: 5 }), 100, { now: NOW })).toBe('This code has reached its usage limit');
+    expect(getDiscountCodeError(makeCode({ max_uses_per_customer: 1 }), 100, { now: NOW, customerUses: 1 })).toBe('You have already used this code');
+  });
+
+  it('checks organization and minimum subtotal limits', () => {
+    const code = makeCode({ organization_ids: ['org-1'], min_subtotal: 150 });
+    expect(getDiscountCodeError(code, 200, { organizationId: 'org-2', now: NOW })).toBe('This code is not valid for your account');
+    expect(getDiscountCodeError(code, 100, { organizationId: 'org-1', now: NOW })).toMatch(/at least \$150\.00/);
+    expect(getDiscountCodeError(code, 200, { organizationId: 'org-1', now: NOW })).toBeNull();
+  });
+});
+
+describe('calculateDiscount', () => {
+  it('takes a percentage off every line', () => {
+    const result = calculateDiscount(makeCode({ amount: 15 }), lines, 10, { now: NOW });
+    expect(result.discount).toBe(30);
+    expect(result.lines).toEqual([
+      { productId: 1, discount: 15 },
+      { productId: 2, discount: 15 },
+    ]);
+  });
+
+  it('spreads a fixed amount across eligible lines and caps it at their value', () => {
+    const result = calculateDiscount(makeCode({ discount_type: 'fixed_amount', amount: 25 }), lines, 10, { now: NOW });
+    expect(result.lines).toEqual([
+      { productId: 1, discount: 12.5 },
+      { productId: 2, discount: 12.5 },
+    ]);
+
+    const capped = calculateDiscount(
+      makeCode({ discount_type: 'fixed_amount', amount: 500, category_ids: ['cat-a'] }),
+      lines, 10, { now: NOW }
+    );
+    expect(capped.discount).toBe(100);
+    expect(capped.lines).toEqual([{ productId: 1, discount: 100 }]);
+  });
+
+  it('only discounts lines matching the product, category or brand limits', () => {
+    const result = calculateDiscount(makeCode({ brand_ids: ['brand-y'] }), lines, 10, { now: NOW });
+    expect(result.lines).toEqual([{ productId: 2, discount: 10 }]);
+
+    const none = calculateDiscount(makeCode({ product_ids: [99] }), lines, 10, { now: NOW });
+    expect(none.discount).toBe(0);
+    expect(none.error).toBe('This code does not apply to any items in your cart');
+  });
+
+  it('waives shipping for free-shipping codes', () => {
+    const result = calculateDiscount(makeCode({ discount_type: 'free_shipping', amount: 0 }), lines, 12.5, { now: NOW });
+    expect(result).toEqual({ discount: 0, shippingDiscount: 12.5, lines: [] });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  assess1099,
+  build1099File,
+  necThresholdCents,
+  render1099CopyB,
+  type Form1099Recipient,
+} from '../services/form1099';
+
+const recipient = (overrides: Partial<Form1099Recipient> = {}): Form1099Recipient => ({
+  payee_id: '6f1c2a30-0000-4000-8000-000000000001',
+  payee_name: 'Jordan Smith',
+  payee_email: 'jordan@example.com',
+  payee_roles: ['sales_rep', 'distributor'],
+  distributor_id: 'dist-1',
+  distributor_class: 'independent',
+  legal_name: 'Jordan Smith',
+  business_name: 'Smith Wellness',
+  tax_id: '123-45-6789',
+  tax_id_type: 'ssn',
+  tax_classification: 'sole_proprietor',
+  w9_status: 'verified',
+  address: '1 Main St',
+  city: 'Austin',
+  state: 'TX',
+  zip: '78701',
+  commission_total: 2500,
+  adjustment_total: -100,
+  commission_count: 12,
+  ...overrides,
+});
+
+const filer = {
+  payer: {
+    name: 'HealthSpan360',
+    tin: '12-3456789',
+    address: '100 Congress Ave',
+    city: 'Austin',
+    state: 'TX',
+    zip: '78701',
+    phone: '512-555-0100',
+  },
+  transmitter: { controlCode: '1AB23', contactName: 'Pat Lee', contactEmail: 'tax@example.com' },
+};
+
+describe('necThresholdCents', () => {
+  it('uses $600 through 2025 and $2,000 from 2026', () => {
+    expect(necThresholdCents(2025)).toBe(60000);
+    expect(necThresholdCents(2026)).toBe(200000);
+  });
+});
+
+describe('assess1099', () => {
+  it('nets clawbacks into the reportable amount', () => {
+    const result = assess1099(recipient(), 2026);
+    expect(result.netCents).toBe(240000);
+    expect(result.status).toBe('ready');
+  });
+
+  it('flags payees over the threshold without a verified W-9', () => {
+    const result = assess1099(recipient({ w9_status: 'received', tax_id: null }), 2026);
+    expect(result.status).toBe('needs_w9');
+    expect(result.issues).toEqual(['W-9 received', 'Missing TIN']);
+
+    expect(assess1099(recipient({ distributor_id: null }), 2026).issues).toEqual(['No W-9 on file']);
+  });
+
+  it('skips payees under the threshold or classified as corporations', () => {
+    expect(assess1099(recipient({ commission_total: 1500, w9_status: 'pending' }), 2026).status).toBe('below_threshold');
+    expect(assess1099(recipient({ commission_total: 1500 }), 2025).status).toBe('ready');
+    expect(assess1099(recipient({ tax_classification: 's_corp' }), 2026).status).toBe('exempt');
+  });
+});
+
+describe('build1099File', () => {
+  const forms = [assess1099(recipient(), 2026), assess1099(recipient({ payee_id: 'x', w9_status: 'pending' }), 2026)];
+  const file = build1099File(2026, filer, forms);
+  const records = file.split('\r\n').filter(Boolean);
+
+  it('writes T, A, one B per ready form, C and F records of 750 characters', () => {
+    expect(records.map(r => r[0]).join('')).toBe('TABCF');
+    expect(file.split('\r\n').slice(0, -1).every(r => r.length === 748)).toBe(true);
+  });
+
+  it('places the payee TIN, Box 1 amount and sequence numbers', () => {
+    const b = records[2];
+    expect(b.slice(1, 5)).toBe('2026');
+    expect(b[10]).toBe('2');
+    expect(b.slice(11, 20)).toBe('123456789');
+    expect(b.slice(54, 66)).toBe('000000240000');
+    expect(b.slice(247, 287).trim()).toBe('JORDAN SMITH');
+    expect(b.slice(499, 507)).toBe('00000003');
+  });
+
+  it('totals the payer in the C record', () => {
+    const c = records[3];
+    expect(c.slice(1, 9)).toBe('00000001');
+    expect(c.slice(15, 33)).toBe('000000000000240000');
+  });
+
+  it('requires the payer EIN and transmitter code', () => {
+    expect(() => build1099File(2026, { ...filer, payer: { ...filer.payer, tin: '' } }, forms)).toThrow(/EIN/);
+    expect(() => build1099File(2026, { ...filer, transmitter: { ...filer.transmitter, controlCode: '' } }, forms))
+      .toThrow(/Transmitter Control Code/);
+  });
+});
+
+describe('render1099CopyB', () => {
+  it('truncates the recipient TIN', () => {
+    const html = render1099CopyB(2026, filer.payer, [assess1099(recipient(), 2026)]);
+    expect(html).toContain('***-**-6789');
+    expect(html).not.toContain('123-45-6789');
+    expect(html).toContain('$2400.00');
+  });
+});
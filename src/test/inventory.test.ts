@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  availableQuantity,
+  clearBackorderFlag,
+  flagBackorderedItems,
+  isLowStock,
+  summarizeStock,
+  type InventoryLevel,
+} from '../services/inventory';
+import type { OrderItem } from '../services/orderService';
+
+function level(overrides: Partial<InventoryLevel>): InventoryLevel {
+  return {
+    id: 'l1',
+    product_id: 1,
+    warehouse_id: 'main',
+    on_hand: 10,
+    reserved: 0,
+    low_stock_threshold: 0,
+    ...overrides,
+  };
+}
+
+const item = (productId: number, quantity: number): OrderItem => ({
+  productId,
+  name: `Product ${productId}`,
+  quantity,
+  price: 10,
+});
+
+describe('stock levels', () => {
+  it('subtracts reserved units and never goes below zero', () => {
+    expect(availableQuantity({ on_hand: 10, reserved: 4 })).toBe(6);
+    expect(availableQuantity({ on_hand: 2, reserved: 5 })).toBe(0);
+  });
+
+  it('is low on stock only when a threshold is set and reached', () => {
+    expect(isLowStock(level({ on_hand: 5, reserved: 0, low_stock_threshold: 5 }))).toBe(true);
+    expect(isLowStock(level({ on_hand: 8, reserved: 2, low_stock_threshold: 5 }))).toBe(false);
+    expect(isLowStock(level({ on_hand: 0, low_stock_threshold: 0 }))).toBe(false);
+  });
+
+  it('totals warehouses per product and flags any low warehouse', () => {
+    const summary = summarizeStock([
+      level({ id: 'a', warehouse_id: 'main', on_hand: 10, reserved: 3, low_stock_threshold: 2 }),
+      level({ id: 'b', warehouse_id: 'east', on_hand: 1, reserved: 0, low_stock_threshold: 2 }),
+      level({ id: 'c', product_id: 2, on_hand: 4, reserved: 4 }),
+    ]);
+
+    expect(summary.get(1)).toEqual({ onHand: 11, reserved: 3, available: 8, lowStock: true });
+    expect(summary.get(2)).toEqual({ onHand: 4, reserved: 4, available: 0, lowStock: false });
+  });
+});
+
+describe('flagBackorderedItems', () => {
+  it('flags the lines stock could not cover with the short quantity', () => {
+    const { items, backordered } = flagBackorderedItems(
+      [item(1, 5), item(2, 3)],
+      [
+        { product_id: 1, requested: 5, reserved: 2, backordered: 3 },
+        { product_id: 2, requested: 3, reserved: 3, backordered: 0 },
+      ]
+    );
+
+    expect(items[0]).toMatchObject({ productId: 1, quantity: 5, backorder: true, backorderQuantity: 3 });
+    expect(items[1].backorder).toBeUndefined();
+    expect(backordered).toEqual([{ productId: 1, quantity: 3 }]);
+  });
+
+  it('clears stale flags when a line is now covered', () => {
+    const stale = { ...item(1, 2), backorder: true, backorderQuantity: 2 };
+    const { items, backordered } = flagBackorderedItems(
+      [stale],
+      [{ product_id: 1, requested: 2, reserved: 2, backordered: 0 }]
+    );
+
+    expect(items[0]).toEqual(clearBackorderFlag(stale));
+    expect(items[0].backorderQuantity).toBeUndefined();
+    expect(backordered).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  DEFAULT_TERMS_DAYS,
+  availableCredit,
+  invoiceBlockReason,
+  invoiceDueDate,
+  openInvoiceBalance,
+  termsDays,
+  type OrganizationCredit,
+} from '../services/paymentTerms';
+import { orderService } from '../services/orderService';
+import { supabase } from '../services/supabase';
+
+const credit = (overrides: Partial<OrganizationCredit>): OrganizationCredit => ({
+  paymentTerms: 'net_30',
+  creditLimit: 5000,
+  openBalance: 0,
+  availableCredit: 5000,
+  ...overrides,
+});
+
+describe('payment terms', () => {
+  it('maps terms to days, defaulting unknown terms', () => {
+    expect(termsDays('net_60')).toBe(60);
+    expect(termsDays('due_on_receipt')).toBe(0);
+    expect(termsDays(null)).toBe(DEFAULT_TERMS_DAYS);
+    expect(termsDays('net_7')).toBe(DEFAULT_TERMS_DAYS);
+  });
+
+  it('dates the invoice from the order date', () => {
+    const placed = new Date(2026, 0, 15, 12);
+    expect(invoiceDueDate('net_30', placed)).toBe('2026-02-14');
+    expect(invoiceDueDate('net_60', placed)).toBe('2026-03-16');
+    expect(invoiceDueDate('due_on_receipt', placed)).toBe('2026-01-15');
+  });
+});
+
+describe('credit', () => {
+  it('subtracts open invoices from the limit and never goes below zero', () => {
+    expect(availableCredit(5000, 1250.5)).toBe(3749.5);
+    expect(availableCredit(1000, 1200)).toBe(0);
+    expect(availableCredit(null, 1200)).toBeNull();
+  });
+
+  it('blocks orders over the available credit', () => {
+    expect(invoiceBlockReason(4999.99, credit({ availableCredit: 5000 }))).toBeNull();
+    expect(invoiceBlockReason(5000.01, credit({ availableCredit: 5000 }))).toBe(
+      'Order total $5000.01 exceeds the available credit of $5000.00'
+    );
+  });
+
+  it('allows any total without a limit but requires terms', () => {
+    expect(invoiceBlockReason(1_000_000, credit({ creditLimit: null, availableCredit: null }))).toBeNull();
+    expect(invoiceBlockReason(10, credit({ paymentTerms: null }))).toMatch(/not set up to pay by invoice/);
+    expect(invoiceBlockReason(10, null)).toMatch(/not set up to pay by invoice/);
+  });
+});
+
+describe('splitting an invoice order', () => {
+  type Row = Record<string, unknown> & { id: string; total: number };
+
+  // Minimal orders table: reads by id, updates in place, inserts new rows
+  const mockOrdersTable = (rows: Map<string, Row>) => {
+    vi.mocked(supabase.from).mockImplementation(() => {
+      let id = '';
+      let write: { kind: 'update' | 'insert'; values: Record<string, unknown> } | null = null;
+      const query = {
+        select: () => query,
+        eq: (_column: string, value: string) => { id = value; return query; },
+        update: (values: Record<string, unknown>) => { write = { kind: 'update', values }; return query; },
+        insert: (values: Record<string, unknown>) => { write = { kind: 'insert', values }; return query; },
+        maybeSingle: async () => ({ data: rows.get(id) ?? null, error: null }),
+        single: async () => {
+          const row = write?.kind === 'update'
+            ? { ...rows.get(id)!, ...write.values } as Row
+            : { id: `split-${rows.size}`, ...write!.values } as Row;
+          rows.set(row.id, row);
+          return { data: row, error: null };
+        },
+      };
+      return query as never;
+    });
+  };
+
+  it('keeps the open balance and the PO and terms on backordered items', async () => {
+    const rows = new Map<string, Row>([['o1', {
+      id: 'o1',
+      order_number: 'ORD-1',
+      user_id: 'u1',
+      organization_id: 'org1',
+      status: 'pending',
+      items: [
+        { productId: 1, name: 'In stock', quantity: 2, price: 30 },
+        { productId: 2, name: 'Backordered', quantity: 1, price: 40 },
+      ],
+      subtotal: 100,
+      tax: 8,
+      shipping: 10,
+      total: 118,
+      payment_method: 'invoice',
+      payment_status: 'pending',
+      po_number: 'PO-7781',
+      payment_terms: 'net_30',
+      invoice_due_date: '2026-04-30',
+      quickbooks_invoice_id: '1045',
+    }]]);
+    mockOrdersTable(rows);
+
+    const before = openInvoiceBalance([...rows.values()]);
+    const result = await orderService.splitOrderByBackorderWithQuantities('o1', [{ productId: 2, quantity: 1 }]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.backorder).toMatchObject({
+      payment_method: 'invoice',
+      po_number: 'PO-7781',
+      payment_terms: 'net_30',
+      invoice_due_date: '2026-04-30',
+      // Settled when the original's invoice is paid
+      quickbooks_invoice_id: '1045',
+    });
+    expect(openInvoiceBalance([...rows.values()])).toBe(before);
+  });
+
+  it('shares the discount between the parts so they add up to what was charged', async () => {
+    const rows = new Map<string, Row>([['o1', {
+      id: 'o1',
+      user_id: 'u1',
+      status: 'pending',
+      items: [
+        { productId: 1, name: 'In stock', quantity: 2, price: 30, discount: 6 },
+        { productId: 2, name: 'Backordered', quantity: 4, price: 10, discount: 4 },
+      ],
+      subtotal: 100,
+      tax: 7.2,
+      shipping: 10,
+      // $10 off the lines and $5 off shipping
+      discount: 15,
+      discount_code: 'SPRING',
+      discount_code_id: 'code-1',
+      total: 102.2,
+      payment_method: 'invoice',
+      payment_status: 'pending',
+    }]]);
+    mockOrdersTable(rows);
+
+    const result = await orderService.splitOrderByBackorderWithQuantities('o1', [{ productId: 2, quantity: 3 }]);
+
+    expect(result.error).toBeUndefined();
+    const original = rows.get('o1')!;
+    expect(original.discount).toBeCloseTo(6 + 1 + 5 * 70 / 100);
+    expect(result.backorder).toMatchObject({ discount_code: 'SPRING', discount_code_id: 'code-1' });
+    expect(result.backorder!.discount).toBeCloseTo(3 + 5 * 30 / 100);
+    expect(result.backorder!.items[0].discount).toBeCloseTo(3);
+    expect(original.total + result.backorder!.total).toBeCloseTo(102.2);
+  });
+
+  it('leaves vendor sub-orders out of the balance their parent carries', () => {
+    expect(openInvoiceBalance([
+      { payment_method: 'invoice', payment_status: 'pending', total: 118 },
+      { payment_method: 'invoice', payment_status: 'pending', is_sub_order: true, total: 70.8 },
+      { payment_method: 'invoice', payment_status: 'pending', is_sub_order: true, total: 47.2 },
+      { payment_method: 'invoice', payment_status: 'captured', total: 500 },
+      { payment_method: 'card', payment_status: 'pending', total: 90 },
+    ])).toBe(118);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTierLadder,
+  findLadderOverlap,
+  findNextPriceBreak,
+  findTierForQuantity,
+  formatTierRange,
+} from '../services/pricingTiers';
+
+const LADDER = [
+  { min_quantity: 1, max_quantity: 9, contract_price: 50 },
+  { min_quantity: 10, max_quantity: 49, contract_price: 45 },
+  { min_quantity: 50, max_quantity: null, contract_price: 40 },
+];
+
+describe('findTierForQuantity', () => {
+  it('picks the tier covering the quantity', () => {
+    expect(findTierForQuantity(LADDER, 1)?.contract_price).toBe(50);
+    expect(findTierForQuantity(LADDER, 10)?.contract_price).toBe(45);
+    expect(findTierForQuantity(LADDER, 500)?.contract_price).toBe(40);
+  });
+
+  it('returns null below the first break', () => {
+    expect(findTierForQuantity([{ min_quantity: 10, contract_price: 45 }], 5)).toBeNull();
+  });
+});
+
+describe('findNextPriceBreak', () => {
+  it('reports how many more units reach the next cheaper tier', () => {
+    expect(findNextPriceBreak(LADDER, 7, 50)).toEqual({ minQuantity: 10, quantityNeeded: 3, price: 45 });
+  });
+
+  it('returns null on the top tier', () => {
+    expect(findNextPriceBreak(LADDER, 60, 40)).toBeNull();
+  });
+});
+
+describe('buildTierLadder', () => {
+  it('fills max quantities from the next break', () => {
+    const { tiers, error } = buildTierLadder([
+      { minQuantity: 50, contractPrice: 40 },
+      { minQuantity: 1, contractPrice: 50 },
+      { minQuantity: 10, contractPrice: 45 },
+    ]);
+
+    expect(error).toBeUndefined();
+    expect(tiers.map(t => [t.minQuantity, t.maxQuantity])).toEqual([[1, 9], [10, 49], [50, undefined]]);
+  });
+
+  it('rejects duplicate breaks and missing prices', () => {
+    expect(buildTierLadder([
+      { minQuantity: 1, contractPrice: 50 },
+      { minQuantity: 1, contractPrice: 45 },
+    ]).error).toMatch(/Two tiers/);
+    expect(buildTierLadder([{ minQuantity: 1 }]).error).toMatch(/needs a price/);
+  });
+});
+
+describe('findLadderOverlap', () => {
+  it('flags overlapping ranges', () => {
+    expect(findLadderOverlap([
+      { minQuantity: 1, maxQuantity: 10, contractPrice: 50 },
+      { minQuantity: 10, contractPrice: 45 },
+    ])).toMatch(/overlaps the 1-10 tier/);
+    expect(findLadderOverlap([
+      { minQuantity: 1, maxQuantity: 9, contractPrice: 50 },
+      { minQuantity: 10, contractPrice: 45 },
+    ])).toBeNull();
+  });
+});
+
+describe('formatTierRange', () => {
+  it('formats bounded and open-ended tiers', () => {
+    expect(formatTierRange(LADDER[1])).toBe('10-49');
+    expect(formatTierRange(LADDER[2])).toBe('50+');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPricingWindowStatus,
+  isExpiringSoon,
+  planLadderReplacement,
+  windowsOverlap,
+} from '../services/pricingWindows';
+
+const NOW = new Date('2026-04-15T12:00:00Z');
+
+describe('getPricingWindowStatus', () => {
+  it('classifies upcoming, active and expired prices', () => {
+    expect(getPricingWindowStatus({ effective_date: '2026-05-01T00:00:00Z' }, NOW)).toBe('upcoming');
+    expect(getPricingWindowStatus({ effective_date: '2026-01-01T00:00:00Z', expiry_date: null }, NOW)).toBe('active');
+    expect(getPricingWindowStatus({ effective_date: '2026-01-01T00:00:00Z', expiry_date: '2026-04-01T00:00:00Z' }, NOW)).toBe('expired');
+  });
+});
+
+describe('isExpiringSoon', () => {
+  it('flags active prices expiring within 30 days', () => {
+    expect(isExpiringSoon({ expiry_date: '2026-05-01T00:00:00Z' }, NOW)).toBe(true);
+    expect(isExpiringSoon({ expiry_date: '2026-07-01T00:00:00Z' }, NOW)).toBe(false);
+    expect(isExpiringSoon({ expiry_date: '2026-04-01T00:00:00Z' }, NOW)).toBe(false);
+  });
+});
+
+describe('windowsOverlap', () => {
+  it('treats windows as half-open', () => {
+    expect(windowsOverlap({ expiry_date: '2026-05-01T00:00:00Z' }, { effective_date: '2026-05-01T00:00:00Z' })).toBe(false);
+    expect(windowsOverlap({ expiry_date: '2026-05-02T00:00:00Z' }, { effective_date: '2026-05-01T00:00:00Z' })).toBe(true);
+  });
+});
+
+describe('planLadderReplacement', () => {
+  const existing = [
+    { id: 'current', effective_date: '2026-01-01T00:00:00Z', expiry_date: null },
+    { id: 'old', effective_date: '2025-01-01T00:00:00Z', expiry_date: '2026-01-01T00:00:00Z' },
+  ];
+
+  it('cuts current prices off at a scheduled change', () => {
+    expect(planLadderReplacement(existing, { effective_date: '2026-06-01T00:00:00Z' }, [], NOW))
+      .toEqual({ truncate: ['current'], remove: [] });
+  });
+
+  it('replaces current prices when the new ladder starts now', () => {
+    expect(planLadderReplacement(existing, { effective_date: NOW.toISOString() }, [], NOW))
+      .toEqual({ truncate: [], remove: ['current'] });
+  });
+
+  it('always replaces the ladder being edited', () => {
+    expect(planLadderReplacement(existing, { effective_date: '2026-06-01T00:00:00Z' }, ['current'], NOW))
+      .toEqual({ truncate: [], remove: ['current'] });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  UNKNOWN_VENDOR,
+  canReceive,
+  groupBackorderedLines,
+  outstandingQuantity,
+  purchaseOrderTotal,
+  type BackorderedOrder,
+  type ReplenishmentProduct,
+} from '../services/purchaseOrders';
+
+const products = new Map<number, ReplenishmentProduct>([
+  [1, { id: 1, name: 'Omega-3', sku: 'OM3', cost: 12.5, brandId: 'b-nordic', brandName: 'Nordic' }],
+  [2, { id: 2, name: 'Vitamin D', sku: 'VD', cost: 4, brandId: 'b-thorne', brandName: 'Thorne' }],
+]);
+
+const order = (id: string, items: BackorderedOrder['items']): BackorderedOrder => ({
+  id,
+  created_at: '2026-03-01T00:00:00Z',
+  items,
+});
+
+describe('groupBackorderedLines', () => {
+  it('totals each product per vendor brand across backorders', () => {
+    const groups = groupBackorderedLines(
+      [
+        order('o1', [{ productId: 1, name: 'Omega-3', quantity: 2, price: 30 }]),
+        order('o2', [
+          { productId: 1, name: 'Omega-3', quantity: 3, price: 30 },
+          { productId: 2, name: 'Vitamin D', quantity: 1, price: 10 },
+        ]),
+      ],
+      products
+    );
+
+    expect(groups.map(g => g.vendorBrand)).toEqual(['Nordic', 'Thorne']);
+    expect(groups[0]).toMatchObject({ brandId: 'b-nordic', orderIds: ['o1', 'o2'] });
+    expect(groups[0].lines).toEqual([{ productId: 1, name: 'Omega-3', sku: 'OM3', quantity: 5, unitCost: 12.5 }]);
+    expect(groups[1].orderIds).toEqual(['o2']);
+  });
+
+  it('falls back to the brand on the order line, then to an unknown vendor', () => {
+    const groups = groupBackorderedLines(
+      [order('o1', [
+        { productId: 9, name: 'Legacy item', quantity: 1, price: 5, brand: 'Acme', cost: 2 },
+        { productId: 10, name: 'Mystery item', quantity: 4, price: 5 },
+      ])],
+      products
+    );
+
+    expect(groups.map(g => g.vendorBrand)).toEqual(['Acme', UNKNOWN_VENDOR]);
+    expect(groups[0].lines[0].unitCost).toBe(2);
+    expect(groups[1].lines[0].unitCost).toBeNull();
+  });
+});
+
+describe('purchase order helpers', () => {
+  it('totals ordered cost and outstanding units', () => {
+    const lines = [
+      { quantity_ordered: 3, quantity_received: 1, unit_cost: 12.5 },
+      { quantity_ordered: 2, quantity_received: 2, unit_cost: null },
+    ];
+    expect(purchaseOrderTotal(lines)).toBe(37.5);
+    expect(lines.map(outstandingQuantity)).toEqual([2, 0]);
+  });
+
+  it('only receives open purchase orders', () => {
+    expect(canReceive('sent')).toBe(true);
+    expect(canReceive('partially_received')).toBe(true);
+    expect(canReceive('received')).toBe(false);
+    expect(canReceive('cancelled')).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), auth: { getSession: vi.fn() } },
+}));
+
+import { buildInvoiceLines } from '../services/quickbooks/invoices';
+
+const items = [
+  { productId: 1, name: 'Omega-3', sku: 'OM3-120', quantity: 2, price: 30, taxable: true, discount: 6 },
+  { productId: 2, name: 'Vitamin D', quantity: 1, price: 15.5, taxable: false, discount: 1.55 },
+];
+
+describe('buildInvoiceLines', () => {
+  it('invoices items at list price and the discount code as a discount line', () => {
+    const lines = buildInvoiceLines(items, new Map([[1, '42']]), 'SPRING10');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatchObject({
+      Amount: 60,
+      SalesItemLineDetail: { ItemRef: { value: '42' }, Qty: 2, UnitPrice: 30, TaxCodeRef: { value: 'TAX' } },
+      Description: 'Omega-3 (SKU: OM3-120)',
+    });
+    expect(lines[1]).toMatchObject({ Amount: 15.5, SalesItemLineDetail: { ItemRef: { value: '1' }, TaxCodeRef: { value: 'NON' } } });
+    expect(lines[2]).toEqual({
+      DetailType: 'DiscountLineDetail',
+      Amount: 7.55,
+      DiscountLineDetail: { PercentBased: false },
+      Description: 'Discount code SPRING10',
+    });
+
+    const net = lines.reduce((sum, line) => sum + (line.DetailType === 'DiscountLineDetail' ? -line.Amount : line.Amount), 0);
+    expect(Math.round(net * 100) / 100).toBe(67.95);
+  });
+
+  it('adds no discount line to undiscounted orders', () => {
+    const lines = buildInvoiceLines(items.map(item => ({ ...item, discount: 0 })), new Map());
+    expect(lines.map(line => line.DetailType)).toEqual(['SalesItemLineDetail', 'SalesItemLineDetail']);
+  });
+});
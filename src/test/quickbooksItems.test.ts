@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), auth: { getSession: vi.fn() } },
+}));
+
+import { buildQBItem, qbItemName, type ItemSourceProduct } from '../services/quickbooks/items';
+
+const product = (overrides: Partial<ItemSourceProduct> = {}): ItemSourceProduct => ({
+  id: 7,
+  name: 'Omega-3 Fish Oil',
+  sku: 'OM3-120',
+  price: 29.99,
+  cost: 12.5,
+  plain_text_description: '120 softgels',
+  is_active: true,
+  ...overrides,
+});
+
+const accounts = { income: '79', expense: '80', asset: '81' };
+
+describe('qbItemName', () => {
+  it('appends the SKU and strips characters QuickBooks rejects', () => {
+    expect(qbItemName(product())).toBe('Omega-3 Fish Oil (OM3-120)');
+    expect(qbItemName(product({ name: 'Kit: Starter\tPack', sku: null }))).toBe('Kit Starter Pack');
+  });
+
+  it('keeps the whole SKU within the 100 character limit', () => {
+    const name = qbItemName(product({ name: 'x'.repeat(150), sku: 'LONG-SKU' }));
+    expect(name).toHaveLength(100);
+    expect(name.endsWith(' (LONG-SKU)')).toBe(true);
+  });
+});
+
+describe('buildQBItem', () => {
+  it('builds a non-inventory item posted to the income and expense accounts', () => {
+    const item = buildQBItem(product(), 'NonInventory', accounts);
+
+    expect(item).toMatchObject({
+      Name: 'Omega-3 Fish Oil (OM3-120)',
+      Sku: 'OM3-120',
+      Type: 'NonInventory',
+      UnitPrice: 29.99,
+      PurchaseCost: 12.5,
+      Active: true,
+      IncomeAccountRef: { value: '79' },
+      ExpenseAccountRef: { value: '80' },
+    });
+    expect(item.TrackQtyOnHand).toBeUndefined();
+    expect(item.AssetAccountRef).toBeUndefined();
+  });
+
+  it('tracks quantity on inventory items and only sends the opening balance on create', () => {
+    const created = buildQBItem(product(), 'Inventory', accounts, { quantity: 42, date: '2026-03-25' });
+    expect(created).toMatchObject({
+      TrackQtyOnHand: true,
+      AssetAccountRef: { value: '81' },
+      QtyOnHand: 42,
+      InvStartDate: '2026-03-25',
+    });
+
+    const updated = buildQBItem(product(), 'Inventory', accounts);
+    expect(updated.QtyOnHand).toBeUndefined();
+    expect(updated.InvStartDate).toBeUndefined();
+  });
+});
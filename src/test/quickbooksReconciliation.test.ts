@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn(), auth: { getSession: vi.fn() } },
+}));
+
+import type { QBCustomer } from '../services/quickbooks/customers';
+import {
+  diffCustomer,
+  normalizeName,
+  reconcileCustomers,
+  type ReconcileOrganization,
+} from '../services/quickbooks/reconciliation';
+
+const org = (overrides: Partial<ReconcileOrganization> = {}): ReconcileOrganization => ({
+  id: 'org-1',
+  name: 'Lakeside Clinic',
+  code: 'LAKCLI',
+  contact_email: 'billing@lakeside.test',
+  contact_phone: '(512) 555-0100',
+  billing_address: { address1: '1 Main St', city: 'Austin', state_or_province: 'TX', postal_code: '78701', country_code: 'US' },
+  quickbooks_customer_id: null,
+  is_active: true,
+  ...overrides,
+});
+
+const customer = (overrides: Partial<QBCustomer> = {}): QBCustomer => ({
+  Id: '58',
+  DisplayName: 'Lakeside Clinic',
+  CompanyName: 'Lakeside Clinic',
+  PrimaryEmailAddr: { Address: 'Billing@Lakeside.test' },
+  PrimaryPhone: { FreeFormNumber: '512-555-0100' },
+  BillAddr: { Line1: '1 Main St', City: 'Austin', CountrySubDivisionCode: 'TX', PostalCode: '78701', Country: 'US' },
+  ...overrides,
+});
+
+describe('diffCustomer', () => {
+  it('ignores case, punctuation and phone formatting', () => {
+    expect(diffCustomer(org({ name: 'Lakeside Clinic, LLC' }), customer())).toEqual([]);
+  });
+
+  it('reports each field that differs with both values', () => {
+    const diffs = diffCustomer(
+      org(),
+      customer({
+        PrimaryEmailAddr: { Address: 'ap@lakeside.test' },
+        BillAddr: { Line1: '9 Oak Ave', City: 'Austin', CountrySubDivisionCode: 'TX', PostalCode: '78702' },
+      })
+    );
+
+    expect(diffs).toEqual([
+      { field: 'email', app: 'billing@lakeside.test', quickbooks: 'ap@lakeside.test' },
+      { field: 'address', app: '1 Main St, Austin, TX 78701', quickbooks: '9 Oak Ave, Austin, TX 78702' },
+    ]);
+  });
+});
+
+describe('reconcileCustomers', () => {
+  it('pairs linked records first, then unlinked ones by name or email', () => {
+    const report = reconcileCustomers(
+      [
+        org({ id: 'linked', quickbooks_customer_id: '1', name: 'Alpha Health' }),
+        org({ id: 'by-name', name: 'Beta Wellness', contact_email: null }),
+        org({ id: 'by-email', name: 'Gamma Labs', contact_email: 'ap@gamma.test' }),
+      ],
+      [
+        customer({ Id: '1', DisplayName: 'Alpha Health', CompanyName: 'Alpha Health' }),
+        customer({ Id: '2', DisplayName: 'Beta Wellness Inc', CompanyName: undefined }),
+        customer({ Id: '3', DisplayName: 'Gamma Laboratories', CompanyName: undefined, PrimaryEmailAddr: { Address: 'AP@gamma.test' } }),
+      ]
+    );
+
+    expect(report.matches.map(m => [m.organization.id, m.customer.Id, m.matchedBy])).toEqual([
+      ['linked', '1', 'link'],
+      ['by-name', '2', 'name'],
+      ['by-email', '3', 'email'],
+    ]);
+    expect(report.organizationOrphans).toEqual([]);
+    expect(report.customerOrphans).toEqual([]);
+  });
+
+  it('does not guess when a name matches more than one customer', () => {
+    const report = reconcileCustomers(
+      [org({ contact_email: null })],
+      [customer({ Id: '10' }), customer({ Id: '11', DisplayName: 'Lakeside Clinic.' })]
+    );
+
+    expect(report.matches).toEqual([]);
+    expect(report.organizationOrphans.map(o => o.id)).toEqual(['org-1']);
+    expect(report.customerOrphans.map(c => c.Id)).toEqual(['10', '11']);
+    expect(report.duplicates).toContainEqual({ side: 'quickbooks', reason: 'name', value: 'lakeside clinic', ids: ['10', '11'] });
+  });
+
+  it('flags links to missing customers and organizations sharing a link', () => {
+    const report = reconcileCustomers(
+      [
+        org({ id: 'a', quickbooks_customer_id: '58' }),
+        org({ id: 'b', name: 'Lakeside East', contact_email: null, quickbooks_customer_id: '58' }),
+        org({ id: 'c', name: 'Closed Clinic', contact_email: null, quickbooks_customer_id: '99' }),
+      ],
+      [customer()]
+    );
+
+    expect(report.matches.map(m => m.organization.id)).toEqual(['a']);
+    expect(report.staleLinks.map(o => o.id)).toEqual(['c']);
+    expect(report.duplicates).toContainEqual({ side: 'app', reason: 'link', value: '58', ids: ['a', 'b'] });
+  });
+});
+
+describe('normalizeName', () => {
+  it('drops company suffixes and punctuation', () => {
+    expect(normalizeName('Smith & Sons, Inc.')).toBe('smith and sons');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { supabase } from '../services/supabase';
+import {
+  SYNC_RETRY_MAX_MS,
+  isOpenJob,
+  quickbooksSyncQueue,
+  retryDelayMs,
+  syncJobKey,
+} from '../services/quickbooks/syncQueue';
+
+describe('retryDelayMs', () => {
+  it('doubles from one minute per attempt', () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(120_000);
+    expect(retryDelayMs(5)).toBe(16 * 60_000);
+  });
+
+  it('is capped at six hours', () => {
+    expect(retryDelayMs(9)).toBe(256 * 60_000);
+    expect(retryDelayMs(10)).toBe(SYNC_RETRY_MAX_MS);
+    expect(retryDelayMs(50)).toBe(SYNC_RETRY_MAX_MS);
+  });
+
+  it('treats a job that has not run as its first attempt', () => {
+    expect(retryDelayMs(0)).toBe(60_000);
+  });
+});
+
+describe('syncJobKey', () => {
+  it('keys once-per-entity work by the entity and repeatable work by the operation', () => {
+    expect(syncJobKey('invoice', 'order-1')).toBe('invoice:order-1');
+    expect(syncJobKey('refund', 'order-1', 'req-9')).toBe('refund:order-1:req-9');
+  });
+});
+
+describe('isOpenJob', () => {
+  it('is open until the job succeeds, dies or is cancelled', () => {
+    expect(isOpenJob({ status: 'pending' })).toBe(true);
+    expect(isOpenJob({ status: 'retry' })).toBe(true);
+    expect(isOpenJob({ status: 'processing' })).toBe(true);
+    expect(isOpenJob({ status: 'failed' })).toBe(false);
+    expect(isOpenJob({ status: 'success' })).toBe(false);
+  });
+});
+
+describe('quickbooksSyncQueue.enqueue', () => {
+  it('passes the idempotency key to the enqueue function', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: 'job-1', error: null } as never);
+
+    const id = await quickbooksSyncQueue.enqueue('invoice', 'order-1', 'invoice:order-1');
+
+    expect(id).toBe('job-1');
+    expect(supabase.rpc).toHaveBeenCalledWith('enqueue_quickbooks_sync_job', {
+      p_job_type: 'invoice',
+      p_entity_id: 'order-1',
+      p_idempotency_key: 'invoice:order-1',
+      p_payload: {},
+    });
+  });
+
+  it('returns null instead of throwing when the job cannot be queued', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'denied' } } as never);
+
+    expect(await quickbooksSyncQueue.enqueue('customer', 'org-1', 'customer:org-1:1')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import {
+  quotePriceFloor,
+  marginPercent,
+  quoteTotal,
+  quoteDisplayStatus,
+  quoteExpiryDate,
+  quoteCheckoutItems,
+  DEFAULT_QUOTE_RULES,
+  type QuoteLine,
+} from '../services/quotes';
+import type { Product } from '../services/productService';
+
+const line = (productId: number, sortOrder: number, unitPrice: number, quantity = 1): QuoteLine => ({
+  id: `l${productId}`,
+  quote_id: 'q1',
+  product_id: productId,
+  product_name: `Product ${productId}`,
+  quantity,
+  list_price: 100,
+  unit_price: unitPrice,
+  sort_order: sortOrder,
+});
+
+describe('quotePriceFloor', () => {
+  it('takes the higher of the margin floor and the discount floor', () => {
+    expect(quotePriceFloor(100, 60, DEFAULT_QUOTE_RULES)).toBe(70.59);
+    expect(quotePriceFloor(100, 40, DEFAULT_QUOTE_RULES)).toBe(70);
+  });
+
+  it('uses only the discount floor without a cost', () => {
+    expect(quotePriceFloor(100, undefined, DEFAULT_QUOTE_RULES)).toBe(70);
+    expect(quotePriceFloor(19.99, 0, DEFAULT_QUOTE_RULES)).toBe(14);
+  });
+
+  it('allows any discount when the limit is 100%', () => {
+    expect(quotePriceFloor(100, null, { ...DEFAULT_QUOTE_RULES, maxDiscountPercent: 100 })).toBe(0);
+  });
+});
+
+describe('marginPercent', () => {
+  it('is the margin as a share of the price', () => {
+    expect(marginPercent(100, 60)).toBe(40);
+    expect(marginPercent(70.59, 60)).toBe(15);
+  });
+
+  it('is unknown without a cost or a price', () => {
+    expect(marginPercent(100, undefined)).toBeNull();
+    expect(marginPercent(0, 10)).toBeNull();
+  });
+});
+
+describe('quoteTotal', () => {
+  it('sums quoted prices times quantities', () => {
+    expect(quoteTotal([{ quantity: 3, unit_price: 19.99 }, { quantity: 2, unit_price: 5.5 }])).toBe(70.97);
+    expect(quoteTotal([])).toBe(0);
+  });
+});
+
+describe('quoteDisplayStatus', () => {
+  it('shows sent quotes past their last day as expired', () => {
+    expect(quoteDisplayStatus({ status: 'sent', expires_at: '2026-03-01' }, '2026-03-01')).toBe('sent');
+    expect(quoteDisplayStatus({ status: 'sent', expires_at: '2026-03-01' }, '2026-03-02')).toBe('expired');
+    expect(quoteDisplayStatus({ status: 'accepted', expires_at: '2026-03-01' }, '2026-04-01')).toBe('accepted');
+    expect(quoteDisplayStatus({ status: 'draft', expires_at: '2026-03-01' }, '2026-04-01')).toBe('draft');
+  });
+});
+
+describe('quoteExpiryDate', () => {
+  it('counts days from the given date', () => {
+    expect(quoteExpiryDate(30, new Date('2026-03-01T12:00:00Z'))).toBe('2026-03-31');
+  });
+});
+
+describe('quoteCheckoutItems', () => {
+  it('locks prices to the quote and takes cost and brand from the catalog', () => {
+    const products = [
+      { id: 1, name: 'Catalog name', price: 100, cost: 55, image: '/one.webp', brand: 'Acme' },
+    ] as Product[];
+
+    const items = quoteCheckoutItems({ quote_lines: [line(2, 1, 80, 4), line(1, 0, 72.5, 2)] }, products);
+
+    expect(items).toEqual([
+      { id: 1, name: 'Product 1', price: 72.5, retailPrice: 100, cost: 55, quantity: 2, image: '/one.webp', brand: 'Acme', pricingSource: 'quote' },
+      { id: 2, name: 'Product 2', price: 80, retailPrice: 100, cost: undefined, quantity: 4, image: '', brand: undefined, pricingSource: 'quote' },
+    ]);
+  });
+});
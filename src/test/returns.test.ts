@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { canReturnOrder, returnableQuantities, returnRefund, type ReturnRequest, type ReturnStatus } from '../services/returns';
+import { orderService, refundedTotal, refundableBalance } from '../services/orderService';
+import { quickbooksPayments, quickbooksSyncQueue, type RefundJobPayload } from '../services/quickbooks';
+import { supabase } from '../services/supabase';
+
+const returnRequest = (status: ReturnStatus, lines: Array<{ product_id: number; quantity: number }>): ReturnRequest => ({
+  id: `r-${status}`,
+  order_id: 'o1',
+  status,
+  created_at: '2026-03-10T10:00:00Z',
+  updated_at: '2026-03-10T10:00:00Z',
+  return_request_lines: lines.map((line, index) => ({
+    id: `l${index}`,
+    return_id: `r-${status}`,
+    product_name: 'Item',
+    unit_price: 10,
+    reason_code: 'damaged',
+    restocked_quantity: 0,
+    ...line,
+  })),
+});
+
+describe('canReturnOrder', () => {
+  it('allows shipped or completed orders only', () => {
+    expect(canReturnOrder({ status: 'completed' })).toBe(true);
+    expect(canReturnOrder({ status: 'processing', shipments: [{}] })).toBe(true);
+    expect(canReturnOrder({ status: 'processing', shipments: [] })).toBe(false);
+    expect(canReturnOrder({ status: 'pending' })).toBe(false);
+    expect(canReturnOrder({ status: 'refunded', shipments: [{}] })).toBe(false);
+    expect(canReturnOrder({ status: 'cancelled' })).toBe(false);
+  });
+});
+
+describe('returnableQuantities', () => {
+  it('combines duplicate lines and subtracts open returns', () => {
+    const remaining = returnableQuantities(
+      [{ productId: 1, quantity: 4 }, { productId: 1, quantity: 2 }, { productId: 2, quantity: 1 }],
+      [
+        returnRequest('approved', [{ product_id: 1, quantity: 3 }]),
+        returnRequest('refunded', [{ product_id: 2, quantity: 1 }]),
+        returnRequest('rejected', [{ product_id: 1, quantity: 3 }]),
+        returnRequest('cancelled', [{ product_id: 2, quantity: 1 }]),
+      ]
+    );
+    expect(remaining).toEqual({ 1: 3, 2: 0 });
+  });
+
+  it('ignores returned products that are not on the order', () => {
+    expect(returnableQuantities([{ productId: 1, quantity: 1 }], [returnRequest('requested', [{ product_id: 9, quantity: 5 }])]))
+      .toEqual({ 1: 1 });
+  });
+});
+
+describe('returnRefund', () => {
+  it('refunds received units with their share of tax', () => {
+    const refund = returnRefund(
+      [
+        { product_id: 1, unit_price: 19.99, received_quantity: 2 },
+        { product_id: 2, unit_price: 5, received_quantity: 0 },
+        { product_id: 3, unit_price: 12.5, received_quantity: null },
+      ],
+      { subtotal: 200, tax: 16 }
+    );
+    expect(refund.amount).toBe(43.18);
+    expect(refund.lines).toEqual([{ productId: 1, quantity: 2 }]);
+  });
+
+  it('takes the tax rate on the discounted subtotal of a discounted order', () => {
+    // $100 of goods less a $20 code discount, taxed 10% on the $80 paid;
+    // the returned line's unit price is already net of its discount share
+    const refund = returnRefund(
+      [{ product_id: 1, unit_price: 40, received_quantity: 1 }],
+      { subtotal: 100, tax: 8, items: [{ discount: 10 }, { discount: 10 }] }
+    );
+    expect(refund.amount).toBe(44);
+  });
+
+  it('refunds nothing when nothing came back and handles untaxed orders', () => {
+    expect(returnRefund([{ product_id: 1, unit_price: 10, received_quantity: 0 }], { subtotal: 10, tax: 1 }).amount).toBe(0);
+    expect(returnRefund([{ product_id: 1, unit_price: 10, received_quantity: 1 }], { subtotal: 0, tax: 0 }).amount).toBe(10);
+  });
+});
+
+describe('refundableBalance', () => {
+  it('counts only successful refunds against the order total', () => {
+    const refunded = refundedTotal([
+      { transaction_type: 'capture', status: 'success', amount: 100 },
+      { transaction_type: 'refund', status: 'success', amount: 40 },
+      { transaction_type: 'refund', status: 'failed', amount: 60 },
+      { transaction_type: 'refund', status: 'success', amount: '19.99' },
+    ]);
+    expect(refunded).toBe(59.99);
+    expect(refundableBalance(100, refunded)).toBe(40.01);
+  });
+
+  it('never goes below zero once the order is fully refunded', () => {
+    expect(refundableBalance(100, 100)).toBe(0);
+    expect(refundableBalance(100, 100.5)).toBe(0);
+  });
+});
+
+describe('refundPayment', () => {
+  const order = { id: 'o1', total: 100, payment_status: 'captured', payment_authorization_id: 'CH-1234' };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(supabase.rpc).mockReset();
+    vi.spyOn(orderService, 'getOrderById').mockResolvedValue({ order } as never);
+    vi.spyOn(orderService, 'getRefundedAmount').mockResolvedValue(20);
+    vi.spyOn(quickbooksSyncQueue, 'hasOpenJob').mockResolvedValue(false);
+  });
+
+  const returnOptions = {
+    amount: 30,
+    lines: [{ productId: 7, quantity: 1 }],
+    source: 'return' as const,
+    clawbackCommission: true,
+    reason: 'Return RMA-1',
+    refundedBy: 'admin-1',
+    returnId: 'ret-1',
+  };
+
+  it('books the refund, commission and return in one call once it goes through', async () => {
+    vi.spyOn(quickbooksPayments, 'refundCharge').mockResolvedValue({} as never);
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: 'partially_refunded', error: null } as never);
+
+    expect(await orderService.refundPayment('o1', returnOptions)).toEqual({ success: true });
+    expect(supabase.rpc).toHaveBeenCalledWith('record_order_refund', {
+      p_order_id: 'o1',
+      p_amount: 30,
+      p_authorization_id: 'CH-1234',
+      p_options: expect.objectContaining({
+        request_id: expect.any(String),
+        clawback_commission: true,
+        lines: [{ productId: 7, quantity: 1 }],
+        source: 'return',
+        return_id: 'ret-1',
+      }),
+    });
+  });
+
+  it('queues a failed refund with the same bookkeeping for the worker', async () => {
+    vi.spyOn(quickbooksPayments, 'refundCharge').mockRejectedValue(new Error('Gateway timeout'));
+    vi.spyOn(orderService, 'logTransaction').mockResolvedValue();
+    vi.spyOn(orderService, 'logPaymentEvent').mockResolvedValue();
+    const enqueue = vi.spyOn(quickbooksSyncQueue, 'enqueue').mockResolvedValue('job-1');
+
+    const result = await orderService.refundPayment('o1', returnOptions);
+
+    expect(result.success).toBe(false);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+    const payload = enqueue.mock.calls[0][3] as unknown as RefundJobPayload;
+    expect(payload).toMatchObject({ authorization_id: 'CH-1234', amount: 30, echeck: false });
+    expect(payload.record).toMatchObject({ request_id: payload.request_id, clawback_commission: true, return_id: 'ret-1' });
+  });
+});
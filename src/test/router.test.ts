@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { parseRoute, routePath, navigate, type AppRoute } from '../services/router';
+import { categorySlug, findCategoryBySlug, findProductBySlug, productSlug, type Category } from '../services/productService';
+
+describe('parseRoute', () => {
+  it('parses every deep link', () => {
+    expect(parseRoute('/')).toEqual({ page: 'catalog' });
+    expect(parseRoute('/products/magnesium-glycinate')).toEqual({ page: 'product', slug: 'magnesium-glycinate' });
+    expect(parseRoute('/category/vitamins')).toEqual({ page: 'category', slug: 'vitamins' });
+    expect(parseRoute('/account/orders')).toEqual({ page: 'orders', orderId: undefined });
+    expect(parseRoute('/account/orders/8f14e45f')).toEqual({ page: 'orders', orderId: '8f14e45f' });
+    expect(parseRoute('/admin')).toEqual({ page: 'admin', tab: undefined });
+    expect(parseRoute('/admin/territories')).toEqual({ page: 'admin', tab: 'territories' });
+    expect(parseRoute('/legal/eula')).toEqual({ page: 'legal', document: 'eula' });
+    expect(parseRoute('/legal/privacy/')).toEqual({ page: 'legal', document: 'privacy' });
+  });
+
+  it('falls back to the catalog for unknown or incomplete paths', () => {
+    expect(parseRoute('/quickbooks/callback')).toEqual({ page: 'catalog' });
+    expect(parseRoute('/products')).toEqual({ page: 'catalog' });
+    expect(parseRoute('/legal/cookies')).toEqual({ page: 'catalog' });
+    expect(parseRoute('/account')).toEqual({ page: 'catalog' });
+  });
+
+  it('round-trips through routePath, including encoded slugs', () => {
+    const routes: AppRoute[] = [
+      { page: 'catalog' },
+      { page: 'product', slug: 'omega 3/6' },
+      { page: 'category', slug: 'sleep' },
+      { page: 'orders', orderId: 'abc' },
+      { page: 'admin', tab: 'orders' },
+      { page: 'legal', document: 'privacy' },
+    ];
+    for (const route of routes) {
+      expect(parseRoute(routePath(route))).toEqual(route);
+    }
+    expect(routePath({ page: 'product', slug: 'omega 3/6' })).toBe('/products/omega%203%2F6');
+  });
+});
+
+describe('navigate', () => {
+  it('pushes a history entry and notifies listeners once', () => {
+    window.history.replaceState(null, '', '/');
+    const listener = vi.fn();
+    window.addEventListener('app:navigate', listener);
+
+    navigate({ page: 'category', slug: 'vitamins' });
+    navigate({ page: 'category', slug: 'vitamins' });
+
+    expect(window.location.pathname).toBe('/category/vitamins');
+    expect(listener).toHaveBeenCalledTimes(1);
+    window.removeEventListener('app:navigate', listener);
+  });
+});
+
+describe('slugs', () => {
+  const tree: Category[] = [
+    { id: 'c1', name: 'Vitamins & Minerals', sortOrder: 0, isActive: true, children: [
+      { id: 'c2', name: 'Vitamin D', slug: 'vit-d', sortOrder: 0, isActive: true },
+    ] },
+  ];
+
+  it('uses the stored slug, or derives one', () => {
+    expect(categorySlug(tree[0])).toBe('vitamins-minerals');
+    expect(categorySlug(tree[0].children![0])).toBe('vit-d');
+    expect(productSlug({ id: 12, slug: 'zinc' })).toBe('zinc');
+    expect(productSlug({ id: 12 })).toBe('12');
+  });
+
+  it('resolves slugs back to categories and products', () => {
+    expect(findCategoryBySlug(tree, 'vit-d')?.id).toBe('c2');
+    expect(findCategoryBySlug(tree, 'vitamins-minerals')?.id).toBe('c1');
+    expect(findProductBySlug([{ id: 12, slug: 'zinc' }, { id: 13 }], '13')?.id).toBe(13);
+    expect(findProductBySlug([{ id: 12, slug: 'zinc' }], 'iron')).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { predictReorder, taskTiming } from '../services/salesCrm';
+
+const at = (date: string) => new Date(`${date}T12:00:00`).toISOString();
+
+describe('predictReorder', () => {
+  it('needs orders on at least two different days', () => {
+    expect(predictReorder([])).toBeNull();
+    expect(predictReorder([at('2026-03-01')])).toBeNull();
+    expect(predictReorder([at('2026-03-01'), at('2026-03-01')])).toBeNull();
+  });
+
+  it('projects the next order from the median gap', () => {
+    const prediction = predictReorder(
+      [at('2026-01-01'), at('2026-01-31'), at('2026-03-02'), at('2026-04-21')],
+      new Date('2026-04-25T09:00:00')
+    );
+    // Gaps of 30, 30 and 50 days; the 50-day outlier does not skew the cadence
+    expect(prediction?.cadenceDays).toBe(30);
+    expect(prediction?.orderCount).toBe(4);
+    expect(new Date(prediction!.nextDueAt).toDateString()).toBe(new Date('2026-05-21T00:00:00').toDateString());
+    expect(prediction?.daysUntilDue).toBe(26);
+    expect(prediction?.status).toBe('upcoming');
+  });
+
+  it('counts same-day orders once and ignores input order', () => {
+    const prediction = predictReorder([at('2026-02-15'), at('2026-02-01'), at('2026-02-01')], new Date('2026-02-20T09:00:00'));
+    expect(prediction?.cadenceDays).toBe(14);
+    expect(prediction?.orderCount).toBe(2);
+  });
+
+  it('uses only the most recent intervals', () => {
+    const dates = ['2025-01-01', '2025-04-01', '2025-07-01', '2025-08-01', '2025-09-01', '2025-10-01', '2025-11-01', '2025-12-01', '2026-01-01'];
+    expect(predictReorder(dates.map(at), new Date('2026-01-02T09:00:00'))?.cadenceDays).toBe(31);
+  });
+
+  it('flags customers due within a week or past due', () => {
+    const dates = [at('2026-03-01'), at('2026-03-31')];
+    expect(predictReorder(dates, new Date('2026-04-25T09:00:00'))?.status).toBe('due');
+    expect(predictReorder(dates, new Date('2026-04-30T09:00:00'))?.status).toBe('due');
+    const late = predictReorder(dates, new Date('2026-05-03T09:00:00'));
+    expect(late?.status).toBe('overdue');
+    expect(late?.daysUntilDue).toBe(-3);
+  });
+});
+
+describe('taskTiming', () => {
+  const now = new Date('2026-04-10T10:00:00');
+
+  it('classifies open follow-ups by due date', () => {
+    expect(taskTiming({ due_at: new Date('2026-04-09T17:00:00').toISOString() }, now)).toBe('overdue');
+    expect(taskTiming({ due_at: new Date('2026-04-10T08:00:00').toISOString() }, now)).toBe('due_today');
+    expect(taskTiming({ due_at: new Date('2026-04-10T16:00:00').toISOString() }, now)).toBe('due_today');
+    expect(taskTiming({ due_at: new Date('2026-04-11T09:00:00').toISOString() }, now)).toBe('upcoming');
+  });
+
+  it('treats completed follow-ups as done regardless of date', () => {
+    expect(taskTiming({ due_at: new Date('2026-04-01T09:00:00').toISOString(), completed_at: '2026-04-02T09:00:00Z' }, now)).toBe('done');
+  });
+});
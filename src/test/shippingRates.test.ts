@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  LocalShippingRateProvider,
+  calculateCartWeight,
+  rateForWeight,
+  resolveZone,
+  toPounds,
+  type ShippingMethodRule,
+  type ShippingRateRow,
+  type ShippingRateSource,
+  type ShippingZone,
+} from '../services/shipping';
+
+const ZONES: ShippingZone[] = [
+  { id: 'us', name: 'Continental US', country: 'US', state_codes: [] },
+  { id: 'akhi', name: 'Alaska & Hawaii', country: 'US', state_codes: ['AK', 'HI'] },
+];
+
+const METHODS: ShippingMethodRule[] = [
+  { id: 'standard', name: 'Standard', days: '5-7 days', free_shipping_threshold: 500, oversized_weight_lbs: 50, oversized_surcharge: 25, sort_order: 1, is_active: true },
+  { id: 'overnight', name: 'Overnight', days: '1 day', free_shipping_threshold: null, oversized_weight_lbs: null, oversized_surcharge: 0, sort_order: 2, is_active: true },
+];
+
+const RATES: ShippingRateRow[] = [
+  { id: 's0', method_id: 'standard', zone_id: 'us', min_weight_lbs: 0, base_rate: 9.99, per_lb_rate: 0 },
+  { id: 's10', method_id: 'standard', zone_id: 'us', min_weight_lbs: 10, base_rate: 14.99, per_lb_rate: 0.5 },
+  { id: 'o0', method_id: 'overnight', zone_id: 'us', min_weight_lbs: 0, base_rate: 39.99, per_lb_rate: 2 },
+  { id: 'ak', method_id: 'standard', zone_id: 'akhi', min_weight_lbs: 0, base_rate: 19.98, per_lb_rate: 0 },
+];
+
+function makeSource(overrides: Partial<ShippingRateSource> = {}): ShippingRateSource {
+  return {
+    getMethods: async () => METHODS,
+    getZones: async (country) => ZONES.filter(z => z.country === country),
+    getRates: async (zoneId) => RATES.filter(r => r.zone_id === zoneId),
+    getOrganizationRates: async () => [],
+    ...overrides,
+  };
+}
+
+const destination = { state: 'TX', postalCode: '77429' };
+
+describe('weights', () => {
+  it('converts product units to pounds', () => {
+    expect(toPounds(32, 'oz')).toBe(2);
+    expect(toPounds(1, 'kg')).toBeCloseTo(2.205, 3);
+    expect(toPounds(undefined, 'lb')).toBe(0);
+  });
+
+  it('rounds cart weight up to the next tenth of a pound', () => {
+    expect(calculateCartWeight([
+      { productId: 1, quantity: 3, unitPrice: 10, weight: 0.4, weightUnit: 'lb' },
+      { productId: 2, quantity: 1, unitPrice: 10, weight: 1, weightUnit: 'oz' },
+    ])).toBe(1.3);
+    expect(calculateCartWeight([{ productId: 1, quantity: 3, unitPrice: 10, weight: 0.4 }])).toBe(1.2);
+  });
+});
+
+describe('resolveZone', () => {
+  it('prefers a zone listing the state over the catch-all', () => {
+    expect(resolveZone(ZONES, 'hi')?.id).toBe('akhi');
+    expect(resolveZone(ZONES, 'TX')?.id).toBe('us');
+    expect(resolveZone([], 'TX')).toBeNull();
+  });
+});
+
+describe('rateForWeight', () => {
+  const standard = RATES.filter(r => r.method_id === 'standard' && r.zone_id === 'us');
+
+  it('uses the highest bracket at or below the weight plus its per-pound rate', () => {
+    expect(rateForWeight(standard, 4)).toBe(9.99);
+    expect(rateForWeight(standard, 14)).toBe(16.99);
+  });
+
+  it('returns null when no bracket applies', () => {
+    expect(rateForWeight([{ ...standard[1] }], 5)).toBeNull();
+  });
+});
+
+describe('LocalShippingRateProvider', () => {
+  it('prices each method by weight and zone', async () => {
+    const provider = new LocalShippingRateProvider(makeSource());
+    const rates = await provider.getRates({
+      lines: [{ productId: 1, quantity: 2, unitPrice: 50, weight: 6, weightUnit: 'lb' }],
+      destination,
+    });
+
+    expect(rates.map(r => [r.id, r.price])).toEqual([['standard', 15.99], ['overnight', 63.99]]);
+    expect(rates[0].weightLbs).toBe(12);
+    expect(rates[0].zone).toBe('Continental US');
+  });
+
+  it('adds the oversized surcharge per heavy unit and waives shipping over the threshold', async () => {
+    const provider = new LocalShippingRateProvider(makeSource());
+    const heavy = [{ productId: 1, quantity: 2, unitPrice: 100, weight: 60, weightUnit: 'lb' }];
+
+    const [standard] = await provider.getRates({ lines: heavy, destination });
+    expect(standard.surcharge).toBe(50);
+    expect(standard.price).toBe(119.99);
+
+    const [free] = await provider.getRates({ lines: [{ ...heavy[0], unitPrice: 300 }], destination });
+    expect(free.freeShipping).toBe(true);
+    expect(free.price).toBe(0);
+  });
+
+  it('uses a negotiated flat rate for the organization', async () => {
+    const provider = new LocalShippingRateProvider(makeSource({
+      getOrganizationRates: async () => [{ id: 'n1', organization_id: 'org-1', method_id: 'overnight', flat_rate: 15 }],
+    }));
+    const rates = await provider.getRates({
+      lines: [{ productId: 1, quantity: 1, unitPrice: 50, weight: 5 }],
+      destination,
+      organizationId: 'org-1',
+    });
+
+    const overnight = rates.find(r => r.id === 'overnight')!;
+    expect(overnight.price).toBe(15);
+    expect(overnight.negotiated).toBe(true);
+  });
+
+  it('offers nothing when no zone covers the destination', async () => {
+    const provider = new LocalShippingRateProvider(makeSource());
+    const rates = await provider.getRates({
+      lines: [{ productId: 1, quantity: 1, unitPrice: 50 }],
+      destination: { ...destination, country: 'CA' },
+    });
+    expect(rates).toEqual([]);
+  });
+});
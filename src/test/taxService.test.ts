@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  LocalRateTableProvider,
+  taxService,
+  resolveRate,
+  isCategoryTaxable,
+  isExemptionActive,
+  daysUntilExpiry,
+  type TaxRateRow,
+  type CategoryTaxRule,
+  type TaxRateSource,
+} from '../services/tax';
+
+const RATES: TaxRateRow[] = [
+  { id: 'tx', state_code: 'TX', zip_prefix: null, rate: 0.0625, jurisdiction_name: 'Texas', taxes_shipping: true },
+  { id: 'hou', state_code: 'TX', zip_prefix: '770', rate: 0.0825, jurisdiction_name: 'Houston', taxes_shipping: true },
+];
+
+const RULES: CategoryTaxRule[] = [
+  { category_id: 'medical', state_code: null, is_taxable: false },
+  { category_id: 'supplements', state_code: 'TX', is_taxable: false },
+  { category_id: 'supplements', state_code: null, is_taxable: true },
+];
+
+function makeSource(overrides: Partial<TaxRateSource> = {}): TaxRateSource {
+  return {
+    getRates: async (state) => RATES.filter(r => r.state_code === state),
+    getCategoryRules: async (ids) => RULES.filter(r => ids.includes(r.category_id)),
+    getOrganizationExemption: async () => null,
+    ...overrides,
+  };
+}
+
+describe('resolveRate', () => {
+  it('prefers the longest matching ZIP prefix', () => {
+    expect(resolveRate(RATES, '77001')?.id).toBe('hou');
+    expect(resolveRate(RATES, '77429-1234')?.id).toBe('tx');
+  });
+
+  it('returns null when no rows apply', () => {
+    expect(resolveRate([], '77001')).toBeNull();
+  });
+});
+
+describe('isCategoryTaxable', () => {
+  it('lets a state rule override the all-states rule', () => {
+    expect(isCategoryTaxable(RULES, 'supplements', 'TX')).toBe(false);
+    expect(isCategoryTaxable(RULES, 'supplements', 'OK')).toBe(true);
+  });
+
+  it('treats unknown categories as taxable', () => {
+    expect(isCategoryTaxable(RULES, 'apparel', 'TX')).toBe(true);
+    expect(isCategoryTaxable(RULES, undefined, 'TX')).toBe(true);
+  });
+});
+
+describe('LocalRateTableProvider', () => {
+  const request = {
+    lines: [
+      { productId: 1, categoryId: 'apparel', quantity: 2, unitPrice: 50 },
+      { productId: 2, categoryId: 'medical', quantity: 1, unitPrice: 40 },
+    ],
+    shipping: 10,
+    destination: { state: 'tx', postalCode: '77002', country: 'US' },
+  };
+
+  it('taxes taxable lines and shipping at the local rate', async () => {
+    const provider = new LocalRateTableProvider(makeSource());
+    const result = await provider.calculate(request);
+
+    expect(result.rate).toBe(0.0825);
+    expect(result.lines[0]).toMatchObject({ taxable: true, tax: 8.25 });
+    expect(result.lines[1]).toMatchObject({ taxable: false, tax: 0 });
+    expect(result.shippingTax).toBe(0.83);
+    expect(result.tax).toBe(9.08);
+    expect(result.jurisdiction).toBe('Houston');
+  });
+
+  it('returns zero tax for an exempt organization', async () => {
+    const provider = new LocalRateTableProvider(makeSource({
+      getOrganizationExemption: async () => ({ exempt: true, certificate: 'TX-12345' }),
+    }));
+    const result = await provider.calculate({ ...request, organizationId: 'org-1' });
+
+    expect(result.tax).toBe(0);
+    expect(result.exempt).toBe(true);
+    expect(result.exemptionCertificate).toBe('TX-12345');
+  });
+
+  it('returns zero tax for states without a rate and for non-US destinations', async () => {
+    const provider = new LocalRateTableProvider(makeSource());
+
+    const noRate = await provider.calculate({ ...request, destination: { state: 'OR', postalCode: '97201' } });
+    expect(noRate.tax).toBe(0);
+
+    const foreign = await provider.calculate({ ...request, destination: { state: 'ON', postalCode: 'M5V', country: 'CA' } });
+    expect(foreign.tax).toBe(0);
+  });
+});
+
+describe('taxService', () => {
+  it('reports a provider failure instead of a zero tax', async () => {
+    taxService.setProvider(new LocalRateTableProvider(makeSource({
+      getRates: async () => { throw new Error('connection reset'); },
+    })));
+
+    const result = await taxService.calculate({
+      lines: [{ productId: 1, categoryId: 'apparel', quantity: 1, unitPrice: 50 }],
+      shipping: 0,
+      destination: { state: 'TX', postalCode: '77002' },
+    });
+
+    expect(result.error).toBe('Sales tax could not be calculated. Please try again.');
+    taxService.setProvider(new LocalRateTableProvider());
+  });
+});
+
+describe('isExemptionActive', () => {
+  const today = new Date('2026-04-15T12:00:00Z');
+
+  it('requires an approved certificate', () => {
+    expect(isExemptionActive({ tax_exempt: true, tax_exemption_status: 'approved' }, today)).toBe(true);
+    expect(isExemptionActive({ tax_exempt: true, tax_exemption_status: 'pending' }, today)).toBe(false);
+    expect(isExemptionActive({ tax_exempt: false, tax_exemption_status: 'approved' }, today)).toBe(false);
+  });
+
+  it('stops applying after the expiry date', () => {
+    const org = { tax_exempt: true, tax_exemption_status: 'approved' as const };
+    expect(isExemptionActive({ ...org, tax_exemption_expires_at: '2026-04-15' }, today)).toBe(true);
+    expect(isExemptionActive({ ...org, tax_exemption_expires_at: '2026-04-14' }, today)).toBe(false);
+  });
+});
+
+describe('daysUntilExpiry', () => {
+  it('counts whole days to the expiry date', () => {
+    const today = new Date('2026-04-15T18:30:00Z');
+    expect(daysUntilExpiry('2026-05-15', today)).toBe(30);
+    expect(daysUntilExpiry('2026-04-14', today)).toBe(-1);
+    expect(daysUntilExpiry(null, today)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/supabase', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { matchTerritory, parseRuleList, validateTerritory, type TerritoryInput } from '../services/territories';
+
+const territory = (name: string, rules: { states?: string[]; zip_prefixes?: string[]; org_types?: Array<'customer' | 'distributor'> }, createdAt = '2026-01-01') => ({
+  name,
+  states: rules.states || [],
+  zip_prefixes: rules.zip_prefixes || [],
+  org_types: rules.org_types || [],
+  is_active: true,
+  created_at: createdAt,
+});
+
+describe('matchTerritory', () => {
+  const territories = [
+    territory('West', { states: ['CA', 'NV'] }),
+    territory('LA Metro', { zip_prefixes: ['900', '902'] }),
+    territory('Beverly Hills', { zip_prefixes: ['9021'] }),
+    territory('Distributors', { org_types: ['distributor'] }),
+    territory('CA Distributors', { states: ['CA'], org_types: ['distributor'] }),
+  ];
+
+  it('prefers the longest ZIP prefix', () => {
+    expect(matchTerritory(territories, { state: 'CA', zip: '90210-1234', org_type: 'customer' })?.name).toBe('Beverly Hills');
+    expect(matchTerritory(territories, { state: 'CA', zip: '90001', org_type: 'customer' })?.name).toBe('LA Metro');
+  });
+
+  it('falls back to state, then org type rules', () => {
+    expect(matchTerritory(territories, { state: 'ca', zip: '94105', org_type: 'customer' })?.name).toBe('West');
+    expect(matchTerritory(territories, { state: 'CA', zip: '94105', org_type: 'distributor' })?.name).toBe('CA Distributors');
+    expect(matchTerritory(territories, { state: 'TX', zip: '75001', org_type: 'distributor' })?.name).toBe('Distributors');
+  });
+
+  it('requires every filled-in rule to match and skips inactive territories', () => {
+    expect(matchTerritory(territories, { state: 'TX', zip: '75001', org_type: 'customer' })).toBeNull();
+    expect(matchTerritory([{ ...territory('West', { states: ['CA'] }), is_active: false }], { state: 'CA' })).toBeNull();
+  });
+
+  it('breaks ties by the oldest territory', () => {
+    const tied = [territory('Newer', { states: ['OR'] }, '2026-03-01'), territory('Older', { states: ['OR'] }, '2026-02-01')];
+    expect(matchTerritory(tied, { state: 'OR' })?.name).toBe('Older');
+  });
+});
+
+describe('territory form helpers', () => {
+  const base: TerritoryInput = {
+    name: 'West',
+    states: ['CA'],
+    zip_prefixes: [],
+    org_types: [],
+    sales_rep_id: 'rep-1',
+    distributor_id: null,
+    commission_rate: 10,
+  };
+
+  it('parses comma and space separated rule lists', () => {
+    expect(parseRuleList('ca, nv  az,CA', s => s.toUpperCase())).toEqual(['CA', 'NV', 'AZ']);
+    expect(parseRuleList(' ')).toEqual([]);
+  });
+
+  it('validates rules, owner and rate', () => {
+    expect(validateTerritory(base)).toBeNull();
+    expect(validateTerritory({ ...base, states: [] })).toMatch(/at least one/);
+    expect(validateTerritory({ ...base, states: ['California'] })).toMatch(/two-letter/);
+    expect(validateTerritory({ ...base, zip_prefixes: ['9021A'] })).toMatch(/1 to 5 digits/);
+    expect(validateTerritory({ ...base, sales_rep_id: null })).toMatch(/sales rep or distributor/);
+    expect(validateTerritory({ ...base, commission_rate: 120 })).toMatch(/between 0 and 100/);
+  });
+});
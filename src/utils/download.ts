@@ -0,0 +1,20 @@
+/** Saves generated text (CSV, HTML, bank files) through a temporary link */
+export function downloadTextFile(content: string, filename: string, type = 'text/plain'): void {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+/** Opens generated HTML in a new tab so it can be printed or saved as PDF */
+export function openHtmlDocument(html: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  return true;
+}
@@ -0,0 +1,191 @@
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// How far ahead of the expiry date the assigned sales reps are warned
+const REMINDER_DAYS = 30;
+
+interface ExpiringPrice {
+  id: string;
+  entity_id: string;
+  product_id: number;
+  contract_price: number | null;
+  markup_price: number | null;
+  min_quantity: number | null;
+  max_quantity: number | null;
+  expiry_date: string;
+}
+
+interface AssignedRep {
+  organization_id: string;
+  sales_rep: { email: string | null; full_name: string | null } | null;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Daily job: emails the active sales reps of each organization once,
+ * REMINDER_DAYS before its contract prices expire. Prices that already have
+ * a scheduled replacement for the same product are skipped.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + REMINDER_DAYS * 24 * 60 * 60 * 1000);
+    const results = { reminded: 0, skipped: 0, failed: 0 };
+
+    // 1. Organization prices expiring within the window
+    const { data: expiring, error: fetchError } = await supabase
+      .from("contract_pricing")
+      .select("id, entity_id, product_id, contract_price, markup_price, min_quantity, max_quantity, expiry_date")
+      .eq("pricing_type", "organization")
+      .eq("is_orphaned", false)
+      .is("expiry_reminder_sent_at", null)
+      .gte("expiry_date", now.toISOString())
+      .lte("expiry_date", windowEnd.toISOString())
+      .order("expiry_date", { ascending: true });
+
+    if (fetchError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch expiring contract prices", details: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    const prices = (expiring || []) as ExpiringPrice[];
+    if (prices.length === 0) {
+      return new Response(JSON.stringify(results), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const orgIds = [...new Set(prices.map((p) => p.entity_id))];
+    const productIds = [...new Set(prices.map((p) => p.product_id))];
+
+    // 2. Scheduled replacements, organization names, products and reps
+    const [scheduledRes, orgsRes, productsRes, repsRes] = await Promise.all([
+      supabase
+        .from("contract_pricing")
+        .select("entity_id, product_id, effective_date")
+        .eq("pricing_type", "organization")
+        .in("entity_id", orgIds)
+        .gt("effective_date", now.toISOString()),
+      supabase.from("organizations").select("id, name").in("id", orgIds),
+      supabase.from("products").select("id, name").in("id", productIds),
+      supabase
+        .from("organization_sales_reps")
+        .select("organization_id, sales_rep:profiles!sales_rep_id(email, full_name)")
+        .in("organization_id", orgIds)
+        .eq("is_active", true),
+    ]);
+
+    const scheduled = new Set(
+      (scheduledRes.data || []).map((s: { entity_id: string; product_id: number }) => `${s.entity_id}:${s.product_id}`),
+    );
+    const orgNames = new Map((orgsRes.data || []).map((o: { id: string; name: string }) => [o.id, o.name]));
+    const productNames = new Map((productsRes.data || []).map((p: { id: number; name: string }) => [p.id, p.name]));
+
+    const repsByOrg = new Map<string, AssignedRep["sales_rep"][]>();
+    for (const rep of (repsRes.data || []) as unknown as AssignedRep[]) {
+      if (!rep.sales_rep?.email) continue;
+      repsByOrg.set(rep.organization_id, [...(repsByOrg.get(rep.organization_id) || []), rep.sales_rep]);
+    }
+
+    const pricesByOrg = new Map<string, ExpiringPrice[]>();
+    for (const price of prices) {
+      if (scheduled.has(`${price.entity_id}:${price.product_id}`)) continue;
+      pricesByOrg.set(price.entity_id, [...(pricesByOrg.get(price.entity_id) || []), price]);
+    }
+
+    // 3. One email per rep per organization
+    for (const [orgId, orgPrices] of pricesByOrg) {
+      const reps = repsByOrg.get(orgId) || [];
+      if (reps.length === 0) {
+        // Left unmarked so a rep assigned later is still warned
+        results.skipped++;
+        continue;
+      }
+
+      const organizationName = orgNames.get(orgId) || "Unknown organization";
+      const expiresOn = formatDate(orgPrices[0].expiry_date);
+      const products = orgPrices.map((p) => ({
+        name: productNames.get(p.product_id) || `Product #${p.product_id}`,
+        quantity: p.max_quantity ? `${p.min_quantity || 1}-${p.max_quantity}` : `${p.min_quantity || 1}+`,
+        price: p.markup_price || p.contract_price || 0,
+        expires_on: formatDate(p.expiry_date),
+      }));
+
+      let sent = 0;
+      for (const rep of reps) {
+        try {
+          const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${serviceRoleKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              to: rep!.email,
+              email_type: "contract_pricing_expiring",
+              subject: `Contract pricing for ${organizationName} expires ${expiresOn}`,
+              template_data: {
+                organization_name: organizationName,
+                rep_name: rep!.full_name || rep!.email,
+                product_count: products.length,
+                expires_on: expiresOn,
+                products,
+              },
+            }),
+          });
+
+          if (!response.ok) {
+            throw new Error(`send-email returned ${response.status}`);
+          }
+          sent++;
+        } catch (e) {
+          console.warn(`Failed to send contract pricing reminder for ${orgId} to ${rep!.email}:`, e);
+          results.failed++;
+        }
+      }
+
+      if (sent > 0) {
+        await supabase
+          .from("contract_pricing")
+          .update({ expiry_reminder_sent_at: new Date().toISOString() })
+          .in("id", orgPrices.map((p) => p.id));
+
+        results.reminded++;
+      }
+    }
+
+    return new Response(JSON.stringify(results), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal server error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,117 @@
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface DueTask {
+  id: string;
+  title: string;
+  notes: string | null;
+  due_at: string;
+  organizations: { name: string } | null;
+  assignee: { email: string | null; full_name: string | null } | null;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Scheduled job: emails each rep once when a CRM follow-up's reminder time
+ * arrives. Completed follow-ups are never reminded.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const results = { reminded: 0, skipped: 0, failed: 0 };
+
+    const { data, error: fetchError } = await supabase
+      .from("crm_tasks")
+      .select("id, title, notes, due_at, organizations(name), assignee:profiles!assigned_to(email, full_name)")
+      .lte("remind_at", new Date().toISOString())
+      .is("reminder_sent_at", null)
+      .is("completed_at", null)
+      .order("remind_at", { ascending: true })
+      .limit(500);
+
+    if (fetchError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch due follow-ups", details: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    for (const task of (data || []) as unknown as DueTask[]) {
+      if (!task.assignee?.email) {
+        results.skipped++;
+        continue;
+      }
+
+      const organizationName = task.organizations?.name || "Unknown organization";
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: task.assignee.email,
+            email_type: "crm_follow_up_due",
+            subject: `Follow up with ${organizationName}: ${task.title}`,
+            template_data: {
+              rep_name: task.assignee.full_name || task.assignee.email,
+              organization_name: organizationName,
+              task_title: task.title,
+              task_notes: task.notes || "",
+              due_on: formatDate(task.due_at),
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`send-email returned ${response.status}`);
+        }
+
+        await supabase
+          .from("crm_tasks")
+          .update({ reminder_sent_at: new Date().toISOString() })
+          .eq("id", task.id);
+
+        results.reminded++;
+      } catch (e) {
+        console.warn(`Failed to send follow-up reminder for task ${task.id}:`, e);
+        results.failed++;
+      }
+    }
+
+    return new Response(JSON.stringify(results), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal server error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
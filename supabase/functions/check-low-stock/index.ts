@@ -0,0 +1,130 @@
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+interface InventoryLevel {
+  id: string;
+  product_id: number;
+  warehouse_id: string;
+  on_hand: number;
+  reserved: number;
+  low_stock_threshold: number;
+}
+
+/**
+ * Daily job: emails every admin one digest of the stock levels that have
+ * fallen to or below their low-stock threshold. Each level is reported once;
+ * the alert re-arms when stock climbs back above the threshold.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const results = { alerted: 0, sent: 0, failed: 0 };
+
+    // 1. Levels with a threshold that have not been reported yet
+    const { data: levels, error: fetchError } = await supabase
+      .from("inventory_levels")
+      .select("id, product_id, warehouse_id, on_hand, reserved, low_stock_threshold")
+      .gt("low_stock_threshold", 0)
+      .is("low_stock_alerted_at", null);
+
+    if (fetchError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch inventory levels", details: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // PostgREST cannot compare two columns, so the threshold check happens here
+    const low = ((levels || []) as InventoryLevel[])
+      .filter((l) => l.on_hand - l.reserved <= l.low_stock_threshold);
+
+    if (low.length === 0) {
+      return new Response(JSON.stringify(results), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // 2. Product and warehouse names, and who to tell
+    const [productsRes, warehousesRes, adminsRes] = await Promise.all([
+      supabase.from("products").select("id, name, sku").in("id", [...new Set(low.map((l) => l.product_id))]),
+      supabase.from("warehouses").select("id, name"),
+      supabase.from("profiles").select("email").eq("role", "admin").not("email", "is", null),
+    ]);
+
+    const products = new Map(
+      (productsRes.data || []).map((p: { id: number; name: string; sku: string | null }) => [p.id, p]),
+    );
+    const warehouses = new Map((warehousesRes.data || []).map((w: { id: string; name: string }) => [w.id, w.name]));
+    const multipleWarehouses = warehouses.size > 1;
+
+    const rows = low.map((l) => {
+      const product = products.get(l.product_id);
+      const name = product?.name || `Product #${l.product_id}`;
+      return {
+        name: multipleWarehouses ? `${name} — ${warehouses.get(l.warehouse_id) || "Unknown warehouse"}` : name,
+        sku: product?.sku || undefined,
+        available: l.on_hand - l.reserved,
+        threshold: l.low_stock_threshold,
+      };
+    });
+
+    // 3. One digest per admin
+    for (const admin of (adminsRes.data || []) as { email: string }[]) {
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: admin.email,
+            email_type: "low_stock_alert",
+            subject: `${rows.length} product(s) running low on stock`,
+            template_data: { product_count: rows.length, products: rows },
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`send-email returned ${response.status}`);
+        }
+        results.sent++;
+      } catch (e) {
+        console.warn(`Failed to send low stock alert to ${admin.email}:`, e);
+        results.failed++;
+      }
+    }
+
+    if (results.sent > 0) {
+      await supabase
+        .from("inventory_levels")
+        .update({ low_stock_alerted_at: new Date().toISOString() })
+        .in("id", low.map((l) => l.id));
+
+      results.alerted = low.length;
+    }
+
+    return new Response(JSON.stringify(results), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal server error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
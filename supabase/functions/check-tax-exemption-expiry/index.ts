@@ -0,0 +1,140 @@
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// How far ahead of the expiry date the organization contact is reminded
+const REMINDER_DAYS = 30;
+
+interface ExemptOrganization {
+  id: string;
+  name: string;
+  contact_email: string | null;
+  tax_exemption_certificate: string | null;
+  tax_exemption_state: string | null;
+  tax_exemption_expires_at: string;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Daily job: expires lapsed tax exemption certificates and emails each
+ * organization contact once, REMINDER_DAYS before its certificate expires.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const today = new Date().toISOString().split("T")[0];
+    const results = { expired: 0, reminded: 0, failed: 0 };
+
+    // 1. Certificates past their expiry date stop applying at checkout
+    const { data: expired, error: expireError } = await supabase
+      .from("organizations")
+      .update({
+        tax_exempt: false,
+        tax_exemption_status: "expired",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("tax_exemption_status", "approved")
+      .lt("tax_exemption_expires_at", today)
+      .select("id");
+
+    if (expireError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to expire certificates", details: expireError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+    results.expired = expired?.length || 0;
+
+    // 2. Remind contacts whose certificate expires within the window
+    const { data: expiring, error: fetchError } = await supabase
+      .from("organizations")
+      .select("id, name, contact_email, tax_exemption_certificate, tax_exemption_state, tax_exemption_expires_at")
+      .eq("tax_exemption_status", "approved")
+      .is("tax_exemption_reminder_sent_at", null)
+      .not("contact_email", "is", null)
+      .gte("tax_exemption_expires_at", today)
+      .lte("tax_exemption_expires_at", addDays(today, REMINDER_DAYS));
+
+    if (fetchError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch expiring certificates", details: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    for (const org of (expiring || []) as ExemptOrganization[]) {
+      const expiresOn = formatDate(org.tax_exemption_expires_at);
+
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: org.contact_email,
+            email_type: "tax_exemption_expiring",
+            subject: `Your tax exemption certificate expires ${expiresOn}`,
+            template_data: {
+              organization_name: org.name,
+              certificate_number: org.tax_exemption_certificate || "",
+              issuing_state: org.tax_exemption_state || "",
+              expires_on: expiresOn,
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`send-email returned ${response.status}`);
+        }
+
+        await supabase
+          .from("organizations")
+          .update({ tax_exemption_reminder_sent_at: new Date().toISOString() })
+          .eq("id", org.id);
+
+        results.reminded++;
+      } catch (e) {
+        console.warn(`Failed to send tax exemption reminder for ${org.id}:`, e);
+        results.failed++;
+      }
+    }
+
+    return new Response(JSON.stringify(results), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Internal server error";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
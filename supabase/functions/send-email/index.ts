@@ -79,6 +79,14 @@ function prepareTemplateData(emailType: string, data: Record<string, unknown>):
         .join("");
       break;
     }
+    case "contract_pricing_expiring": {
+      vars.product_rows = buildExpiringPriceRows(data.products);
+      break;
+    }
+    case "low_stock_alert": {
+      vars.product_rows = buildLowStockRows(data.products);
+      break;
+    }
     case "recurring_order_processed": {
       vars.formatted_amount = Number(data.amount || 0).toFixed(2);
       const nextDate = String(data.next_order_date || "");
@@ -92,6 +100,22 @@ function prepareTemplateData(emailType: string, data: Record<string, unknown>):
   return vars;
 }
 
+// Rows for the contract_pricing_expiring table (Product, Price, Expires)
+function buildExpiringPriceRows(products: unknown): string {
+  if (!Array.isArray(products)) return "";
+  return (products as Array<{ name: string; quantity: string; price: number; expires_on: string }>)
+    .map((p) => `<tr><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;font-size:14px;">${p.name} <span style="color:#9ca3af;">(${p.quantity})</span></td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">$${Number(p.price || 0).toFixed(2)}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.expires_on}</td></tr>`)
+    .join("");
+}
+
+// Rows for the low_stock_alert table (Product, Available, Threshold)
+function buildLowStockRows(products: unknown): string {
+  if (!Array.isArray(products)) return "";
+  return (products as Array<{ name: string; sku?: string; available: number; threshold: number }>)
+    .map((p) => `<tr><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;font-size:14px;">${p.name}${p.sku ? ` <span style="color:#9ca3af;">(${p.sku})</span>` : ""}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.available}</td><td style="padding:8px 0;border-bottom:1px solid #f3f4f6;text-align:right;font-size:14px;">${p.threshold}</td></tr>`)
+    .join("");
+}
+
 // ── Simple {{variable}} replacement ──
 
 function renderTemplate(html: string, vars: Record<string, string>): string {
@@ -213,6 +237,77 @@ function buildFallbackHtml(emailType: string, data: Record<string, unknown>): st
       `);
     }
 
+    case "tax_exemption_expiring": {
+      const orgName = String(data.organization_name || "your organization");
+      const expiresOn = String(data.expires_on || "");
+      const certificate = String(data.certificate_number || "");
+      const state = String(data.issuing_state || "");
+      return wrapEmail(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Tax Exemption Certificate Expiring</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">The tax exemption certificate on file for <strong>${orgName}</strong> expires on <strong>${expiresOn}</strong>.</p>
+        <div style="background:#fef3c7;border:1px solid #fde68a;border-radius:8px;padding:16px;margin-bottom:16px;">
+          <p style="color:#92400e;font-size:14px;margin:0;">Certificate ${certificate}${state ? ` (${state})` : ""}</p>
+        </div>
+        <p style="color:#6b7280;font-size:14px;">Please send us a renewed certificate before then. Sales tax will be charged on orders placed after the certificate expires.</p>
+      `);
+    }
+
+    case "low_stock_alert": {
+      const count = String(data.product_count || "");
+      const rows = buildLowStockRows(data.products);
+      return wrapEmail(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Low Stock Alert</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">${count} product(s) have fallen to or below their low-stock threshold.</p>
+        <table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+          <tr>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Available</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Threshold</th>
+          </tr>
+          ${rows}
+        </table>
+        <p style="color:#6b7280;font-size:14px;">New orders for these products will be backordered once available stock runs out.</p>
+      `);
+    }
+
+    case "contract_pricing_expiring": {
+      const orgName = String(data.organization_name || "your organization");
+      const repName = String(data.rep_name || "");
+      const expiresOn = String(data.expires_on || "");
+      const count = String(data.product_count || "");
+      const rows = buildExpiringPriceRows(data.products);
+      return wrapEmail(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Contract Pricing Expiring</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Hi ${repName}, ${count} contract price(s) for <strong>${orgName}</strong> expire starting <strong>${expiresOn}</strong>.</p>
+        <table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+          <tr>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Price</th>
+            <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Expires</th>
+          </tr>
+          ${rows}
+        </table>
+        <p style="color:#6b7280;font-size:14px;">Once these prices expire the customer pays retail. Ask an admin to extend them or schedule new pricing before then.</p>
+      `);
+    }
+
+    case "crm_follow_up_due": {
+      const orgName = String(data.organization_name || "a customer");
+      const repName = String(data.rep_name || "");
+      const title = String(data.task_title || "");
+      const notes = String(data.task_notes || "");
+      const dueOn = String(data.due_on || "");
+      return wrapEmail(`
+        <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Follow-up Reminder</h2>
+        <p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Hi ${repName}, you have a follow-up with <strong>${orgName}</strong> due <strong>${dueOn}</strong>.</p>
+        <div style="background:#eff6ff;border:1px solid #bfdbfe;border-radius:8px;padding:16px;margin-bottom:16px;">
+          <p style="color:#1e3a8a;font-size:14px;font-weight:600;margin:0 0 4px 0;">${title}</p>
+          ${notes ? `<p style="color:#1e40af;font-size:14px;margin:0;">${notes}</p>` : ""}
+        </div>
+        <p style="color:#6b7280;font-size:14px;">Mark it done under My Customers once you have followed up.</p>
+      `);
+    }
+
     default:
       return wrapEmail(`
         <h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Notification</h2>
@@ -0,0 +1,88 @@
+/*
+  # Sales tax rate tables
+
+  Replaces the hard-coded zero tax at checkout. Read by the local rate-table
+  provider in src/services/tax/localRateTable.ts.
+
+  1. New Tables
+    - `tax_rates` - combined rate per state, optionally narrowed by ZIP prefix
+      (the longest matching prefix wins over the statewide row)
+    - `tax_category_rules` - per-category taxability, optionally per state
+      (e.g. medical supplies exempt in TX)
+
+  2. Changes
+    - `organizations.tax_exempt` / `tax_exemption_certificate`
+    - `orders.tax_rate`, `tax_exempt`, `tax_details` - what was applied at checkout
+
+  3. Security
+    - Admins manage both tables; authenticated users can read them (checkout)
+*/
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  state_code text NOT NULL,
+  zip_prefix text,
+  rate numeric(6,5) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  jurisdiction_name text,
+  taxes_shipping boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT tax_rates_state_zip_unique UNIQUE NULLS NOT DISTINCT (state_code, zip_prefix)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rates_state_code ON tax_rates(state_code) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS tax_category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  state_code text,
+  is_taxable boolean NOT NULL DEFAULT true,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT tax_category_rules_unique UNIQUE NULLS NOT DISTINCT (category_id, state_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_category_rules_category_id ON tax_category_rules(category_id);
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_certificate text;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_rate numeric(6,5);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_details jsonb;
+
+COMMENT ON COLUMN orders.tax_rate IS 'Combined sales tax rate applied at checkout (e.g. 0.0825)';
+COMMENT ON COLUMN orders.tax_details IS 'Tax provider, jurisdiction and exemption certificate used at checkout';
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage tax rates"
+  ON tax_rates FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read tax rates"
+  ON tax_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage tax category rules"
+  ON tax_category_rules FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read tax category rules"
+  ON tax_category_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Texas statewide base rate (home state). Local rates are added per ZIP prefix.
+INSERT INTO tax_rates (state_code, zip_prefix, rate, jurisdiction_name, taxes_shipping) VALUES
+  ('TX', NULL, 0.0625, 'Texas', true)
+ON CONFLICT (state_code, zip_prefix) DO NOTHING;
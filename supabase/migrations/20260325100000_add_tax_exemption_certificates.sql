@@ -0,0 +1,104 @@
+/*
+  # Tax exemption certificates
+
+  Tracks the resale / exemption certificate behind `organizations.tax_exempt`.
+  An organization is only treated as exempt at checkout while its certificate
+  is approved and not past its expiry date.
+
+  1. Changes to `organizations`
+    - `tax_exemption_status` - none / pending / approved / rejected / expired
+    - `tax_exemption_state` - issuing state of the certificate
+    - `tax_exemption_file_path` - object path in the `tax-exemption-certificates` bucket
+    - `tax_exemption_expires_at` - certificate expiry date (null = does not expire)
+    - `tax_exemption_reviewed_by` / `tax_exemption_reviewed_at` / `tax_exemption_review_notes`
+    - `tax_exemption_reminder_sent_at` - set by the daily expiry job so the
+      contact is only emailed once per certificate
+    - `tax_exemption_certificate` (added earlier) holds the certificate number
+
+  2. Storage
+    - Private `tax-exemption-certificates` bucket, one folder per organization id
+    - Admins manage every file; sales reps can upload and read files for
+      organizations they are assigned to
+
+  3. Email
+    - `tax_exemption_expiring` template sent by check-tax-exemption-expiry
+*/
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_status text NOT NULL DEFAULT 'none'
+  CHECK (tax_exemption_status IN ('none', 'pending', 'approved', 'rejected', 'expired'));
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_state text;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_file_path text;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_expires_at date;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_reviewed_at timestamptz;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_review_notes text;
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS tax_exemption_reminder_sent_at timestamptz;
+
+-- Organizations flagged exempt before certificates were tracked stay exempt
+UPDATE organizations
+SET tax_exemption_status = 'approved'
+WHERE tax_exempt = true AND tax_exemption_status = 'none';
+
+CREATE INDEX IF NOT EXISTS idx_organizations_tax_exemption_status
+  ON organizations(tax_exemption_status)
+  WHERE tax_exemption_status IN ('pending', 'approved');
+
+COMMENT ON COLUMN organizations.tax_exemption_certificate IS 'Tax exemption / resale certificate number';
+COMMENT ON COLUMN organizations.tax_exemption_expires_at IS 'Exemption stops applying at checkout after this date';
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tax-exemption-certificates', 'tax-exemption-certificates', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage tax exemption certificates"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id = 'tax-exemption-certificates' AND public.is_admin())
+  WITH CHECK (bucket_id = 'tax-exemption-certificates' AND public.is_admin());
+
+CREATE POLICY "Sales reps can upload certificates for their organizations"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'tax-exemption-certificates'
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+        AND osr.organization_id::text = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Sales reps can read certificates for their organizations"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'tax-exemption-certificates'
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+        AND osr.organization_id::text = (storage.foldername(name))[1]
+    )
+  );
+
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'tax_exemption_expiring',
+  'Tax Exemption Expiring',
+  'Your tax exemption certificate expires {{expires_on}}',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Tax Exemption Certificate Expiring</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">The tax exemption certificate on file for <strong>{{organization_name}}</strong> expires on <strong>{{expires_on}}</strong>.</p>
+<div style="background:#fef3c7;border:1px solid #fde68a;border-radius:8px;padding:16px;margin-bottom:16px;">
+  <p style="color:#92400e;font-size:14px;margin:0;">Certificate {{certificate_number}} ({{issuing_state}})</p>
+</div>
+<p style="color:#6b7280;font-size:14px;">Please send us a renewed certificate before then. Sales tax will be charged on orders placed after the certificate expires.</p>$$,
+  '[
+    {"key":"organization_name","description":"Organization name","example":"Acme Clinic"},
+    {"key":"certificate_number","description":"Exemption certificate number","example":"1-23-456789-0"},
+    {"key":"issuing_state","description":"State that issued the certificate","example":"TX"},
+    {"key":"expires_on","description":"Certificate expiry date","example":"April 30, 2026"}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
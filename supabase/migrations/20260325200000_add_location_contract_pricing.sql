@@ -0,0 +1,128 @@
+/*
+  # Location-level contract pricing
+
+  Locations were folded into `customer_addresses` by
+  20260309600000_consolidate_locations_to_addresses, which left the
+  'location' pricing type without a source. Location pricing now lives in
+  `contract_pricing` with `pricing_type = 'location'` and `entity_id` set to
+  the id of a saved organization shipping address. Once that address is
+  chosen at checkout its pricing outranks organization and individual pricing,
+  and `orders.location_id` records the address id.
+
+  1. Security
+    - Customers can read location pricing for shipping addresses they own or
+      that belong to one of their organizations
+    - Sales reps can read location pricing for addresses of their assigned
+      organizations
+
+  2. Orphan tracking
+    - Deactivating or deleting a shipping address flags its location pricing
+      as orphaned (`orphaned_reason = 'location_deleted'`)
+
+  3. Changes to `commission_line_items`
+    - `pricing_source` (text) - which contract set the line price, e.g.
+      'location'; copied from the order item's `pricingSource`
+*/
+
+-- ═══════════════════════════════════════
+-- 1. RLS: read access to location pricing
+-- ═══════════════════════════════════════
+CREATE POLICY "Users can read pricing for their shipping locations"
+  ON contract_pricing FOR SELECT
+  TO authenticated
+  USING (
+    pricing_type = 'location'
+    AND entity_id::text IN (
+      SELECT ca.id::text
+      FROM customer_addresses ca
+      WHERE ca.user_id = (SELECT auth.uid())
+         OR ca.organization_id IN (
+           SELECT uor.organization_id
+           FROM user_organization_roles uor
+           WHERE uor.user_id = (SELECT auth.uid())
+         )
+    )
+  );
+
+CREATE POLICY "Sales reps can read assigned org location pricing"
+  ON contract_pricing FOR SELECT
+  TO authenticated
+  USING (
+    pricing_type = 'location'
+    AND entity_id::text IN (
+      SELECT ca.id::text
+      FROM customer_addresses ca
+      JOIN organization_sales_reps osr ON osr.organization_id = ca.organization_id
+      WHERE osr.sales_rep_id = (SELECT auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 2. Orphan location pricing with its address
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION orphan_location_pricing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE contract_pricing
+    SET is_orphaned = true, orphaned_reason = 'location_deleted'
+    WHERE pricing_type = 'location'
+      AND entity_id = OLD.id
+      AND NOT is_orphaned;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_orphan_location_pricing_on_deactivate ON customer_addresses;
+CREATE TRIGGER trigger_orphan_location_pricing_on_deactivate
+  AFTER UPDATE OF is_active ON customer_addresses
+  FOR EACH ROW
+  WHEN (OLD.is_active AND NOT NEW.is_active)
+  EXECUTE FUNCTION orphan_location_pricing();
+
+DROP TRIGGER IF EXISTS trigger_orphan_location_pricing_on_delete ON customer_addresses;
+CREATE TRIGGER trigger_orphan_location_pricing_on_delete
+  AFTER DELETE ON customer_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION orphan_location_pricing();
+
+-- ═══════════════════════════════════════
+-- 3. Pricing source on commission line items
+-- ═══════════════════════════════════════
+ALTER TABLE commission_line_items ADD COLUMN IF NOT EXISTS pricing_source text;
+
+-- calculate_commission_for_order() builds line items from margin_details,
+-- which does not carry the pricing source, so fill it from the order items.
+CREATE OR REPLACE FUNCTION set_commission_line_item_pricing_source()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.pricing_source IS NULL AND NEW.product_id IS NOT NULL THEN
+    SELECT item->>'pricingSource'
+      INTO NEW.pricing_source
+      FROM orders o, jsonb_array_elements(o.items) AS item
+      WHERE o.id = NEW.order_id
+        AND (item->>'productId')::integer = NEW.product_id
+      LIMIT 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_set_commission_line_item_pricing_source ON commission_line_items;
+CREATE TRIGGER trigger_set_commission_line_item_pricing_source
+  BEFORE INSERT ON commission_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_commission_line_item_pricing_source();
+
+COMMENT ON COLUMN commission_line_items.pricing_source IS
+  'Contract that set the line price (e.g. location); null for cart prices';
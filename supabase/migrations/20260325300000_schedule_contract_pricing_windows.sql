@@ -0,0 +1,128 @@
+/*
+  # Scheduled contract pricing windows
+
+  Contract prices already carry `effective_date` / `expiry_date`, but the
+  overlap check treated every row for an entity + product as live at once,
+  so a future price change could not be saved next to the current ladder.
+
+  1. Overlap check
+    - `check_pricing_conflict()` only rejects overlapping quantity ranges when
+      the effective/expiry windows overlap too. Windows are half-open: a price
+      expiring at T does not overlap one starting at T.
+    - New rows must expire after they take effect (NOT VALID, existing rows
+      are left alone)
+
+  2. Changes to `contract_pricing`
+    - `expiry_reminder_sent_at` - set by check-contract-pricing-expiry once
+      the organization's sales reps have been warned; cleared whenever the
+      expiry date changes
+
+  3. Email
+    - `contract_pricing_expiring` template sent to assigned sales reps 30
+      days before an organization's contract prices expire
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Overlap check respects windows
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION check_pricing_conflict()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_conflict_count integer;
+  v_new_min integer;
+  v_new_max integer;
+BEGIN
+  -- Get effective min/max (treat NULL max as infinity)
+  v_new_min := NEW.min_quantity;
+  v_new_max := COALESCE(NEW.max_quantity, 999999999);
+
+  SELECT COUNT(*) INTO v_conflict_count
+  FROM contract_pricing
+  WHERE id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::uuid)
+    AND product_id = NEW.product_id
+    AND entity_id = NEW.entity_id
+    AND pricing_type = NEW.pricing_type
+    AND v_new_min <= COALESCE(max_quantity, 999999999)
+    AND v_new_max >= min_quantity
+    -- Only prices in force at the same time can conflict
+    AND COALESCE(NEW.effective_date, '-infinity'::timestamptz) < COALESCE(expiry_date, 'infinity'::timestamptz)
+    AND COALESCE(effective_date, '-infinity'::timestamptz) < COALESCE(NEW.expiry_date, 'infinity'::timestamptz);
+
+  IF v_conflict_count > 0 THEN
+    RAISE EXCEPTION 'Pricing conflict: Quantity range overlaps with existing pricing tier for this product and entity during the same dates. Please adjust min/max quantities or the effective/expiry dates.'
+      USING HINT = 'Tiers in force at the same time must have unique, non-overlapping quantity ranges.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION check_pricing_conflict IS 'Prevents overlapping quantity ranges for the same product/entity/pricing_type while their effective windows overlap';
+
+ALTER TABLE contract_pricing
+  ADD CONSTRAINT contract_pricing_expiry_after_effective
+  CHECK (expiry_date IS NULL OR effective_date IS NULL OR expiry_date > effective_date)
+  NOT VALID;
+
+-- ═══════════════════════════════════════
+-- 2. Expiry reminders
+-- ═══════════════════════════════════════
+ALTER TABLE contract_pricing ADD COLUMN IF NOT EXISTS expiry_reminder_sent_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_contract_pricing_expiry_reminder
+  ON contract_pricing(expiry_date)
+  WHERE pricing_type = 'organization' AND expiry_date IS NOT NULL AND expiry_reminder_sent_at IS NULL;
+
+-- Moving the expiry date re-arms the reminder
+CREATE OR REPLACE FUNCTION reset_contract_pricing_expiry_reminder()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  NEW.expiry_reminder_sent_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_reset_contract_pricing_expiry_reminder ON contract_pricing;
+CREATE TRIGGER trigger_reset_contract_pricing_expiry_reminder
+  BEFORE UPDATE OF expiry_date ON contract_pricing
+  FOR EACH ROW
+  WHEN (OLD.expiry_date IS DISTINCT FROM NEW.expiry_date)
+  EXECUTE FUNCTION reset_contract_pricing_expiry_reminder();
+
+COMMENT ON COLUMN contract_pricing.expiry_reminder_sent_at IS 'When sales reps were warned that this price is about to expire';
+
+-- ═══════════════════════════════════════
+-- 3. Email template
+-- ═══════════════════════════════════════
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'contract_pricing_expiring',
+  'Contract Pricing Expiring',
+  'Contract pricing for {{organization_name}} expires {{expires_on}}',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Contract Pricing Expiring</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Hi {{rep_name}}, {{product_count}} contract price(s) for <strong>{{organization_name}}</strong> expire starting <strong>{{expires_on}}</strong>.</p>
+<table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+  <tr>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Price</th>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Expires</th>
+  </tr>
+  {{product_rows}}
+</table>
+<p style="color:#6b7280;font-size:14px;">Once these prices expire the customer pays retail. Ask an admin to extend them or schedule new pricing before then.</p>$$,
+  '[
+    {"key":"organization_name","description":"Organization name","example":"Acme Clinic"},
+    {"key":"rep_name","description":"Sales rep name","example":"Jordan Lee"},
+    {"key":"product_count","description":"Number of expiring prices","example":"3"},
+    {"key":"expires_on","description":"Earliest expiry date","example":"April 30, 2026"},
+    {"key":"product_rows","description":"Pre-rendered table rows (product, price, expiry)","example":""}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
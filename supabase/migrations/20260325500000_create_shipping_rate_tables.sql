@@ -0,0 +1,172 @@
+/*
+  # Shipping rate tables
+
+  Replaces the three flat-price shipping settings with rates computed from
+  cart weight and destination. Read by the local rate-table provider in
+  src/services/shipping/localRateTable.ts.
+
+  1. New Tables
+    - `shipping_methods` - the options offered at checkout, with per-method
+      rules: free-shipping subtotal threshold and an oversized-item
+      surcharge (per unit at or above a weight)
+    - `shipping_zones` - destination zones by country and state list; a zone
+      with no states catches every other state in its country
+    - `shipping_rates` - weight brackets per method and zone: base rate from
+      `min_weight_lbs` up to the next bracket, plus a per-pound rate above it
+    - `organization_shipping_rates` - negotiated flat rate per organization
+      and method, replacing the table price and surcharges
+
+  2. Data
+    - Methods seeded from the `shipping_*` site settings, which are then
+      removed; every zone starts at those flat prices (double for Alaska &
+      Hawaii) so checkout totals do not change until the tables are tuned
+
+  3. Security
+    - Admins manage all tables; authenticated users read methods, zones and
+      rates (checkout) and the negotiated rates of their own organizations
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS shipping_methods (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  days text NOT NULL DEFAULT '',
+  free_shipping_threshold numeric(10,2) CHECK (free_shipping_threshold IS NULL OR free_shipping_threshold >= 0),
+  oversized_weight_lbs numeric(10,2) CHECK (oversized_weight_lbs IS NULL OR oversized_weight_lbs > 0),
+  oversized_surcharge numeric(10,2) NOT NULL DEFAULT 0 CHECK (oversized_surcharge >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  country text NOT NULL DEFAULT 'US',
+  state_codes text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_zones_country ON shipping_zones(country);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  method_id text NOT NULL REFERENCES shipping_methods(id) ON DELETE CASCADE,
+  zone_id uuid NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  min_weight_lbs numeric(10,2) NOT NULL DEFAULT 0 CHECK (min_weight_lbs >= 0),
+  base_rate numeric(10,2) NOT NULL CHECK (base_rate >= 0),
+  per_lb_rate numeric(10,2) NOT NULL DEFAULT 0 CHECK (per_lb_rate >= 0),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT shipping_rates_bracket_unique UNIQUE (method_id, zone_id, min_weight_lbs)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_id ON shipping_rates(zone_id);
+
+CREATE TABLE IF NOT EXISTS organization_shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  method_id text NOT NULL REFERENCES shipping_methods(id) ON DELETE CASCADE,
+  flat_rate numeric(10,2) NOT NULL CHECK (flat_rate >= 0),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT organization_shipping_rates_unique UNIQUE (organization_id, method_id)
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_method text;
+
+COMMENT ON COLUMN orders.shipping_method IS 'shipping_methods.id chosen at checkout';
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE shipping_methods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_shipping_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage shipping methods"
+  ON shipping_methods FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read shipping methods"
+  ON shipping_methods FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shipping zones"
+  ON shipping_zones FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read shipping zones"
+  ON shipping_zones FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shipping rates"
+  ON shipping_rates FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read shipping rates"
+  ON shipping_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage negotiated shipping rates"
+  ON organization_shipping_rates FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Users can read their organizations' shipping rates"
+  ON organization_shipping_rates FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT uor.organization_id
+      FROM user_organization_roles uor
+      WHERE uor.user_id = (SELECT auth.uid())
+    )
+    OR organization_id IN (
+      SELECT osr.organization_id
+      FROM organization_sales_reps osr
+      WHERE osr.sales_rep_id = (SELECT auth.uid())
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 3. Seed from the old flat settings
+-- ═══════════════════════════════════════
+INSERT INTO shipping_methods (id, name, days, sort_order)
+SELECT m.id, m.name,
+       COALESCE((SELECT value #>> '{}' FROM site_settings WHERE key = 'shipping_' || m.id || '_days'), m.days),
+       m.sort_order
+FROM (VALUES
+  ('standard', 'Standard Shipping', '5-7 business days', 1),
+  ('express', 'Express Shipping', '2-3 business days', 2),
+  ('overnight', 'Overnight Shipping', '1 business day', 3)
+) AS m(id, name, days, sort_order)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO shipping_zones (name, country, state_codes) VALUES
+  ('Continental US', 'US', '{}'),
+  ('Alaska & Hawaii', 'US', '{AK,HI}');
+
+INSERT INTO shipping_rates (method_id, zone_id, min_weight_lbs, base_rate)
+SELECT m.id, z.id, 0,
+       COALESCE((SELECT (value #>> '{}')::numeric FROM site_settings WHERE key = 'shipping_' || m.id || '_price'), m.price)
+         * CASE WHEN z.state_codes = '{}' THEN 1 ELSE 2 END
+FROM (VALUES ('standard', 9.99), ('express', 19.99), ('overnight', 39.99)) AS m(id, price)
+CROSS JOIN shipping_zones z
+ON CONFLICT (method_id, zone_id, min_weight_lbs) DO NOTHING;
+
+DELETE FROM site_settings WHERE key LIKE 'shipping\_%';
@@ -0,0 +1,564 @@
+/*
+  # Inventory quantities and reservations
+
+  Replaces the hand-maintained `products.is_in_stock` flag with on-hand
+  quantities per product and warehouse. Orders reserve stock when placed,
+  give it back when cancelled or fully refunded, and consume it when shipped.
+  Lines that cannot be reserved are flagged as backordered by
+  `orderService.createOrder`.
+
+  1. New Tables
+    - `warehouses` - stocking locations; one is the default and every
+      product's stock starts there
+    - `inventory_levels` - on-hand and reserved units per product and
+      warehouse, with an optional low-stock threshold
+    - `inventory_adjustments` - ledger of every stock movement with a reason
+      (received, count correction, damaged, order reserved/released/shipped...)
+    - `inventory_reservations` - units held for an order, per warehouse, until
+      they are shipped or released
+
+  2. Functions
+    - `adjust_inventory` - admin stock adjustment that writes the ledger
+    - `reserve_order_inventory` - reserves an order's lines and flags the
+      ones it cannot cover (`backorder`, `backorderQuantity` on the item);
+      products without inventory rows are untracked
+    - `release_order_inventory` / `fulfill_order_inventory`
+    - Trigger on `orders` releases on cancel or full refund, consumes on
+      ship/complete and reserves again when a backorder is released
+    - Trigger on `inventory_levels` keeps `products.is_in_stock` in sync and
+      re-arms the low-stock alert once stock is back above the threshold
+
+  3. Data
+    - A "Main Warehouse" default; existing products are left untracked until
+      an admin records their stock
+
+  4. Security
+    - Admins manage warehouses and thresholds and read the ledger; stock only
+      moves through the functions above
+    - Authenticated users read warehouses and levels (storefront availability)
+
+  5. Email template
+    - `low_stock_alert` sent to admins by the check-low-stock job
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS warehouses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  code text NOT NULL UNIQUE,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_single_default
+  ON warehouses(is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS inventory_levels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  on_hand integer NOT NULL DEFAULT 0 CHECK (on_hand >= 0),
+  reserved integer NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+  low_stock_threshold integer NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  low_stock_alerted_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT inventory_levels_product_warehouse_unique UNIQUE (product_id, warehouse_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_levels_warehouse_id ON inventory_levels(warehouse_id);
+
+COMMENT ON COLUMN inventory_levels.reserved IS 'Units held for unshipped orders; available = on_hand - reserved';
+COMMENT ON COLUMN inventory_levels.low_stock_threshold IS 'Alert when available units fall to this level; 0 disables the alert';
+
+CREATE TABLE IF NOT EXISTS inventory_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  quantity_change integer NOT NULL DEFAULT 0,
+  reserved_change integer NOT NULL DEFAULT 0,
+  reason text NOT NULL CHECK (reason IN (
+    'received', 'count_correction', 'damaged', 'lost', 'returned', 'other',
+    'order_reserved', 'order_released', 'order_shipped'
+  )),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_product ON inventory_adjustments(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_adjustments_order_id ON inventory_adjustments(order_id);
+
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  status text NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'released', 'fulfilled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order_id ON inventory_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_open
+  ON inventory_reservations(product_id, warehouse_id) WHERE status = 'reserved';
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage warehouses"
+  ON warehouses FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read warehouses"
+  ON warehouses FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Quantities change only through adjust_inventory and the order functions
+CREATE POLICY "Admins can update inventory thresholds"
+  ON inventory_levels FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Authenticated users can read inventory levels"
+  ON inventory_levels FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can read inventory adjustments"
+  ON inventory_adjustments FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Admins can read inventory reservations"
+  ON inventory_reservations FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+-- Thresholds may be edited, quantities may not
+CREATE OR REPLACE FUNCTION protect_inventory_quantities()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF current_setting('app.inventory_write', true) IS DISTINCT FROM 'on'
+     AND (NEW.on_hand <> OLD.on_hand OR NEW.reserved <> OLD.reserved) THEN
+    RAISE EXCEPTION 'Inventory quantities can only change through a stock adjustment';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_inventory_quantities
+  BEFORE UPDATE ON inventory_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_inventory_quantities();
+
+-- ═══════════════════════════════════════
+-- 3. Stock adjustments
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION adjust_inventory(
+  p_product_id integer,
+  p_quantity_change integer,
+  p_reason text,
+  p_note text DEFAULT NULL,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS inventory_levels
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_warehouse_id uuid;
+  v_level inventory_levels;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can adjust inventory';
+  END IF;
+
+  IF p_reason IN ('order_reserved', 'order_released', 'order_shipped') THEN
+    RAISE EXCEPTION 'Order stock movements are recorded automatically';
+  END IF;
+
+  v_warehouse_id := COALESCE(p_warehouse_id, (SELECT id FROM warehouses WHERE is_default));
+  IF v_warehouse_id IS NULL THEN
+    RAISE EXCEPTION 'No warehouse specified and no default warehouse configured';
+  END IF;
+
+  IF p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  IF p_quantity_change < 0 AND NOT EXISTS (
+    SELECT 1 FROM inventory_levels
+    WHERE product_id = p_product_id AND warehouse_id = v_warehouse_id
+      AND on_hand + p_quantity_change >= 0
+  ) THEN
+    RAISE EXCEPTION 'Adjustment would take on-hand stock below zero';
+  END IF;
+
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  INSERT INTO inventory_levels (product_id, warehouse_id, on_hand)
+  VALUES (p_product_id, v_warehouse_id, p_quantity_change)
+  ON CONFLICT (product_id, warehouse_id) DO UPDATE
+    SET on_hand = inventory_levels.on_hand + p_quantity_change,
+        updated_at = now()
+  RETURNING * INTO v_level;
+
+  INSERT INTO inventory_adjustments (product_id, warehouse_id, quantity_change, reason, note, created_by)
+  VALUES (p_product_id, v_warehouse_id, p_quantity_change, p_reason, p_note, (select auth.uid()));
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+
+  RETURN v_level;
+END;
+$$;
+
+COMMENT ON FUNCTION adjust_inventory IS 'Admin stock adjustment: changes on-hand units in a warehouse (default warehouse if omitted) and records the reason in inventory_adjustments';
+
+-- ═══════════════════════════════════════
+-- 4. Order reservations
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION reserve_order_inventory(p_order_id uuid)
+RETURNS TABLE (product_id integer, requested integer, reserved integer, backordered integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_level record;
+  v_needed integer;
+  v_take integer;
+  v_short jsonb := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.user_id IS DISTINCT FROM (select auth.uid())
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin')
+     AND (select auth.uid()) IS NOT NULL THEN
+    RAISE EXCEPTION 'Not allowed to reserve stock for this order';
+  END IF;
+
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  FOR v_line IN
+    SELECT (item->>'productId')::integer AS pid, SUM((item->>'quantity')::integer)::integer AS qty
+    FROM jsonb_array_elements(COALESCE(v_order.items, '[]'::jsonb)) AS item
+    WHERE item->>'productId' IS NOT NULL
+    GROUP BY 1
+  LOOP
+    -- Re-running only reserves what is still outstanding
+    v_needed := v_line.qty - COALESCE((
+      SELECT SUM(r.quantity) FROM inventory_reservations r
+      WHERE r.order_id = p_order_id AND r.product_id = v_line.pid AND r.status IN ('reserved', 'fulfilled')
+    ), 0)::integer;
+
+    IF NOT EXISTS (SELECT 1 FROM inventory_levels l WHERE l.product_id = v_line.pid) THEN
+      -- Untracked product: fall back to the manual stock flag
+      product_id := v_line.pid;
+      requested := v_line.qty;
+      backordered := CASE
+        WHEN EXISTS (SELECT 1 FROM products p WHERE p.id = v_line.pid AND p.is_in_stock = false) THEN v_line.qty
+        ELSE 0
+      END;
+      reserved := 0;
+      IF backordered > 0 THEN
+        v_short := v_short || jsonb_build_object(v_line.pid::text, backordered);
+      END IF;
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    -- Default warehouse first, then whichever has the most available
+    FOR v_level IN
+      SELECT l.id, l.warehouse_id, l.on_hand - l.reserved AS available
+      FROM inventory_levels l
+      JOIN warehouses w ON w.id = l.warehouse_id AND w.is_active
+      WHERE l.product_id = v_line.pid AND l.on_hand > l.reserved
+      ORDER BY w.is_default DESC, l.on_hand - l.reserved DESC
+      FOR UPDATE OF l
+    LOOP
+      EXIT WHEN v_needed <= 0;
+      v_take := LEAST(v_needed, v_level.available);
+
+      UPDATE inventory_levels SET reserved = inventory_levels.reserved + v_take, updated_at = now()
+      WHERE id = v_level.id;
+
+      INSERT INTO inventory_reservations (order_id, product_id, warehouse_id, quantity)
+      VALUES (p_order_id, v_line.pid, v_level.warehouse_id, v_take);
+
+      INSERT INTO inventory_adjustments (product_id, warehouse_id, reserved_change, reason, order_id, created_by)
+      VALUES (v_line.pid, v_level.warehouse_id, v_take, 'order_reserved', p_order_id, (select auth.uid()));
+
+      v_needed := v_needed - v_take;
+    END LOOP;
+
+    product_id := v_line.pid;
+    requested := v_line.qty;
+    backordered := GREATEST(v_needed, 0);
+    reserved := v_line.qty - backordered;
+    IF backordered > 0 THEN
+      v_short := v_short || jsonb_build_object(v_line.pid::text, backordered);
+    END IF;
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+
+  -- Flag the short lines on the order so the backorder split can prefill them
+  UPDATE orders
+  SET items = (
+    SELECT jsonb_agg(
+      CASE WHEN v_short ? (item->>'productId')
+        THEN item || jsonb_build_object(
+          'backorder', true,
+          'backorderQuantity', LEAST((item->>'quantity')::integer, (v_short->>(item->>'productId'))::integer)
+        )
+        ELSE item - 'backorderQuantity'
+      END
+      ORDER BY ord
+    )
+    FROM jsonb_array_elements(orders.items) WITH ORDINALITY AS t(item, ord)
+  )
+  WHERE id = p_order_id AND jsonb_typeof(orders.items) = 'array' AND jsonb_array_length(orders.items) > 0;
+END;
+$$;
+
+COMMENT ON FUNCTION reserve_order_inventory IS 'Reserves stock for each line of an order and flags short lines as backordered; returns per product what was reserved and what must be backordered';
+
+CREATE OR REPLACE FUNCTION release_order_inventory(p_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_reservation inventory_reservations;
+  v_released integer := 0;
+BEGIN
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  FOR v_reservation IN
+    SELECT * FROM inventory_reservations
+    WHERE order_id = p_order_id AND status = 'reserved'
+    FOR UPDATE
+  LOOP
+    UPDATE inventory_levels
+    SET reserved = GREATEST(reserved - v_reservation.quantity, 0), updated_at = now()
+    WHERE product_id = v_reservation.product_id AND warehouse_id = v_reservation.warehouse_id;
+
+    UPDATE inventory_reservations SET status = 'released', updated_at = now() WHERE id = v_reservation.id;
+
+    INSERT INTO inventory_adjustments (product_id, warehouse_id, reserved_change, reason, order_id, created_by)
+    VALUES (v_reservation.product_id, v_reservation.warehouse_id, -v_reservation.quantity, 'order_released', p_order_id, (select auth.uid()));
+
+    v_released := v_released + v_reservation.quantity;
+  END LOOP;
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+  RETURN v_released;
+END;
+$$;
+
+COMMENT ON FUNCTION release_order_inventory IS 'Returns the units an order still holds to available stock; returns the number of units released';
+
+-- Shipping takes the reserved units off the shelf. An order split after it
+-- was reserved holds more than it now contains; the surplus is released.
+CREATE OR REPLACE FUNCTION fulfill_order_inventory(p_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_reservation inventory_reservations;
+  v_remaining jsonb;
+  v_in_order integer;
+  v_ship integer;
+  v_shipped integer := 0;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(pid, qty), '{}'::jsonb) INTO v_remaining
+  FROM (
+    SELECT item->>'productId' AS pid, SUM((item->>'quantity')::integer) AS qty
+    FROM orders o, jsonb_array_elements(COALESCE(o.items, '[]'::jsonb)) AS item
+    WHERE o.id = p_order_id
+    GROUP BY 1
+  ) lines;
+
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  FOR v_reservation IN
+    SELECT * FROM inventory_reservations
+    WHERE order_id = p_order_id AND status = 'reserved'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    v_in_order := COALESCE((v_remaining->>v_reservation.product_id::text)::integer, 0);
+    v_ship := LEAST(v_reservation.quantity, v_in_order);
+    v_remaining := jsonb_set(v_remaining, ARRAY[v_reservation.product_id::text], to_jsonb(v_in_order - v_ship));
+
+    UPDATE inventory_levels
+    SET on_hand = GREATEST(on_hand - v_ship, 0),
+        reserved = GREATEST(reserved - v_reservation.quantity, 0),
+        updated_at = now()
+    WHERE product_id = v_reservation.product_id AND warehouse_id = v_reservation.warehouse_id;
+
+    IF v_ship > 0 THEN
+      UPDATE inventory_reservations SET status = 'fulfilled', quantity = v_ship, updated_at = now()
+      WHERE id = v_reservation.id;
+    ELSE
+      UPDATE inventory_reservations SET status = 'released', updated_at = now()
+      WHERE id = v_reservation.id;
+    END IF;
+
+    IF v_ship > 0 THEN
+      INSERT INTO inventory_adjustments (product_id, warehouse_id, quantity_change, reserved_change, reason, order_id, created_by)
+      VALUES (v_reservation.product_id, v_reservation.warehouse_id, -v_ship, -v_ship, 'order_shipped', p_order_id, (select auth.uid()));
+    END IF;
+
+    IF v_reservation.quantity > v_ship THEN
+      INSERT INTO inventory_adjustments (product_id, warehouse_id, reserved_change, reason, order_id, note, created_by)
+      VALUES (v_reservation.product_id, v_reservation.warehouse_id, -(v_reservation.quantity - v_ship), 'order_released', p_order_id,
+              'Surplus after order split', (select auth.uid()));
+    END IF;
+
+    v_shipped := v_shipped + v_ship;
+  END LOOP;
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+  RETURN v_shipped;
+END;
+$$;
+
+COMMENT ON FUNCTION fulfill_order_inventory IS 'Consumes an order''s reserved units when it ships; returns the number of units shipped';
+
+-- Only reached through the orders trigger below
+REVOKE EXECUTE ON FUNCTION release_order_inventory(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fulfill_order_inventory(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_order_inventory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' OR NEW.payment_status = 'refunded' THEN
+    PERFORM release_order_inventory(NEW.id);
+  ELSIF NEW.status IN ('shipped', 'delivered', 'completed')
+        AND OLD.status NOT IN ('shipped', 'delivered', 'completed') THEN
+    PERFORM fulfill_order_inventory(NEW.id);
+  ELSIF OLD.status = 'backorder' AND NEW.status IN ('pending', 'processing') THEN
+    PERFORM reserve_order_inventory(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_order_inventory
+  AFTER UPDATE OF status, payment_status ON orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+  EXECUTE FUNCTION handle_order_inventory();
+
+-- ═══════════════════════════════════════
+-- 5. Stock flag and low-stock re-arm
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION rearm_low_stock_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.on_hand - NEW.reserved > NEW.low_stock_threshold THEN
+    NEW.low_stock_alerted_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rearm_low_stock_alert
+  BEFORE UPDATE ON inventory_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION rearm_low_stock_alert();
+
+CREATE OR REPLACE FUNCTION sync_product_stock_flag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_product_id integer := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products
+  SET is_in_stock = COALESCE((
+    SELECT SUM(on_hand - reserved) > 0 FROM inventory_levels WHERE product_id = v_product_id
+  ), is_in_stock)
+  WHERE id = v_product_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_stock_flag
+  AFTER INSERT OR UPDATE OF on_hand, reserved OR DELETE ON inventory_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_stock_flag();
+
+COMMENT ON COLUMN products.is_in_stock IS 'Derived from inventory_levels for tracked products; set by hand for untracked ones';
+
+-- ═══════════════════════════════════════
+-- 6. Data
+-- ═══════════════════════════════════════
+INSERT INTO warehouses (name, code, is_default)
+VALUES ('Main Warehouse', 'MAIN', true)
+ON CONFLICT (code) DO NOTHING;
+
+-- ═══════════════════════════════════════
+-- 7. Email template
+-- ═══════════════════════════════════════
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'low_stock_alert',
+  'Low Stock Alert',
+  '{{product_count}} product(s) running low on stock',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Low Stock Alert</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">{{product_count}} product(s) have fallen to or below their low-stock threshold.</p>
+<table style="width:100%;border-collapse:collapse;margin-bottom:16px;">
+  <tr>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:left;font-size:12px;color:#6b7280;text-transform:uppercase;">Product</th>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Available</th>
+    <th style="padding:8px 0;border-bottom:2px solid #e5e7eb;text-align:right;font-size:12px;color:#6b7280;text-transform:uppercase;">Threshold</th>
+  </tr>
+  {{product_rows}}
+</table>
+<p style="color:#6b7280;font-size:14px;">New orders for these products will be backordered once available stock runs out.</p>$$,
+  '[
+    {"key":"product_count","description":"Number of low-stock products","example":"2"},
+    {"key":"product_rows","description":"Pre-rendered table rows (product, available, threshold)","example":""}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
@@ -0,0 +1,234 @@
+/*
+  # Supplier purchase orders
+
+  Records what we order from vendors to cover backordered customer orders,
+  and receives it into inventory.
+
+  1. New Tables
+    - `purchase_orders` - one per vendor brand, numbered PO-00001...; status
+      draft -> sent -> partially_received -> received (or cancelled)
+    - `purchase_order_lines` - product, quantity ordered and received, unit cost
+    - `purchase_order_orders` - the backorder orders a purchase order was
+      raised for; these are released when its stock arrives
+
+  2. Changes
+    - `inventory_adjustments.purchase_order_id` - receipts point at their PO
+
+  3. Functions
+    - `receive_purchase_order` - books received quantities into a warehouse,
+      updates the PO status and moves each linked backorder whose lines are
+      now fully in stock to processing, which reserves its stock
+      (see handle_order_inventory)
+
+  4. Security
+    - Admins only
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL UNIQUE DEFAULT 'PO-' || lpad(nextval('purchase_order_number_seq')::text, 5, '0'),
+  vendor_brand text NOT NULL,
+  brand_id uuid REFERENCES brands(id) ON DELETE SET NULL,
+  warehouse_id uuid REFERENCES warehouses(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_vendor_brand ON purchase_orders(vendor_brand);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost numeric(10,2) CHECK (unit_cost IS NULL OR unit_cost >= 0),
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT purchase_order_lines_product_unique UNIQUE (purchase_order_id, product_id),
+  CONSTRAINT purchase_order_lines_received_within_ordered CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product_id ON purchase_order_lines(product_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_orders (
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  PRIMARY KEY (purchase_order_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_orders_order_id ON purchase_order_orders(order_id);
+
+ALTER TABLE inventory_adjustments
+  ADD COLUMN IF NOT EXISTS purchase_order_id uuid REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase orders"
+  ON purchase_orders FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+-- Received quantities only change through receive_purchase_order
+CREATE POLICY "Admins can manage purchase order lines"
+  ON purchase_order_lines FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin')
+    AND EXISTS (
+      SELECT 1 FROM purchase_orders po
+      WHERE po.id = purchase_order_id AND po.status IN ('draft', 'sent')
+    )
+  );
+
+CREATE POLICY "Admins can manage purchase order links"
+  ON purchase_order_orders FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+-- ═══════════════════════════════════════
+-- 3. Receiving
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_receipts jsonb,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_po purchase_orders;
+  v_receipt record;
+  v_line purchase_order_lines;
+  v_warehouse_id uuid;
+  v_received integer := 0;
+  v_outstanding integer;
+  v_order record;
+  v_released uuid[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can receive purchase orders';
+  END IF;
+
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_po.po_number, v_po.status;
+  END IF;
+
+  v_warehouse_id := COALESCE(p_warehouse_id, v_po.warehouse_id, (SELECT id FROM warehouses WHERE is_default));
+  IF v_warehouse_id IS NULL THEN
+    RAISE EXCEPTION 'No warehouse specified and no default warehouse configured';
+  END IF;
+
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  -- p_receipts: [{ "line_id": uuid, "quantity": integer }]
+  FOR v_receipt IN
+    SELECT (r->>'line_id')::uuid AS line_id, (r->>'quantity')::integer AS qty
+    FROM jsonb_array_elements(COALESCE(p_receipts, '[]'::jsonb)) AS r
+    WHERE COALESCE((r->>'quantity')::integer, 0) > 0
+  LOOP
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = v_receipt.line_id AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on purchase order %', v_receipt.line_id, v_po.po_number;
+    END IF;
+    IF v_line.quantity_received + v_receipt.qty > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for product %', v_line.product_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_receipt.qty
+    WHERE id = v_line.id;
+
+    INSERT INTO inventory_levels (product_id, warehouse_id, on_hand)
+    VALUES (v_line.product_id, v_warehouse_id, v_receipt.qty)
+    ON CONFLICT (product_id, warehouse_id) DO UPDATE
+      SET on_hand = inventory_levels.on_hand + v_receipt.qty,
+          updated_at = now();
+
+    INSERT INTO inventory_adjustments (product_id, warehouse_id, quantity_change, reason, purchase_order_id, note, created_by)
+    VALUES (v_line.product_id, v_warehouse_id, v_receipt.qty, 'received', p_purchase_order_id, v_po.po_number, (select auth.uid()));
+
+    v_received := v_received + v_receipt.qty;
+  END LOOP;
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+
+  IF v_received = 0 THEN
+    RAISE EXCEPTION 'Enter a quantity to receive';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity_ordered - quantity_received), 0) INTO v_outstanding
+  FROM purchase_order_lines WHERE purchase_order_id = p_purchase_order_id;
+
+  UPDATE purchase_orders
+  SET status = CASE WHEN v_outstanding = 0 THEN 'received' ELSE 'partially_received' END,
+      received_at = CASE WHEN v_outstanding = 0 THEN now() ELSE received_at END,
+      sent_at = COALESCE(sent_at, now()),
+      updated_at = now()
+  WHERE id = p_purchase_order_id;
+
+  -- Release linked backorders, oldest first, once every tracked line can be covered
+  FOR v_order IN
+    SELECT o.id
+    FROM purchase_order_orders poo
+    JOIN orders o ON o.id = poo.order_id
+    WHERE poo.purchase_order_id = p_purchase_order_id AND o.status = 'backorder'
+    ORDER BY o.created_at
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM (
+        SELECT (item->>'productId')::integer AS pid, SUM((item->>'quantity')::integer) AS qty
+        FROM orders o, jsonb_array_elements(COALESCE(o.items, '[]'::jsonb)) AS item
+        WHERE o.id = v_order.id
+        GROUP BY 1
+      ) needed
+      JOIN (
+        SELECT l.product_id, SUM(l.on_hand - l.reserved) AS available
+        FROM inventory_levels l
+        JOIN warehouses w ON w.id = l.warehouse_id AND w.is_active
+        GROUP BY l.product_id
+      ) stock ON stock.product_id = needed.pid
+      WHERE stock.available < needed.qty
+    ) THEN
+      UPDATE orders SET status = 'processing', updated_at = now() WHERE id = v_order.id;
+      v_released := v_released || v_order.id;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('received', v_received, 'released_order_ids', to_jsonb(v_released));
+END;
+$$;
+
+COMMENT ON FUNCTION receive_purchase_order IS 'Receives purchase order lines into inventory and releases the linked backorders that can now be filled';
@@ -0,0 +1,233 @@
+/*
+  # Net-terms invoicing with customer PO numbers
+
+  Lets organizations on account pay by invoice against their own purchase
+  order number, up to a credit limit.
+
+  1. Changes
+    - `organizations.payment_terms` - due_on_receipt, net_15, net_30, net_45,
+      net_60 or net_90; NULL means the organization cannot pay by invoice
+    - `organizations.credit_limit` - most that may be owed on open invoices;
+      NULL means no limit
+    - `orders.po_number` - the customer's purchase order number
+    - `orders.payment_terms`, `orders.invoice_due_date` - the terms copied
+      from the organization when the order was placed, and the due date
+      they give
+
+  2. Functions
+    - `payment_terms_days` - days until an invoice on the given terms is due
+    - `organization_open_invoice_balance` - total of invoice orders that are
+      not yet paid, refunded or cancelled; vendor sub-orders are left out
+      because their parent order still carries the amount
+    - `get_organization_credit` - terms, limit, open balance and available
+      credit for checkout and the admin screens
+
+  3. Triggers
+    - `enforce_invoice_terms` - invoice orders must carry a PO number, be
+      placed by an organization with terms, and fit within its available
+      credit; the organization row is locked so concurrent orders cannot
+      both spend the same credit. Backorder splits and vendor sub-orders of
+      an invoice order keep its PO, terms and due date, and are not checked
+      against credit again
+    - `protect_organization_credit_terms` - only admins change terms or limits
+
+  4. Security
+    - `get_organization_credit` answers for admins, members of the
+      organization and its assigned sales reps
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Columns
+-- ═══════════════════════════════════════
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS payment_terms text
+    CHECK (payment_terms IS NULL OR payment_terms IN ('due_on_receipt', 'net_15', 'net_30', 'net_45', 'net_60', 'net_90')),
+  ADD COLUMN IF NOT EXISTS credit_limit numeric(12,2)
+    CHECK (credit_limit IS NULL OR credit_limit >= 0);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS po_number text,
+  ADD COLUMN IF NOT EXISTS payment_terms text,
+  ADD COLUMN IF NOT EXISTS invoice_due_date date;
+
+CREATE INDEX IF NOT EXISTS idx_orders_open_invoices
+  ON orders(organization_id)
+  WHERE payment_method = 'invoice';
+
+CREATE INDEX IF NOT EXISTS idx_orders_po_number
+  ON orders(po_number)
+  WHERE po_number IS NOT NULL;
+
+-- ═══════════════════════════════════════
+-- 2. Credit helpers
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION payment_terms_days(p_terms text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT CASE p_terms
+    WHEN 'due_on_receipt' THEN 0
+    WHEN 'net_15' THEN 15
+    WHEN 'net_30' THEN 30
+    WHEN 'net_45' THEN 45
+    WHEN 'net_60' THEN 60
+    WHEN 'net_90' THEN 90
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION organization_open_invoice_balance(p_organization_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT COALESCE(SUM(total), 0)
+  FROM orders
+  WHERE organization_id = p_organization_id
+    AND payment_method = 'invoice'
+    AND status <> 'cancelled'
+    AND payment_status NOT IN ('captured', 'refunded', 'cancelled', 'failed')
+    AND COALESCE(is_sub_order, false) = false
+    AND COALESCE(is_test_order, false) = false;
+$$;
+
+-- Only reached through get_organization_credit and the orders trigger below
+REVOKE EXECUTE ON FUNCTION organization_open_invoice_balance(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_organization_credit(p_organization_id uuid)
+RETURNS TABLE (
+  payment_terms text,
+  credit_limit numeric,
+  open_balance numeric,
+  available_credit numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NOT (
+    EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin')
+    OR EXISTS (
+      SELECT 1 FROM user_organization_roles uor
+      WHERE uor.user_id = (select auth.uid()) AND uor.organization_id = p_organization_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.sales_rep_id = (select auth.uid())
+        AND osr.organization_id = p_organization_id
+        AND osr.is_active = true
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to view credit for this organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.payment_terms,
+    o.credit_limit,
+    b.balance,
+    CASE WHEN o.credit_limit IS NULL THEN NULL ELSE GREATEST(o.credit_limit - b.balance, 0) END
+  FROM organizations o
+  CROSS JOIN LATERAL (SELECT organization_open_invoice_balance(o.id) AS balance) b
+  WHERE o.id = p_organization_id;
+END;
+$$;
+
+COMMENT ON FUNCTION get_organization_credit IS 'Payment terms, credit limit, open invoice balance and available credit for an organization';
+
+-- ═══════════════════════════════════════
+-- 3. Invoice orders
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION enforce_invoice_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_org organizations;
+  v_available numeric;
+  v_source orders;
+BEGIN
+  IF NEW.payment_method IS DISTINCT FROM 'invoice' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Items split off an invoice order stay on that order's PO and terms. A
+  -- backorder moves its amount off the original (marked partial by the
+  -- split), and a vendor sub-order is a copy its parent still carries, so
+  -- neither is new credit.
+  SELECT * INTO v_source
+  FROM orders
+  WHERE id = COALESCE(NEW.split_from_order_id, NEW.parent_order_id)
+    AND organization_id = NEW.organization_id
+    AND payment_method = 'invoice';
+
+  IF FOUND AND (
+    (NEW.split_from_order_id IS NOT NULL AND v_source.order_type = 'partial')
+    OR (COALESCE(NEW.is_sub_order, false) AND NEW.total <= v_source.total)
+  ) THEN
+    NEW.po_number := v_source.po_number;
+    NEW.payment_terms := v_source.payment_terms;
+    NEW.invoice_due_date := v_source.invoice_due_date;
+    NEW.payment_status := 'pending';
+    RETURN NEW;
+  END IF;
+
+  IF btrim(COALESCE(NEW.po_number, '')) = '' THEN
+    RAISE EXCEPTION 'A PO number is required to pay by invoice';
+  END IF;
+  NEW.po_number := btrim(NEW.po_number);
+
+  SELECT * INTO v_org FROM organizations WHERE id = NEW.organization_id FOR UPDATE;
+  IF NOT FOUND OR v_org.payment_terms IS NULL THEN
+    RAISE EXCEPTION 'This organization is not set up to pay by invoice';
+  END IF;
+
+  NEW.payment_terms := v_org.payment_terms;
+  NEW.invoice_due_date := CURRENT_DATE + payment_terms_days(v_org.payment_terms);
+  NEW.payment_status := 'pending';
+
+  IF v_org.credit_limit IS NOT NULL THEN
+    v_available := GREATEST(v_org.credit_limit - organization_open_invoice_balance(v_org.id), 0);
+    IF NEW.total > v_available THEN
+      RAISE EXCEPTION 'Order total $% exceeds the available credit of $%',
+        round(NEW.total, 2), round(v_available, 2);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_invoice_terms
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_invoice_terms();
+
+-- Sales reps may edit their organizations, but not extend them credit.
+-- Service-role jobs (no auth.uid()) are let through.
+CREATE OR REPLACE FUNCTION protect_organization_credit_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF (NEW.payment_terms IS DISTINCT FROM OLD.payment_terms OR NEW.credit_limit IS DISTINCT FROM OLD.credit_limit)
+     AND (select auth.uid()) IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change payment terms or credit limits';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_organization_credit_terms
+  BEFORE UPDATE OF payment_terms, credit_limit ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_organization_credit_terms();
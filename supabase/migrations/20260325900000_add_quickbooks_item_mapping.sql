@@ -0,0 +1,30 @@
+/*
+  # QuickBooks item mapping for products
+
+  Invoices used to put every line on the generic "Services" item, which left
+  QuickBooks sales-by-item reports empty. Each product is now created or
+  updated as its own QuickBooks item, and the mapping is kept on the product.
+
+  1. Changes
+    - `products.quickbooks_item_id` - the QuickBooks Item the product maps to
+    - `products.quickbooks_item_type` - Inventory for products whose stock is
+      tracked in inventory_levels, NonInventory otherwise; QuickBooks does not
+      allow the type to change once the item exists
+    - `products.quickbooks_synced_at` - when the item was last pushed
+
+  2. Notes
+    - Item syncs are logged to `quickbooks_sync_log` with entity_type 'item'
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS quickbooks_item_id text,
+  ADD COLUMN IF NOT EXISTS quickbooks_item_type text
+    CHECK (quickbooks_item_type IS NULL OR quickbooks_item_type IN ('Inventory', 'NonInventory')),
+  ADD COLUMN IF NOT EXISTS quickbooks_synced_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_quickbooks_item_id
+  ON products(quickbooks_item_id)
+  WHERE quickbooks_item_id IS NOT NULL;
+
+COMMENT ON COLUMN products.quickbooks_item_id IS
+  'QuickBooks Item ID referenced by invoice lines for this product.';
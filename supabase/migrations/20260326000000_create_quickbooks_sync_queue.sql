@@ -0,0 +1,254 @@
+/*
+  # Durable QuickBooks sync queue
+
+  QuickBooks calls used to run only inline from the browser, and a failure
+  was only logged. Work that must reach QuickBooks is now queued here and
+  processed server-side by the quickbooks-sync-worker Netlify function,
+  which retries with exponential backoff.
+
+  1. New Tables
+    - `quickbooks_sync_jobs`
+      - `job_type` - customer (push an organization), invoice (invoice an
+        order), payment (apply a payment recorded in QuickBooks, queued by the
+        quickbooks-webhook function) or refund (retry a Payments API refund)
+      - `idempotency_key` - unique per unit of work, so enqueueing the same
+        work twice is a no-op; invoices send it as the `requestid` and
+        refunds as the Payments API Request-Id, so QuickBooks never creates
+        a retried invoice or refund twice
+      - `status` - pending -> processing -> success, or retry (waiting for
+        `next_attempt_at`) until `max_attempts`, then failed; admins may
+        cancel a job
+      - `attempts`, `last_error`, `quickbooks_id`, `locked_at`
+
+  2. Views
+    - `quickbooks_sync_dead_letters` - failed jobs awaiting an admin
+
+  3. Functions
+    - `quickbooks_sync_backoff` - 1, 2, 4 ... minutes, capped at 6 hours
+    - `queue_quickbooks_sync_job` - internal enqueue used by triggers
+    - `enqueue_quickbooks_sync_job` - admin enqueue from the app
+    - `claim_quickbooks_sync_jobs`, `finish_quickbooks_sync_job` - used by
+      the worker with the service role only
+
+  4. Triggers
+    - `queue_invoice_for_terms_order` - orders paid by invoice get their
+      QuickBooks invoice from the queue, since customers cannot call the
+      accounting API
+
+  5. Security
+    - Admins can read and update jobs (retry or cancel); nobody else can
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Table
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS quickbooks_sync_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type text NOT NULL CHECK (job_type IN ('customer', 'invoice', 'payment', 'refund')),
+  entity_id text NOT NULL,
+  idempotency_key text NOT NULL UNIQUE,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'retry', 'success', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 8 CHECK (max_attempts > 0),
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  quickbooks_id text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_quickbooks_sync_jobs_due
+  ON quickbooks_sync_jobs(next_attempt_at)
+  WHERE status IN ('pending', 'retry');
+
+CREATE INDEX IF NOT EXISTS idx_quickbooks_sync_jobs_entity
+  ON quickbooks_sync_jobs(job_type, entity_id);
+
+CREATE OR REPLACE VIEW quickbooks_sync_dead_letters
+WITH (security_invoker = true) AS
+SELECT id, job_type, entity_id, idempotency_key, payload, attempts, max_attempts,
+       last_error, created_at, updated_at
+FROM quickbooks_sync_jobs
+WHERE status = 'failed';
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE quickbooks_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sync jobs"
+  ON quickbooks_sync_jobs FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+-- Retrying or cancelling; jobs are created through the enqueue functions
+CREATE POLICY "Admins can update sync jobs"
+  ON quickbooks_sync_jobs FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin')
+    AND status IN ('pending', 'cancelled')
+  );
+
+-- ═══════════════════════════════════════
+-- 3. Enqueue
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION quickbooks_sync_backoff(p_attempts integer)
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT make_interval(secs => LEAST(60 * power(2, GREATEST(p_attempts, 1) - 1), 6 * 60 * 60));
+$$;
+
+CREATE OR REPLACE FUNCTION queue_quickbooks_sync_job(
+  p_job_type text,
+  p_entity_id text,
+  p_idempotency_key text,
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  INSERT INTO quickbooks_sync_jobs (job_type, entity_id, idempotency_key, payload, created_by)
+  VALUES (p_job_type, p_entity_id, p_idempotency_key, COALESCE(p_payload, '{}'::jsonb), (select auth.uid()))
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM quickbooks_sync_jobs WHERE idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_quickbooks_sync_job(text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enqueue_quickbooks_sync_job(
+  p_job_type text,
+  p_entity_id text,
+  p_idempotency_key text,
+  p_payload jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can queue QuickBooks sync jobs';
+  END IF;
+
+  RETURN queue_quickbooks_sync_job(p_job_type, p_entity_id, p_idempotency_key, p_payload);
+END;
+$$;
+
+COMMENT ON FUNCTION enqueue_quickbooks_sync_job IS 'Queues QuickBooks work for the sync worker; returns the existing job when the idempotency key is already queued';
+
+-- ═══════════════════════════════════════
+-- 4. Worker
+-- ═══════════════════════════════════════
+-- Claims due jobs, and jobs whose worker died mid-run, counting the attempt
+CREATE OR REPLACE FUNCTION claim_quickbooks_sync_jobs(p_limit integer DEFAULT 10)
+RETURNS SETOF quickbooks_sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE quickbooks_sync_jobs j
+  SET status = 'processing',
+      locked_at = now(),
+      attempts = j.attempts + 1,
+      updated_at = now()
+  WHERE j.id IN (
+    SELECT id FROM quickbooks_sync_jobs
+    WHERE (status IN ('pending', 'retry') AND next_attempt_at <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '15 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finish_quickbooks_sync_job(
+  p_job_id uuid,
+  p_quickbooks_id text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_retryable boolean DEFAULT true
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_job quickbooks_sync_jobs;
+  v_status text;
+BEGIN
+  SELECT * INTO v_job FROM quickbooks_sync_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync job not found';
+  END IF;
+
+  v_status := CASE
+    WHEN p_error IS NULL THEN 'success'
+    WHEN p_retryable AND v_job.attempts < v_job.max_attempts THEN 'retry'
+    ELSE 'failed'
+  END;
+
+  UPDATE quickbooks_sync_jobs
+  SET status = v_status,
+      quickbooks_id = COALESCE(p_quickbooks_id, quickbooks_id),
+      last_error = p_error,
+      locked_at = NULL,
+      next_attempt_at = CASE WHEN v_status = 'retry' THEN now() + quickbooks_sync_backoff(v_job.attempts) ELSE next_attempt_at END,
+      completed_at = CASE WHEN v_status = 'success' THEN now() ELSE completed_at END,
+      updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_quickbooks_sync_jobs(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_quickbooks_sync_job(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- ═══════════════════════════════════════
+-- 5. Invoice-terms orders
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION queue_invoice_for_terms_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.payment_method = 'invoice' AND NOT COALESCE(NEW.is_test_order, false) THEN
+    PERFORM queue_quickbooks_sync_job('invoice', NEW.id::text, 'invoice:' || NEW.id, '{}'::jsonb);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_invoice_for_terms_order
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_invoice_for_terms_order();
@@ -0,0 +1,64 @@
+/*
+  # Commission adjustments ledger
+
+  Refunds could only cancel a whole commission, and only before it was paid.
+  A partial refund, or any refund after payout, left the rep overpaid.
+  Refunds and returns now write negative adjustment entries, prorated to the
+  refunded lines through commission_line_items, and outstanding adjustments
+  are netted against the payee's next payout.
+
+  1. New Tables
+    - `commission_adjustments`
+      - one row per payee (sales rep, distributor or company rep) per event,
+        so each payee's adjustments can be netted against their own payout
+      - `amount` - negative for clawbacks; positive manual corrections allowed
+      - `fraction` - share of the payee's commission that was clawed back
+      - `line_details` - per-line proration used to reach the amount
+      - `status` - pending until netted into a payout (applied) or voided
+        (cancelled); `payment_reference` records which payout absorbed it
+
+  2. Security
+    - Admins manage adjustments
+    - Payees can view their own
+*/
+
+CREATE TABLE IF NOT EXISTS commission_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  commission_id uuid NOT NULL REFERENCES commissions(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  payee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payee_role text NOT NULL CHECK (payee_role IN ('sales_rep', 'distributor', 'company_rep')),
+  amount numeric(10,2) NOT NULL CHECK (amount <> 0),
+  fraction numeric(7,6),
+  source text NOT NULL CHECK (source IN ('refund', 'return', 'manual')),
+  refund_amount numeric(10,2),
+  reason text,
+  line_details jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'cancelled')),
+  applied_at timestamptz,
+  payment_reference text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_adjustments_commission ON commission_adjustments(commission_id);
+CREATE INDEX IF NOT EXISTS idx_commission_adjustments_order ON commission_adjustments(order_id);
+CREATE INDEX IF NOT EXISTS idx_commission_adjustments_pending
+  ON commission_adjustments(payee_id)
+  WHERE status = 'pending';
+
+ALTER TABLE commission_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage commission adjustments"
+  ON commission_adjustments FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view own commission adjustments"
+  ON commission_adjustments FOR SELECT
+  TO authenticated
+  USING (payee_id = (select auth.uid()));
+
+COMMENT ON TABLE commission_adjustments IS
+  'Per-payee commission clawbacks and corrections, netted against the payee''s next payout.';
@@ -0,0 +1,419 @@
+/*
+  # Commission payout runs
+
+  Paying commissions used to mean flipping statuses with a free-text
+  reference. A payout run now takes the approved commissions for a period,
+  groups them by payee (sales rep, distributor, company rep) and locks them
+  so they can't be paid twice or pulled into another run. Each payee gets a
+  statement snapshot and the run exports as a NACHA or CSV payment file.
+
+  1. New Tables
+    - `commission_payout_runs` - numbered PAY-00001...; locked -> paid, or
+      cancelled, which releases everything it locked
+    - `commission_payouts` - one per payee and role in a run, with gross,
+      netted adjustments (see commission_adjustments) and net amounts
+    - `commission_payout_items` - the commissions behind a payout, with the
+      order and line items captured at lock time for the statement
+    - `payee_bank_accounts` - direct deposit details used for the NACHA file
+
+  2. Changes
+    - `commissions.payout_run_id` - run the commission is locked into
+    - `commission_adjustments.payout_id` - payout an adjustment is netted into
+    - `site_settings` - ACH originator settings under the `payouts` category
+
+  3. Functions
+    - `create_commission_payout_run` - locks approved commissions for a
+      period, builds the payouts and nets pending adjustments oldest first,
+      stopping before a payout would go negative (the rest carry forward)
+    - `mark_commission_payout_run_paid` - marks the run's commissions paid
+      and its adjustments applied
+    - `cancel_commission_payout_run` - releases a run that hasn't been paid
+
+  4. Security
+    - Admins manage runs and bank accounts
+    - Payees can view their own payouts, statement lines and bank account
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE SEQUENCE IF NOT EXISTS commission_payout_run_seq;
+
+CREATE TABLE IF NOT EXISTS commission_payout_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_number text NOT NULL UNIQUE DEFAULT 'PAY-' || lpad(nextval('commission_payout_run_seq')::text, 5, '0'),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL DEFAULT 'locked' CHECK (status IN ('locked', 'paid', 'cancelled')),
+  total_gross numeric(12,2) NOT NULL DEFAULT 0,
+  total_adjustments numeric(12,2) NOT NULL DEFAULT 0,
+  total_net numeric(12,2) NOT NULL DEFAULT 0,
+  payee_count integer NOT NULL DEFAULT 0,
+  commission_count integer NOT NULL DEFAULT 0,
+  payment_reference text,
+  notes text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  cancelled_at timestamptz,
+  CONSTRAINT chk_payout_run_period CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_payout_runs_status ON commission_payout_runs(status);
+
+CREATE TABLE IF NOT EXISTS commission_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES commission_payout_runs(id) ON DELETE CASCADE,
+  payee_id uuid NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  payee_role text NOT NULL CHECK (payee_role IN ('sales_rep', 'distributor', 'company_rep')),
+  payee_name text NOT NULL,
+  payee_email text,
+  gross_amount numeric(12,2) NOT NULL DEFAULT 0,
+  adjustment_amount numeric(12,2) NOT NULL DEFAULT 0,
+  net_amount numeric(12,2) NOT NULL DEFAULT 0,
+  commission_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (run_id, payee_id, payee_role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_payouts_payee ON commission_payouts(payee_id);
+
+CREATE TABLE IF NOT EXISTS commission_payout_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id uuid NOT NULL REFERENCES commission_payouts(id) ON DELETE CASCADE,
+  commission_id uuid NOT NULL REFERENCES commissions(id) ON DELETE RESTRICT,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  order_number text,
+  order_date timestamptz,
+  customer_name text,
+  order_total numeric(12,2),
+  amount numeric(12,2) NOT NULL,
+  -- [{ product_name, quantity, unit_price, commission }] scaled to this payee's share
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_payout_items_payout ON commission_payout_items(payout_id);
+
+CREATE TABLE IF NOT EXISTS payee_bank_accounts (
+  profile_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  account_holder_name text NOT NULL,
+  routing_number text NOT NULL CHECK (routing_number ~ '^[0-9]{9}$'),
+  account_number text NOT NULL CHECK (account_number ~ '^[0-9]{4,17}$'),
+  account_type text NOT NULL DEFAULT 'checking' CHECK (account_type IN ('checking', 'savings')),
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON COLUMN payee_bank_accounts.account_number IS 'Direct deposit account number (stored as text, should be encrypted at rest)';
+
+ALTER TABLE commissions
+  ADD COLUMN IF NOT EXISTS payout_run_id uuid REFERENCES commission_payout_runs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_commissions_payout_run
+  ON commissions(payout_run_id)
+  WHERE payout_run_id IS NOT NULL;
+
+ALTER TABLE commission_adjustments
+  ADD COLUMN IF NOT EXISTS payout_id uuid REFERENCES commission_payouts(id) ON DELETE SET NULL;
+
+-- ═══════════════════════════════════════
+-- 2. Security
+-- ═══════════════════════════════════════
+ALTER TABLE commission_payout_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_payout_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payee_bank_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payout runs"
+  ON commission_payout_runs FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view runs they are paid in"
+  ON commission_payout_runs FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM commission_payouts p
+    WHERE p.run_id = commission_payout_runs.id AND p.payee_id = (select auth.uid())
+  ));
+
+CREATE POLICY "Admins can view payouts"
+  ON commission_payouts FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view own payouts"
+  ON commission_payouts FOR SELECT
+  TO authenticated
+  USING (payee_id = (select auth.uid()));
+
+CREATE POLICY "Admins can view payout items"
+  ON commission_payout_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view own payout items"
+  ON commission_payout_items FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM commission_payouts p
+    WHERE p.id = commission_payout_items.payout_id AND p.payee_id = (select auth.uid())
+  ));
+
+CREATE POLICY "Admins can manage payee bank accounts"
+  ON payee_bank_accounts FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view own bank account"
+  ON payee_bank_accounts FOR SELECT
+  TO authenticated
+  USING (profile_id = (select auth.uid()));
+
+-- ═══════════════════════════════════════
+-- 3. Creating a run
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION create_commission_payout_run(
+  p_period_start date,
+  p_period_end date,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_run_id uuid;
+  v_payee record;
+  v_payout_id uuid;
+  v_adjustment record;
+  v_net numeric;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create payout runs';
+  END IF;
+  IF p_period_start IS NULL OR p_period_end IS NULL OR p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Choose a valid payout period';
+  END IF;
+
+  -- Lock the eligible commissions so a concurrent run or mark-paid can't take them
+  PERFORM 1 FROM commissions
+  WHERE status = 'approved'
+    AND payout_run_id IS NULL
+    AND deleted_at IS NULL
+    AND created_at::date BETWEEN p_period_start AND p_period_end
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No approved commissions to pay between % and %', p_period_start, p_period_end;
+  END IF;
+
+  INSERT INTO commission_payout_runs (period_start, period_end, notes)
+  VALUES (p_period_start, p_period_end, NULLIF(trim(p_notes), ''))
+  RETURNING id INTO v_run_id;
+
+  UPDATE commissions
+  SET payout_run_id = v_run_id
+  WHERE status = 'approved'
+    AND payout_run_id IS NULL
+    AND deleted_at IS NULL
+    AND created_at::date BETWEEN p_period_start AND p_period_end;
+
+  FOR v_payee IN
+    WITH shares AS (
+      SELECT c.id AS commission_id, 'sales_rep'::text AS payee_role, c.sales_rep_id AS payee_id,
+             COALESCE(c.sales_rep_commission, c.commission_amount) AS amount
+      FROM commissions c WHERE c.payout_run_id = v_run_id
+      UNION ALL
+      SELECT c.id, 'distributor', d.profile_id, c.distributor_commission
+      FROM commissions c JOIN distributors d ON d.id = c.distributor_id
+      WHERE c.payout_run_id = v_run_id
+      UNION ALL
+      SELECT c.id, 'company_rep', c.company_rep_id, c.company_rep_commission
+      FROM commissions c WHERE c.payout_run_id = v_run_id
+    )
+    SELECT s.payee_id, s.payee_role, SUM(s.amount) AS gross, COUNT(*) AS commission_count
+    FROM shares s
+    WHERE s.payee_id IS NOT NULL AND COALESCE(s.amount, 0) > 0
+    GROUP BY s.payee_id, s.payee_role
+  LOOP
+    INSERT INTO commission_payouts (run_id, payee_id, payee_role, payee_name, payee_email, gross_amount, commission_count)
+    SELECT v_run_id, v_payee.payee_id, v_payee.payee_role,
+           COALESCE(
+             CASE WHEN v_payee.payee_role = 'distributor'
+               THEN (SELECT d.name FROM distributors d WHERE d.profile_id = v_payee.payee_id ORDER BY d.created_at LIMIT 1)
+             END,
+             NULLIF(p.full_name, ''),
+             p.email
+           ),
+           p.email, v_payee.gross, v_payee.commission_count
+    FROM profiles p WHERE p.id = v_payee.payee_id
+    RETURNING id INTO v_payout_id;
+
+    INSERT INTO commission_payout_items (
+      payout_id, commission_id, order_id, order_number, order_date, customer_name, order_total, amount, line_items
+    )
+    SELECT v_payout_id, share.id, share.order_id, o.order_number, o.created_at, org.name, share.order_total, share.amount,
+           COALESCE((
+             SELECT jsonb_agg(jsonb_build_object(
+                      'product_name', li.product_name,
+                      'quantity', li.quantity,
+                      'unit_price', li.unit_price,
+                      'commission', round(li.item_commission * share.amount / NULLIF(totals.total, 0), 2)
+                    ) ORDER BY li.created_at)
+             FROM commission_line_items li,
+                  (SELECT SUM(item_commission) AS total FROM commission_line_items WHERE commission_id = share.id) totals
+             WHERE li.commission_id = share.id
+           ), '[]'::jsonb)
+    FROM (
+      SELECT c.id, c.order_id, c.order_total,
+             CASE v_payee.payee_role
+               WHEN 'sales_rep' THEN COALESCE(c.sales_rep_commission, c.commission_amount)
+               WHEN 'distributor' THEN c.distributor_commission
+               ELSE c.company_rep_commission
+             END AS amount
+      FROM commissions c
+      LEFT JOIN distributors d ON d.id = c.distributor_id
+      WHERE c.payout_run_id = v_run_id
+        AND CASE v_payee.payee_role
+              WHEN 'sales_rep' THEN c.sales_rep_id
+              WHEN 'distributor' THEN d.profile_id
+              ELSE c.company_rep_id
+            END = v_payee.payee_id
+    ) share
+    JOIN orders o ON o.id = share.order_id
+    LEFT JOIN organizations org ON org.id = o.organization_id
+    WHERE COALESCE(share.amount, 0) > 0;
+
+    -- Net pending adjustments oldest first; stop before the payout would go
+    -- negative and leave the rest for the next run
+    v_net := v_payee.gross;
+    FOR v_adjustment IN
+      SELECT id, amount FROM commission_adjustments
+      WHERE payee_id = v_payee.payee_id
+        AND payee_role = v_payee.payee_role
+        AND status = 'pending'
+        AND payout_id IS NULL
+        AND created_at::date <= p_period_end
+      ORDER BY created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_net + v_adjustment.amount < 0;
+      v_net := v_net + v_adjustment.amount;
+      UPDATE commission_adjustments SET payout_id = v_payout_id WHERE id = v_adjustment.id;
+    END LOOP;
+
+    UPDATE commission_payouts
+    SET adjustment_amount = v_net - v_payee.gross,
+        net_amount = v_net
+    WHERE id = v_payout_id;
+  END LOOP;
+
+  UPDATE commission_payout_runs r
+  SET total_gross = COALESCE(t.gross, 0),
+      total_adjustments = COALESCE(t.adjustments, 0),
+      total_net = COALESCE(t.net, 0),
+      payee_count = COALESCE(t.payees, 0),
+      commission_count = (SELECT COUNT(*) FROM commissions WHERE payout_run_id = v_run_id)
+  FROM (
+    SELECT SUM(gross_amount) AS gross, SUM(adjustment_amount) AS adjustments,
+           SUM(net_amount) AS net, COUNT(*) AS payees
+    FROM commission_payouts WHERE run_id = v_run_id
+  ) t
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 4. Paying or cancelling a run
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION mark_commission_payout_run_paid(
+  p_run_id uuid,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_run commission_payout_runs;
+  v_reference text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can pay payout runs';
+  END IF;
+
+  SELECT * INTO v_run FROM commission_payout_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout run not found';
+  END IF;
+  IF v_run.status <> 'locked' THEN
+    RAISE EXCEPTION 'Payout run % is already %', v_run.run_number, v_run.status;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(trim(p_payment_reference), ''), v_run.run_number);
+
+  UPDATE commissions
+  SET status = 'paid', paid_at = now(), payment_reference = v_reference
+  WHERE payout_run_id = p_run_id AND status = 'approved';
+
+  UPDATE commission_adjustments
+  SET status = 'applied', applied_at = now(), payment_reference = v_reference
+  WHERE status = 'pending'
+    AND payout_id IN (SELECT id FROM commission_payouts WHERE run_id = p_run_id);
+
+  UPDATE commission_payout_runs
+  SET status = 'paid', paid_at = now(), payment_reference = v_reference
+  WHERE id = p_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_commission_payout_run(p_run_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_run commission_payout_runs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can cancel payout runs';
+  END IF;
+
+  SELECT * INTO v_run FROM commission_payout_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout run not found';
+  END IF;
+  IF v_run.status <> 'locked' THEN
+    RAISE EXCEPTION 'Payout run % is already %', v_run.run_number, v_run.status;
+  END IF;
+
+  UPDATE commissions SET payout_run_id = NULL WHERE payout_run_id = p_run_id;
+
+  UPDATE commission_adjustments
+  SET payout_id = NULL
+  WHERE status = 'pending'
+    AND payout_id IN (SELECT id FROM commission_payouts WHERE run_id = p_run_id);
+
+  UPDATE commission_payout_runs
+  SET status = 'cancelled', cancelled_at = now()
+  WHERE id = p_run_id;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 5. ACH originator settings
+-- ═══════════════════════════════════════
+INSERT INTO site_settings (key, value, category, label, description) VALUES
+  ('payout_company_name', '"HealthSpan360"', 'payouts', 'ACH Company Name', 'Company name on ACH payouts (16 characters max)'),
+  ('payout_company_id', '""', 'payouts', 'ACH Company ID', 'Company identification from your bank, usually 1 followed by your EIN'),
+  ('payout_odfi_routing', '""', 'payouts', 'Originating Bank Routing Number', '9-digit routing number of the bank sending payouts'),
+  ('payout_odfi_name', '""', 'payouts', 'Originating Bank Name', 'Name of the bank sending payouts (23 characters max)')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,146 @@
+/*
+  # Year-end 1099-NEC report
+
+  Distributors already carry W-9 details (tax_id, legal_name,
+  tax_classification, w9_status) but nothing reported on them. This adds
+  the year-end summary behind the admin 1099-NEC screen: commissions paid
+  to each payee during a calendar year, net of clawbacks netted into
+  payments that year, alongside the W-9 on file for that payee.
+
+  1. Functions
+    - `get_1099_nec_summary(p_year)` - one row per payee profile. Sales
+      rep, distributor and company rep shares are combined, since an
+      independent rep is paid under both roles. W-9 details come from the
+      distributor record owned by the payee (independent reps have one too)
+
+  2. Changes
+    - `site_settings` - payer and transmitter details for the IRS file,
+      under the `tax` category
+
+  3. Security
+    - Admin only; the summary includes taxpayer identification numbers
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Year-end summary
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION get_1099_nec_summary(p_year integer)
+RETURNS TABLE (
+  payee_id uuid,
+  payee_name text,
+  payee_email text,
+  payee_roles text[],
+  distributor_id uuid,
+  distributor_class text,
+  legal_name text,
+  business_name text,
+  tax_id text,
+  tax_id_type text,
+  tax_classification text,
+  w9_status text,
+  address text,
+  city text,
+  state text,
+  zip text,
+  commission_total numeric,
+  adjustment_total numeric,
+  commission_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_start timestamptz := make_date(p_year, 1, 1);
+  v_end timestamptz := make_date(p_year + 1, 1, 1);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the 1099 report';
+  END IF;
+
+  RETURN QUERY
+  WITH paid AS (
+    SELECT c.* FROM commissions c
+    WHERE c.status = 'paid'
+      AND c.deleted_at IS NULL
+      AND c.paid_at >= v_start AND c.paid_at < v_end
+  ),
+  shares AS (
+    SELECT p.id AS commission_id, 'sales_rep'::text AS payee_role, p.sales_rep_id AS payee_id,
+           COALESCE(p.sales_rep_commission, p.commission_amount) AS amount
+    FROM paid p
+    UNION ALL
+    SELECT p.id, 'distributor', d.profile_id, p.distributor_commission
+    FROM paid p JOIN distributors d ON d.id = p.distributor_id
+    UNION ALL
+    SELECT p.id, 'company_rep', p.company_rep_id, p.company_rep_commission
+    FROM paid p
+  ),
+  totals AS (
+    SELECT s.payee_id,
+           array_agg(DISTINCT s.payee_role) AS payee_roles,
+           SUM(s.amount) AS commission_total,
+           COUNT(DISTINCT s.commission_id) AS commission_count
+    FROM shares s
+    WHERE s.payee_id IS NOT NULL AND COALESCE(s.amount, 0) > 0
+    GROUP BY s.payee_id
+  ),
+  adjustments AS (
+    SELECT a.payee_id, SUM(a.amount) AS adjustment_total
+    FROM commission_adjustments a
+    WHERE a.status = 'applied'
+      AND a.applied_at >= v_start AND a.applied_at < v_end
+    GROUP BY a.payee_id
+  )
+  SELECT t.payee_id,
+         COALESCE(NULLIF(pr.full_name, ''), pr.email),
+         pr.email,
+         t.payee_roles,
+         w9.id,
+         w9.distributor_class,
+         w9.legal_name,
+         w9.business_name,
+         w9.tax_id,
+         w9.tax_id_type,
+         w9.tax_classification,
+         w9.w9_status,
+         w9.address,
+         w9.city,
+         w9.state,
+         w9.zip,
+         t.commission_total,
+         COALESCE(a.adjustment_total, 0),
+         t.commission_count
+  FROM totals t
+  JOIN profiles pr ON pr.id = t.payee_id
+  LEFT JOIN adjustments a ON a.payee_id = t.payee_id
+  LEFT JOIN LATERAL (
+    -- Prefer the payee's own (independent) record, then the one with a W-9 on file
+    SELECT d.* FROM distributors d
+    WHERE d.profile_id = t.payee_id
+    ORDER BY (d.distributor_class = 'independent') DESC,
+             (d.w9_status = 'verified') DESC,
+             (d.tax_id IS NOT NULL) DESC,
+             d.created_at
+    LIMIT 1
+  ) w9 ON true
+  ORDER BY t.commission_total DESC;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 2. Payer and transmitter settings
+-- ═══════════════════════════════════════
+INSERT INTO site_settings (key, value, category, label, description) VALUES
+  ('tax_payer_name', '"HealthSpan360"', 'tax', 'Payer Legal Name', 'Legal name of the company issuing 1099s'),
+  ('tax_payer_tin', '""', 'tax', 'Payer EIN', 'Employer identification number, 9 digits'),
+  ('tax_payer_address', '""', 'tax', 'Payer Street Address', 'Mailing address printed on 1099 statements'),
+  ('tax_payer_city', '""', 'tax', 'Payer City', ''),
+  ('tax_payer_state', '""', 'tax', 'Payer State', 'Two-letter state code'),
+  ('tax_payer_zip', '""', 'tax', 'Payer ZIP', ''),
+  ('tax_payer_phone', '""', 'tax', 'Payer Phone', 'Phone number printed on 1099 statements'),
+  ('tax_transmitter_control_code', '""', 'tax', 'IRS Transmitter Control Code', '5-character TCC issued by the IRS for FIRE filing'),
+  ('tax_contact_name', '""', 'tax', 'Filing Contact Name', 'Person the IRS should contact about the file'),
+  ('tax_contact_email', '""', 'tax', 'Filing Contact Email', '')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,455 @@
+/*
+  # Tiered commission plans
+
+  Commission rules in distributor_commission_rules are flat rates per
+  product or category. A commission plan is assigned to a sales rep for a
+  date range and layers quota-based pay on top of those rules:
+
+    - Tiers: marginal rates on quota attainment within the plan's period,
+      e.g. 5% up to $50k a quarter and 7% above it. When a plan has tiers,
+      the tiered amount replaces the rep's share from the rules
+    - New-customer bonus: flat or percent of the order, paid on the first
+      commissioned order from an organization
+    - SPIFFs: per-unit or percent bonuses on specific products for a date
+      range
+
+  1. New Tables
+    - `commission_plans` - draft -> active -> archived
+    - `commission_plan_tiers` - threshold and rate; the first tier should
+      start at 0
+    - `commission_plan_spiffs`
+    - `commission_plan_assignments` - plan per sales rep and date range
+
+  2. Changes
+    - `commissions.plan_id`, `plan_basis`, `plan_details` - the plan that
+      was applied and its breakdown, including the rule-based share it
+      replaced
+
+  3. Functions
+    - `commission_plan_basis` - quota basis (gross sales or margin) of a
+      commission's line details
+    - `evaluate_commission_plan` - the plan result for one commission;
+      shared by the trigger and the preview so both agree
+    - `apply_commission_plan` trigger - runs when the order trigger
+      (calculate_commission_for_order) calculates or recalculates a
+      commission
+    - `preview_commission_plan` - what-if: recalculates a period under a
+      plan, including drafts, without writing anything
+
+  4. Security
+    - Admins manage plans; reps can view the plans assigned to them
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS commission_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'archived')),
+  quota_period text NOT NULL DEFAULT 'quarter' CHECK (quota_period IN ('month', 'quarter', 'year')),
+  quota_basis text NOT NULL DEFAULT 'gross_sales' CHECK (quota_basis IN ('gross_sales', 'margin')),
+  new_customer_bonus_type text CHECK (new_customer_bonus_type IN ('flat', 'percent')),
+  new_customer_bonus_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (new_customer_bonus_amount >= 0),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS commission_plan_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES commission_plans(id) ON DELETE CASCADE,
+  threshold numeric(12,2) NOT NULL DEFAULT 0 CHECK (threshold >= 0),
+  rate numeric(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  UNIQUE (plan_id, threshold)
+);
+
+CREATE TABLE IF NOT EXISTS commission_plan_spiffs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES commission_plans(id) ON DELETE CASCADE,
+  product_id integer NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  amount_type text NOT NULL DEFAULT 'per_unit' CHECK (amount_type IN ('per_unit', 'percent')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE TABLE IF NOT EXISTS commission_plan_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES commission_plans(id) ON DELETE CASCADE,
+  sales_rep_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_plan_tiers_plan ON commission_plan_tiers(plan_id);
+CREATE INDEX IF NOT EXISTS idx_commission_plan_spiffs_plan ON commission_plan_spiffs(plan_id);
+CREATE INDEX IF NOT EXISTS idx_commission_plan_assignments_rep ON commission_plan_assignments(sales_rep_id, starts_on);
+
+ALTER TABLE commissions
+  ADD COLUMN IF NOT EXISTS plan_id uuid REFERENCES commission_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS plan_basis numeric(12,2),
+  ADD COLUMN IF NOT EXISTS plan_details jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_commissions_rep_created ON commissions(sales_rep_id, created_at);
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE commission_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_plan_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_plan_spiffs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_plan_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage commission plans"
+  ON commission_plans FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Reps can view their assigned plans"
+  ON commission_plans FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM commission_plan_assignments a
+    WHERE a.plan_id = commission_plans.id AND a.sales_rep_id = (select auth.uid())
+  ));
+
+CREATE POLICY "Admins can manage commission plan tiers"
+  ON commission_plan_tiers FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Reps can view tiers of their plans"
+  ON commission_plan_tiers FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM commission_plan_assignments a
+    WHERE a.plan_id = commission_plan_tiers.plan_id AND a.sales_rep_id = (select auth.uid())
+  ));
+
+CREATE POLICY "Admins can manage commission plan spiffs"
+  ON commission_plan_spiffs FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Reps can view spiffs of their plans"
+  ON commission_plan_spiffs FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM commission_plan_assignments a
+    WHERE a.plan_id = commission_plan_spiffs.plan_id AND a.sales_rep_id = (select auth.uid())
+  ));
+
+CREATE POLICY "Admins can manage commission plan assignments"
+  ON commission_plan_assignments FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Reps can view own plan assignments"
+  ON commission_plan_assignments FOR SELECT
+  TO authenticated
+  USING (sales_rep_id = (select auth.uid()));
+
+-- ═══════════════════════════════════════
+-- 3. Evaluation
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION commission_plan_basis(p_quota_basis text, p_details jsonb)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM(
+    CASE p_quota_basis
+      WHEN 'margin' THEN COALESCE((item->>'margin')::numeric, 0)
+      ELSE COALESCE((item->>'price')::numeric, 0) * COALESCE((item->>'quantity')::numeric, 1)
+    END
+  ), 0)
+  FROM jsonb_array_elements(COALESCE(p_details, '[]'::jsonb)) AS item;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_commission_plan(
+  p_plan_id uuid,
+  p_sales_rep_id uuid,
+  p_organization_id uuid,
+  p_as_of timestamptz,
+  p_details jsonb,
+  p_base_rep_commission numeric,
+  p_commission_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_plan commission_plans;
+  v_period_start timestamptz;
+  v_basis numeric;
+  v_prior numeric;
+  v_tier record;
+  v_has_tiers boolean := false;
+  v_from numeric;
+  v_to numeric;
+  v_amount numeric;
+  v_tiers jsonb := '[]'::jsonb;
+  v_tier_total numeric := 0;
+  v_is_new_customer boolean := false;
+  v_bonus numeric := 0;
+  v_spiff record;
+  v_spiffs jsonb := '[]'::jsonb;
+  v_spiff_total numeric := 0;
+  v_rep_commission numeric;
+BEGIN
+  SELECT * INTO v_plan FROM commission_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_period_start := date_trunc(v_plan.quota_period, p_as_of);
+  v_basis := commission_plan_basis(v_plan.quota_basis, p_details);
+
+  -- Attainment from the rep's earlier commissions in the same quota period
+  SELECT COALESCE(SUM(commission_plan_basis(v_plan.quota_basis, c.margin_details)), 0)
+  INTO v_prior
+  FROM commissions c
+  WHERE c.sales_rep_id = p_sales_rep_id
+    AND c.status <> 'cancelled'
+    AND c.deleted_at IS NULL
+    AND c.created_at >= v_period_start
+    AND c.created_at < p_as_of
+    AND c.id IS DISTINCT FROM p_commission_id;
+
+  -- Tiers are marginal: each rate applies to the part of this order that
+  -- falls inside its band of attainment
+  FOR v_tier IN
+    SELECT t.threshold, t.rate, LEAD(t.threshold) OVER (ORDER BY t.threshold) AS next_threshold
+    FROM commission_plan_tiers t
+    WHERE t.plan_id = p_plan_id
+    ORDER BY t.threshold
+  LOOP
+    v_has_tiers := true;
+    v_from := GREATEST(v_prior, v_tier.threshold);
+    v_to := LEAST(v_prior + v_basis, COALESCE(v_tier.next_threshold, v_prior + v_basis));
+    IF v_to > v_from THEN
+      v_amount := round((v_to - v_from) * v_tier.rate / 100, 2);
+      v_tier_total := v_tier_total + v_amount;
+      v_tiers := v_tiers || jsonb_build_object(
+        'threshold', v_tier.threshold,
+        'rate', v_tier.rate,
+        'basis', v_to - v_from,
+        'amount', v_amount
+      );
+    END IF;
+  END LOOP;
+
+  -- New customer: no earlier commissioned order from the organization
+  IF v_plan.new_customer_bonus_type IS NOT NULL AND p_organization_id IS NOT NULL THEN
+    v_is_new_customer := NOT EXISTS (
+      SELECT 1 FROM commissions c
+      WHERE c.organization_id = p_organization_id
+        AND c.status <> 'cancelled'
+        AND c.deleted_at IS NULL
+        AND c.created_at < p_as_of
+        AND c.id IS DISTINCT FROM p_commission_id
+    );
+    IF v_is_new_customer THEN
+      v_bonus := CASE v_plan.new_customer_bonus_type
+        WHEN 'flat' THEN v_plan.new_customer_bonus_amount
+        ELSE round(v_basis * v_plan.new_customer_bonus_amount / 100, 2)
+      END;
+    END IF;
+  END IF;
+
+  FOR v_spiff IN
+    SELECT s.amount_type, s.amount, item->>'productId' AS product_id, item->>'name' AS name,
+           COALESCE((item->>'quantity')::numeric, 1) AS quantity,
+           COALESCE((item->>'price')::numeric, 0) AS price
+    FROM jsonb_array_elements(COALESCE(p_details, '[]'::jsonb)) AS item
+    JOIN commission_plan_spiffs s
+      ON s.plan_id = p_plan_id
+     AND s.product_id = (item->>'productId')::integer
+     AND p_as_of::date BETWEEN s.starts_on AND s.ends_on
+  LOOP
+    v_amount := CASE v_spiff.amount_type
+      WHEN 'per_unit' THEN round(v_spiff.amount * v_spiff.quantity, 2)
+      ELSE round(v_spiff.price * v_spiff.quantity * v_spiff.amount / 100, 2)
+    END;
+    v_spiff_total := v_spiff_total + v_amount;
+    v_spiffs := v_spiffs || jsonb_build_object(
+      'productId', v_spiff.product_id,
+      'name', v_spiff.name,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  v_rep_commission := CASE WHEN v_has_tiers THEN v_tier_total ELSE COALESCE(p_base_rep_commission, 0) END
+    + v_bonus + v_spiff_total;
+
+  RETURN jsonb_build_object(
+    'plan_id', v_plan.id,
+    'plan_name', v_plan.name,
+    'quota_period', v_plan.quota_period,
+    'quota_basis', v_plan.quota_basis,
+    'period_start', v_period_start,
+    'basis', v_basis,
+    'prior_attainment', v_prior,
+    'base_rep_commission', COALESCE(p_base_rep_commission, 0),
+    'tiered', v_has_tiers,
+    'tiers', v_tiers,
+    'tier_commission', v_tier_total,
+    'new_customer', v_is_new_customer,
+    'new_customer_bonus', v_bonus,
+    'spiffs', v_spiffs,
+    'spiff_total', v_spiff_total,
+    'rep_commission', v_rep_commission
+  );
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 4. Apply the plan when commissions are calculated
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION apply_commission_plan()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_plan_id uuid;
+  v_as_of timestamptz;
+  v_base numeric;
+  v_result jsonb;
+BEGIN
+  IF NEW.sales_rep_id IS NULL OR NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- calculate_commission_for_order upserts on order_id. When the row
+  -- exists, let the insert attempt through untouched and apply the plan on
+  -- the UPDATE it turns into, so the rule-based share is the base
+  IF TG_OP = 'INSERT' AND EXISTS (SELECT 1 FROM commissions c WHERE c.order_id = NEW.order_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only a recalculation changes these; approvals, payouts and soft
+  -- deletes leave the plan result alone
+  IF TG_OP = 'UPDATE'
+     AND NEW.sales_rep_commission IS NOT DISTINCT FROM OLD.sales_rep_commission
+     AND NEW.margin_details IS NOT DISTINCT FROM OLD.margin_details
+     AND NEW.sales_rep_id IS NOT DISTINCT FROM OLD.sales_rep_id THEN
+    RETURN NEW;
+  END IF;
+
+  v_as_of := COALESCE(NEW.created_at, now());
+
+  SELECT a.plan_id INTO v_plan_id
+  FROM commission_plan_assignments a
+  JOIN commission_plans p ON p.id = a.plan_id AND p.status = 'active'
+  WHERE a.sales_rep_id = NEW.sales_rep_id
+    AND v_as_of::date >= a.starts_on
+    AND (a.ends_on IS NULL OR v_as_of::date <= a.ends_on)
+  ORDER BY a.starts_on DESC
+  LIMIT 1;
+
+  IF v_plan_id IS NULL THEN
+    NEW.plan_id := NULL;
+    NEW.plan_basis := NULL;
+    NEW.plan_details := NULL;
+    RETURN NEW;
+  END IF;
+
+  v_base := COALESCE(NEW.sales_rep_commission, NEW.commission_amount, 0);
+  v_result := evaluate_commission_plan(
+    v_plan_id, NEW.sales_rep_id, NEW.organization_id, v_as_of, NEW.margin_details, v_base, NEW.id
+  );
+
+  NEW.plan_id := v_plan_id;
+  NEW.plan_basis := (v_result->>'basis')::numeric;
+  NEW.plan_details := v_result;
+  NEW.sales_rep_commission := (v_result->>'rep_commission')::numeric;
+  NEW.commission_amount := COALESCE(NEW.commission_amount, 0) - v_base + NEW.sales_rep_commission;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_commission_plan ON commissions;
+
+CREATE TRIGGER trigger_apply_commission_plan
+  BEFORE INSERT OR UPDATE ON commissions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_commission_plan();
+
+-- ═══════════════════════════════════════
+-- 5. What-if preview
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION preview_commission_plan(
+  p_plan_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_sales_rep_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  commission_id uuid,
+  order_id uuid,
+  order_number text,
+  sales_rep_id uuid,
+  sales_rep_name text,
+  created_at timestamptz,
+  basis numeric,
+  current_commission numeric,
+  projected_commission numeric,
+  details jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview commission plans';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id,
+         c.order_id,
+         o.order_number,
+         c.sales_rep_id,
+         COALESCE(NULLIF(p.full_name, ''), p.email),
+         c.created_at,
+         (e.result->>'basis')::numeric,
+         COALESCE(c.sales_rep_commission, c.commission_amount),
+         (e.result->>'rep_commission')::numeric,
+         e.result
+  FROM commissions c
+  JOIN orders o ON o.id = c.order_id
+  JOIN profiles p ON p.id = c.sales_rep_id
+  CROSS JOIN LATERAL (
+    SELECT evaluate_commission_plan(
+      p_plan_id, c.sales_rep_id, c.organization_id, c.created_at, c.margin_details,
+      -- Compare against the rule-based share, not a previous plan's result
+      COALESCE((c.plan_details->>'base_rep_commission')::numeric, c.sales_rep_commission, c.commission_amount),
+      c.id
+    ) AS result
+  ) e
+  WHERE c.status <> 'cancelled'
+    AND c.deleted_at IS NULL
+    AND c.created_at::date BETWEEN p_period_start AND p_period_end
+    AND (p_sales_rep_id IS NULL OR c.sales_rep_id = p_sales_rep_id)
+  ORDER BY c.created_at;
+END;
+$$;
+
+COMMENT ON TABLE commission_plans IS
+  'Quota-tiered commission plans with new-customer bonuses and SPIFFs, assigned to sales reps by date range.';
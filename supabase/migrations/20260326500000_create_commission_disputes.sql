@@ -0,0 +1,500 @@
+/*
+  # Commission disputes
+
+  Payees (sales reps, distributors, company reps) can dispute a commission
+  or a single commission line item instead of emailing an admin. Each
+  dispute has a threaded conversation with attachments, and an admin closes
+  it with a resolution:
+
+    - `adjustment` - a manual commission adjustment for the payee, netted
+      into their next payout like a clawback
+    - `recalculated` - the order's commission calculation is re-run; only
+      while the commission is still pending or approved and not locked in a
+      payout run
+    - `rejected` - no change
+
+  Every step (opened, message, resolved, rejected, withdrawn) is written to
+  commission_audit_log against the order and commission.
+
+  1. New Tables
+    - `commission_disputes` - one per disputed commission or line item;
+      open -> resolved / rejected / withdrawn
+    - `commission_dispute_messages` - thread; attachments are storage
+      paths in the `commission-dispute-attachments` bucket
+
+  2. Functions
+    - `open_commission_dispute` - payee opens a dispute with the first
+      message; admins may open one on a payee's behalf
+    - `resolve_commission_dispute` - admin only
+    - `withdraw_commission_dispute` - the payee who opened it
+    - Triggers stamp message authors and write the audit log
+
+  3. Security
+    - Admins manage all disputes; payees see and reply to their own open
+      disputes
+    - Private storage bucket; uploaders read their own files and payees can
+      read files attached to their disputes
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS commission_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  commission_id uuid NOT NULL REFERENCES commissions(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  -- Line items are replaced when a commission is recalculated, so the
+  -- product is kept alongside the reference
+  line_item_id uuid REFERENCES commission_line_items(id) ON DELETE SET NULL,
+  product_id integer,
+  product_name text,
+  raised_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payee_role text NOT NULL CHECK (payee_role IN ('sales_rep', 'distributor', 'company_rep')),
+  reason text NOT NULL,
+  disputed_amount numeric(10,2),
+  expected_amount numeric(10,2),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'rejected', 'withdrawn')),
+  resolution text CHECK (resolution IN ('adjustment', 'recalculated', 'rejected')),
+  resolution_notes text,
+  adjustment_id uuid REFERENCES commission_adjustments(id) ON DELETE SET NULL,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_disputes_commission ON commission_disputes(commission_id);
+CREATE INDEX IF NOT EXISTS idx_commission_disputes_raised_by ON commission_disputes(raised_by);
+CREATE INDEX IF NOT EXISTS idx_commission_disputes_open ON commission_disputes(created_at) WHERE status = 'open';
+
+-- One open dispute per payee per commission or line
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_disputes_one_open
+  ON commission_disputes(commission_id, raised_by, COALESCE(line_item_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS commission_dispute_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id uuid NOT NULL REFERENCES commission_disputes(id) ON DELETE CASCADE,
+  author_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name text,
+  author_is_admin boolean NOT NULL DEFAULT false,
+  body text NOT NULL,
+  -- [{ path, name, size, type }]
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_dispute_messages_dispute
+  ON commission_dispute_messages(dispute_id, created_at);
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE commission_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commission_dispute_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage commission disputes"
+  ON commission_disputes FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view their own disputes"
+  ON commission_disputes FOR SELECT
+  TO authenticated
+  USING (raised_by = (select auth.uid()));
+
+CREATE POLICY "Admins can manage dispute messages"
+  ON commission_dispute_messages FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Payees can view messages on their disputes"
+  ON commission_dispute_messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM commission_disputes d
+      WHERE d.id = commission_dispute_messages.dispute_id
+        AND d.raised_by = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Payees can reply to their open disputes"
+  ON commission_dispute_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = (select auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM commission_disputes d
+      WHERE d.id = commission_dispute_messages.dispute_id
+        AND d.raised_by = (select auth.uid())
+        AND d.status = 'open'
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 3. Attachments bucket
+-- ═══════════════════════════════════════
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('commission-dispute-attachments', 'commission-dispute-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can manage dispute attachments"
+  ON storage.objects FOR ALL
+  TO authenticated
+  USING (bucket_id = 'commission-dispute-attachments' AND public.is_admin())
+  WITH CHECK (bucket_id = 'commission-dispute-attachments' AND public.is_admin());
+
+-- Files are uploaded under the uploader's user id before the message is posted
+CREATE POLICY "Users can upload dispute attachments to their folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'commission-dispute-attachments'
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+CREATE POLICY "Payees can read attachments on their disputes"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'commission-dispute-attachments'
+    AND (
+      (storage.foldername(name))[1] = (select auth.uid())::text
+      OR EXISTS (
+        SELECT 1
+        FROM public.commission_dispute_messages m
+        JOIN public.commission_disputes d ON d.id = m.dispute_id
+        WHERE d.raised_by = (select auth.uid())
+          AND m.attachments @> jsonb_build_array(jsonb_build_object('path', storage.objects.name))
+      )
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 4. Message author stamp and audit log
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION stamp_commission_dispute_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  NEW.author_id := COALESCE(NEW.author_id, auth.uid());
+
+  SELECT COALESCE(NULLIF(p.full_name, ''), p.email), p.role = 'admin'
+  INTO NEW.author_name, NEW.author_is_admin
+  FROM profiles p
+  WHERE p.id = NEW.author_id;
+
+  NEW.author_is_admin := COALESCE(NEW.author_is_admin, false);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_stamp_commission_dispute_message ON commission_dispute_messages;
+
+CREATE TRIGGER trigger_stamp_commission_dispute_message
+  BEFORE INSERT ON commission_dispute_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_commission_dispute_message();
+
+CREATE OR REPLACE FUNCTION log_commission_dispute_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_dispute commission_disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_dispute FROM commission_disputes WHERE id = NEW.dispute_id;
+
+  UPDATE commission_disputes SET updated_at = now() WHERE id = NEW.dispute_id;
+
+  INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+  VALUES (v_dispute.order_id, v_dispute.commission_id, 'dispute_message', jsonb_build_object(
+    'dispute_id', NEW.dispute_id,
+    'message_id', NEW.id,
+    'author_id', NEW.author_id,
+    'author_name', NEW.author_name,
+    'from_admin', NEW.author_is_admin,
+    'body', NEW.body,
+    'attachments', NEW.attachments
+  ));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_commission_dispute_message ON commission_dispute_messages;
+
+CREATE TRIGGER trigger_log_commission_dispute_message
+  AFTER INSERT ON commission_dispute_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION log_commission_dispute_message();
+
+CREATE OR REPLACE FUNCTION log_commission_dispute_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+    VALUES (NEW.order_id, NEW.commission_id, 'dispute_opened', jsonb_build_object(
+      'dispute_id', NEW.id,
+      'raised_by', NEW.raised_by,
+      'payee_role', NEW.payee_role,
+      'line_item_id', NEW.line_item_id,
+      'product_id', NEW.product_id,
+      'product_name', NEW.product_name,
+      'reason', NEW.reason,
+      'disputed_amount', NEW.disputed_amount,
+      'expected_amount', NEW.expected_amount
+    ));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+    VALUES (NEW.order_id, NEW.commission_id, 'dispute_' || NEW.status, jsonb_build_object(
+      'dispute_id', NEW.id,
+      'previous_status', OLD.status,
+      'resolution', NEW.resolution,
+      'resolution_notes', NEW.resolution_notes,
+      'adjustment_id', NEW.adjustment_id,
+      'resolved_by', NEW.resolved_by
+    ));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_commission_dispute_status ON commission_disputes;
+
+CREATE TRIGGER trigger_log_commission_dispute_status
+  AFTER INSERT OR UPDATE OF status ON commission_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION log_commission_dispute_status();
+
+-- ═══════════════════════════════════════
+-- 5. Open, resolve and withdraw
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION open_commission_dispute(
+  p_commission_id uuid,
+  p_reason text,
+  p_line_item_id uuid DEFAULT NULL,
+  p_expected_amount numeric DEFAULT NULL,
+  p_attachments jsonb DEFAULT '[]'::jsonb,
+  p_payee_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_payee uuid := COALESCE(p_payee_id, auth.uid());
+  v_commission commissions%ROWTYPE;
+  v_line commission_line_items%ROWTYPE;
+  v_distributor_profile uuid;
+  v_role text;
+  v_disputed numeric;
+  v_dispute_id uuid;
+BEGIN
+  IF v_payee <> v_caller
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_caller AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can open a dispute for another payee';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Explain what is wrong with the commission';
+  END IF;
+
+  SELECT * INTO v_commission FROM commissions WHERE id = p_commission_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commission not found';
+  END IF;
+
+  SELECT d.profile_id INTO v_distributor_profile FROM distributors d WHERE d.id = v_commission.distributor_id;
+
+  v_role := CASE
+    WHEN v_commission.sales_rep_id = v_payee THEN 'sales_rep'
+    WHEN v_distributor_profile = v_payee THEN 'distributor'
+    WHEN v_commission.company_rep_id = v_payee THEN 'company_rep'
+  END;
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'You are not a payee on this commission';
+  END IF;
+
+  v_disputed := CASE v_role
+    WHEN 'sales_rep' THEN COALESCE(v_commission.sales_rep_commission, v_commission.commission_amount)
+    WHEN 'distributor' THEN v_commission.distributor_commission
+    ELSE v_commission.company_rep_commission
+  END;
+
+  IF p_line_item_id IS NOT NULL THEN
+    SELECT * INTO v_line FROM commission_line_items
+    WHERE id = p_line_item_id AND commission_id = p_commission_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line item does not belong to this commission';
+    END IF;
+    -- A line's commission includes the distributor's share, which sales
+    -- reps are not shown
+    v_disputed := CASE WHEN v_role = 'sales_rep' AND v_commission.distributor_id IS NOT NULL
+      THEN NULL ELSE v_line.item_commission END;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM commission_disputes
+    WHERE commission_id = p_commission_id
+      AND raised_by = v_payee
+      AND line_item_id IS NOT DISTINCT FROM p_line_item_id
+      AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'There is already an open dispute for this commission';
+  END IF;
+
+  INSERT INTO commission_disputes (
+    commission_id, order_id, line_item_id, product_id, product_name,
+    raised_by, payee_role, reason, disputed_amount, expected_amount
+  )
+  VALUES (
+    p_commission_id, v_commission.order_id, p_line_item_id, v_line.product_id, v_line.product_name,
+    v_payee, v_role, trim(p_reason), v_disputed, p_expected_amount
+  )
+  RETURNING id INTO v_dispute_id;
+
+  INSERT INTO commission_dispute_messages (dispute_id, author_id, body, attachments)
+  VALUES (v_dispute_id, v_caller, trim(p_reason), COALESCE(p_attachments, '[]'::jsonb));
+
+  RETURN v_dispute_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_commission_dispute(
+  p_dispute_id uuid,
+  p_resolution text,
+  p_notes text DEFAULT NULL,
+  p_adjustment_amount numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_dispute commission_disputes%ROWTYPE;
+  v_commission commissions%ROWTYPE;
+  v_adjustment_id uuid;
+  v_before numeric;
+  v_after numeric;
+  v_summary text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve commission disputes';
+  END IF;
+
+  SELECT * INTO v_dispute FROM commission_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'Dispute is already %', v_dispute.status;
+  END IF;
+
+  SELECT * INTO v_commission FROM commissions WHERE id = v_dispute.commission_id;
+
+  IF p_resolution = 'adjustment' THEN
+    IF COALESCE(p_adjustment_amount, 0) = 0 THEN
+      RAISE EXCEPTION 'Enter the adjustment amount';
+    END IF;
+
+    INSERT INTO commission_adjustments (
+      commission_id, order_id, payee_id, payee_role, amount, source, reason, line_details
+    )
+    VALUES (
+      v_dispute.commission_id, v_dispute.order_id, v_dispute.raised_by, v_dispute.payee_role,
+      round(p_adjustment_amount, 2), 'manual',
+      'Commission dispute' || COALESCE(': ' || NULLIF(trim(p_notes), ''), ''),
+      CASE WHEN v_dispute.product_id IS NOT NULL
+        THEN jsonb_build_array(jsonb_build_object('product_id', v_dispute.product_id, 'product_name', v_dispute.product_name))
+        ELSE '[]'::jsonb
+      END
+    )
+    RETURNING id INTO v_adjustment_id;
+
+    v_summary := format('Resolved with a $%s adjustment to your next payout.', to_char(round(p_adjustment_amount, 2), 'FM999999990.00'));
+
+  ELSIF p_resolution = 'recalculated' THEN
+    IF v_commission.status NOT IN ('pending', 'approved') OR v_commission.payout_run_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Only pending or approved commissions outside a payout run can be recalculated; resolve with an adjustment instead';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM orders WHERE id = v_dispute.order_id AND status = 'completed') THEN
+      RAISE EXCEPTION 'Commission can only be recalculated for completed orders';
+    END IF;
+
+    v_before := v_commission.commission_amount;
+
+    -- Re-fire calculate_commission_for_order, as the order screen does
+    UPDATE orders SET total = total, updated_at = now() WHERE id = v_dispute.order_id;
+
+    SELECT commission_amount INTO v_after FROM commissions WHERE id = v_dispute.commission_id;
+    v_summary := format('Commission recalculated: $%s -> $%s.',
+      to_char(v_before, 'FM999999990.00'), to_char(COALESCE(v_after, 0), 'FM999999990.00'));
+
+  ELSIF p_resolution = 'rejected' THEN
+    v_summary := 'Dispute closed with no change to the commission.';
+  ELSE
+    RAISE EXCEPTION 'Unknown resolution %', p_resolution;
+  END IF;
+
+  INSERT INTO commission_dispute_messages (dispute_id, body)
+  VALUES (p_dispute_id, v_summary || COALESCE(E'\n\n' || NULLIF(trim(p_notes), ''), ''));
+
+  UPDATE commission_disputes
+  SET status = CASE WHEN p_resolution = 'rejected' THEN 'rejected' ELSE 'resolved' END,
+      resolution = p_resolution,
+      resolution_notes = NULLIF(trim(p_notes), ''),
+      adjustment_id = v_adjustment_id,
+      resolved_by = (select auth.uid()),
+      resolved_at = now(),
+      updated_at = now()
+  WHERE id = p_dispute_id;
+
+  RETURN jsonb_build_object(
+    'dispute_id', p_dispute_id,
+    'resolution', p_resolution,
+    'adjustment_id', v_adjustment_id,
+    'commission_before', v_before,
+    'commission_after', v_after
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_commission_dispute(p_dispute_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE commission_disputes
+  SET status = 'withdrawn', updated_at = now()
+  WHERE id = p_dispute_id
+    AND status = 'open'
+    AND (
+      raised_by = (select auth.uid())
+      OR EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin')
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the payee can withdraw an open dispute';
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE commission_disputes IS
+  'Payee challenges to a commission or line item; history is mirrored into commission_audit_log.';
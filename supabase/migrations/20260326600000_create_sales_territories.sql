@@ -0,0 +1,1223 @@
+/*
+  # Sales territories
+
+  Customers are assigned to a sales rep or distributor by territory instead
+  of one at a time. A territory matches organizations by state, ZIP prefix
+  and/or org type; every rule that is filled in must match, and when several
+  territories match the most specific wins (longest ZIP prefix, then a state
+  rule, then an org type rule, then the oldest territory).
+
+  Handing a territory to a new owner is a reassignment with an effective
+  date. On that date every organization in the territory moves to the new
+  owner, and orders placed on or after the date earn the new owner's
+  commission. Orders placed before the date stay with the previous rep, who
+  still earns on them when they complete. Back-dated reassignments also move
+  already-placed orders unless their commission has been paid, cancelled or
+  locked in a payout run.
+
+  1. New Tables
+    - `sales_territories` - match rules, owner (a sales rep, a distributor,
+      or a rep working under a distributor) and commission rate
+    - `territory_reassignments` - scheduled and applied owner changes
+
+  2. Changes
+    - `organizations.territory_id` - territory the organization was assigned
+      by; NULL for manual assignments
+    - `organization_sales_reps.unassigned_at` - when a reassignment ended
+      the rep's coverage
+    - `calculate_commission_for_order()` - also accepts an inactive org-rep
+      row for orders placed before its `unassigned_at`
+
+  3. Functions
+    - `match_sales_territory` - best territory for an address and org type
+    - New organizations are assigned by trigger, except house accounts,
+      organizations created with a rep already set, and customers a sales
+      rep or distributor adds themselves
+    - `assign_unassigned_organizations` - admin backfill after adding or
+      changing territories
+    - `reassign_sales_territory` - admin; applies immediately when the
+      effective date is today or earlier, otherwise schedules it
+    - `apply_due_territory_reassignments` - run daily by the
+      `apply-territory-reassignments` edge function
+
+  4. Security
+    - Admins manage territories and reassignments; reps and distributors can
+      view the territories they own
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS sales_territories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  states text[] NOT NULL DEFAULT '{}',
+  zip_prefixes text[] NOT NULL DEFAULT '{}',
+  org_types text[] NOT NULL DEFAULT '{}',
+  sales_rep_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  distributor_id uuid REFERENCES distributors(id) ON DELETE SET NULL,
+  commission_rate numeric(5,2) NOT NULL CHECK (commission_rate >= 0 AND commission_rate <= 100),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT sales_territories_has_owner CHECK (sales_rep_id IS NOT NULL OR distributor_id IS NOT NULL),
+  CONSTRAINT sales_territories_has_rule CHECK (
+    cardinality(states) + cardinality(zip_prefixes) + cardinality(org_types) > 0
+  )
+);
+
+CREATE TABLE IF NOT EXISTS territory_reassignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  territory_id uuid NOT NULL REFERENCES sales_territories(id) ON DELETE CASCADE,
+  from_sales_rep_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  from_distributor_id uuid REFERENCES distributors(id) ON DELETE SET NULL,
+  to_sales_rep_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  to_distributor_id uuid REFERENCES distributors(id) ON DELETE SET NULL,
+  commission_rate numeric(5,2) NOT NULL CHECK (commission_rate >= 0 AND commission_rate <= 100),
+  effective_date date NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'applied', 'cancelled')),
+  organizations_moved integer NOT NULL DEFAULT 0,
+  orders_moved integer NOT NULL DEFAULT 0,
+  orders_skipped integer NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  applied_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One pending handoff per territory
+CREATE UNIQUE INDEX IF NOT EXISTS idx_territory_reassignments_one_scheduled
+  ON territory_reassignments(territory_id) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_territory_reassignments_due
+  ON territory_reassignments(effective_date) WHERE status = 'scheduled';
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS territory_id uuid REFERENCES sales_territories(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_organizations_territory ON organizations(territory_id);
+
+ALTER TABLE organization_sales_reps
+  ADD COLUMN IF NOT EXISTS unassigned_at timestamptz;
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE sales_territories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE territory_reassignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage sales territories"
+  ON sales_territories FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Owners can view their sales territories"
+  ON sales_territories FOR SELECT
+  TO authenticated
+  USING (
+    sales_rep_id = (select auth.uid())
+    OR distributor_id IN (SELECT id FROM distributors WHERE profile_id = (select auth.uid()))
+  );
+
+CREATE POLICY "Admins can manage territory reassignments"
+  ON territory_reassignments FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+-- ═══════════════════════════════════════
+-- 3. Territory rules
+-- ═══════════════════════════════════════
+
+-- Normalizes the rules and checks the owner before a territory is saved
+CREATE OR REPLACE FUNCTION normalize_sales_territory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  NEW.states := ARRAY(
+    SELECT DISTINCT upper(trim(s)) FROM unnest(NEW.states) s WHERE trim(s) <> ''
+  );
+  NEW.zip_prefixes := ARRAY(
+    SELECT DISTINCT trim(z) FROM unnest(NEW.zip_prefixes) z WHERE trim(z) <> ''
+  );
+  NEW.org_types := ARRAY(
+    SELECT DISTINCT lower(trim(t)) FROM unnest(NEW.org_types) t WHERE trim(t) <> ''
+  );
+
+  IF EXISTS (SELECT 1 FROM unnest(NEW.zip_prefixes) z WHERE z !~ '^[0-9]{1,5}$') THEN
+    RAISE EXCEPTION 'ZIP prefixes must be 1 to 5 digits';
+  END IF;
+
+  IF NEW.sales_rep_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = NEW.sales_rep_id AND role = 'sales_rep') THEN
+    RAISE EXCEPTION 'Territory owner is not a sales rep';
+  END IF;
+
+  IF NEW.distributor_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM distributors WHERE id = NEW.distributor_id AND is_active = true) THEN
+      RAISE EXCEPTION 'Territory distributor is not active';
+    END IF;
+    IF NEW.sales_rep_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM distributor_sales_reps
+      WHERE distributor_id = NEW.distributor_id
+        AND sales_rep_id = NEW.sales_rep_id
+        AND is_active = true
+    ) THEN
+      RAISE EXCEPTION 'Sales rep does not work under this distributor';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_normalize_sales_territory ON sales_territories;
+CREATE TRIGGER trigger_normalize_sales_territory
+  BEFORE INSERT OR UPDATE ON sales_territories
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_sales_territory();
+
+-- Profile that earns commission for a territory owner. A distributor
+-- without a rep is paid as the rep, the same as assigning the distributor
+-- to an order directly.
+CREATE OR REPLACE FUNCTION territory_owner_profile(p_sales_rep_id uuid, p_distributor_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT COALESCE(
+    p_sales_rep_id,
+    (SELECT profile_id FROM distributors WHERE id = p_distributor_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION match_sales_territory(p_state text, p_zip text, p_org_type text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+  SELECT t.id
+  FROM sales_territories t
+  CROSS JOIN LATERAL (
+    SELECT max(length(z)) AS zip_match
+    FROM unnest(t.zip_prefixes) z
+    WHERE trim(p_zip) LIKE z || '%'
+  ) m
+  WHERE t.is_active = true
+    AND (cardinality(t.states) = 0 OR upper(trim(p_state)) = ANY(t.states))
+    AND (cardinality(t.zip_prefixes) = 0 OR m.zip_match IS NOT NULL)
+    AND (cardinality(t.org_types) = 0 OR lower(p_org_type) = ANY(t.org_types))
+  ORDER BY
+    COALESCE(m.zip_match, 0) DESC,
+    cardinality(t.states) > 0 DESC,
+    cardinality(t.org_types) > 0 DESC,
+    t.created_at
+  LIMIT 1;
+$$;
+
+-- ═══════════════════════════════════════
+-- 4. Automatic assignment
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION assign_organization_territory(p_organization_id uuid, p_territory_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_territory sales_territories%ROWTYPE;
+  v_owner uuid;
+BEGIN
+  SELECT * INTO v_territory FROM sales_territories WHERE id = p_territory_id;
+  v_owner := territory_owner_profile(v_territory.sales_rep_id, v_territory.distributor_id);
+  IF v_owner IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO organization_sales_reps (
+    organization_id, sales_rep_id, distributor_id, commission_rate, is_active
+  ) VALUES (
+    p_organization_id, v_owner, v_territory.distributor_id, v_territory.commission_rate, true
+  )
+  ON CONFLICT (organization_id, sales_rep_id) DO UPDATE
+  SET
+    distributor_id = EXCLUDED.distributor_id,
+    commission_rate = EXCLUDED.commission_rate,
+    is_active = true,
+    unassigned_at = NULL,
+    updated_at = now();
+
+  UPDATE organizations
+  SET territory_id = p_territory_id,
+      default_sales_rep_id = v_owner,
+      updated_at = now()
+  WHERE id = p_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assign_organization_territory(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION auto_assign_organization_territory()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_territory_id uuid;
+BEGIN
+  IF COALESCE(NEW.is_house_account, false) OR NEW.default_sales_rep_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reps and distributors who add a customer take it themselves
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = (select auth.uid()) AND role IN ('sales_rep', 'distributor')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  v_territory_id := match_sales_territory(NEW.state, NEW.zip, NEW.org_type);
+  IF v_territory_id IS NOT NULL THEN
+    PERFORM assign_organization_territory(NEW.id, v_territory_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_auto_assign_organization_territory ON organizations;
+CREATE TRIGGER trigger_auto_assign_organization_territory
+  AFTER INSERT ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_assign_organization_territory();
+
+-- Assigns active organizations that have no rep yet; run after adding or
+-- changing territories
+CREATE OR REPLACE FUNCTION assign_unassigned_organizations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_org record;
+  v_territory_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can assign territories';
+  END IF;
+
+  FOR v_org IN
+    SELECT o.id, o.state, o.zip, o.org_type
+    FROM organizations o
+    WHERE o.is_active = true
+      AND COALESCE(o.is_house_account, false) = false
+      AND o.default_sales_rep_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM organization_sales_reps osr
+        WHERE osr.organization_id = o.id AND osr.is_active = true
+      )
+  LOOP
+    v_territory_id := match_sales_territory(v_org.state, v_org.zip, v_org.org_type);
+    IF v_territory_id IS NOT NULL THEN
+      PERFORM assign_organization_territory(v_org.id, v_territory_id);
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 5. Reassignment
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION apply_territory_reassignment(p_reassignment_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_reassignment territory_reassignments%ROWTYPE;
+  v_old uuid;
+  v_new uuid;
+  v_cutover timestamptz;
+  v_org record;
+  v_order record;
+  v_orgs integer := 0;
+  v_moved integer := 0;
+  v_skipped integer := 0;
+BEGIN
+  SELECT * INTO v_reassignment FROM territory_reassignments WHERE id = p_reassignment_id FOR UPDATE;
+  IF NOT FOUND OR v_reassignment.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Reassignment is not scheduled';
+  END IF;
+
+  v_old := territory_owner_profile(v_reassignment.from_sales_rep_id, v_reassignment.from_distributor_id);
+  v_new := territory_owner_profile(v_reassignment.to_sales_rep_id, v_reassignment.to_distributor_id);
+  v_cutover := v_reassignment.effective_date::timestamptz;
+
+  UPDATE sales_territories
+  SET sales_rep_id = v_reassignment.to_sales_rep_id,
+      distributor_id = v_reassignment.to_distributor_id,
+      commission_rate = v_reassignment.commission_rate
+  WHERE id = v_reassignment.territory_id;
+
+  FOR v_org IN
+    SELECT id FROM organizations
+    WHERE territory_id = v_reassignment.territory_id
+      AND COALESCE(is_house_account, false) = false
+  LOOP
+    PERFORM assign_organization_territory(v_org.id, v_reassignment.territory_id);
+    v_orgs := v_orgs + 1;
+
+    IF v_old IS NULL OR v_old = v_new THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE organization_sales_reps
+    SET is_active = false,
+        unassigned_at = v_cutover,
+        updated_at = now()
+    WHERE organization_id = v_org.id
+      AND sales_rep_id = v_old;
+
+    -- Orders placed on or after the effective date earn the new owner's
+    -- commission; completed ones are recalculated by the commission trigger
+    FOR v_order IN
+      SELECT o.id, c.id AS commission_id, c.status AS commission_status, c.payout_run_id
+      FROM orders o
+      LEFT JOIN commissions c ON c.order_id = o.id
+      WHERE o.organization_id = v_org.id
+        AND o.sales_rep_id = v_old
+        AND o.created_at >= v_cutover
+        AND o.status <> 'cancelled'
+    LOOP
+      IF v_order.commission_status IN ('paid', 'cancelled') OR v_order.payout_run_id IS NOT NULL THEN
+        INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+        VALUES (v_order.id, v_order.commission_id, 'territory_reassignment_skipped', jsonb_build_object(
+          'reassignment_id', p_reassignment_id,
+          'reason', CASE WHEN v_order.payout_run_id IS NOT NULL AND v_order.commission_status NOT IN ('paid', 'cancelled')
+            THEN 'in_payout_run' ELSE 'commission_' || v_order.commission_status END,
+          'from_sales_rep_id', v_old,
+          'to_sales_rep_id', v_new
+        ));
+        v_skipped := v_skipped + 1;
+      ELSE
+        UPDATE orders SET sales_rep_id = v_new, updated_at = now() WHERE id = v_order.id;
+
+        INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+        VALUES (v_order.id, v_order.commission_id, 'territory_reassigned', jsonb_build_object(
+          'reassignment_id', p_reassignment_id,
+          'territory_id', v_reassignment.territory_id,
+          'effective_date', v_reassignment.effective_date,
+          'from_sales_rep_id', v_old,
+          'to_sales_rep_id', v_new
+        ));
+        v_moved := v_moved + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  UPDATE territory_reassignments
+  SET status = 'applied',
+      applied_at = now(),
+      organizations_moved = v_orgs,
+      orders_moved = v_moved,
+      orders_skipped = v_skipped
+  WHERE id = p_reassignment_id;
+
+  RETURN jsonb_build_object(
+    'reassignment_id', p_reassignment_id,
+    'status', 'applied',
+    'organizations_moved', v_orgs,
+    'orders_moved', v_moved,
+    'orders_skipped', v_skipped
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_territory_reassignment(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reassign_sales_territory(
+  p_territory_id uuid,
+  p_sales_rep_id uuid,
+  p_distributor_id uuid,
+  p_commission_rate numeric,
+  p_effective_date date DEFAULT CURRENT_DATE,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_territory sales_territories%ROWTYPE;
+  v_reassignment_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reassign territories';
+  END IF;
+
+  SELECT * INTO v_territory FROM sales_territories WHERE id = p_territory_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Territory not found';
+  END IF;
+  IF p_sales_rep_id IS NULL AND p_distributor_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the new sales rep or distributor';
+  END IF;
+  IF p_sales_rep_id IS NOT DISTINCT FROM v_territory.sales_rep_id
+     AND p_distributor_id IS NOT DISTINCT FROM v_territory.distributor_id
+     AND p_commission_rate = v_territory.commission_rate THEN
+    RAISE EXCEPTION 'The territory already has this owner and rate';
+  END IF;
+  IF EXISTS (SELECT 1 FROM territory_reassignments WHERE territory_id = p_territory_id AND status = 'scheduled') THEN
+    RAISE EXCEPTION 'This territory already has a scheduled reassignment; cancel it first';
+  END IF;
+
+  INSERT INTO territory_reassignments (
+    territory_id, from_sales_rep_id, from_distributor_id,
+    to_sales_rep_id, to_distributor_id, commission_rate, effective_date, notes
+  ) VALUES (
+    p_territory_id, v_territory.sales_rep_id, v_territory.distributor_id,
+    p_sales_rep_id, p_distributor_id, p_commission_rate,
+    COALESCE(p_effective_date, CURRENT_DATE), NULLIF(trim(p_notes), '')
+  )
+  RETURNING id INTO v_reassignment_id;
+
+  IF COALESCE(p_effective_date, CURRENT_DATE) <= CURRENT_DATE THEN
+    RETURN apply_territory_reassignment(v_reassignment_id);
+  END IF;
+
+  RETURN jsonb_build_object('reassignment_id', v_reassignment_id, 'status', 'scheduled');
+END;
+$$;
+
+-- Applies reassignments whose effective date has arrived. Orders placed
+-- since midnight on that date are moved too, so a late run loses nothing.
+CREATE OR REPLACE FUNCTION apply_due_territory_reassignments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_id uuid;
+  v_count integer := 0;
+BEGIN
+  -- Service-role callers (the scheduled job) have no auth.uid()
+  IF (select auth.uid()) IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can apply territory reassignments';
+  END IF;
+
+  FOR v_id IN
+    SELECT id FROM territory_reassignments
+    WHERE status = 'scheduled' AND effective_date <= CURRENT_DATE
+    ORDER BY effective_date, created_at
+  LOOP
+    PERFORM apply_territory_reassignment(v_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 6. Commission lookup honours handoff dates
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION calculate_commission_for_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_resolved_sales_rep_id uuid;
+  v_commission_rate       numeric(10,2);
+  v_total_margin          numeric(10,2) := 0;
+  v_commission_amount     numeric(10,2) := 0;
+  v_sales_rep_commission  numeric(10,2) := 0;
+  v_distributor_commission numeric(10,2) := 0;
+  v_commission_id         uuid;
+  v_item                  jsonb;
+  v_item_cost             numeric(10,2);
+  v_item_price            numeric(10,2);
+  v_item_retail_price     numeric(10,2);
+  v_item_markup           numeric(10,2);
+  v_item_quantity         integer;
+  v_item_discount         numeric(10,2);
+  v_item_product_id       integer;
+  v_item_category_id      uuid;
+  v_base_margin           numeric(10,2);
+  v_item_commission       numeric(10,2);
+  v_distributor_id        uuid;
+  v_commission_split_type text;
+  v_sales_rep_rate        numeric(5,2);
+  v_distributor_override_rate numeric(5,2);
+  v_base_distributor_rate numeric(5,2);
+  v_base_dist_type        text;
+  v_use_customer_price    boolean;
+  -- per-item rule overrides
+  v_rule_type             text;
+  v_rule_rate             numeric(10,2);
+  v_rule_use_cust_price   boolean;
+  v_rule_id               uuid;
+  v_rule_source           text;
+  v_effective_price       numeric(10,2);
+  v_total_units           integer := 0;
+  -- wholesale pricing
+  v_pricing_model         text;
+  v_wholesale_price       numeric(10,2);
+  -- company rep
+  v_company_rep_id        uuid;
+  v_company_rep_rate      numeric(5,2);
+  v_company_rep_commission numeric(10,2) := 0;
+  v_your_margin           numeric(10,2) := 0;
+  -- per-item details
+  v_margin_details        jsonb := '[]'::jsonb;
+  -- fallback distributor lookup
+  v_fallback_distributor_id uuid;
+  v_fallback_dist_rate    numeric(5,2);
+  -- audit
+  v_audit_details         jsonb;
+  -- distributor-as-rep lookup
+  v_dist_profile_check    uuid;
+BEGIN
+  -- Only calculate commission for completed orders
+  IF NEW.status != 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════════════════════
+  -- RESOLVE SALES REP
+  -- ══════════════════════════════════════════════════════════════════════════
+  v_resolved_sales_rep_id := NEW.sales_rep_id;
+
+  IF v_resolved_sales_rep_id IS NULL AND NEW.organization_id IS NOT NULL THEN
+    SELECT osr.sales_rep_id
+    INTO v_resolved_sales_rep_id
+    FROM organization_sales_reps osr
+    WHERE osr.organization_id = NEW.organization_id
+      AND osr.is_active = true
+    ORDER BY osr.created_at ASC
+    LIMIT 1;
+  END IF;
+
+  -- If no sales rep found, log and skip
+  IF v_resolved_sales_rep_id IS NULL THEN
+    INSERT INTO commission_audit_log (order_id, event, details)
+    VALUES (NEW.id, 'skipped', jsonb_build_object(
+      'reason', 'no_sales_rep_found',
+      'organization_id', NEW.organization_id
+    ));
+    RETURN NEW;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════════════════════
+  -- GET COMMISSION STRUCTURE
+  -- ══════════════════════════════════════════════════════════════════════════
+  SELECT
+    osr.commission_rate,
+    osr.distributor_id,
+    COALESCE(dsr.commission_split_type, 'none'),
+    COALESCE(dsr.sales_rep_rate, 100),
+    COALESCE(dsr.distributor_override_rate, 0),
+    COALESCE(d.commission_rate, osr.commission_rate),
+    COALESCE(d.commission_type, 'percent_margin'),
+    COALESCE(d.use_customer_price, false),
+    COALESCE(d.pricing_model, 'margin_split'),
+    d.company_rep_id,
+    COALESCE(d.company_rep_rate, 0)
+  INTO
+    v_commission_rate,
+    v_distributor_id,
+    v_commission_split_type,
+    v_sales_rep_rate,
+    v_distributor_override_rate,
+    v_base_distributor_rate,
+    v_base_dist_type,
+    v_use_customer_price,
+    v_pricing_model,
+    v_company_rep_id,
+    v_company_rep_rate
+  FROM organization_sales_reps osr
+  LEFT JOIN distributors d ON d.id = osr.distributor_id AND d.is_active = true
+  LEFT JOIN distributor_sales_reps dsr ON dsr.distributor_id = osr.distributor_id
+    AND dsr.sales_rep_id = osr.sales_rep_id
+    AND dsr.is_active = true
+  WHERE osr.organization_id = NEW.organization_id
+    AND osr.sales_rep_id = v_resolved_sales_rep_id
+    -- A rep keeps earning on orders placed before a territory handed the
+    -- organization to someone else
+    AND (osr.is_active = true OR NEW.created_at < osr.unassigned_at)
+  LIMIT 1;
+
+  -- ══════════════════════════════════════════════════════════════════════════
+  -- FALLBACK 1: Check distributor_rep_customers chain
+  -- ══════════════════════════════════════════════════════════════════════════
+  IF v_commission_rate IS NULL AND NEW.organization_id IS NOT NULL THEN
+
+    SELECT drc.distributor_id, COALESCE(d.commission_rate, 0)
+    INTO v_fallback_distributor_id, v_fallback_dist_rate
+    FROM distributor_rep_customers drc
+    JOIN distributors d ON d.id = drc.distributor_id AND d.is_active = true
+    WHERE drc.organization_id = NEW.organization_id
+      AND drc.sales_rep_id = v_resolved_sales_rep_id
+      AND drc.is_active = true
+    LIMIT 1;
+
+    IF v_fallback_distributor_id IS NOT NULL THEN
+      -- Create the missing org-rep record with proper distributor link
+      INSERT INTO organization_sales_reps (
+        organization_id, sales_rep_id, distributor_id, commission_rate, is_active
+      ) VALUES (
+        NEW.organization_id, v_resolved_sales_rep_id,
+        v_fallback_distributor_id, v_fallback_dist_rate, true
+      )
+      ON CONFLICT (organization_id, sales_rep_id) DO UPDATE
+      SET
+        distributor_id = v_fallback_distributor_id,
+        commission_rate = v_fallback_dist_rate,
+        is_active = true,
+        updated_at = now();
+
+      -- Re-run the full structure lookup
+      SELECT
+        osr.commission_rate,
+        osr.distributor_id,
+        COALESCE(dsr.commission_split_type, 'none'),
+        COALESCE(dsr.sales_rep_rate, 100),
+        COALESCE(dsr.distributor_override_rate, 0),
+        COALESCE(d.commission_rate, osr.commission_rate),
+        COALESCE(d.commission_type, 'percent_margin'),
+        COALESCE(d.use_customer_price, false),
+        COALESCE(d.pricing_model, 'margin_split'),
+        d.company_rep_id,
+        COALESCE(d.company_rep_rate, 0)
+      INTO
+        v_commission_rate,
+        v_distributor_id,
+        v_commission_split_type,
+        v_sales_rep_rate,
+        v_distributor_override_rate,
+        v_base_distributor_rate,
+        v_base_dist_type,
+        v_use_customer_price,
+        v_pricing_model,
+        v_company_rep_id,
+        v_company_rep_rate
+      FROM organization_sales_reps osr
+      LEFT JOIN distributors d ON d.id = osr.distributor_id AND d.is_active = true
+      LEFT JOIN distributor_sales_reps dsr ON dsr.distributor_id = osr.distributor_id
+        AND dsr.sales_rep_id = osr.sales_rep_id
+        AND dsr.is_active = true
+      WHERE osr.organization_id = NEW.organization_id
+        AND osr.sales_rep_id = v_resolved_sales_rep_id
+        AND osr.is_active = true
+      LIMIT 1;
+
+      -- Audit: fallback was used
+      INSERT INTO commission_audit_log (order_id, event, details)
+      VALUES (NEW.id, 'fallback_used', jsonb_build_object(
+        'source', 'distributor_rep_customers',
+        'distributor_id', v_fallback_distributor_id,
+        'rate', v_fallback_dist_rate
+      ));
+    END IF;
+  END IF;
+
+  -- ══════════════════════════════════════════════════════════════════════════
+  -- FALLBACK 2: Check if the resolved sales rep IS a distributor profile.
+  -- When an admin assigns a distributor directly to an order, the distributor's
+  -- profile_id won't be in organization_sales_reps or distributor_rep_customers
+  -- as a sales_rep. Look them up in the distributors table by profile_id.
+  -- ══════════════════════════════════════════════════════════════════════════
+  IF v_commission_rate IS NULL THEN
+    SELECT
+      d.id,
+      d.commission_rate,
+      COALESCE(d.commission_type, 'percent_margin'),
+      COALESCE(d.use_customer_price, false),
+      COALESCE(d.pricing_model, 'margin_split'),
+      d.company_rep_id,
+      COALESCE(d.company_rep_rate, 0)
+    INTO
+      v_distributor_id,
+      v_commission_rate,
+      v_base_dist_type,
+      v_use_customer_price,
+      v_pricing_model,
+      v_company_rep_id,
+      v_company_rep_rate
+    FROM distributors d
+    WHERE d.profile_id = v_resolved_sales_rep_id
+      AND d.is_active = true
+    LIMIT 1;
+
+    IF v_commission_rate IS NOT NULL THEN
+      -- Distributor found! Set up commission structure:
+      -- The distributor IS the rep, so they get 100% (no split)
+      v_base_distributor_rate   := v_commission_rate;
+      v_commission_split_type   := 'none';
+      v_sales_rep_rate          := 100;
+      v_distributor_override_rate := 0;
+
+      -- Create/update an org-rep record so future lookups work without fallback
+      IF NEW.organization_id IS NOT NULL THEN
+        INSERT INTO organization_sales_reps (
+          organization_id, sales_rep_id, distributor_id, commission_rate, is_active
+        ) VALUES (
+          NEW.organization_id, v_resolved_sales_rep_id,
+          v_distributor_id, v_commission_rate, true
+        )
+        ON CONFLICT (organization_id, sales_rep_id) DO UPDATE
+        SET
+          distributor_id = v_distributor_id,
+          commission_rate = v_commission_rate,
+          is_active = true,
+          updated_at = now();
+      END IF;
+
+      -- Audit: distributor-as-rep fallback used
+      INSERT INTO commission_audit_log (order_id, event, details)
+      VALUES (NEW.id, 'fallback_used', jsonb_build_object(
+        'source', 'distributor_profile_direct',
+        'distributor_id', v_distributor_id,
+        'distributor_profile_id', v_resolved_sales_rep_id,
+        'rate', v_commission_rate
+      ));
+    ELSE
+      -- No commission config found at all — DO NOT default to 5%
+      INSERT INTO commission_audit_log (order_id, event, details)
+      VALUES (NEW.id, 'skipped', jsonb_build_object(
+        'reason', 'no_commission_config',
+        'sales_rep_id', v_resolved_sales_rep_id,
+        'organization_id', NEW.organization_id
+      ));
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- If still no rate after all lookups, skip
+  IF v_commission_rate IS NULL THEN
+    INSERT INTO commission_audit_log (order_id, event, details)
+    VALUES (NEW.id, 'skipped', jsonb_build_object(
+      'reason', 'commission_rate_null_after_lookup',
+      'sales_rep_id', v_resolved_sales_rep_id
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.items IS NOT NULL THEN
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- WHOLESALE PRICING MODEL
+    -- ════════════════════════════════════════════════════════════════════════
+    IF v_pricing_model = 'wholesale' AND v_distributor_id IS NOT NULL THEN
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(NEW.items)
+      LOOP
+        v_item_price      := COALESCE((v_item->>'price')::numeric, 0);
+        v_item_cost       := COALESCE((v_item->>'cost')::numeric, 0);
+        v_item_quantity   := COALESCE((v_item->>'quantity')::integer, 1);
+        v_item_product_id := (v_item->>'productId')::integer;
+        v_item_markup     := COALESCE((v_item->>'markup')::numeric, 0);
+        -- Discount codes lower the price actually paid
+        v_item_discount   := COALESCE((v_item->>'discount')::numeric, 0) / GREATEST(v_item_quantity, 1);
+        v_item_price      := v_item_price - v_item_discount;
+        v_total_units     := v_total_units + v_item_quantity;
+
+        SELECT dpp.wholesale_price INTO v_wholesale_price
+          FROM distributor_product_pricing dpp
+         WHERE dpp.distributor_id = v_distributor_id
+           AND dpp.product_id = v_item_product_id
+           AND dpp.is_active = true;
+
+        IF v_wholesale_price IS NOT NULL THEN
+          v_item_commission := (v_item_price - v_wholesale_price) * v_item_quantity;
+          IF v_item_commission < 0 THEN
+            v_item_commission := 0;
+          END IF;
+          v_base_margin := (v_wholesale_price - v_item_cost) * v_item_quantity;
+        ELSE
+          v_item_commission := 0;
+          v_base_margin := 0;
+        END IF;
+
+        IF v_item_markup > 0 THEN
+          v_item_commission := v_item_commission + (v_item_markup * v_item_quantity);
+        END IF;
+
+        IF v_base_margin < 0 THEN
+          v_base_margin := 0;
+        END IF;
+        v_total_margin := v_total_margin + v_base_margin;
+        v_commission_amount := v_commission_amount + v_item_commission;
+
+        v_margin_details := v_margin_details || jsonb_build_object(
+          'productId', v_item->>'productId',
+          'name', v_item->>'name',
+          'price', v_item_price,
+          'cost', v_item_cost,
+          'quantity', v_item_quantity,
+          'discount', COALESCE((v_item->>'discount')::numeric, 0),
+          'margin', v_base_margin,
+          'wholesalePrice', COALESCE(v_wholesale_price, 0),
+          'spread', v_item_commission,
+          'totalCommission', v_item_commission,
+          'ruleSource', 'wholesale',
+          'commissionType', 'wholesale',
+          'commissionRate', 0,
+          'markup', v_item_markup
+        );
+      END LOOP;
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- MARGIN SPLIT PRICING MODEL
+    -- ════════════════════════════════════════════════════════════════════════
+    ELSE
+
+      FOR v_item IN SELECT * FROM jsonb_array_elements(NEW.items)
+      LOOP
+        v_item_cost       := COALESCE((v_item->>'cost')::numeric, 0);
+        v_item_price      := COALESCE((v_item->>'price')::numeric, 0);
+        v_item_retail_price := COALESCE((v_item->>'retailPrice')::numeric, v_item_price);
+        v_item_markup     := COALESCE((v_item->>'markup')::numeric, 0);
+        v_item_quantity   := COALESCE((v_item->>'quantity')::integer, 1);
+        v_item_product_id := (v_item->>'productId')::integer;
+        v_total_units     := v_total_units + v_item_quantity;
+        -- Discount codes lower both the price paid and the retail basis
+        v_item_discount   := COALESCE((v_item->>'discount')::numeric, 0) / GREATEST(v_item_quantity, 1);
+        v_item_price      := v_item_price - v_item_discount;
+        v_item_retail_price := v_item_retail_price - v_item_discount;
+
+        SELECT category_id INTO v_item_category_id
+          FROM products WHERE id = v_item_product_id;
+
+        -- Determine effective commission rule for this item
+        v_rule_type           := NULL;
+        v_rule_rate           := NULL;
+        v_rule_use_cust_price := NULL;
+        v_rule_id             := NULL;
+        v_rule_source         := 'default';
+
+        IF v_distributor_id IS NOT NULL THEN
+
+          -- 1. Customer + Product rule
+          SELECT id, commission_type, commission_rate, use_customer_price
+            INTO v_rule_id, v_rule_type, v_rule_rate, v_rule_use_cust_price
+            FROM distributor_commission_rules
+           WHERE distributor_id = v_distributor_id
+             AND organization_id = NEW.organization_id
+             AND scope = 'product'
+             AND product_id = v_item_product_id
+             AND is_active = true
+           LIMIT 1;
+
+          IF v_rule_type IS NOT NULL THEN
+            v_rule_source := 'customer_product';
+          END IF;
+
+          -- 2. Customer + Category rule
+          IF v_rule_type IS NULL AND v_item_category_id IS NOT NULL THEN
+            SELECT id, commission_type, commission_rate, use_customer_price
+              INTO v_rule_id, v_rule_type, v_rule_rate, v_rule_use_cust_price
+              FROM distributor_commission_rules
+             WHERE distributor_id = v_distributor_id
+               AND organization_id = NEW.organization_id
+               AND scope = 'category'
+               AND category_id = v_item_category_id
+               AND is_active = true
+             LIMIT 1;
+
+            IF v_rule_type IS NOT NULL THEN
+              v_rule_source := 'customer_category';
+            END IF;
+          END IF;
+
+          -- 3. Product-only rule
+          IF v_rule_type IS NULL THEN
+            SELECT id, commission_type, commission_rate, use_customer_price
+              INTO v_rule_id, v_rule_type, v_rule_rate, v_rule_use_cust_price
+              FROM distributor_commission_rules
+             WHERE distributor_id = v_distributor_id
+               AND organization_id IS NULL
+               AND scope = 'product'
+               AND product_id = v_item_product_id
+               AND is_active = true
+             LIMIT 1;
+
+            IF v_rule_type IS NOT NULL THEN
+              v_rule_source := 'product';
+            END IF;
+          END IF;
+
+          -- 4. Category-only rule
+          IF v_rule_type IS NULL AND v_item_category_id IS NOT NULL THEN
+            SELECT id, commission_type, commission_rate, use_customer_price
+              INTO v_rule_id, v_rule_type, v_rule_rate, v_rule_use_cust_price
+              FROM distributor_commission_rules
+             WHERE distributor_id = v_distributor_id
+               AND organization_id IS NULL
+               AND scope = 'category'
+               AND category_id = v_item_category_id
+               AND is_active = true
+             LIMIT 1;
+
+            IF v_rule_type IS NOT NULL THEN
+              v_rule_source := 'category';
+            END IF;
+          END IF;
+
+        END IF;
+
+        -- 5. Fall back to distributor / org default
+        IF v_rule_type IS NULL THEN
+          IF v_distributor_id IS NOT NULL THEN
+            v_rule_type           := v_base_dist_type;
+            v_rule_rate           := v_base_distributor_rate;
+            v_rule_use_cust_price := v_use_customer_price;
+            v_rule_source         := 'distributor_default';
+          ELSE
+            v_rule_type           := 'percent_margin';
+            v_rule_rate           := v_commission_rate;
+            v_rule_use_cust_price := false;
+            v_rule_source         := 'org_default';
+          END IF;
+        END IF;
+
+        -- Decide which price to use for margin
+        IF v_rule_use_cust_price THEN
+          v_effective_price := v_item_price;
+        ELSE
+          v_effective_price := v_item_retail_price;
+        END IF;
+
+        v_base_margin := (v_effective_price - v_item_cost) * v_item_quantity;
+        IF v_base_margin < 0 THEN
+          v_base_margin := 0;
+        END IF;
+        v_total_margin := v_total_margin + v_base_margin;
+
+        CASE v_rule_type
+          WHEN 'percent_margin' THEN
+            v_item_commission := v_base_margin * (v_rule_rate / 100);
+          WHEN 'percent_gross_sales' THEN
+            v_item_commission := (v_item_price * v_item_quantity) * (v_rule_rate / 100);
+          WHEN 'percent_net_sales' THEN
+            v_item_commission := (v_item_price * v_item_quantity) * (v_rule_rate / 100);
+          WHEN 'flat_per_order' THEN
+            v_item_commission := 0;
+          WHEN 'flat_per_unit' THEN
+            v_item_commission := v_rule_rate * v_item_quantity;
+          ELSE
+            v_item_commission := 0;
+        END CASE;
+
+        IF v_item_markup > 0 THEN
+          v_item_commission := v_item_commission + (v_item_markup * v_item_quantity);
+        END IF;
+
+        v_commission_amount := v_commission_amount + v_item_commission;
+
+        v_margin_details := v_margin_details || jsonb_build_object(
+          'productId', v_item->>'productId',
+          'name', v_item->>'name',
+          'price', v_item_price,
+          'cost', v_item_cost,
+          'quantity', v_item_quantity,
+          'discount', COALESCE((v_item->>'discount')::numeric, 0),
+          'margin', v_base_margin,
+          'ruleType', v_rule_type,
+          'ruleRate', v_rule_rate,
+          'ruleSource', v_rule_source,
+          'ruleId', v_rule_id,
+          'commission', v_item_commission,
+          'totalCommission', v_item_commission,
+          'effectivePrice', v_effective_price,
+          'useCustomerPrice', COALESCE(v_rule_use_cust_price, false),
+          'markup', v_item_markup
+        );
+      END LOOP;
+
+      -- Handle flat_per_order
+      IF v_base_dist_type = 'flat_per_order' AND v_distributor_id IS NOT NULL THEN
+        IF v_commission_amount = 0 THEN
+          v_commission_amount := v_base_distributor_rate;
+        END IF;
+      ELSIF v_rule_type = 'flat_per_order' AND v_distributor_id IS NULL THEN
+        v_commission_amount := v_commission_rate;
+      END IF;
+
+    END IF; -- end pricing model branch
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Split commission between sales rep and distributor
+    -- ════════════════════════════════════════════════════════════════════════
+    IF v_distributor_id IS NOT NULL THEN
+      IF v_pricing_model = 'wholesale' THEN
+        v_sales_rep_commission   := v_commission_amount * (v_sales_rep_rate / 100);
+        v_distributor_commission := v_commission_amount - v_sales_rep_commission;
+      ELSIF v_commission_split_type = 'percentage_of_distributor' THEN
+        v_sales_rep_commission  := v_commission_amount * (v_sales_rep_rate / 100);
+        v_distributor_commission := v_commission_amount - v_sales_rep_commission;
+      ELSIF v_commission_split_type = 'fixed_with_override' THEN
+        v_sales_rep_commission   := v_total_margin * (v_sales_rep_rate / 100);
+        v_distributor_commission := v_total_margin * (v_distributor_override_rate / 100);
+        IF NEW.items IS NOT NULL THEN
+          FOR v_item IN SELECT * FROM jsonb_array_elements(NEW.items)
+          LOOP
+            v_item_markup   := COALESCE((v_item->>'markup')::numeric, 0);
+            v_item_quantity := COALESCE((v_item->>'quantity')::integer, 1);
+            IF v_item_markup > 0 THEN
+              v_sales_rep_commission := v_sales_rep_commission + (v_item_markup * v_item_quantity);
+            END IF;
+          END LOOP;
+        END IF;
+        v_commission_amount := v_sales_rep_commission + v_distributor_commission;
+      ELSE
+        -- split_type = 'none': distributor assigned directly as rep
+        -- The full commission goes to the distributor
+        v_sales_rep_commission  := v_commission_amount;
+        v_distributor_commission := 0;
+      END IF;
+    ELSE
+      v_sales_rep_commission  := v_commission_amount;
+      v_distributor_commission := 0;
+    END IF;
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Company Rep payout
+    -- ════════════════════════════════════════════════════════════════════════
+    IF v_company_rep_id IS NOT NULL AND v_company_rep_rate > 0 THEN
+      IF v_pricing_model = 'wholesale' THEN
+        v_company_rep_commission := v_total_margin * (v_company_rep_rate / 100);
+      ELSE
+        v_your_margin := v_total_margin - v_distributor_commission;
+        IF v_your_margin < 0 THEN
+          v_your_margin := 0;
+        END IF;
+        v_company_rep_commission := v_your_margin * (v_company_rep_rate / 100);
+      END IF;
+    END IF;
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Upsert commission record
+    -- ════════════════════════════════════════════════════════════════════════
+    INSERT INTO commissions (
+      order_id, sales_rep_id, organization_id, distributor_id,
+      order_total, product_margin, margin_details, commission_rate,
+      commission_amount, sales_rep_commission, distributor_commission,
+      company_rep_commission, company_rep_id,
+      commission_split_type, status
+    ) VALUES (
+      NEW.id, v_resolved_sales_rep_id, NEW.organization_id, v_distributor_id,
+      NEW.total, v_total_margin, v_margin_details, v_commission_rate,
+      v_commission_amount, v_sales_rep_commission, v_distributor_commission,
+      v_company_rep_commission, v_company_rep_id,
+      v_commission_split_type, 'pending'
+    )
+    ON CONFLICT (order_id) DO UPDATE
+    SET
+      sales_rep_id           = EXCLUDED.sales_rep_id,
+      commission_rate        = EXCLUDED.commission_rate,
+      commission_amount      = EXCLUDED.commission_amount,
+      product_margin         = EXCLUDED.product_margin,
+      margin_details         = EXCLUDED.margin_details,
+      sales_rep_commission   = EXCLUDED.sales_rep_commission,
+      distributor_commission = EXCLUDED.distributor_commission,
+      company_rep_commission = EXCLUDED.company_rep_commission,
+      company_rep_id         = EXCLUDED.company_rep_id,
+      commission_split_type  = EXCLUDED.commission_split_type,
+      distributor_id         = EXCLUDED.distributor_id,
+      updated_at             = now()
+    RETURNING id INTO v_commission_id;
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Insert per-line-item commission records
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Delete old line items for this commission (recalculation case)
+    DELETE FROM commission_line_items WHERE commission_id = v_commission_id;
+
+    -- Insert new line items from margin_details
+    INSERT INTO commission_line_items (
+      commission_id, order_id, product_id, product_name, category_id,
+      quantity, unit_price, unit_cost, retail_price, markup,
+      base_margin, item_commission,
+      rule_source, rule_id, commission_type, commission_rate,
+      use_customer_price, effective_price, wholesale_price, spread,
+      discount_amount
+    )
+    SELECT
+      v_commission_id,
+      NEW.id,
+      (item->>'productId')::integer,
+      item->>'name',
+      (SELECT category_id FROM products WHERE id = (item->>'productId')::integer),
+      COALESCE((item->>'quantity')::integer, 1),
+      COALESCE((item->>'price')::numeric, 0),
+      COALESCE((item->>'cost')::numeric, 0),
+      (item->>'retailPrice')::numeric,
+      COALESCE((item->>'markup')::numeric, 0),
+      COALESCE((item->>'margin')::numeric, 0),
+      COALESCE((item->>'totalCommission')::numeric, 0),
+      COALESCE(item->>'ruleSource', 'default'),
+      (item->>'ruleId')::uuid,
+      COALESCE(item->>'ruleType', item->>'commissionType', 'percent_margin'),
+      COALESCE((item->>'ruleRate')::numeric, (item->>'commissionRate')::numeric, 0),
+      COALESCE((item->>'useCustomerPrice')::boolean, false),
+      (item->>'effectivePrice')::numeric,
+      (item->>'wholesalePrice')::numeric,
+      (item->>'spread')::numeric,
+      COALESCE((item->>'discount')::numeric, 0)
+    FROM jsonb_array_elements(v_margin_details) AS item;
+
+    -- ════════════════════════════════════════════════════════════════════════
+    -- Audit log
+    -- ════════════════════════════════════════════════════════════════════════
+    v_audit_details := jsonb_build_object(
+      'sales_rep_id', v_resolved_sales_rep_id,
+      'distributor_id', v_distributor_id,
+      'pricing_model', v_pricing_model,
+      'commission_rate', v_commission_rate,
+      'commission_split_type', v_commission_split_type,
+      'sales_rep_rate', v_sales_rep_rate,
+      'distributor_override_rate', v_distributor_override_rate,
+      'total_margin', v_total_margin,
+      'commission_amount', v_commission_amount,
+      'sales_rep_commission', v_sales_rep_commission,
+      'distributor_commission', v_distributor_commission,
+      'company_rep_commission', v_company_rep_commission,
+      'company_rep_id', v_company_rep_id,
+      'line_item_count', jsonb_array_length(v_margin_details)
+    );
+
+    INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+    VALUES (NEW.id, v_commission_id, 'calculated', v_audit_details);
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_commission_for_order() IS
+  'Calculates commission when an order is completed. Resolves sales rep from '
+  'order or organization_sales_reps. Falls back through distributor_rep_customers, '
+  'then checks if the assigned rep IS a distributor profile (direct assignment). '
+  'Does NOT default to 5% — requires explicit commission configuration. '
+  'Discount codes on order items reduce the price and margin commission is paid on. '
+  'An org-rep row ended by a territory reassignment still applies to orders placed before it ended. '
+  'Logs all decisions to commission_audit_log for transparency.';
@@ -0,0 +1,324 @@
+/*
+  # Sales rep CRM
+
+  Reps log calls, visits and emails against the organizations they cover,
+  schedule follow-up tasks with reminders, and track prospects through a
+  pipeline:
+
+    lead -> sampling -> first_order -> active
+
+  A customer's first order moves it to `first_order` and its second order to
+  `active`; reps move prospects between the earlier stages themselves.
+  Every stage change is written to the customer's activity timeline.
+
+  1. New Tables
+    - `crm_activities` - timeline entries: call, visit, email, note, and
+      stage_change (written by trigger)
+    - `crm_tasks` - follow-ups with a due time and an optional reminder time
+
+  2. Changes
+    - `organizations.pipeline_stage`, `pipeline_stage_changed_at`; existing
+      organizations are staged from their order count
+
+  3. Functions
+    - `get_customer_order_dates` - order dates for the caller's customers,
+      used to predict when each customer is due to reorder (reps can only
+      read orders they are the rep on)
+    - Triggers log stage changes and advance the stage when orders arrive
+
+  4. Security
+    - Admins see everything; reps and distributors see activities and tasks
+      for organizations they are actively assigned to, and their own tasks
+
+  5. Email
+    - `crm_follow_up_due` template sent by check-crm-follow-ups
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Pipeline stage
+-- ═══════════════════════════════════════
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS pipeline_stage text NOT NULL DEFAULT 'lead'
+  CHECK (pipeline_stage IN ('lead', 'sampling', 'first_order', 'active'));
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS pipeline_stage_changed_at timestamptz DEFAULT now();
+
+-- Existing customers are staged from the orders they have placed
+UPDATE organizations o
+SET pipeline_stage = CASE WHEN c.order_count >= 2 THEN 'active' ELSE 'first_order' END
+FROM (
+  SELECT organization_id, count(*) AS order_count
+  FROM orders
+  WHERE organization_id IS NOT NULL
+    AND status <> 'cancelled'
+    AND COALESCE(is_test_order, false) = false
+  GROUP BY organization_id
+) c
+WHERE c.organization_id = o.id;
+
+CREATE INDEX IF NOT EXISTS idx_organizations_pipeline_stage ON organizations(pipeline_stage);
+
+-- ═══════════════════════════════════════
+-- 2. Tables
+-- ═══════════════════════════════════════
+CREATE TABLE IF NOT EXISTS crm_activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  activity_type text NOT NULL CHECK (activity_type IN ('call', 'visit', 'email', 'note', 'stage_change')),
+  subject text NOT NULL,
+  body text,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS crm_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  assigned_to uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  activity_id uuid REFERENCES crm_activities(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  notes text,
+  due_at timestamptz NOT NULL,
+  remind_at timestamptz,
+  reminder_sent_at timestamptz,
+  completed_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_activities_org ON crm_activities(organization_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_org ON crm_tasks(organization_id);
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_open ON crm_tasks(assigned_to, due_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_reminders ON crm_tasks(remind_at)
+  WHERE completed_at IS NULL AND reminder_sent_at IS NULL;
+
+-- ═══════════════════════════════════════
+-- 3. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE crm_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crm_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage CRM activities"
+  ON crm_activities FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Assigned reps can view CRM activities"
+  ON crm_activities FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = crm_activities.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Assigned reps can log CRM activities"
+  ON crm_activities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = (select auth.uid())
+    AND activity_type <> 'stage_change'
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = crm_activities.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Reps can edit their own CRM activities"
+  ON crm_activities FOR UPDATE
+  TO authenticated
+  USING (author_id = (select auth.uid()) AND activity_type <> 'stage_change')
+  WITH CHECK (author_id = (select auth.uid()) AND activity_type <> 'stage_change');
+
+CREATE POLICY "Reps can delete their own CRM activities"
+  ON crm_activities FOR DELETE
+  TO authenticated
+  USING (author_id = (select auth.uid()) AND activity_type <> 'stage_change');
+
+CREATE POLICY "Admins can manage CRM tasks"
+  ON crm_tasks FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Reps can view their own and their customers' CRM tasks"
+  ON crm_tasks FOR SELECT
+  TO authenticated
+  USING (
+    assigned_to = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = crm_tasks.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Assigned reps can create CRM tasks for themselves"
+  ON crm_tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    assigned_to = (select auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = crm_tasks.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Reps can update their own CRM tasks"
+  ON crm_tasks FOR UPDATE
+  TO authenticated
+  USING (assigned_to = (select auth.uid()))
+  WITH CHECK (assigned_to = (select auth.uid()));
+
+CREATE POLICY "Reps can delete their own CRM tasks"
+  ON crm_tasks FOR DELETE
+  TO authenticated
+  USING (assigned_to = (select auth.uid()));
+
+-- ═══════════════════════════════════════
+-- 4. Pipeline triggers
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION log_pipeline_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.pipeline_stage IS NOT DISTINCT FROM OLD.pipeline_stage THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.pipeline_stage_changed_at := now();
+
+  INSERT INTO crm_activities (organization_id, author_id, activity_type, subject, body)
+  VALUES (
+    NEW.id,
+    (select auth.uid()),
+    'stage_change',
+    format('Stage changed to %s', replace(NEW.pipeline_stage, '_', ' ')),
+    format('%s -> %s', replace(OLD.pipeline_stage, '_', ' '), replace(NEW.pipeline_stage, '_', ' '))
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_pipeline_stage_change ON organizations;
+CREATE TRIGGER trigger_log_pipeline_stage_change
+  BEFORE UPDATE OF pipeline_stage ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION log_pipeline_stage_change();
+
+-- First order -> first_order, second order -> active. Customers are never
+-- moved backwards.
+CREATE OR REPLACE FUNCTION advance_pipeline_stage_on_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_stage text;
+  v_order_count integer;
+BEGIN
+  IF NEW.organization_id IS NULL OR COALESCE(NEW.is_test_order, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT pipeline_stage INTO v_stage FROM organizations WHERE id = NEW.organization_id;
+  IF v_stage IS NULL OR v_stage = 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_order_count
+  FROM orders
+  WHERE organization_id = NEW.organization_id
+    AND status <> 'cancelled'
+    AND COALESCE(is_test_order, false) = false;
+
+  UPDATE organizations
+  SET pipeline_stage = CASE WHEN v_order_count >= 2 THEN 'active' ELSE 'first_order' END
+  WHERE id = NEW.organization_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_advance_pipeline_stage_on_order ON orders;
+CREATE TRIGGER trigger_advance_pipeline_stage_on_order
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION advance_pipeline_stage_on_order();
+
+-- ═══════════════════════════════════════
+-- 5. Reorder history
+-- ═══════════════════════════════════════
+
+-- Order dates for the organizations a rep covers, including orders placed
+-- under a previous rep. Admins may pass the rep they are viewing as.
+CREATE OR REPLACE FUNCTION get_customer_order_dates(p_sales_rep_id uuid DEFAULT NULL)
+RETURNS TABLE (organization_id uuid, ordered_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_rep uuid := (select auth.uid());
+BEGIN
+  IF p_sales_rep_id IS NOT NULL AND p_sales_rep_id <> v_rep THEN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_rep AND role = 'admin') THEN
+      RAISE EXCEPTION 'Only admins can view another rep''s customers';
+    END IF;
+    v_rep := p_sales_rep_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT o.organization_id, o.created_at
+  FROM orders o
+  JOIN organization_sales_reps osr
+    ON osr.organization_id = o.organization_id
+   AND osr.sales_rep_id = v_rep
+   AND osr.is_active = true
+  WHERE o.status <> 'cancelled'
+    AND COALESCE(o.is_test_order, false) = false
+    AND o.created_at >= now() - interval '18 months'
+  ORDER BY o.organization_id, o.created_at;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 6. Email template
+-- ═══════════════════════════════════════
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'crm_follow_up_due',
+  'CRM Follow-up Reminder',
+  'Follow up with {{organization_name}}: {{task_title}}',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Follow-up Reminder</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Hi {{rep_name}}, you have a follow-up with <strong>{{organization_name}}</strong> due <strong>{{due_on}}</strong>.</p>
+<div style="background:#eff6ff;border:1px solid #bfdbfe;border-radius:8px;padding:16px;margin-bottom:16px;">
+  <p style="color:#1e3a8a;font-size:14px;font-weight:600;margin:0 0 4px 0;">{{task_title}}</p>
+  <p style="color:#1e40af;font-size:14px;margin:0;">{{task_notes}}</p>
+</div>
+<p style="color:#6b7280;font-size:14px;">Mark it done under My Customers once you have followed up.</p>$$,
+  '[
+    {"key":"rep_name","description":"Sales rep name","example":"Jordan"},
+    {"key":"organization_name","description":"Organization name","example":"Acme Clinic"},
+    {"key":"task_title","description":"Follow-up title","example":"Check on sample kit"},
+    {"key":"task_notes","description":"Follow-up notes","example":"Ask which sizes they prefer"},
+    {"key":"due_on","description":"When the follow-up is due","example":"April 30, 2026"}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
@@ -0,0 +1,247 @@
+/*
+  # Catalog search
+
+  Product search moves to the database so it can match more than the name
+  and benefits, rank results and count facets without loading the whole
+  catalog into the browser.
+
+  1. Changes
+    - `products.search_vector` - weighted full-text document: name, SKU and
+      brand (A), reference fields (B), benefits (C), description (D)
+    - `products.search_keywords` - lower-cased name, SKU, brand and
+      reference fields, used for substring and typo-tolerant matching
+    - Both are maintained by trigger, including when a brand is renamed
+
+  2. Functions
+    - `search_products` - one page of active products plus facet counts for
+      category, brand, price band and contract pricing. Each facet is counted
+      with every other filter applied, so selecting a brand still shows how
+      many products the other brands have
+
+  3. Matching and ranking
+    - A product matches when its full-text document matches the query, its
+      keywords contain the query, or a keyword is a close trigram match
+      (tolerates typos such as "magnesum")
+    - An exact SKU match ranks first, then SKU and name prefixes, then
+      full-text rank and trigram similarity
+    - Without a query, products keep the catalog sort order
+
+  4. Security
+    - SECURITY INVOKER: products, brands, categories and contract pricing
+      are read under the caller's RLS policies
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- ═══════════════════════════════════════
+-- 1. Search columns
+-- ═══════════════════════════════════════
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_keywords text;
+
+CREATE OR REPLACE FUNCTION refresh_product_search()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_brand text;
+  v_benefits text;
+  v_description text;
+BEGIN
+  SELECT name INTO v_brand FROM brands WHERE id = NEW.brand_id;
+
+  SELECT string_agg(f->>'value', ' ') INTO v_benefits
+  FROM jsonb_array_elements(COALESCE(to_jsonb(NEW.custom_fields), '[]'::jsonb)) f
+  WHERE lower(f->>'name') = 'benefit';
+
+  v_description := COALESCE(
+    NULLIF(NEW.plain_text_description, ''),
+    regexp_replace(COALESCE(NEW.description, ''), '<[^>]+>', ' ', 'g')
+  );
+
+  NEW.search_vector :=
+    setweight(to_tsvector('english', concat_ws(' ', NEW.name, NEW.sku, v_brand)), 'A')
+    || setweight(to_tsvector('english', concat_ws(' ', NEW.reference_1, NEW.reference_2, NEW.reference_3)), 'B')
+    || setweight(to_tsvector('english', COALESCE(v_benefits, '')), 'C')
+    || setweight(to_tsvector('english', v_description), 'D');
+
+  NEW.search_keywords := lower(concat_ws(' ', NEW.name, NEW.sku, v_brand, NEW.reference_1, NEW.reference_2, NEW.reference_3));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_product_search ON products;
+CREATE TRIGGER trg_refresh_product_search
+  BEFORE INSERT OR UPDATE OF name, sku, brand_id, description, plain_text_description,
+    reference_1, reference_2, reference_3, custom_fields
+  ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_search();
+
+-- Renaming a brand refreshes its products' search columns
+CREATE OR REPLACE FUNCTION refresh_brand_product_search()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE products SET brand_id = brand_id WHERE brand_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_brand_product_search ON brands;
+CREATE TRIGGER trg_refresh_brand_product_search
+  AFTER UPDATE OF name ON brands
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_brand_product_search();
+
+-- Backfill
+UPDATE products SET name = name;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_keywords ON products USING gin(search_keywords extensions.gin_trgm_ops);
+
+-- ═══════════════════════════════════════
+-- 2. search_products
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_brand_ids uuid[] DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_contract_only boolean DEFAULT false,
+  p_organization_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public', 'extensions', 'pg_temp'
+AS $$
+DECLARE
+  v_query text := lower(NULLIF(btrim(p_query), ''));
+  v_tsquery tsquery;
+  v_result jsonb;
+BEGIN
+  IF v_query IS NOT NULL THEN
+    v_tsquery := websearch_to_tsquery('english', v_query);
+  END IF;
+
+  WITH contract AS (
+    -- Products with current contract pricing for the selected organization
+    SELECT DISTINCT cp.product_id
+    FROM contract_pricing cp
+    WHERE p_organization_id IS NOT NULL
+      AND cp.pricing_type = 'organization'
+      AND cp.entity_id::text = p_organization_id::text
+      AND COALESCE(cp.is_orphaned, false) = false
+      AND (cp.effective_date IS NULL OR cp.effective_date <= now())
+      AND (cp.expiry_date IS NULL OR cp.expiry_date > now())
+  ),
+  matched AS (
+    SELECT
+      p.*,
+      (c.product_id IS NOT NULL) AS contract_priced,
+      CASE WHEN v_query IS NULL THEN 0 ELSE
+        CASE WHEN lower(p.sku) = v_query THEN 100 ELSE 0 END
+        + CASE WHEN lower(p.sku) LIKE v_query || '%' THEN 20 ELSE 0 END
+        + CASE WHEN lower(p.name) LIKE v_query || '%' THEN 10 ELSE 0 END
+        + COALESCE(ts_rank_cd(p.search_vector, v_tsquery), 0) * 10
+        + word_similarity(v_query, p.search_keywords) * 5
+      END AS rank
+    FROM products p
+    LEFT JOIN contract c ON c.product_id = p.id
+    WHERE p.is_active = true
+      AND (
+        v_query IS NULL
+        OR p.search_vector @@ v_tsquery
+        OR position(v_query IN p.search_keywords) > 0
+        OR word_similarity(v_query, p.search_keywords) >= 0.5
+      )
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (p_category_id IS NULL OR m.category_id = p_category_id
+        OR m.category_id IN (SELECT id FROM categories WHERE parent_id = p_category_id)) AS in_category,
+      (p_brand_ids IS NULL OR cardinality(p_brand_ids) = 0 OR m.brand_id = ANY(p_brand_ids)) AS in_brand,
+      ((p_min_price IS NULL OR m.price >= p_min_price) AND (p_max_price IS NULL OR m.price < p_max_price)) AS in_price,
+      (NOT COALESCE(p_contract_only, false) OR m.contract_priced) AS in_contract
+    FROM matched m
+  ),
+  results AS (
+    SELECT * FROM flagged WHERE in_category AND in_brand AND in_price AND in_contract
+  ),
+  page AS (
+    SELECT r.*
+    FROM results r
+    ORDER BY r.rank DESC, r.sort_order, r.name
+    LIMIT GREATEST(p_limit, 1) OFFSET GREATEST(p_offset, 0)
+  ),
+  bands(min_price, max_price) AS (
+    VALUES (0::numeric, 25::numeric), (25, 50), (50, 100), (100, 250), (250, NULL)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM results),
+    'products', COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(pg) - 'search_vector' - 'search_keywords' - 'in_category' - 'in_brand' - 'in_price' - 'in_contract'
+          || jsonb_build_object(
+            'categories', (SELECT jsonb_build_object('name', cat.name) FROM categories cat WHERE cat.id = pg.category_id),
+            'brands', (SELECT jsonb_build_object('name', b.name) FROM brands b WHERE b.id = pg.brand_id)
+          )
+        ORDER BY pg.rank DESC, pg.sort_order, pg.name
+      )
+      FROM page pg
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_object_agg(category_id, n)
+        FROM (
+          SELECT category_id, count(*) AS n FROM flagged
+          WHERE in_brand AND in_price AND in_contract AND category_id IS NOT NULL
+          GROUP BY category_id
+        ) f
+      ), '{}'::jsonb),
+      'brands', COALESCE((
+        -- Selected brands stay listed at zero so they can be cleared
+        SELECT jsonb_agg(jsonb_build_object('id', b.id, 'name', b.name, 'count', COALESCE(f.n, 0)) ORDER BY b.name)
+        FROM brands b
+        LEFT JOIN (
+          SELECT brand_id, count(*) AS n FROM flagged
+          WHERE in_category AND in_price AND in_contract AND brand_id IS NOT NULL
+          GROUP BY brand_id
+        ) f ON f.brand_id = b.id
+        WHERE f.n IS NOT NULL OR b.id = ANY(COALESCE(p_brand_ids, '{}'))
+      ), '[]'::jsonb),
+      'price_bands', (
+        SELECT jsonb_agg(jsonb_build_object(
+          'min', bd.min_price,
+          'max', bd.max_price,
+          'count', (
+            SELECT count(*) FROM flagged
+            WHERE in_category AND in_brand AND in_contract
+              AND price >= bd.min_price AND (bd.max_price IS NULL OR price < bd.max_price)
+          )
+        ) ORDER BY bd.min_price)
+        FROM bands bd
+      ),
+      'contract_priced', (
+        SELECT count(*) FROM flagged WHERE in_category AND in_brand AND in_price AND contract_priced
+      )
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+COMMENT ON FUNCTION search_products(text, uuid, uuid[], numeric, numeric, boolean, uuid, integer, integer) IS
+  'Ranked, paginated search over active products with category, brand, price band and contract pricing facets. The price range is min inclusive, max exclusive.';
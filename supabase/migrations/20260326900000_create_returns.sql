@@ -0,0 +1,415 @@
+/*
+  # Returns (RMA)
+
+  Customers request a return per order line with a reason code. An admin
+  approves it, which issues an RMA number and optionally a return label, or
+  rejects it. When the package arrives the warehouse records how many units
+  came back and their condition; resaleable units go back into stock and the
+  app refunds the received lines through the payment provider.
+
+    requested -> approved -> received -> refunded
+              -> rejected             -> closed (refund settled elsewhere,
+              -> cancelled (by the customer)     e.g. an invoice credit)
+
+  1. New Tables
+    - `return_requests` - one per request against a single order row (a
+      split or backorder is its own order row)
+    - `return_request_lines` - requested quantity and reason per product;
+      received quantity, condition and restocked units once received
+
+  2. Functions
+    - `request_return` - order owner (or an admin); quantities are checked
+      against what was ordered less what is already on open returns, and
+      only orders that have shipped can be returned
+    - `cancel_return_request` - the requester, while still requested
+    - `approve_return` / `reject_return` - admin only; approval assigns the
+      RMA number
+    - `receive_return` - admin only; records receipt and restocks
+      resaleable units with a `returned` inventory adjustment
+
+  3. Security
+    - Admins manage all returns; customers see returns on their own orders.
+      Customers write only through the functions above
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE SEQUENCE IF NOT EXISTS return_rma_seq;
+
+CREATE TABLE IF NOT EXISTS return_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Assigned on approval
+  rma_number text UNIQUE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL,
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN (
+    'requested', 'approved', 'rejected', 'cancelled', 'received', 'refunded', 'closed'
+  )),
+  customer_notes text,
+  admin_notes text,
+  rejection_reason text,
+  return_carrier text,
+  return_tracking_number text,
+  return_label_url text,
+  approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  received_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  received_at timestamptz,
+  refund_amount numeric(10,2),
+  -- Last failed refund attempt; cleared once the refund goes through
+  refund_error text,
+  refunded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order ON return_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status ON return_requests(status, created_at);
+
+CREATE TABLE IF NOT EXISTS return_request_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid NOT NULL REFERENCES return_requests(id) ON DELETE CASCADE,
+  product_id integer NOT NULL,
+  -- Price paid per unit after any discount code, copied from the order
+  -- Price paid, copied from the order
+  unit_price numeric(10,2) NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason_code text NOT NULL CHECK (reason_code IN (
+    'damaged', 'defective', 'wrong_item', 'not_as_described', 'expired', 'no_longer_needed', 'other'
+  )),
+  reason_note text,
+  received_quantity integer CHECK (received_quantity >= 0),
+  condition text CHECK (condition IN ('resaleable', 'opened', 'damaged', 'expired')),
+  restocked_quantity integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_request_lines_return ON return_request_lines(return_id);
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_request_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage returns"
+  ON return_requests FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Customers can view returns on their orders"
+  ON return_requests FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders o WHERE o.id = return_requests.order_id AND o.user_id = (select auth.uid())));
+
+CREATE POLICY "Admins can manage return lines"
+  ON return_request_lines FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin'));
+
+CREATE POLICY "Customers can view lines on their returns"
+  ON return_request_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM return_requests r
+      JOIN orders o ON o.id = r.order_id
+      WHERE r.id = return_request_lines.return_id
+        AND o.user_id = (select auth.uid())
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 3. request_return
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION request_return(
+  p_order_id uuid,
+  p_lines jsonb,
+  p_notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line jsonb;
+  v_product_id integer;
+  v_quantity integer;
+  v_ordered integer;
+  v_requested integer;
+  v_name text;
+  v_price numeric;
+  v_return_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.user_id IS DISTINCT FROM (select auth.uid())
+     AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'You can only return items from your own orders';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'This order was % and cannot be returned', v_order.status;
+  END IF;
+
+  IF v_order.status <> 'completed' AND jsonb_array_length(COALESCE(v_order.shipments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Items can be returned once the order has shipped';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  INSERT INTO return_requests (order_id, organization_id, requested_by, customer_notes)
+  VALUES (p_order_id, v_order.organization_id, (select auth.uid()), NULLIF(trim(p_notes), ''))
+  RETURNING id INTO v_return_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_product_id := (v_line->>'product_id')::integer;
+    v_quantity := (v_line->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Return quantities must be at least 1';
+    END IF;
+
+    IF v_line->>'reason_code' = 'other' AND COALESCE(trim(v_line->>'reason_note'), '') = '' THEN
+      RAISE EXCEPTION 'Describe the reason when choosing Other';
+    END IF;
+
+    -- Price actually paid per unit: the line's discount code share is for
+    -- the whole line, so it is spread over its units
+    SELECT sum((i->>'quantity')::integer), max(i->>'name'),
+           round(
+             (sum((i->>'price')::numeric * (i->>'quantity')::integer) - sum(COALESCE((i->>'discount')::numeric, 0)))
+             / NULLIF(sum((i->>'quantity')::integer), 0),
+             2)
+    INTO v_ordered, v_name, v_price
+    FROM jsonb_array_elements(COALESCE(v_order.items, '[]'::jsonb)) i
+    WHERE (i->>'productId')::integer = v_product_id;
+
+    IF v_ordered IS NULL THEN
+      RAISE EXCEPTION 'Product % is not on this order', v_product_id;
+    END IF;
+
+    -- Includes lines already inserted for this request
+    SELECT COALESCE(sum(l.quantity), 0) INTO v_requested
+    FROM return_request_lines l
+    JOIN return_requests r ON r.id = l.return_id
+    WHERE r.order_id = p_order_id
+      AND r.status NOT IN ('rejected', 'cancelled')
+      AND l.product_id = v_product_id;
+
+    IF v_requested + v_quantity > v_ordered THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', v_ordered - v_requested, v_name;
+    END IF;
+
+    INSERT INTO return_request_lines (return_id, product_id, product_name, unit_price, quantity, reason_code, reason_note)
+    VALUES (v_return_id, v_product_id, v_name, COALESCE(v_price, 0), v_quantity,
+            v_line->>'reason_code', NULLIF(trim(v_line->>'reason_note'), ''));
+  END LOOP;
+
+  RETURN v_return_id;
+END;
+$$;
+
+COMMENT ON FUNCTION request_return IS 'Customer return request for lines of one shipped order; p_lines is [{product_id, quantity, reason_code, reason_note}]';
+
+CREATE OR REPLACE FUNCTION cancel_return_request(p_return_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE return_requests
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = p_return_id
+    AND requested_by = (select auth.uid())
+    AND status = 'requested';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own requests can be cancelled, and only before they are approved';
+  END IF;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 4. Approval
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION approve_return(
+  p_return_id uuid,
+  p_carrier text DEFAULT NULL,
+  p_tracking_number text DEFAULT NULL,
+  p_label_url text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_rma text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve returns';
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'approved',
+      rma_number = 'RMA-' || lpad(nextval('return_rma_seq')::text, 6, '0'),
+      return_carrier = NULLIF(trim(p_carrier), ''),
+      return_tracking_number = NULLIF(trim(p_tracking_number), ''),
+      return_label_url = NULLIF(trim(p_label_url), ''),
+      admin_notes = NULLIF(trim(p_notes), ''),
+      approved_by = (select auth.uid()),
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_return_id AND status = 'requested'
+  RETURNING rma_number INTO v_rma;
+
+  IF v_rma IS NULL THEN
+    RAISE EXCEPTION 'Only requested returns can be approved';
+  END IF;
+
+  RETURN v_rma;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_return(p_return_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reject returns';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Tell the customer why the return was rejected';
+  END IF;
+
+  UPDATE return_requests
+  SET status = 'rejected', rejection_reason = trim(p_reason), updated_at = now()
+  WHERE id = p_return_id AND status = 'requested';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only requested returns can be rejected';
+  END IF;
+END;
+$$;
+
+-- ═══════════════════════════════════════
+-- 5. Receipt and restocking
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION receive_return(
+  p_return_id uuid,
+  p_lines jsonb,
+  p_warehouse_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_return return_requests%ROWTYPE;
+  v_line return_request_lines%ROWTYPE;
+  v_input jsonb;
+  v_received integer;
+  v_condition text;
+  v_warehouse_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = (select auth.uid()) AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can receive returns';
+  END IF;
+
+  SELECT * INTO v_return FROM return_requests WHERE id = p_return_id FOR UPDATE;
+  IF NOT FOUND OR v_return.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  v_warehouse_id := COALESCE(p_warehouse_id, (SELECT id FROM warehouses WHERE is_default));
+
+  PERFORM set_config('app.inventory_write', 'on', true);
+
+  FOR v_line IN SELECT * FROM return_request_lines WHERE return_id = p_return_id LOOP
+    SELECT l INTO v_input FROM jsonb_array_elements(p_lines) l WHERE (l->>'line_id')::uuid = v_line.id;
+    v_received := COALESCE((v_input->>'received_quantity')::integer, 0);
+    v_condition := NULLIF(v_input->>'condition', '');
+
+    IF v_received < 0 OR v_received > v_line.quantity THEN
+      RAISE EXCEPTION 'Received quantity for % must be between 0 and %', v_line.product_name, v_line.quantity;
+    END IF;
+    IF v_received > 0 AND v_condition IS NULL THEN
+      RAISE EXCEPTION 'Record the condition of %', v_line.product_name;
+    END IF;
+
+    -- Only resaleable units go back on the shelf
+    IF v_received > 0 AND v_condition = 'resaleable' THEN
+      IF v_warehouse_id IS NULL THEN
+        RAISE EXCEPTION 'No warehouse specified and no default warehouse configured';
+      END IF;
+
+      INSERT INTO inventory_levels (product_id, warehouse_id, on_hand)
+      VALUES (v_line.product_id, v_warehouse_id, v_received)
+      ON CONFLICT (product_id, warehouse_id) DO UPDATE
+        SET on_hand = inventory_levels.on_hand + v_received,
+            updated_at = now();
+
+      INSERT INTO inventory_adjustments (product_id, warehouse_id, quantity_change, reason, order_id, note, created_by)
+      VALUES (v_line.product_id, v_warehouse_id, v_received, 'returned', v_return.order_id, v_return.rma_number, (select auth.uid()));
+    END IF;
+
+    UPDATE return_request_lines
+    SET received_quantity = v_received,
+        condition = v_condition,
+        restocked_quantity = CASE WHEN v_condition = 'resaleable' THEN v_received ELSE 0 END
+    WHERE id = v_line.id;
+  END LOOP;
+
+  PERFORM set_config('app.inventory_write', 'off', true);
+
+  UPDATE return_requests
+  SET status = 'received', received_by = (select auth.uid()), received_at = now(), updated_at = now()
+  WHERE id = p_return_id;
+END;
+$$;
+
+COMMENT ON FUNCTION receive_return IS 'Records returned units and their condition ([{line_id, received_quantity, condition}]) and restocks resaleable units; the refund is issued by the app afterwards';
+
+-- ═══════════════════════════════════════
+-- 6. Email template
+-- ═══════════════════════════════════════
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'return_status_update',
+  'Return Status Update',
+  'Your return for order {{order_number}}: {{status_label}}',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Return {{status_label}}</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">Your return for order <strong>{{order_number}}</strong> has been updated.</p>
+<div style="background:#f9fafb;border:1px solid #e5e7eb;border-radius:8px;padding:16px;margin-bottom:16px;">
+  <p style="color:#111827;font-size:14px;font-weight:600;margin:0 0 4px 0;">{{rma_number}}</p>
+  <p style="color:#374151;font-size:14px;margin:0;white-space:pre-wrap;">{{message}}</p>
+</div>
+<p style="color:#6b7280;font-size:14px;">You can follow your return under My Orders.</p>$$,
+  '[
+    {"key":"order_number","description":"Order number","example":"ORD-10042"},
+    {"key":"rma_number","description":"RMA number, once approved","example":"RMA-000123"},
+    {"key":"status_label","description":"New status","example":"Approved"},
+    {"key":"message","description":"What happens next","example":"Write RMA-000123 on the package and use the enclosed label."}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
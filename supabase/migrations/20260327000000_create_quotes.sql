@@ -0,0 +1,460 @@
+/*
+  # Quotes
+
+  Sales reps negotiate by phone but could only place orders through the
+  customer's own checkout. A rep now builds a quote for an organization with
+  negotiated line prices, an expiry date and notes, and emails it to a contact
+  there. Anyone in the organization can accept it online: they check out with
+  the quoted lines, and the order insert is checked against the quote so the
+  prices are locked and the quoting rep is credited for commission.
+
+    draft -> sent -> accepted (an order was placed from it)
+                  -> declined (by the customer)
+          -> cancelled (by the rep or an admin)
+    A sent quote past its expiry date can no longer be accepted.
+
+  1. New Tables
+    - `quotes` - one per organization, with the rep credited, the contact it
+      was sent to, expiry date, customer-facing and internal notes and the
+      order it became
+    - `quote_lines` - product, quantity, list price when quoted and the
+      negotiated unit price
+
+  2. Changes to `orders`
+    - `quote_id` - quote the order was placed from
+
+  3. Pricing limits
+    - `site_settings` under the `quotes` category: minimum margin over cost
+      and maximum discount off list price. A trigger on `quote_lines` rejects
+      prices below either floor unless an admin sets them
+
+  4. Acceptance
+    - A BEFORE INSERT trigger on `orders` checks the quote is open and
+      unexpired, that the items and prices match it exactly and that the
+      customer belongs to the organization, then sets `sales_rep_id` to the
+      quoting rep. An AFTER INSERT trigger marks the quote accepted
+    - Backorder and vendor splits of a quoted order keep its rep
+    - `decline_quote` lets the customer turn a quote down with a reason
+
+  5. Security
+    - Admins manage all quotes. Reps manage their own quotes for
+      organizations they are assigned to; lines are editable while draft.
+      Organization members see quotes once sent
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Tables
+-- ═══════════════════════════════════════
+CREATE SEQUENCE IF NOT EXISTS quote_number_seq;
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_number text NOT NULL UNIQUE DEFAULT ('Q-' || lpad(nextval('quote_number_seq')::text, 6, '0')),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Credited with the commission on the resulting order
+  sales_rep_id uuid NOT NULL REFERENCES profiles(id),
+  contact_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  contact_email text,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'cancelled')),
+  -- Last day the quote can be accepted
+  expires_at date NOT NULL,
+  notes text,
+  internal_notes text,
+  decline_reason text,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  sent_at timestamptz,
+  accepted_at timestamptz,
+  accepted_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  declined_at timestamptz,
+  created_by uuid REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_organization ON quotes(organization_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_quotes_sales_rep ON quotes(sales_rep_id, status);
+
+CREATE TABLE IF NOT EXISTS quote_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  product_id integer NOT NULL REFERENCES products(id),
+  product_name text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  -- Catalog price when the line was saved; set by the pricing trigger
+  list_price numeric(10,2) NOT NULL DEFAULT 0,
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_lines_quote ON quote_lines(quote_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES quotes(id) ON DELETE SET NULL;
+
+INSERT INTO site_settings (key, value, category, label, description) VALUES
+  ('quote_min_margin_percent', '15', 'quotes', 'Minimum Quote Margin (%)', 'Sales reps cannot quote a price with less margin over product cost than this'),
+  ('quote_max_discount_percent', '30', 'quotes', 'Maximum Quote Discount (%)', 'Sales reps cannot quote more than this percentage off the list price'),
+  ('quote_default_valid_days', '30', 'quotes', 'Quote Validity (days)', 'Default number of days a new quote can be accepted')
+ON CONFLICT (key) DO NOTHING;
+
+-- ═══════════════════════════════════════
+-- 2. RLS
+-- ═══════════════════════════════════════
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quote_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage quotes"
+  ON quotes FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Reps can view their quotes"
+  ON quotes FOR SELECT
+  TO authenticated
+  USING (sales_rep_id = (select auth.uid()));
+
+CREATE POLICY "Assigned reps can create quotes"
+  ON quotes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sales_rep_id = (select auth.uid())
+    AND status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = quotes.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Reps can update their open quotes"
+  ON quotes FOR UPDATE
+  TO authenticated
+  USING (sales_rep_id = (select auth.uid()) AND status IN ('draft', 'sent'))
+  WITH CHECK (
+    sales_rep_id = (select auth.uid())
+    AND status IN ('draft', 'sent', 'cancelled')
+    AND EXISTS (
+      SELECT 1 FROM organization_sales_reps osr
+      WHERE osr.organization_id = quotes.organization_id
+        AND osr.sales_rep_id = (select auth.uid())
+        AND osr.is_active = true
+    )
+  );
+
+CREATE POLICY "Reps can delete their draft quotes"
+  ON quotes FOR DELETE
+  TO authenticated
+  USING (sales_rep_id = (select auth.uid()) AND status = 'draft');
+
+CREATE POLICY "Organization members can view sent quotes"
+  ON quotes FOR SELECT
+  TO authenticated
+  USING (
+    status IN ('sent', 'accepted', 'declined')
+    AND EXISTS (
+      SELECT 1 FROM user_organization_roles uor
+      WHERE uor.organization_id = quotes.organization_id
+        AND uor.user_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Admins can manage quote lines"
+  ON quote_lines FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Reps can view lines on their quotes"
+  ON quote_lines FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM quotes q WHERE q.id = quote_lines.quote_id AND q.sales_rep_id = (select auth.uid())));
+
+CREATE POLICY "Reps can edit lines on their draft quotes"
+  ON quote_lines FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM quotes q
+    WHERE q.id = quote_lines.quote_id AND q.sales_rep_id = (select auth.uid()) AND q.status = 'draft'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM quotes q
+    WHERE q.id = quote_lines.quote_id AND q.sales_rep_id = (select auth.uid()) AND q.status = 'draft'
+  ));
+
+CREATE POLICY "Organization members can view lines on sent quotes"
+  ON quote_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes q
+      JOIN user_organization_roles uor ON uor.organization_id = q.organization_id
+      WHERE q.id = quote_lines.quote_id
+        AND q.status IN ('sent', 'accepted', 'declined')
+        AND uor.user_id = (select auth.uid())
+    )
+  );
+
+-- ═══════════════════════════════════════
+-- 3. Pricing limits
+-- ═══════════════════════════════════════
+
+-- Lowest price a rep may quote: the greater of cost plus the minimum margin
+-- (margin as a share of the price) and list price less the maximum
+-- discount, rounded up to the cent. Mirrored by quotePriceFloor() in
+-- src/services/quotes.ts.
+CREATE OR REPLACE FUNCTION quote_price_floor(p_list_price numeric, p_cost numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_min_margin numeric;
+  v_max_discount numeric;
+  v_cost_floor numeric := 0;
+BEGIN
+  SELECT (value #>> '{}')::numeric INTO v_min_margin FROM site_settings WHERE key = 'quote_min_margin_percent';
+  SELECT (value #>> '{}')::numeric INTO v_max_discount FROM site_settings WHERE key = 'quote_max_discount_percent';
+
+  IF COALESCE(p_cost, 0) > 0 AND COALESCE(v_min_margin, 0) < 100 THEN
+    v_cost_floor := ceil(p_cost / (1 - COALESCE(v_min_margin, 0) / 100) * 100) / 100;
+  END IF;
+
+  RETURN GREATEST(
+    v_cost_floor,
+    ceil(COALESCE(p_list_price, 0) * (1 - LEAST(COALESCE(v_max_discount, 100), 100) / 100) * 100) / 100
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_quote_line_price()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_product record;
+  v_floor numeric;
+BEGIN
+  SELECT name, price, cost INTO v_product FROM products WHERE id = NEW.product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', NEW.product_id;
+  END IF;
+
+  NEW.list_price := v_product.price;
+
+  -- Admins may approve a price outside the limits
+  IF NOT public.is_admin() THEN
+    v_floor := quote_price_floor(v_product.price, v_product.cost);
+    IF NEW.unit_price < v_floor THEN
+      RAISE EXCEPTION 'Price for % is below the allowed minimum of $%', v_product.name, to_char(v_floor, 'FM999999990.00');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_quote_line_price ON quote_lines;
+CREATE TRIGGER trigger_enforce_quote_line_price
+  BEFORE INSERT OR UPDATE OF product_id, unit_price ON quote_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_quote_line_price();
+
+-- ═══════════════════════════════════════
+-- 4. Acceptance
+-- ═══════════════════════════════════════
+CREATE OR REPLACE FUNCTION apply_quote_to_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+BEGIN
+  -- Lock the quote so it cannot be accepted twice
+  SELECT * INTO v_quote FROM quotes WHERE id = NEW.quote_id FOR UPDATE;
+
+  IF NOT FOUND OR v_quote.status <> 'sent' THEN
+    RAISE EXCEPTION 'This quote is no longer open';
+  END IF;
+
+  IF v_quote.expires_at < current_date THEN
+    RAISE EXCEPTION 'Quote % expired on %', v_quote.quote_number, v_quote.expires_at;
+  END IF;
+
+  IF NEW.organization_id IS DISTINCT FROM v_quote.organization_id THEN
+    RAISE EXCEPTION 'Quote % is for a different organization', v_quote.quote_number;
+  END IF;
+
+  IF NOT public.is_admin() AND NOT EXISTS (
+    SELECT 1 FROM user_organization_roles
+    WHERE organization_id = v_quote.organization_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Only members of the organization can accept quote %', v_quote.quote_number;
+  END IF;
+
+  IF NEW.discount_code_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Discount codes cannot be combined with a quote';
+  END IF;
+
+  -- Every quoted line at its quoted price and quantity, and nothing else
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT (item->>'productId')::integer AS product_id,
+             SUM((item->>'quantity')::integer) AS quantity,
+             MIN(round((item->>'price')::numeric, 2)) AS min_price,
+             MAX(round((item->>'price')::numeric, 2)) AS max_price
+      FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb)) AS item
+      GROUP BY 1
+    ) i
+    FULL JOIN (SELECT * FROM quote_lines WHERE quote_id = v_quote.id) ql ON ql.product_id = i.product_id
+    WHERE ql.id IS NULL
+       OR i.product_id IS NULL
+       OR i.quantity <> ql.quantity
+       OR i.min_price <> ql.unit_price
+       OR i.max_price <> ql.unit_price
+  ) THEN
+    RAISE EXCEPTION 'Order items do not match quote %', v_quote.quote_number;
+  END IF;
+
+  NEW.sales_rep_id := v_quote.sales_rep_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_quote_to_order ON orders;
+CREATE TRIGGER trigger_apply_quote_to_order
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.quote_id IS NOT NULL)
+  EXECUTE FUNCTION apply_quote_to_order();
+
+CREATE OR REPLACE FUNCTION mark_quote_accepted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE quotes
+     SET status = 'accepted',
+         order_id = NEW.id,
+         accepted_at = now(),
+         accepted_by = NEW.user_id,
+         updated_at = now()
+   WHERE id = NEW.quote_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_mark_quote_accepted ON orders;
+CREATE TRIGGER trigger_mark_quote_accepted
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.quote_id IS NOT NULL)
+  EXECUTE FUNCTION mark_quote_accepted();
+
+-- Splits are inserted without a rep, which would credit the organization's
+-- default rep; parts of a quoted order stay with the quoting rep
+CREATE OR REPLACE FUNCTION inherit_quote_sales_rep()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  SELECT o.sales_rep_id INTO NEW.sales_rep_id
+    FROM orders o
+   WHERE o.id = COALESCE(NEW.split_from_order_id, NEW.parent_order_id)
+     AND o.quote_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_inherit_quote_sales_rep ON orders;
+CREATE TRIGGER trigger_inherit_quote_sales_rep
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.sales_rep_id IS NULL AND NEW.quote_id IS NULL
+        AND (NEW.split_from_order_id IS NOT NULL OR NEW.parent_order_id IS NOT NULL))
+  EXECUTE FUNCTION inherit_quote_sales_rep();
+
+CREATE OR REPLACE FUNCTION decline_quote(p_quote_id uuid, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_quote quotes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM user_organization_roles
+    WHERE organization_id = v_quote.organization_id AND user_id = (select auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.status <> 'sent' THEN
+    RAISE EXCEPTION 'Quote % is no longer open', v_quote.quote_number;
+  END IF;
+
+  UPDATE quotes
+     SET status = 'declined',
+         decline_reason = NULLIF(trim(p_reason), ''),
+         declined_at = now(),
+         updated_at = now()
+   WHERE id = p_quote_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decline_quote(uuid, text) TO authenticated;
+
+-- ═══════════════════════════════════════
+-- 5. Email template
+-- ═══════════════════════════════════════
+INSERT INTO email_templates (email_type, name, subject_template, body_html, variables, is_active)
+VALUES (
+  'quote_sent',
+  'Quote Sent',
+  'Your quote {{quote_number}} from {{rep_name}}',
+  $$<h2 style="color:#111827;font-size:20px;margin:0 0 8px 0;">Quote {{quote_number}}</h2>
+<p style="color:#6b7280;font-size:14px;margin:0 0 24px 0;">{{rep_name}} has prepared a quote for <strong>{{organization_name}}</strong>. These prices are available until <strong>{{expires_on}}</strong>.</p>
+<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="border:1px solid #e5e7eb;border-radius:8px;margin-bottom:16px;">
+  <tr>
+    <th style="padding:10px 12px;text-align:left;font-size:12px;color:#6b7280;">Item</th>
+    <th style="padding:10px 8px;text-align:center;font-size:12px;color:#6b7280;">Qty</th>
+    <th style="padding:10px 8px;text-align:right;font-size:12px;color:#6b7280;">Price</th>
+    <th style="padding:10px 12px;text-align:right;font-size:12px;color:#6b7280;">Total</th>
+  </tr>
+  {{item_rows}}
+</table>
+<p style="color:#111827;font-size:16px;font-weight:600;text-align:right;margin:0 0 16px 0;">Total ${{formatted_total}}</p>
+<p style="color:#374151;font-size:14px;white-space:pre-wrap;">{{notes}}</p>
+<p style="text-align:center;margin:24px 0;"><a href="{{quote_url}}" style="display:inline-block;background:#ec4899;color:#ffffff;padding:12px 24px;border-radius:8px;text-decoration:none;font-weight:600;">Review &amp; Accept</a></p>
+<p style="color:#6b7280;font-size:13px;">Shipping and tax are calculated at checkout.</p>$$,
+  '[
+    {"key":"quote_number","description":"Quote number","example":"Q-000042"},
+    {"key":"organization_name","description":"Customer organization","example":"Cypress Wellness Clinic"},
+    {"key":"rep_name","description":"Sales rep who prepared the quote","example":"Jordan Lee"},
+    {"key":"expires_on","description":"Last day the quote can be accepted","example":"April 30, 2026"},
+    {"key":"item_rows","description":"Quoted lines as table rows","example":""},
+    {"key":"formatted_total","description":"Quote total before shipping and tax","example":"1240.00"},
+    {"key":"notes","description":"Notes for the customer","example":"Pricing assumes quarterly reorders."},
+    {"key":"quote_url","description":"Link to review and accept the quote","example":"https://example.com/admin/quotes"}
+  ]'::jsonb,
+  true
+)
+ON CONFLICT (email_type) DO NOTHING;
@@ -0,0 +1,83 @@
+/*
+  # Replace contract price tier ladders atomically
+
+  Saving a quantity-break ladder cut off or deleted the product's existing
+  tier rows and then inserted the new ladder as separate requests. When the
+  insert was rejected (`validate_markup_allowance`, `check_pricing_conflict`)
+  the old ladder was already gone.
+
+  1. Functions
+    - `replace_contract_price_tiers()` - cuts off, deletes and inserts the
+      rows planned by contractPricingService.setPriceTiers in one
+      transaction, so a rejected ladder leaves the existing prices in place.
+      Callers need the same rights the contract_pricing policies give:
+      admins, or distributors for their customer organizations.
+*/
+
+CREATE OR REPLACE FUNCTION replace_contract_price_tiers(
+  p_pricing_type text,
+  p_entity_id uuid,
+  p_product_id integer,
+  p_truncate uuid[],
+  p_truncate_at timestamptz,
+  p_remove uuid[],
+  p_tiers jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NOT public.is_admin() AND NOT (
+    p_pricing_type = 'organization'
+    AND EXISTS (
+      SELECT 1
+      FROM distributor_customers dc
+      JOIN distributors d ON d.id = dc.distributor_id
+      WHERE d.profile_id = (select auth.uid())
+        AND dc.organization_id = p_entity_id
+        AND dc.is_active = true
+        AND d.is_active = true
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to manage contract pricing for this entity';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_populate_recordset(NULL::contract_pricing, p_tiers) t
+    WHERE t.pricing_type::text <> p_pricing_type
+      OR t.entity_id <> p_entity_id
+      OR t.product_id <> p_product_id
+  ) THEN
+    RAISE EXCEPTION 'Every tier must be for the same entity and product';
+  END IF;
+
+  -- Only rows of this entity and product can be cut off or removed
+  UPDATE contract_pricing
+  SET expiry_date = p_truncate_at
+  WHERE id = ANY(COALESCE(p_truncate, '{}'))
+    AND pricing_type::text = p_pricing_type
+    AND entity_id = p_entity_id
+    AND product_id = p_product_id;
+
+  DELETE FROM contract_pricing
+  WHERE id = ANY(COALESCE(p_remove, '{}'))
+    AND pricing_type::text = p_pricing_type
+    AND entity_id = p_entity_id
+    AND product_id = p_product_id;
+
+  INSERT INTO contract_pricing (
+    pricing_type, entity_id, user_id, product_id, contract_price, markup_price,
+    min_quantity, max_quantity, effective_date, expiry_date
+  )
+  SELECT
+    t.pricing_type, t.entity_id, t.user_id, t.product_id, t.contract_price, t.markup_price,
+    t.min_quantity, t.max_quantity, t.effective_date, t.expiry_date
+  FROM jsonb_populate_recordset(NULL::contract_pricing, COALESCE(p_tiers, '[]'::jsonb)) t;
+END;
+$$;
+
+COMMENT ON FUNCTION replace_contract_price_tiers IS 'Replaces a contract price tier ladder in one transaction: cuts off p_truncate rows at p_truncate_at, deletes p_remove rows and inserts p_tiers; any rejected tier rolls the whole change back';
+
+GRANT EXECUTE ON FUNCTION replace_contract_price_tiers(text, uuid, integer, uuid[], timestamptz, uuid[], jsonb) TO authenticated;
@@ -0,0 +1,329 @@
+/*
+  # Record order refunds server-side
+
+  A refund's bookkeeping (payment status, refund transaction, order notes,
+  commission cancel or clawback, the return it settles) ran only in
+  orderService.refundPayment in the browser. Refunds retried by the
+  QuickBooks sync worker only set the payment status and logged the
+  transaction, so their commission was never clawed back and their returns
+  stayed `received` with the old refund error.
+
+  1. Functions
+    - `record_order_refund()` - records a refund that went through with the
+      payment provider, in one transaction. Called by refundPayment and by
+      the sync worker. A refund already recorded under the same Payments
+      API request id is not recorded twice, so a worker retry is safe.
+    - `record_commission_clawback()` - internal; the prorated clawback from
+      prorateRefund() / payeeClawbacks() in src/services/commissionAdjustments.ts
+
+  2. Security
+    - Admins (who issue refunds) and the service role (sync worker) only
+*/
+
+-- ═══════════════════════════════════════
+-- 1. Commission clawback
+-- ═══════════════════════════════════════
+-- Same proration as prorateRefund() and payeeClawbacks() in
+-- src/services/commissionAdjustments.ts; keep them in step
+CREATE OR REPLACE FUNCTION record_commission_clawback(
+  p_commission_id uuid,
+  p_order_id uuid,
+  p_amount numeric,
+  p_order_total numeric,
+  p_lines jsonb,
+  p_source text,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_commission commissions;
+  v_distributor_profile uuid;
+  v_amount_share numeric;
+  v_fraction numeric;
+  v_details jsonb := '[]'::jsonb;
+  v_remaining jsonb := '{}'::jsonb;
+  v_item record;
+  v_available numeric;
+  v_refunded numeric;
+  v_clawback numeric;
+  v_total numeric := 0;
+  v_clawed numeric := 0;
+  v_split record;
+  v_outstanding numeric;
+  v_payee_amount numeric;
+  v_clawbacks jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_commission FROM commissions WHERE id = p_commission_id;
+  SELECT profile_id INTO v_distributor_profile FROM distributors WHERE id = v_commission.distributor_id;
+
+  v_amount_share := CASE WHEN p_order_total > 0 THEN LEAST(1, GREATEST(0, p_amount / p_order_total)) ELSE 0 END;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0
+     OR NOT EXISTS (SELECT 1 FROM commission_line_items WHERE commission_id = p_commission_id) THEN
+    -- Every line loses the refund's share of the order total
+    v_fraction := v_amount_share;
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'product_id', product_id,
+      'product_name', product_name,
+      'quantity', COALESCE(quantity, 0),
+      'refunded_quantity', round(COALESCE(quantity, 0) * v_amount_share, 2),
+      'item_commission', COALESCE(item_commission, 0),
+      'clawback', round(COALESCE(item_commission, 0) * v_amount_share, 2)
+    )) FILTER (WHERE round(COALESCE(item_commission, 0) * v_amount_share, 2) > 0), '[]'::jsonb)
+    INTO v_details
+    FROM commission_line_items
+    WHERE commission_id = p_commission_id;
+  ELSE
+    -- Refunded units are drawn down across lines of the same product
+    SELECT COALESCE(jsonb_object_agg(product_id, units), '{}'::jsonb) INTO v_remaining
+    FROM (
+      SELECT l->>'productId' AS product_id, sum(GREATEST((l->>'quantity')::numeric, 0)) AS units
+      FROM jsonb_array_elements(p_lines) l
+      GROUP BY 1
+    ) s;
+
+    FOR v_item IN
+      SELECT product_id, product_name, COALESCE(quantity, 0) AS quantity, COALESCE(item_commission, 0) AS item_commission
+      FROM commission_line_items
+      WHERE commission_id = p_commission_id
+    LOOP
+      v_available := CASE WHEN v_item.product_id IS NOT NULL
+        THEN COALESCE((v_remaining->>(v_item.product_id::text))::numeric, 0) ELSE 0 END;
+      v_refunded := LEAST(v_item.quantity, v_available);
+      IF v_item.product_id IS NOT NULL AND v_refunded > 0 THEN
+        v_remaining := jsonb_set(v_remaining, ARRAY[v_item.product_id::text], to_jsonb(v_available - v_refunded));
+      END IF;
+
+      v_clawback := CASE WHEN v_item.quantity > 0 THEN v_item.item_commission * v_refunded / v_item.quantity ELSE 0 END;
+      v_total := v_total + v_item.item_commission;
+      v_clawed := v_clawed + v_clawback;
+
+      IF round(v_clawback, 2) > 0 THEN
+        v_details := v_details || jsonb_build_object(
+          'product_id', v_item.product_id,
+          'product_name', v_item.product_name,
+          'quantity', v_item.quantity,
+          'refunded_quantity', v_refunded,
+          'item_commission', v_item.item_commission,
+          'clawback', round(v_clawback, 2)
+        );
+      END IF;
+    END LOOP;
+
+    v_fraction := CASE WHEN v_total > 0 THEN LEAST(1, v_clawed / v_total) ELSE 0 END;
+  END IF;
+
+  -- Each payee loses the same share of their split, never more than they were owed
+  FOR v_split IN
+    SELECT * FROM (VALUES
+      ('sales_rep', v_commission.sales_rep_id, COALESCE(v_commission.sales_rep_commission, v_commission.commission_amount, 0)),
+      ('distributor', v_distributor_profile, COALESCE(v_commission.distributor_commission, 0)),
+      ('company_rep', v_commission.company_rep_id, COALESCE(v_commission.company_rep_commission, 0))
+    ) AS s(payee_role, payee_id, split)
+  LOOP
+    CONTINUE WHEN v_split.payee_id IS NULL OR v_split.split <= 0;
+
+    SELECT round(v_split.split + COALESCE(sum(amount), 0), 2) INTO v_outstanding
+    FROM commission_adjustments
+    WHERE commission_id = p_commission_id
+      AND payee_role = v_split.payee_role
+      AND source IN ('refund', 'return')
+      AND status <> 'cancelled';
+
+    v_payee_amount := LEAST(round(v_split.split * v_fraction, 2), v_outstanding);
+    IF v_payee_amount >= 0.01 THEN
+      INSERT INTO commission_adjustments (
+        commission_id, order_id, payee_id, payee_role, amount, fraction,
+        source, refund_amount, reason, line_details
+      ) VALUES (
+        p_commission_id, p_order_id, v_split.payee_id, v_split.payee_role, -v_payee_amount, round(v_fraction, 6),
+        p_source, p_amount, p_reason, v_details
+      );
+      v_clawbacks := v_clawbacks || jsonb_build_object(
+        'payee_id', v_split.payee_id, 'payee_role', v_split.payee_role, 'amount', -v_payee_amount
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_clawbacks) > 0 THEN
+    INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+    VALUES (p_order_id, p_commission_id, 'clawback', jsonb_build_object(
+      'source', p_source,
+      'refund_amount', p_amount,
+      'fraction', v_fraction,
+      'previous_status', v_commission.status,
+      'clawbacks', v_clawbacks
+    ));
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_commission_clawback(uuid, uuid, numeric, numeric, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+
+-- ═══════════════════════════════════════
+-- 2. Refund bookkeeping
+-- ═══════════════════════════════════════
+/*
+  p_options keys (all optional):
+    request_id, quickbooks_refund_id - Payments API request and refund ids
+    via - what issued the refund, e.g. quickbooks_sync_queue
+    reason, include_shipping - appended to the order notes
+    cancel_commission, clawback_commission, lines, source, refunded_by - as
+      RefundOptions in src/services/orderService.ts
+    return_id - return request settled by this refund
+*/
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_authorization_id text DEFAULT NULL,
+  p_options jsonb DEFAULT '{}'::jsonb
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+DECLARE
+  v_order orders;
+  v_commission commissions;
+  v_options jsonb := COALESCE(p_options, '{}'::jsonb);
+  v_amount numeric := round(p_amount, 2);
+  v_refunded numeric;
+  v_remaining numeric;
+  v_status text;
+  v_now timestamptz := now();
+  v_stamp text := to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"');
+  v_amount_text text := to_char(round(p_amount, 2), 'FM999999990.00');
+  v_include_shipping boolean := COALESCE((v_options->>'include_shipping')::boolean, false);
+  v_refunded_by text := COALESCE(v_options->>'refunded_by', 'system');
+  v_notes text;
+BEGIN
+  -- Service role calls (the sync worker) carry no user
+  IF (select auth.uid()) IS NOT NULL AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record refunds';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- A retry of a refund that was already recorded
+  IF v_options->>'request_id' IS NOT NULL AND EXISTS (
+    SELECT 1 FROM payment_transactions
+    WHERE order_id = p_order_id
+      AND transaction_type = 'refund'
+      AND status = 'success'
+      AND metadata->>'request_id' = v_options->>'request_id'
+  ) THEN
+    RETURN v_order.payment_status;
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_refunded
+  FROM payment_transactions
+  WHERE order_id = p_order_id AND transaction_type = 'refund' AND status = 'success';
+
+  v_remaining := GREATEST(round(v_order.total - v_refunded, 2), 0);
+  IF v_amount > v_remaining THEN
+    RAISE EXCEPTION 'Refund exceeds the $% left to refund on this order', to_char(v_remaining, 'FM999999990.00');
+  END IF;
+
+  -- Fully refunded once nothing is left, however many refunds it took
+  v_status := CASE WHEN v_amount < v_remaining THEN 'partially_refunded' ELSE 'refunded' END;
+
+  -- Same entries as orderService.logPaymentEvent and the refund note
+  v_notes := concat_ws(E'\n', NULLIF(v_order.notes, ''), format(
+    '[%s] %s: QuickBooks Payments ****%s - $%s - %s (txn: %s)',
+    v_stamp,
+    CASE WHEN v_status = 'refunded' THEN 'payment_refunded' ELSE 'payment_partially_refunded' END,
+    COALESCE(right(p_authorization_id, 4), '----'),
+    v_amount_text,
+    v_status,
+    COALESCE(p_authorization_id, 'none')
+  ));
+  IF v_options->>'reason' IS NOT NULL OR v_include_shipping THEN
+    v_notes := v_notes || E'\n' || format(
+      '[%s] Refund $%s%s%s',
+      v_stamp,
+      v_amount_text,
+      CASE WHEN v_include_shipping THEN ' (includes shipping)' ELSE '' END,
+      CASE WHEN v_options->>'reason' IS NOT NULL THEN ' | Reason: ' || (v_options->>'reason') ELSE '' END
+    );
+  END IF;
+
+  UPDATE orders
+  SET payment_status = v_status, notes = v_notes, updated_at = v_now
+  WHERE id = p_order_id;
+
+  INSERT INTO payment_transactions (
+    order_id, transaction_type, gateway_transaction_id, amount, status, last_four, metadata, created_by
+  ) VALUES (
+    p_order_id, 'refund', p_authorization_id, v_amount, 'success', right(p_authorization_id, 4),
+    jsonb_strip_nulls(jsonb_build_object(
+      'request_id', v_options->>'request_id',
+      'quickbooks_refund_id', v_options->>'quickbooks_refund_id',
+      'source', v_options->>'via'
+    )),
+    (select auth.uid())
+  );
+
+  -- A partial refund, or one after the commission was paid, can't cancel the
+  -- whole commission, so it is clawed back by the refunded share instead.
+  -- After earlier refunds the last one claws back the rest.
+  IF COALESCE((v_options->>'cancel_commission')::boolean, false)
+     OR COALESCE((v_options->>'clawback_commission')::boolean, false) THEN
+    SELECT * INTO v_commission FROM commissions WHERE order_id = p_order_id FOR UPDATE;
+
+    IF FOUND AND v_commission.status <> 'cancelled' THEN
+      IF COALESCE((v_options->>'cancel_commission')::boolean, false)
+         AND v_status = 'refunded' AND v_refunded = 0
+         AND v_commission.status <> 'paid' AND v_commission.payout_run_id IS NULL THEN
+        UPDATE commissions
+        SET status = 'cancelled',
+            notes = concat_ws(E'\n', NULLIF(notes, ''), format(
+              '[Cancelled] Full refund of $%s on order (by %s on %s)', v_amount_text, v_refunded_by, v_stamp
+            ))
+        WHERE id = v_commission.id;
+
+        INSERT INTO commission_audit_log (order_id, commission_id, event, details)
+        VALUES (p_order_id, v_commission.id, 'cancelled', jsonb_build_object(
+          'reason', format('Full refund of $%s on order', v_amount_text),
+          'cancelled_by', v_refunded_by,
+          'previous_status', v_commission.status
+        ));
+      ELSE
+        PERFORM record_commission_clawback(
+          v_commission.id,
+          p_order_id,
+          v_amount,
+          v_order.total,
+          v_options->'lines',
+          COALESCE(v_options->>'source', 'refund'),
+          v_options->>'reason'
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_options->>'return_id' IS NOT NULL THEN
+    UPDATE return_requests
+    SET status = 'refunded', refund_amount = v_amount, refund_error = NULL, refunded_at = v_now, updated_at = v_now
+    WHERE id = (v_options->>'return_id')::uuid AND order_id = p_order_id;
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_order_refund(uuid, numeric, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_order_refund(uuid, numeric, text, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION record_order_refund IS 'Records a refund that went through with the payment provider: payment status, refund transaction, order notes, commission cancel or clawback and the settled return, in one transaction. Returns the new payment status';
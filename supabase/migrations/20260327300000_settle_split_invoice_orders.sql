@@ -0,0 +1,72 @@
+/*
+  # Split invoice orders settle with their invoice
+
+  Orders split off an invoiced order (backorder splits and vendor
+  sub-orders) never carried the QuickBooks invoice id, so a QuickBooks
+  payment only settled the original order and the split orders stayed
+  `pending` against the organization's credit limit.
+
+  An order split off is billed on the invoice of the order it came from:
+    - backorder splits of an already invoiced order copy its invoice id when
+      they are created (orderService); split before the original was
+      invoiced, they get their own invoice, since the original's invoice is
+      built from its remaining items only
+    - vendor sub-orders never get an invoice of their own: the split parent
+      keeps every item, and its invoice id is copied to its sub-orders
+      whenever it is set
+
+  1. Functions
+    - `queue_invoice_for_terms_order()` - skips orders that are already on
+      an invoice and vendor sub-orders
+    - `link_sub_orders_to_invoice()` - copies a parent's invoice id to its
+      vendor sub-orders
+*/
+
+CREATE OR REPLACE FUNCTION queue_invoice_for_terms_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  IF NEW.payment_method = 'invoice' AND NOT COALESCE(NEW.is_test_order, false)
+     AND NEW.quickbooks_invoice_id IS NULL AND NOT COALESCE(NEW.is_sub_order, false) THEN
+    PERFORM queue_quickbooks_sync_job('invoice', NEW.id::text, 'invoice:' || NEW.id, '{}'::jsonb);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION link_sub_orders_to_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'pg_temp'
+AS $$
+BEGIN
+  UPDATE orders
+  SET quickbooks_invoice_id = NEW.quickbooks_invoice_id, updated_at = now()
+  WHERE parent_order_id = NEW.id
+    AND COALESCE(is_sub_order, false)
+    AND payment_method = 'invoice'
+    AND quickbooks_invoice_id IS DISTINCT FROM NEW.quickbooks_invoice_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_sub_orders_to_invoice ON orders;
+CREATE TRIGGER link_sub_orders_to_invoice
+  AFTER UPDATE OF quickbooks_invoice_id ON orders
+  FOR EACH ROW
+  WHEN (NEW.quickbooks_invoice_id IS NOT NULL AND NEW.payment_method = 'invoice')
+  EXECUTE FUNCTION link_sub_orders_to_invoice();
+
+-- Sub-orders split before this migration
+UPDATE orders s
+SET quickbooks_invoice_id = p.quickbooks_invoice_id
+FROM orders p
+WHERE s.parent_order_id = p.id
+  AND COALESCE(s.is_sub_order, false)
+  AND s.payment_method = 'invoice'
+  AND s.quickbooks_invoice_id IS NULL
+  AND p.quickbooks_invoice_id IS NOT NULL;